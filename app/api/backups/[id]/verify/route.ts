@@ -0,0 +1,117 @@
+/**
+ * POST /api/backups/[id]/verify
+ *
+ * Verifies a pre-sync backup the same way /api/snapshots/[id]/verify checks
+ * a snapshot: chunk checksums and statements, plus a restore rehearsal into a
+ * scratch schema when rehearsalConnectionId is given. The result is stored on
+ * the backup and returned.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getUser } from '@/lib/supabase/server';
+import { supabaseBackupStore, supabaseConnectionStore } from '@/lib/db/supabase-store';
+import { decrypt } from '@/lib/services/encryption';
+import { verifyBackupFiles } from '@/lib/services/backup-service';
+import { getBackupStorage } from '@/lib/services/backup-storage';
+import { SnapshotVerifySchema, validateInput } from '@/lib/validations/schemas';
+import { validateCSRFProtection, createCSRFErrorResponse } from '@/lib/services/csrf-protection';
+import { checkDistributedRateLimit, createDistributedRateLimitHeaders } from '@/lib/services/rate-limiter-redis';
+import { sanitizeErrorMessage } from '@/lib/services/security-utils';
+import { logger } from '@/lib/services/logger';
+
+export const maxDuration = 300;
+
+const VERIFY_ALLOWED_STATUSES = ['completed', 'restored'];
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // CSRF Protection
+    const csrfValidation = await validateCSRFProtection(request);
+    if (!csrfValidation.valid) {
+      return createCSRFErrorResponse(csrfValidation.error || 'CSRF validation failed');
+    }
+
+    const user = await getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const rateLimitResult = await checkDistributedRateLimit(user.id, 'sync');
+    if (!rateLimitResult.allowed) {
+      return NextResponse.json(
+        { success: false, error: 'Too many requests. Please slow down.' },
+        { status: 429, headers: createDistributedRateLimitHeaders(rateLimitResult, 'sync') }
+      );
+    }
+
+    const { id } = await params;
+
+    const validation = validateInput(SnapshotVerifySchema, await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: validation.errors.join(', ') },
+        { status: 400 }
+      );
+    }
+
+    const { rehearsalConnectionId } = validation.data;
+
+    const backup = await supabaseBackupStore.getById(id, user.id);
+    if (!backup) {
+      return NextResponse.json(
+        { success: false, error: 'Backup not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!VERIFY_ALLOWED_STATUSES.includes(backup.status)) {
+      return NextResponse.json(
+        { success: false, error: `Cannot verify a backup with status: ${backup.status}` },
+        { status: 409 }
+      );
+    }
+
+    let rehearsalUrl: string | undefined;
+    if (rehearsalConnectionId) {
+      const connection = await supabaseConnectionStore.getById(rehearsalConnectionId, user.id);
+      if (!connection) {
+        return NextResponse.json(
+          { success: false, error: 'Connection not found' },
+          { status: 404 }
+        );
+      }
+      rehearsalUrl = decrypt(connection.encrypted_url);
+    }
+
+    logger.info('Verifying backup', { backupId: id, rehearsal: Boolean(rehearsalUrl) });
+
+    const verification = await verifyBackupFiles({
+      backupPath: backup.backup_path,
+      storage: getBackupStorage(backup.storage_adapter),
+      tables: backup.tables,
+      tableRowCounts: (backup.table_row_counts ?? {}) as Record<string, number>,
+      rehearsalUrl,
+    });
+
+    const updated = await supabaseBackupStore.updateVerification(id, user.id, verification);
+
+    return NextResponse.json({
+      success: true,
+      data: updated ?? { ...backup, verification, verified_at: verification.verifiedAt },
+    });
+  } catch (error) {
+    logger.error('Failed to verify backup', { error });
+
+    return NextResponse.json(
+      { success: false, error: sanitizeErrorMessage((error as Error).message) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * GET /api/backups
+ *
+ * The user's pre-sync backups, newest first, with their last verification.
+ * Named snapshots are listed by /api/snapshots.
+ */
+
+import { NextResponse } from 'next/server';
+import { getUser } from '@/lib/supabase/server';
+import { supabaseBackupStore } from '@/lib/db/supabase-store';
+import { sanitizeErrorMessage } from '@/lib/services/security-utils';
+import { logger } from '@/lib/services/logger';
+
+export async function GET() {
+  try {
+    const user = await getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const backups = await supabaseBackupStore.getAll(user.id);
+
+    return NextResponse.json({
+      success: true,
+      data: backups,
+    });
+  } catch (error) {
+    logger.error('Failed to list backups', { error });
+
+    return NextResponse.json(
+      { success: false, error: sanitizeErrorMessage((error as Error).message) },
+      { status: 500 }
+    );
+  }
+}
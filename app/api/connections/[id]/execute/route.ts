@@ -3,6 +3,12 @@
  * 
  * Executes SQL on a database connection.
  * Proxies to backend for SQL execution.
+ * 
+ * With `dryRun: true` the script runs statement by statement inside a
+ * transaction that is always rolled back, and the response reports each
+ * statement's row count, notices, error and timing (SqlDryRunResult).
+ * A dry run still takes locks until the rollback, so dry runs against
+ * production connections require the X-Confirm-Production header.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -44,8 +50,22 @@ export const POST = async (request: NextRequest, { params }: { params: Promise<{
     // Get request body
     const body = await request.json();
     
+    if (body.dryRun && connection.environment === 'production' && request.headers.get('X-Confirm-Production') !== 'true') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Dry runs on production require confirmation',
+          requiresConfirmation: true,
+          message: 'A dry run holds locks on a production database until it is rolled back. Set X-Confirm-Production header to "true" to proceed.',
+        },
+        { status: 400 }
+      );
+    }
+    
     // Forward to backend with encrypted URL
-    const proxyHandler = createProxyPOST((req) => `/api/connections/${id}/execute`);
+    const proxyHandler = createProxyPOST((req) => `/api/connections/${id}/execute`, {
+      forwardHeaders: ['x-confirm-production'],
+    });
     
     const modifiedRequest = new NextRequest(request.url, {
       method: 'POST',
@@ -0,0 +1,115 @@
+/**
+ * POST /api/connections/[id]/migrations/[migrationId]/rollback
+ *
+ * Runs a ledger entry's rollback script against its target connection, in a
+ * single transaction, and records the outcome on the entry. The script only
+ * undoes the scripts that were applied, so failed migrations roll back too.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getUser } from '@/lib/supabase/server';
+import { supabaseConnectionStore, supabaseSchemaMigrationStore } from '@/lib/db/supabase-store';
+import { decrypt } from '@/lib/services/encryption';
+import { rollbackMigrationOnDatabase } from '@/lib/services/migration-ledger';
+import { MigrationRollbackSchema, validateInput } from '@/lib/validations/schemas';
+import { validateCSRFProtection, createCSRFErrorResponse } from '@/lib/services/csrf-protection';
+import { checkDistributedRateLimit, createDistributedRateLimitHeaders } from '@/lib/services/rate-limiter-redis';
+import { sanitizeErrorMessage } from '@/lib/services/security-utils';
+import { logger } from '@/lib/services/logger';
+
+// A rollback failure is retryable; an entry only rolls back once
+const ROLLBACK_ALLOWED_STATUSES = ['applied', 'failed', 'rollback_failed'];
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; migrationId: string }> }
+) {
+  try {
+    // CSRF Protection
+    const csrfValidation = await validateCSRFProtection(request);
+    if (!csrfValidation.valid) {
+      return createCSRFErrorResponse(csrfValidation.error || 'CSRF validation failed');
+    }
+
+    const user = await getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const rateLimitResult = await checkDistributedRateLimit(user.id, 'write');
+    if (!rateLimitResult.allowed) {
+      return NextResponse.json(
+        { success: false, error: 'Too many requests. Please slow down.' },
+        { status: 429, headers: createDistributedRateLimitHeaders(rateLimitResult, 'write') }
+      );
+    }
+
+    const { id, migrationId } = await params;
+
+    const validation = validateInput(MigrationRollbackSchema, await request.json().catch(() => ({})));
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: validation.errors.join(', ') },
+        { status: 400 }
+      );
+    }
+
+    const [connection, migration] = await Promise.all([
+      supabaseConnectionStore.getById(id, user.id),
+      supabaseSchemaMigrationStore.getById(migrationId, user.id),
+    ]);
+
+    if (!connection || !migration || migration.target_connection_id !== id) {
+      return NextResponse.json(
+        { success: false, error: 'Migration not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!ROLLBACK_ALLOWED_STATUSES.includes(migration.status)) {
+      return NextResponse.json(
+        { success: false, error: `Cannot roll back a migration that is ${migration.status.replace('_', ' ')}` },
+        { status: 409 }
+      );
+    }
+
+    if (connection.environment === 'production' && validation.data.confirmationPhrase !== connection.name) {
+      return NextResponse.json(
+        { success: false, error: `Type "${connection.name}" to confirm a rollback on production` },
+        { status: 400 }
+      );
+    }
+
+    logger.info('Rolling back schema migration', { migrationId, targetConnectionId: id });
+
+    let rollbackError: string | null = null;
+    try {
+      await rollbackMigrationOnDatabase(decrypt(connection.encrypted_url), migration.rollback_script);
+    } catch (error) {
+      rollbackError = error instanceof Error ? error.message : 'Rollback failed';
+    }
+
+    const updated = await supabaseSchemaMigrationStore.update(migrationId, user.id, {
+      status: rollbackError ? 'rollback_failed' : 'rolled_back',
+      rollbackError,
+      ...(!rollbackError && { rolledBackAt: new Date() }),
+    });
+
+    return NextResponse.json({
+      success: !rollbackError,
+      data: updated ?? migration,
+      ...(rollbackError && { error: rollbackError }),
+    });
+  } catch (error) {
+    logger.error('Failed to roll back schema migration', { error });
+
+    return NextResponse.json(
+      { success: false, error: sanitizeErrorMessage((error as Error).message) },
+      { status: 500 }
+    );
+  }
+}
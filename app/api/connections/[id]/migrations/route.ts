@@ -0,0 +1,236 @@
+/**
+ * Schema Migration Ledger
+ *
+ * GET /api/connections/[id]/migrations - Migrations applied to this target
+ * POST /api/connections/[id]/migrations - Regenerate the plan from a source
+ *   connection, check it still matches the reviewed plan's checksum, apply it
+ *   here (stopping at the first failing script), verify the result and record
+ *   it in the ledger
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getUser } from '@/lib/supabase/server';
+import { supabaseConnectionStore, supabaseSchemaMigrationStore } from '@/lib/db/supabase-store';
+import { decrypt } from '@/lib/services/encryption';
+import { getTableValidationOptions, validateSchemas } from '@/lib/services/schema-validator';
+import { generateMigrationPlan, generateRollbackScript } from '@/lib/services/schema-migration-generator';
+import {
+  applyMigrationToDatabase,
+  checksumMigrationPlan,
+  getAppliedScripts,
+  listDatabaseTables,
+  summarizeVerification,
+} from '@/lib/services/migration-ledger';
+import { MigrationApplySchema, validateInput } from '@/lib/validations/schemas';
+import { validateCSRFProtection, createCSRFErrorResponse } from '@/lib/services/csrf-protection';
+import { checkDistributedRateLimit, createDistributedRateLimitHeaders } from '@/lib/services/rate-limiter-redis';
+import { sanitizeErrorMessage } from '@/lib/services/security-utils';
+import { logger } from '@/lib/services/logger';
+import type { MigrationScriptResult, MigrationVerification } from '@/types';
+
+/**
+ * GET /api/connections/[id]/migrations
+ * Ledger entries for this target connection, newest first
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+
+    const connection = await supabaseConnectionStore.getById(id, user.id);
+    if (!connection) {
+      return NextResponse.json(
+        { success: false, error: 'Connection not found' },
+        { status: 404 }
+      );
+    }
+
+    const migrations = await supabaseSchemaMigrationStore.getByTarget(id, user.id);
+
+    return NextResponse.json({
+      success: true,
+      data: migrations,
+    });
+  } catch (error) {
+    logger.error('Failed to list schema migrations', { error });
+
+    return NextResponse.json(
+      { success: false, error: sanitizeErrorMessage((error as Error).message) },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/connections/[id]/migrations
+ * Apply the migration plan that makes this connection match the source
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // CSRF Protection
+    const csrfValidation = await validateCSRFProtection(request);
+    if (!csrfValidation.valid) {
+      return createCSRFErrorResponse(csrfValidation.error || 'CSRF validation failed');
+    }
+
+    const user = await getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const rateLimitResult = await checkDistributedRateLimit(user.id, 'write');
+    if (!rateLimitResult.allowed) {
+      return NextResponse.json(
+        { success: false, error: 'Too many requests. Please slow down.' },
+        { status: 429, headers: createDistributedRateLimitHeaders(rateLimitResult, 'write') }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+
+    const validation = validateInput(MigrationApplySchema, body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: validation.errors.join(', ') },
+        { status: 400 }
+      );
+    }
+
+    const { sourceConnectionId, renameDecisions, planChecksum, confirmationPhrase } = validation.data;
+
+    if (sourceConnectionId === id) {
+      return NextResponse.json(
+        { success: false, error: 'Source and target must be different connections' },
+        { status: 400 }
+      );
+    }
+
+    const [sourceConnection, targetConnection] = await Promise.all([
+      supabaseConnectionStore.getById(sourceConnectionId, user.id),
+      supabaseConnectionStore.getById(id, user.id),
+    ]);
+
+    if (!sourceConnection || !targetConnection) {
+      return NextResponse.json(
+        { success: false, error: 'Connection not found' },
+        { status: 404 }
+      );
+    }
+
+    if (targetConnection.environment === 'production' && confirmationPhrase !== targetConnection.name) {
+      return NextResponse.json(
+        { success: false, error: `Type "${targetConnection.name}" to confirm a migration on production` },
+        { status: 400 }
+      );
+    }
+
+    const sourceUrl = decrypt(sourceConnection.encrypted_url);
+    const targetUrl = decrypt(targetConnection.encrypted_url);
+
+    // No tables means every table in the source
+    const { tableNames, changeTrackingColumns, rowFilters } = getTableValidationOptions(validation.data.tables);
+    const tables = tableNames.length > 0
+      ? tableNames
+      : await listDatabaseTables(sourceUrl, sourceConnection.schemas);
+
+    const plan = generateMigrationPlan(
+      await validateSchemas(sourceUrl, targetUrl, tables, changeTrackingColumns, rowFilters),
+      'source_to_target',
+      renameDecisions
+    );
+
+    if (plan.scripts.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'No migration needed - the schemas already match' },
+        { status: 400 }
+      );
+    }
+
+    // Either schema may have changed since the plan was reviewed
+    const checksum = checksumMigrationPlan(plan.scripts);
+    if (checksum !== planChecksum) {
+      return NextResponse.json(
+        { success: false, error: 'The schemas changed since this plan was generated - review the new plan and try again' },
+        { status: 409 }
+      );
+    }
+
+    const migration = await supabaseSchemaMigrationStore.create(user.id, {
+      sourceConnectionId,
+      targetConnectionId: id,
+      tables,
+      checksum,
+      script: plan.fullScript,
+      rollbackScript: plan.rollbackScript,
+    });
+
+    logger.info('Applying schema migration', {
+      migrationId: migration.id,
+      targetConnectionId: id,
+      scripts: plan.scripts.length,
+    });
+
+    let results: MigrationScriptResult[] = [];
+    let applyError: string | null = null;
+
+    try {
+      results = await applyMigrationToDatabase(targetUrl, plan.scripts);
+      applyError = results.find((result) => result.status === 'error')?.error ?? null;
+    } catch (error) {
+      applyError = error instanceof Error ? error.message : 'Migration failed';
+    }
+
+    // Verify whenever anything was applied, so a partial migration is visible
+    let verification: MigrationVerification | null = null;
+    if (results.some((result) => result.status === 'success')) {
+      try {
+        verification = summarizeVerification(
+          await validateSchemas(sourceUrl, targetUrl, tables, changeTrackingColumns, rowFilters)
+        );
+      } catch (error) {
+        logger.warn('Schema migration verification failed', { migrationId: migration.id, error });
+      }
+    }
+
+    const updated = await supabaseSchemaMigrationStore.update(migration.id, user.id, {
+      status: applyError ? 'failed' : 'applied',
+      results,
+      error: applyError,
+      verification,
+      rollbackScript: generateRollbackScript(getAppliedScripts(plan.scripts, results)),
+      finishedAt: new Date(),
+    });
+
+    return NextResponse.json({
+      success: !applyError,
+      data: updated ?? migration,
+      ...(applyError && { error: applyError }),
+    });
+  } catch (error) {
+    logger.error('Failed to apply schema migration', { error });
+
+    return NextResponse.json(
+      { success: false, error: sanitizeErrorMessage((error as Error).message) },
+      { status: 500 }
+    );
+  }
+}
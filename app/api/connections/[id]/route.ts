@@ -41,6 +41,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
         id: connection.id,
         name: connection.name,
         environment: connection.environment,
+        schemas: connection.schemas,
         createdAt: connection.created_at,
         updatedAt: connection.updated_at,
       },
@@ -85,7 +86,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     
     // Decrypt and test connection
     const databaseUrl = decrypt(connection.encrypted_url);
-    const testResult = await testConnection(databaseUrl);
+    const testResult = await testConnection(databaseUrl, connection.schemas);
     
     if (!testResult.success) {
       return NextResponse.json(
@@ -95,7 +96,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     }
     
     // Get syncable tables
-    const tables = await getSyncableTables(databaseUrl);
+    const tables = await getSyncableTables(databaseUrl, connection.schemas);
     
     return NextResponse.json({
       success: true,
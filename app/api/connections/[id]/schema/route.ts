@@ -10,9 +10,19 @@ import { supabaseConnectionStore } from '@/lib/db/supabase-store';
 import { getUser } from '@/lib/supabase/server';
 import { createProxyGET } from '@/lib/utils/proxy-handler';
 import { logger } from '@/lib/services/logger';
+import { getApiTokenFromRequest } from '@/lib/services/api-tokens';
 
 export const GET = async (request: NextRequest, { params }: { params: Promise<{ id: string }> }) => {
   try {
+    const { id } = await params;
+    
+    // Token requests go straight to the backend, which loads the connection
+    if (getApiTokenFromRequest(request)) {
+      const proxyHandler = createProxyGET(`/api/connections/${id}/schema`, { allowApiTokens: true });
+      
+      return proxyHandler(request);
+    }
+    
     const user = await getUser();
     
     if (!user) {
@@ -22,8 +32,6 @@ export const GET = async (request: NextRequest, { params }: { params: Promise<{
       );
     }
     
-    const { id } = await params;
-    
     // Get connection from Supabase
     const connection = await supabaseConnectionStore.getById(id, user.id);
     
@@ -38,12 +46,9 @@ export const GET = async (request: NextRequest, { params }: { params: Promise<{
     const url = new URL(request.url);
     url.searchParams.set('encryptedUrl', connection.encrypted_url);
     
-    const proxyHandler = createProxyGET((req) => {
-      const url = new URL(req.url);
-      return `/api/connections/${id}/schema${url.search}`;
-    });
+    const proxyHandler = createProxyGET(`/api/connections/${id}/schema`);
     
-    return proxyHandler(request);
+    return proxyHandler(new NextRequest(url, { headers: request.headers }));
     
   } catch (error) {
     logger.error('Schema proxy error', { error });
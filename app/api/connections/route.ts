@@ -9,10 +9,17 @@ import { checkConnectionLimit, updateConnectionCount } from '@/lib/services/usag
 import { validateCSRFProtection, createCSRFErrorResponse } from '@/lib/services/csrf-protection';
 import { sanitizeErrorMessage } from '@/lib/services/security-utils';
 import { logger } from '@/lib/services/logger';
+import { createProxyGET } from '@/lib/utils/proxy-handler';
+import { getApiTokenFromRequest } from '@/lib/services/api-tokens';
 
 // GET - List all connections for the authenticated user
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
+    // Token requests are listed by the backend
+    if (getApiTokenFromRequest(request)) {
+      return createProxyGET('/api/connections', { allowApiTokens: true })(request);
+    }
+    
     const user = await getUser();
     
     if (!user) {
@@ -38,6 +45,7 @@ export async function GET() {
       id: conn.id,
       name: conn.name,
       environment: conn.environment,
+      schemas: conn.schemas,
       keepAlive: conn.keep_alive,
       lastPingedAt: conn.last_pinged_at,
       createdAt: conn.created_at,
@@ -97,7 +105,7 @@ export async function POST(request: NextRequest) {
       );
     }
     
-    const { name, databaseUrl, environment } = validation.data;
+    const { name, databaseUrl, environment, schemas } = validation.data;
     
     // Validate database URL format (additional check)
     if (!validateDatabaseUrl(databaseUrl)) {
@@ -122,7 +130,7 @@ export async function POST(request: NextRequest) {
     }
     
     // Test the connection
-    const connectionTest = await testConnection(databaseUrl);
+    const connectionTest = await testConnection(databaseUrl, schemas);
     
     if (!connectionTest.success) {
       return NextResponse.json(
@@ -132,7 +140,7 @@ export async function POST(request: NextRequest) {
     }
     
     // Get syncable tables
-    const tables = await getSyncableTables(databaseUrl);
+    const tables = await getSyncableTables(databaseUrl, schemas);
     
     // Encrypt the database URL
     const encryptedUrl = encrypt(databaseUrl);
@@ -142,6 +150,7 @@ export async function POST(request: NextRequest) {
       name,
       encryptedUrl,
       environment,
+      schemas,
     });
     
     // Update connection count (non-blocking - don't fail if this errors)
@@ -159,6 +168,7 @@ export async function POST(request: NextRequest) {
         id: connection.id,
         name: connection.name,
         environment: connection.environment,
+        schemas: connection.schemas,
         maskedUrl: maskDatabaseUrl(databaseUrl),
         version: connectionTest.version,
         tableCount: connectionTest.tableCount,
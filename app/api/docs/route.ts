@@ -103,7 +103,34 @@ const apiDocs = {
       },
       '/sync/generate-migration': {
         method: 'POST',
-        description: 'Generate migration SQL',
+        description: 'Generate migration SQL (format: json, supabase, drizzle or zip)',
+        authentication: true,
+      },
+      '/sync/data-diff': {
+        method: 'POST',
+        description: 'Compare table rows between two connections (format: report, json or csv)',
+        authentication: true,
+      },
+    },
+    snapshots: {
+      '/snapshots': {
+        methods: ['GET', 'POST'],
+        description: 'List snapshots or snapshot a connection',
+        authentication: true,
+      },
+      '/snapshots/{id}': {
+        methods: ['GET', 'DELETE'],
+        description: 'Get or delete a snapshot',
+        authentication: true,
+      },
+      '/snapshots/{id}/restore': {
+        method: 'POST',
+        description: 'Restore a snapshot into a connection (SSE progress stream)',
+        authentication: true,
+      },
+      '/snapshots/{id}/verify': {
+        method: 'POST',
+        description: 'Verify a snapshot, optionally rehearsing its restore in a scratch schema',
         authentication: true,
       },
     },
@@ -115,7 +142,22 @@ const apiDocs = {
       },
       '/explorer/{connectionId}/{table}/rows': {
         method: 'GET',
-        description: 'Get table rows (paginated)',
+        description: 'Get table rows (cursor-paginated, with optional search and filter)',
+        authentication: true,
+      },
+      '/explorer/{connectionId}/{table}/export': {
+        method: 'GET',
+        description: 'Download rows as CSV, NDJSON or SQL INSERT statements (same search, filter and sort as rows)',
+        authentication: true,
+      },
+      '/explorer/{connectionId}/{table}/import/preview': {
+        method: 'POST',
+        description: 'Preview an uploaded CSV or NDJSON file with a suggested column mapping',
+        authentication: true,
+      },
+      '/explorer/{connectionId}/{table}/import': {
+        method: 'POST',
+        description: 'Import a CSV or NDJSON file (insert or upsert), streaming progress and per-row errors',
         authentication: true,
       },
       '/explorer/{connectionId}/{table}/row': {
@@ -123,6 +165,11 @@ const apiDocs = {
         description: 'Manage individual rows',
         authentication: true,
       },
+      '/explorer/{connectionId}/{table}/changes': {
+        method: 'POST',
+        description: 'Commit staged inserts, updates and deletes in one transaction',
+        authentication: true,
+      },
     },
     admin: {
       '/admin/users': {
@@ -0,0 +1,156 @@
+/**
+ * POST /api/explorer/[connectionId]/[table]/changes
+ *
+ * Commits the edits staged in the explorer grid (inserts, updates and
+ * deletes) as one parameterized transaction; see row-changes.ts. Writes to
+ * production connections require the X-Confirm-Production header, and every
+ * committed batch is recorded in the security audit log.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getUser } from '@/lib/supabase/server';
+import { supabaseConnectionStore } from '@/lib/db/supabase-store';
+import { decrypt } from '@/lib/services/encryption';
+import { createDrizzleClient, type DrizzleConnection } from '@/lib/services/drizzle-factory';
+import { inspectTable } from '@/lib/services/schema-inspector';
+import {
+  applyRowChanges,
+  describeRowKey,
+  RowChangeConflictError,
+  validateRowChanges,
+} from '@/lib/services/row-changes';
+import { logRowChanges } from '@/lib/services/security-logger';
+import { ExplorerRowChangesSchema, validateInput } from '@/lib/validations/schemas';
+import { validateCSRFProtection, createCSRFErrorResponse } from '@/lib/services/csrf-protection';
+import { checkDistributedRateLimit, createDistributedRateLimitHeaders } from '@/lib/services/rate-limiter-redis';
+import { extractIP, isValidQualifiedTableName, sanitizeErrorMessage } from '@/lib/services/security-utils';
+import { logger } from '@/lib/services/logger';
+
+export const POST = async (
+  request: NextRequest,
+  { params }: { params: Promise<{ connectionId: string; table: string }> }
+) => {
+  let connection: DrizzleConnection | null = null;
+
+  try {
+    // CSRF Protection
+    const csrfValidation = await validateCSRFProtection(request);
+    if (!csrfValidation.valid) {
+      return createCSRFErrorResponse(csrfValidation.error || 'CSRF validation failed');
+    }
+
+    const user = await getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const rateLimitResult = await checkDistributedRateLimit(user.id, 'write');
+    if (!rateLimitResult.allowed) {
+      return NextResponse.json(
+        { success: false, error: 'Too many requests. Please slow down.' },
+        { status: 429, headers: createDistributedRateLimitHeaders(rateLimitResult, 'write') }
+      );
+    }
+
+    const { connectionId, table } = await params;
+    const tableName = decodeURIComponent(table);
+
+    if (!isValidQualifiedTableName(tableName)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid table name' },
+        { status: 400 }
+      );
+    }
+
+    const validation = validateInput(ExplorerRowChangesSchema, await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: validation.errors.join(', ') },
+        { status: 400 }
+      );
+    }
+
+    const changes = validation.data;
+
+    const dbConnection = await supabaseConnectionStore.getById(connectionId, user.id);
+
+    if (!dbConnection) {
+      return NextResponse.json(
+        { success: false, error: 'Connection not found' },
+        { status: 404 }
+      );
+    }
+
+    if (dbConnection.environment === 'production' && request.headers.get('X-Confirm-Production') !== 'true') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Production write requires confirmation',
+          requiresConfirmation: true,
+        },
+        { status: 400 }
+      );
+    }
+
+    connection = createDrizzleClient(decrypt(dbConnection.encrypted_url));
+
+    const schema = await inspectTable(connection, tableName);
+    const keyColumns = schema.primaryKey?.columns ?? [];
+
+    const errors = validateRowChanges(changes, schema.columns.map((c) => c.name), keyColumns);
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { success: false, error: errors.join(', ') },
+        { status: 400 }
+      );
+    }
+
+    const result = await applyRowChanges(connection, tableName, changes, keyColumns);
+
+    await logRowChanges({
+      userId: user.id,
+      ipAddress: extractIP(request.headers) || undefined,
+      userAgent: request.headers.get('user-agent') || undefined,
+      endpoint: `/api/explorer/${connectionId}/${table}/changes`,
+      method: 'POST',
+      details: {
+        connectionId,
+        connectionName: dbConnection.name,
+        environment: dbConnection.environment,
+        table: tableName,
+        inserted: result.inserted,
+        updated: result.updated,
+        deleted: result.deleted,
+        updatedRows: changes.updates.map((u) => ({ key: describeRowKey(u.key), columns: Object.keys(u.values) })),
+        deletedRows: changes.deletes.map((d) => describeRowKey(d.key)),
+      },
+    }).catch((error) => logger.error('Failed to audit row changes', { error }));
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+
+  } catch (error) {
+    if (error instanceof RowChangeConflictError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 409 }
+      );
+    }
+
+    logger.error('Explorer row changes error', { error });
+    return NextResponse.json(
+      { success: false, error: sanitizeErrorMessage((error as Error).message) },
+      { status: 500 }
+    );
+  } finally {
+    if (connection) {
+      await connection.close();
+    }
+  }
+};
@@ -0,0 +1,193 @@
+/**
+ * GET /api/explorer/[connectionId]/[table]/export
+ *
+ * Downloads the rows of an explorer view as CSV, NDJSON or SQL INSERT
+ * statements. Takes the same `orderBy`, `orderDir`, `search` and `filter`
+ * parameters as the rows route, plus `format`, `columns` (comma-separated)
+ * and a row cap in `limit`. The file is streamed as rows are read; see
+ * explorer-export.ts.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getUser } from '@/lib/supabase/server';
+import { supabaseConnectionStore } from '@/lib/db/supabase-store';
+import { decrypt } from '@/lib/services/encryption';
+import { createDrizzleClient, type DrizzleConnection } from '@/lib/services/drizzle-factory';
+import { inspectTable } from '@/lib/services/schema-inspector';
+import {
+  getExportContentType,
+  getExportFilename,
+  streamExplorerExport,
+} from '@/lib/services/explorer-export';
+import {
+  getSearchableColumns,
+  parseExplorerFilter,
+  validateExplorerFilter,
+  type ExplorerFilterGroup,
+} from '@/lib/services/explorer-filter';
+import { ExplorerExportQuerySchema, validateInput } from '@/lib/validations/schemas';
+import { checkDistributedRateLimit, createDistributedRateLimitHeaders } from '@/lib/services/rate-limiter-redis';
+import { isValidQualifiedTableName, sanitizeErrorMessage } from '@/lib/services/security-utils';
+import { logger } from '@/lib/services/logger';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
+
+export const GET = async (
+  request: NextRequest,
+  { params }: { params: Promise<{ connectionId: string; table: string }> }
+) => {
+  let connection: DrizzleConnection | null = null;
+
+  try {
+    const user = await getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const rateLimitResult = await checkDistributedRateLimit(user.id, 'read');
+    if (!rateLimitResult.allowed) {
+      return NextResponse.json(
+        { success: false, error: 'Too many requests. Please slow down.' },
+        { status: 429, headers: createDistributedRateLimitHeaders(rateLimitResult, 'read') }
+      );
+    }
+
+    const { connectionId, table } = await params;
+    const tableName = decodeURIComponent(table);
+
+    if (!isValidQualifiedTableName(tableName)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid table name' },
+        { status: 400 }
+      );
+    }
+
+    const validation = validateInput(
+      ExplorerExportQuerySchema,
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: validation.errors.join(', ') },
+        { status: 400 }
+      );
+    }
+
+    const query = validation.data;
+
+    let filter: ExplorerFilterGroup | null;
+    try {
+      filter = parseExplorerFilter(query.filter);
+    } catch (error) {
+      return NextResponse.json(
+        { success: false, error: (error as Error).message },
+        { status: 400 }
+      );
+    }
+
+    const dbConnection = await supabaseConnectionStore.getById(connectionId, user.id);
+
+    if (!dbConnection) {
+      return NextResponse.json(
+        { success: false, error: 'Connection not found' },
+        { status: 404 }
+      );
+    }
+
+    connection = createDrizzleClient(decrypt(dbConnection.encrypted_url));
+
+    const schema = await inspectTable(connection, tableName);
+    const columnNames = schema.columns.map((c) => c.name);
+
+    const unknownColumns = query.columns.filter((c) => !columnNames.includes(c));
+    const filterErrors = filter ? validateExplorerFilter(filter, columnNames) : [];
+    const errors = [
+      ...(unknownColumns.length > 0 ? [`Unknown columns: ${unknownColumns.join(', ')}`] : []),
+      ...filterErrors,
+    ];
+    if (errors.length > 0) {
+      await connection.close();
+      return NextResponse.json(
+        { success: false, error: errors.join(', ') },
+        { status: 400 }
+      );
+    }
+
+    // Selected columns keep the table's column order
+    const columns = query.columns.length > 0
+      ? columnNames.filter((c) => query.columns.includes(c))
+      : columnNames;
+
+    logger.info('Exporting explorer rows', {
+      userId: user.id,
+      connectionId,
+      table: tableName,
+      format: query.format,
+      limit: query.limit,
+    });
+
+    const rows = streamExplorerExport(connection, {
+      tableName,
+      format: query.format,
+      columns,
+      filter,
+      search: query.search,
+      searchColumns: getSearchableColumns(schema.columns.map((c) => ({ name: c.name, type: c.dataType }))),
+      orderColumn: query.orderBy && columnNames.includes(query.orderBy) ? query.orderBy : null,
+      direction: query.orderDir,
+      keyColumns: schema.primaryKey?.columns ?? [],
+      maxRows: query.limit,
+    });
+
+    // The connection now belongs to the stream, which closes it when done
+    const streamConnection = connection;
+    connection = null;
+    const encoder = new TextEncoder();
+
+    const stream = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        try {
+          const { value, done } = await rows.next();
+          if (done) {
+            controller.close();
+            await streamConnection.close();
+          } else {
+            controller.enqueue(encoder.encode(value));
+          }
+        } catch (error) {
+          logger.error('Explorer export failed', { error, table: tableName });
+          controller.error(error);
+          await streamConnection.close();
+        }
+      },
+      async cancel() {
+        await rows.return(undefined);
+        await streamConnection.close();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': getExportContentType(query.format),
+        'Content-Disposition': `attachment; filename="${getExportFilename(tableName, query.format)}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+
+  } catch (error) {
+    if (connection) {
+      await connection.close();
+    }
+
+    logger.error('Explorer export error', { error });
+    return NextResponse.json(
+      { success: false, error: sanitizeErrorMessage((error as Error).message) },
+      { status: 500 }
+    );
+  }
+};
@@ -0,0 +1,125 @@
+/**
+ * POST /api/explorer/[connectionId]/[table]/import/preview
+ *
+ * Parses an uploaded CSV or NDJSON file (multipart field `file`) without
+ * writing anything. Returns the file's columns and first rows, the table's
+ * columns and primary key, and a suggested mapping of file columns to table
+ * columns for the import step.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getUser } from '@/lib/supabase/server';
+import { supabaseConnectionStore } from '@/lib/db/supabase-store';
+import { decrypt } from '@/lib/services/encryption';
+import { createDrizzleClient, getTableSchema, type DrizzleConnection } from '@/lib/services/drizzle-factory';
+import { inspectTable } from '@/lib/services/schema-inspector';
+import {
+  IMPORT_PREVIEW_ROWS,
+  ImportFileError,
+  MAX_REPORTED_ERRORS,
+  readImportUpload,
+  suggestColumnMapping,
+} from '@/lib/services/explorer-import';
+import { validateCSRFProtection, createCSRFErrorResponse } from '@/lib/services/csrf-protection';
+import { checkDistributedRateLimit, createDistributedRateLimitHeaders } from '@/lib/services/rate-limiter-redis';
+import { isValidQualifiedTableName, sanitizeErrorMessage } from '@/lib/services/security-utils';
+import { logger } from '@/lib/services/logger';
+
+export const dynamic = 'force-dynamic';
+
+export const POST = async (
+  request: NextRequest,
+  { params }: { params: Promise<{ connectionId: string; table: string }> }
+) => {
+  let connection: DrizzleConnection | null = null;
+
+  try {
+    // CSRF Protection
+    const csrfValidation = await validateCSRFProtection(request);
+    if (!csrfValidation.valid) {
+      return createCSRFErrorResponse(csrfValidation.error || 'CSRF validation failed');
+    }
+
+    const user = await getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const rateLimitResult = await checkDistributedRateLimit(user.id, 'read');
+    if (!rateLimitResult.allowed) {
+      return NextResponse.json(
+        { success: false, error: 'Too many requests. Please slow down.' },
+        { status: 429, headers: createDistributedRateLimitHeaders(rateLimitResult, 'read') }
+      );
+    }
+
+    const { connectionId, table } = await params;
+    const tableName = decodeURIComponent(table);
+
+    if (!isValidQualifiedTableName(tableName)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid table name' },
+        { status: 400 }
+      );
+    }
+
+    const dbConnection = await supabaseConnectionStore.getById(connectionId, user.id);
+
+    if (!dbConnection) {
+      return NextResponse.json(
+        { success: false, error: 'Connection not found' },
+        { status: 404 }
+      );
+    }
+
+    const file = await readImportUpload(await request.formData());
+
+    const databaseUrl = decrypt(dbConnection.encrypted_url);
+    const columns = await getTableSchema(databaseUrl, tableName);
+    if (columns.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'Table not found' },
+        { status: 404 }
+      );
+    }
+
+    connection = createDrizzleClient(databaseUrl);
+    const schema = await inspectTable(connection, tableName);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        format: file.format,
+        fileColumns: file.columns,
+        rows: file.records.slice(0, IMPORT_PREVIEW_ROWS).map((record) => record.values),
+        totalRows: file.records.length + file.errors.length,
+        parseErrors: file.errors.slice(0, MAX_REPORTED_ERRORS),
+        columns,
+        primaryKey: schema.primaryKey?.columns ?? [],
+        mapping: suggestColumnMapping(file.columns, columns),
+      },
+    });
+
+  } catch (error) {
+    if (error instanceof ImportFileError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
+
+    logger.error('Explorer import preview error', { error });
+    return NextResponse.json(
+      { success: false, error: sanitizeErrorMessage((error as Error).message) },
+      { status: 500 }
+    );
+  } finally {
+    if (connection) {
+      await connection.close();
+    }
+  }
+};
@@ -0,0 +1,247 @@
+/**
+ * POST /api/explorer/[connectionId]/[table]/import
+ *
+ * Imports an uploaded CSV or NDJSON file (multipart field `file`) into a
+ * table, with `mapping` (JSON: file column -> table column) and `mode`
+ * (insert or upsert on the primary key); see explorer-import.ts. Writes to
+ * production connections require the X-Confirm-Production header, and the
+ * rows written are recorded in the security audit log however the import
+ * ends. Progress is streamed as Server-Sent Events:
+ * - { type: 'start', total }
+ * - { type: 'progress', processed, written, failed, errors } after each batch
+ * - { type: 'complete', processed, written, failed } or { type: 'error', error }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getUser } from '@/lib/supabase/server';
+import { supabaseConnectionStore } from '@/lib/db/supabase-store';
+import { decrypt } from '@/lib/services/encryption';
+import { createDrizzleClient, getTableSchema } from '@/lib/services/drizzle-factory';
+import { inspectTable } from '@/lib/services/schema-inspector';
+import {
+  ImportFileError,
+  readImportUpload,
+  runExplorerImport,
+  validateImportMapping,
+} from '@/lib/services/explorer-import';
+import { logRowChanges } from '@/lib/services/security-logger';
+import { ExplorerImportSchema, validateInput } from '@/lib/validations/schemas';
+import { validateCSRFProtection, createCSRFErrorResponse } from '@/lib/services/csrf-protection';
+import { checkDistributedRateLimit, createDistributedRateLimitHeaders } from '@/lib/services/rate-limiter-redis';
+import { extractIP, isValidQualifiedTableName, sanitizeErrorMessage } from '@/lib/services/security-utils';
+import { logger } from '@/lib/services/logger';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
+
+export const POST = async (
+  request: NextRequest,
+  { params }: { params: Promise<{ connectionId: string; table: string }> }
+) => {
+  try {
+    // CSRF Protection
+    const csrfValidation = await validateCSRFProtection(request);
+    if (!csrfValidation.valid) {
+      return createCSRFErrorResponse(csrfValidation.error || 'CSRF validation failed');
+    }
+
+    const user = await getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const rateLimitResult = await checkDistributedRateLimit(user.id, 'write');
+    if (!rateLimitResult.allowed) {
+      return NextResponse.json(
+        { success: false, error: 'Too many requests. Please slow down.' },
+        { status: 429, headers: createDistributedRateLimitHeaders(rateLimitResult, 'write') }
+      );
+    }
+
+    const { connectionId, table } = await params;
+    const tableName = decodeURIComponent(table);
+
+    if (!isValidQualifiedTableName(tableName)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid table name' },
+        { status: 400 }
+      );
+    }
+
+    const form = await request.formData();
+
+    let mapping: unknown;
+    try {
+      mapping = JSON.parse(String(form.get('mapping') ?? '{}'));
+    } catch {
+      return NextResponse.json(
+        { success: false, error: 'Invalid column mapping' },
+        { status: 400 }
+      );
+    }
+
+    const validation = validateInput(ExplorerImportSchema, {
+      mode: form.get('mode') ?? undefined,
+      mapping,
+    });
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: validation.errors.join(', ') },
+        { status: 400 }
+      );
+    }
+
+    const { mode } = validation.data;
+
+    const dbConnection = await supabaseConnectionStore.getById(connectionId, user.id);
+
+    if (!dbConnection) {
+      return NextResponse.json(
+        { success: false, error: 'Connection not found' },
+        { status: 404 }
+      );
+    }
+
+    if (dbConnection.environment === 'production' && request.headers.get('X-Confirm-Production') !== 'true') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Production write requires confirmation',
+          requiresConfirmation: true,
+        },
+        { status: 400 }
+      );
+    }
+
+    const file = await readImportUpload(form);
+
+    const databaseUrl = decrypt(dbConnection.encrypted_url);
+    const columns = await getTableSchema(databaseUrl, tableName);
+    if (columns.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'Table not found' },
+        { status: 404 }
+      );
+    }
+
+    const connection = createDrizzleClient(databaseUrl);
+    let keyColumns: string[];
+    try {
+      keyColumns = (await inspectTable(connection, tableName)).primaryKey?.columns ?? [];
+    } catch (error) {
+      await connection.close();
+      throw error;
+    }
+
+    const errors = validateImportMapping(validation.data.mapping, file.columns, columns, keyColumns, mode);
+    if (errors.length > 0) {
+      await connection.close();
+      return NextResponse.json(
+        { success: false, error: errors.join(', ') },
+        { status: 400 }
+      );
+    }
+
+    logger.info('Importing explorer rows', {
+      userId: user.id,
+      connectionId,
+      table: tableName,
+      format: file.format,
+      mode,
+      rows: file.records.length,
+    });
+
+    const encoder = new TextEncoder();
+
+    // The import carries on if the client disconnects; it just stops
+    // reporting progress
+    let isActive = true;
+
+    const stream = new ReadableStream({
+      async start(controller) {
+        const send = (event: Record<string, unknown>) => {
+          if (!isActive) return;
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+        };
+
+        // Counts from the last batch, audited however the import ends
+        let written = 0;
+        let failed = 0;
+        let completed = false;
+
+        try {
+          const events = runExplorerImport(connection, file, {
+            tableName,
+            mode,
+            mapping: validation.data.mapping,
+            columns,
+            keyColumns,
+          });
+
+          for await (const event of events) {
+            if (event.type !== 'start') {
+              written = event.written;
+              failed = event.failed;
+            }
+            completed = event.type === 'complete';
+            send(event);
+          }
+        } catch (error) {
+          logger.error('Explorer import failed', { error, table: tableName });
+          send({ type: 'error', error: sanitizeErrorMessage((error as Error).message) });
+        } finally {
+          await logRowChanges({
+            userId: user.id,
+            ipAddress: extractIP(request.headers) || undefined,
+            userAgent: request.headers.get('user-agent') || undefined,
+            endpoint: `/api/explorer/${connectionId}/${table}/import`,
+            method: 'POST',
+            details: {
+              connectionId,
+              connectionName: dbConnection.name,
+              environment: dbConnection.environment,
+              table: tableName,
+              imported: written,
+              failed,
+              completed,
+              clientDisconnected: !isActive,
+              mode,
+              format: file.format,
+            },
+          }).catch((error) => logger.error('Failed to audit explorer import', { error }));
+          await connection.close();
+          if (isActive) controller.close();
+        }
+      },
+      cancel() {
+        isActive = false;
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+      },
+    });
+
+  } catch (error) {
+    if (error instanceof ImportFileError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
+
+    logger.error('Explorer import error', { error });
+    return NextResponse.json(
+      { success: false, error: sanitizeErrorMessage((error as Error).message) },
+      { status: 500 }
+    );
+  }
+};
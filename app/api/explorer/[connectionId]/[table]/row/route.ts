@@ -10,6 +10,8 @@ import { supabaseConnectionStore } from '@/lib/db/supabase-store';
 import { decrypt } from '@/lib/services/encryption';
 import { createDrizzleClient, type DrizzleConnection } from '@/lib/services/drizzle-factory';
 import { logger } from '@/lib/services/logger';
+import { logRowChanges } from '@/lib/services/security-logger';
+import { escapeQualifiedName, extractIP, parseQualifiedTableName } from '@/lib/services/security-utils';
 
 function sanitizeIdentifier(name: string): string {
   const cleaned = name.replace(/[^\w\s]/g, '').trim();
@@ -24,10 +26,31 @@ function serializeValue(value: unknown): unknown {
   return value;
 }
 
+/**
+ * Record a single-row write in the security audit log
+ */
+async function auditRowChange(
+  request: NextRequest,
+  userId: string,
+  connectionId: string,
+  table: string,
+  details: Record<string, unknown>
+): Promise<void> {
+  await logRowChanges({
+    userId,
+    ipAddress: extractIP(request.headers) || undefined,
+    userAgent: request.headers.get('user-agent') || undefined,
+    endpoint: `/api/explorer/${connectionId}/${table}/row`,
+    method: request.method,
+    details: { connectionId, table, ...details },
+  }).catch((error) => logger.error('Failed to audit row change', { error }));
+}
+
 async function getTablePrimaryKey(
   connection: DrizzleConnection,
   tableName: string
 ): Promise<string | null> {
+  const { schema, table } = parseQualifiedTableName(tableName);
   const result = await connection.client`
     SELECT kcu.column_name
     FROM information_schema.table_constraints tc
@@ -35,8 +58,8 @@ async function getTablePrimaryKey(
       ON tc.constraint_name = kcu.constraint_name
       AND tc.table_schema = kcu.table_schema
     WHERE tc.constraint_type = 'PRIMARY KEY'
-      AND tc.table_schema = 'public'
-      AND tc.table_name = ${tableName}
+      AND tc.table_schema = ${schema}
+      AND tc.table_name = ${table}
     LIMIT 1
   `;
   return result[0]?.column_name as string || null;
@@ -46,11 +69,12 @@ async function getTableColumns(
   connection: DrizzleConnection,
   tableName: string
 ): Promise<string[]> {
+  const { schema, table } = parseQualifiedTableName(tableName);
   const result = await connection.client`
     SELECT column_name
     FROM information_schema.columns
-    WHERE table_schema = 'public'
-      AND table_name = ${tableName}
+    WHERE table_schema = ${schema}
+      AND table_name = ${table}
     ORDER BY ordinal_position
   `;
   return result.map((r) => r.column_name as string);
@@ -107,7 +131,7 @@ export async function GET(
       );
     }
     
-    const tableName = sanitizeIdentifier(table);
+    const tableName = escapeQualifiedName(table);
     const pkColumn = sanitizeIdentifier(primaryKey);
     
     const result = await connection.client.unsafe(
@@ -199,7 +223,7 @@ export async function POST(
     connection = createDrizzleClient(databaseUrl);
     
     const tableColumns = await getTableColumns(connection, table);
-    const tableName = sanitizeIdentifier(table);
+    const tableName = escapeQualifiedName(table);
     
     // Filter to only valid columns
     const validColumns = Object.keys(data).filter((col) => tableColumns.includes(col));
@@ -218,6 +242,8 @@ export async function POST(
     const query = `INSERT INTO ${tableName} (${columnNames}) VALUES (${placeholders}) RETURNING *`;
     const result = await connection.client.unsafe(query, values);
     
+    await auditRowChange(request, user.id, connectionId, table, { inserted: 1, columns: validColumns });
+    
     return NextResponse.json({
       success: true,
       data: { ...result[0] },
@@ -315,7 +341,7 @@ export async function PUT(
     }
     
     const tableColumns = await getTableColumns(connection, table);
-    const tableName = sanitizeIdentifier(table);
+    const tableName = escapeQualifiedName(table);
     const pkColumn = sanitizeIdentifier(primaryKey);
     
     // Filter to only valid columns (exclude primary key from updates)
@@ -346,6 +372,11 @@ export async function PUT(
       );
     }
     
+    await auditRowChange(request, user.id, connectionId, table, {
+      updated: 1,
+      updatedRows: [{ key: `${primaryKey}=${id}`, columns: validColumns }],
+    });
+    
     return NextResponse.json({
       success: true,
       data: { ...result[0] },
@@ -432,7 +463,7 @@ export async function DELETE(
       );
     }
     
-    const tableName = sanitizeIdentifier(table);
+    const tableName = escapeQualifiedName(table);
     const pkColumn = sanitizeIdentifier(primaryKey);
     
     const result = await connection.client.unsafe(
@@ -447,6 +478,11 @@ export async function DELETE(
       );
     }
     
+    await auditRowChange(request, user.id, connectionId, table, {
+      deleted: 1,
+      deletedRows: [`${primaryKey}=${rowId}`],
+    });
+    
     return NextResponse.json({
       success: true,
       data: { ...result[0] },
@@ -44,14 +44,16 @@ export const GET = async (
       );
     }
     
-    // Forward to backend with encrypted URL in query params
+    const schemas = (connection.schemas || ['public']).join(',');
+    
+    // Forward to backend with encrypted URL and schemas in query params
     const proxyHandler = createProxyGET((req) => {
       const url = new URL(req.url);
       // Preserve existing query params
       const existingParams = url.search;
       // Add encryptedUrl to the path
       const separator = existingParams ? '&' : '?';
-      return `/api/explorer/${connectionId}/tables${existingParams}${separator}encryptedUrl=${encodeURIComponent(connection.encrypted_url)}`;
+      return `/api/explorer/${connectionId}/tables${existingParams}${separator}encryptedUrl=${encodeURIComponent(connection.encrypted_url)}&schemas=${encodeURIComponent(schemas)}`;
     });
     
     return proxyHandler(request);
@@ -0,0 +1,182 @@
+/**
+ * Individual Sync Schedule
+ *
+ * PUT /api/schedules/[id] - Update a schedule's name, tables, timing or state
+ * DELETE /api/schedules/[id] - Delete a schedule
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getUser } from '@/lib/supabase/server';
+import {
+  deleteScheduledJob,
+  getScheduledJob,
+  updateScheduledJob,
+  validateCronExpression,
+} from '@/lib/services/scheduler';
+import { ScheduleUpdateSchema, validateInput } from '@/lib/validations/schemas';
+import { validateCSRFProtection, createCSRFErrorResponse } from '@/lib/services/csrf-protection';
+import { checkDistributedRateLimit, createDistributedRateLimitHeaders } from '@/lib/services/rate-limiter-redis';
+import { sanitizeErrorMessage, isValidUUID } from '@/lib/services/security-utils';
+import { logger } from '@/lib/services/logger';
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+/**
+ * PUT /api/schedules/[id]
+ * Update a schedule. The next run is recalculated when the timing changes or
+ * the schedule is enabled or disabled.
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    // CSRF Protection
+    const csrfValidation = await validateCSRFProtection(request);
+    if (!csrfValidation.valid) {
+      return createCSRFErrorResponse(csrfValidation.error || 'CSRF validation failed');
+    }
+
+    const user = await getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+
+    if (!isValidUUID(id)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid schedule ID format' },
+        { status: 400 }
+      );
+    }
+
+    // Rate limit check
+    const rateLimitResult = await checkDistributedRateLimit(user.id, 'write');
+    if (!rateLimitResult.allowed) {
+      return NextResponse.json(
+        { success: false, error: 'Too many requests. Please slow down.' },
+        { status: 429, headers: createDistributedRateLimitHeaders(rateLimitResult, 'write') }
+      );
+    }
+
+    const validation = validateInput(ScheduleUpdateSchema, await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: validation.errors.join(', ') },
+        { status: 400 }
+      );
+    }
+
+    const updates = validation.data;
+
+    if (updates.cronExpression !== undefined || updates.timezone !== undefined) {
+      const existing = await getScheduledJob(id, user.id);
+      if (!existing) {
+        return NextResponse.json(
+          { success: false, error: 'Schedule not found' },
+          { status: 404 }
+        );
+      }
+
+      const cronValidation = validateCronExpression(
+        updates.cronExpression ?? existing.cronExpression,
+        updates.timezone ?? existing.timezone
+      );
+      if (!cronValidation.valid) {
+        return NextResponse.json(
+          { success: false, error: cronValidation.error },
+          { status: 400 }
+        );
+      }
+    }
+
+    const schedule = await updateScheduledJob(id, user.id, updates);
+
+    if (!schedule) {
+      return NextResponse.json(
+        { success: false, error: 'Schedule not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: schedule,
+    });
+  } catch (error) {
+    logger.error('Failed to update schedule', { error });
+
+    return NextResponse.json(
+      { success: false, error: sanitizeErrorMessage((error as Error).message) },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/schedules/[id]
+ * Delete a schedule. Jobs it already created are kept.
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    // CSRF Protection
+    const csrfValidation = await validateCSRFProtection(request);
+    if (!csrfValidation.valid) {
+      return createCSRFErrorResponse(csrfValidation.error || 'CSRF validation failed');
+    }
+
+    const user = await getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+
+    if (!isValidUUID(id)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid schedule ID format' },
+        { status: 400 }
+      );
+    }
+
+    // Rate limit check
+    const rateLimitResult = await checkDistributedRateLimit(user.id, 'write');
+    if (!rateLimitResult.allowed) {
+      return NextResponse.json(
+        { success: false, error: 'Too many requests. Please slow down.' },
+        { status: 429, headers: createDistributedRateLimitHeaders(rateLimitResult, 'write') }
+      );
+    }
+
+    const deleted = await deleteScheduledJob(id, user.id);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { success: false, error: 'Schedule not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { id },
+    });
+  } catch (error) {
+    logger.error('Failed to delete schedule', { error });
+
+    return NextResponse.json(
+      { success: false, error: sanitizeErrorMessage((error as Error).message) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * POST /api/schedules/[id]/run
+ *
+ * Run an enabled schedule now. The schedule is marked due and the backend
+ * scheduler starts it on its next poll, then resumes the cron cadence.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getUser } from '@/lib/supabase/server';
+import { triggerScheduledJob } from '@/lib/services/scheduler';
+import { validateCSRFProtection, createCSRFErrorResponse } from '@/lib/services/csrf-protection';
+import { checkDistributedRateLimit, createDistributedRateLimitHeaders } from '@/lib/services/rate-limiter-redis';
+import { sanitizeErrorMessage, isValidUUID } from '@/lib/services/security-utils';
+import { logger } from '@/lib/services/logger';
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    // CSRF Protection
+    const csrfValidation = await validateCSRFProtection(request);
+    if (!csrfValidation.valid) {
+      return createCSRFErrorResponse(csrfValidation.error || 'CSRF validation failed');
+    }
+
+    const user = await getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+
+    if (!isValidUUID(id)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid schedule ID format' },
+        { status: 400 }
+      );
+    }
+
+    // Rate limit check
+    const rateLimitResult = await checkDistributedRateLimit(user.id, 'sync');
+    if (!rateLimitResult.allowed) {
+      return NextResponse.json(
+        { success: false, error: 'Too many requests. Please slow down.' },
+        { status: 429, headers: createDistributedRateLimitHeaders(rateLimitResult, 'sync') }
+      );
+    }
+
+    const triggered = await triggerScheduledJob(id, user.id);
+
+    if (!triggered) {
+      return NextResponse.json(
+        { success: false, error: 'Schedule not found or disabled' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { id },
+    });
+  } catch (error) {
+    logger.error('Failed to run schedule', { error });
+
+    return NextResponse.json(
+      { success: false, error: sanitizeErrorMessage((error as Error).message) },
+      { status: 500 }
+    );
+  }
+}
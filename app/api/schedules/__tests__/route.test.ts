@@ -0,0 +1,124 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Sync Schedules Endpoint Tests
+ *
+ * Tests for creating schedules on /api/schedules: input and cron
+ * validation, connection ownership and production confirmation.
+ */
+
+import { NextRequest } from 'next/server';
+import { POST } from '../route';
+import { createScheduledJob } from '@/lib/services/scheduler';
+import { supabaseConnectionStore } from '@/lib/db/supabase-store';
+import { getUser } from '@/lib/supabase/server';
+
+jest.mock('@/lib/services/scheduler', () => ({
+  ...jest.requireActual('@/lib/services/cron'),
+  createScheduledJob: jest.fn(),
+  getScheduledJobs: jest.fn(),
+}));
+
+jest.mock('@/lib/services/rate-limiter-redis', () => ({
+  checkDistributedRateLimit: jest.fn(() => Promise.resolve({ allowed: true })),
+  createDistributedRateLimitHeaders: jest.fn(() => ({})),
+}));
+
+jest.mock('@/lib/services/csrf-protection', () => ({
+  validateCSRFProtection: jest.fn(() => Promise.resolve({ valid: true })),
+  createCSRFErrorResponse: jest.fn(),
+}));
+
+jest.mock('@/lib/supabase/server', () => ({
+  createClient: jest.fn(),
+  getUser: jest.fn(),
+}));
+
+jest.mock('@/lib/db/supabase-store', () => ({
+  supabaseConnectionStore: { getById: jest.fn() },
+}));
+
+const SOURCE_ID = '11111111-1111-4111-8111-111111111111';
+const TARGET_ID = '22222222-2222-4222-8222-222222222222';
+
+const scheduleInput = {
+  name: 'Nightly refresh',
+  sourceConnectionId: SOURCE_ID,
+  targetConnectionId: TARGET_ID,
+  direction: 'one_way',
+  tables: [{ tableName: 'users', enabled: true }],
+  cronExpression: '0 2 * * *',
+};
+
+function createRequest(body: unknown, headers: Record<string, string> = {}): NextRequest {
+  return new NextRequest('http://localhost/api/schedules', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+  });
+}
+
+function mockConnections(targetEnvironment: 'production' | 'development') {
+  (supabaseConnectionStore.getById as jest.Mock).mockImplementation((id: string) => Promise.resolve({
+    id,
+    name: id,
+    environment: id === TARGET_ID ? targetEnvironment : 'development',
+  }));
+}
+
+describe('/api/schedules', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getUser as jest.Mock).mockResolvedValue({ id: 'user-1' });
+    (createScheduledJob as jest.Mock).mockImplementation((_userId: string, input: typeof scheduleInput) =>
+      Promise.resolve({ id: 'schedule-1', ...input }));
+  });
+
+  it('should create a schedule for the user\'s connections', async () => {
+    mockConnections('development');
+
+    const response = await POST(createRequest(scheduleInput));
+    const data = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(createScheduledJob).toHaveBeenCalledWith('user-1', expect.objectContaining({
+      name: 'Nightly refresh',
+      cronExpression: '0 2 * * *',
+      timezone: 'UTC',
+      enabled: true,
+    }));
+    expect(data.data.id).toBe('schedule-1');
+  });
+
+  it('should reject an invalid cron expression', async () => {
+    mockConnections('development');
+
+    const response = await POST(createRequest({ ...scheduleInput, cronExpression: '61 * * * *' }));
+
+    expect(response.status).toBe(400);
+    expect(createScheduledJob).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 for connections the user does not have', async () => {
+    (supabaseConnectionStore.getById as jest.Mock).mockResolvedValue(null);
+
+    const response = await POST(createRequest(scheduleInput));
+
+    expect(response.status).toBe(404);
+    expect(createScheduledJob).not.toHaveBeenCalled();
+  });
+
+  it('should require confirmation for a production target', async () => {
+    mockConnections('production');
+
+    const unconfirmed = await POST(createRequest(scheduleInput));
+    expect(unconfirmed.status).toBe(400);
+    expect((await unconfirmed.json()).requiresConfirmation).toBe(true);
+    expect(createScheduledJob).not.toHaveBeenCalled();
+
+    const confirmed = await POST(createRequest(scheduleInput, { 'X-Confirm-Production': 'true' }));
+    expect(confirmed.status).toBe(201);
+  });
+});
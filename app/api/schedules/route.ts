@@ -0,0 +1,150 @@
+/**
+ * Sync Schedules
+ *
+ * GET /api/schedules - List the current user's recurring sync schedules
+ * POST /api/schedules - Create a schedule; the backend scheduler runs it
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getUser } from '@/lib/supabase/server';
+import { supabaseConnectionStore } from '@/lib/db/supabase-store';
+import { createScheduledJob, getScheduledJobs, validateCronExpression } from '@/lib/services/scheduler';
+import { ScheduleInputSchema, validateInput } from '@/lib/validations/schemas';
+import { validateCSRFProtection, createCSRFErrorResponse } from '@/lib/services/csrf-protection';
+import { checkDistributedRateLimit, createDistributedRateLimitHeaders } from '@/lib/services/rate-limiter-redis';
+import { sanitizeErrorMessage } from '@/lib/services/security-utils';
+import { logger } from '@/lib/services/logger';
+
+/**
+ * GET /api/schedules
+ * List schedules, newest first
+ */
+export async function GET() {
+  try {
+    const user = await getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // Rate limit check
+    const rateLimitResult = await checkDistributedRateLimit(user.id, 'read');
+    if (!rateLimitResult.allowed) {
+      return NextResponse.json(
+        { success: false, error: 'Too many requests. Please slow down.' },
+        { status: 429, headers: createDistributedRateLimitHeaders(rateLimitResult, 'read') }
+      );
+    }
+
+    const schedules = await getScheduledJobs(user.id);
+
+    return NextResponse.json({
+      success: true,
+      data: schedules,
+    });
+  } catch (error) {
+    logger.error('Failed to list schedules', { error });
+
+    return NextResponse.json(
+      { success: false, error: sanitizeErrorMessage((error as Error).message) },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/schedules
+ * Create a schedule. Like creating a sync job, a production target needs the
+ * X-Confirm-Production header.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // CSRF Protection
+    const csrfValidation = await validateCSRFProtection(request);
+    if (!csrfValidation.valid) {
+      return createCSRFErrorResponse(csrfValidation.error || 'CSRF validation failed');
+    }
+
+    const user = await getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // Rate limit check for write operations
+    const rateLimitResult = await checkDistributedRateLimit(user.id, 'write');
+    if (!rateLimitResult.allowed) {
+      return NextResponse.json(
+        { success: false, error: 'Too many requests. Please slow down.' },
+        { status: 429, headers: createDistributedRateLimitHeaders(rateLimitResult, 'write') }
+      );
+    }
+
+    const validation = validateInput(ScheduleInputSchema, await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: validation.errors.join(', ') },
+        { status: 400 }
+      );
+    }
+
+    const input = validation.data;
+
+    const cronValidation = validateCronExpression(input.cronExpression, input.timezone);
+    if (!cronValidation.valid) {
+      return NextResponse.json(
+        { success: false, error: cronValidation.error },
+        { status: 400 }
+      );
+    }
+
+    const [sourceConnection, targetConnection] = await Promise.all([
+      supabaseConnectionStore.getById(input.sourceConnectionId, user.id),
+      supabaseConnectionStore.getById(input.targetConnectionId, user.id),
+    ]);
+
+    if (!sourceConnection || !targetConnection) {
+      return NextResponse.json(
+        { success: false, error: 'Connection not found' },
+        { status: 404 }
+      );
+    }
+
+    if (targetConnection.environment === 'production' && request.headers.get('X-Confirm-Production') !== 'true') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Scheduling syncs to production requires confirmation',
+          requiresConfirmation: true,
+        },
+        { status: 400 }
+      );
+    }
+
+    const schedule = await createScheduledJob(user.id, input);
+
+    logger.info('Sync schedule created', {
+      scheduleId: schedule.id,
+      userId: user.id,
+      cronExpression: schedule.cronExpression,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: schedule,
+    }, { status: 201 });
+  } catch (error) {
+    logger.error('Failed to create schedule', { error });
+
+    return NextResponse.json(
+      { success: false, error: sanitizeErrorMessage((error as Error).message) },
+      { status: 500 }
+    );
+  }
+}
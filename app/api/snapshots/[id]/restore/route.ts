@@ -0,0 +1,190 @@
+/**
+ * POST /api/snapshots/[id]/restore
+ *
+ * Restores a snapshot into the connection it was taken from or any other
+ * connection with the same tables. The whole restore runs in one
+ * transaction; progress is streamed as Server-Sent Events:
+ * - { type: 'start', tables }
+ * - { type: 'table', currentTable, tableStatus, tableRowsRestored, ... }
+ *   when each table starts, after each chunk and when it finishes
+ * - { type: 'complete', rowsRestored } or { type: 'error', error }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getUser } from '@/lib/supabase/server';
+import { supabaseConnectionStore, supabaseSnapshotStore } from '@/lib/db/supabase-store';
+import { decrypt } from '@/lib/services/encryption';
+import { restoreBackupFiles } from '@/lib/services/backup-service';
+import { getBackupStorage } from '@/lib/services/backup-storage';
+import { SnapshotRestoreSchema, validateInput } from '@/lib/validations/schemas';
+import { validateCSRFProtection, createCSRFErrorResponse } from '@/lib/services/csrf-protection';
+import { checkDistributedRateLimit, createDistributedRateLimitHeaders } from '@/lib/services/rate-limiter-redis';
+import { sanitizeErrorMessage } from '@/lib/services/security-utils';
+import { logger } from '@/lib/services/logger';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
+
+// A snapshot stays restorable after being restored
+const RESTORE_ALLOWED_STATUSES = ['completed', 'restored'];
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // CSRF Protection
+    const csrfValidation = await validateCSRFProtection(request);
+    if (!csrfValidation.valid) {
+      return createCSRFErrorResponse(csrfValidation.error || 'CSRF validation failed');
+    }
+
+    const user = await getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const rateLimitResult = await checkDistributedRateLimit(user.id, 'sync');
+    if (!rateLimitResult.allowed) {
+      return NextResponse.json(
+        { success: false, error: 'Too many requests. Please slow down.' },
+        { status: 429, headers: createDistributedRateLimitHeaders(rateLimitResult, 'sync') }
+      );
+    }
+
+    const { id } = await params;
+
+    const validation = validateInput(SnapshotRestoreSchema, await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: validation.errors.join(', ') },
+        { status: 400 }
+      );
+    }
+
+    const { targetConnectionId, confirmationPhrase } = validation.data;
+
+    const [snapshot, targetConnection] = await Promise.all([
+      supabaseSnapshotStore.getById(id, user.id),
+      supabaseConnectionStore.getById(targetConnectionId, user.id),
+    ]);
+
+    if (!snapshot) {
+      return NextResponse.json(
+        { success: false, error: 'Snapshot not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!targetConnection) {
+      return NextResponse.json(
+        { success: false, error: 'Connection not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!RESTORE_ALLOWED_STATUSES.includes(snapshot.status)) {
+      return NextResponse.json(
+        { success: false, error: `Cannot restore a snapshot with status: ${snapshot.status}` },
+        { status: 409 }
+      );
+    }
+
+    if (targetConnection.environment === 'production' && confirmationPhrase !== targetConnection.name) {
+      return NextResponse.json(
+        { success: false, error: `Type "${targetConnection.name}" to confirm a restore on production` },
+        { status: 400 }
+      );
+    }
+
+    const unknownTables = validation.data.tables.filter((table) => !snapshot.tables.includes(table));
+    if (unknownTables.length > 0) {
+      return NextResponse.json(
+        { success: false, error: `Tables not in snapshot: ${unknownTables.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // No tables means every table in the snapshot, in snapshot order
+    const tables = validation.data.tables.length > 0
+      ? snapshot.tables.filter((table) => validation.data.tables.includes(table))
+      : snapshot.tables;
+
+    const targetUrl = decrypt(targetConnection.encrypted_url);
+    const previousStatus = snapshot.status;
+
+    await supabaseSnapshotStore.update(id, user.id, { status: 'restoring', error: null });
+
+    logger.info('Restoring snapshot', { snapshotId: id, targetConnectionId, tables: tables.length });
+
+    const encoder = new TextEncoder();
+
+    // The restore carries on if the client disconnects; it just stops
+    // reporting progress
+    let isActive = true;
+
+    const stream = new ReadableStream({
+      async start(controller) {
+        const send = (event: Record<string, unknown>) => {
+          if (!isActive) return;
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+        };
+
+        send({ type: 'start', tables });
+
+        try {
+          const { rowsRestored } = await restoreBackupFiles({
+            backupPath: snapshot.backup_path,
+            storage: getBackupStorage(snapshot.storage_adapter),
+            tables: snapshot.tables,
+            onlyTables: tables,
+            targetUrl,
+            onProgress: (progress) => send({ type: 'table', ...progress }),
+          });
+
+          await supabaseSnapshotStore.update(id, user.id, {
+            status: 'restored',
+            restoredAt: new Date(),
+            restoredConnectionId: targetConnectionId,
+          });
+
+          send({ type: 'complete', rowsRestored });
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Restore failed';
+          logger.error('Snapshot restore failed', { snapshotId: id, error });
+
+          // The transaction rolled back, so the snapshot itself is still good
+          await supabaseSnapshotStore
+            .update(id, user.id, { status: previousStatus, error: `Restore failed: ${message}` })
+            .catch((updateError) => logger.error('Failed to record snapshot restore failure', { error: updateError }));
+
+          send({ type: 'error', error: sanitizeErrorMessage(message) });
+        } finally {
+          if (isActive) controller.close();
+        }
+      },
+      cancel() {
+        isActive = false;
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+      },
+    });
+  } catch (error) {
+    logger.error('Failed to restore snapshot', { error });
+
+    return NextResponse.json(
+      { success: false, error: sanitizeErrorMessage((error as Error).message) },
+      { status: 500 }
+    );
+  }
+}
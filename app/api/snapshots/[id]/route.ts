@@ -0,0 +1,119 @@
+/**
+ * Snapshot
+ *
+ * GET /api/snapshots/[id] - One snapshot
+ * DELETE /api/snapshots/[id] - Remove a snapshot and its stored content
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getUser } from '@/lib/supabase/server';
+import { supabaseSnapshotStore } from '@/lib/db/supabase-store';
+import { removeBackupFiles } from '@/lib/services/backup-service';
+import { getBackupStorage } from '@/lib/services/backup-storage';
+import { validateCSRFProtection, createCSRFErrorResponse } from '@/lib/services/csrf-protection';
+import { checkDistributedRateLimit, createDistributedRateLimitHeaders } from '@/lib/services/rate-limiter-redis';
+import { sanitizeErrorMessage } from '@/lib/services/security-utils';
+import { logger } from '@/lib/services/logger';
+
+/**
+ * GET /api/snapshots/[id]
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+
+    const snapshot = await supabaseSnapshotStore.getById(id, user.id);
+    if (!snapshot) {
+      return NextResponse.json(
+        { success: false, error: 'Snapshot not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: snapshot,
+    });
+  } catch (error) {
+    logger.error('Failed to fetch snapshot', { error });
+
+    return NextResponse.json(
+      { success: false, error: sanitizeErrorMessage((error as Error).message) },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/snapshots/[id]
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // CSRF Protection
+    const csrfValidation = await validateCSRFProtection(request);
+    if (!csrfValidation.valid) {
+      return createCSRFErrorResponse(csrfValidation.error || 'CSRF validation failed');
+    }
+
+    const user = await getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const rateLimitResult = await checkDistributedRateLimit(user.id, 'write');
+    if (!rateLimitResult.allowed) {
+      return NextResponse.json(
+        { success: false, error: 'Too many requests. Please slow down.' },
+        { status: 429, headers: createDistributedRateLimitHeaders(rateLimitResult, 'write') }
+      );
+    }
+
+    const { id } = await params;
+
+    const snapshot = await supabaseSnapshotStore.getById(id, user.id);
+    if (!snapshot) {
+      return NextResponse.json(
+        { success: false, error: 'Snapshot not found' },
+        { status: 404 }
+      );
+    }
+
+    if (snapshot.status === 'creating' || snapshot.status === 'restoring') {
+      return NextResponse.json(
+        { success: false, error: `Cannot delete a snapshot while it is ${snapshot.status}` },
+        { status: 409 }
+      );
+    }
+
+    await removeBackupFiles(getBackupStorage(snapshot.storage_adapter), snapshot.backup_path);
+    await supabaseSnapshotStore.delete(id, user.id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error('Failed to delete snapshot', { error });
+
+    return NextResponse.json(
+      { success: false, error: sanitizeErrorMessage((error as Error).message) },
+      { status: 500 }
+    );
+  }
+}
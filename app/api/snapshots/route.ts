@@ -0,0 +1,166 @@
+/**
+ * Snapshots
+ *
+ * GET /api/snapshots - The user's snapshots, newest first
+ * POST /api/snapshots - Take a named snapshot of a connection's tables
+ */
+
+import { randomUUID } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { getUser } from '@/lib/supabase/server';
+import { supabaseConnectionStore, supabaseSnapshotStore } from '@/lib/db/supabase-store';
+import { decrypt } from '@/lib/services/encryption';
+import { getBackupPath, writeBackupFiles } from '@/lib/services/backup-service';
+import { getBackupStorage } from '@/lib/services/backup-storage';
+import { listDatabaseTables } from '@/lib/services/migration-ledger';
+import { SnapshotInputSchema, validateInput } from '@/lib/validations/schemas';
+import { validateCSRFProtection, createCSRFErrorResponse } from '@/lib/services/csrf-protection';
+import { checkDistributedRateLimit, createDistributedRateLimitHeaders } from '@/lib/services/rate-limiter-redis';
+import { sanitizeErrorMessage } from '@/lib/services/security-utils';
+import { logger } from '@/lib/services/logger';
+
+export const maxDuration = 300;
+
+/**
+ * GET /api/snapshots
+ */
+export async function GET() {
+  try {
+    const user = await getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const snapshots = await supabaseSnapshotStore.getAll(user.id);
+
+    return NextResponse.json({
+      success: true,
+      data: snapshots,
+    });
+  } catch (error) {
+    logger.error('Failed to list snapshots', { error });
+
+    return NextResponse.json(
+      { success: false, error: sanitizeErrorMessage((error as Error).message) },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/snapshots
+ * Exports the tables to the configured backup storage before responding
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // CSRF Protection
+    const csrfValidation = await validateCSRFProtection(request);
+    if (!csrfValidation.valid) {
+      return createCSRFErrorResponse(csrfValidation.error || 'CSRF validation failed');
+    }
+
+    const user = await getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const rateLimitResult = await checkDistributedRateLimit(user.id, 'sync');
+    if (!rateLimitResult.allowed) {
+      return NextResponse.json(
+        { success: false, error: 'Too many requests. Please slow down.' },
+        { status: 429, headers: createDistributedRateLimitHeaders(rateLimitResult, 'sync') }
+      );
+    }
+
+    const validation = validateInput(SnapshotInputSchema, await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: validation.errors.join(', ') },
+        { status: 400 }
+      );
+    }
+
+    const { connectionId, name, description } = validation.data;
+
+    const connection = await supabaseConnectionStore.getById(connectionId, user.id);
+    if (!connection) {
+      return NextResponse.json(
+        { success: false, error: 'Connection not found' },
+        { status: 404 }
+      );
+    }
+
+    const databaseUrl = decrypt(connection.encrypted_url);
+
+    // No tables means every table in the connection's schemas
+    const tables = validation.data.tables.length > 0
+      ? validation.data.tables
+      : await listDatabaseTables(databaseUrl, connection.schemas);
+
+    if (tables.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'The connection has no tables to snapshot' },
+        { status: 400 }
+      );
+    }
+
+    const id = randomUUID();
+    const backupPath = getBackupPath(user.id, 'snapshots', id);
+    const storage = getBackupStorage();
+
+    const snapshot = await supabaseSnapshotStore.create(user.id, {
+      id,
+      connectionId,
+      name,
+      description,
+      tables,
+      backupPath,
+      storageAdapter: storage.name,
+    });
+
+    logger.info('Creating snapshot', { snapshotId: id, connectionId, tables: tables.length });
+
+    try {
+      const summary = await writeBackupFiles({
+        backupId: id,
+        backupPath,
+        sourceUrl: databaseUrl,
+        tables,
+        description: [`Snapshot: ${name}`, `Connection: ${connection.name}`],
+        storage,
+      });
+
+      const updated = await supabaseSnapshotStore.update(id, user.id, {
+        status: 'completed',
+        sizeBytes: summary.sizeBytes,
+        rowCount: summary.rowCount,
+        tableRowCounts: summary.tableRowCounts,
+        completedAt: new Date(),
+      });
+
+      return NextResponse.json({
+        success: true,
+        data: updated ?? snapshot,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Snapshot failed';
+      await supabaseSnapshotStore.update(id, user.id, { status: 'failed', error: message });
+      throw error;
+    }
+  } catch (error) {
+    logger.error('Failed to create snapshot', { error });
+
+    return NextResponse.json(
+      { success: false, error: sanitizeErrorMessage((error as Error).message) },
+      { status: 500 }
+    );
+  }
+}
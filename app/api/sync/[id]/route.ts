@@ -8,18 +8,22 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getUser } from '@/lib/supabase/server';
 import { createProxyGET } from '@/lib/utils/proxy-handler';
+import { getApiTokenFromRequest } from '@/lib/services/api-tokens';
 
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  const user = await getUser();
-  
-  if (!user) {
-    return NextResponse.json(
-      { success: false, error: 'Authentication required' },
-      { status: 401 }
-    );
+  // Token requests are authenticated by the backend
+  if (!getApiTokenFromRequest(request)) {
+    const user = await getUser();
+    
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
   }
   
   const { id } = await params;
@@ -27,7 +31,7 @@ export async function GET(
   const proxyHandler = createProxyGET((req) => {
     const url = new URL(req.url);
     return `/api/sync/${id}${url.search}`;
-  });
+  }, { allowApiTokens: true });
   
   return proxyHandler(request);
 }
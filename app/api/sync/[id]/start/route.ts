@@ -11,6 +11,7 @@ import { getUser } from '@/lib/supabase/server';
 import { createProxyPOST, createProxyStream } from '@/lib/utils/proxy-handler';
 import { testConnection } from '@/lib/services/drizzle-factory';
 import { decrypt } from '@/lib/services/encryption';
+import { getApiTokenFromRequest } from '@/lib/services/api-tokens';
 
 interface RouteParams {
   params: Promise<{
@@ -24,6 +25,19 @@ export const dynamic = 'force-dynamic';
 
 // POST - Start/resume a sync job
 export async function POST(request: NextRequest, { params }: RouteParams) {
+  // Token requests go straight to the backend, which authenticates them and
+  // loads the job's connections itself
+  if (getApiTokenFromRequest(request)) {
+    const { id } = await params;
+    const proxyHandler = createProxyPOST(`/api/sync/${id}/start`, { allowApiTokens: true });
+    
+    return proxyHandler(new NextRequest(request.url, {
+      method: 'POST',
+      headers: request.headers,
+      body: JSON.stringify({}),
+    }));
+  }
+  
   const user = await getUser();
   
   if (!user) {
@@ -8,6 +8,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getUser } from '@/lib/supabase/server';
 import { createProxyStream } from '@/lib/utils/proxy-handler';
+import { getApiTokenFromRequest } from '@/lib/services/api-tokens';
 
 export const dynamic = 'force-dynamic';
 export const maxDuration = 300; // 5 minutes max (Vercel hobby plan limit)
@@ -16,18 +17,21 @@ export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  const user = await getUser();
-  
-  if (!user) {
-    return NextResponse.json(
-      { success: false, error: 'Authentication required' },
-      { status: 401 }
-    );
+  // Token requests are authenticated by the backend
+  if (!getApiTokenFromRequest(request)) {
+    const user = await getUser();
+    
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
   }
   
   const { id } = await params;
   
-  const proxyHandler = createProxyStream((req) => `/api/sync/${id}/stream`);
+  const proxyHandler = createProxyStream((req) => `/api/sync/${id}/stream`, { allowApiTokens: true });
   
   return proxyHandler(request);
 }
@@ -0,0 +1,114 @@
+/**
+ * POST /api/sync/data-diff
+ *
+ * Compares the rows of two connections' tables by hashing primary key
+ * ranges (see data-diff.ts). `format` picks the response:
+ * - report (default): `{ report }`
+ * - json: the report as a JSON download
+ * - csv: per-table counts as a CSV download
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseConnectionStore } from '@/lib/db/supabase-store';
+import { getUser } from '@/lib/supabase/server';
+import { decrypt } from '@/lib/services/encryption';
+import { generateDataDiffReport } from '@/lib/services/data-diff';
+import { exportDataDiffReport } from '@/lib/services/data-diff-export';
+import { listDatabaseTables } from '@/lib/services/migration-ledger';
+import { DataDiffInputSchema, validateInput } from '@/lib/validations/schemas';
+import { validateCSRFProtection, createCSRFErrorResponse } from '@/lib/services/csrf-protection';
+import { checkDistributedRateLimit, createDistributedRateLimitHeaders } from '@/lib/services/rate-limiter-redis';
+import { sanitizeErrorMessage } from '@/lib/services/security-utils';
+import { logger } from '@/lib/services/logger';
+
+export const maxDuration = 300;
+
+export const POST = async (request: NextRequest) => {
+  try {
+    // CSRF Protection
+    const csrfValidation = await validateCSRFProtection(request);
+    if (!csrfValidation.valid) {
+      return createCSRFErrorResponse(csrfValidation.error || 'CSRF validation failed');
+    }
+
+    const user = await getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const rateLimitResult = await checkDistributedRateLimit(user.id, 'sync');
+    if (!rateLimitResult.allowed) {
+      return NextResponse.json(
+        { success: false, error: 'Too many requests. Please slow down.' },
+        { status: 429, headers: createDistributedRateLimitHeaders(rateLimitResult, 'sync') }
+      );
+    }
+
+    const validation = validateInput(DataDiffInputSchema, await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: validation.errors.join(', ') },
+        { status: 400 }
+      );
+    }
+
+    const { sourceConnectionId, targetConnectionId, sampleSize, format } = validation.data;
+
+    const [sourceConnection, targetConnection] = await Promise.all([
+      supabaseConnectionStore.getById(sourceConnectionId, user.id),
+      supabaseConnectionStore.getById(targetConnectionId, user.id),
+    ]);
+
+    if (!sourceConnection || !targetConnection) {
+      return NextResponse.json(
+        { success: false, error: 'Connection not found' },
+        { status: 404 }
+      );
+    }
+
+    const sourceUrl = decrypt(sourceConnection.encrypted_url);
+    const targetUrl = decrypt(targetConnection.encrypted_url);
+
+    // No tables means every table in the source
+    const tables = validation.data.tables.length > 0
+      ? validation.data.tables
+      : await listDatabaseTables(sourceUrl, sourceConnection.schemas);
+
+    const report = await generateDataDiffReport({
+      sourceUrl,
+      targetUrl,
+      tables,
+      sourceName: sourceConnection.name,
+      targetName: targetConnection.name,
+      sampleSize,
+    });
+
+    if (format === 'report') {
+      return NextResponse.json({
+        success: true,
+        data: { report },
+      });
+    }
+
+    const file = exportDataDiffReport(report, format);
+
+    return new NextResponse(file.body, {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+
+  } catch (error) {
+    logger.error('Data diff error', { error });
+    return NextResponse.json(
+      { success: false, error: sanitizeErrorMessage((error as Error).message) },
+      { status: 500 }
+    );
+  }
+};
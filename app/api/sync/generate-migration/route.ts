@@ -2,49 +2,96 @@
  * POST /api/sync/generate-migration
  * 
  * Generates migration script for schema differences.
- * Proxies to backend for migration generation.
+ * 
+ * Session requests build the MigrationPlan here. `format` picks the response:
+ * - json (default): `{ migrationPlan, checksum }`; the checksum is sent back
+ *   when applying the reviewed plan
+ * - supabase: timestamped `supabase/migrations` SQL file
+ * - drizzle: zipped drizzle-kit migration folder
+ * - zip: up.sql / down.sql bundle with a manifest
+ * 
+ * `renameDecisions` accepts or rejects the rename candidates found during
+ * validation; only accepted ones are migrated as renames.
+ * 
+ * API token requests are authenticated by the backend, which also loads the
+ * token owner's connections; the plan is then built here as for sessions.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { supabaseConnectionStore } from '@/lib/db/supabase-store';
 import { getUser } from '@/lib/supabase/server';
-import { createProxyPOST } from '@/lib/utils/proxy-handler';
+import { resolveApiTokenConnections, type ApiTokenConnection } from '@/lib/utils/proxy-handler';
+import { decrypt } from '@/lib/services/encryption';
+import { getTableValidationOptions, validateSchemas } from '@/lib/services/schema-validator';
+import { generateMigrationPlan } from '@/lib/services/schema-migration-generator';
+import { checksumMigrationPlan, listDatabaseTables } from '@/lib/services/migration-ledger';
+import { exportMigrationPlan } from '@/lib/services/migration-export';
+import { MigrationInputSchema, validateInput } from '@/lib/validations/schemas';
 import { validateCSRFProtection, createCSRFErrorResponse } from '@/lib/services/csrf-protection';
+import { checkDistributedRateLimit, createDistributedRateLimitHeaders } from '@/lib/services/rate-limiter-redis';
+import { sanitizeErrorMessage } from '@/lib/services/security-utils';
 import { logger } from '@/lib/services/logger';
+import { getApiTokenFromRequest } from '@/lib/services/api-tokens';
 
 export const POST = async (request: NextRequest) => {
   try {
-    // CSRF Protection
-    const csrfValidation = await validateCSRFProtection(request);
-    if (!csrfValidation.valid) {
-      return createCSRFErrorResponse(csrfValidation.error || 'CSRF validation failed');
-    }
+    const isTokenRequest = Boolean(getApiTokenFromRequest(request));
+    let sessionUserId: string | null = null;
     
-    const user = await getUser();
+    // Tokens are not sent by the browser, so only sessions need CSRF checks
+    if (!isTokenRequest) {
+      const csrfValidation = await validateCSRFProtection(request);
+      if (!csrfValidation.valid) {
+        return createCSRFErrorResponse(csrfValidation.error || 'CSRF validation failed');
+      }
+      
+      const user = await getUser();
+      if (!user) {
+        return NextResponse.json(
+          { success: false, error: 'Authentication required' },
+          { status: 401 }
+        );
+      }
+      sessionUserId = user.id;
+    }
     
-    if (!user) {
+    const validation = validateInput(MigrationInputSchema, await request.json());
+    if (!validation.success) {
       return NextResponse.json(
-        { success: false, error: 'Authentication required' },
-        { status: 401 }
+        { success: false, error: validation.errors.join(', ') },
+        { status: 400 }
       );
     }
     
-    const body = await request.json();
-    const { sourceConnectionId, targetConnectionId } = body;
+    const { sourceConnectionId, targetConnectionId, direction, renameDecisions, format, name } = validation.data;
     
-    if (!sourceConnectionId || !targetConnectionId) {
+    let userId: string;
+    let sourceConnection: ApiTokenConnection | null;
+    let targetConnection: ApiTokenConnection | null;
+    
+    if (sessionUserId) {
+      userId = sessionUserId;
+      [sourceConnection, targetConnection] = await Promise.all([
+        supabaseConnectionStore.getById(sourceConnectionId, userId),
+        supabaseConnectionStore.getById(targetConnectionId, userId),
+      ]);
+    } else {
+      const resolved = await resolveApiTokenConnections(request, [sourceConnectionId, targetConnectionId]);
+      if ('response' in resolved) return resolved.response;
+      
+      userId = resolved.userId;
+      sourceConnection = resolved.connections.find((c) => c.id === sourceConnectionId) ?? null;
+      targetConnection = resolved.connections.find((c) => c.id === targetConnectionId) ?? null;
+    }
+    
+    const rateLimitResult = await checkDistributedRateLimit(userId, 'sync');
+    if (!rateLimitResult.allowed) {
       return NextResponse.json(
-        { success: false, error: 'Source and target connection IDs are required' },
-        { status: 400 }
+        { success: false, error: 'Too many requests. Please slow down.' },
+        { status: 429, headers: createDistributedRateLimitHeaders(rateLimitResult, 'sync') }
       );
     }
     
-    // Get connections from Supabase
-    const [sourceConnection, targetConnection] = await Promise.all([
-      supabaseConnectionStore.getById(sourceConnectionId, user.id),
-      supabaseConnectionStore.getById(targetConnectionId, user.id),
-    ]);
-    
     if (!sourceConnection || !targetConnection) {
       return NextResponse.json(
         { success: false, error: 'Connection not found' },
@@ -52,25 +99,51 @@ export const POST = async (request: NextRequest) => {
       );
     }
     
-    // Forward to backend with encrypted URLs
-    const proxyHandler = createProxyPOST('/api/sync/generate-migration');
+    const sourceUrl = decrypt(sourceConnection.encrypted_url);
+    const targetUrl = decrypt(targetConnection.encrypted_url);
     
-    const modifiedRequest = new NextRequest(request.url, {
-      method: 'POST',
-      headers: request.headers,
-      body: JSON.stringify({
-        ...body,
-        sourceEncryptedUrl: sourceConnection.encrypted_url,
-        targetEncryptedUrl: targetConnection.encrypted_url,
-      }),
+    // No tables means every table in the source
+    const { tableNames, changeTrackingColumns, rowFilters } = getTableValidationOptions(validation.data.tables);
+    const tables = tableNames.length > 0
+      ? tableNames
+      : await listDatabaseTables(sourceUrl, sourceConnection.schemas);
+    
+    const plan = generateMigrationPlan(
+      await validateSchemas(sourceUrl, targetUrl, tables, changeTrackingColumns, rowFilters),
+      direction,
+      renameDecisions
+    );
+    
+    if (format === 'json') {
+      return NextResponse.json({
+        success: true,
+        data: { migrationPlan: plan, checksum: checksumMigrationPlan(plan.scripts) },
+      });
+    }
+    
+    if (plan.scripts.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'No migration needed - the schemas already match' },
+        { status: 400 }
+      );
+    }
+    
+    const file = exportMigrationPlan(plan, format, {
+      name: name || `sync_${sourceConnection.name}_to_${targetConnection.name}`,
     });
     
-    return proxyHandler(modifiedRequest);
+    return new NextResponse(typeof file.body === 'string' ? file.body : new Uint8Array(file.body), {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
     
   } catch (error) {
-    logger.error('Generate migration proxy error', { error });
+    logger.error('Generate migration error', { error });
     return NextResponse.json(
-      { success: false, error: 'Failed to proxy migration generation' },
+      { success: false, error: sanitizeErrorMessage((error as Error).message) },
       { status: 500 }
     );
   }
@@ -2,16 +2,24 @@
  * Sync Routes
  * 
  * GET - List sync jobs (lightweight, stays in frontend)
- * POST - Create sync job (proxies to backend)
+ * POST - Create sync job (proxies to backend). Dry runs return a preview
+ *        instead of creating a job: session ones from the diff engine here,
+ *        token ones from the backend.
+ * 
+ * Both also accept personal access tokens, which are forwarded to the
+ * backend to authenticate.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { supabaseSyncJobStore, getJobWithConnections } from '@/lib/db/supabase-store';
 import { getUser } from '@/lib/supabase/server';
 import { checkRateLimit, createRateLimitHeaders } from '@/lib/services/rate-limiter';
-import { SyncJobInputSchema, PaginationSchema, validateInput } from '@/lib/validations/schemas';
-import { createProxyPOST } from '@/lib/utils/proxy-handler';
+import { SyncJobInputSchema, PaginationSchema, validateInput, type SyncJobInput } from '@/lib/validations/schemas';
+import { createProxyGET, createProxyPOST } from '@/lib/utils/proxy-handler';
+import { getApiTokenFromRequest } from '@/lib/services/api-tokens';
 import { supabaseConnectionStore } from '@/lib/db/supabase-store';
+import { decrypt } from '@/lib/services/encryption';
+import { calculateDiff, getMirrorDeleteTables } from '@/lib/services/diff-engine';
 import { validateCSRFProtection, createCSRFErrorResponse } from '@/lib/services/csrf-protection';
 import { sanitizeErrorMessage } from '@/lib/services/security-utils';
 import { logger } from '@/lib/services/logger';
@@ -19,6 +27,11 @@ import { logger } from '@/lib/services/logger';
 // GET - List all sync jobs for the authenticated user (lightweight, stays in frontend)
 export async function GET(request: NextRequest) {
   try {
+    // Token requests are listed by the backend
+    if (getApiTokenFromRequest(request)) {
+      return createProxyGET('/api/sync', { allowApiTokens: true })(request);
+    }
+    
     const user = await getUser();
     
     if (!user) {
@@ -72,15 +85,20 @@ export async function GET(request: NextRequest) {
 // POST - Create a new sync job (proxies to backend)
 export async function POST(request: NextRequest) {
   try {
-    // CSRF Protection
-    const csrfValidation = await validateCSRFProtection(request);
-    if (!csrfValidation.valid) {
-      return createCSRFErrorResponse(csrfValidation.error || 'CSRF validation failed');
+    const apiToken = getApiTokenFromRequest(request);
+    
+    // Token requests carry no cookies, so CSRF does not apply
+    if (!apiToken) {
+      // CSRF Protection
+      const csrfValidation = await validateCSRFProtection(request);
+      if (!csrfValidation.valid) {
+        return createCSRFErrorResponse(csrfValidation.error || 'CSRF validation failed');
+      }
     }
     
-    const user = await getUser();
+    const user = apiToken ? null : await getUser();
     
-    if (!user) {
+    if (!apiToken && !user) {
       return NextResponse.json(
         { success: false, error: 'Authentication required' },
         { status: 401 }
@@ -106,6 +124,29 @@ export async function POST(request: NextRequest) {
       dryRun,
     } = validation.data;
     
+    const tableError = checkEnabledTables(tables);
+    if (tableError) {
+      return NextResponse.json(
+        { success: false, error: tableError },
+        { status: 400 }
+      );
+    }
+    
+    // The backend loads the connections for token requests and performs the
+    // production check against the forwarded X-Confirm-Production header
+    if (!user) {
+      const proxyHandler = createProxyPOST('/api/sync', {
+        allowApiTokens: true,
+        forwardHeaders: ['x-confirm-production'],
+      });
+      
+      return proxyHandler(new NextRequest(request.url, {
+        method: 'POST',
+        headers: request.headers,
+        body: JSON.stringify(validation.data),
+      }));
+    }
+    
     // Get connections (lightweight check, stays in frontend)
     const [sourceConnection, targetConnection] = await Promise.all([
       supabaseConnectionStore.getById(sourceConnectionId, user.id),
@@ -135,22 +176,15 @@ export async function POST(request: NextRequest) {
       }
     }
     
-    // Get enabled tables
-    const enabledTables = tables.filter((t) => t.enabled).map((t) => t.tableName);
-    
-    if (enabledTables.length === 0) {
-      return NextResponse.json(
-        { success: false, error: 'At least one table must be enabled for sync' },
-        { status: 400 }
-      );
-    }
-    
-    // Check sync limits (max 50 tables per sync)
-    if (enabledTables.length > 50) {
-      return NextResponse.json(
-        { success: false, error: 'Too many tables selected. Maximum 50 tables per sync job.' },
-        { status: 400 }
+    if (dryRun) {
+      const preview = await previewSync(
+        decrypt(sourceConnection.encrypted_url),
+        decrypt(targetConnection.encrypted_url),
+        direction,
+        tables
       );
+      
+      return NextResponse.json({ success: true, data: preview });
     }
     
     // Forward to backend with encrypted URLs
@@ -176,3 +210,77 @@ export async function POST(request: NextRequest) {
     );
   }
 }
+
+/**
+ * Preview the changes a sync would make, counting deletes only for tables
+ * whose source-missing rows will actually be removed
+ */
+async function previewSync(
+  sourceUrl: string,
+  targetUrl: string,
+  direction: SyncJobInput['direction'],
+  tables: SyncJobInput['tables']
+) {
+  const enabledTables = tables.filter((t) => t.enabled);
+  const mirrorDeleteTables = getMirrorDeleteTables(enabledTables, direction);
+  
+  const diff = await calculateDiff({
+    sourceUrl,
+    targetUrl,
+    tables: enabledTables.map((t) => t.tableName),
+    mirrorDeleteTables,
+    changeTrackingColumns: Object.fromEntries(
+      enabledTables
+        .filter((t) => t.changeTrackingColumn !== undefined)
+        .map((t) => [t.tableName, t.changeTrackingColumn ?? null])
+    ),
+    rowFilters: Object.fromEntries(
+      enabledTables
+        .filter((t) => t.filters && t.filters.length > 0)
+        .map((t) => [t.tableName, t.filters!])
+    ),
+  });
+  
+  const warnings: string[] = [];
+  
+  for (const t of enabledTables) {
+    if (t.mirrorDeletes && !mirrorDeleteTables.includes(t.tableName)) {
+      warnings.push(`Deletes will not be mirrored for "${t.tableName}": two-way sync only mirrors deletes when the source wins.`);
+    }
+  }
+  
+  for (const issue of diff.schemaIssues) {
+    if (issue.missingInTarget) {
+      warnings.push(`Table "${issue.tableName}" does not exist in the target database.`);
+    } else if (issue.missingInSource) {
+      warnings.push(`Table "${issue.tableName}" does not exist in the source database.`);
+    }
+  }
+  
+  // Conservative estimate: 500 rows/sec, as in estimateSyncVolume()
+  const totalChanges = diff.totalInserts + diff.totalUpdates + diff.totalDeletes;
+  
+  return {
+    ...diff,
+    estimatedDuration: Math.ceil(totalChanges / 500),
+    warnings,
+  };
+}
+
+/**
+ * Check the enabled table count, returning an error message if invalid
+ */
+function checkEnabledTables(tables: { enabled: boolean }[]): string | null {
+  const enabledCount = tables.filter((t) => t.enabled).length;
+  
+  if (enabledCount === 0) {
+    return 'At least one table must be enabled for sync';
+  }
+  
+  // Check sync limits (max 50 tables per sync)
+  if (enabledCount > 50) {
+    return 'Too many tables selected. Maximum 50 tables per sync job.';
+  }
+  
+  return null;
+}
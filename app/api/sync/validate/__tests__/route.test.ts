@@ -0,0 +1,242 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Sync Validate Endpoint Tests
+ *
+ * Tests for schema validation on /api/sync/validate, for API token and
+ * session requests, and for the table configs validated with the schema.
+ */
+
+import { NextRequest } from 'next/server';
+import { POST } from '../route';
+import { backendRequest, BackendError } from '@/lib/utils/backend-client';
+import { validateSchemas } from '@/lib/services/schema-validator';
+import { validateCSRFProtection } from '@/lib/services/csrf-protection';
+import { supabaseConnectionStore } from '@/lib/db/supabase-store';
+import { getUser } from '@/lib/supabase/server';
+import type { SchemaValidationResult } from '@/types';
+
+jest.mock('@/lib/utils/backend-client', () => ({
+  ...jest.requireActual('@/lib/utils/backend-client'),
+  backendRequest: jest.fn(),
+}));
+
+jest.mock('@/lib/services/schema-validator', () => ({
+  ...jest.requireActual('@/lib/services/schema-validator'),
+  validateSchemas: jest.fn(),
+}));
+
+jest.mock('@/lib/services/encryption', () => ({
+  decrypt: (value: string) => value.replace('enc:', ''),
+}));
+
+jest.mock('@/lib/services/rate-limiter-redis', () => ({
+  checkDistributedRateLimit: jest.fn(() => Promise.resolve({ allowed: true })),
+  createDistributedRateLimitHeaders: jest.fn(() => ({})),
+}));
+
+jest.mock('@/lib/services/csrf-protection', () => ({
+  validateCSRFProtection: jest.fn(() => Promise.resolve({ valid: true })),
+  createCSRFErrorResponse: jest.fn(),
+}));
+
+jest.mock('@/lib/supabase/server', () => ({
+  createClient: jest.fn(),
+  getUser: jest.fn(),
+}));
+
+jest.mock('@/lib/db/supabase-store', () => ({
+  supabaseConnectionStore: { getById: jest.fn() },
+}));
+
+const SOURCE_ID = '11111111-1111-4111-8111-111111111111';
+const TARGET_ID = '22222222-2222-4222-8222-222222222222';
+const API_TOKEN = 'sbsync_0123456789abcdefghijklmnopqrstuvwxyz';
+
+const connection = (id: string, name: string, environment: 'production' | 'development') => ({
+  id,
+  name,
+  environment,
+  schemas: ['public'],
+  encryptedUrl: `enc:postgres://${name}`,
+});
+
+const validationResult = (critical: number): SchemaValidationResult => ({
+  isValid: critical === 0,
+  canProceed: critical === 0,
+  requiresConfirmation: false,
+  issues: [],
+  summary: { critical, high: 0, medium: 0, low: 0, info: 0 },
+  sourceSchema: { tables: [] } as unknown as SchemaValidationResult['sourceSchema'],
+  targetSchema: { tables: [] } as unknown as SchemaValidationResult['targetSchema'],
+  comparisonDetails: [],
+});
+
+function createRequest(body: unknown, token?: string): NextRequest {
+  return new NextRequest('http://localhost/api/sync/validate', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+describe('/api/sync/validate', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('API token requests', () => {
+    it('should validate the token owner\'s connections instead of proxying', async () => {
+      (backendRequest as jest.Mock).mockResolvedValue({
+        success: true,
+        data: {
+          userId: 'user-1',
+          connections: [connection(SOURCE_ID, 'dev', 'development'), connection(TARGET_ID, 'prod', 'production')],
+        },
+      });
+      (validateSchemas as jest.Mock).mockResolvedValue(validationResult(1));
+
+      const response = await POST(createRequest({
+        sourceConnectionId: SOURCE_ID,
+        targetConnectionId: TARGET_ID,
+        tables: ['users', 'billing.invoices'],
+      }, API_TOKEN));
+      const data = await response.json();
+
+      expect(backendRequest).toHaveBeenCalledTimes(1);
+      expect(backendRequest).toHaveBeenCalledWith(expect.objectContaining({
+        path: '/api/connections/resolve',
+        body: { connectionIds: [SOURCE_ID, TARGET_ID] },
+        userToken: API_TOKEN,
+      }));
+      expect(validateSchemas).toHaveBeenCalledWith(
+        'postgres://dev',
+        'postgres://prod',
+        ['users', 'billing.invoices'],
+        {},
+        {},
+      );
+      expect(validateCSRFProtection).not.toHaveBeenCalled();
+      expect(getUser).not.toHaveBeenCalled();
+
+      expect(response.status).toBe(200);
+      expect(data.data.validation.summary.critical).toBe(1);
+      expect(data.data.canProceed).toBe(false);
+      expect(data.data.isCompatible).toBe(false);
+      expect(data.data.requiresConfirmation).toBe(true);
+      expect(data.data.targetEnvironment).toBe('production');
+      expect(data.data.summary).toContain('CRITICAL');
+    });
+
+    it('should return 404 for connections the token owner does not have', async () => {
+      (backendRequest as jest.Mock).mockResolvedValue({
+        success: true,
+        data: { userId: 'user-1', connections: [connection(SOURCE_ID, 'dev', 'development')] },
+      });
+
+      const response = await POST(createRequest({
+        sourceConnectionId: SOURCE_ID,
+        targetConnectionId: TARGET_ID,
+        tables: ['users'],
+      }, API_TOKEN));
+
+      expect(response.status).toBe(404);
+      expect(validateSchemas).not.toHaveBeenCalled();
+    });
+
+    it('should pass on the backend\'s rejection of the token', async () => {
+      (backendRequest as jest.Mock).mockRejectedValue(new BackendError('Invalid API token', 401));
+
+      const response = await POST(createRequest({
+        sourceConnectionId: SOURCE_ID,
+        targetConnectionId: TARGET_ID,
+      }, API_TOKEN));
+
+      expect(response.status).toBe(401);
+      expect(validateSchemas).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('session requests', () => {
+    it('should validate the user\'s connections', async () => {
+      (getUser as jest.Mock).mockResolvedValue({ id: 'user-1' });
+      (supabaseConnectionStore.getById as jest.Mock).mockImplementation((id: string) => Promise.resolve({
+        id,
+        name: id === SOURCE_ID ? 'dev' : 'staging',
+        environment: 'development',
+        schemas: ['public'],
+        encrypted_url: `enc:postgres://${id === SOURCE_ID ? 'dev' : 'staging'}`,
+      }));
+      (validateSchemas as jest.Mock).mockResolvedValue(validationResult(0));
+
+      const response = await POST(createRequest({
+        sourceConnectionId: SOURCE_ID,
+        targetConnectionId: TARGET_ID,
+        tables: [{ tableName: 'users', enabled: true }],
+      }));
+      const data = await response.json();
+
+      expect(backendRequest).not.toHaveBeenCalled();
+      expect(validateSchemas).toHaveBeenCalledWith(
+        'postgres://dev',
+        'postgres://staging',
+        ['users'],
+        { users: undefined },
+        { users: undefined },
+      );
+      expect(data.data.canProceed).toBe(true);
+      expect(data.data.requiresConfirmation).toBe(false);
+      expect(data.data.warnings).toEqual([]);
+    });
+
+    it('should validate the change tracking columns and row filters of table configs', async () => {
+      (getUser as jest.Mock).mockResolvedValue({ id: 'user-1' });
+      (supabaseConnectionStore.getById as jest.Mock).mockImplementation((id: string) => Promise.resolve({
+        id,
+        name: id,
+        environment: 'development',
+        schemas: ['public'],
+        encrypted_url: `enc:postgres://${id}`,
+      }));
+      (validateSchemas as jest.Mock).mockResolvedValue(validationResult(0));
+
+      const filters = [{ column: 'status', operator: 'eq', value: 'active' }];
+      const response = await POST(createRequest({
+        sourceConnectionId: SOURCE_ID,
+        targetConnectionId: TARGET_ID,
+        tables: [
+          { tableName: 'users', enabled: true, changeTrackingColumn: 'modified_at', filters },
+          { tableName: 'billing.invoices', enabled: true, changeTrackingColumn: null },
+          'audit_log',
+        ],
+      }));
+
+      expect(response.status).toBe(200);
+      expect(validateSchemas).toHaveBeenCalledWith(
+        `postgres://${SOURCE_ID}`,
+        `postgres://${TARGET_ID}`,
+        ['users', 'billing.invoices', 'audit_log'],
+        { users: 'modified_at', 'billing.invoices': null },
+        { users: filters, 'billing.invoices': undefined },
+      );
+    });
+
+    it('should reject an invalid change tracking column', async () => {
+      (getUser as jest.Mock).mockResolvedValue({ id: 'user-1' });
+
+      const response = await POST(createRequest({
+        sourceConnectionId: SOURCE_ID,
+        targetConnectionId: TARGET_ID,
+        tables: [{ tableName: 'users', enabled: true, changeTrackingColumn: 'updated_at; DROP TABLE users' }],
+      }));
+
+      expect(response.status).toBe(400);
+      expect(validateSchemas).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -2,49 +2,85 @@
  * POST /api/sync/validate
  * 
  * Validates schema compatibility between source and target.
- * Proxies to backend for schema validation.
+ * 
+ * `tables` takes table names or table configs, whose change tracking column
+ * and row filters are checked too; no tables means every table in the source. API token requests are authenticated by the backend, which
+ * also loads the token owner's connections; validation then runs here for
+ * both kinds of request.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { supabaseConnectionStore } from '@/lib/db/supabase-store';
 import { getUser } from '@/lib/supabase/server';
-import { createProxyPOST } from '@/lib/utils/proxy-handler';
+import { resolveApiTokenConnections, type ApiTokenConnection } from '@/lib/utils/proxy-handler';
+import { decrypt } from '@/lib/services/encryption';
+import { getTableValidationOptions, getValidationSummary, validateSchemas } from '@/lib/services/schema-validator';
+import { listDatabaseTables } from '@/lib/services/migration-ledger';
+import { ValidateInputSchema, validateInput } from '@/lib/validations/schemas';
 import { validateCSRFProtection, createCSRFErrorResponse } from '@/lib/services/csrf-protection';
+import { checkDistributedRateLimit, createDistributedRateLimitHeaders } from '@/lib/services/rate-limiter-redis';
+import { sanitizeErrorMessage } from '@/lib/services/security-utils';
 import { logger } from '@/lib/services/logger';
+import { getApiTokenFromRequest } from '@/lib/services/api-tokens';
 
 export const POST = async (request: NextRequest) => {
   try {
-    // CSRF Protection
-    const csrfValidation = await validateCSRFProtection(request);
-    if (!csrfValidation.valid) {
-      return createCSRFErrorResponse(csrfValidation.error || 'CSRF validation failed');
-    }
+    const isTokenRequest = Boolean(getApiTokenFromRequest(request));
+    let sessionUserId: string | null = null;
     
-    const user = await getUser();
+    // Tokens are not sent by the browser, so only sessions need CSRF checks
+    if (!isTokenRequest) {
+      const csrfValidation = await validateCSRFProtection(request);
+      if (!csrfValidation.valid) {
+        return createCSRFErrorResponse(csrfValidation.error || 'CSRF validation failed');
+      }
+      
+      const user = await getUser();
+      if (!user) {
+        return NextResponse.json(
+          { success: false, error: 'Authentication required' },
+          { status: 401 }
+        );
+      }
+      sessionUserId = user.id;
+    }
     
-    if (!user) {
+    const validation = validateInput(ValidateInputSchema, await request.json());
+    if (!validation.success) {
       return NextResponse.json(
-        { success: false, error: 'Authentication required' },
-        { status: 401 }
+        { success: false, error: validation.errors.join(', ') },
+        { status: 400 }
       );
     }
     
-    const body = await request.json();
-    const { sourceConnectionId, targetConnectionId } = body;
+    const { sourceConnectionId, targetConnectionId } = validation.data;
+    let userId: string;
+    let sourceConnection: ApiTokenConnection | null;
+    let targetConnection: ApiTokenConnection | null;
     
-    if (!sourceConnectionId || !targetConnectionId) {
+    if (sessionUserId) {
+      userId = sessionUserId;
+      [sourceConnection, targetConnection] = await Promise.all([
+        supabaseConnectionStore.getById(sourceConnectionId, userId),
+        supabaseConnectionStore.getById(targetConnectionId, userId),
+      ]);
+    } else {
+      const resolved = await resolveApiTokenConnections(request, [sourceConnectionId, targetConnectionId]);
+      if ('response' in resolved) return resolved.response;
+      
+      userId = resolved.userId;
+      sourceConnection = resolved.connections.find((c) => c.id === sourceConnectionId) ?? null;
+      targetConnection = resolved.connections.find((c) => c.id === targetConnectionId) ?? null;
+    }
+    
+    const rateLimitResult = await checkDistributedRateLimit(userId, 'sync');
+    if (!rateLimitResult.allowed) {
       return NextResponse.json(
-        { success: false, error: 'Source and target connection IDs are required' },
-        { status: 400 }
+        { success: false, error: 'Too many requests. Please slow down.' },
+        { status: 429, headers: createDistributedRateLimitHeaders(rateLimitResult, 'sync') }
       );
     }
     
-    // Get connections from Supabase
-    const [sourceConnection, targetConnection] = await Promise.all([
-      supabaseConnectionStore.getById(sourceConnectionId, user.id),
-      supabaseConnectionStore.getById(targetConnectionId, user.id),
-    ]);
-    
     if (!sourceConnection || !targetConnection) {
       return NextResponse.json(
         { success: false, error: 'Connection not found' },
@@ -52,25 +88,40 @@ export const POST = async (request: NextRequest) => {
       );
     }
     
-    // Forward to backend with encrypted URLs
-    const proxyHandler = createProxyPOST('/api/sync/validate');
+    const sourceUrl = decrypt(sourceConnection.encrypted_url);
+    const targetUrl = decrypt(targetConnection.encrypted_url);
     
-    const modifiedRequest = new NextRequest(request.url, {
-      method: 'POST',
-      headers: request.headers,
-      body: JSON.stringify({
-        ...body,
-        sourceEncryptedUrl: sourceConnection.encrypted_url,
-        targetEncryptedUrl: targetConnection.encrypted_url,
-      }),
-    });
+    // No tables means every table in the source
+    const { tableNames, changeTrackingColumns, rowFilters } = getTableValidationOptions(validation.data.tables);
+    const tables = tableNames.length > 0
+      ? tableNames
+      : await listDatabaseTables(sourceUrl, sourceConnection.schemas);
+    
+    const result = await validateSchemas(sourceUrl, targetUrl, tables, changeTrackingColumns, rowFilters);
     
-    return proxyHandler(modifiedRequest);
+    const warnings: string[] = [];
+    if (targetConnection.environment === 'production') {
+      warnings.push(`Target "${targetConnection.name}" is a production database.`);
+    }
+    
+    return NextResponse.json({
+      success: true,
+      data: {
+        validation: result,
+        summary: getValidationSummary(result),
+        warnings,
+        canProceed: result.canProceed,
+        requiresConfirmation: result.requiresConfirmation || targetConnection.environment === 'production',
+        isCompatible: result.canProceed,
+        targetEnvironment: targetConnection.environment,
+        targetName: targetConnection.name,
+      },
+    });
     
   } catch (error) {
-    logger.error('Sync validate proxy error', { error });
+    logger.error('Sync validate error', { error });
     return NextResponse.json(
-      { success: false, error: 'Failed to proxy validation request' },
+      { success: false, error: sanitizeErrorMessage((error as Error).message) },
       { status: 500 }
     );
   }
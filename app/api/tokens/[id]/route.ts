@@ -0,0 +1,97 @@
+/**
+ * Individual API Token Management
+ *
+ * DELETE /api/tokens/[id] - Revoke a personal access token
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getUser } from '@/lib/supabase/server';
+import { supabaseApiTokenStore } from '@/lib/db/supabase-store';
+import { validateCSRFProtection, createCSRFErrorResponse } from '@/lib/services/csrf-protection';
+import { checkDistributedRateLimit, createDistributedRateLimitHeaders } from '@/lib/services/rate-limiter-redis';
+import { logSecurityEvent } from '@/lib/services/security-logger';
+import { extractIP, sanitizeErrorMessage, isValidUUID } from '@/lib/services/security-utils';
+import { logger } from '@/lib/services/logger';
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+/**
+ * DELETE /api/tokens/[id]
+ * Revoke a token. Revoked tokens stay listed so their usage remains auditable.
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    // CSRF Protection
+    const csrfValidation = await validateCSRFProtection(request);
+    if (!csrfValidation.valid) {
+      return createCSRFErrorResponse(csrfValidation.error || 'CSRF validation failed');
+    }
+
+    const user = await getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+
+    if (!isValidUUID(id)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid token ID format' },
+        { status: 400 }
+      );
+    }
+
+    // Rate limit check
+    const rateLimitResult = await checkDistributedRateLimit(user.id, 'write');
+    if (!rateLimitResult.allowed) {
+      return NextResponse.json(
+        { success: false, error: 'Too many requests. Please slow down.' },
+        { status: 429, headers: createDistributedRateLimitHeaders(rateLimitResult, 'write') }
+      );
+    }
+
+    const revoked = await supabaseApiTokenStore.revoke(id, user.id);
+
+    if (!revoked) {
+      return NextResponse.json(
+        { success: false, error: 'Token not found or already revoked' },
+        { status: 404 }
+      );
+    }
+
+    logSecurityEvent({
+      eventType: 'api_token_revoked',
+      severity: 'medium',
+      userId: user.id,
+      ipAddress: extractIP(request.headers) || undefined,
+      userAgent: request.headers.get('user-agent') || undefined,
+      endpoint: `/api/tokens/${id}`,
+      method: 'DELETE',
+      details: {
+        id,
+        name: revoked.name,
+        prefix: revoked.token_prefix,
+      },
+    }).catch(() => {});
+
+    return NextResponse.json({
+      success: true,
+      data: revoked,
+    });
+  } catch (error) {
+    logger.error('Failed to revoke API token', { error });
+
+    return NextResponse.json(
+      { success: false, error: sanitizeErrorMessage((error as Error).message) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,156 @@
+/**
+ * API Token Management
+ *
+ * GET /api/tokens - List the current user's personal access tokens
+ * POST /api/tokens - Create a token (the plain-text token is returned once)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getUser } from '@/lib/supabase/server';
+import { supabaseApiTokenStore } from '@/lib/db/supabase-store';
+import { generateApiToken, MAX_ACTIVE_API_TOKENS } from '@/lib/services/api-tokens';
+import { ApiTokenInputSchema, validateInput } from '@/lib/validations/schemas';
+import { validateCSRFProtection, createCSRFErrorResponse } from '@/lib/services/csrf-protection';
+import { checkDistributedRateLimit, createDistributedRateLimitHeaders } from '@/lib/services/rate-limiter-redis';
+import { logSecurityEvent } from '@/lib/services/security-logger';
+import { extractIP, sanitizeErrorMessage } from '@/lib/services/security-utils';
+import { logger } from '@/lib/services/logger';
+
+/**
+ * GET /api/tokens
+ * List tokens, including revoked and expired ones (never their hashes)
+ */
+export async function GET() {
+  try {
+    const user = await getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // Rate limit check
+    const rateLimitResult = await checkDistributedRateLimit(user.id, 'read');
+    if (!rateLimitResult.allowed) {
+      return NextResponse.json(
+        { success: false, error: 'Too many requests. Please slow down.' },
+        { status: 429, headers: createDistributedRateLimitHeaders(rateLimitResult, 'read') }
+      );
+    }
+
+    const tokens = await supabaseApiTokenStore.getAll(user.id);
+
+    return NextResponse.json({
+      success: true,
+      data: tokens,
+    });
+  } catch (error) {
+    logger.error('Failed to list API tokens', { error });
+
+    return NextResponse.json(
+      { success: false, error: sanitizeErrorMessage((error as Error).message) },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/tokens
+ * Create a token
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // CSRF Protection
+    const csrfValidation = await validateCSRFProtection(request);
+    if (!csrfValidation.valid) {
+      return createCSRFErrorResponse(csrfValidation.error || 'CSRF validation failed');
+    }
+
+    const user = await getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // Rate limit check for write operations
+    const rateLimitResult = await checkDistributedRateLimit(user.id, 'write');
+    if (!rateLimitResult.allowed) {
+      return NextResponse.json(
+        { success: false, error: 'Too many requests. Please slow down.' },
+        { status: 429, headers: createDistributedRateLimitHeaders(rateLimitResult, 'write') }
+      );
+    }
+
+    const body = await request.json();
+
+    const validation = validateInput(ApiTokenInputSchema, body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: validation.errors.join(', ') },
+        { status: 400 }
+      );
+    }
+
+    const { name, scopes, expiresInDays, rateLimitPerMinute } = validation.data;
+
+    const activeCount = await supabaseApiTokenStore.countActive(user.id);
+    if (activeCount >= MAX_ACTIVE_API_TOKENS) {
+      return NextResponse.json(
+        { success: false, error: `You can have at most ${MAX_ACTIVE_API_TOKENS} active tokens. Revoke an unused token first.` },
+        { status: 400 }
+      );
+    }
+
+    const { token, prefix, hash } = generateApiToken();
+    const expiresAt = expiresInDays
+      ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000)
+      : null;
+
+    const created = await supabaseApiTokenStore.create(user.id, {
+      name,
+      tokenPrefix: prefix,
+      tokenHash: hash,
+      scopes,
+      rateLimitPerMinute,
+      expiresAt,
+    });
+
+    logSecurityEvent({
+      eventType: 'api_token_created',
+      severity: scopes.includes('admin') ? 'high' : 'medium',
+      userId: user.id,
+      ipAddress: extractIP(request.headers) || undefined,
+      userAgent: request.headers.get('user-agent') || undefined,
+      endpoint: '/api/tokens',
+      method: 'POST',
+      details: {
+        id: created.id,
+        name,
+        prefix,
+        scopes,
+        expiresAt: created.expires_at,
+      },
+    }).catch(() => {});
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...created,
+        // Only time the plain-text token leaves the server
+        token,
+      },
+    }, { status: 201 });
+  } catch (error) {
+    logger.error('Failed to create API token', { error });
+
+    return NextResponse.json(
+      { success: false, error: sanitizeErrorMessage((error as Error).message) },
+      { status: 500 }
+    );
+  }
+}
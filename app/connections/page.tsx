@@ -22,6 +22,7 @@ const defaultNewConnection: NewConnectionForm = {
   name: '',
   databaseUrl: '',
   environment: 'development',
+  schemas: 'public',
 };
 
 export default function ConnectionsPage() {
@@ -291,7 +292,13 @@ export default function ConnectionsPage() {
       const response = await csrfFetch('/api/connections', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(newConnection),
+        body: JSON.stringify({
+          ...newConnection,
+          schemas: newConnection.schemas
+            .split(',')
+            .map((schema) => schema.trim())
+            .filter(Boolean),
+        }),
       });
 
       const data = await response.json();
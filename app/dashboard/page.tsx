@@ -408,6 +408,36 @@ export default function DashboardPage() {
             >
               Data Explorer
             </Button>
+            <Button
+              leftIcon={<DatabaseIcon />}
+              variant="outline"
+              onClick={() => router.push('/snapshots')}
+              size={{ base: 'md', md: 'md' }}
+              minH="44px"
+              w={{ base: '100%', sm: 'auto' }}
+            >
+              Snapshots
+            </Button>
+            <Button
+              leftIcon={<SyncIcon />}
+              variant="outline"
+              onClick={() => router.push('/sync/schedules')}
+              size={{ base: 'md', md: 'md' }}
+              minH="44px"
+              w={{ base: '100%', sm: 'auto' }}
+            >
+              Schedules
+            </Button>
+            <Button
+              leftIcon={<SyncIcon />}
+              variant="outline"
+              onClick={() => router.push('/data-diff')}
+              size={{ base: 'md', md: 'md' }}
+              minH="44px"
+              w={{ base: '100%', sm: 'auto' }}
+            >
+              Data Diff
+            </Button>
             <Button
               leftIcon={<DatabaseIcon />}
               variant="outline"
@@ -0,0 +1,295 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  Accordion,
+  AccordionButton,
+  AccordionIcon,
+  AccordionItem,
+  AccordionPanel,
+  Badge,
+  Box,
+  Button,
+  Card,
+  CardBody,
+  Checkbox,
+  Container,
+  Flex,
+  FormControl,
+  FormHelperText,
+  FormLabel,
+  Heading,
+  HStack,
+  IconButton,
+  Select,
+  SimpleGrid,
+  Spinner,
+  Stat,
+  StatLabel,
+  StatNumber,
+  Text,
+  VStack,
+  useToast,
+} from '@chakra-ui/react';
+import { logger } from '@/lib/services/logger';
+import { csrfFetch, initializeCSRF } from '@/lib/utils/csrf-client';
+import { exportDataDiffReport, type DataDiffExportFormat } from '@/lib/services/data-diff-export';
+import { ArrowLeftIcon } from '@/components/connections/icons';
+import DataDiffTableDetails from '@/components/data-diff/DataDiffTableDetails';
+import type { Connection } from '@/components/connections/types';
+import type { DataDiffReport, DataDiffTable } from '@/types';
+
+function tableBadge(table: DataDiffTable): { label: string; color: string } {
+  if (table.error) return { label: 'error', color: 'red' };
+  if (table.onlyInSource + table.onlyInTarget + table.differing === 0) return { label: 'identical', color: 'green' };
+  return { label: 'differs', color: 'yellow' };
+}
+
+export default function DataDiffPage() {
+  const [connections, setConnections] = useState<Connection[]>([]);
+  const [sourceId, setSourceId] = useState('');
+  const [targetId, setTargetId] = useState('');
+  const [availableTables, setAvailableTables] = useState<string[]>([]);
+  const [selectedTables, setSelectedTables] = useState<string[]>([]);
+  const [isComparing, setIsComparing] = useState(false);
+  const [report, setReport] = useState<DataDiffReport | null>(null);
+
+  const router = useRouter();
+  const toast = useToast();
+
+  useEffect(() => {
+    initializeCSRF();
+
+    fetch('/api/connections')
+      .then((response) => response.json())
+      .then((data) => {
+        if (data.success) setConnections(data.data);
+      })
+      .catch((error) => logger.error('Failed to load connections', { error }));
+  }, []);
+
+  useEffect(() => {
+    setSelectedTables([]);
+    if (!sourceId) {
+      setAvailableTables([]);
+      return;
+    }
+
+    let cancelled = false;
+
+    fetch(`/api/connections/${sourceId}/schema`)
+      .then((response) => response.json())
+      .then((data) => {
+        if (!cancelled && data.success) {
+          setAvailableTables(data.data.tables.map((table: { name: string }) => table.name));
+        }
+      })
+      .catch(() => {
+        // Without the table list every table is compared
+        if (!cancelled) setAvailableTables([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sourceId]);
+
+  const toggleTable = (table: string) => {
+    setSelectedTables((current) =>
+      current.includes(table) ? current.filter((t) => t !== table) : [...current, table]
+    );
+  };
+
+  const compare = async () => {
+    setIsComparing(true);
+    setReport(null);
+
+    try {
+      const response = await csrfFetch('/api/sync/data-diff', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sourceConnectionId: sourceId, targetConnectionId: targetId, tables: selectedTables }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setReport(data.data.report);
+      } else {
+        toast({ title: 'Comparison failed', description: data.error, status: 'error', duration: 5000 });
+      }
+    } catch (error) {
+      logger.error('Data diff failed', { error });
+      toast({ title: 'Comparison failed', status: 'error', duration: 3000 });
+    } finally {
+      setIsComparing(false);
+    }
+  };
+
+  const download = (format: DataDiffExportFormat) => {
+    if (!report) return;
+
+    const file = exportDataDiffReport(report, format);
+    const url = window.URL.createObjectURL(new Blob([file.body], { type: file.contentType }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = file.filename;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    window.URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Box minH="100vh" className="gradient-mesh">
+      <Box
+        as="header"
+        bg="bg.surface"
+        borderBottomWidth="1px"
+        borderColor="border.default"
+        position="sticky"
+        top={0}
+        zIndex={10}
+        backdropFilter="blur(10px)"
+      >
+        <Container maxW="7xl" py={{ base: 3, md: 4 }} px={{ base: 4, md: 6 }}>
+          <HStack spacing={{ base: 2, md: 4 }}>
+            <IconButton
+              aria-label="Back"
+              icon={<ArrowLeftIcon />}
+              variant="ghost"
+              size={{ base: 'sm', md: 'md' }}
+              onClick={() => router.push('/')}
+            />
+            <Heading size={{ base: 'sm', md: 'md' }} color="text.primary">
+              Data Diff
+            </Heading>
+          </HStack>
+        </Container>
+      </Box>
+
+      <Container maxW="7xl" py={{ base: 4, md: 8 }} px={{ base: 4, md: 6 }}>
+        <VStack spacing={6} align="stretch">
+          <Card>
+            <CardBody>
+              <VStack spacing={4} align="stretch">
+                <SimpleGrid columns={{ base: 1, md: 2 }} spacing={4}>
+                  <FormControl isRequired>
+                    <FormLabel color="text.secondary">Source</FormLabel>
+                    <Select placeholder="Select a connection" value={sourceId} onChange={(e) => setSourceId(e.target.value)}>
+                      {connections.map((connection) => (
+                        <option key={connection.id} value={connection.id}>
+                          {connection.name} ({connection.environment})
+                        </option>
+                      ))}
+                    </Select>
+                  </FormControl>
+                  <FormControl isRequired>
+                    <FormLabel color="text.secondary">Target</FormLabel>
+                    <Select placeholder="Select a connection" value={targetId} onChange={(e) => setTargetId(e.target.value)}>
+                      {connections.filter((connection) => connection.id !== sourceId).map((connection) => (
+                        <option key={connection.id} value={connection.id}>
+                          {connection.name} ({connection.environment})
+                        </option>
+                      ))}
+                    </Select>
+                  </FormControl>
+                </SimpleGrid>
+
+                {availableTables.length > 0 && (
+                  <FormControl>
+                    <FormLabel color="text.secondary">Tables</FormLabel>
+                    <SimpleGrid columns={{ base: 1, md: 3 }} spacing={1} maxH="200px" overflowY="auto">
+                      {availableTables.map((table) => (
+                        <Checkbox key={table} isChecked={selectedTables.includes(table)} onChange={() => toggleTable(table)}>
+                          <Text fontFamily="mono" fontSize="sm">{table}</Text>
+                        </Checkbox>
+                      ))}
+                    </SimpleGrid>
+                    <FormHelperText color="text.tertiary">Leave empty to compare every table.</FormHelperText>
+                  </FormControl>
+                )}
+
+                <Flex justify="flex-end">
+                  <Button onClick={compare} isLoading={isComparing} loadingText="Comparing" isDisabled={!sourceId || !targetId}>
+                    Compare data
+                  </Button>
+                </Flex>
+              </VStack>
+            </CardBody>
+          </Card>
+
+          {isComparing && (
+            <Flex justify="center" py={8}>
+              <Spinner size="xl" color="accent.primary" />
+            </Flex>
+          )}
+
+          {report && (
+            <VStack spacing={4} align="stretch">
+              <Flex justify="space-between" align="center" gap={3} flexWrap="wrap">
+                <Text color="text.secondary" fontSize="sm">
+                  {report.sourceName} → {report.targetName} · {new Date(report.generatedAt).toLocaleString()}
+                </Text>
+                <HStack spacing={2}>
+                  <Button size="sm" variant="outline" onClick={() => download('json')}>Export JSON</Button>
+                  <Button size="sm" variant="outline" onClick={() => download('csv')}>Export CSV</Button>
+                </HStack>
+              </Flex>
+
+              <SimpleGrid columns={{ base: 2, md: 4 }} spacing={4}>
+                {[
+                  { label: 'Only in source', value: report.totals.onlyInSource },
+                  { label: 'Only in target', value: report.totals.onlyInTarget },
+                  { label: 'Differing', value: report.totals.differing },
+                  { label: 'Identical', value: report.totals.identical },
+                ].map((stat) => (
+                  <Card key={stat.label}>
+                    <CardBody p={4}>
+                      <Stat>
+                        <StatLabel color="text.tertiary">{stat.label}</StatLabel>
+                        <StatNumber color="text.primary">{stat.value.toLocaleString()}</StatNumber>
+                      </Stat>
+                    </CardBody>
+                  </Card>
+                ))}
+              </SimpleGrid>
+
+              <Card>
+                <CardBody p={0}>
+                  <Accordion allowMultiple>
+                    {report.tables.map((table) => {
+                      const badge = tableBadge(table);
+                      return (
+                        <AccordionItem key={table.tableName} borderColor="border.default">
+                          <AccordionButton px={4} py={3}>
+                            <HStack flex={1} spacing={3} minW={0}>
+                              <Text fontFamily="mono" fontSize="sm" color="text.primary" isTruncated>
+                                {table.tableName}
+                              </Text>
+                              <Badge colorScheme={badge.color}>{badge.label}</Badge>
+                            </HStack>
+                            {!table.error && (
+                              <Text fontSize="xs" color="text.tertiary" mr={3} display={{ base: 'none', md: 'block' }}>
+                                +{table.onlyInSource} source · +{table.onlyInTarget} target · {table.differing} differing ·{' '}
+                                {table.identical} identical
+                              </Text>
+                            )}
+                            <AccordionIcon />
+                          </AccordionButton>
+                          <AccordionPanel px={4} pb={4}>
+                            <DataDiffTableDetails table={table} />
+                          </AccordionPanel>
+                        </AccordionItem>
+                      );
+                    })}
+                  </Accordion>
+                </CardBody>
+              </Card>
+            </VStack>
+          )}
+        </VStack>
+      </Container>
+    </Box>
+  );
+}
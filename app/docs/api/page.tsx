@@ -366,7 +366,7 @@ export default function ApiPage() {
         <Endpoint
           method="POST"
           path="/api/sync"
-          description="Create a new sync job."
+          description="Create a new sync job. With dryRun set, returns the inserts, updates and deletes it would make instead of creating a job."
           auth
         >
           <Text fontSize="sm" fontWeight="500" color="white" mb={2}>
@@ -501,7 +501,7 @@ data: {"error": "Connection lost"}`}
         <Endpoint
           method="GET"
           path="/api/explorer/:connectionId/:table/rows"
-          description="Get paginated rows from a table."
+          description="Get a page of rows from a table, optionally narrowed by a quick search and a structured filter."
           auth
         >
           <Text fontSize="sm" fontWeight="500" color="white" mb={2}>
@@ -517,11 +517,6 @@ data: {"error": "Connection lost"}`}
                 </Tr>
               </Thead>
               <Tbody>
-                <Tr>
-                  <Td borderColor="gray.800"><Code fontSize="xs">page</Code></Td>
-                  <Td borderColor="gray.800" color="gray.400">integer</Td>
-                  <Td borderColor="gray.800" color="gray.400">1</Td>
-                </Tr>
                 <Tr>
                   <Td borderColor="gray.800"><Code fontSize="xs">limit</Code></Td>
                   <Td borderColor="gray.800" color="gray.400">integer</Td>
@@ -537,9 +532,120 @@ data: {"error": "Connection lost"}`}
                   <Td borderColor="gray.800" color="gray.400">asc | desc</Td>
                   <Td borderColor="gray.800" color="gray.400">desc</Td>
                 </Tr>
+                <Tr>
+                  <Td borderColor="gray.800"><Code fontSize="xs">search</Code></Td>
+                  <Td borderColor="gray.800" color="gray.400">string</Td>
+                  <Td borderColor="gray.800" color="gray.400">-</Td>
+                </Tr>
+                <Tr>
+                  <Td borderColor="gray.800"><Code fontSize="xs">filter</Code></Td>
+                  <Td borderColor="gray.800" color="gray.400">JSON</Td>
+                  <Td borderColor="gray.800" color="gray.400">-</Td>
+                </Tr>
+                <Tr>
+                  <Td borderColor="gray.800"><Code fontSize="xs">cursor</Code></Td>
+                  <Td borderColor="gray.800" color="gray.400">string</Td>
+                  <Td borderColor="gray.800" color="gray.400">-</Td>
+                </Tr>
+                <Tr>
+                  <Td borderColor="gray.800"><Code fontSize="xs">count</Code></Td>
+                  <Td borderColor="gray.800" color="gray.400">estimate | exact</Td>
+                  <Td borderColor="gray.800" color="gray.400">estimate</Td>
+                </Tr>
               </Tbody>
             </Table>
           </TableContainer>
+          <Text fontSize="sm" color="gray.400" mt={4} mb={2}>
+            Pages are keyset-paginated: pass the previous response&apos;s <Code fontSize="xs">nextCursor</Code> as{' '}
+            <Code fontSize="xs">cursor</Code> to continue. <Code fontSize="xs">total</Code> is returned with the first
+            page only and is an estimate (<Code fontSize="xs">totalIsEstimate</Code>) for large tables unless{' '}
+            <Code fontSize="xs">count=exact</Code> is passed. Exact counts that take longer than 30 seconds fall back to
+            the estimate.
+          </Text>
+          <Text fontSize="sm" color="gray.400" mb={2}>
+            <Code fontSize="xs">search</Code> matches any text column case-insensitively.{' '}
+            <Code fontSize="xs">filter</Code> combines column conditions with AND / OR; operators are eq, neq,
+            contains, not_contains, gt, gte, lt, lte, between (with valueTo), is_null and is_not_null.
+          </Text>
+          <CodeBlock
+            code={`{
+  "combinator": "and",
+  "conditions": [
+    { "column": "status", "operator": "eq", "value": "active" },
+    {
+      "combinator": "or",
+      "conditions": [
+        { "column": "email", "operator": "contains", "value": "@example.com" },
+        { "column": "created_at", "operator": "between", "value": "2024-01-01", "valueTo": "2024-12-31" }
+      ]
+    }
+  ]
+}`}
+          />
+        </Endpoint>
+
+        <Endpoint
+          method="GET"
+          path="/api/explorer/:connectionId/:table/export"
+          description="Download rows as a file, streamed as they are read. Takes the same orderBy, orderDir, search and filter parameters as the rows endpoint."
+          auth
+        >
+          <Text fontSize="sm" fontWeight="500" color="white" mb={2}>
+            Query Parameters
+          </Text>
+          <TableContainer>
+            <Table size="sm">
+              <Thead>
+                <Tr>
+                  <Th color="gray.500" borderColor="gray.700">Parameter</Th>
+                  <Th color="gray.500" borderColor="gray.700">Type</Th>
+                  <Th color="gray.500" borderColor="gray.700">Default</Th>
+                </Tr>
+              </Thead>
+              <Tbody>
+                <Tr>
+                  <Td borderColor="gray.800"><Code fontSize="xs">format</Code></Td>
+                  <Td borderColor="gray.800" color="gray.400">csv | ndjson | sql</Td>
+                  <Td borderColor="gray.800" color="gray.400">csv</Td>
+                </Tr>
+                <Tr>
+                  <Td borderColor="gray.800"><Code fontSize="xs">columns</Code></Td>
+                  <Td borderColor="gray.800" color="gray.400">comma-separated</Td>
+                  <Td borderColor="gray.800" color="gray.400">all</Td>
+                </Tr>
+                <Tr>
+                  <Td borderColor="gray.800"><Code fontSize="xs">limit</Code></Td>
+                  <Td borderColor="gray.800" color="gray.400">integer (max 100000)</Td>
+                  <Td borderColor="gray.800" color="gray.400">10000</Td>
+                </Tr>
+              </Tbody>
+            </Table>
+          </TableContainer>
+          <Text fontSize="sm" color="gray.400" mt={4}>
+            <Code fontSize="xs">sql</Code> produces INSERT statements that can be replayed into a table with the same columns.
+          </Text>
+        </Endpoint>
+
+        <Endpoint
+          method="POST"
+          path="/api/explorer/:connectionId/:table/import/preview"
+          description="Upload a CSV (with a header row) or NDJSON file as the multipart field file. Nothing is written; returns the file's columns, its first rows, the table's columns and primary key, and a suggested column mapping."
+          auth
+        />
+
+        <Endpoint
+          method="POST"
+          path="/api/explorer/:connectionId/:table/import"
+          description="Import a CSV or NDJSON file (up to 10MB and 100,000 rows) into the table. Multipart fields: file, mapping (JSON object of file column to table column) and mode (insert, or upsert on the primary key). Values are converted to the column types and validated per row; rows that fail are reported and skipped while the rest are written. Progress is streamed as Server-Sent Events; production connections require the X-Confirm-Production header."
+          auth
+        >
+          <CodeBlock
+            code={`data: {"type":"start","total":1200}
+
+data: {"type":"progress","processed":500,"written":499,"failed":1,"errors":[{"row":17,"errors":["Column \\"age\\": \\"abc\\" is not an integer"]}]}
+
+data: {"type":"complete","processed":1200,"written":1199,"failed":1}`}
+          />
         </Endpoint>
 
         <Endpoint
@@ -562,6 +668,21 @@ data: {"error": "Connection lost"}`}
           description="Delete a row from a table."
           auth
         />
+
+        <Endpoint
+          method="POST"
+          path="/api/explorer/:connectionId/:table/changes"
+          description="Commit staged inserts, updates and deletes in one transaction. Updates and deletes address rows by their full primary key; production connections require the X-Confirm-Production header."
+          auth
+        >
+          <CodeBlock
+            code={`{
+  "inserts": [{ "values": { "name": "New user" } }],
+  "updates": [{ "key": { "id": 42 }, "values": { "name": "Renamed" } }],
+  "deletes": [{ "key": { "id": 7 } }]
+}`}
+          />
+        </Endpoint>
       </Section>
 
       <Divider borderColor="gray.800" />
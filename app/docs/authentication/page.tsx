@@ -203,6 +203,47 @@ const accessToken = session?.access_token;`}
             </CardBody>
           </Card>
 
+          {/* API Tokens */}
+          <Card bg="surface.800" borderColor="surface.700" borderWidth="1px">
+            <CardBody p={6}>
+              <Heading as="h2" size="md" mb={4} color="white" fontWeight="600">
+                Personal Access Tokens
+              </Heading>
+              <Text color="surface.300" fontSize="sm" mb={4} lineHeight="1.6">
+                Scripts and CI pipelines can call the <Code fontSize="xs">/api/sync</Code> and <Code fontSize="xs">/api/connections</Code> endpoints with a personal access token instead of a session.
+                Create tokens under Settings → API Tokens; each token is shown once and can be revoked at any time.
+                Token requests need no CSRF token.
+              </Text>
+              <VStack spacing={4} align="stretch">
+                <Box bg="surface.900" borderRadius="md" p={4} borderColor="surface.700" borderWidth="1px" overflowX="auto">
+                  <Code colorScheme="blue" display="block" whiteSpace="pre" fontSize="xs">
+                    {`curl -X POST https://your-app/api/sync \\
+  -H "Authorization: Bearer sbsync_..." \\
+  -H "Content-Type: application/json" \\
+  -d '{"sourceConnectionId": "...", "targetConnectionId": "...", "direction": "one_way", "tables": [...]}'`}
+                  </Code>
+                </Box>
+                <VStack spacing={2} align="stretch">
+                  {[
+                    { scope: 'read', desc: 'List connections and sync jobs, read status, progress and schemas' },
+                    { scope: 'sync', desc: 'Create, start, pause and stop sync jobs (includes read)' },
+                    { scope: 'admin', desc: 'Backend admin API, for the admin account only (includes sync)' },
+                  ].map((item) => (
+                    <HStack key={item.scope} spacing={3}>
+                      <Badge colorScheme="teal" fontSize="xs">{item.scope}</Badge>
+                      <Text fontSize="sm" color="surface.400">
+                        {item.desc}
+                      </Text>
+                    </HStack>
+                  ))}
+                </VStack>
+                <Text color="surface.400" fontSize="xs" lineHeight="1.6">
+                  Each token has its own per-minute rate limit on top of the account limits. Token use, rejections and rate-limit hits are recorded in the security log.
+                </Text>
+              </VStack>
+            </CardBody>
+          </Card>
+
           {/* Admin Authentication */}
           <Card bg="surface.800" borderColor="red.500/30" borderWidth="1px">
             <CardBody p={6}>
@@ -1,7 +1,7 @@
 'use client';
 
-import { useEffect, useState, useCallback, useRef } from 'react';
-import { useRouter, useParams } from 'next/navigation';
+import { Suspense, useEffect, useState, useCallback, useMemo, useRef } from 'react';
+import { useRouter, useParams, usePathname, useSearchParams } from 'next/navigation';
 import { logger } from '@/lib/services/logger';
 import {
   Box,
@@ -33,31 +33,26 @@ import {
   MenuList,
   MenuItem,
   Select,
-  Modal,
-  ModalOverlay,
-  ModalContent,
-  ModalHeader,
-  ModalBody,
-  ModalFooter,
-  ModalCloseButton,
   useDisclosure,
-  FormControl,
-  FormLabel,
-  Textarea,
-  Switch,
-  AlertDialog,
-  AlertDialogBody,
-  AlertDialogFooter,
-  AlertDialogHeader,
-  AlertDialogContent,
-  AlertDialogOverlay,
-  Code,
-  Checkbox,
 } from '@chakra-ui/react';
-import { motion, AnimatePresence } from 'framer-motion';
-import { addActivity } from '@/components/explorer/ActivityFeed';
+import { addActivity, type ActivityType } from '@/components/explorer/ActivityFeed';
+import CellEditor, { type EditableColumn } from '@/components/explorer/CellEditor';
+import CommitChangesDialog from '@/components/explorer/CommitChangesDialog';
+import ExportDialog from '@/components/explorer/ExportDialog';
+import ImportDialog from '@/components/explorer/ImportDialog';
+import FilterBar from '@/components/explorer/FilterBar';
+import { csrfFetch, initializeCSRF } from '@/lib/utils/csrf-client';
+import { useVirtualRows } from '@/lib/hooks/useVirtualRows';
+import type { RowDelete, RowUpdate, RowValues } from '@/lib/services/row-changes';
+import {
+  countFilterConditions,
+  parseExplorerFilter,
+  serializeExplorerFilter,
+  type ExplorerFilterGroup,
+} from '@/lib/services/explorer-filter';
 
-const MotionTr = motion.create(Tr);
+// Fixed height of a grid row, which the virtualized grid relies on
+const ROW_HEIGHT = 37;
 
 // Icons
 const SearchIcon = () => (
@@ -82,6 +77,13 @@ const PlusIcon = () => (
   </svg>
 );
 
+const UndoIcon = () => (
+  <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+    <polyline points="1 4 1 10 7 10"/>
+    <path d="M3.51 15a9 9 0 1 0 2.13-9.36L1 10"/>
+  </svg>
+);
+
 const EditIcon = () => (
   <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
     <path d="M11 4H4a2 2 0 0 0-2 2v14a2 2 0 0 0 2 2h14a2 2 0 0 0 2-2v-7"/>
@@ -104,18 +106,6 @@ const MoreIcon = () => (
   </svg>
 );
 
-const ChevronLeftIcon = () => (
-  <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-    <polyline points="15 18 9 12 15 6"/>
-  </svg>
-);
-
-const ChevronRightIcon = () => (
-  <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-    <polyline points="9 18 15 12 9 6"/>
-  </svg>
-);
-
 const GridIcon = () => (
   <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
     <rect x="3" y="3" width="7" height="7"/>
@@ -148,27 +138,48 @@ const SortDescIcon = () => (
   </svg>
 );
 
+const FilterIcon = () => (
+  <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+    <polygon points="22 3 2 3 10 12.46 10 19 14 21 14 12.46 22 3"/>
+  </svg>
+);
+
+const DownloadIcon = () => (
+  <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+    <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"/>
+    <polyline points="7 10 12 15 17 10"/>
+    <line x1="12" y1="15" x2="12" y2="3"/>
+  </svg>
+);
+
+const UploadIcon = () => (
+  <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+    <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"/>
+    <polyline points="17 8 12 3 7 8"/>
+    <line x1="12" y1="3" x2="12" y2="15"/>
+  </svg>
+);
+
 const KeyIcon = () => (
   <svg width="10" height="10" viewBox="0 0 24 24" fill="currentColor">
     <path d="M21 2l-2 2m-7.61 7.61a5.5 5.5 0 1 1-7.778 7.778 5.5 5.5 0 0 1 7.777-7.777zm0 0L15.5 7.5m0 0l3 3L22 7l-3-3m-3.5 3.5L19 4"/>
   </svg>
 );
 
-interface ColumnSchema {
-  name: string;
-  type: string;
-  nullable: boolean;
-  isPrimaryKey: boolean;
-  defaultValue: string | null;
+type ColumnSchema = EditableColumn;
+
+interface PendingInsert {
+  id: number;
+  values: RowValues;
 }
 
-interface PaginationInfo {
-  page: number;
-  limit: number;
-  totalRows: number;
-  totalPages: number;
-  hasNext: boolean;
-  hasPrev: boolean;
+interface PageInfo {
+  // Counted with the first page; an estimate for large tables, or when an exact count times out.
+  // Null if neither is available
+  total: number | null;
+  totalIsEstimate: boolean;
+  nextCursor: string | null;
+  hasMore: boolean;
 }
 
 type ViewMode = 'grid' | 'card';
@@ -181,7 +192,7 @@ function formatValue(value: unknown, type: string): string {
     return JSON.stringify(value, null, 2);
   }
   
-  if (type === 'timestamptz' || type === 'timestamp') {
+  if (type.startsWith('timestamp')) {
     try {
       return new Date(value as string).toLocaleString();
     } catch {
@@ -197,72 +208,120 @@ function truncateValue(value: string, maxLength: number = 50): string {
   return value.substring(0, maxLength) + '...';
 }
 
-export default function TableDataPage() {
+const EMPTY_FILTER: ExplorerFilterGroup = { combinator: 'and', conditions: [] };
+
+/**
+ * Filter from a shared URL; a malformed one is ignored rather than breaking the page
+ */
+function readFilterParam(raw: string | null): ExplorerFilterGroup | null {
+  try {
+    return parseExplorerFilter(raw);
+  } catch {
+    return null;
+  }
+}
+
+function TableDataContent() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const params = useParams();
+  const urlParams = useSearchParams();
+  const toast = useToast();
+  
+
   const [rows, setRows] = useState<Record<string, unknown>[]>([]);
   const [columns, setColumns] = useState<ColumnSchema[]>([]);
-  const [pagination, setPagination] = useState<PaginationInfo | null>(null);
-  const [primaryKey, setPrimaryKey] = useState<string | null>(null);
+  const [pageInfo, setPageInfo] = useState<PageInfo | null>(null);
+  const [pageSize, setPageSize] = useState(50);
+  const [exactCount, setExactCount] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [primaryKey, setPrimaryKey] = useState<string[]>([]);
   const [isLoading, setIsLoading] = useState(true);
-  const [searchQuery, setSearchQuery] = useState('');
-  const [sortBy, setSortBy] = useState<string | null>(null);
-  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('asc');
+  // Search, filter and sort live in the URL so filtered views can be shared
+  const [searchInput, setSearchInput] = useState(() => urlParams.get('search') || '');
+  const [searchQuery, setSearchQuery] = useState(() => urlParams.get('search') || '');
+  const [filter, setFilter] = useState<ExplorerFilterGroup | null>(() => readFilterParam(urlParams.get('filter')));
+  const [draftFilter, setDraftFilter] = useState<ExplorerFilterGroup>(() => filter ?? EMPTY_FILTER);
+  const [showFilters, setShowFilters] = useState(() => filter !== null);
+  const [sortBy, setSortBy] = useState<string | null>(() => urlParams.get('orderBy'));
+  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>(() => urlParams.get('orderDir') === 'desc' ? 'desc' : 'asc');
   const [viewMode, setViewMode] = useState<ViewMode>('grid');
-  const [selectedRows, setSelectedRows] = useState<Set<string>>(new Set());
   const [visibleColumns, setVisibleColumns] = useState<Set<string>>(new Set());
   const [connectionEnv, setConnectionEnv] = useState<string>('development');
   const [connectionName, setConnectionName] = useState<string>('');
   
-  // Modal states
-  const [editingRow, setEditingRow] = useState<Record<string, unknown> | null>(null);
-  const [deletingRowId, setDeletingRowId] = useState<string | null>(null);
-  const [isNewRow, setIsNewRow] = useState(false);
-  const [isSaving, setIsSaving] = useState(false);
-  const [formData, setFormData] = useState<Record<string, unknown>>({});
+  // Staged changes, committed together in one transaction
+  const [pendingInserts, setPendingInserts] = useState<PendingInsert[]>([]);
+  const [pendingUpdates, setPendingUpdates] = useState<Record<string, RowUpdate>>({});
+  const [pendingDeletes, setPendingDeletes] = useState<Record<string, RowDelete>>({});
+  const [editingCell, setEditingCell] = useState<{ rowKey: string; column: string } | null>(null);
+  const [draftValue, setDraftValue] = useState<unknown>(null);
+  const [isCommitting, setIsCommitting] = useState(false);
+  const nextInsertId = useRef(1);
+  // Bumped by every first-page load so a slower "load more" for an older query is dropped
+  const requestGeneration = useRef(0);
+  const loadingMore = useRef(false);
   
-  const { isOpen: isEditOpen, onOpen: onEditOpen, onClose: onEditClose } = useDisclosure();
-  const { isOpen: isDeleteOpen, onOpen: onDeleteOpen, onClose: onDeleteClose } = useDisclosure();
-  const cancelRef = useRef<HTMLButtonElement | null>(null);
-  
-  const router = useRouter();
-  const params = useParams();
-  const toast = useToast();
+  const { isOpen: isCommitOpen, onOpen: onCommitOpen, onClose: onCommitClose } = useDisclosure();
+  const { isOpen: isExportOpen, onOpen: onExportOpen, onClose: onExportClose } = useDisclosure();
+  const { isOpen: isImportOpen, onOpen: onImportOpen, onClose: onImportClose } = useDisclosure();
   
   const connectionId = params?.connectionId as string;
   const tableName = decodeURIComponent(params?.table as string);
+  const isProduction = connectionEnv === 'production';
+
+  const buildRowsUrl = useCallback((cursor: string | null) => {
+    const searchParams = new URLSearchParams({
+      limit: String(pageSize),
+    });
+    
+    if (cursor) {
+      searchParams.set('cursor', cursor);
+    }
+    
+    if (exactCount) {
+      searchParams.set('count', 'exact');
+    }
+    
+    if (sortBy) {
+      searchParams.set('orderBy', sortBy);
+      searchParams.set('orderDir', sortOrder);
+    }
+    
+    if (searchQuery) {
+      searchParams.set('search', searchQuery);
+    }
+    
+    const serializedFilter = serializeExplorerFilter(filter);
+    if (serializedFilter) {
+      searchParams.set('filter', serializedFilter);
+    }
+    
+    return `/api/explorer/${connectionId}/${encodeURIComponent(tableName)}/rows?${searchParams}`;
+  }, [connectionId, tableName, pageSize, exactCount, sortBy, sortOrder, searchQuery, filter]);
 
-  const fetchRows = useCallback(async (page: number = 1) => {
+  const fetchRows = useCallback(async () => {
     if (!connectionId || !tableName) return;
     
+    const generation = ++requestGeneration.current;
     setIsLoading(true);
     try {
-      const searchParams = new URLSearchParams({
-        page: String(page),
-        limit: String(pagination?.limit || 50),
-      });
-      
-      if (sortBy) {
-        searchParams.set('sortBy', sortBy);
-        searchParams.set('sortOrder', sortOrder);
-      }
-      
-      if (searchQuery) {
-        searchParams.set('search', searchQuery);
-      }
-      
-      const res = await fetch(
-        `/api/explorer/${connectionId}/${encodeURIComponent(tableName)}/rows?${searchParams}`
-      );
+      const res = await fetch(buildRowsUrl(null));
       const data = await res.json();
       
+      if (generation !== requestGeneration.current) return;
+      
       if (data.success) {
-        setRows(data.data.rows);
-        setColumns(data.data.columns);
-        setPagination(data.data.pagination);
-        setPrimaryKey(data.data.table.primaryKey);
+        const { rows, columns, primaryKey, total, totalIsEstimate, nextCursor, hasMore } = data.data;
+        
+        setRows(rows);
+        setColumns(columns);
+        setPrimaryKey(primaryKey);
+        setPageInfo({ total, totalIsEstimate, nextCursor, hasMore });
         
         // Initialize visible columns
         if (visibleColumns.size === 0) {
-          setVisibleColumns(new Set(data.data.columns.map((c: ColumnSchema) => c.name)));
+          setVisibleColumns(new Set(columns.map((c: ColumnSchema) => c.name)));
         }
       } else {
         toast({
@@ -278,18 +337,86 @@ export default function TableDataPage() {
         duration: 3000,
       });
     } finally {
-      setIsLoading(false);
+      if (generation === requestGeneration.current) {
+        setIsLoading(false);
+      }
+    }
+  }, [connectionId, tableName, buildRowsUrl, visibleColumns.size, toast]);
+
+  // Append the page after the last loaded row
+  const loadMore = useCallback(async () => {
+    const cursor = pageInfo?.nextCursor;
+    if (!cursor || isLoading || loadingMore.current) return;
+    
+    const generation = requestGeneration.current;
+    loadingMore.current = true;
+    setIsLoadingMore(true);
+    try {
+      const res = await fetch(buildRowsUrl(cursor));
+      const data = await res.json();
+      
+      if (generation !== requestGeneration.current) return;
+      
+      if (data.success) {
+        const { rows: nextRows, nextCursor, hasMore } = data.data;
+        setRows((current) => [...current, ...nextRows]);
+        setPageInfo((current) => current && { ...current, nextCursor, hasMore });
+      } else {
+        toast({
+          title: data.error || 'Failed to load more rows',
+          status: 'error',
+          duration: 3000,
+        });
+      }
+    } catch (error) {
+      toast({
+        title: 'Failed to load more rows',
+        status: 'error',
+        duration: 3000,
+      });
+    } finally {
+      loadingMore.current = false;
+      setIsLoadingMore(false);
+    }
+  }, [pageInfo?.nextCursor, isLoading, buildRowsUrl, toast]);
+
+  const virtualRows = useVirtualRows({
+    count: rows.length,
+    rowHeight: ROW_HEIGHT,
+    onEndReached: viewMode === 'grid' ? loadMore : undefined,
+  });
+
+  // Applied search, filter and sort, shared by the page URL and exports
+  const viewQuery = useMemo(() => {
+    const query = new URLSearchParams();
+    if (searchQuery) query.set('search', searchQuery);
+    const serializedFilter = serializeExplorerFilter(filter);
+    if (serializedFilter) query.set('filter', serializedFilter);
+    if (sortBy) {
+      query.set('orderBy', sortBy);
+      query.set('orderDir', sortOrder);
+    }
+    return query;
+  }, [searchQuery, filter, sortBy, sortOrder]);
+
+  // Mirror the applied view into the URL
+  useEffect(() => {
+    const next = viewQuery.toString();
+    if (next !== urlParams.toString()) {
+      router.replace(next ? `${pathname}?${next}` : pathname, { scroll: false });
     }
-  }, [connectionId, tableName, sortBy, sortOrder, searchQuery, pagination?.limit, visibleColumns.size, toast]);
+  }, [viewQuery, pathname, urlParams, router]);
 
   // Fetch connection info for environment
   useEffect(() => {
-    fetch(`/api/explorer/${connectionId}/tables`)
+    initializeCSRF();
+    
+    fetch(`/api/connections/${connectionId}`)
       .then((res) => res.json())
       .then((data) => {
         if (data.success) {
-          setConnectionEnv(data.data.connection.environment);
-          setConnectionName(data.data.connection.name);
+          setConnectionEnv(data.data.environment);
+          setConnectionName(data.data.name);
         }
       })
       .catch((error) => logger.error('Failed to fetch connection info', { error }));
@@ -322,205 +449,203 @@ export default function TableDataPage() {
   };
 
   const handleSearch = () => {
-    fetchRows(1);
+    if (searchInput.trim() === searchQuery) {
+      fetchRows();
+    } else {
+      setSearchQuery(searchInput.trim());
+    }
   };
 
-  const handlePageChange = (newPage: number) => {
-    fetchRows(newPage);
+  const applyFilter = () => {
+    setFilter(serializeExplorerFilter(draftFilter) ? draftFilter : null);
   };
 
-  const handleEditRow = (row: Record<string, unknown>) => {
-    setEditingRow(row);
-    setFormData({ ...row });
-    setIsNewRow(false);
-    onEditOpen();
+  const clearFilter = () => {
+    setDraftFilter(EMPTY_FILTER);
+    setFilter(null);
   };
 
-  const handleNewRow = () => {
-    const emptyRow: Record<string, unknown> = {};
-    columns.forEach((col) => {
-      if (col.defaultValue) {
-        emptyRow[col.name] = null; // Let DB handle defaults
-      } else {
-        emptyRow[col.name] = col.nullable ? null : '';
-      }
-    });
-    setEditingRow(null);
-    setFormData(emptyRow);
-    setIsNewRow(true);
-    onEditOpen();
+  const copyViewLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast({ title: 'Link copied', status: 'success', duration: 2000 });
+    } catch {
+      toast({ title: 'Could not copy link', status: 'error', duration: 3000 });
+    }
   };
 
-  const handleDeleteRow = (rowId: string) => {
-    setDeletingRowId(rowId);
-    onDeleteOpen();
+  const activeFilterCount = countFilterConditions(filter);
+
+  // Rows are addressed by their primary key; tables without one are read-only
+  const getRowKey = (row: Record<string, unknown>): string | null =>
+    primaryKey.length > 0 ? JSON.stringify(primaryKey.map((c) => row[c])) : null;
+
+  const getKeyValues = (row: Record<string, unknown>): RowValues =>
+    Object.fromEntries(primaryKey.map((c) => [c, row[c]]));
+
+  const getCellValue = (row: Record<string, unknown>, rowKey: string | null, column: string): unknown => {
+    const update = rowKey ? pendingUpdates[rowKey] : undefined;
+    return update && column in update.values ? update.values[column] : row[column];
   };
 
-  const handleSaveRow = async () => {
-    if (!primaryKey && !isNewRow) {
-      toast({
-        title: 'Cannot update: No primary key',
-        status: 'error',
-        duration: 3000,
-      });
-      return;
-    }
+  const pendingCounts = {
+    inserts: pendingInserts.length,
+    updates: Object.keys(pendingUpdates).length,
+    deletes: Object.keys(pendingDeletes).length,
+  };
+  const pendingTotal = pendingCounts.inserts + pendingCounts.updates + pendingCounts.deletes;
+
+  const startEditing = (row: Record<string, unknown>, column: ColumnSchema) => {
+    const rowKey = getRowKey(row);
+    if (!rowKey || column.isPrimaryKey || pendingDeletes[rowKey]) return;
+    setDraftValue(getCellValue(row, rowKey, column.name));
+    setEditingCell({ rowKey, column: column.name });
+  };
+
+  const stageCellEdit = (row: Record<string, unknown>) => {
+    if (!editingCell) return;
+    const { rowKey, column } = editingCell;
+    const unchanged = JSON.stringify(draftValue) === JSON.stringify(row[column]);
     
-    setIsSaving(true);
-    try {
-      const headers: HeadersInit = {
-        'Content-Type': 'application/json',
-      };
-      
-      if (connectionEnv === 'production') {
-        headers['X-Confirm-Production'] = 'true';
+    setPendingUpdates((current) => {
+      const values = { ...current[rowKey]?.values };
+      if (unchanged) {
+        delete values[column];
+      } else {
+        values[column] = draftValue;
       }
       
-      const endpoint = `/api/explorer/${connectionId}/${encodeURIComponent(tableName)}/row`;
-      
-      if (isNewRow) {
-        // Insert
-        const res = await fetch(endpoint, {
-          method: 'POST',
-          headers,
-          body: JSON.stringify({ data: formData }),
-        });
-        const data = await res.json();
-        
-        if (data.success) {
-          // Log activity
-          addActivity({
-            type: 'insert',
-            table: tableName,
-            connectionId,
-            connectionName,
-            rowId: data.data?.[primaryKey!],
-            details: `Inserted new row`,
-          });
-          
-          toast({
-            title: 'Row inserted successfully',
-            status: 'success',
-            duration: 3000,
-          });
-          onEditClose();
-          fetchRows(pagination?.page || 1);
-        } else {
-          toast({
-            title: data.error || 'Failed to insert row',
-            status: 'error',
-            duration: 5000,
-          });
-        }
+      const next = { ...current };
+      if (Object.keys(values).length === 0) {
+        delete next[rowKey];
       } else {
-        // Update
-        const rowId = editingRow?.[primaryKey!];
-        const res = await fetch(endpoint, {
-          method: 'PUT',
-          headers,
-          body: JSON.stringify({ id: rowId, data: formData }),
-        });
-        const data = await res.json();
-        
-        if (data.success) {
-          // Log activity
-          addActivity({
-            type: 'update',
-            table: tableName,
-            connectionId,
-            connectionName,
-            rowId: String(rowId),
-            details: `Updated row ${rowId}`,
-          });
-          
-          toast({
-            title: 'Row updated successfully',
-            status: 'success',
-            duration: 3000,
-          });
-          onEditClose();
-          fetchRows(pagination?.page || 1);
-        } else {
-          toast({
-            title: data.error || 'Failed to update row',
-            status: 'error',
-            duration: 5000,
-          });
-        }
+        next[rowKey] = { key: getKeyValues(row), values };
       }
-    } catch (error) {
-      toast({
-        title: 'Operation failed',
-        status: 'error',
-        duration: 3000,
-      });
-    } finally {
-      setIsSaving(false);
-    }
+      return next;
+    });
+    setEditingCell(null);
   };
 
-  const handleConfirmDelete = async () => {
-    if (!deletingRowId || !primaryKey) return;
+  const toggleDelete = (row: Record<string, unknown>) => {
+    const rowKey = getRowKey(row);
+    if (!rowKey) return;
     
-    setIsSaving(true);
+    setPendingDeletes((current) => {
+      const next = { ...current };
+      if (next[rowKey]) {
+        delete next[rowKey];
+      } else {
+        next[rowKey] = { key: getKeyValues(row) };
+      }
+      return next;
+    });
+  };
+
+  const handleNewRow = () => {
+    // Unset columns are left out of the INSERT so their defaults apply
+    setPendingInserts((current) => [{ id: nextInsertId.current++, values: {} }, ...current]);
+    setViewMode('grid');
+  };
+
+  const setInsertValue = (id: number, column: string, value: unknown) => {
+    setPendingInserts((current) =>
+      current.map((insert) => insert.id === id ? { ...insert, values: { ...insert.values, [column]: value } } : insert)
+    );
+  };
+
+  const discardChanges = () => {
+    setPendingInserts([]);
+    setPendingUpdates({});
+    setPendingDeletes({});
+    setEditingCell(null);
+  };
+
+  const commitChanges = async () => {
+    setIsCommitting(true);
     try {
-      const headers: HeadersInit = {};
+      const headers: HeadersInit = {
+        'Content-Type': 'application/json',
+      };
       
-      if (connectionEnv === 'production') {
+      if (isProduction) {
         headers['X-Confirm-Production'] = 'true';
       }
       
-      const res = await fetch(
-        `/api/explorer/${connectionId}/${encodeURIComponent(tableName)}/row?id=${deletingRowId}`,
-        { method: 'DELETE', headers }
-      );
+      const res = await csrfFetch(`/api/explorer/${connectionId}/${encodeURIComponent(tableName)}/changes`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          inserts: pendingInserts.map(({ values }) => ({ values })),
+          updates: Object.values(pendingUpdates),
+          deletes: Object.values(pendingDeletes),
+        }),
+      });
       const data = await res.json();
       
       if (data.success) {
+        const { inserted, updated, deleted } = data.data;
+        
         // Log activity
-        addActivity({
-          type: 'delete',
-          table: tableName,
-          connectionId,
-          connectionName,
-          rowId: deletingRowId,
-          details: `Deleted row ${deletingRowId}`,
-        });
+        const activities: [ActivityType, number][] = [['insert', inserted], ['update', updated], ['delete', deleted]];
+        for (const [type, count] of activities) {
+          if (count > 0) {
+            addActivity({
+              type,
+              table: tableName,
+              connectionId,
+              connectionName,
+              details: `${type === 'insert' ? 'Inserted' : type === 'update' ? 'Updated' : 'Deleted'} ${count} row${count === 1 ? '' : 's'}`,
+            });
+          }
+        }
         
         toast({
-          title: 'Row deleted successfully',
+          title: 'Changes committed',
+          description: `${inserted} inserted, ${updated} updated, ${deleted} deleted`,
           status: 'success',
           duration: 3000,
         });
-        onDeleteClose();
-        fetchRows(pagination?.page || 1);
+        discardChanges();
+        onCommitClose();
+        fetchRows();
       } else {
         toast({
-          title: data.error || 'Failed to delete row',
+          title: 'Changes were not committed',
+          description: data.error,
           status: 'error',
-          duration: 5000,
+          duration: 6000,
         });
       }
     } catch (error) {
       toast({
-        title: 'Delete failed',
+        title: 'Commit failed',
         status: 'error',
         duration: 3000,
       });
     } finally {
-      setIsSaving(false);
-      setDeletingRowId(null);
+      setIsCommitting(false);
     }
   };
 
-  const getInputType = (type: string): string => {
-    if (type.includes('int') || type === 'numeric' || type === 'decimal' || type === 'float' || type === 'real') {
-      return 'number';
+  const handleImported = (written: number) => {
+    if (written > 0) {
+      addActivity({
+        type: 'insert',
+        table: tableName,
+        connectionId,
+        connectionName,
+        details: `Imported ${written} row${written === 1 ? '' : 's'}`,
+      });
     }
-    if (type.includes('timestamp') || type === 'date') {
-      return 'datetime-local';
+    fetchRows();
+  };
+
+  const handleCommit = () => {
+    if (isProduction) {
+      onCommitOpen();
+    } else {
+      commitChanges();
     }
-    return 'text';
   };
 
   const visibleColumnsList = columns.filter((c) => visibleColumns.has(c.name));
@@ -547,8 +672,8 @@ export default function TableDataPage() {
               </InputLeftElement>
               <Input
                 placeholder="Search..."
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
                 onKeyDown={(e) => e.key === 'Enter' && handleSearch()}
                 bg="surface.900"
                 border="1px solid"
@@ -568,6 +693,16 @@ export default function TableDataPage() {
               Search
             </Button>
             
+            <Button
+              size="sm"
+              variant={showFilters ? 'solid' : 'ghost'}
+              onClick={() => setShowFilters(!showFilters)}
+              leftIcon={<FilterIcon />}
+              rightIcon={activeFilterCount > 0 ? <Badge colorScheme="teal">{activeFilterCount}</Badge> : undefined}
+            >
+              Filter
+            </Button>
+            
             <Box flex={1} />
             
             {/* View mode toggle */}
@@ -600,14 +735,8 @@ export default function TableDataPage() {
               w="100px"
               bg="surface.900"
               borderColor="surface.700"
-              value={pagination?.limit || 50}
-              onChange={(e) => {
-                const newLimit = parseInt(e.target.value);
-                if (pagination) {
-                  setPagination({ ...pagination, limit: newLimit });
-                }
-                fetchRows(1);
-              }}
+              value={pageSize}
+              onChange={(e) => setPageSize(parseInt(e.target.value))}
             >
               <option value={25}>25 rows</option>
               <option value={50}>50 rows</option>
@@ -620,11 +749,32 @@ export default function TableDataPage() {
                 icon={<RefreshIcon />}
                 variant="ghost"
                 size="sm"
-                onClick={() => fetchRows(pagination?.page || 1)}
+                onClick={() => fetchRows()}
                 isLoading={isLoading}
               />
             </Tooltip>
             
+            <Tooltip label="Export rows" hasArrow>
+              <IconButton
+                aria-label="Export rows"
+                icon={<DownloadIcon />}
+                variant="ghost"
+                size="sm"
+                onClick={onExportOpen}
+                isDisabled={columns.length === 0}
+              />
+            </Tooltip>
+            
+            <Tooltip label="Import rows from a file" hasArrow>
+              <IconButton
+                aria-label="Import rows"
+                icon={<UploadIcon />}
+                variant="ghost"
+                size="sm"
+                onClick={onImportOpen}
+              />
+            </Tooltip>
+            
             <Button
               size="sm"
               colorScheme="teal"
@@ -635,8 +785,19 @@ export default function TableDataPage() {
             </Button>
           </Flex>
 
+          {showFilters && (
+            <FilterBar
+              columns={columns}
+              filter={draftFilter}
+              onChange={setDraftFilter}
+              onApply={applyFilter}
+              onClear={clearFilter}
+              onCopyLink={copyViewLink}
+            />
+          )}
+
           {/* Warning for production */}
-          {connectionEnv === 'production' && (
+          {isProduction && (
             <Box
               p={3}
               bg="red.900"
@@ -647,30 +808,84 @@ export default function TableDataPage() {
               <HStack>
                 <Badge colorScheme="red">PRODUCTION</Badge>
                 <Text fontSize="sm" color="red.200">
-                  You are viewing production data. All changes will be applied immediately.
+                  You are viewing production data. Committing changes requires confirmation.
                 </Text>
               </HStack>
             </Box>
           )}
 
+          {/* Staged changes */}
+          {pendingTotal > 0 && (
+            <Flex
+              p={3}
+              bg="surface.800"
+              borderRadius="md"
+              border="1px solid"
+              borderColor="teal.700"
+              align="center"
+              gap={3}
+              flexWrap="wrap"
+            >
+              <Text fontSize="sm" color="surface.200">
+                {pendingTotal} pending change{pendingTotal === 1 ? '' : 's'}
+              </Text>
+              <HStack spacing={2}>
+                {pendingCounts.inserts > 0 && <Badge colorScheme="green">{pendingCounts.inserts} insert</Badge>}
+                {pendingCounts.updates > 0 && <Badge colorScheme="blue">{pendingCounts.updates} update</Badge>}
+                {pendingCounts.deletes > 0 && <Badge colorScheme="red">{pendingCounts.deletes} delete</Badge>}
+              </HStack>
+              <Box flex={1} />
+              <Button size="sm" variant="ghost" onClick={discardChanges} isDisabled={isCommitting}>
+                Discard
+              </Button>
+              <Button
+                size="sm"
+                colorScheme={isProduction ? 'red' : 'teal'}
+                onClick={handleCommit}
+                isLoading={isCommitting && !isCommitOpen}
+                loadingText="Committing"
+              >
+                Commit changes
+              </Button>
+            </Flex>
+          )}
+
           {/* Stats */}
-          {pagination && (
+          {pageInfo && (
             <Flex justify="space-between" align="center" px={1}>
               <HStack spacing={4}>
                 <Text fontSize="sm" color="surface.400">
-                  {pagination.totalRows.toLocaleString()} total rows
+                  {pageInfo.totalIsEstimate ? '~' : ''}
+                  {pageInfo.total?.toLocaleString() ?? 'Unknown'} {searchQuery || filter ? 'matching' : 'total'} rows
                 </Text>
+                {pageInfo.totalIsEstimate && exactCount && (
+                  <Text fontSize="xs" color="surface.500">
+                    Exact count timed out
+                  </Text>
+                )}
+                {pageInfo.totalIsEstimate && !exactCount && (
+                  <Tooltip label="Estimated from table statistics. Counting exactly can take a while on large tables." hasArrow>
+                    <Button size="xs" variant="link" colorScheme="teal" onClick={() => setExactCount(true)}>
+                      Count exactly
+                    </Button>
+                  </Tooltip>
+                )}
                 <Text fontSize="sm" color="surface.500">
-                  Page {pagination.page} of {pagination.totalPages}
+                  {rows.length.toLocaleString()} loaded
                 </Text>
               </HStack>
               
-              {/* Bulk operations disabled notice */}
-              <Tooltip label="Bulk operations are disabled for safety. Use individual row actions." hasArrow>
-                <Badge colorScheme="gray" variant="subtle" cursor="help">
-                  Single-row ops only
-                </Badge>
-              </Tooltip>
+              {primaryKey.length === 0 ? (
+                <Tooltip label="Rows can only be updated or deleted in tables with a primary key" hasArrow>
+                  <Badge colorScheme="gray" variant="subtle" cursor="help">
+                    Insert only
+                  </Badge>
+                </Tooltip>
+              ) : (
+                <Text fontSize="xs" color="surface.500">
+                  Double-click a cell to edit
+                </Text>
+              )}
             </Flex>
           )}
 
@@ -683,16 +898,19 @@ export default function TableDataPage() {
               </VStack>
             </Flex>
           ) : viewMode === 'grid' ? (
-            /* Grid View */
+            /* Grid View: only the rows around the viewport are rendered */
             <Box
-              overflowX="auto"
+              ref={virtualRows.containerRef}
+              onScroll={virtualRows.onScroll}
+              overflow="auto"
+              maxH="calc(100vh - 300px)"
               bg="surface.800"
               borderRadius="lg"
               border="1px solid"
               borderColor="surface.700"
             >
               <Table size="sm" variant="simple">
-                <Thead>
+                <Thead position="sticky" top={0} zIndex={1}>
                   <Tr bg="surface.900">
                     {visibleColumnsList.map((col) => (
                       <Th
@@ -724,77 +942,163 @@ export default function TableDataPage() {
                   </Tr>
                 </Thead>
                 <Tbody>
-                  <AnimatePresence>
-                    {rows.map((row, index) => {
-                      const rowId = primaryKey ? String(row[primaryKey]) : String(index);
-                      return (
-                        <MotionTr
-                          key={rowId}
-                          initial={{ opacity: 0 }}
-                          animate={{ opacity: 1 }}
-                          exit={{ opacity: 0 }}
-                          transition={{ duration: 0.1, delay: index * 0.02 }}
-                          _hover={{ bg: 'surface.750' }}
-                        >
-                          {visibleColumnsList.map((col) => (
+                  {pendingInserts.map((insert) => (
+                    <Tr key={`insert-${insert.id}`} bg="rgba(72, 187, 120, 0.08)">
+                      {visibleColumnsList.map((col) => (
+                        <Td key={col.name} borderColor="surface.700" verticalAlign="top">
+                          <CellEditor
+                            column={col}
+                            value={insert.values[col.name]}
+                            onChange={(value) => setInsertValue(insert.id, col.name, value)}
+                          />
+                        </Td>
+                      ))}
+                      <Td borderColor="surface.700" verticalAlign="top">
+                        <HStack spacing={1}>
+                          <Badge colorScheme="green">new</Badge>
+                          <Tooltip label="Remove" hasArrow>
+                            <IconButton
+                              aria-label="Remove new row"
+                              icon={<TrashIcon />}
+                              size="xs"
+                              variant="ghost"
+                              colorScheme="red"
+                              onClick={() => setPendingInserts((current) => current.filter((i) => i.id !== insert.id))}
+                            />
+                          </Tooltip>
+                        </HStack>
+                      </Td>
+                    </Tr>
+                  ))}
+                  {virtualRows.paddingTop > 0 && (
+                    <Tr aria-hidden>
+                      <Td colSpan={visibleColumnsList.length + 1} p={0} border="none" h={`${virtualRows.paddingTop}px`} />
+                    </Tr>
+                  )}
+                  {rows.slice(virtualRows.start, virtualRows.end).map((row, offset) => {
+                    const index = virtualRows.start + offset;
+                    const rowKey = getRowKey(row);
+                    const isDeleted = rowKey !== null && !!pendingDeletes[rowKey];
+                    const changedColumns = rowKey ? pendingUpdates[rowKey]?.values : undefined;
+                    return (
+                      <Tr
+                        key={rowKey ?? String(index)}
+                        h={`${ROW_HEIGHT}px`}
+                        opacity={isDeleted ? 0.5 : 1}
+                        bg={isDeleted ? 'rgba(245, 101, 101, 0.1)' : undefined}
+                        _hover={{ bg: isDeleted ? undefined : 'surface.750' }}
+                      >
+                        {visibleColumnsList.map((col) => {
+                          const value = getCellValue(row, rowKey, col.name);
+                          const isChanged = !!changedColumns && col.name in changedColumns;
+                          const isEditing = editingCell?.rowKey === rowKey && editingCell?.column === col.name;
+                          
+                          if (isEditing) {
+                            return (
+                              <Td
+                                key={col.name}
+                                borderColor="surface.700"
+                                onBlur={(e) => {
+                                  if (!e.currentTarget.contains(e.relatedTarget as Node | null)) stageCellEdit(row);
+                                }}
+                              >
+                                <CellEditor
+                                  column={col}
+                                  value={draftValue}
+                                  onChange={setDraftValue}
+                                  onCommit={() => stageCellEdit(row)}
+                                  onCancel={() => setEditingCell(null)}
+                                  autoFocus
+                                />
+                              </Td>
+                            );
+                          }
+                          
+                          return (
                             <Td
                               key={col.name}
                               borderColor="surface.700"
                               maxW="300px"
                               overflow="hidden"
                               textOverflow="ellipsis"
+                              bg={isChanged ? 'rgba(66, 153, 225, 0.15)' : undefined}
+                              cursor={rowKey && !col.isPrimaryKey && !isDeleted ? 'text' : 'default'}
+                              onDoubleClick={() => startEditing(row, col)}
                             >
                               <Tooltip
-                                label={formatValue(row[col.name], col.type)}
+                                label={formatValue(value, col.type)}
                                 hasArrow
                                 placement="top"
-                                isDisabled={formatValue(row[col.name], col.type).length < 50}
+                                isDisabled={formatValue(value, col.type).length < 50}
                               >
                                 <Text
                                   fontSize="sm"
-                                  color={row[col.name] === null ? 'surface.500' : 'surface.200'}
+                                  color={value === null ? 'surface.500' : 'surface.200'}
                                   fontFamily={col.type.includes('int') || col.type === 'uuid' ? 'mono' : 'inherit'}
-                                  fontStyle={row[col.name] === null ? 'italic' : 'normal'}
+                                  fontStyle={value === null ? 'italic' : 'normal'}
+                                  textDecoration={isDeleted ? 'line-through' : undefined}
+                                  whiteSpace="nowrap"
                                 >
-                                  {truncateValue(formatValue(row[col.name], col.type))}
+                                  {truncateValue(formatValue(value, col.type))}
                                 </Text>
                               </Tooltip>
                             </Td>
-                          ))}
-                          <Td borderColor="surface.700">
-                            <HStack spacing={1}>
-                              <Tooltip label="Edit" hasArrow>
-                                <IconButton
-                                  aria-label="Edit row"
-                                  icon={<EditIcon />}
-                                  size="xs"
-                                  variant="ghost"
-                                  onClick={() => handleEditRow(row)}
-                                />
-                              </Tooltip>
-                              <Tooltip label="Delete" hasArrow>
-                                <IconButton
-                                  aria-label="Delete row"
-                                  icon={<TrashIcon />}
-                                  size="xs"
-                                  variant="ghost"
-                                  colorScheme="red"
-                                  onClick={() => handleDeleteRow(rowId)}
-                                  isDisabled={!primaryKey}
-                                />
-                              </Tooltip>
-                            </HStack>
-                          </Td>
-                        </MotionTr>
-                      );
-                    })}
-                  </AnimatePresence>
+                          );
+                        })}
+                        <Td borderColor="surface.700">
+                          <HStack spacing={1}>
+                            <Tooltip label="Edit" hasArrow>
+                              <IconButton
+                                aria-label="Edit row"
+                                icon={<EditIcon />}
+                                size="xs"
+                                variant="ghost"
+                                onClick={() => {
+                                  const column = visibleColumnsList.find((c) => !c.isPrimaryKey);
+                                  if (column) startEditing(row, column);
+                                }}
+                                isDisabled={!rowKey || isDeleted}
+                              />
+                            </Tooltip>
+                            <Tooltip label={isDeleted ? 'Keep row' : 'Delete'} hasArrow>
+                              <IconButton
+                                aria-label={isDeleted ? 'Keep row' : 'Delete row'}
+                                icon={isDeleted ? <UndoIcon /> : <TrashIcon />}
+                                size="xs"
+                                variant="ghost"
+                                colorScheme={isDeleted ? 'gray' : 'red'}
+                                onClick={() => toggleDelete(row)}
+                                isDisabled={!rowKey}
+                              />
+                            </Tooltip>
+                          </HStack>
+                        </Td>
+                      </Tr>
+                    );
+                  })}
+                  {virtualRows.paddingBottom > 0 && (
+                    <Tr aria-hidden>
+                      <Td colSpan={visibleColumnsList.length + 1} p={0} border="none" h={`${virtualRows.paddingBottom}px`} />
+                    </Tr>
+                  )}
+                  {isLoadingMore && (
+                    <Tr>
+                      <Td colSpan={visibleColumnsList.length + 1} borderColor="surface.700">
+                        <HStack justify="center" spacing={2}>
+                          <Spinner size="sm" color="teal.400" />
+                          <Text fontSize="sm" color="surface.400">Loading more rows...</Text>
+                        </HStack>
+                      </Td>
+                    </Tr>
+                  )}
                 </Tbody>
               </Table>
               
-              {rows.length === 0 && (
+              {rows.length === 0 && pendingInserts.length === 0 && (
                 <Box py={12} textAlign="center">
-                  <Text color="surface.400">No data found</Text>
+                  <Text color="surface.400">
+                    {searchQuery || filter ? 'No rows match the current search and filters' : 'No data found'}
+                  </Text>
                 </Box>
               )}
             </Box>
@@ -802,22 +1106,25 @@ export default function TableDataPage() {
             /* Card View */
             <VStack spacing={3} align="stretch">
               {rows.map((row, index) => {
-                const rowId = primaryKey ? String(row[primaryKey]) : String(index);
+                const rowKey = getRowKey(row);
+                const isDeleted = rowKey !== null && !!pendingDeletes[rowKey];
                 return (
                   <Card
-                    key={rowId}
+                    key={rowKey ?? String(index)}
                     bg="surface.800"
-                    borderColor="surface.700"
+                    borderColor={isDeleted ? 'red.700' : 'surface.700'}
+                    opacity={isDeleted ? 0.6 : 1}
                     _hover={{ borderColor: 'teal.600' }}
                   >
                     <CardBody>
                       <Flex justify="space-between" align="start" mb={3}>
                         <HStack>
-                          {primaryKey && (
-                            <Badge colorScheme="yellow" fontFamily="mono">
-                              {primaryKey}: {String(row[primaryKey])}
+                          {primaryKey.map((column) => (
+                            <Badge key={column} colorScheme="yellow" fontFamily="mono">
+                              {column}: {String(row[column])}
                             </Badge>
-                          )}
+                          ))}
+                          {isDeleted && <Badge colorScheme="red">pending delete</Badge>}
                         </HStack>
                         <Menu>
                           <MenuButton
@@ -830,8 +1137,14 @@ export default function TableDataPage() {
                             <MenuItem
                               bg="surface.800"
                               _hover={{ bg: 'surface.700' }}
-                              onClick={() => handleEditRow(row)}
+                              onClick={() => {
+                                // Cells are edited inline in the grid
+                                setViewMode('grid');
+                                const column = visibleColumnsList.find((c) => !c.isPrimaryKey);
+                                if (column) startEditing(row, column);
+                              }}
                               icon={<EditIcon />}
+                              isDisabled={!rowKey || isDeleted}
                             >
                               Edit
                             </MenuItem>
@@ -839,34 +1152,37 @@ export default function TableDataPage() {
                               bg="surface.800"
                               _hover={{ bg: 'red.900' }}
                               color="red.400"
-                              onClick={() => handleDeleteRow(rowId)}
-                              icon={<TrashIcon />}
-                              isDisabled={!primaryKey}
+                              onClick={() => toggleDelete(row)}
+                              icon={isDeleted ? <UndoIcon /> : <TrashIcon />}
+                              isDisabled={!rowKey}
                             >
-                              Delete
+                              {isDeleted ? 'Keep row' : 'Delete'}
                             </MenuItem>
                           </MenuList>
                         </Menu>
                       </Flex>
                       
                       <VStack align="stretch" spacing={2}>
-                        {columns.filter((c) => c.name !== primaryKey).slice(0, 6).map((col) => (
-                          <HStack key={col.name} justify="space-between">
-                            <Text fontSize="xs" color="surface.500" fontWeight="medium">
-                              {col.name}
-                            </Text>
-                            <Text
-                              fontSize="sm"
-                              color={row[col.name] === null ? 'surface.500' : 'white'}
-                              fontStyle={row[col.name] === null ? 'italic' : 'normal'}
-                              maxW="60%"
-                              textAlign="right"
-                              isTruncated
-                            >
-                              {truncateValue(formatValue(row[col.name], col.type), 40)}
-                            </Text>
-                          </HStack>
-                        ))}
+                        {columns.filter((c) => !c.isPrimaryKey).slice(0, 6).map((col) => {
+                          const value = getCellValue(row, rowKey, col.name);
+                          return (
+                            <HStack key={col.name} justify="space-between">
+                              <Text fontSize="xs" color="surface.500" fontWeight="medium">
+                                {col.name}
+                              </Text>
+                              <Text
+                                fontSize="sm"
+                                color={value === null ? 'surface.500' : 'white'}
+                                fontStyle={value === null ? 'italic' : 'normal'}
+                                maxW="60%"
+                                textAlign="right"
+                                isTruncated
+                              >
+                                {truncateValue(formatValue(value, col.type), 40)}
+                              </Text>
+                            </HStack>
+                          );
+                        })}
                         {columns.length > 7 && (
                           <Text fontSize="xs" color="surface.500" textAlign="center">
                             +{columns.length - 7} more fields
@@ -880,199 +1196,67 @@ export default function TableDataPage() {
             </VStack>
           )}
 
-          {/* Pagination */}
-          {pagination && pagination.totalPages > 1 && (
-            <Flex justify="center" gap={2} py={4}>
-              <Button
-                size="sm"
-                variant="outline"
-                leftIcon={<ChevronLeftIcon />}
-                onClick={() => handlePageChange(pagination.page - 1)}
-                isDisabled={!pagination.hasPrev}
-              >
-                Previous
-              </Button>
-              
-              <HStack spacing={1}>
-                {Array.from({ length: Math.min(5, pagination.totalPages) }, (_, i) => {
-                  let pageNum: number;
-                  if (pagination.totalPages <= 5) {
-                    pageNum = i + 1;
-                  } else if (pagination.page <= 3) {
-                    pageNum = i + 1;
-                  } else if (pagination.page >= pagination.totalPages - 2) {
-                    pageNum = pagination.totalPages - 4 + i;
-                  } else {
-                    pageNum = pagination.page - 2 + i;
-                  }
-                  
-                  return (
-                    <Button
-                      key={pageNum}
-                      size="sm"
-                      variant={pagination.page === pageNum ? 'solid' : 'ghost'}
-                      colorScheme={pagination.page === pageNum ? 'teal' : 'gray'}
-                      onClick={() => handlePageChange(pageNum)}
-                    >
-                      {pageNum}
-                    </Button>
-                  );
-                })}
-              </HStack>
-              
+          {/* Infinite scrolling loads grid rows; cards page on request */}
+          {!isLoading && viewMode === 'card' && pageInfo?.hasMore && (
+            <Flex justify="center" py={4}>
               <Button
                 size="sm"
                 variant="outline"
-                rightIcon={<ChevronRightIcon />}
-                onClick={() => handlePageChange(pagination.page + 1)}
-                isDisabled={!pagination.hasNext}
+                onClick={loadMore}
+                isLoading={isLoadingMore}
+                loadingText="Loading"
               >
-                Next
+                Load more
               </Button>
             </Flex>
           )}
         </VStack>
       </Container>
 
-      {/* Edit/Create Modal */}
-      <Modal isOpen={isEditOpen} onClose={onEditClose} size="xl" scrollBehavior="inside">
-        <ModalOverlay backdropFilter="blur(4px)" />
-        <ModalContent bg="surface.800" borderColor="surface.700">
-          <ModalHeader color="white">
-            {isNewRow ? 'Add New Row' : 'Edit Row'}
-            {connectionEnv === 'production' && (
-              <Badge colorScheme="red" ml={2}>PRODUCTION</Badge>
-            )}
-          </ModalHeader>
-          <ModalCloseButton />
-          <ModalBody>
-            <VStack spacing={4} align="stretch">
-              {columns.map((col) => (
-                <FormControl key={col.name}>
-                  <FormLabel fontSize="sm" color="surface.300">
-                    <HStack spacing={2}>
-                      <Text>{col.name}</Text>
-                      {col.isPrimaryKey && (
-                        <Badge colorScheme="yellow" size="sm">PK</Badge>
-                      )}
-                      {col.nullable && (
-                        <Badge colorScheme="gray" size="sm">nullable</Badge>
-                      )}
-                    </HStack>
-                    <Text fontSize="xs" color="surface.500">{col.type}</Text>
-                  </FormLabel>
-                  
-                  {col.type === 'bool' || col.type === 'boolean' ? (
-                    <Switch
-                      isChecked={formData[col.name] === true}
-                      onChange={(e) => setFormData({ ...formData, [col.name]: e.target.checked })}
-                      colorScheme="teal"
-                      isDisabled={col.isPrimaryKey && !isNewRow}
-                    />
-                  ) : col.type === 'json' || col.type === 'jsonb' || col.type === 'text' ? (
-                    <Textarea
-                      value={
-                        typeof formData[col.name] === 'object'
-                          ? JSON.stringify(formData[col.name], null, 2)
-                          : String(formData[col.name] ?? '')
-                      }
-                      onChange={(e) => {
-                        let value: unknown = e.target.value;
-                        if (col.type === 'json' || col.type === 'jsonb') {
-                          try {
-                            value = JSON.parse(e.target.value);
-                          } catch {
-                            value = e.target.value;
-                          }
-                        }
-                        setFormData({ ...formData, [col.name]: value });
-                      }}
-                      bg="surface.900"
-                      borderColor="surface.700"
-                      fontFamily="mono"
-                      fontSize="sm"
-                      rows={col.type === 'text' ? 3 : 5}
-                      isDisabled={col.isPrimaryKey && !isNewRow}
-                    />
-                  ) : (
-                    <Input
-                      type={getInputType(col.type)}
-                      value={String(formData[col.name] ?? '')}
-                      onChange={(e) => {
-                        let value: unknown = e.target.value;
-                        if (getInputType(col.type) === 'number') {
-                          value = e.target.value === '' ? null : Number(e.target.value);
-                        }
-                        setFormData({ ...formData, [col.name]: value });
-                      }}
-                      bg="surface.900"
-                      borderColor="surface.700"
-                      isDisabled={col.isPrimaryKey && !isNewRow}
-                    />
-                  )}
-                </FormControl>
-              ))}
-            </VStack>
-          </ModalBody>
-          <ModalFooter>
-            <Button variant="ghost" mr={3} onClick={onEditClose}>
-              Cancel
-            </Button>
-            <Button
-              colorScheme="teal"
-              onClick={handleSaveRow}
-              isLoading={isSaving}
-            >
-              {isNewRow ? 'Create' : 'Save Changes'}
-            </Button>
-          </ModalFooter>
-        </ModalContent>
-      </Modal>
-
-      {/* Delete Confirmation Dialog */}
-      <AlertDialog
-        isOpen={isDeleteOpen}
-        leastDestructiveRef={cancelRef as React.RefObject<HTMLButtonElement>}
-        onClose={onDeleteClose}
-      >
-        <AlertDialogOverlay backdropFilter="blur(4px)">
-          <AlertDialogContent bg="surface.800" borderColor="surface.700">
-            <AlertDialogHeader fontSize="lg" fontWeight="bold" color="white">
-              Delete Row
-              {connectionEnv === 'production' && (
-                <Badge colorScheme="red" ml={2}>PRODUCTION</Badge>
-              )}
-            </AlertDialogHeader>
-
-            <AlertDialogBody color="surface.300">
-              <VStack align="start" spacing={3}>
-                <Text>Are you sure you want to delete this row?</Text>
-                <Code bg="surface.900" p={2} borderRadius="md" fontSize="sm">
-                  {primaryKey}: {deletingRowId}
-                </Code>
-                <Text fontSize="sm" color="red.400">
-                  This action cannot be undone.
-                </Text>
-              </VStack>
-            </AlertDialogBody>
+      <CommitChangesDialog
+        isOpen={isCommitOpen}
+        onClose={onCommitClose}
+        onConfirm={commitChanges}
+        isCommitting={isCommitting}
+        connectionName={connectionName}
+        tableName={tableName}
+        counts={pendingCounts}
+      />
 
-            <AlertDialogFooter>
-              <Button ref={cancelRef} onClick={onDeleteClose}>
-                Cancel
-              </Button>
-              <Button
-                colorScheme="red"
-                onClick={handleConfirmDelete}
-                ml={3}
-                isLoading={isSaving}
-              >
-                Delete
-              </Button>
-            </AlertDialogFooter>
-          </AlertDialogContent>
-        </AlertDialogOverlay>
-      </AlertDialog>
+      <ExportDialog
+        isOpen={isExportOpen}
+        onClose={onExportClose}
+        connectionId={connectionId}
+        tableName={tableName}
+        columns={columns}
+        defaultColumns={visibleColumnsList.map((c) => c.name)}
+        viewParams={viewQuery}
+        matchingRows={pageInfo?.total ?? undefined}
+      />
+
+      <ImportDialog
+        isOpen={isImportOpen}
+        onClose={onImportClose}
+        connectionId={connectionId}
+        connectionName={connectionName}
+        tableName={tableName}
+        isProduction={isProduction}
+        onImported={handleImported}
+      />
     </Box>
   );
 }
 
+export default function TableDataPage() {
+  return (
+    <Suspense
+      fallback={
+        <Flex justify="center" py={20}>
+          <Spinner size="xl" color="teal.400" thickness="3px" />
+        </Flex>
+      }
+    >
+      <TableDataContent />
+    </Suspense>
+  );
+}
@@ -40,6 +40,10 @@ import {
   TabPanel,
 } from '@chakra-ui/react';
 import { motion } from 'framer-motion';
+import MigrationHistory from '@/components/MigrationHistory';
+import RenameCandidateReview from '@/components/RenameCandidateReview';
+import type { MigrationScriptResult, MigrationVerification, RenameDecision } from '@/types';
+import type { PlannedRename } from '@/lib/services/schema-migration-generator';
 
 const MotionBox = motion.div;
 
@@ -189,9 +193,14 @@ export default function SchemaSyncPage() {
   const [executionStatus, setExecutionStatus] = useState<string>('');
   const [validationResult, setValidationResult] = useState<ValidationResult | null>(null);
   const [migrationScript, setMigrationScript] = useState<string>('');
+  const [planChecksum, setPlanChecksum] = useState<string>('');
   const [executionResults, setExecutionResults] = useState<MigrationResult[]>([]);
   const [confirmationInput, setConfirmationInput] = useState('');
   const [copied, setCopied] = useState(false);
+  const [verification, setVerification] = useState<MigrationVerification | null>(null);
+  const [historyKey, setHistoryKey] = useState(0);
+  const [renames, setRenames] = useState<PlannedRename[]>([]);
+  const [renameDecisions, setRenameDecisions] = useState<Record<string, RenameDecision>>({});
 
   const sourceConnection = connections.find(c => c.id === sourceId);
   const targetConnection = connections.find(c => c.id === targetId);
@@ -255,7 +264,7 @@ export default function SchemaSyncPage() {
   };
 
   // Generate migration script
-  const generateMigration = async () => {
+  const generateMigration = async (decisions: Record<string, RenameDecision> = renameDecisions) => {
     setIsGenerating(true);
     try {
       const response = await fetch('/api/sync/generate-migration', {
@@ -265,6 +274,7 @@ export default function SchemaSyncPage() {
           sourceConnectionId: sourceId,
           targetConnectionId: targetId,
           tables: [], // All tables
+          renameDecisions: decisions,
         }),
       });
 
@@ -289,6 +299,8 @@ export default function SchemaSyncPage() {
           });
         }
         setMigrationScript(fullScript);
+        setPlanChecksum(data.data.checksum);
+        setRenames(data.data.migrationPlan.renames || []);
         setStep('fix');
       } else {
         // Check if there are validation issues that indicate swapped databases
@@ -348,11 +360,17 @@ export default function SchemaSyncPage() {
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), 300000); // 5 minute timeout
       
-      const response = await fetch(`/api/connections/${targetId}/execute`, {
+      // Applied through the migration ledger, which regenerates the plan,
+      // refuses it if it no longer matches the reviewed one, stops at the
+      // first failing script and verifies the result
+      const response = await fetch(`/api/connections/${targetId}/migrations`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          sql: migrationScript,
+          sourceConnectionId: sourceId,
+          tables: [], // All tables
+          renameDecisions,
+          planChecksum,
           confirmationPhrase: isTargetProduction ? confirmationInput : undefined,
         }),
         signal: controller.signal,
@@ -366,24 +384,43 @@ export default function SchemaSyncPage() {
       toast.close('migration-progress');
       
       if (data.data?.results) {
-        setExecutionResults(data.data.results);
+        setExecutionResults((data.data.results as MigrationScriptResult[])
+          .filter((result) => result.status !== 'skipped' || !result.note)
+          .map((result) => ({
+            statement: result.description,
+            success: result.status === 'success',
+            error: result.error ?? (result.status === 'skipped' ? 'Not run - an earlier script failed' : undefined),
+          })));
+        setVerification(data.data.verification);
+        setHistoryKey((key) => key + 1);
         setStep('complete');
         
         if (data.success) {
           toast({
             title: 'Migration completed!',
-            description: data.data.message,
+            description: data.data.verification?.isValid
+              ? 'Verified: the target schema now matches the source.'
+              : 'Recorded in the migration history.',
             status: 'success',
             duration: 5000,
           });
         } else {
           toast({
-            title: 'Migration completed with errors',
-            description: data.data.message,
+            title: 'Migration stopped at a failing script',
+            description: data.error,
             status: 'warning',
             duration: 5000,
           });
         }
+      } else if (response.status === 409) {
+        // The plan changed since it was reviewed: show the new one
+        toast({
+          title: 'Migration plan is out of date',
+          description: data.error,
+          status: 'warning',
+          duration: 8000,
+        });
+        await generateMigration();
       } else {
         toast({ 
           title: 'Migration failed', 
@@ -423,12 +460,23 @@ export default function SchemaSyncPage() {
     toast({ title: 'Copied!', status: 'success', duration: 1500 });
   };
 
+  // The ledger regenerates the plan on execute, so decisions are sent again then
+  const decideRename = (id: string, decision: RenameDecision) => {
+    const decisions = { ...renameDecisions, [id]: decision };
+    setRenameDecisions(decisions);
+    generateMigration(decisions);
+  };
+
   const reset = () => {
     setStep('select');
     setValidationResult(null);
     setMigrationScript('');
+    setPlanChecksum('');
     setExecutionResults([]);
     setConfirmationInput('');
+    setVerification(null);
+    setRenames([]);
+    setRenameDecisions({});
   };
 
   // Group issues by severity
@@ -811,7 +859,7 @@ export default function SchemaSyncPage() {
                   <Button
                     colorScheme="teal"
                     size="lg"
-                    onClick={generateMigration}
+                    onClick={() => generateMigration()}
                     isLoading={isGenerating}
                     loadingText="Generating..."
                     flex={2}
@@ -903,6 +951,8 @@ export default function SchemaSyncPage() {
                   </CardBody>
                 </Card>
 
+                <RenameCandidateReview renames={renames} onDecide={decideRename} isDisabled={isGenerating} />
+
                 {/* Production Warning */}
                 {isTargetProduction && (
                   <Alert status="error" borderRadius="md">
@@ -1018,6 +1068,29 @@ export default function SchemaSyncPage() {
                   </CardBody>
                 </Card>
 
+                {/* Verification */}
+                {verification && (
+                  <Alert status={verification.isValid ? 'success' : 'warning'} borderRadius="md">
+                    <AlertIcon />
+                    <Box>
+                      <AlertTitle>
+                        {verification.isValid ? 'Verified: schemas match' : 'Verification found remaining differences'}
+                      </AlertTitle>
+                      {verification.remainingIssues.length > 0 && (
+                        <AlertDescription>
+                          <VStack align="start" spacing={1} mt={1}>
+                            {verification.remainingIssues.slice(0, 5).map((issue, idx) => (
+                              <Text key={idx} fontSize="xs">
+                                [{issue.severity}] {issue.tableName}{issue.columnName ? `.${issue.columnName}` : ''}: {issue.message}
+                              </Text>
+                            ))}
+                          </VStack>
+                        </AlertDescription>
+                      )}
+                    </Box>
+                  </Alert>
+                )}
+
                 {/* Results */}
                 {executionResults.length > 0 && (
                   <Card bg="surface.800" borderColor="surface.700">
@@ -1063,6 +1136,18 @@ export default function SchemaSyncPage() {
             )}
           </MotionBox>
         )}
+
+        {/* Migration ledger for the selected target */}
+        {!isLoading && targetConnection && step !== 'select' && (
+          <Box mt={6}>
+            <MigrationHistory
+              targetConnectionId={targetConnection.id}
+              targetConnectionName={targetConnection.name}
+              isProduction={isTargetProduction}
+              refreshKey={historyKey}
+            />
+          </Box>
+        )}
       </Container>
     </Box>
   );
@@ -3,6 +3,7 @@
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { logger } from '@/lib/services/logger';
+import ApiTokensCard from '@/components/settings/ApiTokensCard';
 import {
   Box,
   Container,
@@ -378,6 +379,9 @@ export default function SettingsPage() {
             </CardBody>
           </Card>
 
+          {/* API Tokens */}
+          <ApiTokensCard />
+
           {/* Danger Zone */}
           <Card bg="surface.800" borderColor="red.700" borderWidth="2px">
             <CardHeader pb={0}>
@@ -0,0 +1,370 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  Badge,
+  Box,
+  Button,
+  Card,
+  CardBody,
+  Container,
+  Flex,
+  Heading,
+  HStack,
+  IconButton,
+  Spinner,
+  Text,
+  Tooltip,
+  VStack,
+  useDisclosure,
+  useToast,
+} from '@chakra-ui/react';
+import { logger } from '@/lib/services/logger';
+import { csrfFetch, initializeCSRF } from '@/lib/utils/csrf-client';
+import { ArrowLeftIcon, DatabaseIcon, PlusIcon, RefreshIcon, TrashIcon } from '@/components/connections/icons';
+import CreateSnapshotModal from '@/components/snapshots/CreateSnapshotModal';
+import RestoreSnapshotModal from '@/components/snapshots/RestoreSnapshotModal';
+import VerifySnapshotModal from '@/components/snapshots/VerifySnapshotModal';
+import type { BackupVerification } from '@/lib/services/backup-service';
+import type { Connection } from '@/components/connections/types';
+import type { SyncBackup } from '@/types/supabase';
+
+const STATUS_COLORS: Record<SyncBackup['status'], string> = {
+  creating: 'blue',
+  completed: 'green',
+  restoring: 'purple',
+  restored: 'teal',
+  failed: 'red',
+};
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/** Result of the snapshot's or backup's last verification, if any */
+function getVerification(snapshot: SyncBackup): BackupVerification | null {
+  return snapshot.verification as unknown as BackupVerification | null;
+}
+
+function VerificationBadge({ verification, onClick }: { verification: BackupVerification | null; onClick: () => void }) {
+  if (!verification) return null;
+
+  const passed = verification.status === 'passed';
+
+  return (
+    <Tooltip label={`Verified ${new Date(verification.verifiedAt).toLocaleString()}`}>
+      <Badge colorScheme={passed ? 'green' : 'red'} variant="outline" cursor="pointer" onClick={onClick}>
+        {passed ? 'verified' : 'verification failed'}
+      </Badge>
+    </Tooltip>
+  );
+}
+
+export default function SnapshotsPage() {
+  const [snapshots, setSnapshots] = useState<SyncBackup[]>([]);
+  const [backups, setBackups] = useState<SyncBackup[]>([]);
+  const [connections, setConnections] = useState<Connection[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [restoring, setRestoring] = useState<SyncBackup | null>(null);
+  const [verifying, setVerifying] = useState<SyncBackup | null>(null);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const { isOpen: isCreateOpen, onOpen: onCreateOpen, onClose: onCreateClose } = useDisclosure();
+  const router = useRouter();
+  const toast = useToast();
+
+  const fetchSnapshots = useCallback(async () => {
+    try {
+      const [snapshotsResponse, backupsResponse, connectionsResponse] = await Promise.all([
+        fetch('/api/snapshots'),
+        fetch('/api/backups'),
+        fetch('/api/connections'),
+      ]);
+      const [snapshotsData, backupsData, connectionsData] = await Promise.all([
+        snapshotsResponse.json(),
+        backupsResponse.json(),
+        connectionsResponse.json(),
+      ]);
+
+      if (snapshotsData.success) {
+        setSnapshots(snapshotsData.data);
+      }
+      if (backupsData.success) {
+        setBackups(backupsData.data);
+      }
+      if (connectionsData.success) {
+        setConnections(connectionsData.data);
+      }
+    } catch (error) {
+      logger.error('Failed to load snapshots', { error });
+      toast({ title: 'Failed to load snapshots', status: 'error', duration: 3000 });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    initializeCSRF();
+    fetchSnapshots();
+  }, [fetchSnapshots]);
+
+  const connectionName = (id: string | null) =>
+    connections.find((connection) => connection.id === id)?.name ?? 'Deleted connection';
+
+  const handleDelete = async (snapshot: SyncBackup) => {
+    if (!confirm(`Delete snapshot "${snapshot.name}"? Its stored data is removed and cannot be recovered.`)) {
+      return;
+    }
+
+    setDeletingId(snapshot.id);
+    try {
+      const response = await csrfFetch(`/api/snapshots/${snapshot.id}`, { method: 'DELETE' });
+      const data = await response.json();
+
+      if (data.success) {
+        setSnapshots((current) => current.filter((s) => s.id !== snapshot.id));
+        toast({ title: 'Snapshot deleted', status: 'success', duration: 3000 });
+      } else {
+        toast({ title: 'Failed to delete snapshot', description: data.error, status: 'error', duration: 5000 });
+      }
+    } catch (error) {
+      logger.error('Failed to delete snapshot', { error });
+      toast({ title: 'Failed to delete snapshot', status: 'error', duration: 3000 });
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <Box minH="100vh" className="gradient-mesh">
+      <Box
+        as="header"
+        bg="bg.surface"
+        borderBottomWidth="1px"
+        borderColor="border.default"
+        position="sticky"
+        top={0}
+        zIndex={10}
+        backdropFilter="blur(10px)"
+      >
+        <Container maxW="7xl" py={{ base: 3, md: 4 }} px={{ base: 4, md: 6 }}>
+          <Flex justify="space-between" align="center" gap={2}>
+            <HStack spacing={{ base: 2, md: 4 }} flex={1} minW={0}>
+              <IconButton
+                aria-label="Back"
+                icon={<ArrowLeftIcon />}
+                variant="ghost"
+                size={{ base: 'sm', md: 'md' }}
+                onClick={() => router.push('/')}
+              />
+              <Heading size={{ base: 'sm', md: 'md' }} color="text.primary" isTruncated>
+                Snapshots
+              </Heading>
+            </HStack>
+            <HStack spacing={2}>
+              <IconButton
+                aria-label="Refresh"
+                icon={<RefreshIcon />}
+                variant="ghost"
+                size={{ base: 'sm', md: 'md' }}
+                onClick={fetchSnapshots}
+              />
+              <Button leftIcon={<PlusIcon />} onClick={onCreateOpen} size={{ base: 'sm', md: 'md' }}>
+                <Text display={{ base: 'none', sm: 'inline' }}>New Snapshot</Text>
+                <Text display={{ base: 'inline', sm: 'none' }}>New</Text>
+              </Button>
+            </HStack>
+          </Flex>
+        </Container>
+      </Box>
+
+      <Container maxW="7xl" py={{ base: 4, md: 8 }} px={{ base: 4, md: 6 }}>
+        {isLoading ? (
+          <Flex justify="center" py={16}>
+            <Spinner size="xl" color="accent.primary" />
+          </Flex>
+        ) : snapshots.length === 0 ? (
+          <Card>
+            <CardBody>
+              <VStack spacing={4} py={12}>
+                <Box color="text.tertiary">
+                  <DatabaseIcon />
+                </Box>
+                <Text color="text.secondary">No snapshots yet</Text>
+                <Text color="text.tertiary" fontSize="sm" textAlign="center" maxW="md">
+                  A snapshot captures the rows of a connection&apos;s tables so you can restore them later, into the
+                  same connection or another one.
+                </Text>
+                <Button leftIcon={<PlusIcon />} onClick={onCreateOpen}>
+                  Take your first snapshot
+                </Button>
+              </VStack>
+            </CardBody>
+          </Card>
+        ) : (
+          <VStack spacing={4} align="stretch">
+            {snapshots.map((snapshot) => (
+              <Card key={snapshot.id}>
+                <CardBody p={{ base: 3, md: 4 }}>
+                  <Flex
+                    justify="space-between"
+                    align={{ base: 'flex-start', sm: 'center' }}
+                    direction={{ base: 'column', sm: 'row' }}
+                    gap={3}
+                  >
+                    <VStack align="start" spacing={1} minW={0} flex={1}>
+                      <HStack spacing={2} flexWrap="wrap">
+                        <Text color="text.primary" fontWeight="semibold" fontSize={{ base: 'md', md: 'lg' }}>
+                          {snapshot.name}
+                        </Text>
+                        <Badge colorScheme={STATUS_COLORS[snapshot.status]}>{snapshot.status}</Badge>
+                        <VerificationBadge
+                          verification={getVerification(snapshot)}
+                          onClick={() => setVerifying(snapshot)}
+                        />
+                      </HStack>
+                      {snapshot.description && (
+                        <Text color="text.secondary" fontSize="sm">{snapshot.description}</Text>
+                      )}
+                      <Text color="text.tertiary" fontSize="xs">
+                        {connectionName(snapshot.target_connection_id)} · {snapshot.tables.length} tables ·{' '}
+                        {snapshot.row_count} rows · {formatSize(snapshot.size_bytes)} ·{' '}
+                        {new Date(snapshot.created_at).toLocaleString()}
+                      </Text>
+                      {snapshot.restored_at && (
+                        <Text color="text.tertiary" fontSize="xs">
+                          Last restored into {connectionName(snapshot.restored_connection_id)} on{' '}
+                          {new Date(snapshot.restored_at).toLocaleString()}
+                        </Text>
+                      )}
+                      {snapshot.error && (
+                        <Text color="red.300" fontSize="xs">{snapshot.error}</Text>
+                      )}
+                    </VStack>
+
+                    <HStack spacing={2}>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setRestoring(snapshot)}
+                        isDisabled={!['completed', 'restored'].includes(snapshot.status)}
+                      >
+                        Restore
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => setVerifying(snapshot)}
+                        isDisabled={!['completed', 'restored'].includes(snapshot.status)}
+                      >
+                        Verify
+                      </Button>
+                      <Tooltip label="Delete snapshot">
+                        <IconButton
+                          aria-label="Delete snapshot"
+                          icon={<TrashIcon />}
+                          size="sm"
+                          variant="ghost"
+                          colorScheme="red"
+                          onClick={() => handleDelete(snapshot)}
+                          isLoading={deletingId === snapshot.id}
+                          isDisabled={snapshot.status === 'creating' || snapshot.status === 'restoring'}
+                        />
+                      </Tooltip>
+                    </HStack>
+                  </Flex>
+                </CardBody>
+              </Card>
+            ))}
+          </VStack>
+        )}
+
+        {!isLoading && backups.length > 0 && (
+          <Box mt={{ base: 6, md: 10 }}>
+            <Heading size="sm" color="text.primary" mb={1}>
+              Pre-sync backups
+            </Heading>
+            <Text color="text.tertiary" fontSize="sm" mb={4}>
+              Taken automatically before a sync changes the target. Verify one before relying on it.
+            </Text>
+            <VStack spacing={3} align="stretch">
+              {backups.map((backup) => (
+                <Card key={backup.id}>
+                  <CardBody p={{ base: 3, md: 4 }}>
+                    <Flex
+                      justify="space-between"
+                      align={{ base: 'flex-start', sm: 'center' }}
+                      direction={{ base: 'column', sm: 'row' }}
+                      gap={3}
+                    >
+                      <VStack align="start" spacing={1} minW={0} flex={1}>
+                        <HStack spacing={2} flexWrap="wrap">
+                          <Text color="text.primary" fontWeight="semibold">
+                            {connectionName(backup.target_connection_id)}
+                          </Text>
+                          <Badge colorScheme={STATUS_COLORS[backup.status]}>{backup.status}</Badge>
+                          <VerificationBadge
+                            verification={getVerification(backup)}
+                            onClick={() => setVerifying(backup)}
+                          />
+                        </HStack>
+                        <Text color="text.tertiary" fontSize="xs">
+                          {backup.tables.length} tables · {backup.row_count} rows · {formatSize(backup.size_bytes)} ·{' '}
+                          {new Date(backup.created_at).toLocaleString()}
+                        </Text>
+                        {backup.error && (
+                          <Text color="red.300" fontSize="xs">{backup.error}</Text>
+                        )}
+                      </VStack>
+
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => setVerifying(backup)}
+                        isDisabled={!['completed', 'restored'].includes(backup.status)}
+                      >
+                        Verify
+                      </Button>
+                    </Flex>
+                  </CardBody>
+                </Card>
+              ))}
+            </VStack>
+          </Box>
+        )}
+      </Container>
+
+      <CreateSnapshotModal
+        isOpen={isCreateOpen}
+        connections={connections}
+        onClose={onCreateClose}
+        onCreated={(snapshot) => setSnapshots((current) => [snapshot, ...current])}
+      />
+
+      <RestoreSnapshotModal
+        snapshot={restoring}
+        connections={connections}
+        onClose={() => setRestoring(null)}
+        onFinished={fetchSnapshots}
+      />
+
+      <VerifySnapshotModal
+        snapshot={verifying}
+        connections={connections}
+        onClose={() => setVerifying(null)}
+        onVerified={(snapshot) => {
+          setVerifying(snapshot);
+          const replace = (current: SyncBackup[]) => current.map((s) => (s.id === snapshot.id ? snapshot : s));
+          if (snapshot.kind === 'pre_sync') {
+            setBackups(replace);
+          } else {
+            setSnapshots(replace);
+          }
+        }}
+      />
+    </Box>
+  );
+}
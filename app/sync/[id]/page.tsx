@@ -130,6 +130,7 @@ interface SyncProgress {
   processedRows: number;
   insertedRows: number;
   updatedRows: number;
+  deletedRows?: number;
   skippedRows: number;
   errors: number;
 }
@@ -339,7 +340,7 @@ export default function SyncDetailPage() {
   const completedCount = progress?.completedTables || 0;
   const totalCount = progress?.totalTables || enabledTables.length;
   const progressPercent = totalCount > 0 ? Math.round((completedCount / totalCount) * 100) : 0;
-  const totalProcessed = (progress?.insertedRows || 0) + (progress?.updatedRows || 0) + (progress?.skippedRows || 0);
+  const totalProcessed = (progress?.insertedRows || 0) + (progress?.updatedRows || 0) + (progress?.deletedRows || 0) + (progress?.skippedRows || 0);
   const speed = elapsedTime > 0 ? Math.round(totalProcessed / elapsedTime) : 0;
   const status = statusConfig[job.status] || statusConfig.pending;
 
@@ -531,7 +532,7 @@ export default function SyncDetailPage() {
                   </VStack>
                   
                   {/* Stats Grid - Compact */}
-                  <SimpleGrid columns={4} spacing={1}>
+                  <SimpleGrid columns={progress?.deletedRows ? 5 : 4} spacing={1}>
                     <VStack align="center" spacing={0} p={1.5} bg="surface.900" borderRadius="md">
                       <Text color="green.400" fontSize="sm" fontWeight="bold">{(progress?.insertedRows || 0).toLocaleString()}</Text>
                       <Text color="surface.500" fontSize="2xs">INS</Text>
@@ -540,6 +541,12 @@ export default function SyncDetailPage() {
                       <Text color="blue.400" fontSize="sm" fontWeight="bold">{(progress?.updatedRows || 0).toLocaleString()}</Text>
                       <Text color="surface.500" fontSize="2xs">UPD</Text>
                     </VStack>
+                    {!!progress?.deletedRows && (
+                      <VStack align="center" spacing={0} p={1.5} bg="surface.900" borderRadius="md">
+                        <Text color="red.400" fontSize="sm" fontWeight="bold">{progress.deletedRows.toLocaleString()}</Text>
+                        <Text color="surface.500" fontSize="2xs">DEL</Text>
+                      </VStack>
+                    )}
                     <VStack align="center" spacing={0} p={1.5} bg="surface.900" borderRadius="md">
                       <Text color="yellow.400" fontSize="sm" fontWeight="bold">{(progress?.skippedRows || 0).toLocaleString()}</Text>
                       <Text color="surface.500" fontSize="2xs">SKIP</Text>
@@ -20,6 +20,7 @@ import {
   FormControl,
   FormLabel,
   Select,
+  Input,
   Checkbox,
   CheckboxGroup,
   Radio,
@@ -48,7 +49,13 @@ import { motion } from 'framer-motion';
 import ConfirmationDialog from '@/components/ConfirmationDialog';
 import MigrationScriptViewer from '@/components/MigrationScriptViewer';
 import SchemaFixWizard from '@/components/SchemaFixWizard';
-import type { ValidationIssue, SchemaValidationResult } from '@/types';
+import ScheduleModal from '@/components/ScheduleModal';
+import type {
+  ValidationIssue,
+  SchemaValidationResult,
+  ColumnMaskingRule,
+  ColumnMaskingTransform,
+} from '@/types';
 import { csrfFetch } from '@/lib/utils/csrf-client';
 
 const MotionBox = motion.create(Box);
@@ -74,6 +81,13 @@ const CheckIcon = () => (
   </svg>
 );
 
+const CloseIcon = () => (
+  <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+    <line x1="18" y1="6" x2="6" y2="18"/>
+    <line x1="6" y1="6" x2="18" y2="18"/>
+  </svg>
+);
+
 const ShieldIcon = () => (
   <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
     <path d="M12 22s8-4 8-10V5l-8-3-8 3v7c0 6 8 10 8 10z"/>
@@ -89,6 +103,55 @@ interface Connection {
 interface TableInfo {
   tableName: string;
   enabled: boolean;
+  // Column compared to find changed rows; updated_at when unset
+  changeTrackingColumn?: string;
+}
+
+// A column rule as edited in the Options step: exclude the column or mask it
+interface ColumnRule {
+  tableName: string;
+  column: string;
+  action: 'exclude' | ColumnMaskingTransform;
+  // Replacement for `fixed`, length for `truncate`
+  value: string;
+}
+
+const COLUMN_RULE_ACTIONS: { value: ColumnRule['action']; label: string }[] = [
+  { value: 'exclude', label: 'Exclude column' },
+  { value: 'hash', label: 'Hash' },
+  { value: 'fake_email', label: 'Fake email' },
+  { value: 'null', label: 'Null out' },
+  { value: 'fixed', label: 'Fixed value' },
+  { value: 'truncate', label: 'Truncate' },
+];
+
+/**
+ * Convert the column rules for one table into its table config fields
+ */
+function buildColumnConfig(rules: ColumnRule[], tableName: string) {
+  const tableRules = rules.filter(r => r.tableName === tableName && r.column);
+  const excludeColumns = tableRules.filter(r => r.action === 'exclude').map(r => r.column);
+  const masking: ColumnMaskingRule[] = tableRules
+    .filter(r => r.action !== 'exclude')
+    .map(r => ({
+      column: r.column,
+      transform: r.action as ColumnMaskingTransform,
+      ...(r.action === 'fixed' && { value: r.value }),
+      ...(r.action === 'truncate' && { length: parseInt(r.value, 10) || 0 }),
+    }));
+
+  return {
+    ...(excludeColumns.length > 0 && { excludeColumns }),
+    ...(masking.length > 0 && { masking }),
+  };
+}
+
+function describeColumnRule(rule: ColumnRule): string {
+  if (rule.action === 'exclude') return `${rule.column}: excluded`;
+  const label = COLUMN_RULE_ACTIONS.find(a => a.value === rule.action)?.label || rule.action;
+  return rule.action === 'fixed' || rule.action === 'truncate'
+    ? `${rule.column}: ${label.toLowerCase()} (${rule.value})`
+    : `${rule.column}: ${label.toLowerCase()}`;
 }
 
 interface DryRunResult {
@@ -96,6 +159,7 @@ interface DryRunResult {
     tableName: string;
     inserts: number;
     updates: number;
+    deletes?: number;
     sourceRowCount: number;
     targetRowCount: number;
   }[];
@@ -107,6 +171,7 @@ interface DryRunResult {
   }[];
   totalInserts: number;
   totalUpdates: number;
+  totalDeletes?: number;
   estimatedDuration: number;
   warnings: string[];
 }
@@ -138,6 +203,8 @@ export default function CreateSyncPage() {
   const [tables, setTables] = useState<TableInfo[]>([]);
   const [direction, setDirection] = useState<'one_way' | 'two_way'>('one_way');
   const [conflictStrategy, setConflictStrategy] = useState('last_write_wins');
+  const [mirrorDeletes, setMirrorDeletes] = useState(false);
+  const [columnRules, setColumnRules] = useState<ColumnRule[]>([]);
   const [validationResult, setValidationResult] = useState<ValidationResult | null>(null);
   const [dryRunResult, setDryRunResult] = useState<DryRunResult | null>(null);
   const [isValidating, setIsValidating] = useState(false);
@@ -147,6 +214,7 @@ export default function CreateSyncPage() {
   
   const { activeStep, setActiveStep } = useSteps({ index: 0, count: steps.length });
   const { isOpen: isConfirmOpen, onOpen: onConfirmOpen, onClose: onConfirmClose } = useDisclosure();
+  const { isOpen: isScheduleOpen, onOpen: onScheduleOpen, onClose: onScheduleClose } = useDisclosure();
   const router = useRouter();
   const toast = useToast();
 
@@ -209,7 +277,7 @@ export default function CreateSyncPage() {
         body: JSON.stringify({
           sourceConnectionId: sourceId,
           targetConnectionId: targetId,
-          tables: enabledTables.map(t => t.tableName),
+          tables: enabledTables,
           direction,
         }),
       });
@@ -249,6 +317,14 @@ export default function CreateSyncPage() {
     }
   };
 
+  // Table configs as sent to create a job or schedule
+  const buildTableConfigs = () => tables.map(t => ({
+    ...t,
+    conflictStrategy: direction === 'two_way' ? conflictStrategy : undefined,
+    mirrorDeletes,
+    ...buildColumnConfig(columnRules, t.tableName),
+  }));
+
   const runDryRun = async () => {
     setIsDryRunning(true);
     
@@ -266,10 +342,7 @@ export default function CreateSyncPage() {
           sourceConnectionId: sourceId,
           targetConnectionId: targetId,
           direction,
-          tables: tables.map(t => ({
-            ...t,
-            conflictStrategy: direction === 'two_way' ? conflictStrategy : undefined,
-          })),
+          tables: buildTableConfigs(),
           dryRun: true,
         }),
       });
@@ -319,10 +392,7 @@ export default function CreateSyncPage() {
           sourceConnectionId: sourceId,
           targetConnectionId: targetId,
           direction,
-          tables: tables.map(t => ({
-            ...t,
-            conflictStrategy: direction === 'two_way' ? conflictStrategy : undefined,
-          })),
+          tables: buildTableConfigs(),
           dryRun: false,
         }),
       });
@@ -381,15 +451,79 @@ export default function CreateSyncPage() {
     }
   };
 
+  const createSchedule = async (config: {
+    name: string;
+    cronExpression: string;
+    timezone: string;
+    enabled: boolean;
+  }) => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (targetConnection?.environment === 'production') {
+      headers['X-Confirm-Production'] = 'true';
+    }
+
+    try {
+      const response = await csrfFetch('/api/schedules', {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          ...config,
+          sourceConnectionId: sourceId,
+          targetConnectionId: targetId,
+          direction,
+          tables: buildTableConfigs(),
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to create schedule');
+      }
+
+      toast({
+        title: 'Schedule created',
+        description: `"${data.data.name}" will run on its schedule.`,
+        status: 'success',
+        duration: 3000,
+      });
+      router.push('/sync/schedules');
+    } catch (error) {
+      toast({
+        title: 'Failed to create schedule',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        status: 'error',
+        duration: 5000,
+      });
+    }
+  };
+
   const sourceConnection = connections.find(c => c.id === sourceId);
   const targetConnection = connections.find(c => c.id === targetId);
   const enabledTables = tables.filter(t => t.enabled);
+  const activeColumnRules = columnRules.filter(r =>
+    r.column && enabledTables.some(t => t.tableName === r.tableName)
+  );
+
+  // Source columns per table, when validation returned the inspected schema
+  const getSourceColumns = (tableName: string): string[] =>
+    validationResult?.validation?.sourceSchema?.tables
+      ?.find(t => t.tableName === tableName)
+      ?.columns.map(c => c.name) || [];
+
+  const updateColumnRule = (index: number, changes: Partial<ColumnRule>) => {
+    setColumnRules(prev => prev.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)));
+  };
   
   // Check if validation blocks proceeding
   const validationBlocked = validationResult?.validation?.summary?.critical 
     ? validationResult.validation.summary.critical > 0 
     : false;
 
+  const columnRulesIncomplete = activeColumnRules.some(r =>
+    r.action === 'truncate' && !/^\d+$/.test(r.value)
+  );
+
   const canProceed = () => {
     switch (activeStep) {
       case 0:
@@ -399,7 +533,7 @@ export default function CreateSyncPage() {
       case 2:
         return validationResult !== null && !validationBlocked;
       case 3:
-        return true;
+        return !columnRulesIncomplete;
       case 4:
         return dryRunResult !== null;
       default:
@@ -763,26 +897,49 @@ export default function CreateSyncPage() {
                           </Button>
                         </HStack>
                       </HStack>
+                      <Text color="surface.500" fontSize="sm">
+                        Changed rows are found by each table&apos;s change tracking column. Leave it empty to use updated_at.
+                      </Text>
                       <Divider borderColor="surface.700" />
                       <CheckboxGroup>
                         <Stack spacing={2}>
                           {tables.map((table) => (
-                            <Checkbox
-                              key={table.tableName}
-                              isChecked={table.enabled}
-                              onChange={(e) => {
-                                setTables(tables.map(t => 
-                                  t.tableName === table.tableName 
-                                    ? { ...t, enabled: e.target.checked }
-                                    : t
-                                ));
-                              }}
-                              colorScheme="teal"
-                            >
-                              <Text fontFamily="mono" color="white">
-                                {table.tableName}
-                              </Text>
-                            </Checkbox>
+                            <Flex key={table.tableName} justify="space-between" align="center" gap={4}>
+                              <Checkbox
+                                isChecked={table.enabled}
+                                onChange={(e) => {
+                                  setTables(tables.map(t => 
+                                    t.tableName === table.tableName 
+                                      ? { ...t, enabled: e.target.checked }
+                                      : t
+                                  ));
+                                }}
+                                colorScheme="teal"
+                              >
+                                <Text fontFamily="mono" color="white">
+                                  {table.tableName}
+                                </Text>
+                              </Checkbox>
+                              {table.enabled && (
+                                <Input
+                                  size="sm"
+                                  maxW="200px"
+                                  fontFamily="mono"
+                                  placeholder="updated_at"
+                                  aria-label={`Change tracking column for ${table.tableName}`}
+                                  title="Column compared to find changed rows"
+                                  value={table.changeTrackingColumn ?? ''}
+                                  onChange={(e) => {
+                                    const column = e.target.value.trim();
+                                    setTables(tables.map(t =>
+                                      t.tableName === table.tableName
+                                        ? { ...t, changeTrackingColumn: column || undefined }
+                                        : t
+                                    ));
+                                  }}
+                                />
+                              )}
+                            </Flex>
                           ))}
                         </Stack>
                       </CheckboxGroup>
@@ -958,6 +1115,7 @@ export default function CreateSyncPage() {
                             sourceConnectionId={sourceId}
                             targetConnectionId={targetId}
                             tables={enabledTables.map(t => t.tableName)}
+                            targetEnvironment={targetConnection?.environment}
                             isOpen={true}
                             onClose={() => {}}
                           />
@@ -1023,6 +1181,103 @@ export default function CreateSyncPage() {
                       </RadioGroup>
                     </FormControl>
                   )}
+
+                  <FormControl>
+                    <FormLabel color="surface.300">Deleted Rows</FormLabel>
+                    <Checkbox
+                      isChecked={mirrorDeletes}
+                      onChange={(e) => setMirrorDeletes(e.target.checked)}
+                      colorScheme="red"
+                    >
+                      <VStack align="start" spacing={0}>
+                        <Text color="white">Mirror deletes</Text>
+                        <Text color="surface.500" fontSize="sm">
+                          Delete target rows that no longer exist in the source. Only applied when the pre-sync backup succeeds{direction === 'two_way' && ', and in two-way sync only when the source wins conflicts'}.
+                        </Text>
+                      </VStack>
+                    </Checkbox>
+                  </FormControl>
+
+                  <FormControl>
+                    <FormLabel color="surface.300" mb={0}>Column Masking</FormLabel>
+                    <Text color="surface.500" fontSize="sm" mb={3}>
+                      Exclude or scrub sensitive columns (emails, phone numbers, tokens) before they are written to the target.
+                    </Text>
+                    <VStack align="stretch" spacing={2}>
+                      {columnRules.map((rule, index) => {
+                        const sourceColumns = getSourceColumns(rule.tableName);
+                        return (
+                          <Flex key={index} gap={2} wrap={{ base: 'wrap', md: 'nowrap' }} align="center">
+                            <Select
+                              size="sm"
+                              value={rule.tableName}
+                              onChange={(e) => updateColumnRule(index, { tableName: e.target.value, column: '' })}
+                            >
+                              {enabledTables.map(t => (
+                                <option key={t.tableName} value={t.tableName}>{t.tableName}</option>
+                              ))}
+                            </Select>
+                            {sourceColumns.length > 0 ? (
+                              <Select
+                                size="sm"
+                                placeholder="Column"
+                                value={rule.column}
+                                onChange={(e) => updateColumnRule(index, { column: e.target.value })}
+                              >
+                                {sourceColumns.map(column => (
+                                  <option key={column} value={column}>{column}</option>
+                                ))}
+                              </Select>
+                            ) : (
+                              <Input
+                                size="sm"
+                                placeholder="Column"
+                                value={rule.column}
+                                onChange={(e) => updateColumnRule(index, { column: e.target.value.trim() })}
+                              />
+                            )}
+                            <Select
+                              size="sm"
+                              value={rule.action}
+                              onChange={(e) => updateColumnRule(index, { action: e.target.value as ColumnRule['action'], value: '' })}
+                            >
+                              {COLUMN_RULE_ACTIONS.map(action => (
+                                <option key={action.value} value={action.value}>{action.label}</option>
+                              ))}
+                            </Select>
+                            {(rule.action === 'fixed' || rule.action === 'truncate') && (
+                              <Input
+                                size="sm"
+                                placeholder={rule.action === 'fixed' ? 'Replacement value' : 'Max length'}
+                                type={rule.action === 'truncate' ? 'number' : 'text'}
+                                value={rule.value}
+                                onChange={(e) => updateColumnRule(index, { value: e.target.value })}
+                              />
+                            )}
+                            <IconButton
+                              aria-label="Remove column rule"
+                              icon={<CloseIcon />}
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => setColumnRules(prev => prev.filter((_, i) => i !== index))}
+                            />
+                          </Flex>
+                        );
+                      })}
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        alignSelf="flex-start"
+                        isDisabled={enabledTables.length === 0}
+                        onClick={() => setColumnRules(prev => [
+                          ...prev,
+                          { tableName: enabledTables[0]?.tableName || '', column: '', action: 'exclude', value: '' },
+                        ])}
+                      >
+                        Add column rule
+                      </Button>
+                    </VStack>
+                  </FormControl>
                 </VStack>
               )}
 
@@ -1057,6 +1312,14 @@ export default function CreateSyncPage() {
                         {dryRunResult.totalUpdates.toLocaleString()}
                       </Text>
                     </VStack>
+                    {!!dryRunResult.totalDeletes && (
+                      <VStack align="start" minW={{ base: '80px', md: 'auto' }}>
+                        <Text color="surface.400" fontSize={{ base: 'xs', md: 'sm' }}>Deletes</Text>
+                        <Text color="red.400" fontSize={{ base: 'xl', md: '2xl' }} fontWeight="bold">
+                          {dryRunResult.totalDeletes.toLocaleString()}
+                        </Text>
+                      </VStack>
+                    )}
                     <VStack align="start" minW={{ base: '80px', md: 'auto' }}>
                       <Text color="surface.400" fontSize={{ base: 'xs', md: 'sm' }}>Duration</Text>
                       <Text color="white" fontSize={{ base: 'xl', md: '2xl' }} fontWeight="bold">
@@ -1076,6 +1339,9 @@ export default function CreateSyncPage() {
                           <Th color="surface.400" isNumeric fontSize={{ base: 'xs', md: 'sm' }} display={{ base: 'none', sm: 'table-cell' }}>Target</Th>
                           <Th color="surface.400" isNumeric fontSize={{ base: 'xs', md: 'sm' }}>Inserts</Th>
                           <Th color="surface.400" isNumeric fontSize={{ base: 'xs', md: 'sm' }}>Updates</Th>
+                          {mirrorDeletes && (
+                            <Th color="surface.400" isNumeric fontSize={{ base: 'xs', md: 'sm' }}>Deletes</Th>
+                          )}
                         </Tr>
                       </Thead>
                       <Tbody>
@@ -1086,12 +1352,33 @@ export default function CreateSyncPage() {
                             <Td isNumeric color="surface.300" fontSize={{ base: 'xs', md: 'sm' }} display={{ base: 'none', sm: 'table-cell' }}>{table.targetRowCount.toLocaleString()}</Td>
                             <Td isNumeric color="green.400" fontSize={{ base: 'xs', md: 'sm' }}>{table.inserts.toLocaleString()}</Td>
                             <Td isNumeric color="blue.400" fontSize={{ base: 'xs', md: 'sm' }}>{table.updates.toLocaleString()}</Td>
+                            {mirrorDeletes && (
+                              <Td isNumeric color="red.400" fontSize={{ base: 'xs', md: 'sm' }}>{(table.deletes || 0).toLocaleString()}</Td>
+                            )}
                           </Tr>
                         ))}
                       </Tbody>
                     </Table>
                   </Box>
 
+                  {activeColumnRules.length > 0 && (
+                    <Alert status="info" borderRadius="md">
+                      <AlertIcon />
+                      <Box>
+                        <AlertTitle>Column Masking</AlertTitle>
+                        <AlertDescription>
+                          <VStack align="start" spacing={0} mt={1}>
+                            {activeColumnRules.map((rule, i) => (
+                              <Text key={i} fontFamily="mono" fontSize="sm">
+                                {rule.tableName}.{describeColumnRule(rule)}
+                              </Text>
+                            ))}
+                          </VStack>
+                        </AlertDescription>
+                      </Box>
+                    </Alert>
+                  )}
+
                   {dryRunResult.schemaIssues.length > 0 && (
                     <>
                       <Divider borderColor="surface.700" />
@@ -1118,7 +1405,7 @@ export default function CreateSyncPage() {
                     <Box>
                       <AlertTitle>Ready to Sync</AlertTitle>
                       <AlertDescription>
-                        Review your sync configuration and click Start Sync to begin.
+                        Review your sync configuration and click Start Sync to begin, or Schedule to run it on a recurring schedule.
                       </AlertDescription>
                     </Box>
                   </Alert>
@@ -1144,6 +1431,12 @@ export default function CreateSyncPage() {
                       <Text color="surface.400" w="120px">Tables:</Text>
                       <Text color="white">{enabledTables.length} tables</Text>
                     </HStack>
+                    {activeColumnRules.length > 0 && (
+                      <HStack>
+                        <Text color="surface.400" w="120px">Masked:</Text>
+                        <Text color="white">{activeColumnRules.length} column rule(s)</Text>
+                      </HStack>
+                    )}
                     {dryRunResult && (
                       <>
                         <HStack>
@@ -1154,6 +1447,12 @@ export default function CreateSyncPage() {
                           <Text color="surface.400" w="120px">Updates:</Text>
                           <Text color="blue.400">{dryRunResult.totalUpdates.toLocaleString()}</Text>
                         </HStack>
+                        {mirrorDeletes && (
+                          <HStack>
+                            <Text color="surface.400" w="120px">Deletes:</Text>
+                            <Text color="red.400">{(dryRunResult.totalDeletes || 0).toLocaleString()}</Text>
+                          </HStack>
+                        )}
                       </>
                     )}
                   </VStack>
@@ -1208,21 +1507,43 @@ export default function CreateSyncPage() {
               {activeStep === 1 ? 'Validate' : activeStep === 3 ? 'Analyze' : 'Next'}
             </Button>
           ) : (
-            <Button
-              leftIcon={<CheckIcon />}
-              colorScheme={targetConnection?.environment === 'production' ? 'red' : 'teal'}
-              onClick={handleStartSync}
-              isLoading={isCreating}
-              loadingText="Starting..."
-              size={{ base: 'md', md: 'md' }}
-              w={{ base: '100%', sm: 'auto' }}
-            >
-              Start Sync
-            </Button>
+            <Flex gap={3} direction={{ base: 'column-reverse', sm: 'row' }} w={{ base: '100%', sm: 'auto' }}>
+              <Button
+                variant="outline"
+                onClick={onScheduleOpen}
+                isDisabled={isCreating}
+                size={{ base: 'md', md: 'md' }}
+                w={{ base: '100%', sm: 'auto' }}
+              >
+                Schedule
+              </Button>
+              <Button
+                leftIcon={<CheckIcon />}
+                colorScheme={targetConnection?.environment === 'production' ? 'red' : 'teal'}
+                onClick={handleStartSync}
+                isLoading={isCreating}
+                loadingText="Starting..."
+                size={{ base: 'md', md: 'md' }}
+                w={{ base: '100%', sm: 'auto' }}
+              >
+                Start Sync
+              </Button>
+            </Flex>
           )}
         </Flex>
       </Container>
 
+      {/* Recurring schedule for this configuration; mounted on open so the
+          name default reflects the chosen connections */}
+      {isScheduleOpen && (
+        <ScheduleModal
+          isOpen={isScheduleOpen}
+          onClose={onScheduleClose}
+          onSubmit={createSchedule}
+          initialValues={{ name: `${sourceConnection?.name} → ${targetConnection?.name}` }}
+        />
+      )}
+
       {/* Confirmation Dialog */}
       <ConfirmationDialog
         isOpen={isConfirmOpen}
@@ -1240,6 +1561,7 @@ export default function CreateSyncPage() {
           tables: enabledTables.length,
           inserts: dryRunResult.totalInserts,
           updates: dryRunResult.totalUpdates,
+          deletes: dryRunResult.totalDeletes,
         } : undefined}
       />
     </Box>
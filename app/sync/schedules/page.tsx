@@ -0,0 +1,335 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  Badge,
+  Box,
+  Button,
+  Card,
+  CardBody,
+  Container,
+  Flex,
+  Heading,
+  HStack,
+  IconButton,
+  Link,
+  Spinner,
+  Switch,
+  Text,
+  Tooltip,
+  VStack,
+  useToast,
+} from '@chakra-ui/react';
+import { logger } from '@/lib/services/logger';
+import { describeCron } from '@/lib/services/cron';
+import { csrfFetch, initializeCSRF } from '@/lib/utils/csrf-client';
+import { ArrowLeftIcon, DatabaseIcon, PlusIcon, RefreshIcon, TrashIcon } from '@/components/connections/icons';
+import { ScheduleModal } from '@/components/ScheduleModal';
+import type { Connection } from '@/components/connections/types';
+import type { ScheduledJob } from '@/lib/services/scheduler';
+
+const RUN_STATUS_COLORS: Record<NonNullable<ScheduledJob['lastRunStatus']>, string> = {
+  success: 'green',
+  failed: 'red',
+  running: 'blue',
+};
+
+interface ScheduleUpdate {
+  name?: string;
+  cronExpression?: string;
+  timezone?: string;
+  enabled?: boolean;
+}
+
+export default function SchedulesPage() {
+  const [schedules, setSchedules] = useState<ScheduledJob[]>([]);
+  const [connections, setConnections] = useState<Connection[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editing, setEditing] = useState<ScheduledJob | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const router = useRouter();
+  const toast = useToast();
+
+  const fetchSchedules = useCallback(async () => {
+    try {
+      const [schedulesResponse, connectionsResponse] = await Promise.all([
+        fetch('/api/schedules'),
+        fetch('/api/connections'),
+      ]);
+      const [schedulesData, connectionsData] = await Promise.all([
+        schedulesResponse.json(),
+        connectionsResponse.json(),
+      ]);
+
+      if (schedulesData.success) {
+        setSchedules(schedulesData.data);
+      }
+      if (connectionsData.success) {
+        setConnections(connectionsData.data);
+      }
+    } catch (error) {
+      logger.error('Failed to load schedules', { error });
+      toast({ title: 'Failed to load schedules', status: 'error', duration: 3000 });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    initializeCSRF();
+    fetchSchedules();
+  }, [fetchSchedules]);
+
+  const connectionName = (id: string) =>
+    connections.find((connection) => connection.id === id)?.name ?? 'Deleted connection';
+
+  const handleUpdate = async (schedule: ScheduledJob, update: ScheduleUpdate) => {
+    setBusyId(schedule.id);
+    try {
+      const response = await csrfFetch(`/api/schedules/${schedule.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(update),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setSchedules((current) => current.map((s) => (s.id === schedule.id ? data.data : s)));
+        toast({ title: 'Schedule updated', status: 'success', duration: 3000 });
+      } else {
+        toast({ title: 'Failed to update schedule', description: data.error, status: 'error', duration: 5000 });
+      }
+    } catch (error) {
+      logger.error('Failed to update schedule', { error });
+      toast({ title: 'Failed to update schedule', status: 'error', duration: 3000 });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRunNow = async (schedule: ScheduledJob) => {
+    setBusyId(schedule.id);
+    try {
+      const response = await csrfFetch(`/api/schedules/${schedule.id}/run`, { method: 'POST' });
+      const data = await response.json();
+
+      if (data.success) {
+        toast({
+          title: 'Schedule queued',
+          description: `"${schedule.name}" will run within a minute.`,
+          status: 'success',
+          duration: 3000,
+        });
+        fetchSchedules();
+      } else {
+        toast({ title: 'Failed to run schedule', description: data.error, status: 'error', duration: 5000 });
+      }
+    } catch (error) {
+      logger.error('Failed to run schedule', { error });
+      toast({ title: 'Failed to run schedule', status: 'error', duration: 3000 });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (schedule: ScheduledJob) => {
+    if (!confirm(`Delete schedule "${schedule.name}"? Syncs it already ran are kept.`)) {
+      return;
+    }
+
+    setBusyId(schedule.id);
+    try {
+      const response = await csrfFetch(`/api/schedules/${schedule.id}`, { method: 'DELETE' });
+      const data = await response.json();
+
+      if (data.success) {
+        setSchedules((current) => current.filter((s) => s.id !== schedule.id));
+        toast({ title: 'Schedule deleted', status: 'success', duration: 3000 });
+      } else {
+        toast({ title: 'Failed to delete schedule', description: data.error, status: 'error', duration: 5000 });
+      }
+    } catch (error) {
+      logger.error('Failed to delete schedule', { error });
+      toast({ title: 'Failed to delete schedule', status: 'error', duration: 3000 });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <Box minH="100vh" className="gradient-mesh">
+      <Box
+        as="header"
+        bg="bg.surface"
+        borderBottomWidth="1px"
+        borderColor="border.default"
+        position="sticky"
+        top={0}
+        zIndex={10}
+        backdropFilter="blur(10px)"
+      >
+        <Container maxW="7xl" py={{ base: 3, md: 4 }} px={{ base: 4, md: 6 }}>
+          <Flex justify="space-between" align="center" gap={2}>
+            <HStack spacing={{ base: 2, md: 4 }} flex={1} minW={0}>
+              <IconButton
+                aria-label="Back"
+                icon={<ArrowLeftIcon />}
+                variant="ghost"
+                size={{ base: 'sm', md: 'md' }}
+                onClick={() => router.push('/')}
+              />
+              <Heading size={{ base: 'sm', md: 'md' }} color="text.primary" isTruncated>
+                Sync Schedules
+              </Heading>
+            </HStack>
+            <HStack spacing={2}>
+              <IconButton
+                aria-label="Refresh"
+                icon={<RefreshIcon />}
+                variant="ghost"
+                size={{ base: 'sm', md: 'md' }}
+                onClick={fetchSchedules}
+              />
+              <Button leftIcon={<PlusIcon />} onClick={() => router.push('/sync/create')} size={{ base: 'sm', md: 'md' }}>
+                <Text display={{ base: 'none', sm: 'inline' }}>New Sync</Text>
+                <Text display={{ base: 'inline', sm: 'none' }}>New</Text>
+              </Button>
+            </HStack>
+          </Flex>
+        </Container>
+      </Box>
+
+      <Container maxW="7xl" py={{ base: 4, md: 8 }} px={{ base: 4, md: 6 }}>
+        {isLoading ? (
+          <Flex justify="center" py={16}>
+            <Spinner size="xl" color="accent.primary" />
+          </Flex>
+        ) : schedules.length === 0 ? (
+          <Card>
+            <CardBody>
+              <VStack spacing={4} py={12}>
+                <Box color="text.tertiary">
+                  <DatabaseIcon />
+                </Box>
+                <Text color="text.secondary">No schedules yet</Text>
+                <Text color="text.tertiary" fontSize="sm" textAlign="center" maxW="md">
+                  A schedule runs a sync again on a cron expression. Set one up on the last step of the sync
+                  wizard, with the Schedule button next to Start Sync.
+                </Text>
+                <Button leftIcon={<PlusIcon />} onClick={() => router.push('/sync/create')}>
+                  Set up a sync
+                </Button>
+              </VStack>
+            </CardBody>
+          </Card>
+        ) : (
+          <VStack spacing={4} align="stretch">
+            {schedules.map((schedule) => (
+              <Card key={schedule.id}>
+                <CardBody p={{ base: 3, md: 4 }}>
+                  <Flex
+                    justify="space-between"
+                    align={{ base: 'flex-start', sm: 'center' }}
+                    direction={{ base: 'column', sm: 'row' }}
+                    gap={3}
+                  >
+                    <VStack align="start" spacing={1} minW={0} flex={1}>
+                      <HStack spacing={2} flexWrap="wrap">
+                        <Text color="text.primary" fontWeight="semibold" fontSize={{ base: 'md', md: 'lg' }}>
+                          {schedule.name}
+                        </Text>
+                        {!schedule.enabled && <Badge colorScheme="gray">paused</Badge>}
+                        {schedule.lastRunStatus && (
+                          <Badge colorScheme={RUN_STATUS_COLORS[schedule.lastRunStatus]}>
+                            {schedule.lastRunStatus}
+                          </Badge>
+                        )}
+                      </HStack>
+                      <Text color="text.secondary" fontSize="sm">
+                        {connectionName(schedule.sourceConnectionId)} →{' '}
+                        {connectionName(schedule.targetConnectionId)} · {schedule.tables.length} tables ·{' '}
+                        {schedule.direction === 'two_way' ? 'two-way' : 'one-way'}
+                      </Text>
+                      <Text color="text.tertiary" fontSize="xs">
+                        {describeCron(schedule.cronExpression)} ({schedule.timezone})
+                        {schedule.enabled && schedule.nextRunAt && (
+                          <> · next run {new Date(schedule.nextRunAt).toLocaleString()}</>
+                        )}
+                      </Text>
+                      {schedule.lastRunAt && (
+                        <Text color="text.tertiary" fontSize="xs">
+                          Last ran {new Date(schedule.lastRunAt).toLocaleString()}
+                          {schedule.lastRunJobId && (
+                            <>
+                              {' · '}
+                              <Link color="accent.primary" onClick={() => router.push(`/sync/${schedule.lastRunJobId}`)}>
+                                view sync
+                              </Link>
+                            </>
+                          )}
+                        </Text>
+                      )}
+                    </VStack>
+
+                    <HStack spacing={2}>
+                      <Tooltip label={schedule.enabled ? 'Pause schedule' : 'Resume schedule'}>
+                        <Box>
+                          <Switch
+                            aria-label={schedule.enabled ? 'Pause schedule' : 'Resume schedule'}
+                            isChecked={schedule.enabled}
+                            isDisabled={busyId === schedule.id}
+                            onChange={(e) => handleUpdate(schedule, { enabled: e.target.checked })}
+                          />
+                        </Box>
+                      </Tooltip>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleRunNow(schedule)}
+                        isDisabled={!schedule.enabled || busyId === schedule.id}
+                      >
+                        Run now
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => setEditing(schedule)}>
+                        Edit
+                      </Button>
+                      <Tooltip label="Delete schedule">
+                        <IconButton
+                          aria-label="Delete schedule"
+                          icon={<TrashIcon />}
+                          size="sm"
+                          variant="ghost"
+                          colorScheme="red"
+                          onClick={() => handleDelete(schedule)}
+                          isDisabled={busyId === schedule.id}
+                        />
+                      </Tooltip>
+                    </HStack>
+                  </Flex>
+                </CardBody>
+              </Card>
+            ))}
+          </VStack>
+        )}
+      </Container>
+
+      {editing && (
+        <ScheduleModal
+          key={editing.id}
+          isOpen
+          isEditing
+          onClose={() => setEditing(null)}
+          onSubmit={(config) => handleUpdate(editing, config)}
+          initialValues={{
+            name: editing.name,
+            cronExpression: editing.cronExpression,
+            timezone: editing.timezone,
+            enabled: editing.enabled,
+          }}
+        />
+      )}
+    </Box>
+  );
+}
@@ -125,6 +125,27 @@ export default function CommandPaletteProvider({ children }: CommandPaletteProvi
       action: () => router.push('/schema-sync'),
       category: 'navigation',
     },
+    {
+      id: 'snapshots',
+      label: 'Snapshots',
+      icon: <DatabaseIcon />,
+      action: () => router.push('/snapshots'),
+      category: 'navigation',
+    },
+    {
+      id: 'schedules',
+      label: 'Sync Schedules',
+      icon: <SyncIcon />,
+      action: () => router.push('/sync/schedules'),
+      category: 'navigation',
+    },
+    {
+      id: 'data-diff',
+      label: 'Data Diff',
+      icon: <SyncIcon />,
+      action: () => router.push('/data-diff'),
+      category: 'navigation',
+    },
     {
       id: 'settings',
       label: 'Settings',
@@ -96,6 +96,7 @@ interface ConfirmationDialogProps {
     tables: number;
     inserts: number;
     updates: number;
+    deletes?: number;
   };
 }
 
@@ -201,6 +202,12 @@ export default function ConfirmationDialog({
                     <Text color="blue.400" fontWeight="bold">{syncStats.updates.toLocaleString()}</Text>
                     <Text color="surface.400" fontSize="xs">Updates</Text>
                   </VStack>
+                  {!!syncStats.deletes && (
+                    <VStack spacing={0}>
+                      <Text color="red.400" fontWeight="bold">{syncStats.deletes.toLocaleString()}</Text>
+                      <Text color="surface.400" fontSize="xs">Deletes</Text>
+                    </VStack>
+                  )}
                 </HStack>
               </Box>
             )}
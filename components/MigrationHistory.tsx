@@ -0,0 +1,212 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  Box,
+  Card,
+  CardBody,
+  Heading,
+  VStack,
+  HStack,
+  Text,
+  Badge,
+  Button,
+  Input,
+  Spinner,
+  Tooltip,
+  useToast,
+} from '@chakra-ui/react';
+import type { MigrationScriptResult, MigrationVerification } from '@/types';
+import type { SchemaMigration } from '@/types/supabase';
+
+const STATUS_COLORS: Record<SchemaMigration['status'], string> = {
+  applying: 'blue',
+  applied: 'green',
+  failed: 'red',
+  rolled_back: 'gray',
+  rollback_failed: 'orange',
+};
+
+const ROLLBACK_ALLOWED_STATUSES: SchemaMigration['status'][] = ['applied', 'failed', 'rollback_failed'];
+
+interface MigrationHistoryProps {
+  targetConnectionId: string;
+  targetConnectionName: string;
+  isProduction: boolean;
+  /** Change to reload the ledger, e.g. after applying a migration */
+  refreshKey?: number;
+  onRolledBack?: () => void;
+}
+
+/**
+ * Ledger of schema migrations applied to a target connection, with one-click
+ * rollback
+ */
+export default function MigrationHistory({
+  targetConnectionId,
+  targetConnectionName,
+  isProduction,
+  refreshKey = 0,
+  onRolledBack,
+}: MigrationHistoryProps) {
+  const [migrations, setMigrations] = useState<SchemaMigration[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [confirmingId, setConfirmingId] = useState<string | null>(null);
+  const [confirmationInput, setConfirmationInput] = useState('');
+  const [rollingBackId, setRollingBackId] = useState<string | null>(null);
+  const toast = useToast();
+
+  const loadMigrations = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/connections/${targetConnectionId}/migrations`);
+      const data = await response.json();
+      if (data.success) {
+        setMigrations(data.data);
+      }
+    } catch {
+      toast({ title: 'Failed to load migration history', status: 'error' });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [targetConnectionId, toast]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    loadMigrations();
+  }, [loadMigrations, refreshKey]);
+
+  const rollback = async (migration: SchemaMigration) => {
+    setRollingBackId(migration.id);
+
+    try {
+      const response = await fetch(
+        `/api/connections/${targetConnectionId}/migrations/${migration.id}/rollback`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            confirmationPhrase: isProduction ? confirmationInput : undefined,
+          }),
+        }
+      );
+
+      const data = await response.json();
+
+      if (data.data) {
+        setMigrations((current) => current.map((m) => (m.id === migration.id ? data.data : m)));
+      }
+
+      if (data.success) {
+        toast({ title: 'Migration rolled back', status: 'success', duration: 4000 });
+        setConfirmingId(null);
+        setConfirmationInput('');
+        onRolledBack?.();
+      } else {
+        toast({ title: 'Rollback failed', description: data.error, status: 'error', duration: 8000 });
+      }
+    } catch {
+      toast({ title: 'Rollback failed', status: 'error' });
+    } finally {
+      setRollingBackId(null);
+    }
+  };
+
+  return (
+    <Card bg="surface.800" borderColor="surface.700">
+      <CardBody p={{ base: 4, md: 6 }}>
+        <Heading size="sm" color="white" mb={4}>
+          Migration History · {targetConnectionName}
+        </Heading>
+
+        {isLoading ? (
+          <Spinner size="sm" color="brand.400" />
+        ) : migrations.length === 0 ? (
+          <Text color="surface.400" fontSize="sm">No migrations have been applied to this connection yet.</Text>
+        ) : (
+          <VStack align="stretch" spacing={3}>
+            {migrations.map((migration) => {
+              const results = (migration.results as unknown as MigrationScriptResult[]) || [];
+              const verification = migration.verification as unknown as MigrationVerification | null;
+              const canRollback = ROLLBACK_ALLOWED_STATUSES.includes(migration.status);
+
+              return (
+                <Box key={migration.id} p={3} bg="surface.900" borderRadius="md">
+                  <HStack justify="space-between" align="start" flexWrap="wrap" gap={2}>
+                    <VStack align="start" spacing={1}>
+                      <HStack spacing={2}>
+                        <Badge colorScheme={STATUS_COLORS[migration.status]}>
+                          {migration.status.replace('_', ' ')}
+                        </Badge>
+                        <Text color="white" fontSize="sm">
+                          {new Date(migration.applied_at).toLocaleString()}
+                        </Text>
+                      </HStack>
+                      <Text color="surface.400" fontSize="xs">
+                        {results.filter((r) => r.status === 'success').length} of {results.length} scripts applied
+                        {verification && (verification.isValid
+                          ? ' · verified: schemas match'
+                          : ` · verified: ${verification.remainingIssues.length} issues remain`)}
+                      </Text>
+                      <Tooltip label={migration.checksum}>
+                        <Text color="surface.500" fontSize="xs" fontFamily="mono">
+                          {migration.checksum.slice(0, 12)}
+                        </Text>
+                      </Tooltip>
+                      {migration.error && (
+                        <Text color="red.400" fontSize="xs">{migration.error}</Text>
+                      )}
+                      {migration.rollback_error && (
+                        <Text color="orange.300" fontSize="xs">Rollback: {migration.rollback_error}</Text>
+                      )}
+                    </VStack>
+
+                    {canRollback && confirmingId !== migration.id && (
+                      <Button size="xs" variant="outline" colorScheme="orange" onClick={() => setConfirmingId(migration.id)}>
+                        Roll back
+                      </Button>
+                    )}
+                  </HStack>
+
+                  {confirmingId === migration.id && (
+                    <HStack mt={3} spacing={2}>
+                      {isProduction && (
+                        <Input
+                          size="sm"
+                          placeholder={`Type "${targetConnectionName}" to confirm`}
+                          value={confirmationInput}
+                          onChange={(e) => setConfirmationInput(e.target.value)}
+                          bg="surface.800"
+                        />
+                      )}
+                      <Button
+                        size="sm"
+                        colorScheme="orange"
+                        onClick={() => rollback(migration)}
+                        isLoading={rollingBackId === migration.id}
+                        isDisabled={isProduction && confirmationInput !== targetConnectionName}
+                        flexShrink={0}
+                      >
+                        Run rollback
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => {
+                          setConfirmingId(null);
+                          setConfirmationInput('');
+                        }}
+                        flexShrink={0}
+                      >
+                        Cancel
+                      </Button>
+                    </HStack>
+                  )}
+                </Box>
+              );
+            })}
+          </VStack>
+        )}
+      </CardBody>
+    </Card>
+  );
+}
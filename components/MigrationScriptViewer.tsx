@@ -27,7 +27,13 @@ import {
   AlertDescription,
   Spinner,
   Flex,
+  Menu,
+  MenuButton,
+  MenuList,
+  MenuItem,
 } from '@chakra-ui/react';
+import type { SqlDryRunResult } from '@/types';
+import SqlDryRunResults from './SqlDryRunResults';
 
 // Icons
 const CopyIcon = () => (
@@ -78,10 +84,19 @@ interface MigrationPlan {
   rollbackScript: string;
 }
 
+type MigrationExportFormat = 'supabase' | 'drizzle' | 'zip';
+
+const EXPORT_FORMATS: { format: MigrationExportFormat; label: string }[] = [
+  { format: 'supabase', label: 'Supabase CLI migration (.sql)' },
+  { format: 'drizzle', label: 'New Drizzle migration folder (.zip)' },
+  { format: 'zip', label: 'Up/down bundle (.zip)' },
+];
+
 interface MigrationScriptViewerProps {
   sourceConnectionId: string;
   targetConnectionId: string;
   tables: string[];
+  targetEnvironment?: string;
   isOpen: boolean;
   onClose: () => void;
 }
@@ -90,11 +105,15 @@ export default function MigrationScriptViewer({
   sourceConnectionId,
   targetConnectionId,
   tables,
+  targetEnvironment,
 }: MigrationScriptViewerProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [migrationPlan, setMigrationPlan] = useState<MigrationPlan | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [copiedScript, setCopiedScript] = useState<string | null>(null);
+  const [isDryRunning, setIsDryRunning] = useState(false);
+  const [dryRunResult, setDryRunResult] = useState<SqlDryRunResult | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
   const toast = useToast();
 
   const generateMigration = async () => {
@@ -117,6 +136,7 @@ export default function MigrationScriptViewer({
       
       if (data.success) {
         setMigrationPlan(data.data.migrationPlan);
+        setDryRunResult(null);
       } else {
         setError(data.error);
       }
@@ -127,6 +147,52 @@ export default function MigrationScriptViewer({
     }
   };
 
+  // Run the full script against the target inside a transaction that is
+  // always rolled back
+  const dryRunScript = async (sql: string) => {
+    const isProduction = targetEnvironment === 'production';
+    if (isProduction && !window.confirm(
+      'The dry run holds locks on the PRODUCTION database until it is rolled back. Continue?'
+    )) {
+      return;
+    }
+
+    setIsDryRunning(true);
+    setDryRunResult(null);
+
+    try {
+      const response = await fetch(`/api/connections/${targetConnectionId}/execute`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(isProduction ? { 'X-Confirm-Production': 'true' } : {}),
+        },
+        body: JSON.stringify({ sql, dryRun: true }),
+      });
+
+      const data = await response.json();
+
+      if (data.success && data.data?.dryRun) {
+        setDryRunResult(data.data);
+      } else {
+        toast({
+          title: 'Dry run failed',
+          description: data.error,
+          status: 'error',
+          duration: 5000,
+        });
+      }
+    } catch {
+      toast({
+        title: 'Dry run failed',
+        status: 'error',
+        duration: 3000,
+      });
+    } finally {
+      setIsDryRunning(false);
+    }
+  };
+
   const copyToClipboard = async (text: string, scriptId: string) => {
     try {
       await navigator.clipboard.writeText(text);
@@ -146,8 +212,7 @@ export default function MigrationScriptViewer({
     }
   };
 
-  const downloadScript = (content: string, filename: string) => {
-    const blob = new Blob([content], { type: 'text/sql' });
+  const saveFile = (blob: Blob, filename: string) => {
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
@@ -165,6 +230,52 @@ export default function MigrationScriptViewer({
     });
   };
 
+  const downloadScript = (content: string, filename: string) => {
+    saveFile(new Blob([content], { type: 'text/sql' }), filename);
+  };
+
+  // The plan is regenerated server-side and packaged as migration files
+  const exportMigration = async (format: MigrationExportFormat) => {
+    setIsExporting(true);
+
+    try {
+      const response = await fetch('/api/sync/generate-migration', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          sourceConnectionId,
+          targetConnectionId,
+          tables,
+          direction: 'source_to_target',
+          format,
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        toast({
+          title: 'Export failed',
+          description: data?.error,
+          status: 'error',
+          duration: 5000,
+        });
+        return;
+      }
+
+      const filename = response.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1]
+        ?? `migration.${format === 'supabase' ? 'sql' : 'zip'}`;
+      saveFile(await response.blob(), filename);
+    } catch {
+      toast({
+        title: 'Export failed',
+        status: 'error',
+        duration: 3000,
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   const getSeverityColor = (severity: string) => {
     switch (severity) {
       case 'safe': return 'green';
@@ -285,6 +396,18 @@ export default function MigrationScriptViewer({
           <TabPanel p={0}>
             <Box position="relative">
               <Flex position="absolute" top={2} right={2} zIndex={1} gap={1} flexWrap="wrap" justify="flex-end">
+                <Tooltip label="Run in a transaction that is rolled back">
+                  <Button
+                    size={{ base: 'xs', md: 'sm' }}
+                    colorScheme="teal"
+                    variant="outline"
+                    onClick={() => dryRunScript(migrationPlan.fullScript)}
+                    isLoading={isDryRunning}
+                    loadingText="Dry running"
+                  >
+                    Dry Run
+                  </Button>
+                </Tooltip>
                 <Tooltip label="Copy to clipboard">
                   <Button
                     size={{ base: 'xs', md: 'sm' }}
@@ -307,6 +430,29 @@ export default function MigrationScriptViewer({
                     Download
                   </Button>
                 </Tooltip>
+                <Menu placement="bottom-end">
+                  <MenuButton
+                    as={Button}
+                    size={{ base: 'xs', md: 'sm' }}
+                    isLoading={isExporting}
+                    loadingText="Exporting"
+                  >
+                    Export as
+                  </MenuButton>
+                  <MenuList bg="surface.800" borderColor="surface.700">
+                    {EXPORT_FORMATS.map(({ format, label }) => (
+                      <MenuItem
+                        key={format}
+                        bg="surface.800"
+                        _hover={{ bg: 'surface.700' }}
+                        fontSize="sm"
+                        onClick={() => exportMigration(format)}
+                      >
+                        {label}
+                      </MenuItem>
+                    ))}
+                  </MenuList>
+                </Menu>
               </Flex>
               <Box 
                 p={4} 
@@ -327,6 +473,11 @@ export default function MigrationScriptViewer({
                   {migrationPlan.fullScript}
                 </Code>
               </Box>
+              {dryRunResult && (
+                <Box p={4} borderTopWidth="1px" borderColor="surface.700">
+                  <SqlDryRunResults result={dryRunResult} />
+                </Box>
+              )}
             </Box>
           </TabPanel>
 
@@ -0,0 +1,101 @@
+'use client';
+
+import {
+  Box,
+  VStack,
+  HStack,
+  Text,
+  Badge,
+  Button,
+  Code,
+} from '@chakra-ui/react';
+import type { RenameDecision } from '@/types';
+import type { PlannedRename } from '@/lib/services/schema-migration-generator';
+
+interface RenameCandidateReviewProps {
+  renames: PlannedRename[];
+  onDecide: (id: string, decision: RenameDecision) => void;
+  /** Disable the buttons, e.g. while the plan is regenerated */
+  isDisabled?: boolean;
+}
+
+function confidenceColor(confidence: number): string {
+  if (confidence >= 0.8) return 'green';
+  if (confidence >= 0.65) return 'yellow';
+  return 'orange';
+}
+
+/**
+ * Tables and columns that look renamed. Accepting one migrates it with
+ * ALTER ... RENAME (keeping its data) instead of creating an empty copy.
+ */
+export default function RenameCandidateReview({
+  renames,
+  onDecide,
+  isDisabled = false,
+}: RenameCandidateReviewProps) {
+  if (renames.length === 0) return null;
+
+  return (
+    <Box p={3} bg="surface.800" borderRadius="md" borderLeftWidth="4px" borderLeftColor="yellow.400">
+      <Text color="yellow.300" fontWeight="bold" fontSize="sm">
+        Possible renames
+      </Text>
+      <Text color="surface.400" fontSize="xs" mb={3}>
+        Accept a rename to keep the existing data. Undecided or rejected candidates are created as new, empty
+        tables or columns.
+      </Text>
+
+      <VStack align="stretch" spacing={2}>
+        {renames.map((rename) => (
+          <HStack
+            key={rename.id}
+            p={2}
+            bg="surface.900"
+            borderRadius="md"
+            justify="space-between"
+            align="start"
+            flexWrap="wrap"
+            gap={2}
+          >
+            <VStack align="start" spacing={1}>
+              <HStack spacing={2} flexWrap="wrap">
+                <Badge fontSize="xs">{rename.kind}</Badge>
+                <Code fontSize="xs" bg="transparent" color="white">
+                  {rename.kind === 'column' && `${rename.tableName}.`}{rename.from} → {rename.to}
+                </Code>
+                <Badge colorScheme={confidenceColor(rename.confidence)} fontSize="xs">
+                  {Math.round(rename.confidence * 100)}% confidence
+                </Badge>
+              </HStack>
+              <Text color="surface.400" fontSize="xs">
+                {rename.reasons.join(' · ')}
+              </Text>
+            </VStack>
+
+            <HStack spacing={1}>
+              <Button
+                size="xs"
+                colorScheme="green"
+                variant={rename.decision === 'accepted' ? 'solid' : 'outline'}
+                onClick={() => onDecide(rename.id, 'accepted')}
+                isDisabled={isDisabled}
+              >
+                Rename
+              </Button>
+              <Button
+                size="xs"
+                colorScheme="gray"
+                variant={rename.decision === 'rejected' ? 'solid' : 'outline'}
+                onClick={() => onDecide(rename.id, 'rejected')}
+                isDisabled={isDisabled}
+              >
+                Not a rename
+              </Button>
+            </HStack>
+          </HStack>
+        ))}
+      </VStack>
+    </Box>
+  );
+}
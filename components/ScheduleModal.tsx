@@ -32,7 +32,7 @@ import {
   validateCronExpression, 
   describeCron, 
   calculateNextRun 
-} from '@/lib/services/scheduler';
+} from '@/lib/services/cron';
 
 // Icons
 const ClockIcon = () => (
@@ -84,9 +84,9 @@ export function ScheduleModal({
   const [enabled, setEnabled] = useState(initialValues?.enabled ?? true);
   const [usePreset, setUsePreset] = useState(true);
   
-  const validation = validateCronExpression(cronExpression);
+  const validation = validateCronExpression(cronExpression, timezone);
   const description = validation.valid ? describeCron(cronExpression) : '';
-  const nextRun = validation.valid ? calculateNextRun(cronExpression) : null;
+  const nextRun = validation.valid ? calculateNextRun(cronExpression, new Date(), timezone) : null;
   
   const handleSubmit = () => {
     if (!validation.valid || !name.trim()) return;
@@ -110,8 +110,10 @@ export function ScheduleModal({
     { value: CRON_PRESETS.every12Hours, label: 'Every 12 hours' },
     { value: CRON_PRESETS.daily, label: 'Daily at midnight' },
     { value: CRON_PRESETS.dailyAt9AM, label: 'Daily at 9 AM' },
+    { value: CRON_PRESETS.weekdaysAt9AM, label: 'Weekdays at 9 AM' },
     { value: CRON_PRESETS.weekly, label: 'Weekly (Sunday)' },
     { value: CRON_PRESETS.monthly, label: 'Monthly (1st day)' },
+    { value: CRON_PRESETS.lastDayOfMonth, label: 'Monthly (last day)' },
   ];
   
   const timezones = [
@@ -269,7 +271,7 @@ export function ScheduleModal({
                     {nextRun ? (
                       <Tooltip label={nextRun.toISOString()}>
                         <Badge colorScheme="teal">
-                          {nextRun.toLocaleString()}
+                          {nextRun.toLocaleString(undefined, { timeZone: timezone, timeZoneName: 'short' })}
                         </Badge>
                       </Tooltip>
                     ) : (
@@ -293,12 +295,14 @@ export function ScheduleModal({
                   <Text color="surface.400">weekday</Text>
                   <Text color="surface.300">0-59</Text>
                   <Text color="surface.300">0-23</Text>
-                  <Text color="surface.300">1-31</Text>
-                  <Text color="surface.300">1-12</Text>
-                  <Text color="surface.300">0-6</Text>
+                  <Text color="surface.300">1-31, L</Text>
+                  <Text color="surface.300">1-12, JAN-DEC</Text>
+                  <Text color="surface.300">0-6, SUN-SAT</Text>
                 </SimpleGrid>
                 <Text color="surface.400" mt={2}>
-                  Use * for any, */n for every n, and 1-5 for ranges
+                  Use * for any, */n for every n, 1-5 for ranges and 0-30/10 for stepped ranges.
+                  L is the last day of the month and 5L the last Friday. Macros like @daily,
+                  @weekly and @monthly are also accepted.
                 </Text>
               </Box>
             </Alert>
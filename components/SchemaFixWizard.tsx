@@ -26,7 +26,10 @@ import {
   Collapse,
   Progress,
 } from '@chakra-ui/react';
-import type { ValidationIssue } from '@/types';
+import type { RenameDecision, SqlDryRunResult, ValidationIssue } from '@/types';
+import type { PlannedRename } from '@/lib/services/schema-migration-generator';
+import SqlDryRunResults from './SqlDryRunResults';
+import RenameCandidateReview from './RenameCandidateReview';
 
 // Icons
 const CheckIcon = () => (
@@ -114,12 +117,16 @@ export default function SchemaFixWizard({
   const [executionResults, setExecutionResults] = useState<MigrationResult[]>([]);
   const [executionSummary, setExecutionSummary] = useState<{ total: number; success: number; failed: number } | null>(null);
   const [copied, setCopied] = useState(false);
+  const [isDryRunning, setIsDryRunning] = useState(false);
+  const [dryRunResult, setDryRunResult] = useState<SqlDryRunResult | null>(null);
+  const [renames, setRenames] = useState<PlannedRename[]>([]);
+  const [renameDecisions, setRenameDecisions] = useState<Record<string, RenameDecision>>({});
   const toast = useToast();
 
   const isProduction = targetEnvironment === 'production';
 
-  // Step 1: Generate migration script
-  const generateMigration = async () => {
+  // Step 1: Generate migration script (again whenever a rename is decided)
+  const generateMigration = async (decisions: Record<string, RenameDecision> = renameDecisions) => {
     setIsGenerating(true);
     try {
       const response = await fetch('/api/sync/generate-migration', {
@@ -129,13 +136,16 @@ export default function SchemaFixWizard({
           sourceConnectionId,
           targetConnectionId,
           tables,
+          renameDecisions: decisions,
         }),
       });
 
       const data = await response.json();
       
-      if (data.success && data.data?.fullScript) {
-        setMigrationScript(data.data.fullScript);
+      if (data.success && data.data?.migrationPlan?.fullScript) {
+        setMigrationScript(data.data.migrationPlan.fullScript);
+        setRenames(data.data.migrationPlan.renames || []);
+        setDryRunResult(null);
         setCurrentStep('generate');
         toast({
           title: 'Migration script generated',
@@ -161,6 +171,47 @@ export default function SchemaFixWizard({
     }
   };
 
+  // Step 2 (optional): Run the script in a rolled-back transaction
+  const dryRunMigration = async () => {
+    setIsDryRunning(true);
+    setDryRunResult(null);
+
+    try {
+      const response = await fetch(`/api/connections/${targetConnectionId}/execute`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(isProduction ? { 'X-Confirm-Production': 'true' } : {}),
+        },
+        body: JSON.stringify({
+          sql: migrationScript,
+          dryRun: true,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (data.success && data.data?.dryRun) {
+        setDryRunResult(data.data);
+      } else {
+        toast({
+          title: 'Dry run failed',
+          description: data.error,
+          status: 'error',
+          duration: 5000,
+        });
+      }
+    } catch (error) {
+      toast({
+        title: 'Dry run failed',
+        status: 'error',
+        duration: 3000,
+      });
+    } finally {
+      setIsDryRunning(false);
+    }
+  };
+
   // Step 2: Execute migration
   const executeMigration = async () => {
     if (isProduction && confirmationInput !== targetConnectionName) {
@@ -233,6 +284,12 @@ export default function SchemaFixWizard({
     }
   };
 
+  const decideRename = (id: string, decision: RenameDecision) => {
+    const decisions = { ...renameDecisions, [id]: decision };
+    setRenameDecisions(decisions);
+    generateMigration(decisions);
+  };
+
   const copyToClipboard = async () => {
     await navigator.clipboard.writeText(migrationScript);
     setCopied(true);
@@ -250,6 +307,9 @@ export default function SchemaFixWizard({
     setExecutionResults([]);
     setExecutionSummary(null);
     setConfirmationInput('');
+    setDryRunResult(null);
+    setRenames([]);
+    setRenameDecisions({});
   };
 
   return (
@@ -329,7 +389,7 @@ export default function SchemaFixWizard({
             <Button
               colorScheme="teal"
               size="lg"
-              onClick={generateMigration}
+              onClick={() => generateMigration()}
               isLoading={isGenerating}
               loadingText="Generating..."
               leftIcon={<WrenchIcon />}
@@ -379,6 +439,10 @@ export default function SchemaFixWizard({
               </Box>
             </Box>
 
+            <RenameCandidateReview renames={renames} onDecide={decideRename} isDisabled={isGenerating} />
+
+            {dryRunResult && <SqlDryRunResults result={dryRunResult} />}
+
             {/* Production confirmation */}
             {isProduction && (
               <Alert status="error" borderRadius="md">
@@ -409,6 +473,17 @@ export default function SchemaFixWizard({
               >
                 Back
               </Button>
+              <Button
+                variant="outline"
+                colorScheme="teal"
+                size="lg"
+                onClick={dryRunMigration}
+                isLoading={isDryRunning}
+                loadingText="Dry running..."
+                flex={1}
+              >
+                Dry Run
+              </Button>
               <Button
                 colorScheme={isProduction ? 'red' : 'teal'}
                 size="lg"
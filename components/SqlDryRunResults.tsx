@@ -0,0 +1,89 @@
+'use client';
+
+import {
+  Box,
+  VStack,
+  HStack,
+  Text,
+  Badge,
+  Code,
+  Alert,
+  AlertIcon,
+  AlertDescription,
+} from '@chakra-ui/react';
+import type { SqlDryRunResult, SqlDryRunStatement } from '@/types';
+
+const STATUS_COLORS: Record<SqlDryRunStatement['status'], string> = {
+  success: 'green',
+  error: 'red',
+  skipped: 'gray',
+};
+
+function describeStatement(statement: SqlDryRunStatement): string | null {
+  if (statement.status === 'error') return statement.error || 'Failed';
+  if (statement.status === 'skipped') return statement.reason || 'Skipped';
+  if (statement.rowCount === undefined) return statement.command || null;
+  return `${statement.command ? `${statement.command} · ` : ''}${statement.rowCount} row${statement.rowCount === 1 ? '' : 's'}`;
+}
+
+interface SqlDryRunResultsProps {
+  result: SqlDryRunResult;
+}
+
+/**
+ * Per-statement outcome of a dry run (see the execute route's `dryRun` mode)
+ */
+export default function SqlDryRunResults({ result }: SqlDryRunResultsProps) {
+  return (
+    <VStack align="stretch" spacing={3}>
+      <Alert status={result.wouldSucceed ? 'success' : 'error'} borderRadius="md">
+        <AlertIcon />
+        <AlertDescription fontSize="sm">
+          {result.wouldSucceed
+            ? `Dry run passed - ${result.successfulStatements} of ${result.totalStatements} statements ran in ${result.durationMs}ms, then everything was rolled back.`
+            : `Dry run failed - the script would stop at statement ${(result.statements.find(s => s.status === 'error')?.index ?? 0) + 1}. Nothing was changed.`}
+        </AlertDescription>
+      </Alert>
+
+      <Box maxH="240px" overflowY="auto" bg="surface.800" borderRadius="md" p={3}>
+        <VStack align="stretch" spacing={2}>
+          {result.statements.map((statement) => (
+            <Box key={statement.index} fontSize="xs">
+              <HStack spacing={2} align="start">
+                <Badge colorScheme={STATUS_COLORS[statement.status]} fontSize="2xs" flexShrink={0}>
+                  {statement.status}
+                </Badge>
+                <Code
+                  bg="transparent"
+                  color={statement.status === 'error' ? 'red.300' : 'surface.300'}
+                  fontSize="xs"
+                  flex={1}
+                  isTruncated
+                >
+                  {statement.sql}
+                </Code>
+                {statement.status === 'success' && (
+                  <Text color="surface.500" flexShrink={0}>{statement.durationMs}ms</Text>
+                )}
+              </HStack>
+              {describeStatement(statement) && (
+                <Text color={statement.status === 'error' ? 'red.400' : 'surface.400'} pl={2} mt={1}>
+                  {describeStatement(statement)}
+                </Text>
+              )}
+              {statement.notices.map((notice, idx) => (
+                <Text key={idx} color="yellow.300" pl={2}>
+                  {notice}
+                </Text>
+              ))}
+            </Box>
+          ))}
+        </VStack>
+      </Box>
+
+      <Text color="surface.500" fontSize="xs">
+        Sequence values used during the dry run are not returned, and locks were held until the rollback.
+      </Text>
+    </VStack>
+  );
+}
@@ -72,8 +72,11 @@ interface TableDiff {
   tableName: string;
   inserts: number;
   updates: number;
+  deletes?: number;
   sourceRowCount: number;
   targetRowCount: number;
+  filteredSourceRowCount?: number;
+  filterSummary?: string;
 }
 
 interface SchemaIssue {
@@ -93,6 +96,7 @@ interface SyncPreviewProps {
   schemaIssues: SchemaIssue[];
   totalInserts: number;
   totalUpdates: number;
+  totalDeletes?: number;
   estimatedDuration: number;
   warnings: string[];
   sourceConnection: string;
@@ -105,13 +109,15 @@ export function SyncPreview({
   schemaIssues,
   totalInserts,
   totalUpdates,
+  totalDeletes = 0,
   estimatedDuration,
   warnings,
   sourceConnection,
   targetConnection,
   targetEnvironment,
 }: SyncPreviewProps) {
-  const totalRows = totalInserts + totalUpdates;
+  const totalRows = totalInserts + totalUpdates + totalDeletes;
+  const hasDeletes = totalDeletes > 0;
   const hasSchemaIssues = schemaIssues.length > 0;
   const isProduction = targetEnvironment === 'production';
   
@@ -186,7 +192,7 @@ export function SyncPreview({
       )}
       
       {/* Summary Stats */}
-      <SimpleGrid columns={{ base: 2, md: 4 }} spacing={4}>
+      <SimpleGrid columns={{ base: 2, md: hasDeletes ? 5 : 4 }} spacing={4}>
         <Card bg="surface.800">
           <CardBody>
             <Stat>
@@ -217,6 +223,18 @@ export function SyncPreview({
           </CardBody>
         </Card>
         
+        {hasDeletes && (
+          <Card bg="surface.800">
+            <CardBody>
+              <Stat>
+                <StatLabel color="surface.400">Deletes</StatLabel>
+                <StatNumber color="red.400">{totalDeletes.toLocaleString()}</StatNumber>
+                <StatHelpText color="surface.500">missing in source</StatHelpText>
+              </Stat>
+            </CardBody>
+          </Card>
+        )}
+        
         <Card bg="surface.800">
           <CardBody>
             <Stat>
@@ -299,12 +317,15 @@ export function SyncPreview({
                   <Th color="surface.400" borderColor="surface.700" isNumeric>Target Rows</Th>
                   <Th color="surface.400" borderColor="surface.700" isNumeric>Inserts</Th>
                   <Th color="surface.400" borderColor="surface.700" isNumeric>Updates</Th>
+                  {hasDeletes && (
+                    <Th color="surface.400" borderColor="surface.700" isNumeric>Deletes</Th>
+                  )}
                   <Th color="surface.400" borderColor="surface.700">Impact</Th>
                 </Tr>
               </Thead>
               <Tbody>
                 {tables.map((table) => {
-                  const total = table.inserts + table.updates;
+                  const total = table.inserts + table.updates + (table.deletes || 0);
                   const impact = total / (totalRows || 1);
                   
                   return (
@@ -313,10 +334,29 @@ export function SyncPreview({
                         <HStack>
                           <TableIcon />
                           <Text color="white">{table.tableName}</Text>
+                          {table.filterSummary && (
+                            <Badge colorScheme="purple" variant="subtle" fontSize="xs">
+                              Filtered
+                            </Badge>
+                          )}
                         </HStack>
+                        {table.filterSummary && (
+                          <Code fontSize="xs" mt={1}>
+                            {table.filterSummary}
+                          </Code>
+                        )}
                       </Td>
                       <Td borderColor="surface.700" isNumeric color="surface.300">
-                        {table.sourceRowCount.toLocaleString()}
+                        {table.filteredSourceRowCount !== undefined ? (
+                          <VStack spacing={0} align="flex-end">
+                            <Text>{table.filteredSourceRowCount.toLocaleString()}</Text>
+                            <Text fontSize="xs" color="surface.500">
+                              of {table.sourceRowCount.toLocaleString()}
+                            </Text>
+                          </VStack>
+                        ) : (
+                          table.sourceRowCount.toLocaleString()
+                        )}
                       </Td>
                       <Td borderColor="surface.700" isNumeric color="surface.300">
                         {table.targetRowCount.toLocaleString()}
@@ -331,6 +371,13 @@ export function SyncPreview({
                           {table.updates.toLocaleString()}
                         </Badge>
                       </Td>
+                      {hasDeletes && (
+                        <Td borderColor="surface.700" isNumeric>
+                          <Badge colorScheme="red" variant="subtle">
+                            -{(table.deletes || 0).toLocaleString()}
+                          </Badge>
+                        </Td>
+                      )}
                       <Td borderColor="surface.700">
                         <Progress 
                           value={impact * 100} 
@@ -80,6 +80,20 @@ export default function CreateConnectionModal({ isOpen, isCreating, form, onClos
               </Text>
             </FormControl>
 
+            <FormControl>
+              <FormLabel color="text.secondary">Schemas</FormLabel>
+              <Input
+                placeholder="public"
+                value={form.schemas}
+                onChange={(event) => onChange({ ...form, schemas: event.target.value })}
+                fontFamily="mono"
+                fontSize="sm"
+              />
+              <Text color="text.tertiary" fontSize="xs" mt={2}>
+                Comma-separated. Tables outside public are shown as schema.table
+              </Text>
+            </FormControl>
+
             {form.environment === 'production' && (
               <Box w="full" p={4} bg="rgba(230, 51, 51, 0.18)" borderRadius="md" borderWidth="1px" borderColor="rgba(255, 161, 161, 0.4)">
                 <Text color="red.100" fontSize="sm">
@@ -2,6 +2,7 @@ export interface Connection {
   id: string;
   name: string;
   environment: 'production' | 'development';
+  schemas?: string[];
   createdAt: string;
   updatedAt: string;
 }
@@ -35,4 +36,6 @@ export interface NewConnectionForm {
   name: string;
   databaseUrl: string;
   environment: 'production' | 'development';
+  // Comma-separated list of schemas, e.g. "public, billing"
+  schemas: string;
 }
@@ -0,0 +1,116 @@
+'use client';
+
+import {
+  Badge,
+  Box,
+  HStack,
+  Table,
+  Tbody,
+  Td,
+  Text,
+  Th,
+  Thead,
+  Tr,
+  VStack,
+} from '@chakra-ui/react';
+import type { DataDiffRowSample, DataDiffRowStatus, DataDiffTable } from '@/types';
+
+const STATUS_LABELS: Record<DataDiffRowStatus, string> = {
+  only_in_source: 'Only in source',
+  only_in_target: 'Only in target',
+  differing: 'Differs',
+};
+
+const STATUS_COLORS: Record<DataDiffRowStatus, string> = {
+  only_in_source: 'green',
+  only_in_target: 'orange',
+  differing: 'yellow',
+};
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return 'NULL';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function SampleRow({ sample, columns }: { sample: DataDiffRowSample; columns: string[] }) {
+  return (
+    <Box borderWidth="1px" borderColor="border.default" borderRadius="md" overflow="hidden">
+      <HStack px={3} py={2} bg="bg.surface" spacing={2}>
+        <Badge colorScheme={STATUS_COLORS[sample.status]}>{STATUS_LABELS[sample.status]}</Badge>
+        <Text fontFamily="mono" fontSize="xs" color="text.secondary">{sample.key}</Text>
+      </HStack>
+      <Box overflowX="auto">
+        <Table size="sm" variant="simple">
+          <Thead>
+            <Tr>
+              <Th>Column</Th>
+              <Th>Source</Th>
+              <Th>Target</Th>
+            </Tr>
+          </Thead>
+          <Tbody>
+            {columns.map((column) => {
+              const changed = sample.changedColumns.includes(column);
+              return (
+                <Tr key={column} bg={changed ? 'rgba(236, 201, 75, 0.12)' : undefined}>
+                  <Td fontFamily="mono" fontSize="xs" color={changed ? 'yellow.300' : 'text.secondary'}>
+                    {column}
+                  </Td>
+                  <Td fontFamily="mono" fontSize="xs" color="text.primary" maxW="280px" isTruncated>
+                    {sample.source ? formatValue(sample.source[column]) : '-'}
+                  </Td>
+                  <Td fontFamily="mono" fontSize="xs" color="text.primary" maxW="280px" isTruncated>
+                    {sample.target ? formatValue(sample.target[column]) : '-'}
+                  </Td>
+                </Tr>
+              );
+            })}
+          </Tbody>
+        </Table>
+      </Box>
+    </Box>
+  );
+}
+
+/**
+ * Column change summary and side-by-side sample rows of one table
+ */
+export default function DataDiffTableDetails({ table }: { table: DataDiffTable }) {
+  if (table.error) {
+    return <Text color="red.300" fontSize="sm">{table.error}</Text>;
+  }
+
+  return (
+    <VStack align="stretch" spacing={4}>
+      <Text color="text.tertiary" fontSize="xs">
+        Primary key ({table.primaryKey.join(', ')}) · {table.rangesCompared} key ranges hashed,{' '}
+        {table.rangesDiffering} compared row by row
+      </Text>
+
+      {table.columnChanges.length > 0 && (
+        <Box>
+          <Text color="text.secondary" fontSize="sm" mb={2}>Changed columns</Text>
+          <HStack spacing={2} flexWrap="wrap">
+            {table.columnChanges.map((change) => (
+              <Badge key={change.columnName} variant="outline" colorScheme="yellow" fontFamily="mono">
+                {change.columnName}: {change.rows}
+              </Badge>
+            ))}
+          </HStack>
+        </Box>
+      )}
+
+      {table.samples.length > 0 ? (
+        <VStack align="stretch" spacing={3}>
+          <Text color="text.secondary" fontSize="sm">Sample rows</Text>
+          {table.samples.map((sample) => (
+            <SampleRow key={`${sample.status}:${sample.key}`} sample={sample} columns={table.columns} />
+          ))}
+        </VStack>
+      ) : (
+        <Text color="text.tertiary" fontSize="sm">All rows are identical.</Text>
+      )}
+    </VStack>
+  );
+}
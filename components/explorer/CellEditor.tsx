@@ -0,0 +1,185 @@
+'use client';
+
+import { useState } from 'react';
+import { HStack, IconButton, Input, Select, Textarea, Tooltip } from '@chakra-ui/react';
+
+export interface EditableColumn {
+  name: string;
+  type: string;
+  nullable: boolean;
+  isPrimaryKey: boolean;
+  defaultValue: string | null;
+}
+
+type EditorKind = 'boolean' | 'number' | 'json' | 'date' | 'datetime' | 'text';
+
+const NUMBER_TYPES = ['smallint', 'integer', 'bigint', 'numeric', 'decimal', 'real', 'double precision'];
+
+/**
+ * Pick an editor for an information_schema data type
+ */
+export function getEditorKind(type: string): EditorKind {
+  if (type === 'boolean') return 'boolean';
+  if (NUMBER_TYPES.includes(type)) return 'number';
+  if (type === 'json' || type === 'jsonb') return 'json';
+  if (type === 'date') return 'date';
+  if (type.startsWith('timestamp')) return 'datetime';
+  return 'text';
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/**
+ * Text shown in the editor for a stored value
+ */
+function toEditorText(value: unknown, kind: EditorKind): string {
+  if (value === null || value === undefined) return '';
+
+  if (kind === 'json') {
+    return typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+  }
+
+  if (kind === 'datetime' || kind === 'date') {
+    const date = new Date(String(value));
+    if (isNaN(date.getTime())) return String(value);
+    const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+    return kind === 'date'
+      ? day
+      : `${day}T${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+  }
+
+  return String(value);
+}
+
+/**
+ * Value to stage for the editor's text, or undefined if the text is invalid.
+ * Numbers stay text so bigint and numeric values keep their precision.
+ */
+function fromEditorText(text: string, column: EditableColumn, kind: EditorKind): unknown {
+  if (text === '' && kind !== 'text') return null;
+
+  switch (kind) {
+    case 'number':
+      return /^-?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(text.trim()) ? text.trim() : undefined;
+    case 'json':
+      try {
+        return JSON.parse(text);
+      } catch {
+        return undefined;
+      }
+    case 'datetime': {
+      // Local time in the editor; stored as an instant for timestamptz
+      if (column.type !== 'timestamp with time zone') return text;
+      const date = new Date(text);
+      return isNaN(date.getTime()) ? undefined : date.toISOString();
+    }
+    default:
+      return text;
+  }
+}
+
+interface CellEditorProps {
+  column: EditableColumn;
+  value: unknown;
+  onChange: (value: unknown) => void;
+  // Enter (outside JSON) and Escape, for inline editing
+  onCommit?: () => void;
+  onCancel?: () => void;
+  autoFocus?: boolean;
+}
+
+/**
+ * Type-aware editor for one cell. Nullable columns get a NULL toggle.
+ */
+export default function CellEditor({ column, value, onChange, onCommit, onCancel, autoFocus }: CellEditorProps) {
+  const kind = getEditorKind(column.type);
+  const [text, setText] = useState(() => toEditorText(value, kind));
+  const [isInvalid, setIsInvalid] = useState(false);
+  const isNull = value === null;
+
+  const handleText = (next: string) => {
+    setText(next);
+    const parsed = fromEditorText(next, column, kind);
+    setIsInvalid(parsed === undefined);
+    if (parsed !== undefined) onChange(parsed);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') onCancel?.();
+    if (e.key === 'Enter' && kind !== 'json' && !isInvalid) onCommit?.();
+  };
+
+  const fieldProps = {
+    size: 'sm' as const,
+    bg: 'surface.900',
+    borderColor: isInvalid ? 'red.500' : 'surface.600',
+    autoFocus,
+    onKeyDown: handleKeyDown,
+    minW: '140px',
+  };
+
+  let field: React.ReactNode;
+
+  if (kind === 'boolean') {
+    field = (
+      <Select
+        {...fieldProps}
+        value={value === true ? 'true' : value === false ? 'false' : ''}
+        onChange={(e) => onChange(e.target.value === '' ? null : e.target.value === 'true')}
+      >
+        {column.nullable && <option value="">NULL</option>}
+        <option value="true">true</option>
+        <option value="false">false</option>
+      </Select>
+    );
+  } else if (kind === 'json') {
+    field = (
+      <Textarea
+        {...fieldProps}
+        value={text}
+        onChange={(e) => handleText(e.target.value)}
+        placeholder={isNull ? 'NULL' : undefined}
+        fontFamily="mono"
+        fontSize="xs"
+        rows={3}
+      />
+    );
+  } else {
+    field = (
+      <Input
+        {...fieldProps}
+        type={kind === 'date' ? 'date' : kind === 'datetime' ? 'datetime-local' : 'text'}
+        step={kind === 'datetime' ? 1 : undefined}
+        inputMode={kind === 'number' ? 'decimal' : undefined}
+        value={text}
+        onChange={(e) => handleText(e.target.value)}
+        placeholder={isNull ? 'NULL' : column.defaultValue ? `default: ${column.defaultValue}` : undefined}
+        fontFamily={kind === 'number' || column.type === 'uuid' ? 'mono' : 'inherit'}
+      />
+    );
+  }
+
+  if (!column.nullable || kind === 'boolean') {
+    return <>{field}</>;
+  }
+
+  return (
+    <HStack spacing={1} align="start">
+      {field}
+      <Tooltip label={isNull ? 'Value is NULL' : 'Set to NULL'} hasArrow>
+        <IconButton
+          aria-label="Set to NULL"
+          icon={<span>∅</span>}
+          size="sm"
+          variant={isNull ? 'solid' : 'ghost'}
+          colorScheme={isNull ? 'purple' : 'gray'}
+          onClick={() => {
+            setText('');
+            setIsInvalid(false);
+            onChange(null);
+          }}
+        />
+      </Tooltip>
+    </HStack>
+  );
+}
@@ -0,0 +1,129 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Alert,
+  AlertDescription,
+  AlertIcon,
+  Badge,
+  Box,
+  Button,
+  HStack,
+  Input,
+  Modal,
+  ModalBody,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+  ModalOverlay,
+  Text,
+  VStack,
+} from '@chakra-ui/react';
+
+interface CommitChangesDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onConfirm: () => void;
+  isCommitting: boolean;
+  connectionName: string;
+  tableName: string;
+  counts: { inserts: number; updates: number; deletes: number };
+}
+
+/**
+ * Confirmation step before staged explorer edits are committed to a
+ * production connection: the connection name must be typed to proceed
+ */
+export default function CommitChangesDialog({
+  isOpen,
+  onClose,
+  onConfirm,
+  isCommitting,
+  connectionName,
+  tableName,
+  counts,
+}: CommitChangesDialogProps) {
+  const [confirmText, setConfirmText] = useState('');
+  const canConfirm = confirmText === connectionName;
+
+  const handleClose = () => {
+    setConfirmText('');
+    onClose();
+  };
+
+  const handleConfirm = () => {
+    if (!canConfirm) return;
+    setConfirmText('');
+    onConfirm();
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={isCommitting ? () => undefined : handleClose} size="md" isCentered>
+      <ModalOverlay bg="blackAlpha.700" backdropFilter="blur(4px)" />
+      <ModalContent bg="surface.800" borderColor="surface.700" borderWidth="1px">
+        <ModalHeader color="white">
+          Commit changes to production
+        </ModalHeader>
+        <ModalBody>
+          <VStack spacing={4} align="stretch">
+            <Alert status="error" borderRadius="md" bg="red.900">
+              <AlertIcon />
+              <AlertDescription fontSize="sm">
+                These changes are written to <Text as="span" fontFamily="mono">{tableName}</Text> on{' '}
+                <Badge colorScheme="red">PRODUCTION</Badge> in a single transaction.
+              </AlertDescription>
+            </Alert>
+
+            <HStack spacing={6} bg="surface.900" p={4} borderRadius="md">
+              <VStack spacing={0}>
+                <Text color="green.400" fontWeight="bold">{counts.inserts}</Text>
+                <Text color="surface.400" fontSize="xs">Inserts</Text>
+              </VStack>
+              <VStack spacing={0}>
+                <Text color="blue.400" fontWeight="bold">{counts.updates}</Text>
+                <Text color="surface.400" fontSize="xs">Updates</Text>
+              </VStack>
+              <VStack spacing={0}>
+                <Text color="red.400" fontWeight="bold">{counts.deletes}</Text>
+                <Text color="surface.400" fontSize="xs">Deletes</Text>
+              </VStack>
+            </HStack>
+
+            <Box>
+              <Text color="surface.300" fontSize="sm" mb={2}>
+                To confirm, type{' '}
+                <Text as="span" color="red.400" fontWeight="bold" fontFamily="mono">{connectionName}</Text>
+              </Text>
+              <Input
+                value={confirmText}
+                onChange={(e) => setConfirmText(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleConfirm()}
+                placeholder={connectionName}
+                bg="surface.900"
+                borderColor={canConfirm ? 'green.500' : 'surface.600'}
+                fontFamily="mono"
+                isDisabled={isCommitting}
+              />
+            </Box>
+          </VStack>
+        </ModalBody>
+        <ModalFooter>
+          <HStack spacing={3}>
+            <Button variant="ghost" onClick={handleClose} isDisabled={isCommitting}>
+              Cancel
+            </Button>
+            <Button
+              colorScheme="red"
+              onClick={handleConfirm}
+              isDisabled={!canConfirm}
+              isLoading={isCommitting}
+              loadingText="Committing"
+            >
+              Commit to Production
+            </Button>
+          </HStack>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+}
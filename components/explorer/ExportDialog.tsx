@@ -0,0 +1,205 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Box,
+  Button,
+  Checkbox,
+  Flex,
+  FormControl,
+  FormLabel,
+  HStack,
+  Input,
+  Modal,
+  ModalBody,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+  ModalOverlay,
+  Select,
+  SimpleGrid,
+  Text,
+  VStack,
+} from '@chakra-ui/react';
+import type { EditableColumn } from './CellEditor';
+
+type ExportFormat = 'csv' | 'ndjson' | 'sql';
+
+const FORMAT_OPTIONS: { value: ExportFormat; label: string }[] = [
+  { value: 'csv', label: 'CSV' },
+  { value: 'ndjson', label: 'JSON (one object per line)' },
+  { value: 'sql', label: 'SQL INSERT statements' },
+];
+
+const DEFAULT_ROW_CAP = 10000;
+const MAX_ROW_CAP = 100000;
+
+interface ExportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  connectionId: string;
+  tableName: string;
+  columns: EditableColumn[];
+  // Columns checked when the dialog opens, usually the visible ones
+  defaultColumns: string[];
+  // orderBy, orderDir, search and filter of the current view
+  viewParams: URLSearchParams;
+  // Rows matching the current view, when known
+  matchingRows?: number;
+}
+
+/**
+ * Downloads the current explorer view - filter, search and sort included -
+ * as CSV, NDJSON or SQL, with a column selection and a row cap
+ */
+export default function ExportDialog({
+  isOpen,
+  onClose,
+  connectionId,
+  tableName,
+  columns,
+  defaultColumns,
+  viewParams,
+  matchingRows,
+}: ExportDialogProps) {
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [rowCap, setRowCap] = useState(String(DEFAULT_ROW_CAP));
+  const [selected, setSelected] = useState<Set<string> | null>(null);
+
+  // Start from the visible columns each time the dialog opens
+  const selectedColumns = selected ?? new Set(defaultColumns);
+  const limit = Math.min(MAX_ROW_CAP, Math.max(1, parseInt(rowCap, 10) || DEFAULT_ROW_CAP));
+
+  const handleClose = () => {
+    setSelected(null);
+    onClose();
+  };
+
+  const toggleColumn = (name: string) => {
+    const next = new Set(selectedColumns);
+    if (next.has(name)) {
+      next.delete(name);
+    } else {
+      next.add(name);
+    }
+    setSelected(next);
+  };
+
+  const handleDownload = () => {
+    const query = new URLSearchParams(viewParams);
+    query.set('format', format);
+    query.set('limit', String(limit));
+    if (selectedColumns.size < columns.length) {
+      query.set('columns', columns.filter((c) => selectedColumns.has(c.name)).map((c) => c.name).join(','));
+    }
+
+    // A plain link lets the browser stream the file straight to disk
+    const link = document.createElement('a');
+    link.href = `/api/explorer/${connectionId}/${encodeURIComponent(tableName)}/export?${query}`;
+    link.rel = 'noopener';
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    handleClose();
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} size="lg" isCentered>
+      <ModalOverlay bg="blackAlpha.700" backdropFilter="blur(4px)" />
+      <ModalContent bg="surface.800" borderColor="surface.700" borderWidth="1px">
+        <ModalHeader color="white">
+          Export <Text as="span" fontFamily="mono">{tableName}</Text>
+        </ModalHeader>
+        <ModalBody>
+          <VStack spacing={4} align="stretch">
+            <Text color="surface.400" fontSize="sm">
+              Exports rows matching the current search and filters, in the current sort order
+              {matchingRows !== undefined && ` (about ${matchingRows.toLocaleString()} rows)`}.
+            </Text>
+
+            <HStack spacing={4} align="end">
+              <FormControl>
+                <FormLabel color="surface.300" fontSize="sm">Format</FormLabel>
+                <Select
+                  size="sm"
+                  bg="surface.900"
+                  borderColor="surface.700"
+                  value={format}
+                  onChange={(e) => setFormat(e.target.value as ExportFormat)}
+                >
+                  {FORMAT_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </Select>
+              </FormControl>
+              <FormControl w="180px">
+                <FormLabel color="surface.300" fontSize="sm">Row limit</FormLabel>
+                <Input
+                  size="sm"
+                  type="number"
+                  min={1}
+                  max={MAX_ROW_CAP}
+                  bg="surface.900"
+                  borderColor="surface.700"
+                  value={rowCap}
+                  onChange={(e) => setRowCap(e.target.value)}
+                />
+              </FormControl>
+            </HStack>
+
+            <Box>
+              <Flex justify="space-between" align="center" mb={2}>
+                <Text color="surface.300" fontSize="sm">
+                  Columns ({selectedColumns.size} of {columns.length})
+                </Text>
+                <HStack spacing={1}>
+                  <Button size="xs" variant="ghost" onClick={() => setSelected(new Set(columns.map((c) => c.name)))}>
+                    All
+                  </Button>
+                  <Button size="xs" variant="ghost" onClick={() => setSelected(new Set())}>
+                    None
+                  </Button>
+                </HStack>
+              </Flex>
+              <SimpleGrid
+                columns={2}
+                spacing={1}
+                maxH="240px"
+                overflowY="auto"
+                bg="surface.900"
+                p={3}
+                borderRadius="md"
+              >
+                {columns.map((col) => (
+                  <Checkbox
+                    key={col.name}
+                    size="sm"
+                    colorScheme="teal"
+                    isChecked={selectedColumns.has(col.name)}
+                    onChange={() => toggleColumn(col.name)}
+                  >
+                    <Text as="span" fontSize="sm" fontFamily="mono" color="surface.200">{col.name}</Text>
+                  </Checkbox>
+                ))}
+              </SimpleGrid>
+            </Box>
+          </VStack>
+        </ModalBody>
+        <ModalFooter>
+          <HStack spacing={3}>
+            <Button variant="ghost" onClick={handleClose}>
+              Cancel
+            </Button>
+            <Button
+              colorScheme="teal"
+              onClick={handleDownload}
+              isDisabled={selectedColumns.size === 0}
+            >
+              Download
+            </Button>
+          </HStack>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+}
@@ -0,0 +1,260 @@
+'use client';
+
+import {
+  Box,
+  Button,
+  Flex,
+  HStack,
+  IconButton,
+  Input,
+  Select,
+  Text,
+  Tooltip,
+  VStack,
+} from '@chakra-ui/react';
+import {
+  isFilterGroup,
+  type ExplorerFilterCondition,
+  type ExplorerFilterGroup,
+  type ExplorerFilterNode,
+  type ExplorerFilterOperator,
+} from '@/lib/services/explorer-filter';
+import type { EditableColumn } from './CellEditor';
+
+const OPERATOR_OPTIONS: { value: ExplorerFilterOperator; label: string }[] = [
+  { value: 'eq', label: 'equals' },
+  { value: 'neq', label: 'not equal' },
+  { value: 'contains', label: 'contains' },
+  { value: 'not_contains', label: 'does not contain' },
+  { value: 'gt', label: '>' },
+  { value: 'gte', label: '≥' },
+  { value: 'lt', label: '<' },
+  { value: 'lte', label: '≤' },
+  { value: 'between', label: 'between' },
+  { value: 'is_null', label: 'is null' },
+  { value: 'is_not_null', label: 'is not null' },
+];
+
+const RemoveIcon = () => (
+  <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+    <line x1="18" y1="6" x2="6" y2="18"/>
+    <line x1="6" y1="6" x2="18" y2="18"/>
+  </svg>
+);
+
+interface FilterBarProps {
+  columns: EditableColumn[];
+  filter: ExplorerFilterGroup;
+  onChange: (filter: ExplorerFilterGroup) => void;
+  onApply: () => void;
+  onClear: () => void;
+  onCopyLink: () => void;
+}
+
+/**
+ * Builds an explorer filter: per-column conditions combined with AND / OR,
+ * plus one level of nested groups for mixed logic such as
+ * `status = 'active' AND (plan = 'pro' OR seats > 10)`
+ */
+export default function FilterBar({ columns, filter, onChange, onApply, onClear, onCopyLink }: FilterBarProps) {
+  const newCondition = (): ExplorerFilterCondition => ({
+    column: columns[0]?.name ?? '',
+    operator: 'eq',
+    value: '',
+  });
+
+  const updateGroup = (
+    group: ExplorerFilterGroup,
+    index: number,
+    node: ExplorerFilterNode | null
+  ): ExplorerFilterGroup => ({
+    ...group,
+    conditions: node
+      ? group.conditions.map((current, i) => (i === index ? node : current))
+      : group.conditions.filter((_, i) => i !== index),
+  });
+
+  const renderCondition = (condition: ExplorerFilterCondition, onUpdate: (node: ExplorerFilterCondition | null) => void) => {
+    const needsValue = condition.operator !== 'is_null' && condition.operator !== 'is_not_null';
+
+    return (
+      <HStack spacing={2} align="center">
+        <Select
+          size="sm"
+          w="180px"
+          bg="surface.900"
+          borderColor="surface.700"
+          value={condition.column}
+          onChange={(e) => onUpdate({ ...condition, column: e.target.value })}
+        >
+          {columns.map((col) => (
+            <option key={col.name} value={col.name}>{col.name}</option>
+          ))}
+        </Select>
+        <Select
+          size="sm"
+          w="150px"
+          bg="surface.900"
+          borderColor="surface.700"
+          value={condition.operator}
+          onChange={(e) => {
+            const operator = e.target.value as ExplorerFilterOperator;
+            const next: ExplorerFilterCondition = { column: condition.column, operator };
+            if (operator !== 'is_null' && operator !== 'is_not_null') next.value = condition.value ?? '';
+            if (operator === 'between') next.valueTo = condition.valueTo ?? '';
+            onUpdate(next);
+          }}
+        >
+          {OPERATOR_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </Select>
+        {needsValue && (
+          <Input
+            size="sm"
+            w="180px"
+            bg="surface.900"
+            borderColor="surface.700"
+            placeholder={condition.operator === 'between' ? 'from' : 'value'}
+            value={String(condition.value ?? '')}
+            onChange={(e) => onUpdate({ ...condition, value: e.target.value })}
+            onKeyDown={(e) => e.key === 'Enter' && onApply()}
+          />
+        )}
+        {condition.operator === 'between' && (
+          <Input
+            size="sm"
+            w="180px"
+            bg="surface.900"
+            borderColor="surface.700"
+            placeholder="to"
+            value={String(condition.valueTo ?? '')}
+            onChange={(e) => onUpdate({ ...condition, valueTo: e.target.value })}
+            onKeyDown={(e) => e.key === 'Enter' && onApply()}
+          />
+        )}
+        <Tooltip label="Remove condition" hasArrow>
+          <IconButton
+            aria-label="Remove condition"
+            icon={<RemoveIcon />}
+            size="xs"
+            variant="ghost"
+            onClick={() => onUpdate(null)}
+          />
+        </Tooltip>
+      </HStack>
+    );
+  };
+
+  const renderCombinator = (group: ExplorerFilterGroup, onUpdate: (group: ExplorerFilterGroup) => void) => (
+    <Select
+      size="xs"
+      w="130px"
+      bg="surface.900"
+      borderColor="surface.700"
+      value={group.combinator}
+      onChange={(e) => onUpdate({ ...group, combinator: e.target.value as 'and' | 'or' })}
+    >
+      <option value="and">Match all</option>
+      <option value="or">Match any</option>
+    </Select>
+  );
+
+  return (
+    <VStack
+      align="stretch"
+      spacing={2}
+      p={3}
+      bg="surface.800"
+      borderRadius="lg"
+      border="1px solid"
+      borderColor="surface.700"
+    >
+      <HStack spacing={2}>
+        <Text fontSize="sm" color="surface.300">Filters</Text>
+        {renderCombinator(filter, onChange)}
+      </HStack>
+
+      {filter.conditions.map((node, index) => {
+        if (!isFilterGroup(node)) {
+          return (
+            <Box key={index}>
+              {renderCondition(node, (next) => onChange(updateGroup(filter, index, next)))}
+            </Box>
+          );
+        }
+
+        const updateNested = (group: ExplorerFilterGroup) => onChange(updateGroup(filter, index, group));
+        return (
+          <VStack
+            key={index}
+            align="stretch"
+            spacing={2}
+            p={2}
+            borderLeft="2px solid"
+            borderColor="teal.700"
+            bg="surface.900"
+            borderRadius="md"
+          >
+            <HStack spacing={2}>
+              <Text fontSize="xs" color="surface.400">Group</Text>
+              {renderCombinator(node, updateNested)}
+              <Box flex={1} />
+              <Button size="xs" variant="ghost" onClick={() => updateNested({ ...node, conditions: [...node.conditions, newCondition()] })}>
+                Add condition
+              </Button>
+              <Tooltip label="Remove group" hasArrow>
+                <IconButton
+                  aria-label="Remove group"
+                  icon={<RemoveIcon />}
+                  size="xs"
+                  variant="ghost"
+                  onClick={() => onChange(updateGroup(filter, index, null))}
+                />
+              </Tooltip>
+            </HStack>
+            {node.conditions.map((child, childIndex) =>
+              isFilterGroup(child) ? null : (
+                <Box key={childIndex}>
+                  {renderCondition(child, (next) => updateNested(updateGroup(node, childIndex, next)))}
+                </Box>
+              )
+            )}
+          </VStack>
+        );
+      })}
+
+      <Flex gap={2} wrap="wrap">
+        <Button
+          size="xs"
+          variant="ghost"
+          onClick={() => onChange({ ...filter, conditions: [...filter.conditions, newCondition()] })}
+          isDisabled={columns.length === 0}
+        >
+          Add condition
+        </Button>
+        <Button
+          size="xs"
+          variant="ghost"
+          onClick={() => onChange({
+            ...filter,
+            conditions: [...filter.conditions, { combinator: filter.combinator === 'and' ? 'or' : 'and', conditions: [newCondition()] }],
+          })}
+          isDisabled={columns.length === 0}
+        >
+          Add group
+        </Button>
+        <Box flex={1} />
+        <Button size="xs" variant="ghost" onClick={onCopyLink}>
+          Copy link
+        </Button>
+        <Button size="xs" variant="ghost" onClick={onClear}>
+          Clear
+        </Button>
+        <Button size="xs" colorScheme="teal" onClick={onApply}>
+          Apply
+        </Button>
+      </Flex>
+    </VStack>
+  );
+}
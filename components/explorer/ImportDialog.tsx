@@ -0,0 +1,454 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Alert,
+  AlertDescription,
+  AlertIcon,
+  Badge,
+  Box,
+  Button,
+  FormControl,
+  FormLabel,
+  HStack,
+  Input,
+  Modal,
+  ModalBody,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+  ModalOverlay,
+  Progress,
+  Select,
+  Table,
+  Tbody,
+  Td,
+  Text,
+  Th,
+  Thead,
+  Tr,
+  VStack,
+} from '@chakra-ui/react';
+import { csrfFetch } from '@/lib/utils/csrf-client';
+import {
+  MAX_IMPORT_BYTES,
+  type ExplorerImportFormat,
+  type ExplorerImportMode,
+  type ImportColumnMapping,
+  type ImportRowError,
+  type ImportTableColumn,
+} from '@/lib/services/explorer-import';
+
+interface ImportPreview {
+  format: ExplorerImportFormat;
+  fileColumns: string[];
+  rows: Record<string, unknown>[];
+  totalRows: number;
+  parseErrors: ImportRowError[];
+  columns: ImportTableColumn[];
+  primaryKey: string[];
+  mapping: ImportColumnMapping;
+}
+
+interface ImportProgress {
+  total: number;
+  processed: number;
+  written: number;
+  failed: number;
+}
+
+interface ImportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  connectionId: string;
+  connectionName: string;
+  tableName: string;
+  isProduction: boolean;
+  // Called once an import has finished, with the number of rows written
+  onImported: (written: number) => void;
+}
+
+const formatPreviewValue = (value: unknown): string => {
+  if (value === null || value === undefined) return 'NULL';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+/**
+ * Imports a CSV or NDJSON file into a table: upload for a preview, map file
+ * columns to table columns, then watch the rows being written with per-row
+ * errors as they come in
+ */
+export default function ImportDialog({
+  isOpen,
+  onClose,
+  connectionId,
+  connectionName,
+  tableName,
+  isProduction,
+  onImported,
+}: ImportDialogProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [mapping, setMapping] = useState<ImportColumnMapping>({});
+  const [mode, setMode] = useState<ExplorerImportMode>('insert');
+  const [confirmText, setConfirmText] = useState('');
+  const [isLoadingPreview, setIsLoadingPreview] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [progress, setProgress] = useState<ImportProgress | null>(null);
+  const [rowErrors, setRowErrors] = useState<ImportRowError[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const baseUrl = `/api/explorer/${connectionId}/${encodeURIComponent(tableName)}/import`;
+  const hasStarted = progress !== null;
+  const canImport = preview !== null &&
+    Object.keys(mapping).length > 0 &&
+    (!isProduction || confirmText === connectionName);
+
+  const reset = () => {
+    setFile(null);
+    setPreview(null);
+    setMapping({});
+    setMode('insert');
+    setConfirmText('');
+    setProgress(null);
+    setRowErrors([]);
+    setError(null);
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const loadPreview = async (selected: File) => {
+    reset();
+    setFile(selected);
+
+    if (selected.size > MAX_IMPORT_BYTES) {
+      setError(`Files can be at most ${MAX_IMPORT_BYTES / 1024 / 1024}MB`);
+      return;
+    }
+
+    setIsLoadingPreview(true);
+    try {
+      const form = new FormData();
+      form.append('file', selected);
+
+      const res = await csrfFetch(`${baseUrl}/preview`, { method: 'POST', body: form });
+      const data = await res.json();
+
+      if (data.success) {
+        setPreview(data.data);
+        setMapping(data.data.mapping);
+      } else {
+        setError(data.error || 'The file could not be read');
+      }
+    } catch {
+      setError('The file could not be read');
+    } finally {
+      setIsLoadingPreview(false);
+    }
+  };
+
+  const setTarget = (fileColumn: string, target: string) => {
+    const next = { ...mapping };
+    if (target) {
+      next[fileColumn] = target;
+    } else {
+      delete next[fileColumn];
+    }
+    setMapping(next);
+  };
+
+  const handleEvent = (event: Record<string, unknown>) => {
+    if (event.type === 'start') {
+      setProgress({ total: event.total as number, processed: 0, written: 0, failed: 0 });
+    } else if (event.type === 'progress' || event.type === 'complete') {
+      setProgress((current) => ({
+        total: current?.total ?? 0,
+        processed: event.processed as number,
+        written: event.written as number,
+        failed: event.failed as number,
+      }));
+      if (event.type === 'progress') {
+        setRowErrors((current) => [...current, ...(event.errors as ImportRowError[])]);
+      } else {
+        onImported(event.written as number);
+      }
+    } else if (event.type === 'error') {
+      setError(event.error as string);
+    }
+  };
+
+  const runImport = async () => {
+    if (!file || !canImport) return;
+
+    setIsImporting(true);
+    setError(null);
+    setRowErrors([]);
+
+    try {
+      const form = new FormData();
+      form.append('file', file);
+      form.append('mode', mode);
+      form.append('mapping', JSON.stringify(mapping));
+
+      const res = await csrfFetch(baseUrl, {
+        method: 'POST',
+        headers: isProduction ? { 'X-Confirm-Production': 'true' } : undefined,
+        body: form,
+      });
+
+      if (!res.headers.get('content-type')?.includes('text/event-stream')) {
+        const data = await res.json();
+        setError(data.error || 'Import failed');
+        return;
+      }
+
+      const reader = res.body?.getReader();
+      if (!reader) return;
+
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const messages = buffer.split('\n\n');
+        buffer = messages.pop() ?? '';
+
+        for (const message of messages) {
+          if (message.startsWith('data: ')) {
+            try {
+              handleEvent(JSON.parse(message.slice(6)));
+            } catch {
+              // Ignore malformed events
+            }
+          }
+        }
+      }
+    } catch {
+      setError('Import failed');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const targetColumns = preview?.columns.filter((c) => !c.isGenerated) ?? [];
+  const usedTargets = new Set(Object.values(mapping));
+
+  return (
+    <Modal isOpen={isOpen} onClose={isImporting ? () => undefined : handleClose} size="4xl" isCentered>
+      <ModalOverlay bg="blackAlpha.700" backdropFilter="blur(4px)" />
+      <ModalContent bg="surface.800" borderColor="surface.700" borderWidth="1px">
+        <ModalHeader color="white">
+          Import into <Text as="span" fontFamily="mono">{tableName}</Text>
+        </ModalHeader>
+        <ModalBody>
+          <VStack spacing={4} align="stretch">
+            {!hasStarted && (
+              <FormControl>
+                <FormLabel color="surface.300" fontSize="sm">CSV (with a header row) or NDJSON file</FormLabel>
+                <Input
+                  type="file"
+                  accept=".csv,.ndjson,.jsonl,.json,text/csv,application/x-ndjson"
+                  size="sm"
+                  p={1}
+                  bg="surface.900"
+                  borderColor="surface.700"
+                  isDisabled={isLoadingPreview}
+                  onChange={(e) => {
+                    const selected = e.target.files?.[0];
+                    if (selected) loadPreview(selected);
+                  }}
+                />
+              </FormControl>
+            )}
+
+            {isLoadingPreview && (
+              <Progress size="xs" isIndeterminate colorScheme="teal" borderRadius="full" />
+            )}
+
+            {preview && !hasStarted && (
+              <>
+                <HStack spacing={4} align="end">
+                  <Text color="surface.400" fontSize="sm" flex={1}>
+                    {preview.totalRows.toLocaleString()} rows ({preview.format === 'csv' ? 'CSV' : 'NDJSON'}).
+                    Choose the table column for each file column; unmapped columns are skipped.
+                  </Text>
+                  <FormControl w="260px">
+                    <FormLabel color="surface.300" fontSize="sm">Mode</FormLabel>
+                    <Select
+                      size="sm"
+                      bg="surface.900"
+                      borderColor="surface.700"
+                      value={mode}
+                      onChange={(e) => setMode(e.target.value as ExplorerImportMode)}
+                    >
+                      <option value="insert">Insert new rows</option>
+                      <option value="upsert" disabled={preview.primaryKey.length === 0}>
+                        Upsert on primary key{preview.primaryKey.length === 0 ? ' (no primary key)' : ''}
+                      </option>
+                    </Select>
+                  </FormControl>
+                </HStack>
+
+                {preview.parseErrors.length > 0 && (
+                  <Alert status="warning" borderRadius="md">
+                    <AlertIcon />
+                    <AlertDescription fontSize="sm">
+                      {preview.parseErrors.length} row{preview.parseErrors.length === 1 ? '' : 's'} could not be
+                      read and will be reported as failed (first: row {preview.parseErrors[0].row},{' '}
+                      {preview.parseErrors[0].errors.join('; ')}).
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                <Box overflow="auto" maxH="340px" bg="surface.900" borderRadius="md">
+                  <Table size="sm">
+                    <Thead position="sticky" top={0} bg="surface.900" zIndex={1}>
+                      <Tr>
+                        {preview.fileColumns.map((fileColumn) => (
+                          <Th key={fileColumn} color="surface.300" borderColor="surface.700" textTransform="none">
+                            <Text fontFamily="mono" mb={1}>{fileColumn}</Text>
+                            <Select
+                              size="xs"
+                              minW="150px"
+                              bg="surface.800"
+                              borderColor={mapping[fileColumn] ? 'teal.600' : 'surface.700'}
+                              value={mapping[fileColumn] ?? ''}
+                              onChange={(e) => setTarget(fileColumn, e.target.value)}
+                            >
+                              <option value="">Skip</option>
+                              {targetColumns.map((col) => (
+                                <option
+                                  key={col.columnName}
+                                  value={col.columnName}
+                                  disabled={usedTargets.has(col.columnName) && mapping[fileColumn] !== col.columnName}
+                                >
+                                  {col.columnName} ({col.dataType})
+                                </option>
+                              ))}
+                            </Select>
+                          </Th>
+                        ))}
+                      </Tr>
+                    </Thead>
+                    <Tbody>
+                      {preview.rows.map((row, index) => (
+                        <Tr key={index}>
+                          {preview.fileColumns.map((fileColumn) => (
+                            <Td
+                              key={fileColumn}
+                              borderColor="surface.800"
+                              color={mapping[fileColumn] ? 'surface.200' : 'surface.500'}
+                              fontFamily="mono"
+                              fontSize="xs"
+                              maxW="240px"
+                              isTruncated
+                            >
+                              {formatPreviewValue(row[fileColumn])}
+                            </Td>
+                          ))}
+                        </Tr>
+                      ))}
+                    </Tbody>
+                  </Table>
+                </Box>
+
+                {isProduction && (
+                  <Box>
+                    <Alert status="error" borderRadius="md" bg="red.900" mb={3}>
+                      <AlertIcon />
+                      <AlertDescription fontSize="sm">
+                        Rows are written to <Badge colorScheme="red">PRODUCTION</Badge> in batches; rows written
+                        before an error stay written.
+                      </AlertDescription>
+                    </Alert>
+                    <Text color="surface.300" fontSize="sm" mb={2}>
+                      To confirm, type{' '}
+                      <Text as="span" color="red.400" fontWeight="bold" fontFamily="mono">{connectionName}</Text>
+                    </Text>
+                    <Input
+                      value={confirmText}
+                      onChange={(e) => setConfirmText(e.target.value)}
+                      placeholder={connectionName}
+                      bg="surface.900"
+                      borderColor={confirmText === connectionName ? 'green.500' : 'surface.600'}
+                      fontFamily="mono"
+                    />
+                  </Box>
+                )}
+              </>
+            )}
+
+            {progress && (
+              <Box bg="surface.900" p={4} borderRadius="md">
+                <Progress
+                  value={progress.total > 0 ? (progress.processed / progress.total) * 100 : 100}
+                  size="sm"
+                  colorScheme={progress.failed > 0 ? 'orange' : 'teal'}
+                  borderRadius="full"
+                  mb={3}
+                  isAnimated={isImporting}
+                  hasStripe={isImporting}
+                />
+                <HStack spacing={6}>
+                  <Text color="surface.300" fontSize="sm">
+                    {progress.processed.toLocaleString()} of {progress.total.toLocaleString()} rows
+                  </Text>
+                  <Text color="green.400" fontSize="sm">{progress.written.toLocaleString()} written</Text>
+                  <Text color={progress.failed > 0 ? 'red.400' : 'surface.400'} fontSize="sm">
+                    {progress.failed.toLocaleString()} failed
+                  </Text>
+                </HStack>
+              </Box>
+            )}
+
+            {rowErrors.length > 0 && (
+              <Box maxH="200px" overflowY="auto" bg="surface.900" p={3} borderRadius="md">
+                {rowErrors.map((rowError, index) => (
+                  <Text key={index} fontSize="xs" color="red.300" fontFamily="mono">
+                    Row {rowError.row}: {rowError.errors.join('; ')}
+                  </Text>
+                ))}
+                {progress && progress.failed > rowErrors.length && (
+                  <Text fontSize="xs" color="surface.400" mt={1}>
+                    …and {(progress.failed - rowErrors.length).toLocaleString()} more
+                  </Text>
+                )}
+              </Box>
+            )}
+
+            {error && (
+              <Alert status="error" borderRadius="md">
+                <AlertIcon />
+                <AlertDescription fontSize="sm">{error}</AlertDescription>
+              </Alert>
+            )}
+          </VStack>
+        </ModalBody>
+        <ModalFooter>
+          <HStack spacing={3}>
+            <Button variant="ghost" onClick={handleClose} isDisabled={isImporting}>
+              {hasStarted && !isImporting ? 'Close' : 'Cancel'}
+            </Button>
+            {(!hasStarted || isImporting) && (
+              <Button
+                colorScheme={isProduction ? 'red' : 'teal'}
+                onClick={runImport}
+                isDisabled={!canImport}
+                isLoading={isImporting}
+                loadingText="Importing"
+              >
+                Import {preview ? `${preview.totalRows.toLocaleString()} rows` : ''}
+              </Button>
+            )}
+          </HStack>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+}
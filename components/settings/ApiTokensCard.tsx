@@ -0,0 +1,363 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  Alert,
+  AlertIcon,
+  Badge,
+  Box,
+  Button,
+  Card,
+  CardBody,
+  CardHeader,
+  Checkbox,
+  Code,
+  Divider,
+  FormControl,
+  FormHelperText,
+  FormLabel,
+  Heading,
+  HStack,
+  Input,
+  NumberInput,
+  NumberInputField,
+  Select,
+  Spinner,
+  Text,
+  useToast,
+  VStack,
+} from '@chakra-ui/react';
+import { logger } from '@/lib/services/logger';
+import { csrfFetch } from '@/lib/utils/csrf-client';
+
+type ApiTokenScope = 'read' | 'sync' | 'admin';
+
+interface ApiToken {
+  id: string;
+  name: string;
+  token_prefix: string;
+  scopes: ApiTokenScope[];
+  rate_limit_per_minute: number;
+  expires_at: string | null;
+  last_used_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+const SCOPE_OPTIONS: { value: ApiTokenScope; label: string; description: string }[] = [
+  { value: 'read', label: 'Read', description: 'List connections and sync jobs, read their status and schemas' },
+  { value: 'sync', label: 'Sync', description: 'Create, start, pause and stop sync jobs (includes read)' },
+  { value: 'admin', label: 'Admin', description: 'Backend admin API, for the admin account only (includes sync)' },
+];
+
+const EXPIRY_OPTIONS = [
+  { value: '30', label: '30 days' },
+  { value: '90', label: '90 days' },
+  { value: '365', label: '1 year' },
+  { value: '', label: 'Never' },
+];
+
+const CopyIcon = () => (
+  <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+    <rect x="9" y="9" width="13" height="13" rx="2" ry="2"/>
+    <path d="M5 15H4a2 2 0 0 1-2-2V4a2 2 0 0 1 2-2h9a2 2 0 0 1 2 2v1"/>
+  </svg>
+);
+
+function formatDate(value: string | null): string {
+  return value ? new Date(value).toLocaleDateString() : 'Never';
+}
+
+function getTokenStatus(token: ApiToken): { label: string; colorScheme: string } {
+  if (token.revoked_at) return { label: 'Revoked', colorScheme: 'red' };
+  if (token.expires_at && new Date(token.expires_at) <= new Date()) {
+    return { label: 'Expired', colorScheme: 'orange' };
+  }
+  return { label: 'Active', colorScheme: 'green' };
+}
+
+/**
+ * Create, list and revoke personal access tokens for the sync API
+ */
+export default function ApiTokensCard() {
+  const toast = useToast();
+  const [tokens, setTokens] = useState<ApiToken[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isCreating, setIsCreating] = useState(false);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiTokenScope[]>(['read']);
+  const [expiresInDays, setExpiresInDays] = useState('90');
+  const [rateLimit, setRateLimit] = useState('60');
+  const [newToken, setNewToken] = useState<string | null>(null);
+
+  const fetchTokens = useCallback(async () => {
+    try {
+      const response = await fetch('/api/tokens');
+      const data = await response.json();
+      if (data.success) {
+        setTokens(data.data);
+      }
+    } catch (error) {
+      logger.error('Failed to fetch API tokens', { error });
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTokens();
+  }, [fetchTokens]);
+
+  const toggleScope = (scope: ApiTokenScope, checked: boolean) => {
+    setScopes((prev) => (checked ? [...prev, scope] : prev.filter((s) => s !== scope)));
+  };
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    try {
+      const response = await csrfFetch('/api/tokens', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name,
+          scopes,
+          expiresInDays: expiresInDays ? parseInt(expiresInDays, 10) : null,
+          rateLimitPerMinute: parseInt(rateLimit, 10) || 60,
+        }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setNewToken(data.data.token);
+        setName('');
+        setScopes(['read']);
+        fetchTokens();
+      } else {
+        toast({
+          title: 'Failed to create token',
+          description: data.error,
+          status: 'error',
+          duration: 5000,
+        });
+      }
+    } catch (error) {
+      logger.error('Failed to create API token', { error });
+      toast({
+        title: 'Failed to create token',
+        status: 'error',
+        duration: 3000,
+      });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async (token: ApiToken) => {
+    if (!window.confirm(`Revoke "${token.name}"? Anything using it will stop working immediately.`)) {
+      return;
+    }
+
+    setRevokingId(token.id);
+    try {
+      const response = await csrfFetch(`/api/tokens/${token.id}`, { method: 'DELETE' });
+      const data = await response.json();
+
+      if (data.success) {
+        toast({
+          title: 'Token revoked',
+          status: 'success',
+          duration: 2000,
+        });
+        fetchTokens();
+      } else {
+        toast({
+          title: 'Failed to revoke token',
+          description: data.error,
+          status: 'error',
+          duration: 5000,
+        });
+      }
+    } catch (error) {
+      logger.error('Failed to revoke API token', { error });
+      toast({
+        title: 'Failed to revoke token',
+        status: 'error',
+        duration: 3000,
+      });
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const copyNewToken = async () => {
+    if (!newToken) return;
+    await navigator.clipboard.writeText(newToken);
+    toast({
+      title: 'Token copied',
+      status: 'success',
+      duration: 2000,
+    });
+  };
+
+  return (
+    <Card bg="surface.800" borderColor="surface.700">
+      <CardHeader pb={0}>
+        <Heading size="sm" color="white">API Tokens</Heading>
+        <Text fontSize="sm" color="surface.400" mt={1}>
+          Personal access tokens for calling the sync API from scripts and CI pipelines.
+          Send them as <Code>Authorization: Bearer &lt;token&gt;</Code>.
+        </Text>
+      </CardHeader>
+      <CardBody>
+        <VStack spacing={5} align="stretch">
+          {newToken && (
+            <Alert status="success" borderRadius="md" bg="green.900" alignItems="flex-start">
+              <AlertIcon />
+              <VStack align="stretch" spacing={2} flex={1} minW={0}>
+                <Text fontSize="sm">
+                  Copy your new token now. It will not be shown again.
+                </Text>
+                <HStack>
+                  <Code bg="green.800" px={2} py={1} wordBreak="break-all" flex={1}>
+                    {newToken}
+                  </Code>
+                  <Button size="sm" leftIcon={<CopyIcon />} onClick={copyNewToken}>
+                    Copy
+                  </Button>
+                </HStack>
+                <Button size="xs" variant="link" alignSelf="flex-start" onClick={() => setNewToken(null)}>
+                  Done
+                </Button>
+              </VStack>
+            </Alert>
+          )}
+
+          {/* Token list */}
+          {isLoading ? (
+            <HStack justify="center" py={4}>
+              <Spinner size="sm" color="teal.400" />
+            </HStack>
+          ) : tokens.length === 0 ? (
+            <Text fontSize="sm" color="surface.400">No tokens yet.</Text>
+          ) : (
+            <VStack spacing={3} align="stretch">
+              {tokens.map((token) => {
+                const status = getTokenStatus(token);
+                return (
+                  <HStack
+                    key={token.id}
+                    justify="space-between"
+                    align="flex-start"
+                    p={3}
+                    borderWidth="1px"
+                    borderColor="surface.700"
+                    borderRadius="md"
+                  >
+                    <Box minW={0}>
+                      <HStack spacing={2} flexWrap="wrap">
+                        <Text color="white" fontWeight="medium">{token.name}</Text>
+                        <Badge colorScheme={status.colorScheme}>{status.label}</Badge>
+                        {token.scopes.map((scope) => (
+                          <Badge key={scope} variant="outline" colorScheme="teal">{scope}</Badge>
+                        ))}
+                      </HStack>
+                      <Text fontSize="xs" color="surface.400" mt={1}>
+                        <Code fontSize="xs">{token.token_prefix}…</Code>
+                        {' · '}{token.rate_limit_per_minute}/min
+                        {' · '}Created {formatDate(token.created_at)}
+                        {' · '}Last used {formatDate(token.last_used_at)}
+                        {' · '}Expires {formatDate(token.expires_at)}
+                      </Text>
+                    </Box>
+                    {!token.revoked_at && (
+                      <Button
+                        size="sm"
+                        colorScheme="red"
+                        variant="outline"
+                        onClick={() => handleRevoke(token)}
+                        isLoading={revokingId === token.id}
+                      >
+                        Revoke
+                      </Button>
+                    )}
+                  </HStack>
+                );
+              })}
+            </VStack>
+          )}
+
+          <Divider borderColor="surface.700" />
+
+          {/* Create form */}
+          <FormControl>
+            <FormLabel color="white">Token name</FormLabel>
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. GitHub Actions nightly sync"
+              bg="surface.900"
+              borderColor="surface.600"
+              maxLength={100}
+            />
+          </FormControl>
+
+          <FormControl>
+            <FormLabel color="white">Scopes</FormLabel>
+            <VStack align="stretch" spacing={2}>
+              {SCOPE_OPTIONS.map((option) => (
+                <Checkbox
+                  key={option.value}
+                  colorScheme="teal"
+                  isChecked={scopes.includes(option.value)}
+                  onChange={(e) => toggleScope(option.value, e.target.checked)}
+                >
+                  <Text as="span" color="white">{option.label}</Text>
+                  <Text as="span" fontSize="sm" color="surface.400"> - {option.description}</Text>
+                </Checkbox>
+              ))}
+            </VStack>
+          </FormControl>
+
+          <HStack spacing={4} align="flex-start">
+            <FormControl>
+              <FormLabel color="white">Expires</FormLabel>
+              <Select
+                value={expiresInDays}
+                onChange={(e) => setExpiresInDays(e.target.value)}
+                bg="surface.900"
+                borderColor="surface.600"
+              >
+                {EXPIRY_OPTIONS.map((option) => (
+                  <option key={option.label} value={option.value}>{option.label}</option>
+                ))}
+              </Select>
+            </FormControl>
+
+            <FormControl>
+              <FormLabel color="white">Rate limit</FormLabel>
+              <NumberInput
+                value={rateLimit}
+                onChange={(value) => setRateLimit(value)}
+                min={1}
+                max={1000}
+              >
+                <NumberInputField bg="surface.900" borderColor="surface.600" />
+              </NumberInput>
+              <FormHelperText color="surface.400">Requests per minute</FormHelperText>
+            </FormControl>
+          </HStack>
+
+          <Button
+            colorScheme="teal"
+            onClick={handleCreate}
+            isLoading={isCreating}
+            isDisabled={!name.trim() || scopes.length === 0}
+          >
+            Create Token
+          </Button>
+        </VStack>
+      </CardBody>
+    </Card>
+  );
+}
@@ -0,0 +1,219 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  Button,
+  Checkbox,
+  FormControl,
+  FormLabel,
+  HStack,
+  Input,
+  Modal,
+  ModalBody,
+  ModalCloseButton,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+  ModalOverlay,
+  Select,
+  Spinner,
+  Text,
+  Textarea,
+  VStack,
+  useToast,
+} from '@chakra-ui/react';
+import { csrfFetch } from '@/lib/utils/csrf-client';
+import type { SyncBackup } from '@/types/supabase';
+import type { Connection } from '@/components/connections/types';
+
+interface CreateSnapshotModalProps {
+  isOpen: boolean;
+  connections: Connection[];
+  onClose: () => void;
+  onCreated: (snapshot: SyncBackup) => void;
+}
+
+/**
+ * Name a snapshot and pick the connection and tables it covers
+ */
+export default function CreateSnapshotModal({ isOpen, connections, onClose, onCreated }: CreateSnapshotModalProps) {
+  const [connectionId, setConnectionId] = useState('');
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [availableTables, setAvailableTables] = useState<string[]>([]);
+  const [selectedTables, setSelectedTables] = useState<string[]>([]);
+  const [isLoadingTables, setIsLoadingTables] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const toast = useToast();
+
+  useEffect(() => {
+    if (!connectionId) {
+      setAvailableTables([]);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoadingTables(true);
+    setSelectedTables([]);
+
+    fetch(`/api/connections/${connectionId}/schema`)
+      .then((response) => response.json())
+      .then((data) => {
+        if (!cancelled && data.success) {
+          setAvailableTables(data.data.tables.map((table: { name: string }) => table.name));
+        }
+      })
+      .catch(() => {
+        // The table list is optional - without it the whole connection is captured
+        if (!cancelled) setAvailableTables([]);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoadingTables(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [connectionId]);
+
+  const toggleTable = (table: string) => {
+    setSelectedTables((current) =>
+      current.includes(table) ? current.filter((t) => t !== table) : [...current, table]
+    );
+  };
+
+  const reset = () => {
+    setConnectionId('');
+    setName('');
+    setDescription('');
+    setSelectedTables([]);
+  };
+
+  const create = async () => {
+    setIsCreating(true);
+
+    try {
+      const response = await csrfFetch('/api/snapshots', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          connectionId,
+          name,
+          description: description || undefined,
+          tables: selectedTables,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        toast({
+          title: 'Snapshot created',
+          description: `${data.data.row_count} rows from ${data.data.tables.length} tables`,
+          status: 'success',
+          duration: 4000,
+        });
+        reset();
+        onCreated(data.data);
+        onClose();
+      } else {
+        toast({ title: 'Failed to create snapshot', description: data.error, status: 'error', duration: 6000 });
+      }
+    } catch {
+      toast({ title: 'Failed to create snapshot', status: 'error', duration: 3000 });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size={{ base: 'full', md: 'lg' }} motionPreset="slideInBottom">
+      <ModalOverlay bg="blackAlpha.700" backdropFilter="blur(4px)" />
+      <ModalContent bg="bg.elevated" borderColor="border.default" mx={{ base: 0, md: 4 }} my={{ base: 0, md: 'auto' }}>
+        <ModalHeader color="text.primary" fontSize={{ base: 'md', md: 'lg' }}>
+          New Snapshot
+        </ModalHeader>
+        <ModalCloseButton />
+        <ModalBody>
+          <VStack spacing={4}>
+            <FormControl isRequired>
+              <FormLabel color="text.secondary">Connection</FormLabel>
+              <Select
+                placeholder="Select a connection"
+                value={connectionId}
+                onChange={(event) => setConnectionId(event.target.value)}
+              >
+                {connections.map((connection) => (
+                  <option key={connection.id} value={connection.id}>
+                    {connection.name} ({connection.environment})
+                  </option>
+                ))}
+              </Select>
+            </FormControl>
+
+            <FormControl isRequired>
+              <FormLabel color="text.secondary">Name</FormLabel>
+              <Input
+                placeholder="e.g., Before pricing migration"
+                value={name}
+                maxLength={100}
+                onChange={(event) => setName(event.target.value)}
+              />
+            </FormControl>
+
+            <FormControl>
+              <FormLabel color="text.secondary">Description</FormLabel>
+              <Textarea
+                value={description}
+                maxLength={500}
+                rows={2}
+                onChange={(event) => setDescription(event.target.value)}
+              />
+            </FormControl>
+
+            {connectionId && (
+              <FormControl>
+                <FormLabel color="text.secondary">Tables</FormLabel>
+                {isLoadingTables ? (
+                  <Spinner size="sm" color="accent.primary" />
+                ) : (
+                  <VStack align="stretch" spacing={1} maxH="200px" overflowY="auto">
+                    {availableTables.map((table) => (
+                      <Checkbox
+                        key={table}
+                        isChecked={selectedTables.includes(table)}
+                        onChange={() => toggleTable(table)}
+                      >
+                        <Text fontFamily="mono" fontSize="sm">{table}</Text>
+                      </Checkbox>
+                    ))}
+                  </VStack>
+                )}
+                <Text color="text.tertiary" fontSize="xs" mt={2}>
+                  {selectedTables.length === 0
+                    ? 'No tables selected - every table in the connection is captured'
+                    : `${selectedTables.length} table${selectedTables.length === 1 ? '' : 's'} selected`}
+                </Text>
+              </FormControl>
+            )}
+          </VStack>
+        </ModalBody>
+        <ModalFooter>
+          <HStack spacing={3}>
+            <Button variant="ghost" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button
+              onClick={create}
+              isLoading={isCreating}
+              loadingText="Capturing..."
+              isDisabled={!connectionId || !name.trim()}
+            >
+              Create Snapshot
+            </Button>
+          </HStack>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+}
@@ -0,0 +1,285 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  Badge,
+  Box,
+  Button,
+  Checkbox,
+  FormControl,
+  FormLabel,
+  HStack,
+  Input,
+  Modal,
+  ModalBody,
+  ModalCloseButton,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+  ModalOverlay,
+  Progress,
+  Select,
+  Text,
+  VStack,
+} from '@chakra-ui/react';
+import { csrfFetch } from '@/lib/utils/csrf-client';
+import type { SyncBackup } from '@/types/supabase';
+import type { Connection } from '@/components/connections/types';
+
+type TableStatus = 'pending' | 'restoring' | 'restored';
+
+interface TableProgress {
+  status: TableStatus;
+  rows: number;
+}
+
+const TABLE_STATUS_COLORS: Record<TableStatus, string> = {
+  pending: 'gray',
+  restoring: 'blue',
+  restored: 'green',
+};
+
+interface RestoreSnapshotModalProps {
+  snapshot: SyncBackup | null;
+  connections: Connection[];
+  onClose: () => void;
+  /** Called when a restore finishes, successfully or not */
+  onFinished: () => void;
+}
+
+/**
+ * Restore a snapshot into any connection, showing progress table by table
+ */
+export default function RestoreSnapshotModal({ snapshot, connections, onClose, onFinished }: RestoreSnapshotModalProps) {
+  const [targetId, setTargetId] = useState('');
+  const [selectedTables, setSelectedTables] = useState<string[]>([]);
+  const [confirmationInput, setConfirmationInput] = useState('');
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [progress, setProgress] = useState<Record<string, TableProgress>>({});
+  const [result, setResult] = useState<{ rowsRestored?: number; error?: string } | null>(null);
+
+  useEffect(() => {
+    if (snapshot) {
+      setTargetId(snapshot.target_connection_id ?? '');
+      setSelectedTables(snapshot.tables);
+      setConfirmationInput('');
+      setProgress({});
+      setResult(null);
+    }
+  }, [snapshot]);
+
+  const target = connections.find((connection) => connection.id === targetId);
+  const isProduction = target?.environment === 'production';
+  const hasStarted = Object.keys(progress).length > 0 || result !== null;
+
+  const toggleTable = (table: string) => {
+    setSelectedTables((current) =>
+      current.includes(table) ? current.filter((t) => t !== table) : [...current, table]
+    );
+  };
+
+  const handleEvent = (event: Record<string, unknown>) => {
+    if (event.type === 'start') {
+      const tables = event.tables as string[];
+      setProgress(Object.fromEntries(tables.map((table) => [table, { status: 'pending', rows: 0 }])));
+    } else if (event.type === 'table') {
+      const table = event.currentTable as string;
+      setProgress((current) => ({
+        ...current,
+        [table]: { status: event.tableStatus as TableStatus, rows: event.tableRowsRestored as number },
+      }));
+    } else if (event.type === 'complete') {
+      setResult({ rowsRestored: event.rowsRestored as number });
+    } else if (event.type === 'error') {
+      setResult({ error: event.error as string });
+    }
+  };
+
+  const restore = async () => {
+    if (!snapshot) return;
+
+    setIsRestoring(true);
+    setProgress({});
+    setResult(null);
+
+    try {
+      const response = await csrfFetch(`/api/snapshots/${snapshot.id}/restore`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          targetConnectionId: targetId,
+          tables: selectedTables.length === snapshot.tables.length ? [] : selectedTables,
+          confirmationPhrase: isProduction ? confirmationInput : undefined,
+        }),
+      });
+
+      if (!response.headers.get('content-type')?.includes('text/event-stream')) {
+        const data = await response.json();
+        setResult({ error: data.error || 'Restore failed' });
+        return;
+      }
+
+      const reader = response.body?.getReader();
+      if (!reader) return;
+
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const messages = buffer.split('\n\n');
+        buffer = messages.pop() ?? '';
+
+        for (const message of messages) {
+          if (message.startsWith('data: ')) {
+            try {
+              handleEvent(JSON.parse(message.slice(6)));
+            } catch {
+              // Ignore malformed events
+            }
+          }
+        }
+      }
+    } catch {
+      setResult({ error: 'Restore failed' });
+    } finally {
+      setIsRestoring(false);
+      onFinished();
+    }
+  };
+
+  const progressValues = Object.values(progress);
+  const restoredCount = progressValues.filter((p) => p.status === 'restored').length;
+
+  return (
+    <Modal
+      isOpen={snapshot !== null}
+      onClose={isRestoring ? () => undefined : onClose}
+      size={{ base: 'full', md: 'lg' }}
+      motionPreset="slideInBottom"
+    >
+      <ModalOverlay bg="blackAlpha.700" backdropFilter="blur(4px)" />
+      <ModalContent bg="bg.elevated" borderColor="border.default" mx={{ base: 0, md: 4 }} my={{ base: 0, md: 'auto' }}>
+        <ModalHeader color="text.primary" fontSize={{ base: 'md', md: 'lg' }}>
+          Restore &ldquo;{snapshot?.name}&rdquo;
+        </ModalHeader>
+        {!isRestoring && <ModalCloseButton />}
+        <ModalBody>
+          {!hasStarted ? (
+            <VStack spacing={4}>
+              <FormControl isRequired>
+                <FormLabel color="text.secondary">Restore into</FormLabel>
+                <Select
+                  placeholder="Select a connection"
+                  value={targetId}
+                  onChange={(event) => setTargetId(event.target.value)}
+                >
+                  {connections.map((connection) => (
+                    <option key={connection.id} value={connection.id}>
+                      {connection.name} ({connection.environment})
+                      {connection.id === snapshot?.target_connection_id ? ' - snapshot source' : ''}
+                    </option>
+                  ))}
+                </Select>
+              </FormControl>
+
+              <FormControl>
+                <FormLabel color="text.secondary">Tables</FormLabel>
+                <VStack align="stretch" spacing={1} maxH="200px" overflowY="auto">
+                  {snapshot?.tables.map((table) => (
+                    <Checkbox
+                      key={table}
+                      isChecked={selectedTables.includes(table)}
+                      onChange={() => toggleTable(table)}
+                    >
+                      <Text fontFamily="mono" fontSize="sm">{table}</Text>
+                    </Checkbox>
+                  ))}
+                </VStack>
+              </FormControl>
+
+              <Box w="full" p={4} bg="rgba(230, 51, 51, 0.18)" borderRadius="md" borderWidth="1px" borderColor="rgba(255, 161, 161, 0.4)">
+                <Text color="red.100" fontSize="sm">
+                  <strong>Warning:</strong> The selected tables in {target?.name ?? 'the target'} are emptied and
+                  replaced with the snapshot&apos;s rows. Everything runs in one transaction.
+                </Text>
+              </Box>
+
+              {isProduction && (
+                <FormControl isRequired>
+                  <FormLabel color="text.secondary">Type &ldquo;{target?.name}&rdquo; to confirm</FormLabel>
+                  <Input
+                    value={confirmationInput}
+                    onChange={(event) => setConfirmationInput(event.target.value)}
+                  />
+                </FormControl>
+              )}
+            </VStack>
+          ) : (
+            <VStack align="stretch" spacing={3}>
+              {progressValues.length > 0 && (
+                <Progress
+                  value={(restoredCount / progressValues.length) * 100}
+                  size="sm"
+                  colorScheme={result?.error ? 'red' : 'green'}
+                  isIndeterminate={isRestoring && restoredCount === 0}
+                  borderRadius="full"
+                />
+              )}
+              {Object.entries(progress).map(([table, tableProgress]) => (
+                <HStack key={table} justify="space-between">
+                  <Text fontFamily="mono" fontSize="sm" color="text.primary">{table}</Text>
+                  <HStack spacing={2}>
+                    {tableProgress.status !== 'pending' && (
+                      <Text fontSize="xs" color="text.tertiary">{tableProgress.rows} rows</Text>
+                    )}
+                    <Badge colorScheme={TABLE_STATUS_COLORS[tableProgress.status]} fontSize="xs">
+                      {tableProgress.status}
+                    </Badge>
+                  </HStack>
+                </HStack>
+              ))}
+              {result?.rowsRestored !== undefined && (
+                <Text color="green.300" fontSize="sm">
+                  Restore complete: {result.rowsRestored} rows restored.
+                </Text>
+              )}
+              {result?.error && (
+                <Text color="red.300" fontSize="sm">
+                  Restore failed and was rolled back: {result.error}
+                </Text>
+              )}
+            </VStack>
+          )}
+        </ModalBody>
+        <ModalFooter>
+          {!hasStarted ? (
+            <HStack spacing={3}>
+              <Button variant="ghost" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button
+                colorScheme="red"
+                onClick={restore}
+                isDisabled={
+                  !targetId ||
+                  selectedTables.length === 0 ||
+                  (isProduction && confirmationInput !== target?.name)
+                }
+              >
+                Restore
+              </Button>
+            </HStack>
+          ) : (
+            <Button onClick={onClose} isDisabled={isRestoring}>
+              Close
+            </Button>
+          )}
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+}
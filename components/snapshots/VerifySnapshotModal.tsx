@@ -0,0 +1,172 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  Badge,
+  Box,
+  Button,
+  FormControl,
+  FormHelperText,
+  FormLabel,
+  HStack,
+  Modal,
+  ModalBody,
+  ModalCloseButton,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+  ModalOverlay,
+  Select,
+  Text,
+  VStack,
+} from '@chakra-ui/react';
+import { csrfFetch } from '@/lib/utils/csrf-client';
+import type { BackupVerification } from '@/lib/services/backup-service';
+import type { SyncBackup } from '@/types/supabase';
+import type { Connection } from '@/components/connections/types';
+
+interface VerifySnapshotModalProps {
+  snapshot: SyncBackup | null;
+  connections: Connection[];
+  onClose: () => void;
+  onVerified: (snapshot: SyncBackup) => void;
+}
+
+/**
+ * Verify a snapshot's (or pre-sync backup's) integrity, optionally rehearsing
+ * its restore, and show the last result table by table
+ */
+export default function VerifySnapshotModal({ snapshot, connections, onClose, onVerified }: VerifySnapshotModalProps) {
+  const [rehearsalConnectionId, setRehearsalConnectionId] = useState('');
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (snapshot) {
+      setRehearsalConnectionId(snapshot.target_connection_id ?? '');
+      setError(null);
+    }
+  }, [snapshot]);
+
+  const verification = snapshot?.verification as BackupVerification | null | undefined;
+
+  const verify = async () => {
+    if (!snapshot) return;
+
+    setIsVerifying(true);
+    setError(null);
+
+    try {
+      const endpoint = snapshot.kind === 'pre_sync' ? 'backups' : 'snapshots';
+      const response = await csrfFetch(`/api/${endpoint}/${snapshot.id}/verify`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rehearsalConnectionId: rehearsalConnectionId || undefined }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        onVerified(data.data);
+      } else {
+        setError(data.error || 'Verification failed');
+      }
+    } catch {
+      setError('Verification failed');
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={snapshot !== null}
+      onClose={isVerifying ? () => undefined : onClose}
+      size={{ base: 'full', md: 'lg' }}
+      motionPreset="slideInBottom"
+    >
+      <ModalOverlay bg="blackAlpha.700" backdropFilter="blur(4px)" />
+      <ModalContent bg="bg.elevated" borderColor="border.default" mx={{ base: 0, md: 4 }} my={{ base: 0, md: 'auto' }}>
+        <ModalHeader color="text.primary" fontSize={{ base: 'md', md: 'lg' }}>
+          {snapshot?.name ? <>Verify &ldquo;{snapshot.name}&rdquo;</> : 'Verify pre-sync backup'}
+        </ModalHeader>
+        {!isVerifying && <ModalCloseButton />}
+        <ModalBody>
+          <VStack spacing={4} align="stretch">
+            <FormControl>
+              <FormLabel color="text.secondary">Rehearse restore on</FormLabel>
+              <Select
+                value={rehearsalConnectionId}
+                onChange={(event) => setRehearsalConnectionId(event.target.value)}
+                isDisabled={isVerifying}
+              >
+                <option value="">No rehearsal - checksums and parsing only</option>
+                {connections.map((connection) => (
+                  <option key={connection.id} value={connection.id}>
+                    {connection.name} ({connection.environment})
+                    {connection.id === snapshot?.target_connection_id ? ' - backup source' : ''}
+                  </option>
+                ))}
+              </Select>
+              <FormHelperText color="text.tertiary">
+                The rows are restored into a scratch schema and compared, then rolled back. Live tables are not
+                changed.
+              </FormHelperText>
+            </FormControl>
+
+            {verification && (
+              <Box>
+                <HStack spacing={2} mb={2}>
+                  <Badge colorScheme={verification.status === 'passed' ? 'green' : 'red'}>
+                    {verification.status}
+                  </Badge>
+                  <Text color="text.tertiary" fontSize="xs">
+                    {verification.rehearsal ? 'With rehearsal' : 'Without rehearsal'} ·{' '}
+                    {new Date(verification.verifiedAt).toLocaleString()}
+                  </Text>
+                </HStack>
+                <VStack align="stretch" spacing={2} maxH="300px" overflowY="auto">
+                  {verification.errors.map((message) => (
+                    <Text key={message} color="red.300" fontSize="sm">{message}</Text>
+                  ))}
+                  {verification.tables.map((table) => (
+                    <Box key={table.tableName}>
+                      <HStack justify="space-between">
+                        <Text fontFamily="mono" fontSize="sm" color="text.primary">{table.tableName}</Text>
+                        <HStack spacing={2}>
+                          <Text fontSize="xs" color="text.tertiary">
+                            {table.parsedRows} rows
+                            {table.rehearsalRows !== undefined && ` · ${table.rehearsalRows} rehearsed`}
+                          </Text>
+                          <Badge colorScheme={table.errors.length === 0 ? 'green' : 'red'} fontSize="xs">
+                            {table.errors.length === 0 ? 'ok' : 'failed'}
+                          </Badge>
+                        </HStack>
+                      </HStack>
+                      {table.errors.map((message) => (
+                        <Text key={message} color="red.300" fontSize="xs">{message}</Text>
+                      ))}
+                    </Box>
+                  ))}
+                </VStack>
+              </Box>
+            )}
+
+            {error && (
+              <Text color="red.300" fontSize="sm">{error}</Text>
+            )}
+          </VStack>
+        </ModalBody>
+        <ModalFooter>
+          <HStack spacing={3}>
+            <Button variant="ghost" onClick={onClose} isDisabled={isVerifying}>
+              Close
+            </Button>
+            <Button onClick={verify} isLoading={isVerifying} loadingText="Verifying">
+              {verification ? 'Verify again' : 'Verify'}
+            </Button>
+          </HStack>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+}
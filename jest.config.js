@@ -22,6 +22,8 @@ const customJestConfig = {
   // Module path aliases (matching tsconfig paths)
   moduleNameMapper: {
     '^@/(.*)$': '<rootDir>/$1',
+    // The backend's ESM imports name the compiled .js files
+    '^(\\.{1,2}/.*)\\.js$': '$1',
   },
   
   // Test file patterns
@@ -16,6 +16,8 @@ export const connections = pgTable('connections', {
   // Keep Alive feature - prevents Supabase from pausing inactive databases
   keepAlive: boolean('keep_alive').default(false).notNull(),
   lastPingedAt: timestamp('last_pinged_at', { withTimezone: true }),
+  // Schemas whose tables are listed, inspected and synced
+  schemas: text('schemas').array().default(['public']).notNull(),
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
   updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
 });
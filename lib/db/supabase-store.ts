@@ -11,9 +11,14 @@ import type {
   SyncJob,
   SyncLog,
   UserSettings,
+  ScheduledSync,
+  ApiToken,
+  SchemaMigration,
+  SyncBackup,
   Json
 } from '@/types/supabase';
 import { logger } from '@/lib/services/logger';
+import type { BackupVerification } from '@/lib/services/backup-service';
 
 // ============================================
 // Connection Store (Supabase)
@@ -65,6 +70,7 @@ export const supabaseConnectionStore = {
     name: string;
     encryptedUrl: string;
     environment: 'production' | 'development';
+    schemas?: string[];
   }): Promise<Connection> {
     const supabase = await createClient();
     
@@ -73,6 +79,7 @@ export const supabaseConnectionStore = {
       name: data.name,
       encrypted_url: data.encryptedUrl,
       environment: data.environment,
+      ...(data.schemas && { schemas: data.schemas }),
     };
     
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -94,6 +101,7 @@ export const supabaseConnectionStore = {
     name: string;
     encryptedUrl: string;
     environment: 'production' | 'development';
+    schemas: string[];
   }>): Promise<Connection | null> {
     const supabase = await createClient();
     
@@ -101,6 +109,7 @@ export const supabaseConnectionStore = {
       ...(data.name && { name: data.name }),
       ...(data.encryptedUrl && { encrypted_url: data.encryptedUrl }),
       ...(data.environment && { environment: data.environment }),
+      ...(data.schemas && { schemas: data.schemas }),
       updated_at: new Date().toISOString(),
     };
     
@@ -550,6 +559,614 @@ export const supabaseUserSettingsStore = {
   },
 };
 
+// ============================================
+// Scheduled Sync Store (Supabase)
+// ============================================
+
+export const supabaseScheduledSyncStore = {
+  async getAll(userId: string): Promise<ScheduledSync[]> {
+    const supabase = await createClient();
+    
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data, error } = await (supabase as any)
+      .from('scheduled_syncs')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+    
+    if (error) {
+      logger.error('Error fetching scheduled syncs', error);
+      throw new Error(`Failed to fetch scheduled syncs: ${error.message}`);
+    }
+    
+    return data || [];
+  },
+  
+  async getById(id: string, userId: string): Promise<ScheduledSync | null> {
+    const supabase = await createClient();
+    
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data, error } = await (supabase as any)
+      .from('scheduled_syncs')
+      .select('*')
+      .eq('id', id)
+      .eq('user_id', userId)
+      .single();
+    
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return null;
+      }
+      logger.error('Error fetching scheduled sync', error);
+      throw new Error(`Failed to fetch scheduled sync: ${error.message}`);
+    }
+    
+    return data;
+  },
+  
+  async create(userId: string, data: {
+    name: string;
+    sourceConnectionId: string;
+    targetConnectionId: string;
+    direction: 'one_way' | 'two_way';
+    tablesConfig: unknown[];
+    cronExpression: string;
+    timezone: string;
+    enabled: boolean;
+    nextRunAt: Date | null;
+  }): Promise<ScheduledSync> {
+    const supabase = await createClient();
+    
+    const insertData = {
+      user_id: userId,
+      name: data.name,
+      source_connection_id: data.sourceConnectionId,
+      target_connection_id: data.targetConnectionId,
+      direction: data.direction,
+      tables_config: data.tablesConfig as Json,
+      cron_expression: data.cronExpression,
+      timezone: data.timezone,
+      enabled: data.enabled,
+      next_run_at: data.nextRunAt?.toISOString() ?? null,
+    };
+    
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data: schedule, error } = await (supabase as any)
+      .from('scheduled_syncs')
+      .insert(insertData)
+      .select()
+      .single();
+    
+    if (error) {
+      logger.error('Error creating scheduled sync', error);
+      throw new Error(`Failed to create scheduled sync: ${error.message}`);
+    }
+    
+    return schedule;
+  },
+  
+  async update(id: string, userId: string, data: Partial<{
+    name: string;
+    tablesConfig: unknown[];
+    cronExpression: string;
+    timezone: string;
+    enabled: boolean;
+    nextRunAt: Date | null;
+  }>): Promise<ScheduledSync | null> {
+    const supabase = await createClient();
+    
+    const updateData = {
+      ...(data.name !== undefined && { name: data.name }),
+      ...(data.tablesConfig !== undefined && { tables_config: data.tablesConfig as Json }),
+      ...(data.cronExpression !== undefined && { cron_expression: data.cronExpression }),
+      ...(data.timezone !== undefined && { timezone: data.timezone }),
+      ...(data.enabled !== undefined && { enabled: data.enabled }),
+      ...(data.nextRunAt !== undefined && { next_run_at: data.nextRunAt?.toISOString() ?? null }),
+    };
+    
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data: schedule, error } = await (supabase as any)
+      .from('scheduled_syncs')
+      .update(updateData)
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select()
+      .single();
+    
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return null;
+      }
+      logger.error('Error updating scheduled sync', error);
+      throw new Error(`Failed to update scheduled sync: ${error.message}`);
+    }
+    
+    return schedule;
+  },
+  
+  async delete(id: string, userId: string): Promise<boolean> {
+    const supabase = await createClient();
+    
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { error, count } = await (supabase as any)
+      .from('scheduled_syncs')
+      .delete({ count: 'exact' })
+      .eq('id', id)
+      .eq('user_id', userId);
+    
+    if (error) {
+      logger.error('Error deleting scheduled sync', error);
+      return false;
+    }
+    
+    return (count ?? 0) > 0;
+  },
+};
+
+// ============================================
+// API Token Store (Supabase)
+// ============================================
+
+// Every column except the hash, which never leaves the database
+const API_TOKEN_COLUMNS = 'id, user_id, name, token_prefix, scopes, rate_limit_per_minute, expires_at, last_used_at, revoked_at, created_at';
+
+export type ApiTokenSummary = Omit<ApiToken, 'token_hash'>;
+
+export const supabaseApiTokenStore = {
+  async getAll(userId: string): Promise<ApiTokenSummary[]> {
+    const supabase = await createClient();
+    
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data, error } = await (supabase as any)
+      .from('api_tokens')
+      .select(API_TOKEN_COLUMNS)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+    
+    if (error) {
+      logger.error('Error fetching API tokens', error);
+      throw new Error(`Failed to fetch API tokens: ${error.message}`);
+    }
+    
+    return data || [];
+  },
+  
+  async countActive(userId: string): Promise<number> {
+    const supabase = await createClient();
+    
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { count, error } = await (supabase as any)
+      .from('api_tokens')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .is('revoked_at', null)
+      .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`);
+    
+    if (error) {
+      logger.error('Error counting API tokens', error);
+      throw new Error(`Failed to count API tokens: ${error.message}`);
+    }
+    
+    return count ?? 0;
+  },
+  
+  async create(userId: string, data: {
+    name: string;
+    tokenPrefix: string;
+    tokenHash: string;
+    scopes: ApiToken['scopes'];
+    rateLimitPerMinute: number;
+    expiresAt: Date | null;
+  }): Promise<ApiTokenSummary> {
+    const supabase = await createClient();
+    
+    const insertData = {
+      user_id: userId,
+      name: data.name,
+      token_prefix: data.tokenPrefix,
+      token_hash: data.tokenHash,
+      scopes: data.scopes,
+      rate_limit_per_minute: data.rateLimitPerMinute,
+      expires_at: data.expiresAt?.toISOString() ?? null,
+    };
+    
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data: token, error } = await (supabase as any)
+      .from('api_tokens')
+      .insert(insertData)
+      .select(API_TOKEN_COLUMNS)
+      .single();
+    
+    if (error) {
+      logger.error('Error creating API token', error);
+      throw new Error(`Failed to create API token: ${error.message}`);
+    }
+    
+    return token;
+  },
+  
+  async revoke(id: string, userId: string): Promise<ApiTokenSummary | null> {
+    const supabase = await createClient();
+    
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data: token, error } = await (supabase as any)
+      .from('api_tokens')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('user_id', userId)
+      .is('revoked_at', null)
+      .select(API_TOKEN_COLUMNS)
+      .single();
+    
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return null;
+      }
+      logger.error('Error revoking API token', error);
+      throw new Error(`Failed to revoke API token: ${error.message}`);
+    }
+    
+    return token;
+  },
+};
+
+// ============================================
+// Schema Migration Ledger Store (Supabase)
+// ============================================
+
+export const supabaseSchemaMigrationStore = {
+  async getByTarget(targetConnectionId: string, userId: string, limit = 50): Promise<SchemaMigration[]> {
+    const supabase = await createClient();
+    
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data, error } = await (supabase as any)
+      .from('schema_migrations')
+      .select('*')
+      .eq('target_connection_id', targetConnectionId)
+      .eq('user_id', userId)
+      .order('applied_at', { ascending: false })
+      .limit(limit);
+    
+    if (error) {
+      logger.error('Error fetching schema migrations', error);
+      throw new Error(`Failed to fetch schema migrations: ${error.message}`);
+    }
+    
+    return data || [];
+  },
+  
+  async getById(id: string, userId: string): Promise<SchemaMigration | null> {
+    const supabase = await createClient();
+    
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data, error } = await (supabase as any)
+      .from('schema_migrations')
+      .select('*')
+      .eq('id', id)
+      .eq('user_id', userId)
+      .single();
+    
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return null;
+      }
+      logger.error('Error fetching schema migration', error);
+      throw new Error(`Failed to fetch schema migration: ${error.message}`);
+    }
+    
+    return data;
+  },
+  
+  async create(userId: string, data: {
+    sourceConnectionId: string;
+    targetConnectionId: string;
+    tables: string[];
+    checksum: string;
+    script: string;
+    rollbackScript: string;
+  }): Promise<SchemaMigration> {
+    const supabase = await createClient();
+    
+    const insertData = {
+      user_id: userId,
+      source_connection_id: data.sourceConnectionId,
+      target_connection_id: data.targetConnectionId,
+      tables: data.tables,
+      checksum: data.checksum,
+      script: data.script,
+      rollback_script: data.rollbackScript,
+      status: 'applying',
+    };
+    
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data: migration, error } = await (supabase as any)
+      .from('schema_migrations')
+      .insert(insertData)
+      .select()
+      .single();
+    
+    if (error) {
+      logger.error('Error creating schema migration', error);
+      throw new Error(`Failed to create schema migration: ${error.message}`);
+    }
+    
+    return migration;
+  },
+  
+  async update(id: string, userId: string, data: Partial<{
+    status: SchemaMigration['status'];
+    results: unknown[];
+    error: string | null;
+    verification: unknown;
+    rollbackScript: string;
+    finishedAt: Date;
+    rolledBackAt: Date;
+    rollbackError: string | null;
+  }>): Promise<SchemaMigration | null> {
+    const supabase = await createClient();
+    
+    const updateData = {
+      ...(data.status !== undefined && { status: data.status }),
+      ...(data.results !== undefined && { results: data.results as Json }),
+      ...(data.error !== undefined && { error: data.error }),
+      ...(data.verification !== undefined && { verification: data.verification as Json }),
+      ...(data.rollbackScript !== undefined && { rollback_script: data.rollbackScript }),
+      ...(data.finishedAt !== undefined && { finished_at: data.finishedAt.toISOString() }),
+      ...(data.rolledBackAt !== undefined && { rolled_back_at: data.rolledBackAt.toISOString() }),
+      ...(data.rollbackError !== undefined && { rollback_error: data.rollbackError }),
+    };
+    
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data: migration, error } = await (supabase as any)
+      .from('schema_migrations')
+      .update(updateData)
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select()
+      .single();
+    
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return null;
+      }
+      logger.error('Error updating schema migration', error);
+      throw new Error(`Failed to update schema migration: ${error.message}`);
+    }
+    
+    return migration;
+  },
+};
+
+// ============================================
+// Snapshot Store (Supabase)
+// ============================================
+
+export const supabaseSnapshotStore = {
+  async getAll(userId: string): Promise<SyncBackup[]> {
+    const supabase = await createClient();
+    
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data, error } = await (supabase as any)
+      .from('sync_backups')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('kind', 'snapshot')
+      .is('deleted_at', null)
+      .order('created_at', { ascending: false });
+    
+    if (error) {
+      logger.error('Error fetching snapshots', error);
+      throw new Error(`Failed to fetch snapshots: ${error.message}`);
+    }
+    
+    return data || [];
+  },
+  
+  async getById(id: string, userId: string): Promise<SyncBackup | null> {
+    const supabase = await createClient();
+    
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data, error } = await (supabase as any)
+      .from('sync_backups')
+      .select('*')
+      .eq('id', id)
+      .eq('user_id', userId)
+      .eq('kind', 'snapshot')
+      .is('deleted_at', null)
+      .single();
+    
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return null;
+      }
+      logger.error('Error fetching snapshot', error);
+      throw new Error(`Failed to fetch snapshot: ${error.message}`);
+    }
+    
+    return data;
+  },
+  
+  async create(userId: string, data: {
+    id: string;
+    connectionId: string;
+    name: string;
+    description?: string;
+    tables: string[];
+    backupPath: string;
+    storageAdapter: string;
+  }): Promise<SyncBackup> {
+    const supabase = await createClient();
+    
+    const insertData = {
+      id: data.id,
+      user_id: userId,
+      kind: 'snapshot',
+      target_connection_id: data.connectionId,
+      name: data.name,
+      description: data.description ?? null,
+      tables: data.tables,
+      backup_path: data.backupPath,
+      storage_adapter: data.storageAdapter,
+      status: 'creating',
+    };
+    
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data: snapshot, error } = await (supabase as any)
+      .from('sync_backups')
+      .insert(insertData)
+      .select()
+      .single();
+    
+    if (error) {
+      logger.error('Error creating snapshot', error);
+      throw new Error(`Failed to create snapshot: ${error.message}`);
+    }
+    
+    return snapshot;
+  },
+  
+  async update(id: string, userId: string, data: Partial<{
+    status: SyncBackup['status'];
+    sizeBytes: number;
+    rowCount: number;
+    tableRowCounts: Record<string, number>;
+    error: string | null;
+    completedAt: Date;
+    restoredAt: Date;
+    restoredConnectionId: string;
+    verification: BackupVerification;
+  }>): Promise<SyncBackup | null> {
+    const supabase = await createClient();
+    
+    const updateData = {
+      ...(data.status !== undefined && { status: data.status }),
+      ...(data.sizeBytes !== undefined && { size_bytes: data.sizeBytes }),
+      ...(data.rowCount !== undefined && { row_count: data.rowCount }),
+      ...(data.tableRowCounts !== undefined && { table_row_counts: data.tableRowCounts as Json }),
+      ...(data.error !== undefined && { error: data.error }),
+      ...(data.completedAt !== undefined && { completed_at: data.completedAt.toISOString() }),
+      ...(data.restoredAt !== undefined && { restored_at: data.restoredAt.toISOString() }),
+      ...(data.restoredConnectionId !== undefined && { restored_connection_id: data.restoredConnectionId }),
+      ...(data.verification !== undefined && {
+        verification: data.verification as unknown as Json,
+        verified_at: data.verification.verifiedAt,
+      }),
+    };
+    
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data: snapshot, error } = await (supabase as any)
+      .from('sync_backups')
+      .update(updateData)
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select()
+      .single();
+    
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return null;
+      }
+      logger.error('Error updating snapshot', error);
+      throw new Error(`Failed to update snapshot: ${error.message}`);
+    }
+    
+    return snapshot;
+  },
+  
+  async delete(id: string, userId: string): Promise<void> {
+    const supabase = await createClient();
+    
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { error } = await (supabase as any)
+      .from('sync_backups')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', userId)
+      .eq('kind', 'snapshot');
+    
+    if (error) {
+      logger.error('Error deleting snapshot', error);
+      throw new Error(`Failed to delete snapshot: ${error.message}`);
+    }
+  },
+};
+
+// ============================================
+// Pre-Sync Backup Store (Supabase)
+// ============================================
+
+export const supabaseBackupStore = {
+  async getAll(userId: string, limit = 50): Promise<SyncBackup[]> {
+    const supabase = await createClient();
+    
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data, error } = await (supabase as any)
+      .from('sync_backups')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('kind', 'pre_sync')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+    
+    if (error) {
+      logger.error('Error fetching backups', error);
+      throw new Error(`Failed to fetch backups: ${error.message}`);
+    }
+    
+    return data || [];
+  },
+  
+  async getById(id: string, userId: string): Promise<SyncBackup | null> {
+    const supabase = await createClient();
+    
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data, error } = await (supabase as any)
+      .from('sync_backups')
+      .select('*')
+      .eq('id', id)
+      .eq('user_id', userId)
+      .eq('kind', 'pre_sync')
+      .single();
+    
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return null;
+      }
+      logger.error('Error fetching backup', error);
+      throw new Error(`Failed to fetch backup: ${error.message}`);
+    }
+    
+    return data;
+  },
+  
+  async updateVerification(id: string, userId: string, verification: BackupVerification): Promise<SyncBackup | null> {
+    const supabase = await createClient();
+    
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data: backup, error } = await (supabase as any)
+      .from('sync_backups')
+      .update({
+        verification: verification as unknown as Json,
+        verified_at: verification.verifiedAt,
+      })
+      .eq('id', id)
+      .eq('user_id', userId)
+      .eq('kind', 'pre_sync')
+      .select()
+      .single();
+    
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return null;
+      }
+      logger.error('Error updating backup', error);
+      throw new Error(`Failed to update backup: ${error.message}`);
+    }
+    
+    return backup;
+  },
+};
+
 // ============================================
 // Helper Functions
 // ============================================
@@ -0,0 +1,77 @@
+/**
+ * Virtual Rows Hook
+ *
+ * Windowing for long lists of fixed-height rows: only the rows in and just
+ * around the scroll viewport are rendered, with spacer heights standing in
+ * for the rest. Calls onEndReached as the viewport nears the last row so
+ * the next page can be loaded (infinite scrolling).
+ */
+
+import { useState, useEffect, useCallback, useRef, type UIEvent } from 'react';
+
+interface VirtualRowsOptions {
+  count: number;
+  rowHeight: number;
+  // Rows rendered above and below the viewport
+  overscan?: number;
+  // How close to the last row onEndReached fires
+  endThreshold?: number;
+  onEndReached?: () => void;
+}
+
+export function useVirtualRows({
+  count,
+  rowHeight,
+  overscan = 10,
+  endThreshold = 20,
+  onEndReached,
+}: VirtualRowsOptions) {
+  // Callback ref: the scroll container may mount after the hook, e.g. once data has loaded
+  const [container, containerRef] = useState<HTMLDivElement | null>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(600);
+
+  // Latest callback without re-running the end check when it changes
+  const onEndReachedRef = useRef(onEndReached);
+  useEffect(() => {
+    onEndReachedRef.current = onEndReached;
+  }, [onEndReached]);
+
+  useEffect(() => {
+    if (!container) return;
+
+    const observer = new ResizeObserver(() => setViewportHeight(container.clientHeight));
+    observer.observe(container);
+    setViewportHeight(container.clientHeight);
+    setScrollTop(container.scrollTop);
+    return () => observer.disconnect();
+  }, [container]);
+
+  const onScroll = useCallback((event: UIEvent<HTMLElement>) => {
+    setScrollTop(event.currentTarget.scrollTop);
+  }, []);
+
+  const scrollToTop = useCallback(() => {
+    container?.scrollTo({ top: 0 });
+    setScrollTop(0);
+  }, [container]);
+
+  const start = Math.max(0, Math.floor(scrollTop / rowHeight) - overscan);
+  const end = Math.min(count, Math.ceil((scrollTop + viewportHeight) / rowHeight) + overscan);
+
+  useEffect(() => {
+    if (count > 0 && end >= count - endThreshold) {
+      onEndReachedRef.current?.();
+    }
+  }, [end, count, endThreshold]);
+
+  return {
+    containerRef,
+    onScroll,
+    scrollToTop,
+    start,
+    end,
+    paddingTop: start * rowHeight,
+    paddingBottom: (count - end) * rowHeight,
+  };
+}
@@ -0,0 +1,53 @@
+/**
+ * API Token Tests
+ *
+ * Tests for personal access token generation, hashing and scopes.
+ */
+
+import {
+  API_TOKEN_PREFIX,
+  generateApiToken,
+  hashApiToken,
+  hasApiTokenScope,
+  isApiToken,
+} from '../api-tokens';
+
+describe('API Tokens', () => {
+  describe('generateApiToken', () => {
+    it('should generate prefixed tokens with a matching hash', () => {
+      const { token, prefix, hash } = generateApiToken();
+
+      expect(token.startsWith(API_TOKEN_PREFIX)).toBe(true);
+      expect(token.startsWith(prefix)).toBe(true);
+      expect(prefix.length).toBeLessThanOrEqual(20);
+      expect(hash).toMatch(/^[0-9a-f]{64}$/);
+      expect(hashApiToken(token)).toBe(hash);
+    });
+
+    it('should generate unique tokens', () => {
+      expect(generateApiToken().token).not.toBe(generateApiToken().token);
+    });
+  });
+
+  describe('isApiToken', () => {
+    it('should tell API tokens from session JWTs', () => {
+      expect(isApiToken(generateApiToken().token)).toBe(true);
+      expect(isApiToken('eyJhbGciOiJIUzI1NiJ9.eyJzdWIiOiIxIn0.sig')).toBe(false);
+      expect(isApiToken(API_TOKEN_PREFIX)).toBe(false);
+      expect(isApiToken(null)).toBe(false);
+    });
+  });
+
+  describe('hasApiTokenScope', () => {
+    it('should let broader scopes imply narrower ones', () => {
+      expect(hasApiTokenScope(['admin'], 'sync')).toBe(true);
+      expect(hasApiTokenScope(['sync'], 'read')).toBe(true);
+      expect(hasApiTokenScope(['read'], 'sync')).toBe(false);
+      expect(hasApiTokenScope(['sync'], 'admin')).toBe(false);
+    });
+
+    it('should ignore unknown scopes', () => {
+      expect(hasApiTokenScope(['write'], 'read')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Backup Service Tests
+ *
+ * Tests for reading, verifying and removing chunked backups through local
+ * storage.
+ */
+
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { createHash } from 'crypto';
+import { gzipSync } from 'zlib';
+import {
+  hashRows,
+  readBackupChunk,
+  readBackupManifest,
+  removeBackupFiles,
+  verifyBackupFiles,
+} from '../backup-service';
+import { createLocalBackupStorage, type BackupStorageAdapter } from '../backup-storage';
+
+describe('Backup Service', () => {
+  const backupPath = 'user-1/2026-01-02/snapshots/abc';
+  const content = 'INSERT INTO "public"."users" ("id", "note") VALUES\n(1, \'a;\nb\');\n';
+  let rootDir: string;
+  let storage: BackupStorageAdapter;
+
+  const sha256 = (value: string | Buffer) => createHash('sha256').update(value).digest('hex');
+
+  const writeChunkedBackup = async (chunkContent = content) => {
+    const compressed = gzipSync(chunkContent);
+    const chunk = {
+      file: '0000-000000.sql.gz',
+      rowCount: 1,
+      sizeBytes: compressed.length,
+      sha256: sha256(compressed),
+    };
+
+    await storage.write(`${backupPath}/${chunk.file}`, compressed);
+    await storage.write(`${backupPath}/manifest.json`, JSON.stringify({
+      version: 2,
+      backupId: 'abc',
+      createdAt: '2026-01-02T00:00:00.000Z',
+      description: [],
+      compression: 'gzip',
+      tables: [{ tableName: 'users', columns: ['id', 'note'], rowCount: 1, sha256: sha256(chunkContent), chunks: [chunk] }],
+    }));
+
+    return chunk;
+  };
+
+  beforeEach(async () => {
+    rootDir = await mkdtemp(path.join(tmpdir(), 'backup-service-'));
+    storage = createLocalBackupStorage(rootDir);
+  });
+
+  afterEach(async () => {
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  it('should read the manifest and decompress chunks', async () => {
+    const chunk = await writeChunkedBackup();
+
+    const manifest = await readBackupManifest(storage, backupPath);
+    expect(manifest.tables[0].chunks).toEqual([chunk]);
+    expect(await readBackupChunk(storage, backupPath, chunk)).toBe(content);
+  });
+
+  it('should reject chunks that do not match their checksum', async () => {
+    const chunk = await writeChunkedBackup();
+    await storage.write(`${backupPath}/${chunk.file}`, gzipSync('DROP TABLE "users";'));
+
+    await expect(readBackupChunk(storage, backupPath, chunk)).rejects.toThrow('Checksum mismatch');
+  });
+
+  it('should reject unknown manifest versions', async () => {
+    await storage.write(`${backupPath}/manifest.json`, JSON.stringify({ version: 99 }));
+
+    await expect(readBackupManifest(storage, backupPath)).rejects.toThrow('Unsupported backup manifest version: 99');
+  });
+
+  it('should remove chunked and legacy backups', async () => {
+    await writeChunkedBackup();
+    await storage.write('user-1/legacy.sql', content);
+
+    await removeBackupFiles(storage, backupPath);
+    await removeBackupFiles(storage, 'user-1/legacy.sql');
+
+    await expect(readBackupManifest(storage, backupPath)).rejects.toThrow();
+    await expect(storage.read('user-1/legacy.sql')).rejects.toThrow();
+  });
+
+  it('should pass verification of an intact backup', async () => {
+    await writeChunkedBackup();
+
+    const verification = await verifyBackupFiles({ backupPath, storage, tables: ['users'], tableRowCounts: { users: 1 } });
+
+    expect(verification.status).toBe('passed');
+    expect(verification.rehearsal).toBe(false);
+    expect(verification.tables).toEqual([
+      { tableName: 'users', expectedRows: 1, parsedRows: 1, chunksVerified: 1, errors: [] },
+    ]);
+  });
+
+  it('should fail verification on row count mismatches and unexpected statements', async () => {
+    await writeChunkedBackup();
+    expect((await verifyBackupFiles({ backupPath, storage, tables: ['users'], tableRowCounts: { users: 5 } })).tables[0].errors)
+      .toEqual(['Backup has 1 rows, the backup record says 5']);
+
+    await writeChunkedBackup(`${content}DROP TABLE "public"."users";\n`);
+    const verification = await verifyBackupFiles({ backupPath, storage, tables: ['users'], tableRowCounts: {} });
+
+    expect(verification.status).toBe('failed');
+    expect(verification.tables[0].errors[0]).toMatch(/^Unexpected statement: DROP TABLE/);
+  });
+
+  it('should report an unreadable backup', async () => {
+    const verification = await verifyBackupFiles({ backupPath, storage, tables: ['users'], tableRowCounts: {} });
+
+    expect(verification.status).toBe('failed');
+    expect(verification.errors[0]).toMatch(/^Cannot read backup:/);
+  });
+
+  it('should hash rows independently of their order', () => {
+    const rows = [{ id: 1, note: 'a' }, { id: 2, note: null }, { id: 3, note: 'c' }];
+
+    const forward = hashRows(rows, ['id', 'note']).toString('hex');
+    expect(hashRows([...rows].reverse(), ['id', 'note']).toString('hex')).toBe(forward);
+    expect(hashRows(rows.slice(1), ['id', 'note']).toString('hex')).not.toBe(forward);
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Backup Storage Tests
+ *
+ * Tests for the local filesystem adapter and adapter selection.
+ */
+
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { createLocalBackupStorage, getBackupStorage } from '../backup-storage';
+
+describe('Backup Storage', () => {
+  let rootDir: string;
+
+  beforeEach(async () => {
+    rootDir = await mkdtemp(path.join(tmpdir(), 'backup-storage-'));
+  });
+
+  afterEach(async () => {
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  it('should write, read and remove files below the root directory', async () => {
+    const storage = createLocalBackupStorage(rootDir);
+    const filePath = 'user-1/2026-01-02/snapshots/abc.sql';
+
+    await storage.write(filePath, 'INSERT INTO "public"."users" VALUES (1);');
+    expect((await storage.read(filePath)).toString('utf8')).toBe('INSERT INTO "public"."users" VALUES (1);');
+
+    await storage.remove([filePath, 'user-1/missing.sql']);
+    await expect(storage.read(filePath)).rejects.toThrow();
+  });
+
+  it('should reject paths that escape the root directory', async () => {
+    const storage = createLocalBackupStorage(rootDir);
+
+    await expect(storage.write('../outside.sql', 'x')).rejects.toThrow('Invalid backup path');
+    await expect(storage.read('/etc/passwd')).rejects.toThrow('Invalid backup path');
+    await expect(storage.remove(['a//b.sql'])).rejects.toThrow('Invalid backup path');
+  });
+
+  it('should pick adapters by name', () => {
+    expect(getBackupStorage('local').name).toBe('local');
+    expect(getBackupStorage('supabase').name).toBe('supabase');
+    expect(() => getBackupStorage('s3')).toThrow('Unknown backup storage adapter: s3');
+  });
+
+  it('should default to Supabase Storage unless BACKUP_STORAGE is set', () => {
+    const previous = process.env.BACKUP_STORAGE;
+
+    try {
+      delete process.env.BACKUP_STORAGE;
+      expect(getBackupStorage().name).toBe('supabase');
+
+      process.env.BACKUP_STORAGE = 'local';
+      expect(getBackupStorage().name).toBe('local');
+    } finally {
+      if (previous === undefined) delete process.env.BACKUP_STORAGE;
+      else process.env.BACKUP_STORAGE = previous;
+    }
+  });
+});
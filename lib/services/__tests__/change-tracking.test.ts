@@ -0,0 +1,133 @@
+/**
+ * Change Tracking Tests
+ *
+ * Tests for choosing how a table's changed rows are detected and for
+ * comparing source and target row versions by timestamp, integer or hash.
+ */
+
+import type { DrizzleConnection } from '../drizzle-factory';
+import {
+  compareRowVersions,
+  getChangeTrackingKind,
+  hashRow,
+  readRowVersion,
+  resolveChangeTracking,
+  type ChangeTracking,
+} from '../change-tracking';
+
+/**
+ * Fake connection answering the information_schema lookup with a udt_name
+ */
+function createFakeConnection(udtName: string | null) {
+  const queries: unknown[][] = [];
+  const client = jest.fn(async (_strings: TemplateStringsArray, ...values: unknown[]) => {
+    queries.push(values);
+    return udtName ? [{ udt_name: udtName }] : [];
+  });
+  return { conn: { client } as unknown as DrizzleConnection, queries };
+}
+
+describe('Change Tracking', () => {
+  it('classifies column types', () => {
+    expect(getChangeTrackingKind('timestamptz')).toBe('timestamp');
+    expect(getChangeTrackingKind('date')).toBe('timestamp');
+    expect(getChangeTrackingKind('int8')).toBe('integer');
+    expect(getChangeTrackingKind('numeric')).toBe('integer');
+    expect(getChangeTrackingKind('text')).toBeNull();
+    expect(getChangeTrackingKind('uuid')).toBeNull();
+  });
+
+  describe('resolveChangeTracking', () => {
+    it('looks up updated_at by default, in the table\'s schema', async () => {
+      const { conn, queries } = createFakeConnection('timestamptz');
+
+      expect(await resolveChangeTracking(conn, 'billing.invoices')).toEqual({ column: 'updated_at', kind: 'timestamp' });
+      expect(queries).toEqual([['billing', 'invoices', 'updated_at']]);
+    });
+
+    it('uses a configured integer column', async () => {
+      const { conn, queries } = createFakeConnection('int4');
+
+      expect(await resolveChangeTracking(conn, 'documents', 'version')).toEqual({ column: 'version', kind: 'integer' });
+      expect(queries).toEqual([['public', 'documents', 'version']]);
+    });
+
+    it('falls back to hashing for missing or unusable columns', async () => {
+      expect(await resolveChangeTracking(createFakeConnection(null).conn, 'users'))
+        .toEqual({ column: null, kind: 'hash' });
+      expect(await resolveChangeTracking(createFakeConnection('text').conn, 'users', 'revision'))
+        .toEqual({ column: null, kind: 'hash' });
+    });
+
+    it('hashes without querying when null is configured', async () => {
+      const { conn, queries } = createFakeConnection('timestamptz');
+
+      expect(await resolveChangeTracking(conn, 'users', null)).toEqual({ column: null, kind: 'hash' });
+      expect(queries).toEqual([]);
+    });
+  });
+
+  describe('readRowVersion', () => {
+    const timestamp: ChangeTracking = { column: 'updated_at', kind: 'timestamp' };
+    const integer: ChangeTracking = { column: 'version', kind: 'integer' };
+
+    it('reads timestamps from dates and strings', () => {
+      const time = Date.parse('2024-05-01T10:00:00Z');
+      expect(readRowVersion({ updated_at: new Date(time) }, timestamp)).toBe(time);
+      expect(readRowVersion({ updated_at: '2024-05-01T10:00:00Z' }, timestamp)).toBe(time);
+    });
+
+    it('reads integers from numbers and strings', () => {
+      expect(readRowVersion({ version: 7 }, integer)).toBe(7);
+      expect(readRowVersion({ version: '12' }, integer)).toBe(12);
+    });
+
+    it('treats missing or unparseable values as the oldest version', () => {
+      expect(readRowVersion({}, timestamp)).toBe(0);
+      expect(readRowVersion({ updated_at: 'not a date' }, timestamp)).toBe(0);
+      expect(readRowVersion({ version: 'abc' }, integer)).toBe(0);
+      expect(readRowVersion({ version: 3 }, { column: null, kind: 'hash' })).toBe(0);
+    });
+  });
+
+  describe('hashRow', () => {
+    it('ignores column and key order and normalizes dates, bigints and buffers', () => {
+      const a = {
+        id: 1n,
+        meta: { b: 2, a: [new Date('2024-05-01T00:00:00Z')] },
+        data: Buffer.from('hi'),
+      };
+      const b = {
+        data: Buffer.from('hi'),
+        meta: { a: ['2024-05-01T00:00:00.000Z'], b: 2 },
+        id: '1',
+      };
+
+      expect(hashRow(a, ['id', 'meta', 'data'])).toBe(hashRow(b, ['data', 'meta', 'id']));
+      expect(hashRow(a, ['id', 'meta', 'data'])).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    it('only hashes the given columns', () => {
+      expect(hashRow({ id: 1, name: 'a' }, ['id'])).toBe(hashRow({ id: 1, name: 'b' }, ['id']));
+      expect(hashRow({ id: 1, name: 'a' }, ['id', 'name'])).not.toBe(hashRow({ id: 1, name: 'b' }, ['id', 'name']));
+    });
+  });
+
+  describe('compareRowVersions', () => {
+    it('orders rows by their tracking column', () => {
+      const tracking: ChangeTracking = { column: 'version', kind: 'integer' };
+
+      expect(compareRowVersions({ version: 3 }, { version: 2 }, tracking)).toBeGreaterThan(0);
+      expect(compareRowVersions({ version: 2 }, { version: 3 }, tracking)).toBeLessThan(0);
+      expect(compareRowVersions({ version: 2 }, { version: 2 }, tracking)).toBe(0);
+    });
+
+    it('reports any hash difference as the source being newer', () => {
+      const tracking: ChangeTracking = { column: null, kind: 'hash' };
+
+      expect(compareRowVersions({ id: 1, name: 'a' }, { id: 1, name: 'a' }, tracking)).toBe(0);
+      expect(compareRowVersions({ id: 1, name: 'a' }, { id: 1, name: 'b' }, tracking)).toBe(1);
+      expect(compareRowVersions({ id: 1, name: 'a' }, { id: 1, name: 'b' }, tracking, ['id'])).toBe(0);
+    });
+  });
+});
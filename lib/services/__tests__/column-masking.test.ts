@@ -0,0 +1,109 @@
+/**
+ * Column Masking Tests
+ *
+ * Tests for column projection and masking transforms applied during sync.
+ */
+
+import { createHash } from 'crypto';
+import {
+  applyColumnTransforms,
+  createColumnTransformPlan,
+  maskValue,
+  validateColumnTransforms,
+} from '../column-masking';
+
+describe('Column Masking', () => {
+  const row = {
+    id: 1,
+    email: 'jane@acme.io',
+    phone: '+1 555 0100',
+    api_token: 'secret',
+    bio: 'A very long biography',
+    updated_at: '2024-01-01T00:00:00.000Z',
+  };
+
+  describe('maskValue', () => {
+    it('should mask deterministically', () => {
+      const rule = { column: 'email', transform: 'fake_email' as const };
+      const masked = maskValue('jane@acme.io', rule);
+
+      expect(masked).toMatch(/^user_[0-9a-f]{12}@example\.com$/);
+      expect(maskValue('jane@acme.io', rule)).toBe(masked);
+      expect(maskValue('john@acme.io', rule)).not.toBe(masked);
+    });
+
+    it('should key hashes with the masking secret', () => {
+      const rule = { column: 'phone', transform: 'hash' as const };
+      const masked = maskValue('+1 555 0100', rule);
+
+      expect(masked).toMatch(/^[0-9a-f]{64}$/);
+      // Not a plain SHA-256 of the value, which could be reversed by guessing
+      expect(masked).not.toBe(createHash('sha256').update('+1 555 0100').digest('hex'));
+
+      const previous = process.env.MASKING_SECRET;
+      process.env.MASKING_SECRET = 'another-secret';
+      try {
+        expect(maskValue('+1 555 0100', rule)).not.toBe(masked);
+      } finally {
+        if (previous === undefined) delete process.env.MASKING_SECRET;
+        else process.env.MASKING_SECRET = previous;
+      }
+      expect(maskValue('+1 555 0100', rule)).toBe(masked);
+    });
+
+    it('should keep NULLs except for fixed values', () => {
+      expect(maskValue(null, { column: 'phone', transform: 'hash' })).toBeNull();
+      expect(maskValue(null, { column: 'phone', transform: 'fixed', value: 'n/a' })).toBe('n/a');
+    });
+  });
+
+  describe('applyColumnTransforms', () => {
+    it('should drop excluded columns and mask the rest', () => {
+      const plan = createColumnTransformPlan({
+        excludeColumns: ['api_token'],
+        masking: [
+          { column: 'phone', transform: 'null' },
+          { column: 'bio', transform: 'truncate', length: 6 },
+        ],
+      });
+
+      expect(applyColumnTransforms(row, plan)).toEqual({
+        id: 1,
+        email: 'jane@acme.io',
+        phone: null,
+        bio: 'A very',
+        updated_at: '2024-01-01T00:00:00.000Z',
+      });
+    });
+
+    it('should keep only included columns', () => {
+      const plan = createColumnTransformPlan({ includeColumns: ['id', 'updated_at'] });
+
+      expect(applyColumnTransforms(row, plan)).toEqual({ id: 1, updated_at: '2024-01-01T00:00:00.000Z' });
+    });
+
+    it('should return rows unchanged without a plan', () => {
+      expect(applyColumnTransforms(row, createColumnTransformPlan({}))).toBe(row);
+    });
+  });
+
+  describe('validateColumnTransforms', () => {
+    const columns = Object.keys(row);
+
+    it('should reject dropping or masking protected columns', () => {
+      const errors = validateColumnTransforms(
+        { excludeColumns: ['id'], masking: [{ column: 'updated_at', transform: 'hash' }] },
+        columns,
+        ['id', 'updated_at']
+      );
+
+      expect(errors).toHaveLength(2);
+    });
+
+    it('should reject unknown columns', () => {
+      const errors = validateColumnTransforms({ masking: [{ column: 'ssn', transform: 'hash' }] }, columns);
+
+      expect(errors[0]).toContain('does not exist');
+    });
+  });
+});
@@ -0,0 +1,392 @@
+/**
+ * Cron Tests
+ *
+ * Known schedules (including DST transitions) plus property-based checks of
+ * next-run calculation against a brute-force minute-by-minute oracle.
+ */
+
+import {
+  calculateNextRun,
+  describeCron,
+  getNextRuns,
+  parseCronExpression,
+  validateCronExpression,
+} from '../cron';
+
+const iso = (dates: Date[]) => dates.map((d) => d.toISOString());
+
+describe('Cron', () => {
+  describe('known schedules', () => {
+    const cases: Array<{ expression: string; timezone: string; from: string; expected: string[] }> = [
+      {
+        expression: '*/15 * * * *',
+        timezone: 'UTC',
+        from: '2024-01-01T00:07:00Z',
+        expected: ['2024-01-01T00:15:00.000Z', '2024-01-01T00:30:00.000Z'],
+      },
+      {
+        expression: '0-30/10 9 * * *',
+        timezone: 'UTC',
+        from: '2024-01-01T08:00:00Z',
+        expected: [
+          '2024-01-01T09:00:00.000Z',
+          '2024-01-01T09:10:00.000Z',
+          '2024-01-01T09:20:00.000Z',
+          '2024-01-01T09:30:00.000Z',
+          '2024-01-02T09:00:00.000Z',
+        ],
+      },
+      {
+        expression: '5/20 * * * *',
+        timezone: 'UTC',
+        from: '2024-01-01T00:00:00Z',
+        expected: ['2024-01-01T00:05:00.000Z', '2024-01-01T00:25:00.000Z', '2024-01-01T00:45:00.000Z', '2024-01-01T01:05:00.000Z'],
+      },
+      {
+        expression: '0 9 * * MON-FRI',
+        timezone: 'UTC',
+        from: '2024-01-05T10:00:00Z',
+        expected: ['2024-01-08T09:00:00.000Z', '2024-01-09T09:00:00.000Z'],
+      },
+      {
+        expression: '0 0 L * *',
+        timezone: 'UTC',
+        from: '2024-02-10T00:00:00Z',
+        expected: ['2024-02-29T00:00:00.000Z', '2024-03-31T00:00:00.000Z', '2024-04-30T00:00:00.000Z'],
+      },
+      {
+        expression: '0 12 * * 5L',
+        timezone: 'UTC',
+        from: '2024-01-01T00:00:00Z',
+        expected: ['2024-01-26T12:00:00.000Z', '2024-02-23T12:00:00.000Z', '2024-03-29T12:00:00.000Z'],
+      },
+      {
+        expression: '0 0 1,15 * MON',
+        timezone: 'UTC',
+        from: '2024-01-01T00:00:00Z',
+        expected: [
+          '2024-01-08T00:00:00.000Z',
+          '2024-01-15T00:00:00.000Z',
+          '2024-01-22T00:00:00.000Z',
+          '2024-01-29T00:00:00.000Z',
+          '2024-02-01T00:00:00.000Z',
+        ],
+      },
+      {
+        expression: '0 0 1 jan,JUL *',
+        timezone: 'UTC',
+        from: '2024-02-01T00:00:00Z',
+        expected: ['2024-07-01T00:00:00.000Z', '2025-01-01T00:00:00.000Z'],
+      },
+      {
+        expression: '0 0 29 2 *',
+        timezone: 'UTC',
+        from: '2024-03-01T00:00:00Z',
+        expected: ['2028-02-29T00:00:00.000Z'],
+      },
+      {
+        expression: '@monthly',
+        timezone: 'UTC',
+        from: '2024-01-15T00:00:00Z',
+        expected: ['2024-02-01T00:00:00.000Z', '2024-03-01T00:00:00.000Z'],
+      },
+      {
+        expression: '0 9 * * *',
+        timezone: 'Europe/London',
+        from: '2024-03-30T12:00:00Z',
+        expected: ['2024-03-31T08:00:00.000Z', '2024-04-01T08:00:00.000Z'],
+      },
+      {
+        expression: '@daily',
+        timezone: 'Asia/Kolkata',
+        from: '2024-01-01T00:00:00Z',
+        expected: ['2024-01-01T18:30:00.000Z', '2024-01-02T18:30:00.000Z'],
+      },
+      {
+        // 02:30 does not exist on 2024-03-10 in New York; it runs at 03:30 EDT
+        expression: '30 2 * * *',
+        timezone: 'America/New_York',
+        from: '2024-03-09T12:00:00Z',
+        expected: ['2024-03-10T07:30:00.000Z', '2024-03-11T06:30:00.000Z'],
+      },
+      {
+        // 01:30 happens twice on 2024-11-03 in New York; it runs once
+        expression: '30 1 * * *',
+        timezone: 'America/New_York',
+        from: '2024-11-02T12:00:00Z',
+        expected: ['2024-11-03T05:30:00.000Z', '2024-11-04T06:30:00.000Z'],
+      },
+      {
+        // Hourly schedules keep running in real time through the repeated hour
+        expression: '0 * * * *',
+        timezone: 'America/New_York',
+        from: '2024-11-03T04:30:00Z',
+        expected: ['2024-11-03T05:00:00.000Z', '2024-11-03T06:00:00.000Z', '2024-11-03T07:00:00.000Z'],
+      },
+      {
+        expression: '*/30 * * * *',
+        timezone: 'America/New_York',
+        from: '2024-03-10T06:15:00Z',
+        expected: ['2024-03-10T06:30:00.000Z', '2024-03-10T07:00:00.000Z', '2024-03-10T07:30:00.000Z'],
+      },
+    ];
+
+    it.each(cases)('$expression in $timezone from $from', ({ expression, timezone, from, expected }) => {
+      expect(iso(getNextRuns(expression, expected.length, new Date(from), timezone))).toEqual(expected);
+    });
+  });
+
+  describe('validateCronExpression', () => {
+    it.each([
+      '* * * * *',
+      '0-30/10 9-17 * * 1-5',
+      '0 0 L * *',
+      '0 12 * * FRIL',
+      '0 0 1 JAN-MAR SUN,7',
+      '@hourly',
+      '@ANNUALLY',
+    ])('should accept %s', (expression) => {
+      expect(validateCronExpression(expression)).toEqual({ valid: true });
+    });
+
+    it.each([
+      ['* * * *', '5 fields'],
+      ['60 * * * *', 'minute'],
+      ['* 24 * * *', 'hour'],
+      ['* * 0 * *', 'day-of-month'],
+      ['* * * 13 *', 'month'],
+      ['* * * * 8', 'day-of-week'],
+      ['* * * FOO *', 'month'],
+      ['10-5 * * * *', 'minute'],
+      ['*/0 * * * *', 'step'],
+      ['1,,2 * * * *', 'minute'],
+      ['* * * * L', 'day-of-week'],
+      ['@reboot', 'macro'],
+      ['0 0 30 2 *', 'never matches'],
+    ])('should reject %s', (expression, message) => {
+      const result = validateCronExpression(expression);
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain(message);
+    });
+
+    it('should reject unknown timezones', () => {
+      expect(validateCronExpression('0 0 * * *', 'Mars/Olympus_Mons').error).toContain('timezone');
+    });
+
+    it('should return null next runs for invalid input', () => {
+      expect(calculateNextRun('not a cron')).toBeNull();
+      expect(calculateNextRun('0 0 * * *', new Date(), 'Nowhere/Nothing')).toBeNull();
+    });
+  });
+
+  describe('describeCron', () => {
+    it.each([
+      ['0 * * * *', 'Every hour at minute 0'],
+      ['0 0 * * *', 'Daily at midnight'],
+      ['@daily', 'Daily at midnight'],
+      ['0 0 * * 0', 'Every Sunday at midnight'],
+      ['*/5 * * * *', 'Every 5 minutes'],
+      ['0 */6 * * *', 'Every 6 hours'],
+      ['30 9 * * MON-FRI', 'Every Monday through Friday at 09:30'],
+      ['0 0 L * *', 'At midnight on the last day of the month'],
+      ['0 12 * * 5L', 'At 12:00 on the last Friday of the month'],
+      ['0 0 1,15 * MON', 'At midnight on day 1 and 15 of the month or on Monday'],
+      ['@yearly', 'At midnight on day 1 of the month in January'],
+      ['0-30/10 9 * * *', 'At 09:00, 09:10, 09:20 and 09:30'],
+      ['0 9,17 * * *', 'At 09:00 and 17:00'],
+      ['15 * * JUN-AUG *', 'Every hour at minute 15 in June through August'],
+      ['* 9-17 * * *', 'Every minute during hour 9 through 17'],
+    ])('should describe %s', (expression, description) => {
+      expect(describeCron(expression)).toBe(description);
+    });
+
+    it('should mention the timezone', () => {
+      expect(describeCron('0 9 * * *', 'Europe/Paris')).toBe('Daily at 09:00 (Europe/Paris)');
+    });
+
+    it('should flag invalid expressions', () => {
+      expect(describeCron('61 * * * *')).toBe('Invalid expression');
+    });
+  });
+
+  describe('properties', () => {
+    // Deterministic PRNG (mulberry32) so failures are reproducible
+    function createRandom(seed: number) {
+      let state = seed;
+      const next = () => {
+        state = (state + 0x6d2b79f5) | 0;
+        let t = Math.imul(state ^ (state >>> 15), 1 | state);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+      };
+      const int = (min: number, max: number) => min + Math.floor(next() * (max - min + 1));
+      const pick = <T,>(items: readonly T[]): T => items[int(0, items.length - 1)];
+      return { int, pick };
+    }
+
+    type Random = ReturnType<typeof createRandom>;
+
+    const TIMEZONES = ['UTC', 'America/New_York', 'Europe/London', 'Australia/Sydney', 'Asia/Kolkata', 'Australia/Lord_Howe'];
+
+    /**
+     * Random field text together with the values it should match
+     */
+    function randomField(random: Random, min: number, max: number): { text: string; values: Set<number> } {
+      const range = (start: number, end: number, step = 1) => {
+        const values = new Set<number>();
+        for (let i = start; i <= end; i += step) values.add(i);
+        return values;
+      };
+
+      switch (random.int(0, 4)) {
+        case 0:
+          return { text: '*', values: range(min, max) };
+        case 1: {
+          const step = random.int(2, Math.max(2, Math.floor((max - min) / 2)));
+          return { text: `*/${step}`, values: range(min, max, step) };
+        }
+        case 2: {
+          const start = random.int(min, max);
+          const end = random.int(start, max);
+          const step = random.int(1, 5);
+          return { text: `${start}-${end}/${step}`, values: range(start, end, step) };
+        }
+        case 3: {
+          const values = new Set([random.int(min, max), random.int(min, max), random.int(min, max)]);
+          return { text: [...values].join(','), values };
+        }
+        default: {
+          const value = random.int(min, max);
+          return { text: String(value), values: new Set([value]) };
+        }
+      }
+    }
+
+    /**
+     * A random expression restricted to minutes and hours (so runs are
+     * frequent enough to brute-force) and its independent matcher
+     */
+    function randomExpression(random: Random) {
+      const minute = randomField(random, 0, 59);
+      const hour = randomField(random, 0, 23);
+      return {
+        expression: `${minute.text} ${hour.text} * * *`,
+        hourWildcard: hour.text.startsWith('*'),
+        matches: (wall: { hour: number; minute: number }) => minute.values.has(wall.minute) && hour.values.has(wall.hour),
+      };
+    }
+
+    const formatters = new Map<string, Intl.DateTimeFormat>();
+
+    function wallClock(instant: number, timezone: string) {
+      if (!formatters.has(timezone)) {
+        formatters.set(timezone, new Intl.DateTimeFormat('en-US', {
+          timeZone: timezone,
+          hourCycle: 'h23',
+          year: 'numeric',
+          month: 'numeric',
+          day: 'numeric',
+          hour: 'numeric',
+          minute: 'numeric',
+        }));
+      }
+      const parts = formatters.get(timezone)!.formatToParts(new Date(instant));
+      const get = (type: string) => parseInt(parts.find((p) => p.type === type)!.value, 10);
+      return { year: get('year'), month: get('month'), day: get('day'), hour: get('hour') % 24, minute: get('minute') };
+    }
+
+    // UTC offset at an instant, from the wall clock
+    function offsetAt(instant: number, timezone: string): number {
+      const wall = wallClock(instant, timezone);
+      return Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute) - instant;
+    }
+
+    const sameWall = (a: ReturnType<typeof wallClock>, b: ReturnType<typeof wallClock>) =>
+      a.year === b.year && a.month === b.month && a.day === b.day && a.hour === b.hour && a.minute === b.minute;
+
+    const MINUTE = 60 * 1000;
+    const HOUR = 60 * MINUTE;
+
+    it('should return the first matching minute after the start time', () => {
+      const random = createRandom(20240310);
+
+      for (let i = 0; i < 40; i++) {
+        const { expression, hourWildcard, matches } = randomExpression(random);
+        const timezone = random.pick(TIMEZONES);
+        // Start near DST transitions often enough to exercise them
+        const from = random.pick([
+          Date.UTC(2024, 2, 10, 5, random.int(0, 59)),
+          Date.UTC(2024, 10, 3, 4, random.int(0, 59)),
+          Date.UTC(2024, 3, 7, 14, random.int(0, 59)),
+          Date.UTC(2024, 9, 6, 15, random.int(0, 59)),
+          Date.UTC(random.int(2020, 2030), random.int(0, 11), random.int(1, 28), random.int(0, 23), random.int(0, 59), random.int(0, 59)),
+        ]);
+        const context = `${expression} in ${timezone} from ${new Date(from).toISOString()}`;
+
+        const next = calculateNextRun(expression, new Date(from), timezone);
+        expect(next).not.toBeNull();
+        const nextMs = next!.getTime();
+
+        expect({ context, after: nextMs > from, onMinute: nextMs % MINUTE === 0 }).toEqual({
+          context,
+          after: true,
+          onMinute: true,
+        });
+
+        // The run's wall time matches, or the run replaces a wall time that
+        // was skipped by a DST change
+        const gap = offsetAt(nextMs, timezone) - offsetAt(nextMs - 3 * HOUR, timezone);
+        const skipped = new Date(nextMs + offsetAt(nextMs, timezone) - gap);
+        const matched = matches(wallClock(nextMs, timezone)) ||
+          (gap > 0 && matches({ hour: skipped.getUTCHours(), minute: skipped.getUTCMinutes() }));
+        expect({ context, matched }).toEqual({ context, matched: true });
+
+        // No earlier minute matches. Repeated wall times only run once unless
+        // the hour field is a wildcard
+        for (let t = Math.floor(from / MINUTE) * MINUTE + MINUTE; t < nextMs; t += MINUTE) {
+          const candidate = wallClock(t, timezone);
+          const repeated = sameWall(candidate, wallClock(t - HOUR, timezone)) ||
+            sameWall(candidate, wallClock(t - HOUR / 2, timezone));
+          if (repeated && !hourWildcard) continue;
+          expect({ context, missed: matches(candidate) ? new Date(t).toISOString() : null }).toEqual({
+            context,
+            missed: null,
+          });
+        }
+      }
+    });
+
+    it('should produce strictly increasing runs', () => {
+      const random = createRandom(7);
+
+      for (let i = 0; i < 40; i++) {
+        const { expression } = randomExpression(random);
+        const timezone = random.pick(TIMEZONES);
+        const runs = getNextRuns(expression, 10, new Date(Date.UTC(2024, random.int(0, 11), 1)), timezone).map((d) => d.getTime());
+
+        expect(runs).toHaveLength(10);
+        runs.slice(1).forEach((run, index) => expect(run).toBeGreaterThan(runs[index]));
+      }
+    });
+
+    it('should treat names, numbers and macros as equivalent', () => {
+      const random = createRandom(42);
+      const months = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+      const days = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+      for (let i = 0; i < 40; i++) {
+        const month = random.int(1, 12);
+        const day = random.int(0, 6);
+        const minute = random.int(0, 59);
+        const hour = random.int(0, 23);
+
+        const numeric = parseCronExpression(`${minute} ${hour} * ${month} ${day === 0 ? 7 : day}`);
+        const named = parseCronExpression(`${minute} ${hour} * ${months[month - 1].toLowerCase()} ${days[day]}`);
+        expect(named).toEqual(numeric);
+      }
+
+      expect(parseCronExpression('@weekly')).toEqual(parseCronExpression('0 0 * * 0'));
+      expect(parseCronExpression('@hourly')).toEqual(parseCronExpression('0 * * * *'));
+    });
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Data Diff Export Tests
+ *
+ * Tests for the JSON and CSV downloads of a data diff report.
+ */
+
+import { exportDataDiffReport } from '../data-diff-export';
+import type { DataDiffReport } from '@/types';
+
+describe('Data Diff Export', () => {
+  const report: DataDiffReport = {
+    sourceName: 'staging',
+    targetName: 'production',
+    generatedAt: '2026-03-04T05:06:07.890Z',
+    tables: [
+      {
+        tableName: 'public.users',
+        primaryKey: ['id'],
+        columns: ['id', 'name', 'bio'],
+        sourceRowCount: 10,
+        targetRowCount: 9,
+        onlyInSource: 2,
+        onlyInTarget: 1,
+        identical: 5,
+        differing: 2,
+        columnChanges: [
+          { columnName: 'name', rows: 2 },
+          { columnName: 'bio', rows: 1 },
+        ],
+        samples: [
+          {
+            key: '[3]',
+            status: 'differing',
+            source: { id: 3, name: 'Ann', bio: 'a' },
+            target: { id: 3, name: 'Anne', bio: 'b' },
+            changedColumns: ['name', 'bio'],
+          },
+        ],
+        rangesCompared: 1,
+        rangesDiffering: 1,
+      },
+      {
+        tableName: 'public.orders',
+        primaryKey: [],
+        columns: [],
+        sourceRowCount: 0,
+        targetRowCount: 0,
+        onlyInSource: 0,
+        onlyInTarget: 0,
+        identical: 0,
+        differing: 0,
+        columnChanges: [],
+        samples: [],
+        rangesCompared: 0,
+        rangesDiffering: 0,
+        error: 'Table has no primary key, "id" expected',
+      },
+    ],
+    totals: { onlyInSource: 2, onlyInTarget: 1, identical: 5, differing: 2 },
+  };
+
+  it('exports the full report as JSON', () => {
+    const file = exportDataDiffReport(report, 'json');
+
+    expect(file.filename).toBe('data-diff-20260304T050607.json');
+    expect(file.contentType).toContain('application/json');
+    expect(JSON.parse(file.body)).toEqual(report);
+  });
+
+  it('exports one CSV line per table with escaped fields', () => {
+    const file = exportDataDiffReport(report, 'csv');
+    const lines = file.body.split('\r\n');
+
+    expect(file.filename).toBe('data-diff-20260304T050607.csv');
+    expect(file.contentType).toContain('text/csv');
+    expect(lines[0]).toBe(
+      'table,primary_key,source_rows,target_rows,only_in_source,only_in_target,identical,differing,changed_columns,error'
+    );
+    expect(lines[1]).toBe('public.users,id,10,9,2,1,5,2,name:2 bio:1,');
+    expect(lines[2]).toBe('public.orders,,0,0,0,0,0,0,,"Table has no primary key, ""id"" expected"');
+    expect(lines[3]).toBe('');
+  });
+});
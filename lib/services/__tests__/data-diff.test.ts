@@ -0,0 +1,217 @@
+/**
+ * Data Diff Tests
+ *
+ * Tests for comparing two databases' rows by hashing primary key ranges and
+ * only comparing the ranges that differ row by row.
+ */
+
+import type { DrizzleConnection } from '../drizzle-factory';
+import { generateDataDiffReport } from '../data-diff';
+
+const databases = new Map<string, ReturnType<typeof createFakeDatabase>>();
+
+jest.mock('../drizzle-factory', () => ({
+  createDrizzleClient: jest.fn((url: string) => databases.get(url)!.conn),
+}));
+
+jest.mock('../schema-inspector', () => ({
+  ...jest.requireActual('../schema-inspector'),
+  inspectTable: jest.fn(async (_conn: unknown, tableName: string) => ({
+    tableName,
+    columns: [{ name: 'id' }, { name: 'name' }],
+    primaryKey: { name: `${tableName}_pkey`, columns: ['id'] },
+  })),
+}));
+
+interface Item {
+  id: string;
+  name: string;
+}
+
+const items = (from: number, to: number): Item[] =>
+  Array.from({ length: to - from }, (_, i) => ({ id: `item-${String(from + i).padStart(3, '0')}`, name: `Item ${from + i}` }));
+
+/**
+ * Fake database with one `items` table keyed by a text `id`, answering the
+ * column lookup, range bound, range hash, row hash and row lookup queries.
+ * Keys are ordered by code point, like the "C" collation.
+ */
+function createFakeDatabase(initialRows: Item[], { collatableKey = true } = {}) {
+  const rows = [...initialRows].sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+  const statements: string[] = [];
+
+  const client = jest.fn(async (_strings: TemplateStringsArray, ...values: unknown[]) =>
+    values[1] === 'items'
+      ? [{ column_name: 'id', collatable: collatableKey }, { column_name: 'name', collatable: true }]
+      : []
+  );
+
+  const inRange = (sql: string, params: unknown[]) => {
+    const lower = sql.match(/ > \$(\d+)/);
+    const upper = sql.match(/ <= \$(\d+)/);
+    return rows.filter((row) =>
+      (!lower || row.id > String(params[Number(lower[1]) - 1])) &&
+      (!upper || row.id <= String(params[Number(upper[1]) - 1]))
+    );
+  };
+  const rowHash = (row: Item) => `${row.id}:${row.name}`;
+
+  const unsafe = jest.fn(async (sql: string, params: unknown[] = []) => {
+    statements.push(sql);
+
+    if (sql.startsWith('SET LOCAL')) {
+      return [];
+    }
+    if (sql.includes(' OFFSET ')) {
+      const row = inRange(sql, params)[Number(sql.match(/OFFSET (\d+)/)![1])];
+      return row ? [{ id: row.id }] : [];
+    }
+    if (sql.includes('count(*)')) {
+      const range = inRange(sql, params);
+      return [{ count: range.length, hash: range.length > 0 ? range.map(rowHash).join('|') : null }];
+    }
+    if (sql.includes('"__row_hash"')) {
+      return inRange(sql, params).map((row) => ({ id: row.id, __row_hash: rowHash(row) }));
+    }
+
+    const matched = rows.filter((row) => params.includes(row.id));
+    return sql.includes('"__column_')
+      ? matched.map((row) => ({ id: row.id, __column_0: row.id, __column_1: row.name }))
+      : matched;
+  });
+
+  const tx = { unsafe };
+  const conn = {
+    client: Object.assign(client, {
+      unsafe,
+      begin: async (_mode: string, callback: (sql: typeof tx) => Promise<unknown>) => callback(tx),
+    }),
+    close: jest.fn(async () => undefined),
+  } as unknown as DrizzleConnection;
+
+  return { conn, statements };
+}
+
+/**
+ * Diff the `items` tables of two fake databases, in 100-row ranges
+ */
+async function diffItems(sourceRows: Item[], targetRows: Item[], options = {}) {
+  const source = createFakeDatabase(sourceRows, options);
+  const target = createFakeDatabase(targetRows, options);
+  databases.set('source', source);
+  databases.set('target', target);
+
+  const report = await generateDataDiffReport({
+    sourceUrl: 'source',
+    targetUrl: 'target',
+    tables: ['items'],
+    sourceName: 'Source',
+    targetName: 'Target',
+    rangeSize: 100,
+  });
+
+  return { table: report.tables[0], report, source, target };
+}
+
+const rowHashQueries = (statements: string[]) => statements.filter((sql) => sql.includes('"__row_hash"'));
+
+describe('Data Diff', () => {
+  it('settles identical tables with one hash per range', async () => {
+    const { table, report, source } = await diffItems(items(0, 250), items(0, 250));
+
+    expect(table).toMatchObject({
+      primaryKey: ['id'],
+      columns: ['id', 'name'],
+      sourceRowCount: 250,
+      targetRowCount: 250,
+      identical: 250,
+      differing: 0,
+      onlyInSource: 0,
+      onlyInTarget: 0,
+      rangesCompared: 3,
+      rangesDiffering: 0,
+      samples: [],
+    });
+    expect(report.totals).toEqual({ onlyInSource: 0, onlyInTarget: 0, identical: 250, differing: 0 });
+    expect(rowHashQueries(source.statements)).toEqual([]);
+  });
+
+  it('compares only the differing range row by row', async () => {
+    const target = items(0, 250).filter((row) => row.id !== 'item-010');
+    target.find((row) => row.id === 'item-020')!.name = 'Renamed';
+    target.push({ id: 'item-050a', name: 'Extra' });
+
+    const { table, source } = await diffItems(items(0, 250), target);
+
+    expect(table).toMatchObject({
+      sourceRowCount: 250,
+      targetRowCount: 250,
+      identical: 248,
+      differing: 1,
+      onlyInSource: 1,
+      onlyInTarget: 1,
+      rangesCompared: 3,
+      rangesDiffering: 1,
+      columnChanges: [{ columnName: 'name', rows: 1 }],
+    });
+    expect(table.samples).toEqual([
+      { key: 'item-010', status: 'only_in_source', source: items(10, 11)[0], target: null, changedColumns: [] },
+      { key: 'item-050a', status: 'only_in_target', source: null, target: { id: 'item-050a', name: 'Extra' }, changedColumns: [] },
+      {
+        key: 'item-020',
+        status: 'differing',
+        source: items(20, 21)[0],
+        target: { id: 'item-020', name: 'Renamed' },
+        changedColumns: ['name'],
+      },
+    ]);
+    expect(rowHashQueries(source.statements)).toHaveLength(1);
+  });
+
+  it('continues the ranges over target keys past the source\'s last one', async () => {
+    const { table } = await diffItems(items(0, 150), items(0, 250));
+
+    expect(table).toMatchObject({
+      sourceRowCount: 150,
+      targetRowCount: 250,
+      identical: 150,
+      onlyInTarget: 100,
+      rangesCompared: 3,
+      rangesDiffering: 2,
+    });
+  });
+
+  it('orders and bounds text keys in the "C" collation only', async () => {
+    const text = await diffItems(items(0, 250), items(0, 250));
+    expect(text.source.statements).toContain(
+      'SELECT "id" FROM "public"."items" WHERE "id" COLLATE "C" > $1 ORDER BY "id" COLLATE "C" ASC OFFSET 99 LIMIT 1'
+    );
+    expect(text.source.statements).toContain(
+      `SELECT count(*)::int AS count, md5(string_agg(md5(ROW("id", "name")::text), '' ORDER BY "id" COLLATE "C" ASC)) AS hash ` +
+      'FROM "public"."items" WHERE "id" COLLATE "C" > $1 AND "id" COLLATE "C" <= $2'
+    );
+
+    const numeric = await diffItems(items(0, 150), items(0, 150), { collatableKey: false });
+    expect(numeric.source.statements).toContain(
+      'SELECT "id" FROM "public"."items" ORDER BY "id" ASC OFFSET 99 LIMIT 1'
+    );
+  });
+
+  it('reports tables missing on one side without comparing them', async () => {
+    const source = createFakeDatabase(items(0, 10));
+    const target = createFakeDatabase(items(0, 10));
+    databases.set('source', source);
+    databases.set('target', target);
+
+    const report = await generateDataDiffReport({
+      sourceUrl: 'source',
+      targetUrl: 'target',
+      tables: ['orders'],
+      sourceName: 'Source',
+      targetName: 'Target',
+    });
+
+    expect(report.tables[0]).toMatchObject({ tableName: 'orders', error: 'Table missing in source', rangesCompared: 0 });
+    expect(source.statements).toEqual([]);
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Explorer Export Tests
+ *
+ * Tests for formatting explorer rows as CSV, NDJSON and INSERT statements
+ * and for the query behind a streamed export.
+ */
+
+import type { DrizzleConnection } from '../drizzle-factory';
+import {
+  formatExportHeader,
+  formatExportRows,
+  getExportFilename,
+  streamExplorerExport,
+} from '../explorer-export';
+
+describe('Explorer Export', () => {
+  const columns = ['id', 'name', 'settings'];
+  const rows = [
+    { id: 1, name: 'Ada, "the first"', settings: { theme: 'dark' }, ignored: true },
+    { id: 2, name: "O'Brien", settings: null, ignored: false },
+  ];
+
+  describe('formatExportRows', () => {
+    it('formats CSV with a header line', () => {
+      expect(formatExportHeader('csv', 'users', columns)).toBe('id,name,settings\n');
+      expect(formatExportRows('csv', 'users', columns, rows)).toBe(
+        '1,"Ada, ""the first""","{""theme"":""dark""}"\n2,O\'Brien,\n'
+      );
+    });
+
+    it('prefixes CSV text that spreadsheets would run as a formula', () => {
+      const formulas = [
+        { id: 3, name: '=HYPERLINK("http://x")', settings: '@SUM(A1)' },
+        { id: -4, name: '+1', settings: '-2+3' },
+        { id: '-5.5', name: '\tcmd', settings: '\rcmd' },
+      ];
+
+      expect(formatExportRows('csv', 'users', columns, formulas)).toBe(
+        '3,"\'=HYPERLINK(""http://x"")",\'@SUM(A1)\n' +
+        '-4,+1,\'-2+3\n' +
+        '-5.5,\'\tcmd,"\'\rcmd"\n'
+      );
+    });
+
+    it('formats NDJSON with only the selected columns', () => {
+      expect(formatExportHeader('ndjson', 'users', columns)).toBe('');
+      expect(formatExportRows('ndjson', 'users', ['id', 'settings'], rows)).toBe(
+        '{"id":1,"settings":{"theme":"dark"}}\n{"id":2,"settings":null}\n'
+      );
+    });
+
+    it('formats a batch as one multi-row INSERT', () => {
+      expect(formatExportRows('sql', 'billing.users', columns, rows)).toBe(
+        'INSERT INTO "billing"."users" ("id", "name", "settings") VALUES\n' +
+        '(1, \'Ada, "the first"\', \'{"theme":"dark"}\'::jsonb),\n' +
+        '(2, \'O\'\'Brien\', NULL);\n'
+      );
+    });
+
+    it('writes nothing for an empty batch', () => {
+      expect(formatExportRows('sql', 'users', columns, [])).toBe('');
+    });
+  });
+
+  it('names downloads after the table and time', () => {
+    expect(getExportFilename('billing.invoices', 'ndjson', new Date('2024-05-01T10:15:00.123Z')))
+      .toBe('billing.invoices-20240501T101500.ndjson');
+  });
+
+  describe('streamExplorerExport', () => {
+    it('queries the filtered, ordered and capped view in batches', async () => {
+      const unsafe = jest.fn(() => ({
+        cursor: async function* () {
+          yield rows.slice(0, 1);
+          yield rows.slice(1);
+        },
+      }));
+      const conn = { client: { unsafe } } as unknown as DrizzleConnection;
+
+      const chunks: string[] = [];
+      for await (const chunk of streamExplorerExport(conn, {
+        tableName: 'users',
+        format: 'csv',
+        columns: ['id', 'name'],
+        filter: { combinator: 'and', conditions: [{ column: 'id', operator: 'gt', value: 0 }] },
+        search: 'ada',
+        searchColumns: ['name'],
+        orderColumn: 'name',
+        direction: 'asc',
+        keyColumns: ['id'],
+        maxRows: 250,
+      })) {
+        chunks.push(chunk);
+      }
+
+      expect(unsafe).toHaveBeenCalledWith(
+        'SELECT "id", "name" FROM "public"."users" WHERE "id" > $1 AND "name"::text ILIKE $2 ORDER BY "name" ASC NULLS LAST, "id" ASC LIMIT 250',
+        [0, '%ada%']
+      );
+      expect(chunks).toEqual(['id,name\n', '1,"Ada, ""the first"""\n', "2,O'Brien\n"]);
+    });
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * Explorer Filter Tests
+ *
+ * Tests for parsing, validating and compiling explorer filters and quick
+ * search into parameterized SQL.
+ */
+
+import {
+  buildExplorerWhereClause,
+  compileExplorerFilter,
+  compileExplorerSearch,
+  countFilterConditions,
+  getSearchableColumns,
+  parseExplorerFilter,
+  serializeExplorerFilter,
+  validateExplorerFilter,
+  MAX_FILTER_CONDITIONS,
+  type ExplorerFilterGroup,
+} from '../explorer-filter';
+
+describe('Explorer Filters', () => {
+  const columns = ['id', 'email', 'status', 'created_at', 'deleted_at'];
+
+  const filter: ExplorerFilterGroup = {
+    combinator: 'and',
+    conditions: [
+      { column: 'status', operator: 'eq', value: 'active' },
+      {
+        combinator: 'or',
+        conditions: [
+          { column: 'email', operator: 'contains', value: '@example.com' },
+          { column: 'created_at', operator: 'between', value: '2024-01-01', valueTo: '2024-12-31' },
+        ],
+      },
+      { column: 'deleted_at', operator: 'is_null' },
+    ],
+  };
+
+  describe('parseExplorerFilter / serializeExplorerFilter', () => {
+    it('round-trips a filter through the query parameter', () => {
+      expect(parseExplorerFilter(serializeExplorerFilter(filter))).toEqual(filter);
+    });
+
+    it('returns null for a missing or empty filter', () => {
+      expect(parseExplorerFilter(null)).toBeNull();
+      expect(serializeExplorerFilter({ combinator: 'and', conditions: [] })).toBeNull();
+      expect(serializeExplorerFilter({
+        combinator: 'and',
+        conditions: [{ combinator: 'or', conditions: [] }],
+      })).toBeNull();
+    });
+
+    it('wraps a single condition in an AND group', () => {
+      expect(parseExplorerFilter('{"column":"id","operator":"gt","value":5}')).toEqual({
+        combinator: 'and',
+        conditions: [{ column: 'id', operator: 'gt', value: 5 }],
+      });
+    });
+
+    it('rejects malformed filters', () => {
+      expect(() => parseExplorerFilter('{nope')).toThrow('not valid JSON');
+      expect(() => parseExplorerFilter('{"combinator":"xor","conditions":[]}')).toThrow('combinator');
+      expect(() => parseExplorerFilter('{"column":"id"}')).toThrow('column and an operator');
+      expect(() => parseExplorerFilter('{"column":"id","operator":"eq","value":{"a":1}}')).toThrow('unsupported value');
+
+      const deep = { combinator: 'and', conditions: [{ combinator: 'and', conditions: [{ combinator: 'and', conditions: [{ combinator: 'and', conditions: [] }] }] }] };
+      expect(() => parseExplorerFilter(JSON.stringify(deep))).toThrow('nested');
+    });
+  });
+
+  describe('validateExplorerFilter', () => {
+    it('accepts a valid filter', () => {
+      expect(validateExplorerFilter(filter, columns)).toEqual([]);
+    });
+
+    it('reports unknown columns, operators and missing values', () => {
+      const errors = validateExplorerFilter({
+        combinator: 'and',
+        conditions: [
+          { column: 'nope', operator: 'eq', value: 1 },
+          { column: 'id; DROP TABLE users', operator: 'eq', value: 1 },
+          { column: 'id', operator: 'regex' as never, value: 1 },
+          { column: 'id', operator: 'gt' },
+          { column: 'created_at', operator: 'between', value: '2024-01-01' },
+          { column: 'email', operator: 'contains', value: '' },
+        ],
+      }, columns);
+
+      expect(errors).toEqual([
+        'Column "nope" does not exist',
+        'Invalid column name "id; DROP TABLE users"',
+        'id: unsupported operator "regex"',
+        'id: "gt" requires a value',
+        'created_at: "between" requires a lower and an upper bound',
+        'email: "contains" requires some text',
+      ]);
+    });
+
+    it('caps the number of conditions', () => {
+      const conditions = Array.from({ length: MAX_FILTER_CONDITIONS + 1 }, () => ({
+        column: 'id',
+        operator: 'is_null' as const,
+      }));
+      expect(validateExplorerFilter({ combinator: 'or', conditions }, columns)).toEqual([
+        `A filter can have at most ${MAX_FILTER_CONDITIONS} conditions`,
+      ]);
+    });
+  });
+
+  describe('compileExplorerFilter', () => {
+    it('compiles nested groups with parameters', () => {
+      expect(compileExplorerFilter(filter)).toEqual({
+        sql: '("status" = $1 AND ("email"::text ILIKE $2 OR "created_at" BETWEEN $3 AND $4) AND "deleted_at" IS NULL)',
+        params: ['active', '%@example.com%', '2024-01-01', '2024-12-31'],
+      });
+    });
+
+    it('escapes LIKE wildcards in contains', () => {
+      const compiled = compileExplorerFilter({
+        combinator: 'and',
+        conditions: [{ column: 'email', operator: 'not_contains', value: '100%_off' }],
+      }, 3);
+
+      expect(compiled).toEqual({
+        sql: '"email"::text NOT ILIKE $3',
+        params: ['%100\\%\\_off%'],
+      });
+    });
+
+    it('returns an empty condition without a filter', () => {
+      expect(compileExplorerFilter(null)).toEqual({ sql: '', params: [] });
+    });
+  });
+
+  describe('quick search', () => {
+    it('searches text-like columns only', () => {
+      expect(getSearchableColumns([
+        { name: 'id', type: 'bigint' },
+        { name: 'email', type: 'text' },
+        { name: 'name', type: 'character varying' },
+        { name: 'payload', type: 'jsonb' },
+      ])).toEqual(['email', 'name']);
+    });
+
+    it('matches any column with a shared placeholder', () => {
+      expect(compileExplorerSearch('  ada ', ['email', 'name'], 2)).toEqual({
+        sql: '("email"::text ILIKE $2 OR "name"::text ILIKE $2)',
+        params: ['%ada%'],
+      });
+      expect(compileExplorerSearch('', ['email'])).toEqual({ sql: '', params: [] });
+    });
+  });
+
+  describe('buildExplorerWhereClause', () => {
+    it('combines filter and search', () => {
+      const where = buildExplorerWhereClause({
+        filter: { combinator: 'or', conditions: [{ column: 'id', operator: 'gte', value: 10 }, { column: 'id', operator: 'lt', value: 3 }] },
+        search: 'ada',
+        searchColumns: ['email'],
+      });
+
+      expect(where).toEqual({
+        sql: 'WHERE ("id" >= $1 OR "id" < $2) AND "email"::text ILIKE $3',
+        params: [10, 3, '%ada%'],
+      });
+    });
+
+    it('returns no clause when nothing applies', () => {
+      expect(buildExplorerWhereClause({})).toEqual({ sql: '', params: [] });
+    });
+  });
+
+  it('counts conditions across groups', () => {
+    expect(countFilterConditions(filter)).toBe(4);
+    expect(countFilterConditions(null)).toBe(0);
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Explorer Import Tests
+ *
+ * Tests for parsing uploaded CSV and NDJSON files, mapping and converting
+ * their values to table columns, and writing them in batches.
+ */
+
+import type { DrizzleConnection } from '../drizzle-factory';
+import {
+  buildImportStatement,
+  convertImportValue,
+  ImportFileError,
+  parseImportFile,
+  prepareImportRow,
+  runExplorerImport,
+  suggestColumnMapping,
+  validateImportMapping,
+  type ExplorerImportEvent,
+  type ImportTableColumn,
+} from '../explorer-import';
+
+const column = (
+  columnName: string,
+  dataType: string,
+  overrides: Partial<ImportTableColumn> = {}
+): ImportTableColumn => ({
+  columnName,
+  dataType,
+  isNullable: true,
+  columnDefault: null,
+  isIdentity: false,
+  isGenerated: false,
+  ...overrides,
+});
+
+describe('Explorer Import', () => {
+  const columns = [
+    column('id', 'integer', { isNullable: false, isIdentity: true }),
+    column('email', 'text', { isNullable: false }),
+    column('first_name', 'text'),
+    column('active', 'boolean', { isNullable: false, columnDefault: 'true' }),
+    column('search_vector', 'tsvector', { isGenerated: true }),
+  ];
+
+  describe('parseImportFile', () => {
+    it('parses CSV with quoted fields, CRLF line breaks and empty fields as NULL', () => {
+      const file = parseImportFile(
+        '\uFEFFid,email,note\r\n1,ada@example.com,"Says ""hi"",\nthen leaves"\r\n2,bob@example.com,\r\n3,short\r\n',
+        'csv'
+      );
+
+      expect(file.columns).toEqual(['id', 'email', 'note']);
+      expect(file.records).toEqual([
+        { row: 1, values: { id: '1', email: 'ada@example.com', note: 'Says "hi",\nthen leaves' } },
+        { row: 2, values: { id: '2', email: 'bob@example.com', note: null } },
+      ]);
+      expect(file.errors).toEqual([{ row: 3, errors: ['Expected 3 fields, found 2'] }]);
+    });
+
+    it('rejects CSV files without a usable header', () => {
+      expect(() => parseImportFile('', 'csv')).toThrow(ImportFileError);
+      expect(() => parseImportFile('id,id\n1,2\n', 'csv')).toThrow('Duplicate CSV columns: id');
+      expect(() => parseImportFile('id,"name\n1,x\n', 'csv')).toThrow('Invalid CSV');
+    });
+
+    it('parses NDJSON, collecting keys in order of appearance', () => {
+      const file = parseImportFile('{"id":1,"tags":["a"]}\n\n{"email":"x@y.z","id":2}\nnot json\n[1]\n', 'ndjson');
+
+      expect(file.columns).toEqual(['id', 'tags', 'email']);
+      expect(file.records.map((r) => r.row)).toEqual([1, 3]);
+      expect(file.errors).toEqual([
+        { row: 4, errors: ['Invalid JSON'] },
+        { row: 5, errors: ['Each line must be a JSON object'] },
+      ]);
+    });
+  });
+
+  describe('mapping', () => {
+    it('suggests matches ignoring case and punctuation, never generated columns', () => {
+      expect(suggestColumnMapping(['ID', 'First Name', 'Search Vector', 'unknown'], columns)).toEqual({
+        ID: 'id',
+        'First Name': 'first_name',
+      });
+    });
+
+    it('requires NOT NULL columns without a default and the key for upserts', () => {
+      const fileColumns = ['name', 'vector'];
+      expect(validateImportMapping({ name: 'first_name', vector: 'search_vector' }, fileColumns, columns, ['id'], 'upsert'))
+        .toEqual([
+          'Column "search_vector" is generated and cannot be imported',
+          'Column "email" is required (NOT NULL without a default)',
+          'Upsert needs the primary key column "id" mapped',
+        ]);
+      expect(validateImportMapping({ mail: 'email' }, ['mail'], columns, [], 'insert')).toEqual([]);
+    });
+
+    it('rejects mappings that use a table column twice', () => {
+      expect(validateImportMapping({ a: 'email', b: 'email' }, ['a', 'b'], columns, [], 'insert'))
+        .toEqual(['Column "email" is mapped more than once']);
+    });
+  });
+
+  describe('convertImportValue', () => {
+    it('converts text to the column type', () => {
+      expect(convertImportValue(' 42 ', column('n', 'integer'))).toEqual({ value: 42 });
+      expect(convertImportValue('9007199254740993', column('n', 'bigint'))).toEqual({ value: '9007199254740993' });
+      expect(convertImportValue('1.50', column('n', 'numeric'))).toEqual({ value: '1.50' });
+      expect(convertImportValue('Yes', column('b', 'boolean'))).toEqual({ value: true });
+      expect(convertImportValue('{"a":1}', column('j', 'jsonb'))).toEqual({ value: { a: 1 } });
+      expect(convertImportValue('2024-05-01 10:15:00+02', column('t', 'timestamp with time zone')))
+        .toEqual({ value: '2024-05-01 10:15:00+02' });
+      expect(convertImportValue(['a', 'b "c"', null], column('tags', 'ARRAY'))).toEqual({ value: '{"a","b \\"c\\"",NULL}' });
+    });
+
+    it('reports values that do not fit the type', () => {
+      expect(convertImportValue('abc', column('age', 'integer')).error).toBe('Column "age": "abc" is not an integer');
+      expect(convertImportValue(1.5, column('age', 'integer')).error).toBe('Column "age": 1.5 is not an integer');
+      expect(convertImportValue('maybe', column('ok', 'boolean')).error).toBe('Column "ok": "maybe" is not a boolean');
+      expect(convertImportValue('{oops', column('j', 'json')).error).toBe('Column "j": "{oops" is not valid JSON');
+      expect(convertImportValue('yesterday', column('d', 'date')).error).toBe('Column "d": "yesterday" is not a date');
+      expect(convertImportValue('42', column('u', 'uuid')).error).toBe('Column "u": "42" is not a UUID');
+    });
+  });
+
+  describe('prepareImportRow', () => {
+    const mapping = { id: 'id', email: 'email', active: 'active' };
+
+    it('maps and converts a valid row', () => {
+      expect(prepareImportRow({ row: 1, values: { id: '7', email: 'a@b.c', active: 'f', extra: 'x' } }, { mapping, columns }))
+        .toEqual({ values: { id: 7, email: 'a@b.c', active: false }, errors: [] });
+    });
+
+    it('applies the validateRow checks to converted values', () => {
+      const { errors } = prepareImportRow(
+        { row: 1, values: { id: '99999999999999999999', email: null, active: null } },
+        { mapping, columns }
+      );
+
+      expect(errors).toEqual([
+        'NULL value in NOT NULL column: email',
+        'NULL value in NOT NULL column: active',
+        'Column "id" has value exceeding safe integer range',
+      ]);
+    });
+  });
+
+  it('builds upserts that update the imported non-key columns', () => {
+    expect(buildImportStatement('users', ['id', 'email'], [{ id: 1, email: 'a' }, { id: 2, email: 'b' }], 'upsert', ['id']))
+      .toEqual({
+        sql: 'INSERT INTO "public"."users" ("id", "email") VALUES ($1, $2), ($3, $4) ' +
+          'ON CONFLICT ("id") DO UPDATE SET "email" = EXCLUDED."email"',
+        params: [1, 'a', 2, 'b'],
+      });
+    expect(buildImportStatement('users', ['id'], [{ id: 1 }], 'upsert', ['id']).sql)
+      .toBe('INSERT INTO "public"."users" ("id") VALUES ($1) ON CONFLICT ("id") DO NOTHING');
+  });
+
+  describe('runExplorerImport', () => {
+    it('writes valid rows and reports parse, validation and database errors per row', async () => {
+      const unsafe = jest.fn(async (_sql: string, params: unknown[]) => {
+        if (params.includes('taken@example.com')) {
+          throw new Error('duplicate key value violates unique constraint "users_email_key"');
+        }
+        return { count: params.length / 2 };
+      });
+      const conn = { client: { unsafe } } as unknown as DrizzleConnection;
+
+      const file = parseImportFile(
+        'email,active\na@example.com,true\ntaken@example.com,false\n,true\nb@example.com\nc@example.com,no\n',
+        'csv'
+      );
+
+      const events: ExplorerImportEvent[] = [];
+      for await (const event of runExplorerImport(conn, file, {
+        tableName: 'users',
+        mode: 'insert',
+        mapping: { email: 'email', active: 'active' },
+        columns,
+        keyColumns: ['id'],
+      })) {
+        events.push(event);
+      }
+
+      expect(events).toEqual([
+        { type: 'start', total: 5 },
+        { type: 'progress', processed: 1, written: 0, failed: 1, errors: [{ row: 4, errors: ['Expected 2 fields, found 1'] }] },
+        {
+          type: 'progress',
+          processed: 5,
+          written: 2,
+          failed: 3,
+          errors: [
+            { row: 2, errors: ['duplicate key value violates unique constraint "users_email_key"'] },
+            { row: 3, errors: ['NULL value in NOT NULL column: email'] },
+          ],
+        },
+        { type: 'complete', processed: 5, written: 2, failed: 3 },
+      ]);
+      // One batch statement, then the row-by-row retry
+      expect(unsafe).toHaveBeenCalledTimes(4);
+    });
+  });
+});
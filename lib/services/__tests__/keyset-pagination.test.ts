@@ -0,0 +1,101 @@
+/**
+ * Keyset Pagination Tests
+ *
+ * Tests for cursor encoding and for the ORDER BY and "after the cursor"
+ * conditions used to page through explorer tables.
+ */
+
+import {
+  buildKeysetQuery,
+  decodeCursor,
+  encodeCursor,
+  extractCursor,
+  InvalidCursorError,
+  CURSOR_COLUMN_PREFIX,
+} from '../keyset-pagination';
+
+describe('Keyset Pagination', () => {
+  describe('cursors', () => {
+    it('round-trips cursor values', () => {
+      const cursor = ['2024-05-01 10:00:00.123456+00', null, '42'];
+      expect(decodeCursor(encodeCursor(cursor), 3)).toEqual(cursor);
+    });
+
+    it('rejects tampered or mismatched cursors', () => {
+      expect(() => decodeCursor('not-a-cursor', 1)).toThrow(InvalidCursorError);
+      expect(() => decodeCursor(encodeCursor(['1']), 2)).toThrow(InvalidCursorError);
+      expect(() => decodeCursor(Buffer.from('[1]').toString('base64url'), 1)).toThrow(InvalidCursorError);
+    });
+
+    it('splits cursor columns off fetched rows', () => {
+      const { row, cursor } = extractCursor({
+        id: 7,
+        name: 'Ada',
+        [`${CURSOR_COLUMN_PREFIX}0`]: 'Ada',
+        [`${CURSOR_COLUMN_PREFIX}1`]: '7',
+      }, 2);
+
+      expect(row).toEqual({ id: 7, name: 'Ada' });
+      expect(cursor).toEqual(['Ada', '7']);
+    });
+  });
+
+  describe('buildKeysetQuery', () => {
+    it('orders by the primary key without a cursor', () => {
+      expect(buildKeysetQuery({ direction: 'desc', keyColumns: ['id'] }, null)).toEqual({
+        condition: '',
+        params: [],
+        orderBy: '"id" DESC',
+        cursorSelect: `"id"::text AS "${CURSOR_COLUMN_PREFIX}0"`,
+        cursorLength: 1,
+      });
+    });
+
+    it('continues after a composite key', () => {
+      const query = buildKeysetQuery({ direction: 'asc', keyColumns: ['org_id', 'id'] }, ['3', '17'], 4);
+
+      expect(query.orderBy).toBe('"org_id" ASC, "id" ASC');
+      expect(query.condition).toBe('("org_id", "id") > ($4, $5)');
+      expect(query.params).toEqual(['3', '17']);
+    });
+
+    it('moves a key column chosen for sorting to the front', () => {
+      const query = buildKeysetQuery({ orderColumn: 'id', direction: 'asc', keyColumns: ['org_id', 'id'] }, null);
+      expect(query.orderBy).toBe('"id" ASC, "org_id" ASC');
+    });
+
+    it('falls back to ctid for tables without a primary key', () => {
+      const query = buildKeysetQuery({ direction: 'asc', keyColumns: [] }, ['(0,12)']);
+
+      expect(query.orderBy).toBe('ctid ASC');
+      expect(query.condition).toBe('ctid > $1');
+    });
+
+    it('handles a nullable sort column', () => {
+      const options = { orderColumn: 'email', keyColumns: ['id'] };
+
+      const asc = buildKeysetQuery({ ...options, direction: 'asc' }, ['ada@example.com', '9']);
+      expect(asc.orderBy).toBe('"email" ASC NULLS LAST, "id" ASC');
+      expect(asc.condition).toBe('("email" > $1 OR ("email" = $1 AND "id" > $2) OR "email" IS NULL)');
+      expect(asc.params).toEqual(['ada@example.com', '9']);
+
+      const desc = buildKeysetQuery({ ...options, direction: 'desc' }, ['ada@example.com', '9']);
+      expect(desc.orderBy).toBe('"email" DESC NULLS FIRST, "id" DESC');
+      expect(desc.condition).toBe('("email" < $1 OR ("email" = $1 AND "id" < $2))');
+    });
+
+    it('continues through a run of NULL sort values', () => {
+      const options = { orderColumn: 'email', keyColumns: ['id'] };
+
+      expect(buildKeysetQuery({ ...options, direction: 'asc' }, [null, '9']).condition)
+        .toBe('("email" IS NULL AND "id" > $1)');
+      expect(buildKeysetQuery({ ...options, direction: 'desc' }, [null, '9']).condition)
+        .toBe('(("email" IS NULL AND "id" < $1) OR "email" IS NOT NULL)');
+    });
+
+    it('rejects cursors that do not fit the sort', () => {
+      expect(() => buildKeysetQuery({ direction: 'asc', keyColumns: ['id'] }, ['1', '2'])).toThrow(InvalidCursorError);
+      expect(() => buildKeysetQuery({ direction: 'asc', keyColumns: ['id'] }, [null])).toThrow(InvalidCursorError);
+    });
+  });
+});
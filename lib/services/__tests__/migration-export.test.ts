@@ -0,0 +1,118 @@
+/**
+ * Migration Export Tests
+ *
+ * Tests for packaging migration plans as Supabase CLI files, drizzle-kit
+ * folders and up/down bundles.
+ */
+
+import { inflateRawSync } from 'zlib';
+import {
+  exportMigrationPlan,
+  formatMigrationTimestamp,
+  slugifyMigrationName,
+} from '../migration-export';
+import type { MigrationPlan } from '../schema-migration-generator';
+
+const createdAt = new Date('2026-03-04T05:06:07.000Z');
+
+const plan: MigrationPlan = {
+  scripts: [
+    {
+      tableName: 'orders',
+      description: 'Add column "note" (text) to "orders"',
+      sql: '-- Add column\nALTER TABLE "public"."orders" ADD COLUMN IF NOT EXISTS "note" TEXT;\n',
+      isDestructive: false,
+      severity: 'safe',
+    },
+    {
+      tableName: 'legacy',
+      description: 'DROP table "legacy" - COMMENTED OUT FOR SAFETY',
+      sql: '-- DROP TABLE "public"."legacy" CASCADE;\n',
+      isDestructive: true,
+      severity: 'dangerous',
+    },
+    {
+      tableName: 'VIEW:open_orders',
+      description: 'Create view "open_orders"',
+      sql: 'CREATE OR REPLACE VIEW "public"."open_orders" AS\nSELECT * FROM orders;\n',
+      isDestructive: false,
+      severity: 'safe',
+    },
+  ],
+  summary: { totalScripts: 3, safeScripts: 2, cautionScripts: 0, dangerousScripts: 1 },
+  fullScript: '-- full script\n',
+  rollbackScript: '-- rollback script\n',
+  renames: [],
+};
+
+/**
+ * Read the entries of an archive written by createZipArchive
+ */
+function readZip(archive: Buffer): Record<string, string> {
+  const files: Record<string, string> = {};
+  let offset = 0;
+
+  while (archive.readUInt32LE(offset) === 0x04034b50) {
+    const compressedSize = archive.readUInt32LE(offset + 18);
+    const nameLength = archive.readUInt16LE(offset + 26);
+    const dataStart = offset + 30 + nameLength;
+    const name = archive.subarray(offset + 30, dataStart).toString('utf8');
+
+    files[name] = inflateRawSync(archive.subarray(dataStart, dataStart + compressedSize)).toString('utf8');
+    offset = dataStart + compressedSize;
+  }
+
+  return files;
+}
+
+describe('Migration Export', () => {
+  it('should build file-safe names and Supabase CLI versions', () => {
+    expect(slugifyMigrationName('Sync Prod → Staging!')).toBe('sync_prod_staging');
+    expect(slugifyMigrationName('')).toBe('schema_sync');
+    expect(formatMigrationTimestamp(createdAt)).toBe('20260304050607');
+  });
+
+  it('should export a timestamped Supabase CLI migration file', () => {
+    const file = exportMigrationPlan(plan, 'supabase', { name: 'add notes', createdAt });
+
+    expect(file.filename).toBe('20260304050607_add_notes.sql');
+    expect(file.body).toBe(plan.fullScript);
+  });
+
+  it('should export a new drizzle-kit folder with one statement per breakpoint', () => {
+    const file = exportMigrationPlan(plan, 'drizzle', { name: 'add notes', createdAt });
+    const files = readZip(file.body as Buffer);
+
+    expect(Object.keys(files)).toEqual([
+      'drizzle/20260304050607_add_notes.sql',
+      'drizzle/meta/_journal.json',
+      'drizzle/README.md',
+    ]);
+
+    const chunks = files['drizzle/20260304050607_add_notes.sql'].split('\n--> statement-breakpoint\n');
+    expect(chunks).toHaveLength(2);
+    expect(chunks[0]).toContain('ALTER TABLE "public"."orders" ADD COLUMN IF NOT EXISTS "note" TEXT;');
+    // The commented-out drop rides along with the next statement
+    expect(chunks[1]).toContain('-- DROP TABLE "public"."legacy" CASCADE;');
+    expect(chunks[1]).toContain('CREATE OR REPLACE VIEW "public"."open_orders" AS\nSELECT * FROM orders;');
+
+    const journal = JSON.parse(files['drizzle/meta/_journal.json']);
+    expect(journal.entries).toEqual([
+      { idx: 0, version: '7', when: createdAt.getTime(), tag: '20260304050607_add_notes', breakpoints: true },
+    ]);
+    expect(files['drizzle/README.md']).toContain('don\'t unzip it over an\nexisting migrations folder');
+  });
+
+  it('should export an up/down bundle with a manifest', () => {
+    const file = exportMigrationPlan(plan, 'zip', { createdAt });
+    const files = readZip(file.body as Buffer);
+
+    expect(file.filename).toBe('20260304050607_schema_sync.zip');
+    expect(files['20260304050607_schema_sync/up.sql']).toBe(plan.fullScript);
+    expect(files['20260304050607_schema_sync/down.sql']).toBe(plan.rollbackScript);
+
+    const manifest = JSON.parse(files['20260304050607_schema_sync/manifest.json']);
+    expect(manifest.checksum).toMatch(/^[0-9a-f]{64}$/);
+    expect(manifest.scripts).toHaveLength(3);
+  });
+});
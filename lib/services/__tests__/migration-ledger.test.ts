@@ -0,0 +1,92 @@
+/**
+ * Migration Ledger Tests
+ *
+ * Tests for plan checksums, script splitting, the stop-on-error apply loop
+ * and picking the scripts a partial rollback undoes.
+ */
+
+import {
+  applyMigrationScripts,
+  checksumMigrationPlan,
+  getAppliedScripts,
+  getExecutableStatements,
+} from '../migration-ledger';
+import type { MigrationScript } from '../schema-migration-generator';
+
+function script(tableName: string, sql: string): MigrationScript {
+  return { tableName, description: `Change ${tableName}`, sql, isDestructive: false, severity: 'safe' };
+}
+
+describe('Migration Ledger', () => {
+  it('should checksum the same plan the same way regardless of whitespace around scripts', () => {
+    const a = checksumMigrationPlan([{ sql: 'ALTER TABLE a ADD COLUMN b int;\n' }]);
+    const b = checksumMigrationPlan([{ sql: '  ALTER TABLE a ADD COLUMN b int;' }]);
+
+    expect(a).toMatch(/^[0-9a-f]{64}$/);
+    expect(a).toBe(b);
+    expect(checksumMigrationPlan([{ sql: 'ALTER TABLE a ADD COLUMN c int;' }])).not.toBe(a);
+  });
+
+  it('should drop transaction control and comments from scripts', () => {
+    expect(getExecutableStatements(`
+      -- Rollback: Add column
+      BEGIN;
+      ALTER TABLE "public"."users" DROP COLUMN IF EXISTS "bio";
+      COMMIT;
+    `)).toEqual(['ALTER TABLE "public"."users" DROP COLUMN IF EXISTS "bio"']);
+    expect(getExecutableStatements('-- DROP TABLE legacy;')).toEqual([]);
+  });
+
+  it('should stop at the first failing script and skip the rest', async () => {
+    const executed: string[][] = [];
+    const results = await applyMigrationScripts(
+      [
+        script('users', 'ALTER TABLE users ADD COLUMN bio text;'),
+        script('orders', 'ALTER TABLE orders ADD COLUMN note text;'),
+        script('legacy', '-- DROP TABLE legacy;'),
+        script('items', 'ALTER TABLE items ADD COLUMN sku text;'),
+      ],
+      async (statements) => {
+        executed.push(statements);
+        if (statements[0].includes('orders')) {
+          throw new Error('relation "orders" does not exist');
+        }
+      }
+    );
+
+    expect(executed).toHaveLength(2);
+    expect(results.map((r) => [r.tableName, r.status])).toEqual([
+      ['users', 'success'],
+      ['orders', 'error'],
+      ['legacy', 'skipped'],
+      ['items', 'skipped'],
+    ]);
+    expect(results[1].error).toBe('relation "orders" does not exist');
+  });
+
+  it('should skip commented-out scripts without executing them', async () => {
+    const execute = jest.fn().mockResolvedValue(undefined);
+    const [result] = await applyMigrationScripts([script('legacy', '-- DROP TABLE legacy;')], execute);
+
+    expect(execute).not.toHaveBeenCalled();
+    expect(result.status).toBe('skipped');
+    expect(result.note).toBeDefined();
+  });
+
+  it('should only roll back the scripts that were applied', async () => {
+    const scripts = [
+      script('users', 'ALTER TABLE users ADD COLUMN bio text;'),
+      script('legacy', '-- DROP TABLE legacy;'),
+      script('orders', 'ALTER TABLE orders ADD COLUMN note text;'),
+      script('items', 'ALTER TABLE items ADD COLUMN sku text;'),
+    ];
+    const results = await applyMigrationScripts(scripts, async (statements) => {
+      if (statements[0].includes('orders')) {
+        throw new Error('relation "orders" does not exist');
+      }
+    });
+
+    expect(getAppliedScripts(scripts, results).map((s) => s.tableName)).toEqual(['users']);
+    expect(getAppliedScripts(scripts, [])).toEqual([]);
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Mirror Deletes Tests
+ *
+ * Tests for deciding which tables mirror source deletes, finding target rows
+ * missing from the source, and deleting them in batches.
+ */
+
+import type { DrizzleConnection } from '../drizzle-factory';
+import { getDeletedRowIds, getMirrorDeleteTables, shouldMirrorDeletes } from '../diff-engine';
+import { syncTableDeletes } from '../sync-realtime';
+import { markRowsProcessed } from '../idempotency-tracker';
+
+jest.mock('../idempotency-tracker', () => ({
+  ...jest.requireActual('../idempotency-tracker'),
+  markRowsProcessed: jest.fn(async () => undefined),
+}));
+
+jest.mock('../schema-inspector', () => ({
+  ...jest.requireActual('../schema-inspector'),
+  inspectTable: jest.fn(async (_conn: unknown, tableName: string) => ({
+    tableName,
+    columns: [{ name: 'org_id' }, { name: 'user_id' }],
+    primaryKey: { name: `${tableName}_pkey`, columns: ['org_id', 'user_id'] },
+  })),
+}));
+
+type Key = [number, number];
+
+const compareKeys = (a: Key, b: Key) => a[0] - b[0] || a[1] - b[1];
+
+/**
+ * Fake connection over an in-memory table keyed by (org_id, user_id),
+ * answering the keyset scan, key lookup and delete statements
+ */
+function createFakeConnection(initialKeys: Key[]) {
+  let keys = [...initialKeys].sort(compareKeys);
+  const statements: string[] = [];
+
+  const toTuples = (params: unknown[]) => {
+    const tuples: Key[] = [];
+    for (let i = 0; i < params.length; i += 2) {
+      tuples.push([Number(params[i]), Number(params[i + 1])]);
+    }
+    return tuples;
+  };
+  const includesKey = (tuples: Key[], key: Key) => tuples.some((t) => compareKeys(t, key) === 0);
+  const toRow = ([orgId, userId]: Key) => ({ org_id: orgId, user_id: userId });
+
+  const unsafe = jest.fn(async (sql: string, params: unknown[] = []) => {
+    statements.push(sql);
+
+    if (sql.startsWith('DELETE')) {
+      const tuples = toTuples(params);
+      const before = keys.length;
+      keys = keys.filter((key) => !includesKey(tuples, key));
+      return Object.assign([], { count: before - keys.length });
+    }
+
+    if (sql.includes(' IN (')) {
+      const tuples = toTuples(params);
+      return keys.filter((key) => includesKey(tuples, key)).map(toRow);
+    }
+
+    const limit = Number(params[params.length - 1]);
+    const after = sql.includes(' WHERE ') ? toTuples(params.slice(0, 2))[0] : null;
+    return keys
+      .filter((key) => !after || compareKeys(key, after) > 0)
+      .slice(0, limit)
+      .map(toRow);
+  });
+
+  const conn = {
+    client: {
+      unsafe,
+      begin: async (callback: (tx: { unsafe: typeof unsafe }) => Promise<unknown>) => callback({ unsafe }),
+    },
+  } as unknown as DrizzleConnection;
+
+  return { conn, statements, keys: () => keys };
+}
+
+describe('Mirror Deletes', () => {
+  describe('shouldMirrorDeletes', () => {
+    it('always mirrors deletes in one-way mode', () => {
+      expect(shouldMirrorDeletes('one_way', 'target_wins')).toBe(true);
+      expect(shouldMirrorDeletes('one_way')).toBe(true);
+    });
+
+    it('only mirrors deletes in two-way mode when the source wins', () => {
+      expect(shouldMirrorDeletes('two_way', 'source_wins')).toBe(true);
+      expect(shouldMirrorDeletes('two_way', 'last_write_wins')).toBe(false);
+      expect(shouldMirrorDeletes('two_way', 'target_wins')).toBe(false);
+      expect(shouldMirrorDeletes('two_way', 'manual')).toBe(false);
+      expect(shouldMirrorDeletes('two_way')).toBe(false);
+    });
+
+    it('lists the enabled tables whose deletes will be mirrored', () => {
+      const tables = [
+        { tableName: 'orders', enabled: true, mirrorDeletes: true, conflictStrategy: 'source_wins' as const },
+        { tableName: 'users', enabled: true, mirrorDeletes: true, conflictStrategy: 'last_write_wins' as const },
+        { tableName: 'logs', enabled: false, mirrorDeletes: true },
+        { tableName: 'tags', enabled: true, mirrorDeletes: false },
+      ];
+
+      expect(getMirrorDeleteTables(tables, 'one_way')).toEqual(['orders', 'users']);
+      expect(getMirrorDeleteTables(tables, 'two_way')).toEqual(['orders']);
+    });
+  });
+
+  describe('getDeletedRowIds', () => {
+    it('pages through target keys and returns those missing from the source', async () => {
+      const source = createFakeConnection([[1, 1], [1, 3], [2, 1]]);
+      const target = createFakeConnection([[1, 1], [1, 2], [1, 3], [2, 1], [2, 2]]);
+      const primaryKey = ['org_id', 'user_id'];
+
+      const first = await getDeletedRowIds(source.conn, target.conn, 'members', undefined, 3, primaryKey);
+      expect(first).toEqual({ ids: ['["1","2"]'], hasMore: true, lastId: '["1","3"]' });
+
+      const second = await getDeletedRowIds(source.conn, target.conn, 'members', first.lastId!, 3, primaryKey);
+      expect(second).toEqual({ ids: ['["2","2"]'], hasMore: false, lastId: '["2","2"]' });
+
+      expect(target.statements[1]).toBe(
+        'SELECT "org_id", "user_id" FROM "public"."members" WHERE ("org_id", "user_id") > ($1, $2) ' +
+        'ORDER BY "org_id" ASC, "user_id" ASC LIMIT $3'
+      );
+    });
+
+    it('returns nothing for an empty target', async () => {
+      const source = createFakeConnection([[1, 1]]);
+      const target = createFakeConnection([]);
+
+      expect(await getDeletedRowIds(source.conn, target.conn, 'members', undefined, 10, ['org_id', 'user_id']))
+        .toEqual({ ids: [], hasMore: false, lastId: null });
+      expect(source.statements).toEqual([]);
+    });
+
+    it('rejects invalid table names', async () => {
+      const conn = createFakeConnection([]).conn;
+      await expect(getDeletedRowIds(conn, conn, 'users; DROP TABLE x')).rejects.toThrow('Invalid table name');
+    });
+  });
+
+  describe('syncTableDeletes', () => {
+    it('deletes source-missing target rows in batches by primary key', async () => {
+      const source = createFakeConnection([[1, 1], [2, 1]]);
+      const target = createFakeConnection([[1, 1], [1, 2], [1, 3], [2, 1], [3, 1]]);
+      const onDeleted = jest.fn();
+
+      const result = await syncTableDeletes({
+        sourceConn: source.conn,
+        targetConn: target.conn,
+        tableName: 'members',
+        batchSize: 3,
+        jobId: 'job-1',
+        onDeleted,
+        onLog: jest.fn(),
+      });
+
+      expect(result).toEqual({ deleted: 3, cancelled: false });
+      expect(target.keys()).toEqual([[1, 1], [2, 1]]);
+      expect(onDeleted.mock.calls).toEqual([[2], [1]]);
+      expect(target.statements).toContain(
+        'DELETE FROM "public"."members" WHERE ("org_id", "user_id") IN (($1, $2), ($3, $4))'
+      );
+      expect(markRowsProcessed).toHaveBeenCalledWith([
+        expect.objectContaining({ syncJobId: 'job-1', tableName: 'members', rowId: '["3","1"]', operation: 'delete' }),
+      ]);
+    });
+
+    it('leaves the target untouched when every row exists in the source', async () => {
+      const source = createFakeConnection([[1, 1], [1, 2]]);
+      const target = createFakeConnection([[1, 1], [1, 2]]);
+
+      const result = await syncTableDeletes({
+        sourceConn: source.conn,
+        targetConn: target.conn,
+        tableName: 'members',
+        batchSize: 10,
+        jobId: 'job-2',
+        onDeleted: jest.fn(),
+        onLog: jest.fn(),
+      });
+
+      expect(result).toEqual({ deleted: 0, cancelled: false });
+      expect(target.statements.some((sql) => sql.startsWith('DELETE'))).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Primary Key Tests
+ *
+ * Tests for choosing the key a table is synced by, serializing keys for
+ * checkpoints, and the SQL fragments used to page through and match rows.
+ */
+
+import {
+  buildKeyColumnList,
+  buildKeyMatchCondition,
+  buildKeyOrderBy,
+  buildKeysetCondition,
+  buildKeyUpperBoundCondition,
+  flattenKeys,
+  getSyncKeyColumns,
+  parseRowKey,
+  serializeRowKey,
+} from '../primary-key';
+
+describe('Primary Key', () => {
+  describe('getSyncKeyColumns', () => {
+    it('uses the declared primary key in key order', () => {
+      expect(getSyncKeyColumns({
+        primaryKey: { name: 'members_pkey', columns: ['org_id', 'user_id'] },
+        columns: [],
+      })).toEqual(['org_id', 'user_id']);
+    });
+
+    it('falls back to an id column, and returns null without one', () => {
+      const column = (name: string) => ({ name }) as never;
+
+      expect(getSyncKeyColumns({ primaryKey: null, columns: [column('id'), column('name')] })).toEqual(['id']);
+      expect(getSyncKeyColumns({ primaryKey: null, columns: [column('name')] })).toBeNull();
+    });
+  });
+
+  describe('serializeRowKey / parseRowKey', () => {
+    it('serializes single-column keys as their plain value', () => {
+      expect(serializeRowKey({ id: 42, name: 'x' }, ['id'])).toBe('42');
+      expect(serializeRowKey({ id: 9007199254740993n }, ['id'])).toBe('9007199254740993');
+      expect(parseRowKey('42', ['id'])).toEqual(['42']);
+    });
+
+    it('serializes composite keys as a JSON array of strings', () => {
+      const key = serializeRowKey(
+        { org_id: 1, created_on: new Date('2024-05-01T00:00:00Z'), note: 'x' },
+        ['org_id', 'created_on']
+      );
+
+      expect(key).toBe('["1","2024-05-01T00:00:00.000Z"]');
+      expect(parseRowKey(key, ['org_id', 'created_on'])).toEqual(['1', '2024-05-01T00:00:00.000Z']);
+    });
+
+    it('returns an empty key when a key column is null or missing', () => {
+      expect(serializeRowKey({ org_id: 1, user_id: null }, ['org_id', 'user_id'])).toBe('');
+      expect(serializeRowKey({}, ['id'])).toBe('');
+    });
+
+    it('rejects composite keys of the wrong shape', () => {
+      expect(() => parseRowKey('not json', ['a', 'b'])).toThrow('Invalid composite key');
+      expect(() => parseRowKey('["1"]', ['a', 'b'])).toThrow('Invalid composite key');
+      expect(() => parseRowKey('[1,2]', ['a', 'b'])).toThrow('Invalid composite key');
+    });
+  });
+
+  describe('SQL builders', () => {
+    const key = ['org_id', 'user_id'];
+
+    it('builds column lists and ORDER BY clauses', () => {
+      expect(buildKeyColumnList(['id'])).toBe('"id"');
+      expect(buildKeyColumnList(key)).toBe('"org_id", "user_id"');
+      expect(buildKeyOrderBy(key)).toBe('"org_id" ASC, "user_id" ASC');
+    });
+
+    it('builds keyset range conditions with row-value comparisons for composite keys', () => {
+      expect(buildKeysetCondition(['id'], 3)).toBe('"id" > $3');
+      expect(buildKeysetCondition(key, 2)).toBe('("org_id", "user_id") > ($2, $3)');
+      expect(buildKeyUpperBoundCondition(['id'], 1)).toBe('"id" <= $1');
+      expect(buildKeyUpperBoundCondition(key, 4)).toBe('("org_id", "user_id") <= ($4, $5)');
+    });
+
+    it('builds match conditions whose params come from flattenKeys', () => {
+      expect(buildKeyMatchCondition(['id'], 3)).toBe('"id" IN ($1, $2, $3)');
+      expect(buildKeyMatchCondition(key, 2, 5)).toBe('("org_id", "user_id") IN (($5, $6), ($7, $8))');
+      expect(flattenKeys(['["1","a"]', '["2","b"]'], key)).toEqual(['1', 'a', '2', 'b']);
+      expect(flattenKeys(['7', '8'], ['id'])).toEqual(['7', '8']);
+    });
+
+    it('quotes key column names', () => {
+      expect(buildKeyColumnList(['Order "Id"'])).toBe('"Order ""Id"""');
+      expect(() => buildKeyOrderBy([''])).toThrow('Invalid identifier');
+    });
+  });
+});
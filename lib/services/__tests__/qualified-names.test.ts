@@ -0,0 +1,98 @@
+/**
+ * Qualified Table Name Tests
+ *
+ * Tests for splitting, validating, keying and quoting table names that may
+ * be prefixed with a schema (`schema.table`).
+ */
+
+import {
+  escapeQualifiedName,
+  isValidQualifiedTableName,
+  parseQualifiedTableName,
+  qualifiedTableNameSql,
+  qualifyTableName,
+  SecurityError,
+  validateTableNames,
+} from '../security-utils';
+
+describe('Qualified Table Names', () => {
+  describe('parseQualifiedTableName', () => {
+    it('puts bare names in the public schema', () => {
+      expect(parseQualifiedTableName('users')).toEqual({ schema: 'public', table: 'users' });
+    });
+
+    it('splits on the first dot and keeps case', () => {
+      expect(parseQualifiedTableName('billing.invoices')).toEqual({ schema: 'billing', table: 'invoices' });
+      expect(parseQualifiedTableName('Billing.Invoices')).toEqual({ schema: 'Billing', table: 'Invoices' });
+      expect(parseQualifiedTableName('a.b.c')).toEqual({ schema: 'a', table: 'b.c' });
+    });
+  });
+
+  describe('qualifyTableName', () => {
+    it('keeps bare names for public and prefixes other schemas', () => {
+      expect(qualifyTableName('public', 'users')).toBe('users');
+      expect(qualifyTableName('Billing', 'Invoices')).toBe('Billing.Invoices');
+    });
+
+    it('round-trips with parseQualifiedTableName', () => {
+      for (const name of ['users', 'billing.invoices', 'Audit_Log.Events']) {
+        const { schema, table } = parseQualifiedTableName(name);
+        expect(qualifyTableName(schema, table)).toBe(name);
+      }
+    });
+
+    it('has a SQL equivalent for catalog queries', () => {
+      expect(qualifiedTableNameSql('n.nspname', 'c.relname')).toBe(
+        "CASE WHEN n.nspname = 'public' THEN c.relname ELSE n.nspname || '.' || c.relname END"
+      );
+    });
+  });
+
+  describe('isValidQualifiedTableName', () => {
+    it('accepts bare, qualified and mixed-case names', () => {
+      expect(isValidQualifiedTableName('users')).toBe(true);
+      expect(isValidQualifiedTableName('billing.invoices')).toBe(true);
+      expect(isValidQualifiedTableName('Billing.Invoices')).toBe(true);
+      expect(isValidQualifiedTableName('public.users')).toBe(true);
+    });
+
+    it('rejects extra or misplaced dots', () => {
+      expect(isValidQualifiedTableName('a.b.c')).toBe(false);
+      expect(isValidQualifiedTableName('.users')).toBe(false);
+      expect(isValidQualifiedTableName('billing.')).toBe(false);
+    });
+
+    it('rejects quoted names, which are never used as table keys', () => {
+      expect(isValidQualifiedTableName('"billing"."invoices"')).toBe(false);
+      expect(isValidQualifiedTableName('"my.schema".users')).toBe(false);
+      expect(isValidQualifiedTableName('billing."Invoices"')).toBe(false);
+    });
+
+    it('rejects system schemas and tables', () => {
+      expect(isValidQualifiedTableName('pg_catalog.pg_class')).toBe(false);
+      expect(isValidQualifiedTableName('information_schema.tables')).toBe(false);
+      expect(isValidQualifiedTableName('billing.pg_stats')).toBe(false);
+    });
+
+    it('splits a list into valid and invalid names', () => {
+      expect(validateTableNames(['users', 'billing.invoices', 'a.b.c', 'users;drop'])).toEqual({
+        valid: ['users', 'billing.invoices'],
+        invalid: ['a.b.c', 'users;drop'],
+      });
+    });
+  });
+
+  describe('escapeQualifiedName', () => {
+    it('quotes each part separately, preserving case', () => {
+      expect(escapeQualifiedName('users')).toBe('"public"."users"');
+      expect(escapeQualifiedName('billing.invoices')).toBe('"billing"."invoices"');
+      expect(escapeQualifiedName('Billing.Invoices')).toBe('"Billing"."Invoices"');
+    });
+
+    it('refuses names that would need more than quoting', () => {
+      expect(() => escapeQualifiedName('a.b.c')).toThrow(SecurityError);
+      expect(() => escapeQualifiedName('"billing".invoices')).toThrow('Invalid table name');
+      expect(() => escapeQualifiedName('users"; DROP TABLE x; --')).toThrow(SecurityError);
+    });
+  });
+});
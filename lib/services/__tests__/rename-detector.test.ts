@@ -0,0 +1,109 @@
+/**
+ * Rename Detector Tests
+ *
+ * Tests for pairing unmatched tables and columns into rename candidates.
+ */
+
+import { detectRenameCandidates, nameSimilarity } from '../rename-detector';
+import type { DatabaseSchema, DetailedColumn, DetailedTableSchema } from '@/types';
+
+function column(name: string, udtName: string, ordinalPosition: number, overrides: Partial<DetailedColumn> = {}): DetailedColumn {
+  return {
+    name,
+    dataType: udtName,
+    udtName,
+    isNullable: true,
+    defaultValue: null,
+    maxLength: null,
+    numericPrecision: null,
+    isPrimaryKey: false,
+    ordinalPosition,
+    ...overrides,
+  };
+}
+
+function table(tableName: string, columns: DetailedColumn[], overrides: Partial<DetailedTableSchema> = {}): DetailedTableSchema {
+  return {
+    tableName,
+    columns,
+    primaryKey: { constraintName: `${tableName}_pkey`, columns: ['id'] },
+    foreignKeys: [],
+    constraints: [],
+    indexes: [],
+    rowCount: 0,
+    ...overrides,
+  };
+}
+
+function schema(tables: DetailedTableSchema[]): DatabaseSchema {
+  return {
+    tables,
+    enums: [],
+    views: [],
+    functions: [],
+    triggers: [],
+    sequences: [],
+    extensions: [],
+    policies: [],
+    syncableTables: tables.map((t) => t.tableName),
+    version: 'PostgreSQL 15',
+    inspectedAt: new Date(),
+  };
+}
+
+const id = column('id', 'uuid', 1, { isPrimaryKey: true, isNullable: false });
+
+describe('Rename Detector', () => {
+  it('should score similar identifiers higher than unrelated ones', () => {
+    expect(nameSimilarity('user_id', 'user_id')).toBe(1);
+    expect(nameSimilarity('name', 'full_name')).toBeGreaterThanOrEqual(0.5);
+    expect(nameSimilarity('created', 'created_at')).toBeGreaterThan(nameSimilarity('created', 'notes'));
+  });
+
+  it('should propose a column rename with matching type and position', () => {
+    const candidates = detectRenameCandidates(
+      schema([table('users', [id, column('full_name', 'text', 2), column('bio', 'text', 3)])]),
+      schema([table('users', [id, column('name', 'text', 2)])]),
+      ['users']
+    );
+
+    expect(candidates).toHaveLength(1);
+    expect(candidates[0]).toMatchObject({
+      id: 'column:users:name->full_name',
+      kind: 'column',
+      tableName: 'users',
+      from: 'name',
+      to: 'full_name',
+    });
+    expect(candidates[0].confidence).toBeGreaterThanOrEqual(0.5);
+    expect(candidates[0].reasons).toContain('same position (2)');
+  });
+
+  it('should never pair columns of different types', () => {
+    const candidates = detectRenameCandidates(
+      schema([table('users', [id, column('full_name', 'text', 2)])]),
+      schema([table('users', [id, column('name', 'int4', 2)])]),
+      ['users']
+    );
+
+    expect(candidates).toEqual([]);
+  });
+
+  it('should propose a table rename within the same schema', () => {
+    const columns = [id, column('email', 'text', 2), column('created_at', 'timestamptz', 3)];
+    const candidates = detectRenameCandidates(
+      schema([table('accounts', columns), table('billing.invoices', [id])]),
+      schema([table('users', columns), table('audit.accounts', columns)]),
+      ['accounts']
+    );
+
+    expect(candidates).toHaveLength(1);
+    expect(candidates[0]).toMatchObject({
+      id: 'table:users->accounts',
+      kind: 'table',
+      from: 'users',
+      to: 'accounts',
+    });
+    expect(candidates[0].reasons).toContain('3 of 3 columns match');
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Row Changes Tests
+ *
+ * Tests for validating explorer change sets and compiling them into
+ * parameterized statements.
+ */
+
+import {
+  compileRowChanges,
+  validateRowChanges,
+  MAX_ROW_CHANGES,
+  type RowChangeSet,
+} from '../row-changes';
+
+describe('Row Changes', () => {
+  const columns = ['org_id', 'id', 'name', 'settings'];
+  const keyColumns = ['org_id', 'id'];
+
+  const changeSet = (changes: Partial<RowChangeSet>): RowChangeSet => ({
+    inserts: [],
+    updates: [],
+    deletes: [],
+    ...changes,
+  });
+
+  describe('validateRowChanges', () => {
+    it('accepts a valid change set', () => {
+      const errors = validateRowChanges(changeSet({
+        inserts: [{ values: { org_id: 1, id: 9, name: 'new' } }],
+        updates: [{ key: { org_id: 1, id: 2 }, values: { name: 'renamed' } }],
+        deletes: [{ key: { org_id: 1, id: 3 } }],
+      }), columns, keyColumns);
+
+      expect(errors).toEqual([]);
+    });
+
+    it('rejects empty and oversized change sets', () => {
+      expect(validateRowChanges(changeSet({}), columns, keyColumns)).toEqual(['No changes to apply']);
+
+      const inserts = Array.from({ length: MAX_ROW_CHANGES + 1 }, () => ({ values: {} }));
+      expect(validateRowChanges(changeSet({ inserts }), columns, keyColumns)).toEqual([
+        `At most ${MAX_ROW_CHANGES} rows can be changed at once`,
+      ]);
+    });
+
+    it('rejects unknown columns, incomplete keys and key changes', () => {
+      const errors = validateRowChanges(changeSet({
+        inserts: [{ values: { nope: 1 } }],
+        updates: [
+          { key: { id: 2 }, values: { name: 'x' } },
+          { key: { org_id: 1, id: 2 }, values: { id: 5 } },
+          { key: { org_id: 1, id: 2 }, values: {} },
+        ],
+        deletes: [{ key: { org_id: null, id: 3 } }],
+      }), columns, keyColumns);
+
+      expect(errors).toEqual([
+        'Insert 1: column "nope" does not exist',
+        'Update 1: key must set exactly (org_id, id)',
+        'Update 2: primary key column "id" cannot be changed',
+        'Update 3: no columns to change',
+        'Delete 1: key must set exactly (org_id, id)',
+      ]);
+    });
+
+    it('only allows inserts into tables without a primary key', () => {
+      expect(validateRowChanges(changeSet({ inserts: [{ values: { name: 'a' } }] }), columns, [])).toEqual([]);
+      expect(validateRowChanges(changeSet({ deletes: [{ key: { id: 1 } }] }), columns, [])).toEqual([
+        'Rows of a table without a primary key cannot be updated or deleted',
+      ]);
+    });
+  });
+
+  describe('compileRowChanges', () => {
+    it('orders deletes, updates then inserts with parameterized values', () => {
+      const statements = compileRowChanges('billing.accounts', changeSet({
+        inserts: [{ values: { org_id: 1, id: 9, settings: { theme: 'dark' } } }, { values: {} }],
+        updates: [{ key: { org_id: 1, id: 2 }, values: { name: "O'Brien", settings: null } }],
+        deletes: [{ key: { org_id: 1, id: 3 } }],
+      }), keyColumns);
+
+      expect(statements.map(({ kind, sql, params }) => ({ kind, sql, params }))).toEqual([
+        {
+          kind: 'delete',
+          sql: 'DELETE FROM "billing"."accounts" WHERE ("org_id", "id") IN (($1, $2)) RETURNING 1',
+          params: [1, 3],
+        },
+        {
+          kind: 'update',
+          sql: 'UPDATE "billing"."accounts" SET "name" = $1, "settings" = $2 WHERE ("org_id", "id") IN (($3, $4)) RETURNING *',
+          params: ["O'Brien", null, 1, 2],
+        },
+        {
+          kind: 'insert',
+          sql: 'INSERT INTO "billing"."accounts" ("org_id", "id", "settings") VALUES ($1, $2, $3) RETURNING *',
+          params: [1, 9, '{"theme":"dark"}'],
+        },
+        {
+          kind: 'insert',
+          sql: 'INSERT INTO "billing"."accounts" DEFAULT VALUES RETURNING *',
+          params: [],
+        },
+      ]);
+    });
+
+    it('matches single-column keys with IN', () => {
+      const [statement] = compileRowChanges('users', changeSet({
+        deletes: [{ key: { id: 'a0c1' } }],
+      }), ['id']);
+
+      expect(statement.sql).toBe('DELETE FROM "public"."users" WHERE "id" IN ($1) RETURNING 1');
+      expect(statement.params).toEqual(['a0c1']);
+    });
+  });
+});
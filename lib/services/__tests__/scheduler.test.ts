@@ -0,0 +1,194 @@
+/**
+ * Scheduler Tests
+ *
+ * Tests for creating, updating and triggering sync schedules persisted in
+ * the `scheduled_syncs` table, with next runs kept in step with the schedule.
+ */
+
+import type { ScheduledSync } from '@/types/supabase';
+import { supabaseScheduledSyncStore } from '@/lib/db/supabase-store';
+import {
+  createScheduledJob,
+  deleteScheduledJob,
+  getScheduledJob,
+  getScheduledJobs,
+  triggerScheduledJob,
+  updateScheduledJob,
+} from '../scheduler';
+
+jest.mock('@/lib/db/supabase-store', () => {
+  const rows = new Map<string, Record<string, unknown>>();
+  let nextId = 1;
+
+  const toColumns = (data: Record<string, unknown>) => {
+    const columns: Record<string, unknown> = {};
+    const names: Record<string, string> = {
+      name: 'name',
+      sourceConnectionId: 'source_connection_id',
+      targetConnectionId: 'target_connection_id',
+      direction: 'direction',
+      tablesConfig: 'tables_config',
+      cronExpression: 'cron_expression',
+      timezone: 'timezone',
+      enabled: 'enabled',
+    };
+    for (const [key, column] of Object.entries(names)) {
+      if (data[key] !== undefined) columns[column] = data[key];
+    }
+    if (data.nextRunAt !== undefined) {
+      columns.next_run_at = (data.nextRunAt as Date | null)?.toISOString() ?? null;
+    }
+    return columns;
+  };
+  const owned = (id: string, userId: string) => {
+    const row = rows.get(id);
+    return row && row.user_id === userId ? row : null;
+  };
+
+  return {
+    supabaseScheduledSyncStore: {
+      rows,
+      getAll: jest.fn(async (userId: string) => [...rows.values()].filter((r) => r.user_id === userId)),
+      getById: jest.fn(async (id: string, userId: string) => owned(id, userId)),
+      create: jest.fn(async (userId: string, data: Record<string, unknown>) => {
+        const now = new Date().toISOString();
+        const row = {
+          id: `schedule-${nextId++}`,
+          user_id: userId,
+          last_run_at: null,
+          last_run_status: null,
+          last_run_job_id: null,
+          created_at: now,
+          updated_at: now,
+          ...toColumns(data),
+        };
+        rows.set(row.id, row);
+        return row;
+      }),
+      update: jest.fn(async (id: string, userId: string, data: Record<string, unknown>) => {
+        const row = owned(id, userId);
+        if (!row) return null;
+        Object.assign(row, toColumns(data));
+        return row;
+      }),
+      delete: jest.fn(async (id: string, userId: string) => !!owned(id, userId) && rows.delete(id)),
+    },
+  };
+});
+
+const store = supabaseScheduledSyncStore as unknown as {
+  rows: Map<string, ScheduledSync>;
+  update: jest.Mock;
+};
+
+const scheduleInput = {
+  name: 'Nightly users',
+  sourceConnectionId: 'source-1',
+  targetConnectionId: 'target-1',
+  tables: [{ tableName: 'users', enabled: true }],
+  direction: 'one_way' as const,
+  cronExpression: '0 2 * * *',
+};
+
+describe('Scheduler', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2024-05-01T10:30:00Z'));
+    store.rows.clear();
+    jest.clearAllMocks();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('createScheduledJob', () => {
+    it('persists the schedule with its next run in the schedule timezone', async () => {
+      const job = await createScheduledJob('user-1', { ...scheduleInput, timezone: 'Europe/Berlin' });
+
+      expect(job).toMatchObject({
+        userId: 'user-1',
+        name: 'Nightly users',
+        cronExpression: '0 2 * * *',
+        timezone: 'Europe/Berlin',
+        enabled: true,
+        tables: [{ tableName: 'users', enabled: true }],
+        lastRunAt: null,
+        lastRunStatus: null,
+      });
+      // 02:00 in Berlin (UTC+2 in May)
+      expect(job.nextRunAt).toEqual(new Date('2024-05-02T00:00:00Z'));
+      expect(await getScheduledJob(job.id, 'user-1')).toEqual(job);
+    });
+
+    it('defaults to UTC and leaves disabled schedules without a next run', async () => {
+      const job = await createScheduledJob('user-1', { ...scheduleInput, enabled: false });
+
+      expect(job.timezone).toBe('UTC');
+      expect(job.nextRunAt).toBeNull();
+    });
+
+    it('rejects invalid cron expressions without saving', async () => {
+      await expect(createScheduledJob('user-1', { ...scheduleInput, cronExpression: '61 * * * *' }))
+        .rejects.toThrow();
+      expect(store.rows.size).toBe(0);
+    });
+  });
+
+  describe('updateScheduledJob', () => {
+    it('recalculates the next run when the schedule changes', async () => {
+      const job = await createScheduledJob('user-1', scheduleInput);
+
+      const updated = await updateScheduledJob(job.id, 'user-1', { cronExpression: '45 10 * * *' });
+
+      expect(updated?.cronExpression).toBe('45 10 * * *');
+      expect(updated?.nextRunAt).toEqual(new Date('2024-05-01T10:45:00Z'));
+    });
+
+    it('clears the next run when disabled and keeps it for other edits', async () => {
+      const job = await createScheduledJob('user-1', scheduleInput);
+
+      const renamed = await updateScheduledJob(job.id, 'user-1', { name: 'Renamed' });
+      expect(renamed?.nextRunAt).toEqual(job.nextRunAt);
+      expect(store.update).toHaveBeenLastCalledWith(job.id, 'user-1', expect.not.objectContaining({ nextRunAt: expect.anything() }));
+
+      const disabled = await updateScheduledJob(job.id, 'user-1', { enabled: false });
+      expect(disabled?.enabled).toBe(false);
+      expect(disabled?.nextRunAt).toBeNull();
+    });
+
+    it('rejects an invalid timezone and ignores other users\' schedules', async () => {
+      const job = await createScheduledJob('user-1', scheduleInput);
+
+      await expect(updateScheduledJob(job.id, 'user-1', { timezone: 'Mars/Olympus' })).rejects.toThrow();
+      expect(await updateScheduledJob(job.id, 'user-2', { name: 'Stolen' })).toBeNull();
+      expect((await getScheduledJob(job.id, 'user-1'))?.name).toBe('Nightly users');
+    });
+  });
+
+  describe('triggerScheduledJob', () => {
+    it('marks an enabled schedule as due now', async () => {
+      const job = await createScheduledJob('user-1', scheduleInput);
+
+      expect(await triggerScheduledJob(job.id, 'user-1')).toBe(true);
+      expect((await getScheduledJob(job.id, 'user-1'))?.nextRunAt).toEqual(new Date('2024-05-01T10:30:00Z'));
+    });
+
+    it('does not trigger disabled or unknown schedules', async () => {
+      const job = await createScheduledJob('user-1', { ...scheduleInput, enabled: false });
+
+      expect(await triggerScheduledJob(job.id, 'user-1')).toBe(false);
+      expect(await triggerScheduledJob('missing', 'user-1')).toBe(false);
+    });
+  });
+
+  it('lists and deletes only the user\'s schedules', async () => {
+    const mine = await createScheduledJob('user-1', scheduleInput);
+    await createScheduledJob('user-2', scheduleInput);
+
+    expect((await getScheduledJobs('user-1')).map((j) => j.id)).toEqual([mine.id]);
+    expect(await deleteScheduledJob(mine.id, 'user-2')).toBe(false);
+    expect(await deleteScheduledJob(mine.id, 'user-1')).toBe(true);
+    expect(await getScheduledJobs('user-1')).toEqual([]);
+  });
+});
@@ -0,0 +1,312 @@
+/**
+ * Schema Migration Generator Tests
+ *
+ * Tests for the scripts generated for database objects around tables:
+ * extensions, sequences, functions, views, triggers and RLS policies.
+ */
+
+import { generateMigrationPlan } from '../schema-migration-generator';
+import type { DatabaseSchema, DetailedTableSchema, SchemaValidationResult } from '@/types';
+
+function table(tableName: string, overrides: Partial<DetailedTableSchema> = {}): DetailedTableSchema {
+  return {
+    tableName,
+    columns: [],
+    primaryKey: null,
+    foreignKeys: [],
+    constraints: [],
+    indexes: [],
+    rowCount: 0,
+    ...overrides,
+  };
+}
+
+function schema(overrides: Partial<DatabaseSchema> = {}): DatabaseSchema {
+  return {
+    tables: [table('orders')],
+    enums: [],
+    views: [],
+    functions: [],
+    triggers: [],
+    sequences: [],
+    extensions: [],
+    policies: [],
+    syncableTables: ['orders'],
+    version: 'PostgreSQL 15',
+    inspectedAt: new Date(),
+    ...overrides,
+  };
+}
+
+function validationResult(sourceSchema: DatabaseSchema, targetSchema: DatabaseSchema): SchemaValidationResult {
+  return {
+    isValid: false,
+    canProceed: true,
+    requiresConfirmation: false,
+    issues: [],
+    summary: { critical: 0, high: 0, medium: 0, low: 0, info: 0 },
+    sourceSchema,
+    targetSchema,
+    comparisonDetails: [{
+      tableName: 'orders',
+      existsInSource: true,
+      existsInTarget: true,
+      isCompatible: true,
+      columnComparison: [],
+      foreignKeyIssues: [],
+      constraintIssues: [],
+      indexDifferences: [],
+    }],
+  };
+}
+
+const touchFunction = {
+  schema: 'public',
+  name: 'touch_updated_at',
+  identityArguments: '',
+  kind: 'function' as const,
+  language: 'plpgsql',
+  definition: 'CREATE OR REPLACE FUNCTION public.touch_updated_at()\n RETURNS trigger\n LANGUAGE plpgsql\nAS $function$\nBEGIN NEW.updated_at = now(); RETURN NEW; END;\n$function$',
+};
+
+describe('Schema Migration Generator', () => {
+  it('should order object scripts so dependencies are created first', () => {
+    const source = schema({
+      tables: [table('orders', { rlsEnabled: true })],
+      extensions: [{ name: 'pg_trgm', schema: 'extensions', version: '1.6' }],
+      functions: [touchFunction],
+      views: [{ schema: 'public', name: 'open_orders', isMaterialized: false, definition: ' SELECT * FROM orders;' }],
+      triggers: [{
+        tableName: 'orders',
+        name: 'orders_touch',
+        isEnabled: true,
+        definition: 'CREATE TRIGGER orders_touch BEFORE UPDATE ON public.orders FOR EACH ROW EXECUTE FUNCTION touch_updated_at()',
+      }],
+      policies: [{
+        tableName: 'orders',
+        name: 'own orders',
+        permissive: true,
+        command: 'SELECT',
+        roles: ['authenticated'],
+        using: '(auth.uid() = user_id)',
+        withCheck: null,
+      }],
+      sequences: [{
+        schema: 'public',
+        name: 'orders_id_seq',
+        dataType: 'bigint',
+        startValue: '1',
+        increment: '1',
+        minValue: '1',
+        maxValue: '9223372036854775807',
+        cycle: false,
+        lastValue: '42',
+        ownedBy: 'orders.id',
+        isIdentity: false,
+      }],
+    });
+
+    const plan = generateMigrationPlan(validationResult(source, schema()));
+
+    expect(plan.scripts.map((s) => s.description)).toEqual([
+      'Create extension "pg_trgm" in schema "extensions"',
+      'Create sequence "orders_id_seq"',
+      'Create function "touch_updated_at()"',
+      'Create view "open_orders"',
+      'Create trigger "orders_touch" on "orders"',
+      'Enable row level security on "orders"',
+      'Create policy "own orders" on "orders"',
+      'Set sequence "orders_id_seq" to 42',
+    ]);
+    expect(plan.scripts[3].sql).toContain('CREATE OR REPLACE VIEW "public"."open_orders" AS\nSELECT * FROM orders;');
+    expect(plan.scripts[6].sql).toContain('TO "authenticated"\n    USING ((auth.uid() = user_id));');
+
+    // Rollback runs in reverse: policies before the functions they may call
+    expect(plan.rollbackScript.indexOf('DROP POLICY IF EXISTS "own orders"'))
+      .toBeLessThan(plan.rollbackScript.indexOf('DROP FUNCTION IF EXISTS "public"."touch_updated_at"()'));
+    expect(plan.rollbackScript).toContain('DROP EXTENSION IF EXISTS "pg_trgm";');
+  });
+
+  it('should only migrate functions and views used by the selected tables, views in dependency order', () => {
+    const auditFunction = { ...touchFunction, name: 'audit_invoice', definition: touchFunction.definition.replace(/touch_updated_at/g, 'audit_invoice') };
+    const helperFunction = { ...touchFunction, name: 'round_money', identityArguments: 'amount numeric', definition: 'CREATE OR REPLACE FUNCTION public.round_money(amount numeric)\n RETURNS numeric\n LANGUAGE sql\nAS $function$ SELECT round(amount, 2) $function$' };
+    const view = (name: string, dependsOn: string[]) => ({ schema: 'public', name, isMaterialized: false, definition: 'SELECT 1', dependsOn });
+    const source = schema({
+      functions: [auditFunction, touchFunction, helperFunction],
+      views: [view('order_totals', ['open_orders']), view('open_orders', ['orders']), view('open_invoices', ['invoices'])],
+      triggers: [
+        { tableName: 'orders', name: 'orders_touch', isEnabled: true, definition: 'CREATE TRIGGER orders_touch BEFORE UPDATE ON public.orders FOR EACH ROW EXECUTE FUNCTION touch_updated_at()', functionName: 'touch_updated_at' },
+        { tableName: 'invoices', name: 'invoices_audit', isEnabled: true, definition: 'CREATE TRIGGER invoices_audit AFTER UPDATE ON public.invoices FOR EACH ROW EXECUTE FUNCTION audit_invoice()', functionName: 'audit_invoice' },
+      ],
+    });
+
+    const plan = generateMigrationPlan(validationResult(source, schema()));
+
+    expect(plan.scripts.map((s) => s.description)).toEqual([
+      'Create function "touch_updated_at()"',
+      'Create function "round_money(amount numeric)"',
+      'Create view "open_orders"',
+      'Create view "order_totals"',
+      'Create trigger "orders_touch" on "orders"',
+    ]);
+    // Functions run before the tables they may refer to
+    expect(plan.scripts[1].sql).toContain('SET LOCAL check_function_bodies = off;');
+  });
+
+  it('should restore the previous definition when rolling back a replaced function', () => {
+    const changed = { ...touchFunction, definition: touchFunction.definition.replace('now()', 'clock_timestamp()') };
+    const plan = generateMigrationPlan(validationResult(
+      schema({ functions: [changed] }),
+      schema({ functions: [touchFunction] })
+    ));
+
+    expect(plan.scripts).toHaveLength(1);
+    expect(plan.scripts[0].severity).toBe('caution');
+    expect(plan.scripts[0].sql).toContain('clock_timestamp()');
+    expect(plan.rollbackScript).toContain('NEW.updated_at = now();');
+  });
+
+  it('should ignore formatting differences and comment out drops of extra objects', () => {
+    const view = { schema: 'public', name: 'open_orders', isMaterialized: false, definition: 'SELECT *\n   FROM orders;' };
+    const plan = generateMigrationPlan(validationResult(
+      schema({ views: [{ ...view, definition: 'SELECT * FROM orders;' }] }),
+      schema({ views: [view, { ...view, name: 'legacy_orders' }] })
+    ));
+
+    expect(plan.scripts).toHaveLength(1);
+    expect(plan.scripts[0].severity).toBe('dangerous');
+    expect(plan.scripts[0].sql).toContain('-- DROP VIEW IF EXISTS "public"."legacy_orders";');
+  });
+
+  it('should only advance sequences that are behind, for selected tables', () => {
+    const sequence = {
+      schema: 'public',
+      dataType: 'bigint',
+      startValue: '1',
+      increment: '1',
+      minValue: '1',
+      maxValue: '9223372036854775807',
+      cycle: false,
+      isIdentity: true,
+    };
+    const plan = generateMigrationPlan(validationResult(
+      schema({
+        sequences: [
+          { ...sequence, name: 'orders_id_seq', lastValue: '100', ownedBy: 'orders.id' },
+          { ...sequence, name: 'users_id_seq', lastValue: '100', ownedBy: 'users.id' },
+        ],
+      }),
+      schema({
+        sequences: [
+          { ...sequence, name: 'orders_id_seq', lastValue: '7', ownedBy: 'orders.id' },
+          { ...sequence, name: 'users_id_seq', lastValue: null, ownedBy: 'users.id' },
+        ],
+      })
+    ));
+
+    expect(plan.scripts.map((s) => s.description)).toEqual(['Set sequence "orders_id_seq" to 100']);
+    expect(plan.rollbackScript).toContain(`SELECT setval('"public"."orders_id_seq"', 7, true);`);
+  });
+
+  it('should rename accepted candidates instead of adding a new column', () => {
+    const column = {
+      dataType: 'text',
+      udtName: 'text',
+      isNullable: true,
+      defaultValue: null,
+      maxLength: null,
+      numericPrecision: null,
+      isPrimaryKey: false,
+      ordinalPosition: 2,
+    };
+    const result = validationResult(
+      schema({ tables: [table('orders', { columns: [{ ...column, name: 'customer_note' }] })] }),
+      schema({ tables: [table('orders', { columns: [{ ...column, name: 'note' }] })] })
+    );
+    result.renameCandidates = [{
+      id: 'column:orders:note->customer_note',
+      kind: 'column',
+      tableName: 'orders',
+      from: 'note',
+      to: 'customer_note',
+      confidence: 0.7,
+      reasons: ['same type (text)'],
+    }];
+
+    const pending = generateMigrationPlan(result);
+    expect(pending.scripts.map((s) => s.description)).toEqual(['Add column "customer_note" (TEXT) to "orders"']);
+    expect(pending.renames[0].decision).toBe('pending');
+
+    const accepted = generateMigrationPlan(result, 'source_to_target', {
+      'column:orders:note->customer_note': 'accepted',
+    });
+    expect(accepted.scripts.map((s) => s.description)).toEqual(['Rename column "note" to "customer_note" on "orders"']);
+    expect(accepted.scripts[0].sql).toContain('ALTER TABLE "public"."orders" RENAME COLUMN "note" TO "customer_note";');
+    expect(accepted.rollbackScript).toContain('ALTER TABLE "public"."orders" RENAME COLUMN "customer_note" TO "note";');
+    expect(accepted.renames[0].decision).toBe('accepted');
+  });
+
+  it('should guard rename rollbacks so they are skipped unless the rename ran', () => {
+    const result = validationResult(
+      schema({ tables: [table('orders')] }),
+      schema({ tables: [table('legacy_orders')] })
+    );
+    result.comparisonDetails[0].existsInTarget = false;
+    result.renameCandidates = [
+      { id: 'table:legacy_orders->orders', kind: 'table', from: 'legacy_orders', to: 'orders', confidence: 0.8, reasons: [] },
+      { id: 'column:orders:note->customer_note', kind: 'column', tableName: 'orders', from: 'note', to: 'customer_note', confidence: 0.7, reasons: [] },
+    ];
+
+    const plan = generateMigrationPlan(result, 'source_to_target', {
+      'table:legacy_orders->orders': 'accepted',
+    });
+    const [rename] = plan.scripts;
+
+    expect(rename.description).toBe('Rename table "legacy_orders" to "orders"');
+    expect(rename.rollbackSql).toMatch(/^DO \$\$/);
+    expect(rename.rollbackSql).toContain(`IF EXISTS (
+        SELECT FROM information_schema.tables 
+        WHERE table_schema = 'public' 
+        AND table_name = 'orders'
+    ) AND NOT EXISTS (
+        SELECT FROM information_schema.tables 
+        WHERE table_schema = 'public' 
+        AND table_name = 'legacy_orders'
+    ) THEN
+        ALTER TABLE "public"."orders" RENAME TO "legacy_orders";`);
+
+    const column = {
+      dataType: 'text',
+      udtName: 'text',
+      isNullable: true,
+      defaultValue: null,
+      maxLength: null,
+      numericPrecision: null,
+      isPrimaryKey: false,
+      ordinalPosition: 2,
+    };
+    const columnResult = validationResult(
+      schema({ tables: [table('orders', { columns: [{ ...column, name: 'customer_note' }] })] }),
+      schema({ tables: [table('orders', { columns: [{ ...column, name: 'note' }] })] })
+    );
+    columnResult.renameCandidates = [result.renameCandidates[1]];
+
+    const [columnRename] = generateMigrationPlan(columnResult, 'source_to_target', {
+      'column:orders:note->customer_note': 'accepted',
+    }).scripts;
+
+    expect(columnRename.rollbackSql).toMatch(/^DO \$\$/);
+    expect(columnRename.rollbackSql).toContain(`IF EXISTS (
+        SELECT FROM information_schema.columns 
+        WHERE table_schema = 'public' 
+        AND table_name = 'orders' 
+        AND column_name = 'customer_note'
+    ) AND NOT EXISTS (
+        SELECT FROM information_schema.columns 
+        WHERE table_schema = 'public' 
+        AND table_name = 'orders' 
+        AND column_name = 'note'
+    ) THEN
+        ALTER TABLE "public"."orders" RENAME COLUMN "customer_note" TO "note";`);
+  });
+});
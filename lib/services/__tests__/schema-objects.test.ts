@@ -0,0 +1,47 @@
+/**
+ * Schema Object Tests
+ *
+ * Tests for the keys, definition comparison and view ordering shared by the
+ * schema inspector, validator and migration generator.
+ */
+
+import type { ViewDefinition } from '@/types';
+import { functionKey, normalizeDefinition, sortViewsByDependency } from '../schema-objects';
+
+function view(key: string, dependsOn?: string[]): ViewDefinition {
+  const [schema, name] = key.includes('.') ? key.split('.') : ['public', key];
+  return { schema, name, isMaterialized: false, definition: 'SELECT 1', dependsOn };
+}
+
+describe('Schema Objects', () => {
+  it('should ignore whitespace differences in definitions', () => {
+    expect(normalizeDefinition(' SELECT *\n   FROM  orders ')).toBe('SELECT * FROM orders');
+    expect(normalizeDefinition(null)).toBe('');
+  });
+
+  it('should key functions by qualified name and arguments', () => {
+    const fn = { name: 'charge', identityArguments: 'amount integer', kind: 'function' as const, language: 'sql', definition: '' };
+
+    expect(functionKey({ ...fn, schema: 'public' })).toBe('charge(amount integer)');
+    expect(functionKey({ ...fn, schema: 'billing' })).toBe('billing.charge(amount integer)');
+  });
+
+  describe('sortViewsByDependency', () => {
+    it('should list views after the views they select from', () => {
+      const sorted = sortViewsByDependency([
+        view('report', ['billing.totals', 'orders']),
+        view('billing.totals', ['open_orders']),
+        view('open_orders', ['orders']),
+        view('standalone'),
+      ]);
+
+      expect(sorted.map((v) => v.name)).toEqual(['open_orders', 'totals', 'report', 'standalone']);
+    });
+
+    it('should keep the given order for independent views', () => {
+      const views = [view('b', ['orders']), view('a'), view('c', ['users'])];
+
+      expect(sortViewsByDependency(views)).toEqual(views);
+    });
+  });
+});
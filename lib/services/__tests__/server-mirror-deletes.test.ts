@@ -0,0 +1,370 @@
+/**
+ * Server Mirror Deletes Tests
+ *
+ * Tests for the sync worker's delete propagation: the pre-sync backup it
+ * takes first, deleting source-missing rows children before parents, and
+ * the dry-run preview of queued jobs.
+ */
+
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import type { Job } from 'bullmq';
+import type { DrizzleConnection } from '../../../server/src/services/drizzle-factory';
+import type { SyncJobData, SyncProgress } from '../../../server/src/types';
+import { getDeleteOrder, deleteMissingRows } from '../../../server/src/services/mirror-deletes';
+import { createPreSyncBackup } from '../../../server/src/services/pre-sync-backup';
+import { previewSyncJob } from '../../../server/src/services/sync-preview';
+import { processSyncJob } from '../../../server/src/queue/worker';
+import { addSyncLog, uploadBackupFile } from '../../../server/src/services/supabase-client';
+import { verifyBackupFiles } from '../backup-service';
+import { createLocalBackupStorage } from '../backup-storage';
+
+const databases = new Map<string, ReturnType<typeof createFakeDatabase>>();
+
+jest.mock('../../../server/src/config', () => ({
+  config: { logLevel: 'silent', isDev: false, encryptionKey: 'test-key', maskingSecret: null },
+}));
+
+jest.mock('../../../server/src/queue/client', () => ({
+  createSyncWorker: jest.fn(),
+  closeQueues: jest.fn(),
+}));
+
+jest.mock('../../../server/src/services/encryption', () => ({
+  decrypt: jest.fn((url: string) => url),
+}));
+
+jest.mock('../../../server/src/services/drizzle-factory', () => ({
+  createDrizzleClient: jest.fn((url: string) => databases.get(url)!.conn),
+}));
+
+jest.mock('../../../server/src/services/supabase-client', () => ({
+  updateSyncJob: jest.fn(async () => true),
+  addSyncLog: jest.fn(async () => undefined),
+  updateScheduledSyncRunStatus: jest.fn(async () => undefined),
+  getSyncBackupForJob: jest.fn(async () => null),
+  createSyncBackupRecord: jest.fn(async () => undefined),
+  updateSyncBackupRecord: jest.fn(async () => true),
+  uploadBackupFile: jest.fn(async () => undefined),
+}));
+
+type Row = Record<string, unknown> & { id: number };
+
+interface FakeTable {
+  columns: string[];
+  rows: Row[];
+}
+
+/**
+ * Fake database of tables keyed by an integer `id`, answering the column,
+ * primary key and foreign key lookups and the row statements the worker,
+ * backup and preview run. `orders.customer_id` references `customers`.
+ */
+function createFakeDatabase(initialTables: Record<string, Row[]>) {
+  const tables = new Map<string, FakeTable>(
+    Object.entries(initialTables).map(([name, rows]) => [
+      name,
+      { columns: Object.keys(rows[0] ?? { id: 0 }), rows: rows.map((row) => ({ ...row })) },
+    ])
+  );
+  const statements: string[] = [];
+
+  const tableOf = (sql: string) => tables.get(sql.match(/(?:FROM|INTO|UPDATE) "public"\."(\w+)"/)![1])!;
+  const param = (sql: string, pattern: RegExp, params: unknown[]) => {
+    const match = sql.match(pattern);
+    return match ? Number(params[Number(match[1]) - 1]) : null;
+  };
+
+  const client = jest.fn(async (strings: TemplateStringsArray, ...values: unknown[]) => {
+    const sql = strings.join('?');
+    if (sql.includes('pg_constraint')) {
+      return tables.has('orders') && tables.has('customers')
+        ? [{ child_schema: 'public', child_table: 'orders', parent_schema: 'public', parent_table: 'customers' }]
+        : [];
+    }
+    const table = tables.get(String(values[1]));
+    if (!table) return [];
+    if (sql.includes('PRIMARY KEY')) return [{ column_name: 'id' }];
+    return table.columns.map((column_name) => ({ column_name }));
+  });
+
+  const run = (sql: string, params: unknown[]): Row[] & { count?: number } => {
+    statements.push(sql);
+
+    if (sql.includes('information_schema.columns')) {
+      const table = tables.get(String(params[1]));
+      return (table?.columns ?? []).map((column_name) => ({ column_name })) as unknown as Row[];
+    }
+
+    const table = tableOf(sql);
+    if (sql.startsWith('DELETE')) {
+      const ids = params.map(Number);
+      const before = table.rows.length;
+      table.rows = table.rows.filter((row) => !ids.includes(row.id));
+      return Object.assign([], { count: before - table.rows.length });
+    }
+    if (sql.startsWith('INSERT')) {
+      const columns = [...sql.matchAll(/"(\w+)"/g)].map((m) => m[1]).slice(2);
+      table.rows.push(Object.fromEntries(columns.map((c, i) => [c, params[i]])) as Row);
+      return [];
+    }
+    if (sql.startsWith('UPDATE')) {
+      const columns = [...sql.matchAll(/"(\w+)" = \$/g)].map((m) => m[1]);
+      const row = table.rows.find((r) => r.id === Number(params[params.length - 1]))!;
+      columns.filter((c) => c !== 'id').forEach((c, i) => { row[c] = params[i]; });
+      return [];
+    }
+    if (sql.includes('COUNT(*)')) {
+      return [{ count: String(table.rows.length) }] as unknown as Row[];
+    }
+
+    const inList = sql.match(/"id" IN \(([^)]*)\)/);
+    const after = param(sql, /"id" > \$(\d+)/, params);
+    const equals = param(sql, /"id" = \$(\d+)/, params);
+    const limit = sql.match(/LIMIT (\d+)/);
+    const ids = inList ? params.map(Number) : null;
+
+    return [...table.rows]
+      .sort((a, b) => a.id - b.id)
+      .filter((row) => (!ids || ids.includes(row.id)) && (after === null || row.id > after) && (equals === null || row.id === equals))
+      .slice(0, limit ? Number(limit[1]) : undefined)
+      .map((row) => ({ ...row }));
+  };
+
+  const unsafe = jest.fn((sql: string, params: unknown[] = []) =>
+    Object.assign(Promise.resolve().then(() => run(sql, params)), {
+      cursor: (size: number) => (async function* () {
+        const rows = run(sql, params);
+        for (let i = 0; i < rows.length; i += size) yield rows.slice(i, i + size);
+      })(),
+    })
+  );
+
+  const tx = { unsafe };
+  const conn = {
+    client: Object.assign(client, {
+      unsafe,
+      begin: async (...args: unknown[]) => (args[args.length - 1] as (sql: typeof tx) => Promise<unknown>)(tx),
+    }),
+    close: jest.fn(async () => undefined),
+  } as unknown as DrizzleConnection;
+
+  return { conn, statements, rows: (name: string) => tables.get(name)!.rows };
+}
+
+const customers = (...ids: number[]) => ids.map((id) => ({ id, name: `Customer ${id}` }));
+const orders = (...pairs: [number, number][]) => pairs.map(([id, customerId]) => ({ id, customer_id: customerId }));
+
+/**
+ * Source and target where the target has customer 3 and its order 11,
+ * both deleted from the source
+ */
+function setUpDatabases() {
+  const source = createFakeDatabase({ customers: customers(1, 2), orders: orders([10, 1]) });
+  const target = createFakeDatabase({ customers: customers(1, 2, 3), orders: orders([10, 1], [11, 3]) });
+  databases.set('source', source);
+  databases.set('target', target);
+  return { source, target };
+}
+
+function createJob(data: Partial<SyncJobData> = {}) {
+  const progress: SyncProgress[] = [];
+  const job = {
+    data: {
+      jobId: 'job-1',
+      userId: 'user-1',
+      sourceConnectionId: 'conn-source',
+      targetConnectionId: 'conn-target',
+      direction: 'one_way',
+      sourceUrl: 'source',
+      targetUrl: 'target',
+      tablesConfig: [
+        { tableName: 'customers', enabled: true, mirrorDeletes: true },
+        { tableName: 'orders', enabled: true, mirrorDeletes: true },
+      ],
+      ...data,
+    },
+    updateProgress: jest.fn(async (p: SyncProgress) => { progress.push({ ...p }); }),
+    updateData: jest.fn(async () => undefined),
+  };
+  return { job: job as unknown as Job<SyncJobData>, progress };
+}
+
+const deleteStatements = (statements: string[]) => statements.filter((sql) => sql.startsWith('DELETE'));
+
+describe('Server Mirror Deletes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    databases.clear();
+  });
+
+  describe('getDeleteOrder', () => {
+    it('orders referencing tables before the tables they reference', async () => {
+      const { target } = setUpDatabases();
+
+      expect(await getDeleteOrder(target.conn, ['customers', 'orders'])).toEqual(['orders', 'customers']);
+      expect(await getDeleteOrder(target.conn, ['orders', 'customers'])).toEqual(['orders', 'customers']);
+    });
+  });
+
+  describe('deleteMissingRows', () => {
+    it('deletes target rows missing from the source in batches', async () => {
+      const source = createFakeDatabase({ customers: customers(1, 3, 5) });
+      const target = createFakeDatabase({ customers: customers(1, 2, 3, 4, 5, 6) });
+      const onDeleted = jest.fn();
+
+      const result = await deleteMissingRows({
+        sourceConn: source.conn,
+        targetConn: target.conn,
+        tableName: 'customers',
+        primaryKey: ['id'],
+        batchSize: 2,
+        onDeleted,
+      });
+
+      expect(result).toEqual({ deleted: 3, cancelled: false });
+      expect(target.rows('customers').map((row) => row.id)).toEqual([1, 3, 5]);
+      expect(onDeleted.mock.calls).toEqual([[1], [1], [1]]);
+    });
+
+    it('stops when the job is cancelled', async () => {
+      const { source, target } = setUpDatabases();
+
+      const result = await deleteMissingRows({
+        sourceConn: source.conn,
+        targetConn: target.conn,
+        tableName: 'customers',
+        primaryKey: ['id'],
+        isCancelled: () => true,
+      });
+
+      expect(result).toEqual({ deleted: 0, cancelled: true });
+      expect(target.rows('customers')).toHaveLength(3);
+    });
+  });
+
+  describe('createPreSyncBackup', () => {
+    let rootDir: string;
+
+    beforeEach(async () => {
+      rootDir = await mkdtemp(path.join(tmpdir(), 'pre-sync-backup-'));
+    });
+
+    afterEach(async () => {
+      await rm(rootDir, { recursive: true, force: true });
+    });
+
+    it('writes a backup the app can verify', async () => {
+      const { target } = setUpDatabases();
+      const storage = createLocalBackupStorage(rootDir);
+
+      const backup = await createPreSyncBackup({
+        jobId: 'job-1',
+        userId: 'user-1',
+        targetConnectionId: 'conn-target',
+        conn: target.conn,
+        tables: ['customers', 'orders'],
+        writeFile: (filePath, content) => storage.write(filePath, content),
+      });
+
+      expect(backup).toMatchObject({ rowCount: 5, tableRowCounts: { customers: 3, orders: 2 } });
+      expect(backup.backupPath).toMatch(new RegExp(`^user-1/\\d{4}-\\d{2}-\\d{2}/job-1/${backup.id}$`));
+
+      const verification = await verifyBackupFiles({
+        backupPath: backup.backupPath,
+        storage,
+        tables: ['customers', 'orders'],
+        tableRowCounts: backup.tableRowCounts,
+      });
+      expect(verification.status).toBe('passed');
+      expect(verification.tables.map((t) => t.parsedRows)).toEqual([3, 2]);
+    });
+  });
+
+  describe('processSyncJob', () => {
+    it('backs up the target, then deletes source-missing rows children first', async () => {
+      const { target } = setUpDatabases();
+      const { job, progress } = createJob();
+
+      await processSyncJob(job);
+
+      expect(uploadBackupFile).toHaveBeenCalledWith(expect.stringMatching(/\/manifest\.json$/), expect.any(String));
+      expect(target.rows('customers').map((row) => row.id)).toEqual([1, 2]);
+      expect(target.rows('orders').map((row) => row.id)).toEqual([10]);
+      expect(deleteStatements(target.statements)).toEqual([
+        'DELETE FROM "public"."orders" WHERE "id" IN ($1)',
+        'DELETE FROM "public"."customers" WHERE "id" IN ($1)',
+      ]);
+      expect(progress[progress.length - 1].deletedRows).toBe(2);
+    });
+
+    it('skips deletes when the pre-sync backup fails', async () => {
+      const { target } = setUpDatabases();
+      const { job } = createJob();
+      jest.mocked(uploadBackupFile).mockRejectedValueOnce(new Error('Bucket not found'));
+
+      await processSyncJob(job);
+
+      expect(deleteStatements(target.statements)).toEqual([]);
+      expect(target.rows('customers')).toHaveLength(3);
+      expect(addSyncLog).toHaveBeenCalledWith(
+        'job-1',
+        'warn',
+        'Skipping delete propagation for customers, orders: no completed pre-sync backup'
+      );
+    });
+
+    it('keeps source-missing rows in two-way syncs unless the source wins', async () => {
+      const { target } = setUpDatabases();
+      const { job } = createJob({ direction: 'two_way' });
+
+      await processSyncJob(job);
+
+      expect(uploadBackupFile).not.toHaveBeenCalled();
+      expect(deleteStatements(target.statements)).toEqual([]);
+    });
+  });
+
+  describe('previewSyncJob', () => {
+    it('counts the inserts, updates and deletes the worker would make', async () => {
+      const source = createFakeDatabase({ customers: [...customers(1, 4), { id: 2, name: 'Renamed' }] });
+      const target = createFakeDatabase({ customers: customers(1, 2, 3) });
+
+      const preview = await previewSyncJob(source.conn, target.conn, 'one_way', [
+        { tableName: 'customers', enabled: true, mirrorDeletes: true },
+      ]);
+
+      expect(preview).toMatchObject({
+        totalInserts: 1,
+        totalUpdates: 1,
+        totalDeletes: 1,
+        estimatedDuration: 1,
+        warnings: [],
+        schemaIssues: [],
+      });
+      expect(preview.tables[0]).toMatchObject({
+        sourceRowCount: 3,
+        targetRowCount: 3,
+        sampleInserts: [{ id: 4, name: 'Customer 4' }],
+        sampleUpdates: [{ id: 2, name: 'Renamed' }],
+      });
+      expect(source.statements.concat(target.statements).filter((sql) => /^(INSERT|UPDATE|DELETE)/.test(sql))).toEqual([]);
+    });
+
+    it('warns about tables whose deletes will not be mirrored or that are missing', async () => {
+      const { source, target } = setUpDatabases();
+
+      const preview = await previewSyncJob(source.conn, target.conn, 'two_way', [
+        { tableName: 'customers', enabled: true, mirrorDeletes: true },
+        { tableName: 'invoices', enabled: true },
+      ]);
+
+      expect(preview.totalDeletes).toBe(0);
+      expect(preview.warnings).toEqual([
+        'Deletes will not be mirrored for "customers": two-way sync only mirrors deletes when the source wins.',
+        'Table "invoices" does not exist in the target database.',
+      ]);
+    });
+  });
+});
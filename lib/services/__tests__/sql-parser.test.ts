@@ -0,0 +1,185 @@
+/**
+ * SQL Parser Tests
+ *
+ * Tests for the Postgres-aware tokenizer, statement splitter and the
+ * validator functions built on it.
+ */
+
+import { parseSql, splitSqlStatements, tokenizeSql } from '../sql-parser';
+import { estimateAffectedRows, generateDryRunSql, validateMigrationScript, validateSql } from '../sql-validator';
+
+describe('SQL Parser', () => {
+  describe('tokenizeSql', () => {
+    it('should unescape strings and quoted identifiers', () => {
+      const { tokens, errors } = tokenizeSql(`SELECT 'it''s', E'a\\'b', "Odd ""Name"" ", $1`);
+      const significant = tokens.filter(t => t.type !== 'whitespace');
+
+      expect(errors).toEqual([]);
+      expect(significant.map(t => [t.type, t.value])).toEqual([
+        ['word', 'select'],
+        ['string', "it's"],
+        ['punctuation', ','],
+        ['string', "a'b"],
+        ['punctuation', ','],
+        ['quoted_identifier', 'Odd "Name" '],
+        ['punctuation', ','],
+        ['parameter', '$1'],
+      ]);
+    });
+
+    it('should read dollar-quoted bodies and nested comments as single tokens', () => {
+      const { tokens } = tokenizeSql(`$fn$ DELETE FROM x; $$ $fn$ /* a /* b */ c */`);
+
+      expect(tokens.filter(t => t.type !== 'whitespace').map(t => t.type)).toEqual(['dollar_string', 'comment']);
+    });
+
+    it('should report unterminated tokens', () => {
+      expect(tokenizeSql(`SELECT 'abc`).errors).toEqual(['Unbalanced single quotes']);
+      expect(tokenizeSql(`SELECT "abc`).errors).toEqual(['Unbalanced double quotes']);
+      expect(tokenizeSql(`SELECT $$abc`).errors).toEqual(['Unterminated dollar-quoted string']);
+      expect(tokenizeSql(`SELECT /* abc`).errors).toEqual(['Unterminated block comment']);
+    });
+  });
+
+  describe('splitSqlStatements', () => {
+    it('should ignore semicolons in literals, comments and function bodies', () => {
+      const statements = splitSqlStatements(`
+        -- leading comment; not a statement
+        INSERT INTO notes (body) VALUES ('a; b');
+        CREATE FUNCTION f() RETURNS void AS $$ BEGIN DELETE FROM x; END $$ LANGUAGE plpgsql;
+        CREATE FUNCTION g() RETURNS int LANGUAGE sql
+          BEGIN ATOMIC SELECT 1; SELECT CASE WHEN true THEN 2 END; END;
+        /* trailing */
+      `);
+
+      expect(statements.map(s => s.sql.split(/\s+/).slice(0, 3).join(' '))).toEqual([
+        'INSERT INTO notes',
+        'CREATE FUNCTION f()',
+        'CREATE FUNCTION g()',
+      ]);
+    });
+  });
+
+  describe('parseSql', () => {
+    it('should classify CTE statements by their main statement', () => {
+      const [statement] = parseSql(
+        'WITH stale AS (SELECT id FROM sessions WHERE expires_at < now()) ' +
+        'DELETE FROM sessions USING stale WHERE sessions.id = stale.id'
+      ).statements;
+
+      expect(statement.type).toBe('DELETE');
+      expect(statement.riskLevel).toBe('caution');
+      expect(statement.affectedObjects).toEqual(['sessions']);
+    });
+
+    it('should rate data-modifying CTEs', () => {
+      const [statement] = parseSql('WITH gone AS (DELETE FROM logs RETURNING *) SELECT count(*) FROM gone').statements;
+
+      expect(statement.type).toBe('SELECT');
+      expect(statement.riskLevel).toBe('dangerous');
+      expect(statement.dml).toBeUndefined();
+    });
+
+    it('should report schema-qualified and quoted objects', () => {
+      const [statement] = parseSql(
+        'SELECT * FROM billing.invoices i JOIN "Customers" c ON c.id = i.customer_id, ' +
+        'generate_series(1, 3) n WHERE extract(year FROM i.created_at) = 2024'
+      ).statements;
+
+      expect(statement.affectedObjects).toEqual(['billing.invoices', 'Customers']);
+    });
+
+    it('should only treat top-level WHERE as restricting UPDATE and DELETE', () => {
+      expect(parseSql('UPDATE users SET role = (SELECT role FROM roles WHERE id = 1)').statements[0].riskLevel)
+        .toBe('dangerous');
+      expect(parseSql('DELETE FROM "audit log"').statements[0].warnings)
+        .toEqual(['Dangerous: DELETE without WHERE - removes all rows']);
+    });
+
+    it('should find dropped columns and type changes in ALTER TABLE', () => {
+      const dangerous = parseSql('ALTER TABLE app.users DROP COLUMN email, ALTER COLUMN age TYPE bigint').statements[0];
+      const caution = parseSql('ALTER TABLE users ALTER COLUMN age DROP NOT NULL, DROP CONSTRAINT users_pk').statements[0];
+
+      expect(dangerous.affectedObjects).toEqual(['app.users']);
+      expect(dangerous.warnings).toEqual([
+        'Dangerous: DROP COLUMN - data loss',
+        'Dangerous: TYPE change - potential data loss',
+      ]);
+      expect(caution.riskLevel).toBe('caution');
+    });
+  });
+});
+
+describe('SQL Validator', () => {
+  it('should not flag keywords inside string literals', () => {
+    const result = validateSql("SELECT 'DROP TABLE users; UNION SELECT' AS note FROM notes");
+
+    expect(result.isValid).toBe(true);
+    expect(result.riskLevel).toBe('safe');
+    expect(result.statementType).toBe('SELECT');
+  });
+
+  it('should flag injection patterns', () => {
+    expect(validateSql("SELECT * FROM users WHERE name = '' OR '1'='1'").errors)
+      .toContain('Security: Classic SQL injection pattern detected');
+    expect(validateSql('SELECT 1; DROP TABLE users').errors)
+      .toContain('Security: Stacked query with destructive command');
+  });
+
+  it('should break scripts down per statement', () => {
+    const result = validateSql('CREATE TABLE app.t (id int); TRUNCATE app.t');
+
+    expect(result.statementType).toBe('MIXED');
+    expect(result.statements.map(s => [s.statementType, s.riskLevel])).toEqual([
+      ['CREATE', 'safe'],
+      ['TRUNCATE', 'dangerous'],
+    ]);
+    expect(result.affectedObjects).toEqual(['app.t']);
+  });
+
+  it('should keep statements that follow a comment in migration scripts', () => {
+    const result = validateMigrationScript('-- add a column\nALTER TABLE users ADD COLUMN bio text;');
+
+    expect(result.summary.total).toBe(1);
+    expect(result.statements[0].validation.statementType).toBe('ALTER');
+  });
+
+  it('should generate EXPLAIN for DML and comments for DDL', () => {
+    expect(generateDryRunSql('  WITH x AS (SELECT 1) SELECT * FROM x')).toBe(
+      'EXPLAIN (ANALYZE false, COSTS true, FORMAT TEXT)\nWITH x AS (SELECT 1) SELECT * FROM x'
+    );
+    expect(generateDryRunSql('DROP TABLE t')).toBe(
+      '-- DRY RUN: The following statement would be executed:\n-- DROP TABLE t'
+    );
+  });
+
+  describe('estimateAffectedRows', () => {
+    const countWith = async (sql: string) => {
+      const queries: string[] = [];
+      const count = await estimateAffectedRows(sql, async (query) => {
+        queries.push(query);
+        return [{ count: '7' }];
+      });
+      return { count, queries };
+    };
+
+    it('should count rows with the statement\'s relations and condition', async () => {
+      const { count, queries } = await countWith(
+        'UPDATE ONLY billing.invoices AS i SET paid = true FROM customers c ' +
+        'WHERE c.id = i.customer_id AND c.vip RETURNING i.id'
+      );
+
+      expect(count).toBe(7);
+      expect(queries).toEqual([
+        'SELECT COUNT(*) as count FROM ONLY billing.invoices AS i, customers c WHERE c.id = i.customer_id AND c.vip',
+      ]);
+    });
+
+    it('should not estimate statements it cannot count safely', async () => {
+      expect((await countWith('SELECT * FROM users')).queries).toEqual([]);
+      expect((await countWith('UPDATE t SET a = 1 WHERE CURRENT OF c')).queries).toEqual([]);
+      expect((await countWith('WITH d AS (DELETE FROM a RETURNING id) DELETE FROM b WHERE id IN (SELECT id FROM d)')).queries)
+        .toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Server SQL Statement Tests
+ *
+ * Tests for the backend's statement splitter and for detecting statements
+ * that can't run inside a dry-run transaction.
+ */
+
+import { getTransactionRestriction, splitSqlStatements } from '../../../server/src/utils/sql-statements';
+
+/** Restriction of a script's only statement */
+function restrictionOf(sql: string) {
+  const statements = splitSqlStatements(sql);
+  expect(statements).toHaveLength(1);
+  return getTransactionRestriction(statements[0]);
+}
+
+describe('Server SQL Statements', () => {
+  describe('splitSqlStatements', () => {
+    it('should ignore semicolons in literals, identifiers, comments and bodies', () => {
+      const statements = splitSqlStatements(`
+        INSERT INTO notes (body) VALUES ('a; b');
+        -- comment; with a semicolon
+        SELECT 1 AS "x;y";
+        CREATE FUNCTION f() RETURNS void AS $fn$ BEGIN DELETE FROM t; END $fn$ LANGUAGE plpgsql;
+        /* trailing; comment */
+      `);
+
+      expect(statements.map(s => s.tokens[0].value)).toEqual(['insert', 'select', 'create']);
+      expect(statements[0].sql).toBe(`INSERT INTO notes (body) VALUES ('a; b')`);
+      expect(statements[2].sql).toMatch(/LANGUAGE plpgsql$/);
+    });
+
+    it('should keep BEGIN ATOMIC bodies in one statement', () => {
+      const statements = splitSqlStatements(`
+        CREATE FUNCTION one() RETURNS int LANGUAGE sql BEGIN ATOMIC SELECT 1; END;
+        SELECT one();
+      `);
+
+      expect(statements).toHaveLength(2);
+      expect(statements[0].sql).toMatch(/BEGIN ATOMIC SELECT 1; END$/);
+    });
+
+    it('should report offsets into the original script and drop comment-only input', () => {
+      const sql = 'SELECT 1;\n  SELECT 2';
+      const [, second] = splitSqlStatements(sql);
+
+      expect(sql.slice(second.start, second.end)).toBe('SELECT 2');
+      expect(splitSqlStatements('-- nothing here;\n/* or here */')).toEqual([]);
+    });
+  });
+
+  describe('getTransactionRestriction', () => {
+    it('should flag transaction control statements', () => {
+      for (const sql of ['BEGIN', 'START TRANSACTION', 'COMMIT', 'END', 'ROLLBACK', 'ABORT',
+        'SAVEPOINT sp', 'RELEASE SAVEPOINT sp', "PREPARE TRANSACTION 'tx'"]) {
+        expect(restrictionOf(sql)).toBe('transaction_control');
+      }
+    });
+
+    it('should flag statements Postgres refuses to run in a transaction block', () => {
+      for (const sql of [
+        'VACUUM ANALYZE users',
+        "ALTER SYSTEM SET work_mem = '64MB'",
+        'CREATE DATABASE copy',
+        'DROP TABLESPACE fast',
+        'CREATE INDEX CONCURRENTLY users_email_idx ON users (email)',
+        'CREATE UNIQUE INDEX CONCURRENTLY users_email_key ON users (email)',
+        'DROP INDEX CONCURRENTLY users_email_idx',
+        'REINDEX TABLE CONCURRENTLY users',
+        'REFRESH MATERIALIZED VIEW CONCURRENTLY stats',
+      ]) {
+        expect(restrictionOf(sql)).toBe('no_transaction');
+      }
+    });
+
+    it('should allow ordinary statements', () => {
+      for (const sql of [
+        'CREATE INDEX users_email_idx ON users (email)',
+        'ALTER TABLE users ADD COLUMN concurrently text',
+        'PREPARE q AS SELECT 1',
+        'DROP TABLE users',
+        "INSERT INTO log (msg) VALUES ('BEGIN')",
+        `CREATE FUNCTION f() RETURNS void AS $$ BEGIN COMMIT; END $$ LANGUAGE plpgsql`,
+      ]) {
+        expect(restrictionOf(sql)).toBeNull();
+      }
+    });
+
+    it('should look past leading comments', () => {
+      expect(restrictionOf('-- cleanup\nVACUUM users')).toBe('no_transaction');
+    });
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * API Tokens
+ *
+ * Personal access tokens let scripts and CI pipelines call the sync API
+ * without a browser session. A token is shown to its owner once; only its
+ * SHA-256 hash is stored, and the backend resolves the hash to a user when
+ * the token is presented as `Authorization: Bearer <token>`.
+ *
+ * Server-only: imports `crypto`.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import type { NextRequest } from 'next/server';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Every token starts with this, so leaked tokens are easy to spot and scan for */
+export const API_TOKEN_PREFIX = 'sbsync_';
+
+export const API_TOKEN_SCOPES = ['read', 'sync', 'admin'] as const;
+
+export type ApiTokenScope = (typeof API_TOKEN_SCOPES)[number];
+
+/** Characters of the token kept in plain text to identify it in the UI */
+const DISPLAY_PREFIX_LENGTH = API_TOKEN_PREFIX.length + 5;
+
+const TOKEN_BYTES = 32;
+
+export const MAX_ACTIVE_API_TOKENS = 20;
+
+export const DEFAULT_API_TOKEN_RATE_LIMIT = 60;
+
+// ============================================================================
+// GENERATION & HASHING
+// ============================================================================
+
+/**
+ * Hash a plain-text token for storage and lookup
+ */
+export function hashApiToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Generate a new token. The plain-text `token` must only be returned to the
+ * user once; persist `prefix` and `hash`.
+ */
+export function generateApiToken(): { token: string; prefix: string; hash: string } {
+  const token = `${API_TOKEN_PREFIX}${randomBytes(TOKEN_BYTES).toString('base64url')}`;
+
+  return {
+    token,
+    prefix: token.slice(0, DISPLAY_PREFIX_LENGTH),
+    hash: hashApiToken(token),
+  };
+}
+
+/**
+ * Whether a bearer credential is a personal access token (rather than a
+ * Supabase session JWT)
+ */
+export function isApiToken(value: string | null | undefined): value is string {
+  return !!value && value.startsWith(API_TOKEN_PREFIX) && value.length > API_TOKEN_PREFIX.length;
+}
+
+/**
+ * Extract a personal access token from the Authorization header, if present
+ */
+export function getApiTokenFromRequest(request: NextRequest): string | null {
+  const header = request.headers.get('authorization');
+  if (!header?.startsWith('Bearer ')) return null;
+
+  const token = header.slice(7).trim();
+  return isApiToken(token) ? token : null;
+}
+
+// ============================================================================
+// SCOPES
+// ============================================================================
+
+/** Scopes implied by each scope: admin > sync > read */
+const SCOPE_GRANTS: Record<ApiTokenScope, ApiTokenScope[]> = {
+  read: ['read'],
+  sync: ['sync', 'read'],
+  admin: ['admin', 'sync', 'read'],
+};
+
+/**
+ * Whether a token's scopes grant the required scope
+ */
+export function hasApiTokenScope(scopes: readonly string[], required: ApiTokenScope): boolean {
+  return scopes.some((scope) => SCOPE_GRANTS[scope as ApiTokenScope]?.includes(required));
+}
@@ -1,17 +1,36 @@
 /**
  * Backup Service
  * 
- * Provides file-based backup/restore functionality for sync operations.
- * Stores backups in Supabase Storage for rollback capability.
+ * Provides file-based backup/restore functionality for sync operations and
+ * user-initiated snapshots. Backup content is written through a storage
+ * adapter (see backup-storage.ts); each backup records which one.
+ * 
+ * A backup is a folder of gzip-compressed SQL chunks plus manifest.json
+ * listing, per table, its columns, row count, checksum and chunks.
+ * verifyBackupFiles checks a backup without touching live tables, optionally
+ * rehearsing the restore into a scratch schema.
  */
 
+import { createHash, randomUUID } from 'crypto';
+import { promisify } from 'util';
+import { gunzip, gzip } from 'zlib';
 import { createDrizzleClient, type DrizzleConnection } from './drizzle-factory';
 import { createClient } from '@supabase/supabase-js';
 import { logger } from '@/lib/services/logger';
+import type { Json, SyncBackup } from '@/types/supabase';
+import {
+  getBackupStorage,
+  isBackupStorageName,
+  type BackupStorageAdapter,
+  type BackupStorageName,
+} from './backup-storage';
+import { parseSql, splitSqlStatements, type SqlStatement } from './sql-parser';
 import {
   isValidTableName,
   validateTableNames,
   escapeIdentifier as secureEscapeIdentifier,
+  escapeQualifiedName,
+  parseQualifiedTableName,
   escapeLiteral,
   SecurityError,
 } from './security-utils';
@@ -20,19 +39,30 @@ import {
 // TYPES
 // ============================================================================
 
+export type BackupKind = 'pre_sync' | 'snapshot';
+
 export interface BackupMetadata {
   id: string;
-  syncJobId: string;
+  kind: BackupKind;
+  /** Sync job a pre-sync backup was taken for */
+  syncJobId?: string;
+  /** Name of a snapshot */
+  name?: string;
   userId: string;
+  /** Connection the backup was taken from */
   targetConnectionId: string;
   tables: string[];
   backupPath: string;
+  storageAdapter: BackupStorageName;
   sizeBytes: number;
   rowCount: number;
+  tableRowCounts: Record<string, number>;
   status: 'creating' | 'completed' | 'restoring' | 'restored' | 'failed';
   createdAt: Date;
   restoredAt?: Date;
   error?: string;
+  /** Result of the last verification (see verifyBackupFiles) */
+  verification?: BackupVerification;
 }
 
 export interface CreateBackupOptions {
@@ -62,45 +92,156 @@ export interface RestoreOptions {
 
 export interface RestoreProgress {
   currentTable: string;
+  /** Reported once when a table starts and once when its rows are in */
+  tableStatus: 'restoring' | 'restored';
+  tableRowsRestored: number;
   completedTables: number;
   totalTables: number;
   rowsRestored: number;
 }
 
+export interface BackupManifestChunk {
+  /** File name, relative to the backup folder */
+  file: string;
+  rowCount: number;
+  sizeBytes: number;
+  /** SHA-256 of the compressed file */
+  sha256: string;
+}
+
+export interface BackupManifestTable {
+  tableName: string;
+  columns: string[];
+  rowCount: number;
+  /** SHA-256 of the table's uncompressed SQL, all chunks in order */
+  sha256: string;
+  /**
+   * Order-independent hash of the exported rows (see hashRows); missing in
+   * backups written before verification was added
+   */
+  rowsHash?: string;
+  chunks: BackupManifestChunk[];
+}
+
+export interface BackupManifest {
+  version: typeof BACKUP_MANIFEST_VERSION;
+  backupId: string;
+  createdAt: string;
+  description: string[];
+  compression: 'gzip';
+  tables: BackupManifestTable[];
+}
+
+export interface WriteBackupFilesOptions {
+  backupId: string;
+  /** Folder the chunks and manifest are written to */
+  backupPath: string;
+  sourceUrl: string;
+  tables: string[];
+  /** Recorded in the manifest, e.g. the sync job or snapshot name */
+  description?: string[];
+  storage: BackupStorageAdapter;
+  onProgress?: (progress: BackupProgress) => void;
+  onLog?: (level: 'info' | 'warn' | 'error', message: string) => void;
+}
+
+export interface BackupFileSummary {
+  sizeBytes: number;
+  rowCount: number;
+  tableRowCounts: Record<string, number>;
+}
+
+export interface RestoreBackupFilesOptions {
+  backupPath: string;
+  storage: BackupStorageAdapter;
+  /** Tables in the backup, in the order they were written */
+  tables: string[];
+  /** Subset of `tables` to restore; all when omitted */
+  onlyTables?: string[];
+  targetUrl: string;
+  onProgress?: (progress: RestoreProgress) => void;
+  onLog?: (level: 'info' | 'warn' | 'error', message: string) => void;
+}
+
+export interface VerifyBackupFilesOptions {
+  backupPath: string;
+  storage: BackupStorageAdapter;
+  /** Tables in the backup, in the order they were written */
+  tables: string[];
+  /** Rows per table recorded on the backup record */
+  tableRowCounts: Record<string, number>;
+  /** Database to rehearse the restore in; no rehearsal when omitted */
+  rehearsalUrl?: string;
+  onLog?: (level: 'info' | 'warn' | 'error', message: string) => void;
+}
+
+export interface BackupTableVerification {
+  tableName: string;
+  /** Rows recorded on the backup record, when known */
+  expectedRows?: number;
+  /** Rows counted in the table's parsed INSERT statements */
+  parsedRows: number;
+  /** Chunks whose checksum matched (always 0 for single-file backups) */
+  chunksVerified: number;
+  /** Rows in the scratch table after a rehearsal restore */
+  rehearsalRows?: number;
+  /**
+   * Whether the rehearsed rows hash the same as when they were backed up;
+   * unset without a rehearsal or a recorded hash
+   */
+  rowsHashMatches?: boolean;
+  errors: string[];
+}
+
+export interface BackupVerification {
+  status: 'passed' | 'failed';
+  /** Whether a rehearsal restore ran */
+  rehearsal: boolean;
+  verifiedAt: string;
+  tables: BackupTableVerification[];
+  /** Problems not tied to one table, e.g. an unreadable manifest */
+  errors: string[];
+}
+
 // ============================================================================
 // CONFIGURATION
 // ============================================================================
 
 const BACKUP_CONFIG = {
-  storageBucket: 'sync-backups',
   maxBackupAgeDays: 7,
-  batchSize: 1000,
-  compressionEnabled: false, // Can enable gzip later
+  batchSize: 1000, // Rows per cursor batch and per INSERT statement
+  chunkSizeBytes: 8 * 1024 * 1024, // Uncompressed SQL per chunk file
 };
 
+const BACKUP_MANIFEST_VERSION = 2;
+const BACKUP_MANIFEST_FILE = 'manifest.json';
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
 // ============================================================================
 // HELPER FUNCTIONS
 // ============================================================================
 
 /**
- * Generate a unique backup ID
+ * Generate a unique backup ID (sync_backups.id is a UUID)
  */
 function generateBackupId(): string {
-  return `backup_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  return randomUUID();
 }
 
 /**
- * Generate backup file path
+ * Generate backup folder path, grouped by sync job or under `snapshots`
  */
-function getBackupPath(userId: string, syncJobId: string, backupId: string): string {
+export function getBackupPath(userId: string, folder: string, backupId: string): string {
   const date = new Date().toISOString().split('T')[0];
-  return `${userId}/${date}/${syncJobId}/${backupId}.sql`;
+  return `${userId}/${date}/${folder}/${backupId}`;
 }
 
 /**
- * Escape SQL string value
+ * Escape a value as a SQL literal for generated INSERT statements
  */
-function escapeSqlValue(value: unknown): string {
+export function escapeSqlValue(value: unknown): string {
   if (value === null || value === undefined) {
     return 'NULL';
   }
@@ -138,6 +279,31 @@ function escapeIdentifier(name: string): string {
 // BACKUP METADATA STORAGE
 // ============================================================================
 
+/**
+ * Map a sync_backups row to BackupMetadata
+ */
+function toBackupMetadata(data: SyncBackup): BackupMetadata {
+  return {
+    id: data.id,
+    kind: data.kind ?? 'pre_sync',
+    syncJobId: data.sync_job_id ?? undefined,
+    name: data.name ?? undefined,
+    userId: data.user_id,
+    targetConnectionId: data.target_connection_id ?? '',
+    tables: data.tables,
+    backupPath: data.backup_path,
+    storageAdapter: isBackupStorageName(data.storage_adapter) ? data.storage_adapter : 'supabase',
+    sizeBytes: data.size_bytes,
+    rowCount: data.row_count,
+    tableRowCounts: (data.table_row_counts ?? {}) as Record<string, number>,
+    status: data.status,
+    createdAt: new Date(data.created_at),
+    restoredAt: data.restored_at ? new Date(data.restored_at) : undefined,
+    error: data.error ?? undefined,
+    verification: (data.verification ?? undefined) as BackupVerification | undefined,
+  };
+}
+
 // In-memory store for backup metadata (will be replaced with DB in production)
 const backupStore = new Map<string, BackupMetadata>();
 
@@ -157,17 +323,23 @@ async function saveBackupMetadata(metadata: BackupMetadata): Promise<void> {
       
       await supabase.from('sync_backups').upsert({
         id: metadata.id,
+        kind: metadata.kind,
         sync_job_id: metadata.syncJobId,
+        name: metadata.name,
         user_id: metadata.userId,
         target_connection_id: metadata.targetConnectionId,
         tables: metadata.tables,
         backup_path: metadata.backupPath,
+        storage_adapter: metadata.storageAdapter,
         size_bytes: metadata.sizeBytes,
         row_count: metadata.rowCount,
+        table_row_counts: metadata.tableRowCounts,
         status: metadata.status,
         created_at: metadata.createdAt.toISOString(),
         restored_at: metadata.restoredAt?.toISOString(),
         error: metadata.error,
+        verification: metadata.verification as unknown as Json | undefined,
+        verified_at: metadata.verification?.verifiedAt,
       });
     }
   } catch (error) {
@@ -204,20 +376,7 @@ async function getBackupMetadata(backupId: string): Promise<BackupMetadata | nul
         return null;
       }
       
-      return {
-        id: data.id,
-        syncJobId: data.sync_job_id,
-        userId: data.user_id,
-        targetConnectionId: data.target_connection_id,
-        tables: data.tables,
-        backupPath: data.backup_path,
-        sizeBytes: data.size_bytes,
-        rowCount: data.row_count,
-        status: data.status,
-        createdAt: new Date(data.created_at),
-        restoredAt: data.restored_at ? new Date(data.restored_at) : undefined,
-        error: data.error,
-      };
+      return toBackupMetadata(data);
     }
   } catch (error) {
     logger.warn('Failed to get backup metadata from Supabase', { error });
@@ -227,161 +386,639 @@ async function getBackupMetadata(backupId: string): Promise<BackupMetadata | nul
 }
 
 // ============================================================================
-// BACKUP STORAGE
+// TABLE EXPORT
 // ============================================================================
 
 /**
- * Store backup content to Supabase Storage
+ * Column names of a table, in ordinal order
  */
-async function storeBackupContent(
-  backupPath: string,
-  content: string
-): Promise<{ success: boolean; error?: string }> {
-  try {
-    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
-    const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
-    
-    if (!supabaseUrl || !supabaseKey) {
-      // Fallback: store in memory for development
-      logger.warn('Supabase not configured, storing backup in memory');
-      backupContentStore.set(backupPath, content);
-      return { success: true };
+async function getTableColumns(sql: DrizzleConnection['client'], tableName: string): Promise<string[]> {
+  const { schema, table } = parseQualifiedTableName(tableName);
+  const columnsResult = await sql`
+    SELECT column_name
+    FROM information_schema.columns
+    WHERE table_schema = ${schema}
+      AND table_name = ${table}
+    ORDER BY ordinal_position
+  `;
+  
+  return columnsResult.map((r) => String(r.column_name));
+}
+
+/**
+ * Add rows to an order-independent hash: the sum, modulo 2^256, of the
+ * SHA-256 of each row's values (as a JSON array in `columns` order). A
+ * table read back in any order hashes the same.
+ */
+export function hashRows(rows: Record<string, unknown>[], columns: string[], into: Buffer = Buffer.alloc(32)): Buffer {
+  for (const row of rows) {
+    const digest = createHash('sha256').update(JSON.stringify(columns.map((col) => row[col] ?? null))).digest();
+    let carry = 0;
+    for (let i = 31; i >= 0; i--) {
+      const byte = into[i] + digest[i] + carry;
+      into[i] = byte & 0xff;
+      carry = byte >> 8;
+    }
+  }
+  
+  return into;
+}
+
+/**
+ * Stream a table as multi-row INSERT statements, one per cursor batch of
+ * BACKUP_CONFIG.batchSize rows, so only one batch is held in memory. Rows
+ * are added to `rowsHash` when given.
+ */
+export async function* streamTableInserts(
+  sql: DrizzleConnection['client'],
+  tableName: string,
+  columns: string[],
+  rowsHash?: Buffer
+): AsyncGenerator<{ sql: string; rowCount: number }> {
+  const columnList = columns.map(escapeIdentifier).join(', ');
+  const cursor = sql
+    .unsafe(`SELECT ${columnList} FROM ${escapeQualifiedName(tableName)}`)
+    .cursor(BACKUP_CONFIG.batchSize);
+  
+  for await (const rows of cursor) {
+    if (rowsHash) {
+      hashRows(rows, columns, rowsHash);
     }
+
+    const values = rows.map((row) => `(${columns.map((col) => escapeSqlValue(row[col])).join(', ')})`);
+    yield {
+      sql: `INSERT INTO ${escapeQualifiedName(tableName)} (${columnList}) VALUES\n${values.join(',\n')};`,
+      rowCount: rows.length,
+    };
+  }
+}
+
+// ============================================================================
+// BACKUP FILES
+// ============================================================================
+
+function sha256(content: string | Buffer): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Backups written before the chunked format are a single `.sql` file
+ */
+function isLegacyBackupPath(backupPath: string): boolean {
+  return backupPath.endsWith('.sql');
+}
+
+/**
+ * Export tables into gzip-compressed chunk files plus a manifest, under
+ * `backupPath/`. Rows are streamed through a cursor and chunks are flushed
+ * at BACKUP_CONFIG.chunkSizeBytes, so memory use does not grow with table
+ * size. All tables are read in one REPEATABLE READ transaction, giving a
+ * consistent point-in-time copy.
+ */
+export async function writeBackupFiles(options: WriteBackupFilesOptions): Promise<BackupFileSummary> {
+  const {
+    backupId,
+    backupPath,
+    sourceUrl,
+    tables,
+    description = [],
+    storage,
+    onProgress,
+    onLog,
+  } = options;
+  
+  const conn = createDrizzleClient(sourceUrl);
+  
+  try {
+    const manifest: BackupManifest = {
+      version: BACKUP_MANIFEST_VERSION,
+      backupId,
+      createdAt: new Date().toISOString(),
+      description,
+      compression: 'gzip',
+      tables: [],
+    };
+    let totalRows = 0;
+    let bytesWritten = 0;
     
-    const supabase = createClient(supabaseUrl, supabaseKey);
+    await conn.client.begin('ISOLATION LEVEL REPEATABLE READ READ ONLY', async (tx) => {
+      for (const [tableIndex, tableName] of tables.entries()) {
+        onLog?.('info', `Exporting table: ${tableName}`);
+        
+        const columns = await getTableColumns(tx, tableName);
+        if (columns.length === 0) {
+          throw new Error(`Table not found: ${tableName}`);
+        }
+        
+        const entry: BackupManifestTable = { tableName, columns, rowCount: 0, sha256: '', chunks: [] };
+        const tableHash = createHash('sha256');
+        const rowsHash = Buffer.alloc(32);
+        let pending: string[] = [];
+        let pendingBytes = 0;
+        let pendingRows = 0;
+        
+        const flush = async () => {
+          if (pending.length === 0) return;
+          
+          const content = `${pending.join('\n')}\n`;
+          const compressed = await gzipAsync(content);
+          const file = `${String(tableIndex).padStart(4, '0')}-${String(entry.chunks.length).padStart(6, '0')}.sql.gz`;
+          
+          await storage.write(`${backupPath}/${file}`, compressed);
+          tableHash.update(content);
+          entry.chunks.push({ file, rowCount: pendingRows, sizeBytes: compressed.length, sha256: sha256(compressed) });
+          bytesWritten += compressed.length;
+          
+          pending = [];
+          pendingBytes = 0;
+          pendingRows = 0;
+        };
+        
+        onProgress?.({
+          currentTable: tableName,
+          completedTables: tableIndex,
+          totalTables: tables.length,
+          rowsExported: totalRows,
+          bytesWritten,
+        });
+        
+        for await (const batch of streamTableInserts(tx, tableName, columns, rowsHash)) {
+          pending.push(batch.sql);
+          pendingBytes += batch.sql.length;
+          pendingRows += batch.rowCount;
+          entry.rowCount += batch.rowCount;
+          totalRows += batch.rowCount;
+          
+          if (pendingBytes >= BACKUP_CONFIG.chunkSizeBytes) {
+            await flush();
+          }
+          
+          onProgress?.({
+            currentTable: tableName,
+            completedTables: tableIndex,
+            totalTables: tables.length,
+            rowsExported: totalRows,
+            bytesWritten,
+          });
+        }
+        
+        await flush();
+        entry.sha256 = tableHash.digest('hex');
+        entry.rowsHash = rowsHash.toString('hex');
+        manifest.tables.push(entry);
+        
+        onLog?.('info', `Exported ${entry.rowCount} rows from ${tableName} in ${entry.chunks.length} chunks`);
+      }
+    });
     
-    // Upload to storage
-    const { error } = await supabase.storage
-      .from(BACKUP_CONFIG.storageBucket)
-      .upload(backupPath, content, {
-        contentType: 'text/plain',
-        upsert: true,
-      });
+    // Written last: a backup without a manifest is incomplete
+    const manifestContent = JSON.stringify(manifest, null, 2);
+    await storage.write(`${backupPath}/${BACKUP_MANIFEST_FILE}`, manifestContent);
+    bytesWritten += Buffer.byteLength(manifestContent);
     
-    if (error) {
-      // Bucket might not exist, fallback to memory
-      logger.warn('Storage upload failed, using memory fallback', { error: error.message });
-      backupContentStore.set(backupPath, content);
-      return { success: true };
-    }
+    onLog?.('info', `Stored backup (${storage.name}): ${(bytesWritten / 1024).toFixed(2)} KB compressed`);
     
-    return { success: true };
-  } catch (error) {
-    const message = error instanceof Error ? error.message : 'Unknown error';
-    return { success: false, error: message };
+    return {
+      sizeBytes: bytesWritten,
+      rowCount: totalRows,
+      tableRowCounts: Object.fromEntries(manifest.tables.map((t) => [t.tableName, t.rowCount])),
+    };
+  } finally {
+    await conn.close();
   }
 }
 
 /**
- * Retrieve backup content from Supabase Storage
+ * Read and parse a backup's manifest
  */
-async function retrieveBackupContent(
+export async function readBackupManifest(
+  storage: BackupStorageAdapter,
   backupPath: string
-): Promise<{ content: string | null; error?: string }> {
-  try {
-    // Check memory first
-    const memoryContent = backupContentStore.get(backupPath);
-    if (memoryContent) {
-      return { content: memoryContent };
+): Promise<BackupManifest> {
+  const manifest = JSON.parse((await storage.read(`${backupPath}/${BACKUP_MANIFEST_FILE}`)).toString('utf8'));
+  
+  if (manifest.version !== BACKUP_MANIFEST_VERSION) {
+    throw new Error(`Unsupported backup manifest version: ${manifest.version}`);
+  }
+  
+  return manifest;
+}
+
+/**
+ * Read one chunk, checking it against the manifest before decompressing
+ */
+export async function readBackupChunk(
+  storage: BackupStorageAdapter,
+  backupPath: string,
+  chunk: BackupManifestChunk
+): Promise<string> {
+  const compressed = await storage.read(`${backupPath}/${chunk.file}`);
+  
+  if (sha256(compressed) !== chunk.sha256) {
+    throw new Error(`Checksum mismatch in backup chunk ${chunk.file}`);
+  }
+  
+  return (await gunzipAsync(compressed)).toString('utf8');
+}
+
+/**
+ * Sections of a backup written as one `.sql` file, in the order of `tables`:
+ * each starts with its DELETE. Statements are split with the SQL tokenizer,
+ * so values containing newlines or semicolons stay intact.
+ */
+function readLegacySections(content: string, tables: string[]): Map<string, string[]> {
+  const sections = new Map<string, string[]>();
+  let current: string[] | undefined;
+  
+  for (const { sql } of splitSqlStatements(content)) {
+    if (/^DELETE\s+FROM\b/i.test(sql)) {
+      const tableName = tables[sections.size];
+      if (!tableName) {
+        throw new Error('Backup contains more tables than recorded');
+      }
+      current = [];
+      sections.set(tableName, current);
+    } else if (current && !/^(BEGIN|COMMIT)$/i.test(sql)) {
+      current.push(sql);
     }
-    
-    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
-    const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
-    
-    if (!supabaseUrl || !supabaseKey) {
-      return { content: null, error: 'Supabase not configured' };
+  }
+  
+  return sections;
+}
+
+/**
+ * Remove a backup's stored content
+ */
+export async function removeBackupFiles(storage: BackupStorageAdapter, backupPath: string): Promise<void> {
+  if (isLegacyBackupPath(backupPath)) {
+    await storage.remove([backupPath]);
+  } else {
+    await storage.removeFolder(backupPath);
+  }
+}
+
+/**
+ * Tables from `tables` that do not exist in the database
+ */
+async function findMissingTables(conn: DrizzleConnection, tables: string[]): Promise<string[]> {
+  const missing: string[] = [];
+  
+  for (const tableName of tables) {
+    const { schema, table } = parseQualifiedTableName(tableName);
+    const result = await conn.client`
+      SELECT 1
+      FROM information_schema.tables
+      WHERE table_schema = ${schema}
+        AND table_name = ${table}
+    `;
+    if (result.length === 0) {
+      missing.push(tableName);
+    }
+  }
+  
+  return missing;
+}
+
+/**
+ * Restore a backup into a database in one transaction, table by table: each
+ * table is emptied, then its chunks are read, checked and inserted one at a
+ * time. The target can be any database that has the backed-up tables.
+ */
+export async function restoreBackupFiles(options: RestoreBackupFilesOptions): Promise<{ rowsRestored: number }> {
+  const { backupPath, storage, tables, onlyTables, targetUrl, onProgress, onLog } = options;
+  
+  const selected = onlyTables && onlyTables.length > 0 ? onlyTables : tables;
+  const unknown = selected.filter((tableName) => !tables.includes(tableName));
+  if (unknown.length > 0) {
+    throw new Error(`Tables not in backup: ${unknown.join(', ')}`);
+  }
+  const toRestore = tables.filter((tableName) => selected.includes(tableName));
+  
+  // Chunked backups are read lazily; legacy single-file backups up front
+  let manifest: BackupManifest | null = null;
+  let legacySections: Map<string, string[]> | null = null;
+  
+  if (isLegacyBackupPath(backupPath)) {
+    legacySections = readLegacySections((await storage.read(backupPath)).toString('utf8'), tables);
+  } else {
+    manifest = await readBackupManifest(storage, backupPath);
+  }
+  
+  const conn = createDrizzleClient(targetUrl);
+  
+  try {
+    const missing = await findMissingTables(conn, toRestore);
+    if (missing.length > 0) {
+      throw new Error(`Tables missing in target: ${missing.join(', ')}`);
     }
     
-    const supabase = createClient(supabaseUrl, supabaseKey);
-    
-    const { data, error } = await supabase.storage
-      .from(BACKUP_CONFIG.storageBucket)
-      .download(backupPath);
+    let completedTables = 0;
+    let rowsRestored = 0;
     
-    if (error) {
-      return { content: null, error: error.message };
-    }
+    // Execute in a transaction
+    await conn.client.begin(async (tx) => {
+      for (const tableName of toRestore) {
+        let tableRowsRestored = 0;
+        
+        const report = (tableStatus: RestoreProgress['tableStatus']) => onProgress?.({
+          currentTable: tableName,
+          tableStatus,
+          tableRowsRestored,
+          completedTables,
+          totalTables: toRestore.length,
+          rowsRestored,
+        });
+        
+        report('restoring');
+        await tx.unsafe(`DELETE FROM ${escapeQualifiedName(tableName)}`);
+        
+        if (manifest) {
+          const entry = manifest.tables.find((t) => t.tableName === tableName);
+          if (!entry) {
+            throw new Error(`Table missing from backup manifest: ${tableName}`);
+          }
+          
+          for (const chunk of entry.chunks) {
+            const content = await readBackupChunk(storage, backupPath, chunk);
+            for (const { sql } of splitSqlStatements(content)) {
+              await tx.unsafe(sql);
+            }
+            
+            tableRowsRestored += chunk.rowCount;
+            rowsRestored += chunk.rowCount;
+            report('restoring');
+          }
+        } else {
+          for (const statement of legacySections?.get(tableName) ?? []) {
+            await tx.unsafe(statement);
+            
+            if (/^INSERT\b/i.test(statement)) {
+              tableRowsRestored++;
+              rowsRestored++;
+            }
+          }
+        }
+        
+        completedTables++;
+        onLog?.('info', `Restored ${tableRowsRestored} rows into ${tableName}`);
+        report('restored');
+      }
+    });
     
-    const content = await data.text();
-    return { content };
-  } catch (error) {
-    const message = error instanceof Error ? error.message : 'Unknown error';
-    return { content: null, error: message };
+    return { rowsRestored };
+  } finally {
+    await conn.close();
   }
 }
 
-// In-memory backup content store (fallback for development)
-const backupContentStore = new Map<string, string>();
-
 // ============================================================================
-// TABLE EXPORT
+// VERIFICATION
 // ============================================================================
 
+// Thrown to roll back a rehearsal once its results are collected
+const ROLLBACK_REHEARSAL = new Error('Rehearsal rolled back');
+
 /**
- * Export a table to SQL INSERT statements
+ * Rows inserted by an INSERT ... VALUES statement: the top-level tuples
+ * after VALUES
  */
-export async function exportTableToSQL(
-  conn: DrizzleConnection,
+function countInsertRows(statement: SqlStatement): number {
+  const valuesIndex = statement.tokens.findIndex((token) => token.type === 'word' && token.value === 'values');
+  if (valuesIndex === -1) {
+    return 0;
+  }
+  
+  let depth = 0;
+  let rows = 0;
+  for (const token of statement.tokens.slice(valuesIndex + 1)) {
+    if (token.type !== 'punctuation') continue;
+    
+    if (token.value === '(') {
+      if (depth === 0) rows++;
+      depth++;
+    } else if (token.value === ')') {
+      depth--;
+    }
+  }
+  
+  return rows;
+}
+
+/**
+ * Parse a table's SQL and check every statement is an INSERT into that
+ * table, returning the row count. Statements are passed to `execute` only
+ * after all of them have been checked.
+ */
+async function checkTableStatements(
   tableName: string,
-  onProgress?: (rowCount: number) => void
-): Promise<{ sql: string; rowCount: number }> {
-  const statements: string[] = [];
-  let totalRows = 0;
-  let offset = 0;
-  
-  // Get column names
-  const columnsResult = await conn.client`
-    SELECT column_name
-    FROM information_schema.columns
-    WHERE table_schema = 'public'
-      AND table_name = ${tableName}
-    ORDER BY ordinal_position
-  `;
+  content: string,
+  execute?: (statement: string) => Promise<void>
+): Promise<number> {
+  const insertPrefix = `INSERT INTO ${escapeQualifiedName(tableName)} `;
+  const parsed = parseSql(content);
   
-  const columns = columnsResult.map((r) => String(r.column_name));
+  if (parsed.errors.length > 0) {
+    throw new Error(`Unparseable SQL: ${parsed.errors.join(', ')}`);
+  }
   
-  if (columns.length === 0) {
-    return { sql: '', rowCount: 0 };
+  let rows = 0;
+  for (const statement of parsed.statements) {
+    if (statement.type !== 'INSERT' || !statement.sql.startsWith(insertPrefix)) {
+      throw new Error(`Unexpected statement: ${statement.sql.slice(0, 80)}`);
+    }
+    rows += countInsertRows(statement);
   }
   
-  const columnList = columns.map(escapeIdentifier).join(', ');
+  if (execute) {
+    for (const statement of parsed.statements) {
+      await execute(statement.sql);
+    }
+  }
+  
+  return rows;
+}
+
+/**
+ * Check a backup without touching live tables:
+ * - every chunk matches its manifest checksum, and each table its SHA-256
+ * - every statement parses and is an INSERT into its table, with as many
+ *   rows as the manifest and the backup record say
+ * - with `rehearsalUrl`, the backup is restored into a scratch schema
+ *   (tables copied with LIKE from the live ones) and the row counts and row
+ *   hashes compared. The transaction is always rolled back.
+ *
+ * Problems are reported in the result rather than thrown.
+ */
+export async function verifyBackupFiles(options: VerifyBackupFilesOptions): Promise<BackupVerification> {
+  const { backupPath, storage, tables, tableRowCounts, rehearsalUrl, onLog } = options;
   
-  // Add table header comment
-  statements.push(`-- Table: ${tableName}`);
-  statements.push(`-- Backup created at: ${new Date().toISOString()}`);
-  statements.push('');
+  const verification: BackupVerification = {
+    status: 'passed',
+    rehearsal: Boolean(rehearsalUrl),
+    verifiedAt: new Date().toISOString(),
+    tables: tables.map((tableName) => ({
+      tableName,
+      expectedRows: tableRowCounts[tableName],
+      parsedRows: 0,
+      chunksVerified: 0,
+      errors: [],
+    })),
+    errors: [],
+  };
   
-  // Export rows in batches
-  while (true) {
-    const rows = await conn.client.unsafe(
-      `SELECT * FROM ${escapeIdentifier(tableName)} ORDER BY id LIMIT ${BACKUP_CONFIG.batchSize} OFFSET ${offset}`
-    );
-    
-    if (rows.length === 0) {
-      break;
+  let manifest: BackupManifest | null = null;
+  let legacySections: Map<string, string[]> | null = null;
+  
+  try {
+    if (isLegacyBackupPath(backupPath)) {
+      legacySections = readLegacySections((await storage.read(backupPath)).toString('utf8'), tables);
+    } else {
+      manifest = await readBackupManifest(storage, backupPath);
     }
+  } catch (error) {
+    verification.status = 'failed';
+    verification.errors.push(`Cannot read backup: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    return verification;
+  }
+  
+  /**
+   * Check one table's chunks and statements, passing the statements to
+   * `execute` for a rehearsal
+   */
+  const verifyTable = async (result: BackupTableVerification, execute?: (statement: string) => Promise<void>) => {
+    const { tableName } = result;
     
-    for (const row of rows) {
-      const values = columns.map((col) => escapeSqlValue(row[col])).join(', ');
-      statements.push(
-        `INSERT INTO ${escapeIdentifier(tableName)} (${columnList}) VALUES (${values});`
+    if (manifest) {
+      const entry = manifest.tables.find((t) => t.tableName === tableName);
+      if (!entry) {
+        throw new Error('Missing from the backup manifest');
+      }
+      
+      const tableHash = createHash('sha256');
+      for (const chunk of entry.chunks) {
+        const content = await readBackupChunk(storage, backupPath, chunk);
+        result.chunksVerified++;
+        tableHash.update(content);
+        
+        const rows = await checkTableStatements(tableName, content, execute);
+        if (rows !== chunk.rowCount) {
+          result.errors.push(`${chunk.file} has ${rows} rows, the manifest records ${chunk.rowCount}`);
+        }
+        result.parsedRows += rows;
+      }
+      
+      if (tableHash.digest('hex') !== entry.sha256) {
+        result.errors.push('Table checksum does not match the manifest');
+      }
+    } else {
+      const statements = legacySections?.get(tableName);
+      if (!statements) {
+        throw new Error('Missing from the backup');
+      }
+      
+      result.parsedRows = await checkTableStatements(
+        tableName,
+        statements.map((statement) => `${statement};`).join('\n'),
+        execute
       );
-      totalRows++;
     }
     
-    offset += BACKUP_CONFIG.batchSize;
-    onProgress?.(totalRows);
+    if (result.expectedRows !== undefined && result.parsedRows !== result.expectedRows) {
+      result.errors.push(`Backup has ${result.parsedRows} rows, the backup record says ${result.expectedRows}`);
+    }
+  };
+  
+  const recordError = (result: BackupTableVerification, error: unknown) => {
+    result.errors.push(error instanceof Error ? error.message : 'Unknown error');
+  };
+  
+  if (!rehearsalUrl) {
+    for (const result of verification.tables) {
+      onLog?.('info', `Verifying table: ${result.tableName}`);
+      await verifyTable(result).catch((error) => recordError(result, error));
+    }
+  } else {
+    const conn = createDrizzleClient(rehearsalUrl);
+    const scratchSchema = escapeIdentifier(`_backup_verify_${randomUUID().slice(0, 8)}`);
     
-    // Check if we got fewer rows than batch size (last batch)
-    if (rows.length < BACKUP_CONFIG.batchSize) {
-      break;
+    try {
+      const missing = await findMissingTables(conn, tables);
+      
+      await conn.client.begin(async (tx) => {
+        await tx.unsafe(`CREATE SCHEMA ${scratchSchema}`);
+        
+        for (const [index, result] of verification.tables.entries()) {
+          const { tableName } = result;
+          onLog?.('info', `Verifying table: ${tableName}`);
+          
+          // Without the live table there is nothing to copy the scratch table from
+          if (missing.includes(tableName)) {
+            result.errors.push('Table missing in the rehearsal database');
+            await verifyTable(result).catch((error) => recordError(result, error));
+            continue;
+          }
+          
+          const scratchTable = `${scratchSchema}.${escapeIdentifier(`t${index}`)}`;
+          const insertPrefix = `INSERT INTO ${escapeQualifiedName(tableName)} `;
+          
+          try {
+            await tx.savepoint(async (sp) => {
+              await sp.unsafe(`CREATE TABLE ${scratchTable} (LIKE ${escapeQualifiedName(tableName)})`);
+              
+              await verifyTable(result, async (statement) => {
+                await sp.unsafe(`INSERT INTO ${scratchTable} ${statement.slice(insertPrefix.length)}`);
+              });
+              
+              const [{ count }] = await sp.unsafe(`SELECT count(*)::int AS count FROM ${scratchTable}`);
+              result.rehearsalRows = count;
+              if (result.expectedRows !== undefined && count !== result.expectedRows) {
+                result.errors.push(`Rehearsal restored ${count} rows, the backup record says ${result.expectedRows}`);
+              }
+              
+              const entry = manifest?.tables.find((t) => t.tableName === tableName);
+              if (entry?.rowsHash) {
+                const rowsHash = Buffer.alloc(32);
+                const columnList = entry.columns.map(escapeIdentifier).join(', ');
+                const cursor = sp
+                  .unsafe(`SELECT ${columnList} FROM ${scratchTable}`)
+                  .cursor(BACKUP_CONFIG.batchSize);
+                
+                for await (const rows of cursor) {
+                  hashRows(rows, entry.columns, rowsHash);
+                }
+                
+                result.rowsHashMatches = rowsHash.toString('hex') === entry.rowsHash;
+                if (!result.rowsHashMatches) {
+                  result.errors.push('Rehearsed rows do not match the rows that were backed up');
+                }
+              }
+            });
+          } catch (error) {
+            recordError(result, error);
+          }
+        }
+        
+        throw ROLLBACK_REHEARSAL;
+      });
+    } catch (error) {
+      if (error !== ROLLBACK_REHEARSAL) {
+        verification.errors.push(`Rehearsal failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    } finally {
+      await conn.close();
     }
   }
   
-  return {
-    sql: statements.join('\n'),
-    rowCount: totalRows,
-  };
+  if (verification.errors.length > 0 || verification.tables.some((t) => t.errors.length > 0)) {
+    verification.status = 'failed';
+  }
+  
+  onLog?.(
+    verification.status === 'passed' ? 'info' : 'error',
+    `Backup verification ${verification.status} for ${tables.length} tables`
+  );
+  
+  return verification;
 }
 
 // ============================================================================
@@ -404,107 +1041,50 @@ export async function createBackup(options: CreateBackupOptions): Promise<Backup
   
   const backupId = generateBackupId();
   const backupPath = getBackupPath(userId, syncJobId, backupId);
+  const storage = getBackupStorage();
   
   // Initialize metadata
   const metadata: BackupMetadata = {
     id: backupId,
+    kind: 'pre_sync',
     syncJobId,
     userId,
     targetConnectionId,
     tables,
     backupPath,
+    storageAdapter: storage.name,
     sizeBytes: 0,
     rowCount: 0,
+    tableRowCounts: {},
     status: 'creating',
     createdAt: new Date(),
   };
   
   await saveBackupMetadata(metadata);
   
-  let conn: DrizzleConnection | null = null;
-  
   try {
     onLog?.('info', `Creating backup for ${tables.length} tables`);
     
-    conn = createDrizzleClient(targetUrl);
-    
-    const allStatements: string[] = [];
-    let totalRows = 0;
-    let completedTables = 0;
-    
-    // Add backup header
-    allStatements.push('-- Supabase Syncer Backup');
-    allStatements.push(`-- Backup ID: ${backupId}`);
-    allStatements.push(`-- Sync Job ID: ${syncJobId}`);
-    allStatements.push(`-- Created: ${new Date().toISOString()}`);
-    allStatements.push(`-- Tables: ${tables.join(', ')}`);
-    allStatements.push('');
-    allStatements.push('BEGIN;');
-    allStatements.push('');
-    
-    // Export each table
-    for (const tableName of tables) {
-      onLog?.('info', `Exporting table: ${tableName}`);
-      
-      onProgress?.({
-        currentTable: tableName,
-        completedTables,
-        totalTables: tables.length,
-        rowsExported: totalRows,
-        bytesWritten: allStatements.join('\n').length,
-      });
-      
-      // Delete existing data first (for restore)
-      allStatements.push(`-- Delete existing data for ${tableName}`);
-      allStatements.push(`DELETE FROM ${escapeIdentifier(tableName)};`);
-      allStatements.push('');
-      
-      // Export table data
-      const { sql, rowCount } = await exportTableToSQL(conn, tableName, (rows) => {
-        onProgress?.({
-          currentTable: tableName,
-          completedTables,
-          totalTables: tables.length,
-          rowsExported: totalRows + rows,
-          bytesWritten: allStatements.join('\n').length,
-        });
-      });
-      
-      if (sql) {
-        allStatements.push(sql);
-        allStatements.push('');
-      }
-      
-      totalRows += rowCount;
-      completedTables++;
-      
-      onLog?.('info', `Exported ${rowCount} rows from ${tableName}`);
-    }
-    
-    // Add backup footer
-    allStatements.push('COMMIT;');
-    allStatements.push('');
-    allStatements.push(`-- End of backup: ${backupId}`);
-    
-    const backupContent = allStatements.join('\n');
-    
-    // Store backup
-    onLog?.('info', 'Storing backup...');
-    
-    const storeResult = await storeBackupContent(backupPath, backupContent);
-    
-    if (!storeResult.success) {
-      throw new Error(`Failed to store backup: ${storeResult.error}`);
-    }
+    const summary = await writeBackupFiles({
+      backupId,
+      backupPath,
+      sourceUrl: targetUrl,
+      tables,
+      description: [`Sync Job ID: ${syncJobId}`],
+      storage,
+      onProgress,
+      onLog,
+    });
     
     // Update metadata
     metadata.status = 'completed';
-    metadata.rowCount = totalRows;
-    metadata.sizeBytes = backupContent.length;
+    metadata.rowCount = summary.rowCount;
+    metadata.sizeBytes = summary.sizeBytes;
+    metadata.tableRowCounts = summary.tableRowCounts;
     
     await saveBackupMetadata(metadata);
     
-    onLog?.('info', `Backup completed: ${totalRows} rows, ${(backupContent.length / 1024).toFixed(2)} KB`);
+    onLog?.('info', `Backup completed: ${summary.rowCount} rows, ${(summary.sizeBytes / 1024).toFixed(2)} KB`);
     
     return metadata;
     
@@ -519,11 +1099,6 @@ export async function createBackup(options: CreateBackupOptions): Promise<Backup
     onLog?.('error', `Backup failed: ${message}`);
     
     throw error;
-    
-  } finally {
-    if (conn) {
-      await conn.close();
-    }
   }
 }
 
@@ -550,67 +1125,14 @@ export async function restoreBackup(options: RestoreOptions): Promise<void> {
   metadata.status = 'restoring';
   await saveBackupMetadata(metadata);
   
-  let conn: DrizzleConnection | null = null;
-  
   try {
-    // Retrieve backup content
-    onLog?.('info', 'Retrieving backup content...');
-    
-    const { content, error } = await retrieveBackupContent(metadata.backupPath);
-    
-    if (!content) {
-      throw new Error(`Failed to retrieve backup: ${error}`);
-    }
-    
-    onLog?.('info', `Backup content retrieved: ${(content.length / 1024).toFixed(2)} KB`);
-    
-    conn = createDrizzleClient(targetUrl);
-    
-    // Parse and execute SQL statements
-    const statements = content
-      .split('\n')
-      .filter((line) => {
-        const trimmed = line.trim();
-        return trimmed && !trimmed.startsWith('--');
-      });
-    
-    let completedTables = 0;
-    let rowsRestored = 0;
-    let currentTable = '';
-    
-    // Execute in a transaction
-    await conn.client.begin(async (tx) => {
-      for (const statement of statements) {
-        const trimmed = statement.trim();
-        
-        if (!trimmed || trimmed === 'BEGIN;' || trimmed === 'COMMIT;') {
-          continue;
-        }
-        
-        // Track current table
-        if (trimmed.startsWith('DELETE FROM')) {
-          const match = trimmed.match(/DELETE FROM "([^"]+)"/);
-          if (match) {
-            currentTable = match[1];
-            completedTables++;
-            
-            onProgress?.({
-              currentTable,
-              completedTables,
-              totalTables: metadata.tables.length,
-              rowsRestored,
-            });
-          }
-        }
-        
-        // Track rows restored
-        if (trimmed.startsWith('INSERT INTO')) {
-          rowsRestored++;
-        }
-        
-        // Execute statement
-        await tx.unsafe(trimmed);
-      }
+    const { rowsRestored } = await restoreBackupFiles({
+      backupPath: metadata.backupPath,
+      storage: getBackupStorage(metadata.storageAdapter),
+      tables: metadata.tables,
+      targetUrl,
+      onProgress,
+      onLog,
     });
     
     // Update metadata
@@ -630,11 +1152,6 @@ export async function restoreBackup(options: RestoreOptions): Promise<void> {
     onLog?.('error', `Restore failed: ${message}`);
     
     throw error;
-    
-  } finally {
-    if (conn) {
-      await conn.close();
-    }
   }
 }
 
@@ -649,17 +1166,14 @@ export async function deleteBackup(backupId: string): Promise<void> {
   }
   
   try {
+    await removeBackupFiles(getBackupStorage(metadata.storageAdapter), metadata.backupPath);
+    
     const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
     const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
     
     if (supabaseUrl && supabaseKey) {
       const supabase = createClient(supabaseUrl, supabaseKey);
       
-      // Delete from storage
-      await supabase.storage
-        .from(BACKUP_CONFIG.storageBucket)
-        .remove([metadata.backupPath]);
-      
       // Delete metadata
       await supabase
         .from('sync_backups')
@@ -672,11 +1186,10 @@ export async function deleteBackup(backupId: string): Promise<void> {
 
   // Remove from memory
   backupStore.delete(backupId);
-  backupContentStore.delete(metadata.backupPath);
 }
 
 /**
- * Clean up old backups
+ * Clean up old pre-sync backups. Snapshots are kept until deleted.
  */
 export async function cleanupOldBackups(userId: string): Promise<number> {
   let deletedCount = 0;
@@ -697,16 +1210,16 @@ export async function cleanupOldBackups(userId: string): Promise<number> {
     // Get old backups
     const { data: oldBackups } = await supabase
       .from('sync_backups')
-      .select('id, backup_path')
+      .select('id, backup_path, storage_adapter')
       .eq('user_id', userId)
+      .eq('kind', 'pre_sync')
       .lt('created_at', cutoffDate.toISOString());
     
     if (oldBackups && oldBackups.length > 0) {
       // Delete storage files
-      const paths = oldBackups.map((b) => b.backup_path);
-      await supabase.storage
-        .from(BACKUP_CONFIG.storageBucket)
-        .remove(paths);
+      for (const backup of oldBackups) {
+        await removeBackupFiles(getBackupStorage(backup.storage_adapter ?? 'supabase'), backup.backup_path);
+      }
       
       // Delete metadata
       const ids = oldBackups.map((b) => b.id);
@@ -755,20 +1268,7 @@ export async function getBackupBySyncJobId(syncJobId: string): Promise<BackupMet
         return null;
       }
       
-      return {
-        id: data.id,
-        syncJobId: data.sync_job_id,
-        userId: data.user_id,
-        targetConnectionId: data.target_connection_id,
-        tables: data.tables,
-        backupPath: data.backup_path,
-        sizeBytes: data.size_bytes,
-        rowCount: data.row_count,
-        status: data.status,
-        createdAt: new Date(data.created_at),
-        restoredAt: data.restored_at ? new Date(data.restored_at) : undefined,
-        error: data.error,
-      };
+      return toBackupMetadata(data);
     }
   } catch (error) {
     logger.warn('Failed to get backup from Supabase', { error });
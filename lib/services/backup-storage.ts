@@ -0,0 +1,161 @@
+/**
+ * Backup Storage
+ *
+ * Where backup and snapshot content lives. Each backup records the adapter
+ * it was written with, so switching BACKUP_STORAGE only affects new backups:
+ * - local: files under BACKUP_STORAGE_DIR (default `.data/backups`); needs a
+ *   persistent disk, so not suitable for serverless deployments
+ * - supabase (default): the `sync-backups` Supabase Storage bucket
+ *
+ * Server-only: uses `fs`.
+ */
+
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import { createClient } from '@supabase/supabase-js';
+
+export const BACKUP_STORAGE_ADAPTERS = ['local', 'supabase'] as const;
+
+export type BackupStorageName = (typeof BACKUP_STORAGE_ADAPTERS)[number];
+
+export interface BackupStorageAdapter {
+  readonly name: BackupStorageName;
+  /** Write (or overwrite) the file at a relative path */
+  write(filePath: string, content: string | Buffer): Promise<void>;
+  /** Read a file, throwing if it does not exist */
+  read(filePath: string): Promise<Buffer>;
+  /** Remove files; missing files are ignored */
+  remove(filePaths: string[]): Promise<void>;
+  /** Remove a folder and the files in it; a missing folder is ignored */
+  removeFolder(folderPath: string): Promise<void>;
+}
+
+const SUPABASE_BACKUP_BUCKET = 'sync-backups';
+
+/**
+ * Reject absolute paths and `..` segments, so a stored backup path can never
+ * point outside the storage root
+ */
+function assertRelativePath(filePath: string): void {
+  const segments = filePath.split(/[\\/]/);
+  if (path.isAbsolute(filePath) || segments.includes('..') || segments.some((s) => s === '')) {
+    throw new Error(`Invalid backup path: ${filePath}`);
+  }
+}
+
+/**
+ * Store backups as files below a root directory
+ */
+export function createLocalBackupStorage(rootDir: string): BackupStorageAdapter {
+  const resolve = (filePath: string) => {
+    assertRelativePath(filePath);
+    return path.join(rootDir, filePath);
+  };
+
+  return {
+    name: 'local',
+
+    async write(filePath, content) {
+      const target = resolve(filePath);
+      await mkdir(path.dirname(target), { recursive: true });
+      await writeFile(target, content);
+    },
+
+    async read(filePath) {
+      return readFile(resolve(filePath));
+    },
+
+    async remove(filePaths) {
+      await Promise.all(filePaths.map((filePath) => rm(resolve(filePath), { force: true })));
+    },
+
+    async removeFolder(folderPath) {
+      await rm(resolve(folderPath), { recursive: true, force: true });
+    },
+  };
+}
+
+/**
+ * Store backups in the Supabase Storage bucket
+ */
+export function createSupabaseBackupStorage(bucket = SUPABASE_BACKUP_BUCKET): BackupStorageAdapter {
+  const getBucket = () => {
+    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+    const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+
+    if (!supabaseUrl || !supabaseKey) {
+      throw new Error('Supabase is not configured for backup storage');
+    }
+
+    return createClient(supabaseUrl, supabaseKey).storage.from(bucket);
+  };
+
+  return {
+    name: 'supabase',
+
+    async write(filePath, content) {
+      assertRelativePath(filePath);
+      const { error } = await getBucket().upload(filePath, content, {
+        contentType: 'application/octet-stream',
+        upsert: true,
+      });
+      if (error) {
+        throw new Error(`Failed to upload backup: ${error.message}`);
+      }
+    },
+
+    async read(filePath) {
+      assertRelativePath(filePath);
+      const { data, error } = await getBucket().download(filePath);
+      if (error || !data) {
+        throw new Error(`Failed to download backup: ${error?.message ?? 'not found'}`);
+      }
+      return Buffer.from(await data.arrayBuffer());
+    },
+
+    async remove(filePaths) {
+      filePaths.forEach(assertRelativePath);
+      const { error } = await getBucket().remove(filePaths);
+      if (error) {
+        throw new Error(`Failed to remove backup: ${error.message}`);
+      }
+    },
+
+    async removeFolder(folderPath) {
+      assertRelativePath(folderPath);
+      const bucket = getBucket();
+
+      // Backup folders are flat, so one listing covers them (up to the limit)
+      const { data, error } = await bucket.list(folderPath, { limit: 10000 });
+      if (error) {
+        throw new Error(`Failed to list backup: ${error.message}`);
+      }
+
+      if (data.length > 0) {
+        await this.remove(data.map((file) => `${folderPath}/${file.name}`));
+      }
+    },
+  };
+}
+
+const adapterFactories: Record<BackupStorageName, () => BackupStorageAdapter> = {
+  local: () => createLocalBackupStorage(
+    process.env.BACKUP_STORAGE_DIR || path.join(process.cwd(), '.data', 'backups')
+  ),
+  supabase: () => createSupabaseBackupStorage(),
+};
+
+export function isBackupStorageName(name: string): name is BackupStorageName {
+  return (BACKUP_STORAGE_ADAPTERS as readonly string[]).includes(name);
+}
+
+/**
+ * Adapter by name, defaulting to the one configured for new backups
+ * (BACKUP_STORAGE, `supabase` when unset)
+ */
+export function getBackupStorage(name: string = process.env.BACKUP_STORAGE || 'supabase'): BackupStorageAdapter {
+  if (!isBackupStorageName(name)) {
+    throw new Error(`Unknown backup storage adapter: ${name}`);
+  }
+  return adapterFactories[name]();
+}
@@ -0,0 +1,147 @@
+/**
+ * Change Tracking Helpers
+ *
+ * Decides how the sync engines tell whether a row changed. A table can be
+ * tracked by a timestamp column (e.g. `updated_at`, `modified_at`), by a
+ * monotonically increasing integer column (e.g. `version`), or - when neither
+ * exists - by hashing the full row and comparing source against target.
+ */
+
+import { createHash } from 'crypto';
+import type { DrizzleConnection } from './drizzle-factory';
+import { parseQualifiedTableName } from './security-utils';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ChangeTrackingKind = 'timestamp' | 'integer' | 'hash';
+
+export interface ChangeTracking {
+  column: string | null;
+  kind: ChangeTrackingKind;
+}
+
+// Used when a table config does not name a change tracking column
+export const DEFAULT_CHANGE_TRACKING_COLUMN = 'updated_at';
+
+const TIMESTAMP_TYPES = ['timestamptz', 'timestamp', 'date'];
+const INTEGER_TYPES = ['int2', 'int4', 'int8', 'numeric'];
+
+// ============================================================================
+// RESOLUTION
+// ============================================================================
+
+/**
+ * Classify a column's udt_name as a change tracking kind, or null if the
+ * column cannot be used for change tracking
+ */
+export function getChangeTrackingKind(udtName: string): Exclude<ChangeTrackingKind, 'hash'> | null {
+  if (TIMESTAMP_TYPES.includes(udtName)) return 'timestamp';
+  if (INTEGER_TYPES.includes(udtName)) return 'integer';
+  return null;
+}
+
+/**
+ * Resolve how changes are tracked for a table.
+ *
+ * @param configured - Column from the table config. `undefined` means the
+ *   default (`updated_at`); `null` explicitly opts into row-hash comparison.
+ */
+export async function resolveChangeTracking(
+  conn: DrizzleConnection,
+  tableName: string,
+  configured?: string | null
+): Promise<ChangeTracking> {
+  if (configured === null) {
+    return { column: null, kind: 'hash' };
+  }
+
+  const column = configured || DEFAULT_CHANGE_TRACKING_COLUMN;
+  const { schema, table } = parseQualifiedTableName(tableName);
+  const result = await conn.client`
+    SELECT udt_name
+    FROM information_schema.columns
+    WHERE table_schema = ${schema}
+      AND table_name = ${table}
+      AND column_name = ${column}
+  `;
+
+  const kind = result.length > 0 ? getChangeTrackingKind(String(result[0].udt_name)) : null;
+  if (!kind) {
+    return { column: null, kind: 'hash' };
+  }
+
+  return { column, kind };
+}
+
+// ============================================================================
+// COMPARISON
+// ============================================================================
+
+/**
+ * Read a row's version as a comparable number.
+ * Missing or unparseable values are treated as the oldest possible version.
+ */
+export function readRowVersion(row: Record<string, unknown>, tracking: ChangeTracking): number {
+  if (!tracking.column) return 0;
+
+  const value = row[tracking.column];
+  if (value === null || value === undefined) return 0;
+
+  if (tracking.kind === 'timestamp') {
+    const date = value instanceof Date ? value : new Date(String(value));
+    return isNaN(date.getTime()) ? 0 : date.getTime();
+  }
+
+  const version = typeof value === 'number' ? value : Number(String(value));
+  return Number.isFinite(version) ? version : 0;
+}
+
+/**
+ * Normalize a value so identical data hashes identically on both sides
+ */
+function normalizeForHash(value: unknown): unknown {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'bigint') return value.toString();
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value.toISOString();
+  if (Buffer.isBuffer(value)) return value.toString('base64');
+  if (Array.isArray(value)) return value.map(normalizeForHash);
+  if (typeof value === 'object') {
+    const obj = value as Record<string, unknown>;
+    return Object.keys(obj).sort().reduce<Record<string, unknown>>((acc, key) => {
+      acc[key] = normalizeForHash(obj[key]);
+      return acc;
+    }, {});
+  }
+  return value;
+}
+
+/**
+ * Hash the given columns of a row (sorted by name) with SHA-256
+ */
+export function hashRow(row: Record<string, unknown>, columns: string[]): string {
+  const normalized = [...columns].sort().map((c) => [c, normalizeForHash(row[c])]);
+  return createHash('sha256').update(JSON.stringify(normalized)).digest('hex');
+}
+
+/**
+ * Compare a source row with its target counterpart.
+ * Returns a positive number if the source is newer, negative if the target
+ * is newer, and 0 if they are the same version.
+ *
+ * Row hashes carry no ordering, so any difference is reported as the
+ * source being newer.
+ */
+export function compareRowVersions(
+  sourceRow: Record<string, unknown>,
+  targetRow: Record<string, unknown>,
+  tracking: ChangeTracking,
+  hashColumns: string[] = Object.keys(sourceRow)
+): number {
+  if (tracking.kind === 'hash') {
+    return hashRow(sourceRow, hashColumns) === hashRow(targetRow, hashColumns) ? 0 : 1;
+  }
+
+  return readRowVersion(sourceRow, tracking) - readRowVersion(targetRow, tracking);
+}
@@ -0,0 +1,289 @@
+/**
+ * Column Projection & Masking
+ *
+ * Per-table column include/exclude lists and named transforms that scrub
+ * sensitive values (emails, phone numbers, tokens) from source rows before
+ * they are written to the target. Transforms are deterministic, so the same
+ * source value always masks to the same target value and re-syncs don't
+ * report every masked row as changed. `hash` and `fake_email` use an HMAC
+ * keyed by a server secret, so masked values cannot be reversed by hashing
+ * guessed inputs (e.g. a list of known email addresses).
+ */
+
+import { createHmac } from 'crypto';
+import type { ColumnMaskingRule, ColumnMaskingTransform, TableConfig } from '@/types';
+import type { DrizzleConnection } from './drizzle-factory';
+import { isValidIdentifier, parseQualifiedTableName } from './security-utils';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type { ColumnMaskingRule, ColumnMaskingTransform };
+
+export type ColumnTransformConfig = Pick<TableConfig, 'includeColumns' | 'excludeColumns' | 'masking'>;
+
+export interface ColumnTransformPlan {
+  include: Set<string> | null;
+  exclude: Set<string>;
+  masks: Map<string, ColumnMaskingRule>;
+}
+
+export const MASKING_TRANSFORMS: readonly ColumnMaskingTransform[] = [
+  'hash',
+  'fake_email',
+  'null',
+  'fixed',
+  'truncate',
+];
+
+const TRANSFORM_LABELS: Record<ColumnMaskingTransform, string> = {
+  hash: 'hash',
+  fake_email: 'fake email',
+  null: 'null out',
+  fixed: 'fixed value',
+  truncate: 'truncate',
+};
+
+// Domain reserved for documentation, so fake addresses never reach a real inbox
+const FAKE_EMAIL_DOMAIN = 'example.com';
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Whether a table config projects or masks any columns
+ */
+export function hasColumnTransforms(config: ColumnTransformConfig): boolean {
+  return !!(config.includeColumns?.length || config.excludeColumns?.length || config.masking?.length);
+}
+
+/**
+ * Validate a table's column projection and masking rules against its columns.
+ * Key and change tracking columns are protected: dropping or masking them
+ * would break row matching and change detection.
+ *
+ * Returns a list of human-readable errors (empty when the config is valid).
+ */
+export function validateColumnTransforms(
+  config: ColumnTransformConfig,
+  columns: string[],
+  protectedColumns: string[] = []
+): string[] {
+  const errors: string[] = [];
+  const columnSet = new Set(columns);
+  const protectedSet = new Set(protectedColumns);
+
+  const checkColumn = (column: string, context: string): boolean => {
+    if (!isValidIdentifier(column)) {
+      errors.push(`${context}: invalid column name "${column}"`);
+      return false;
+    }
+    if (!columnSet.has(column)) {
+      errors.push(`${context}: column "${column}" does not exist`);
+      return false;
+    }
+    return true;
+  };
+
+  if (config.includeColumns?.length && config.excludeColumns?.length) {
+    errors.push('Use either included or excluded columns, not both');
+  }
+
+  for (const column of config.includeColumns || []) {
+    checkColumn(column, 'Included column');
+  }
+  if (config.includeColumns?.length) {
+    const included = new Set(config.includeColumns);
+    const missing = protectedColumns.filter((c) => !included.has(c));
+    if (missing.length > 0) {
+      errors.push(`Included columns must contain ${missing.map((c) => `"${c}"`).join(', ')}`);
+    }
+  }
+
+  for (const column of config.excludeColumns || []) {
+    if (checkColumn(column, 'Excluded column') && protectedSet.has(column)) {
+      errors.push(`Excluded column: "${column}" is required for sync and cannot be excluded`);
+    }
+  }
+
+  const masked = new Set<string>();
+  for (const rule of config.masking || []) {
+    const context = `Masking rule for "${rule.column}"`;
+    if (!checkColumn(rule.column, 'Masking rule')) continue;
+
+    if (protectedSet.has(rule.column)) {
+      errors.push(`${context}: column is required for sync and cannot be masked`);
+    }
+    if (masked.has(rule.column)) {
+      errors.push(`${context}: column has more than one masking rule`);
+    }
+    masked.add(rule.column);
+
+    if (!MASKING_TRANSFORMS.includes(rule.transform)) {
+      errors.push(`${context}: unsupported transform "${rule.transform}"`);
+    } else if (rule.transform === 'truncate' && (!Number.isInteger(rule.length) || (rule.length as number) < 0)) {
+      errors.push(`${context}: "truncate" requires a non-negative length`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Validate a table's column projection and masking rules against its live
+ * source columns. Throws with every problem found.
+ */
+export async function assertValidColumnTransforms(
+  conn: DrizzleConnection,
+  tableName: string,
+  config: ColumnTransformConfig,
+  protectedColumns: string[] = []
+): Promise<void> {
+  if (!hasColumnTransforms(config)) return;
+
+  const { schema, table } = parseQualifiedTableName(tableName);
+  const result = await conn.client`
+    SELECT column_name
+    FROM information_schema.columns
+    WHERE table_schema = ${schema}
+      AND table_name = ${table}
+  `;
+
+  const errors = validateColumnTransforms(
+    config,
+    result.map((r) => String(r.column_name)),
+    protectedColumns
+  );
+  if (errors.length > 0) {
+    throw new Error(`Invalid column masking for "${tableName}": ${errors.join('; ')}`);
+  }
+}
+
+// ============================================================================
+// TRANSFORMS
+// ============================================================================
+
+/**
+ * Text form of a value for hashing and truncation
+ */
+function toText(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (value instanceof Date) return value.toISOString();
+  if (Buffer.isBuffer(value)) return value.toString('base64');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+let maskingKey: { secret: string; key: Buffer } | null = null;
+
+/**
+ * Key for masking HMACs, derived from MASKING_SECRET (or ENCRYPTION_KEY when
+ * unset). The backend derives the same key, so both mask values identically.
+ */
+function getMaskingKey(): Buffer {
+  const secret = process.env.MASKING_SECRET || process.env.ENCRYPTION_KEY;
+  if (!secret) {
+    throw new Error('MASKING_SECRET or ENCRYPTION_KEY environment variable must be set to mask columns');
+  }
+
+  if (maskingKey?.secret !== secret) {
+    maskingKey = { secret, key: createHmac('sha256', secret).update('column-masking').digest() };
+  }
+  return maskingKey.key;
+}
+
+function keyedHash(value: unknown): string {
+  return createHmac('sha256', getMaskingKey()).update(toText(value)).digest('hex');
+}
+
+/**
+ * Apply a single masking rule to a value. NULLs stay NULL for every
+ * transform except `fixed`. `hash` and `fake_email` always produce text.
+ */
+export function maskValue(value: unknown, rule: ColumnMaskingRule): unknown {
+  switch (rule.transform) {
+    case 'null':
+      return null;
+    case 'fixed':
+      return rule.value ?? null;
+  }
+
+  if (value === null || value === undefined) return value;
+
+  switch (rule.transform) {
+    case 'hash':
+      return keyedHash(value);
+    case 'fake_email':
+      return `user_${keyedHash(value).slice(0, 12)}@${FAKE_EMAIL_DOMAIN}`;
+    case 'truncate':
+      return toText(value).slice(0, rule.length ?? 0);
+    default:
+      return value;
+  }
+}
+
+/**
+ * Build a reusable plan from a table config, or null when the table syncs
+ * every column unchanged
+ */
+export function createColumnTransformPlan(config: ColumnTransformConfig): ColumnTransformPlan | null {
+  if (!hasColumnTransforms(config)) return null;
+
+  return {
+    include: config.includeColumns?.length ? new Set(config.includeColumns) : null,
+    exclude: new Set(config.excludeColumns || []),
+    masks: new Map((config.masking || []).map((rule) => [rule.column, rule])),
+  };
+}
+
+/**
+ * Project and mask a source row. Returns a new row; the input is not modified.
+ */
+export function applyColumnTransforms(
+  row: Record<string, unknown>,
+  plan: ColumnTransformPlan | null
+): Record<string, unknown> {
+  if (!plan) return row;
+
+  const result: Record<string, unknown> = {};
+  for (const [column, value] of Object.entries(row)) {
+    if (plan.include ? !plan.include.has(column) : plan.exclude.has(column)) continue;
+
+    const rule = plan.masks.get(column);
+    result[column] = rule ? maskValue(value, rule) : value;
+  }
+  return result;
+}
+
+// ============================================================================
+// DISPLAY
+// ============================================================================
+
+/**
+ * Human-readable lines describing a table's projection and masking, e.g.
+ * `["excluded: ssn, api_token", "email → fake email"]`
+ */
+export function describeColumnTransforms(config: ColumnTransformConfig): string[] {
+  const lines: string[] = [];
+
+  if (config.includeColumns?.length) {
+    lines.push(`only: ${config.includeColumns.join(', ')}`);
+  }
+  if (config.excludeColumns?.length) {
+    lines.push(`excluded: ${config.excludeColumns.join(', ')}`);
+  }
+  for (const rule of config.masking || []) {
+    const label = TRANSFORM_LABELS[rule.transform] || rule.transform;
+    if (rule.transform === 'fixed') {
+      lines.push(`${rule.column} → ${label} (${rule.value === null || rule.value === undefined ? 'NULL' : String(rule.value)})`);
+    } else if (rule.transform === 'truncate') {
+      lines.push(`${rule.column} → ${label} (${rule.length} chars)`);
+    } else {
+      lines.push(`${rule.column} → ${label}`);
+    }
+  }
+
+  return lines;
+}
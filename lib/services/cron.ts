@@ -0,0 +1,628 @@
+/**
+ * Cron Expressions
+ *
+ * Parsing, validation, description and timezone-aware next-run calculation
+ * for the cron expressions used by sync schedules. Safe to import from client
+ * components.
+ *
+ * Format: minute hour day-of-month month day-of-week
+ * - `*`, values, ranges (`1-5`), lists (`1,3,5`) and steps (`*\/15`, `0-30/10`, `5/15`)
+ * - month names (`JAN`-`DEC`) and day names (`SUN`-`SAT`); `7` is also Sunday
+ * - `L` in day-of-month (last day of the month) and `<day>L` in day-of-week
+ *   (`5L` = last Friday of the month)
+ * - macros: `@yearly`, `@annually`, `@monthly`, `@weekly`, `@daily`,
+ *   `@midnight`, `@hourly`
+ *
+ * As in Vixie cron, when both day-of-month and day-of-week are restricted a
+ * day matches if either field matches.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * A parsed cron expression. Value lists are sorted ascending.
+ */
+export interface CronSchedule {
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: number[];
+  lastDayOfMonth: boolean;
+  months: number[];
+  daysOfWeek: number[];
+  // Days of week that match only in the last week of the month (`5L`)
+  lastDaysOfWeek: number[];
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+  // Whether the hour field is a wildcard (`*` or `*\/n`), see resolveWallTime()
+  hourWildcard: boolean;
+}
+
+interface CronFieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: readonly string[];
+  nameOffset?: number;
+}
+
+interface WallTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const CRON_MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'] as const;
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'] as const;
+
+const MONTH_LABELS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+const DAY_LABELS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const FIELDS: readonly CronFieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day-of-month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES, nameOffset: 1 },
+  { name: 'day-of-week', min: 0, max: 7, names: DAY_NAMES, nameOffset: 0 },
+];
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+// Leap-day schedules can be up to 8 years apart (e.g. Feb 29 on a Monday)
+const MAX_SEARCH_DAYS = 8 * 366;
+
+// Wall-clock candidates this far before the start time can still fall after
+// it once converted to an instant (DST shifts are at most a couple of hours)
+const DST_SLACK_MS = 3 * HOUR_MS;
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+function parseFieldValue(token: string, spec: CronFieldSpec, part: string): number {
+  if (spec.names && /^[a-z]+$/i.test(token)) {
+    const index = spec.names.indexOf(token.toUpperCase());
+    if (index === -1) {
+      throw new Error(`Invalid name in ${spec.name}: ${part}`);
+    }
+    return index + (spec.nameOffset ?? 0);
+  }
+
+  if (!/^\d+$/.test(token)) {
+    throw new Error(`Invalid value in ${spec.name}: ${part}`);
+  }
+  const value = parseInt(token, 10);
+  if (value < spec.min || value > spec.max) {
+    throw new Error(`Invalid value in ${spec.name}: ${part}`);
+  }
+  return value;
+}
+
+/**
+ * Expand one cron field into the values it matches
+ */
+function parseCronField(
+  field: string,
+  spec: CronFieldSpec
+): { values: Set<number>; last: boolean; lastDays: Set<number> } {
+  const values = new Set<number>();
+  const lastDays = new Set<number>();
+  let last = false;
+
+  for (const part of field.split(',')) {
+    if (part === '') {
+      throw new Error(`Empty value in ${spec.name}: ${field}`);
+    }
+
+    if (spec.name === 'day-of-month' && part.toUpperCase() === 'L') {
+      last = true;
+      continue;
+    }
+
+    const lastDay = spec.name === 'day-of-week' ? /^([a-z0-9]+)L$/i.exec(part) : null;
+    if (lastDay) {
+      lastDays.add(parseFieldValue(lastDay[1], spec, part) % 7);
+      continue;
+    }
+
+    const pieces = part.split('/');
+    if (pieces.length > 2) {
+      throw new Error(`Invalid step in ${spec.name}: ${part}`);
+    }
+    const [rangePart, stepPart] = pieces;
+
+    let step = 1;
+    if (stepPart !== undefined) {
+      step = /^\d+$/.test(stepPart) ? parseInt(stepPart, 10) : NaN;
+      if (!(step >= 1 && step <= spec.max)) {
+        throw new Error(`Invalid step in ${spec.name}: ${part}`);
+      }
+    }
+
+    let start: number;
+    let end: number;
+    if (rangePart === '*' || (rangePart === '?' && (spec.name === 'day-of-month' || spec.name === 'day-of-week'))) {
+      start = spec.min;
+      // Sunday is both 0 and 7; `*` only needs one of them
+      end = spec.name === 'day-of-week' ? 6 : spec.max;
+    } else if (rangePart.includes('-')) {
+      const bounds = rangePart.split('-');
+      if (bounds.length !== 2) {
+        throw new Error(`Invalid range in ${spec.name}: ${part}`);
+      }
+      start = parseFieldValue(bounds[0], spec, part);
+      end = parseFieldValue(bounds[1], spec, part);
+      if (start > end) {
+        throw new Error(`Invalid range in ${spec.name}: ${part}`);
+      }
+    } else {
+      start = parseFieldValue(rangePart, spec, part);
+      // `5/15` means "from 5 through the end of the range, every 15"
+      end = stepPart !== undefined ? spec.max : start;
+    }
+
+    for (let i = start; i <= end; i += step) {
+      values.add(spec.name === 'day-of-week' ? i % 7 : i);
+    }
+  }
+
+  return { values, last, lastDays };
+}
+
+function sorted(values: Set<number>): number[] {
+  return [...values].sort((a, b) => a - b);
+}
+
+/**
+ * Replace a macro such as `@daily` with its 5-field expression
+ */
+function expandMacro(expression: string): string {
+  const trimmed = expression.trim();
+  if (!trimmed.startsWith('@')) return trimmed;
+
+  const expanded = CRON_MACROS[trimmed.toLowerCase()];
+  if (!expanded) {
+    throw new Error(`Unsupported macro: ${trimmed}`);
+  }
+  return expanded;
+}
+
+/**
+ * Parse a cron expression. Throws with a human-readable message when the
+ * expression is invalid.
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const parts = expandMacro(expression).split(/\s+/);
+  if (parts.length !== 5) {
+    throw new Error('Cron expression must have 5 fields: minute hour day month day-of-week');
+  }
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = parts.map((part, i) => parseCronField(part, FIELDS[i]));
+  const isWildcard = (field: string) => field.startsWith('*') || field === '?';
+
+  return {
+    minutes: sorted(minute.values),
+    hours: sorted(hour.values),
+    daysOfMonth: sorted(dayOfMonth.values),
+    lastDayOfMonth: dayOfMonth.last,
+    months: sorted(month.values),
+    daysOfWeek: sorted(dayOfWeek.values),
+    lastDaysOfWeek: sorted(dayOfWeek.lastDays),
+    dayOfMonthRestricted: !isWildcard(parts[2]),
+    dayOfWeekRestricted: !isWildcard(parts[4]),
+    hourWildcard: parts[1].startsWith('*'),
+  };
+}
+
+// ============================================================================
+// TIMEZONES
+// ============================================================================
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Whether `timezone` is an IANA timezone name this runtime knows
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    getFormatter(timezone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function toWallTime(instant: number, timezone: string): WallTime {
+  const wall: WallTime = { year: 0, month: 0, day: 0, hour: 0, minute: 0 };
+  for (const { type, value } of getFormatter(timezone).formatToParts(new Date(instant))) {
+    if (type === 'year' || type === 'month' || type === 'day' || type === 'hour' || type === 'minute') {
+      wall[type] = parseInt(value, 10);
+    }
+  }
+  // Some runtimes render midnight as 24 even with hourCycle h23
+  if (wall.hour === 24) wall.hour = 0;
+  return wall;
+}
+
+/**
+ * A wall time encoded as if it were UTC, so wall times compare and subtract
+ * like instants
+ */
+function wallTimeMs(wall: WallTime): number {
+  return Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute);
+}
+
+/**
+ * UTC offset of `timezone` at `instant`, in milliseconds
+ */
+function offsetAt(instant: number, timezone: string): number {
+  const minute = Math.floor(instant / MINUTE_MS) * MINUTE_MS;
+  return wallTimeMs(toWallTime(minute, timezone)) - minute;
+}
+
+/**
+ * Instants at which a wall time occurs in `timezone`.
+ *
+ * - Usually exactly one.
+ * - Wall times skipped by a DST change (spring forward) run at the
+ *   equivalent time after the change, e.g. 02:30 becomes 03:30.
+ * - Wall times repeated by a DST change (fall back) run once, at their first
+ *   occurrence, unless the hour field is a wildcard; hourly and more frequent
+ *   schedules keep running in real time through the repeated hour.
+ */
+function resolveWallTime(local: number, timezone: string, allowRepeat: boolean): number[] {
+  const offsetBefore = offsetAt(local - DAY_MS, timezone);
+  const offsetAfter = offsetAt(local + DAY_MS, timezone);
+
+  const instants = [...new Set([offsetBefore, offsetAfter])]
+    .map((offset) => local - offset)
+    .filter((instant) => wallTimeMs(toWallTime(instant, timezone)) === local)
+    .sort((a, b) => a - b);
+
+  if (instants.length === 0) {
+    return [local - offsetBefore];
+  }
+  return allowRepeat ? instants : [instants[0]];
+}
+
+// ============================================================================
+// NEXT RUN
+// ============================================================================
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function matchesDay(schedule: CronSchedule, year: number, month: number, day: number): boolean {
+  const lastDay = daysInMonth(year, month);
+  const dayOfWeek = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+
+  const dayOfMonthMatch =
+    schedule.daysOfMonth.includes(day) || (schedule.lastDayOfMonth && day === lastDay);
+  const dayOfWeekMatch =
+    schedule.daysOfWeek.includes(dayOfWeek) ||
+    (schedule.lastDaysOfWeek.includes(dayOfWeek) && day + 7 > lastDay);
+
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) {
+    return dayOfMonthMatch || dayOfWeekMatch;
+  }
+  if (schedule.dayOfMonthRestricted) return dayOfMonthMatch;
+  if (schedule.dayOfWeekRestricted) return dayOfWeekMatch;
+  return true;
+}
+
+/**
+ * First run of a parsed schedule strictly after `from`, or null when it
+ * never fires within the search window
+ */
+export function nextRunOf(schedule: CronSchedule, from: Date, timezone: string = 'UTC'): Date | null {
+  const fromMs = from.getTime();
+  const fromLocal = wallTimeMs(toWallTime(fromMs, timezone));
+
+  // Start a day early: a wall time late on the previous day can still be
+  // ahead of `from` when the clocks were just turned back
+  const startDay = Math.floor(fromLocal / DAY_MS) * DAY_MS - DAY_MS;
+
+  let best: number | null = null;
+  let bestLocal = 0;
+
+  for (let dayIndex = 0; dayIndex <= MAX_SEARCH_DAYS; dayIndex++) {
+    const dayStart = startDay + dayIndex * DAY_MS;
+    if (best !== null && dayStart > bestLocal + DST_SLACK_MS) break;
+
+    const date = new Date(dayStart);
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth() + 1;
+    const day = date.getUTCDate();
+
+    if (!schedule.months.includes(month) || !matchesDay(schedule, year, month, day)) {
+      continue;
+    }
+
+    for (const hour of schedule.hours) {
+      for (const minute of schedule.minutes) {
+        const local = Date.UTC(year, month - 1, day, hour, minute);
+        if (local <= fromLocal - DST_SLACK_MS) continue;
+
+        // Wall times map to instants almost monotonically; once well past
+        // the best candidate, nothing later can beat it
+        if (best !== null && local > bestLocal + DST_SLACK_MS) {
+          return new Date(best);
+        }
+
+        for (const instant of resolveWallTime(local, timezone, schedule.hourWildcard)) {
+          if (instant > fromMs && (best === null || instant < best)) {
+            best = instant;
+            bestLocal = local;
+          }
+        }
+      }
+    }
+  }
+
+  return best === null ? null : new Date(best);
+}
+
+/**
+ * Calculate next run time based on cron expression, evaluated in the given
+ * IANA timezone. Returns null for invalid expressions or timezones.
+ */
+export function calculateNextRun(
+  cronExpression: string,
+  fromDate: Date = new Date(),
+  timezone: string = 'UTC'
+): Date | null {
+  try {
+    return nextRunOf(parseCronExpression(cronExpression), fromDate, timezone);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Calculate the next `count` run times
+ */
+export function getNextRuns(
+  cronExpression: string,
+  count: number,
+  fromDate: Date = new Date(),
+  timezone: string = 'UTC'
+): Date[] {
+  const runs: Date[] = [];
+
+  try {
+    const schedule = parseCronExpression(cronExpression);
+    let from = fromDate;
+    while (runs.length < count) {
+      const next = nextRunOf(schedule, from, timezone);
+      if (!next) break;
+      runs.push(next);
+      from = next;
+    }
+  } catch {
+    // Invalid expression or timezone: no runs
+  }
+
+  return runs;
+}
+
+/**
+ * Validate cron expression (and optionally its timezone)
+ */
+export function validateCronExpression(
+  expression: string,
+  timezone?: string
+): { valid: boolean; error?: string } {
+  let schedule: CronSchedule;
+  try {
+    schedule = parseCronExpression(expression);
+  } catch (error) {
+    return { valid: false, error: error instanceof Error ? error.message : 'Invalid cron expression' };
+  }
+
+  if (timezone !== undefined && !isValidTimezone(timezone)) {
+    return { valid: false, error: `Unknown timezone: ${timezone}` };
+  }
+
+  // e.g. `0 0 30 2 *` parses but never fires
+  if (!nextRunOf(schedule, new Date(), timezone || 'UTC')) {
+    return { valid: false, error: 'Cron expression never matches a date' };
+  }
+
+  return { valid: true };
+}
+
+// ============================================================================
+// DESCRIPTION
+// ============================================================================
+
+function formatList(items: string[]): string {
+  if (items.length <= 1) return items.join('');
+  return `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+}
+
+/**
+ * List values, collapsing runs of three or more into "a through b"
+ */
+function formatValues(values: number[], label: (value: number) => string = String): string {
+  const items: string[] = [];
+
+  for (let i = 0; i < values.length; ) {
+    let j = i;
+    while (j + 1 < values.length && values[j + 1] === values[j] + 1) j++;
+
+    if (j - i >= 2) {
+      items.push(`${label(values[i])} through ${label(values[j])}`);
+    } else {
+      for (let k = i; k <= j; k++) items.push(label(values[k]));
+    }
+    i = j + 1;
+  }
+
+  return formatList(items);
+}
+
+/**
+ * The step `n` when `values` is exactly min, min+n, min+2n, ... up to max
+ */
+function uniformStep(values: number[], min: number, max: number): number | null {
+  if (values.length < 2 || values[0] !== min) return null;
+
+  const step = values[1] - values[0];
+  const expected = Math.floor((max - min) / step) + 1;
+  if (values.length !== expected) return null;
+
+  return values.every((value, i) => value === min + i * step) ? step : null;
+}
+
+function formatTime(hour: number, minute: number): string {
+  if (hour === 0 && minute === 0) return 'midnight';
+  return `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+}
+
+function describeTime(schedule: CronSchedule): { text: string; single: boolean } {
+  const { minutes, hours } = schedule;
+  const everyMinute = minutes.length === 60;
+  const everyHour = hours.length === 24;
+  const minuteStep = uniformStep(minutes, 0, 59);
+  const hourStep = uniformStep(hours, 0, 23);
+  const duringHours = everyHour ? '' : ` during hour ${formatValues(hours)}`;
+
+  if (everyMinute) {
+    return { text: `Every minute${duringHours}`, single: false };
+  }
+  if (minuteStep) {
+    return { text: `Every ${minuteStep} minutes${duringHours}`, single: false };
+  }
+
+  if (minutes.length === 1) {
+    const [minute] = minutes;
+    if (everyHour) {
+      return { text: `Every hour at minute ${minute}`, single: false };
+    }
+    if (hourStep) {
+      return { text: minute === 0 ? `Every ${hourStep} hours` : `Every ${hourStep} hours at minute ${minute}`, single: false };
+    }
+  }
+
+  if (!everyHour && minutes.length * hours.length <= 6) {
+    const times = hours.flatMap((hour) => minutes.map((minute) => formatTime(hour, minute)));
+    return { text: `At ${formatList(times)}`, single: times.length === 1 };
+  }
+
+  return {
+    text: `At minute ${formatValues(minutes)} past ${everyHour ? 'every hour' : `hour ${formatValues(hours)}`}`,
+    single: false,
+  };
+}
+
+function describeDays(schedule: CronSchedule): string {
+  const dayOfMonth: string[] = [];
+  if (schedule.dayOfMonthRestricted) {
+    const days = schedule.daysOfMonth.length ? [`day ${formatValues(schedule.daysOfMonth)}`] : [];
+    if (schedule.lastDayOfMonth) days.push('the last day');
+    dayOfMonth.push(`on ${formatList(days)} of the month`);
+  }
+
+  const dayOfWeek: string[] = [];
+  if (schedule.dayOfWeekRestricted) {
+    if (schedule.daysOfWeek.length) {
+      dayOfWeek.push(formatValues(schedule.daysOfWeek, (d) => DAY_LABELS[d]));
+    }
+    for (const d of schedule.lastDaysOfWeek) {
+      dayOfWeek.push(`the last ${DAY_LABELS[d]} of the month`);
+    }
+  }
+
+  const parts = [...dayOfMonth];
+  if (dayOfWeek.length) parts.push(`on ${formatList(dayOfWeek)}`);
+  return parts.join(' or ');
+}
+
+/**
+ * Get human-readable description of cron expression, e.g.
+ * "At 09:30 on Monday through Friday" or "At midnight on the last day of the month"
+ */
+export function describeCron(expression: string, timezone?: string): string {
+  let schedule: CronSchedule;
+  try {
+    schedule = parseCronExpression(expression);
+  } catch {
+    return 'Invalid expression';
+  }
+
+  const time = describeTime(schedule);
+  const days = describeDays(schedule);
+  const months = schedule.months.length === 12
+    ? ''
+    : ` in ${formatValues(schedule.months, (m) => MONTH_LABELS[m - 1])}`;
+  const zone = timezone ? ` (${timezone})` : '';
+
+  if (time.single && !days && !months) {
+    return `Daily ${time.text.toLowerCase()}${zone}`;
+  }
+  if (
+    time.single && !months && !schedule.dayOfMonthRestricted &&
+    schedule.lastDaysOfWeek.length === 0
+  ) {
+    return `Every ${formatValues(schedule.daysOfWeek, (d) => DAY_LABELS[d])} ${time.text.toLowerCase()}${zone}`;
+  }
+
+  return `${time.text}${days ? ` ${days}` : ''}${months}${zone}`;
+}
+
+// Common cron presets
+export const CRON_PRESETS = {
+  everyMinute: '* * * * *',
+  every5Minutes: '*/5 * * * *',
+  every15Minutes: '*/15 * * * *',
+  every30Minutes: '*/30 * * * *',
+  everyHour: '0 * * * *',
+  every6Hours: '0 */6 * * *',
+  every12Hours: '0 */12 * * *',
+  daily: '0 0 * * *',
+  dailyAt9AM: '0 9 * * *',
+  weekdaysAt9AM: '0 9 * * MON-FRI',
+  weekly: '0 0 * * 0',
+  monthly: '0 0 1 * *',
+  lastDayOfMonth: '0 0 L * *',
+};
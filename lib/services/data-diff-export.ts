@@ -0,0 +1,72 @@
+/**
+ * Data Diff Export
+ *
+ * Formats a DataDiffReport for download. Also used in the browser, so it
+ * must not import server-only modules.
+ * - json: the full report, including sample rows
+ * - csv: one line per table with its counts and changed columns
+ */
+
+import type { DataDiffReport } from '@/types';
+import { formatCsvRow } from '@/lib/utils/csv';
+
+export const DATA_DIFF_EXPORT_FORMATS = ['json', 'csv'] as const;
+
+export type DataDiffExportFormat = (typeof DATA_DIFF_EXPORT_FORMATS)[number];
+
+export interface DataDiffExport {
+  filename: string;
+  contentType: string;
+  body: string;
+}
+
+const CSV_HEADER = [
+  'table',
+  'primary_key',
+  'source_rows',
+  'target_rows',
+  'only_in_source',
+  'only_in_target',
+  'identical',
+  'differing',
+  'changed_columns',
+  'error',
+];
+
+/**
+ * Package a data diff report in the given format
+ */
+export function exportDataDiffReport(report: DataDiffReport, format: DataDiffExportFormat): DataDiffExport {
+  const stamp = report.generatedAt.replace(/[-:]/g, '').replace(/\..*$/, '');
+  const filename = `data-diff-${stamp}.${format}`;
+
+  switch (format) {
+    case 'json':
+      return {
+        filename,
+        contentType: 'application/json; charset=utf-8',
+        body: JSON.stringify(report, null, 2),
+      };
+
+    case 'csv': {
+      const lines = report.tables.map((table) => formatCsvRow([
+        table.tableName,
+        table.primaryKey.join(' '),
+        table.sourceRowCount,
+        table.targetRowCount,
+        table.onlyInSource,
+        table.onlyInTarget,
+        table.identical,
+        table.differing,
+        table.columnChanges.map((change) => `${change.columnName}:${change.rows}`).join(' '),
+        table.error,
+      ]));
+
+      return {
+        filename,
+        contentType: 'text/csv; charset=utf-8',
+        body: `${[formatCsvRow(CSV_HEADER), ...lines].join('\r\n')}\r\n`,
+      };
+    }
+  }
+}
@@ -0,0 +1,513 @@
+/**
+ * Data Diff
+ *
+ * Compares the rows of tables in two databases without transferring them.
+ * Each table's primary key space is split into ranges of about
+ * DATA_DIFF_CONFIG.rangeSize rows, and every range is hashed on both sides.
+ * Only ranges whose hashes differ are compared row by row, using keys and
+ * row hashes. Only rows that differ are compared column by column, again by
+ * hash. Full rows are fetched just for the report's samples.
+ *
+ * Each table is read in a REPEATABLE READ transaction on both sides. The
+ * output settings are pinned so values render the same on both servers, and
+ * text keys are compared in the "C" collation so both servers order (and so
+ * split and hash) the key space the same way.
+ */
+
+import { createDrizzleClient, type DrizzleConnection } from './drizzle-factory';
+import {
+  resolvePrimaryKey,
+  serializeRowKey,
+  parseRowKey,
+  buildKeyColumnList,
+  buildKeyMatchCondition,
+  flattenKeys,
+  type PrimaryKeyColumns,
+} from './primary-key';
+import { escapeIdentifier, escapeQualifiedName, parseQualifiedTableName } from './security-utils';
+import { logger } from '@/lib/services/logger';
+import type { DataDiffReport, DataDiffRowStatus, DataDiffTable } from '@/types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface DataDiffOptions {
+  sourceUrl: string;
+  targetUrl: string;
+  tables: string[];
+  sourceName: string;
+  targetName: string;
+  /** Rows per hashed key range */
+  rangeSize?: number;
+  /** Sample rows per status and table */
+  sampleSize?: number;
+}
+
+type Sql = DrizzleConnection['client'];
+
+/** Rows after `lower` up to and including `upper`; null ends are open */
+interface KeyRange {
+  lower: string | null;
+  upper: string | null;
+}
+
+interface TableColumn {
+  name: string;
+  /** Whether the column's type has a collation (text, varchar, ...) */
+  collatable: boolean;
+}
+
+/** Primary key columns and the SQL they are ordered and compared by */
+interface DiffKey {
+  columns: PrimaryKeyColumns;
+  expressions: string[];
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const DATA_DIFF_CONFIG = {
+  rangeSize: 10000,
+  minRangeSize: 100,
+  maxRangeSize: 100000,
+  sampleSize: 10,
+  maxSampleSize: 100,
+  keyBatchSize: 500, // Keys per column hash or sample query
+};
+
+// Settings that change how values are rendered as text, and so their hashes
+const OUTPUT_SETTINGS = [
+  `SET LOCAL TIME ZONE 'UTC'`,
+  `SET LOCAL DateStyle = 'ISO, MDY'`,
+  `SET LOCAL IntervalStyle = 'postgres'`,
+  `SET LOCAL extra_float_digits = 1`,
+  `SET LOCAL bytea_output = 'hex'`,
+];
+
+const SAMPLE_STATUSES: DataDiffRowStatus[] = ['only_in_source', 'only_in_target', 'differing'];
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * Columns of a table, in ordinal order; empty if it does not exist
+ */
+async function getColumns(sql: Sql, tableName: string): Promise<TableColumn[]> {
+  const { schema, table } = parseQualifiedTableName(tableName);
+  const result = await sql`
+    SELECT c.column_name, t.typcollation <> 0 AS collatable
+    FROM information_schema.columns c
+    JOIN pg_catalog.pg_namespace n ON n.nspname = c.udt_schema
+    JOIN pg_catalog.pg_type t ON t.typnamespace = n.oid AND t.typname = c.udt_name
+    WHERE c.table_schema = ${schema}
+      AND c.table_name = ${table}
+    ORDER BY c.ordinal_position
+  `;
+
+  return result.map((r) => ({ name: String(r.column_name), collatable: r.collatable === true }));
+}
+
+/**
+ * Key columns with text ones in the "C" collation. Database default
+ * collations can order text keys differently on each server, which would
+ * split the key space into ranges that don't line up.
+ */
+function buildDiffKey(primaryKey: PrimaryKeyColumns, columns: TableColumn[]): DiffKey {
+  const collatable = new Set(columns.filter((c) => c.collatable).map((c) => c.name));
+  return {
+    columns: primaryKey,
+    expressions: primaryKey.map((c) => collatable.has(c) ? `${escapeIdentifier(c)} COLLATE "C"` : escapeIdentifier(c)),
+  };
+}
+
+/**
+ * ORDER BY clause body for a diff key
+ */
+function buildDiffKeyOrderBy(key: DiffKey): string {
+  return key.expressions.map((e) => `${e} ASC`).join(', ');
+}
+
+/**
+ * Condition comparing a diff key with a key given as parameters, using a
+ * row-value comparison for composite keys
+ *
+ * @param firstParam - 1-based index of the first placeholder to use
+ */
+function buildDiffKeyCondition(key: DiffKey, operator: '>' | '<=', firstParam: number): string {
+  if (key.expressions.length === 1) {
+    return `${key.expressions[0]} ${operator} $${firstParam}`;
+  }
+
+  const placeholders = key.expressions.map((_, i) => `$${firstParam + i}`).join(', ');
+  return `(${key.expressions.join(', ')}) ${operator} (${placeholders})`;
+}
+
+/**
+ * SQL expression hashing a row's compared columns
+ */
+function rowHashExpression(columns: string[]): string {
+  return `md5(ROW(${columns.map(escapeIdentifier).join(', ')})::text)`;
+}
+
+/**
+ * WHERE clause (with leading space) and parameters selecting a key range
+ */
+function buildRangeWhere(range: KeyRange, key: DiffKey): { where: string; params: string[] } {
+  const conditions: string[] = [];
+  const params: string[] = [];
+
+  if (range.lower !== null) {
+    conditions.push(buildDiffKeyCondition(key, '>', params.length + 1));
+    params.push(...parseRowKey(range.lower, key.columns));
+  }
+  if (range.upper !== null) {
+    conditions.push(buildDiffKeyCondition(key, '<=', params.length + 1));
+    params.push(...parseRowKey(range.upper, key.columns));
+  }
+
+  return { where: conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '', params };
+}
+
+/**
+ * Upper keys of consecutive ranges of `rangeSize` rows after `after`. Only
+ * one key per range is transferred.
+ */
+async function findRangeBounds(
+  sql: Sql,
+  tableName: string,
+  key: DiffKey,
+  rangeSize: number,
+  after: string | null
+): Promise<string[]> {
+  const bounds: string[] = [];
+  let last = after;
+
+  for (;;) {
+    const { where, params } = buildRangeWhere({ lower: last, upper: null }, key);
+    const rows = await sql.unsafe(
+      `SELECT ${buildKeyColumnList(key.columns)} FROM ${escapeQualifiedName(tableName)}${where} ` +
+      `ORDER BY ${buildDiffKeyOrderBy(key)} OFFSET ${rangeSize - 1} LIMIT 1`,
+      params
+    );
+
+    if (rows.length === 0) {
+      return bounds;
+    }
+
+    last = serializeRowKey(rows[0], key.columns);
+    bounds.push(last);
+  }
+}
+
+/**
+ * Row count and a hash of all rows in a key range, in key order
+ */
+async function hashRange(
+  sql: Sql,
+  tableName: string,
+  columns: string[],
+  key: DiffKey,
+  range: KeyRange
+): Promise<{ count: number; hash: string | null }> {
+  const { where, params } = buildRangeWhere(range, key);
+  const [row] = await sql.unsafe(
+    `SELECT count(*)::int AS count, ` +
+    `md5(string_agg(${rowHashExpression(columns)}, '' ORDER BY ${buildDiffKeyOrderBy(key)})) AS hash ` +
+    `FROM ${escapeQualifiedName(tableName)}${where}`,
+    params
+  );
+
+  return { count: Number(row.count), hash: row.hash ?? null };
+}
+
+/**
+ * Serialized key -> row hash for every row in a key range
+ */
+async function getRowHashes(
+  sql: Sql,
+  tableName: string,
+  columns: string[],
+  key: DiffKey,
+  range: KeyRange
+): Promise<Map<string, string>> {
+  const { where, params } = buildRangeWhere(range, key);
+  const rows = await sql.unsafe(
+    `SELECT ${buildKeyColumnList(key.columns)}, ${rowHashExpression(columns)} AS "__row_hash" ` +
+    `FROM ${escapeQualifiedName(tableName)}${where}`,
+    params
+  );
+
+  return new Map(rows.map((row) => [serializeRowKey(row, key.columns), String(row.__row_hash)]));
+}
+
+/**
+ * Serialized key -> per-column value hashes (null for NULL values)
+ */
+async function getColumnHashes(
+  sql: Sql,
+  tableName: string,
+  columns: string[],
+  primaryKey: PrimaryKeyColumns,
+  keys: string[]
+): Promise<Map<string, (string | null)[]>> {
+  const hashList = columns.map((column, i) => `md5(${escapeIdentifier(column)}::text) AS "__column_${i}"`).join(', ');
+  const rows = await sql.unsafe(
+    `SELECT ${buildKeyColumnList(primaryKey)}, ${hashList} FROM ${escapeQualifiedName(tableName)} ` +
+    `WHERE ${buildKeyMatchCondition(primaryKey, keys.length)}`,
+    flattenKeys(keys, primaryKey)
+  );
+
+  return new Map(rows.map((row) => [
+    serializeRowKey(row, primaryKey),
+    columns.map((_, i) => (row[`__column_${i}`] as string | null) ?? null),
+  ]));
+}
+
+/**
+ * Serialized key -> compared columns of the rows with the given keys
+ */
+async function getRows(
+  sql: Sql,
+  tableName: string,
+  columns: string[],
+  primaryKey: PrimaryKeyColumns,
+  keys: string[]
+): Promise<Map<string, Record<string, unknown>>> {
+  if (keys.length === 0) {
+    return new Map();
+  }
+
+  const rows = await sql.unsafe(
+    `SELECT ${columns.map(escapeIdentifier).join(', ')} FROM ${escapeQualifiedName(tableName)} ` +
+    `WHERE ${buildKeyMatchCondition(primaryKey, keys.length)}`,
+    flattenKeys(keys, primaryKey)
+  );
+
+  return new Map(rows.map((row) => [serializeRowKey(row, primaryKey), row as Record<string, unknown>]));
+}
+
+// ============================================================================
+// COMPARISON
+// ============================================================================
+
+function emptyTableDiff(tableName: string): DataDiffTable {
+  return {
+    tableName,
+    primaryKey: [],
+    columns: [],
+    sourceRowCount: 0,
+    targetRowCount: 0,
+    onlyInSource: 0,
+    onlyInTarget: 0,
+    identical: 0,
+    differing: 0,
+    columnChanges: [],
+    samples: [],
+    rangesCompared: 0,
+    rangesDiffering: 0,
+  };
+}
+
+/**
+ * Compare one table, range by range. `result` already holds the primary
+ * key and compared columns.
+ */
+async function compareTable(
+  source: Sql,
+  target: Sql,
+  result: DataDiffTable,
+  key: DiffKey,
+  rangeSize: number,
+  sampleSize: number
+): Promise<void> {
+  const { tableName, primaryKey, columns } = result;
+
+  // Ranges follow the source's keys, then the target's past the last one
+  const bounds = await findRangeBounds(source, tableName, key, rangeSize, null);
+  bounds.push(...await findRangeBounds(target, tableName, key, rangeSize, bounds[bounds.length - 1] ?? null));
+  const ranges: KeyRange[] = [
+    ...bounds.map((upper, i) => ({ lower: i === 0 ? null : bounds[i - 1], upper })),
+    { lower: bounds[bounds.length - 1] ?? null, upper: null },
+  ];
+
+  const columnChangeCounts = new Map<string, number>();
+  const changedColumnsByKey = new Map<string, string[]>();
+  const sampleKeys: Record<DataDiffRowStatus, string[]> = {
+    only_in_source: [],
+    only_in_target: [],
+    differing: [],
+  };
+
+  const addSample = (status: DataDiffRowStatus, key: string) => {
+    if (sampleKeys[status].length < sampleSize) {
+      sampleKeys[status].push(key);
+    }
+  };
+
+  for (const range of ranges) {
+    result.rangesCompared++;
+
+    const [sourceRange, targetRange] = await Promise.all([
+      hashRange(source, tableName, columns, key, range),
+      hashRange(target, tableName, columns, key, range),
+    ]);
+    result.sourceRowCount += sourceRange.count;
+    result.targetRowCount += targetRange.count;
+
+    if (sourceRange.count === targetRange.count && sourceRange.hash === targetRange.hash) {
+      result.identical += sourceRange.count;
+      continue;
+    }
+
+    result.rangesDiffering++;
+
+    const [sourceHashes, targetHashes] = await Promise.all([
+      getRowHashes(source, tableName, columns, key, range),
+      getRowHashes(target, tableName, columns, key, range),
+    ]);
+
+    const differingKeys: string[] = [];
+    for (const [key, hash] of sourceHashes) {
+      const targetHash = targetHashes.get(key);
+      if (targetHash === undefined) {
+        result.onlyInSource++;
+        addSample('only_in_source', key);
+      } else if (targetHash === hash) {
+        result.identical++;
+      } else {
+        result.differing++;
+        differingKeys.push(key);
+      }
+    }
+    for (const key of targetHashes.keys()) {
+      if (!sourceHashes.has(key)) {
+        result.onlyInTarget++;
+        addSample('only_in_target', key);
+      }
+    }
+
+    for (let i = 0; i < differingKeys.length; i += DATA_DIFF_CONFIG.keyBatchSize) {
+      const batch = differingKeys.slice(i, i + DATA_DIFF_CONFIG.keyBatchSize);
+      const [sourceColumns, targetColumns] = await Promise.all([
+        getColumnHashes(source, tableName, columns, primaryKey, batch),
+        getColumnHashes(target, tableName, columns, primaryKey, batch),
+      ]);
+
+      for (const key of batch) {
+        const sourceValues = sourceColumns.get(key);
+        const targetValues = targetColumns.get(key);
+        if (!sourceValues || !targetValues) continue;
+
+        const changed = columns.filter((_, index) => sourceValues[index] !== targetValues[index]);
+        for (const column of changed) {
+          columnChangeCounts.set(column, (columnChangeCounts.get(column) ?? 0) + 1);
+        }
+
+        if (sampleKeys.differing.length < sampleSize) {
+          sampleKeys.differing.push(key);
+          changedColumnsByKey.set(key, changed);
+        }
+      }
+    }
+  }
+
+  result.columnChanges = [...columnChangeCounts]
+    .map(([columnName, rows]) => ({ columnName, rows }))
+    .sort((a, b) => b.rows - a.rows);
+
+  const [sourceRows, targetRows] = await Promise.all([
+    getRows(source, tableName, columns, primaryKey, [...sampleKeys.only_in_source, ...sampleKeys.differing]),
+    getRows(target, tableName, columns, primaryKey, [...sampleKeys.only_in_target, ...sampleKeys.differing]),
+  ]);
+
+  result.samples = SAMPLE_STATUSES.flatMap((status) => sampleKeys[status].map((key) => ({
+    key,
+    status,
+    source: sourceRows.get(key) ?? null,
+    target: targetRows.get(key) ?? null,
+    changedColumns: changedColumnsByKey.get(key) ?? [],
+  })));
+}
+
+/**
+ * Compare the rows of tables in two databases. Tables that cannot be
+ * compared (missing on one side, no primary key) are reported with an
+ * error rather than failing the report.
+ */
+export async function generateDataDiffReport(options: DataDiffOptions): Promise<DataDiffReport> {
+  const { sourceUrl, targetUrl, tables, sourceName, targetName } = options;
+  const rangeSize = Math.min(
+    Math.max(options.rangeSize ?? DATA_DIFF_CONFIG.rangeSize, DATA_DIFF_CONFIG.minRangeSize),
+    DATA_DIFF_CONFIG.maxRangeSize
+  );
+  const sampleSize = Math.min(Math.max(options.sampleSize ?? DATA_DIFF_CONFIG.sampleSize, 0), DATA_DIFF_CONFIG.maxSampleSize);
+
+  const sourceConn = createDrizzleClient(sourceUrl);
+  const targetConn = createDrizzleClient(targetUrl);
+
+  try {
+    const tableDiffs: DataDiffTable[] = [];
+
+    for (const tableName of tables) {
+      const result = emptyTableDiff(tableName);
+      tableDiffs.push(result);
+
+      try {
+        const [sourceColumns, targetColumns] = await Promise.all([
+          getColumns(sourceConn.client, tableName),
+          getColumns(targetConn.client, tableName),
+        ]);
+        const targetColumnNames = targetColumns.map((c) => c.name);
+
+        if (sourceColumns.length === 0 || targetColumns.length === 0) {
+          result.error = `Table missing in ${sourceColumns.length === 0 ? 'source' : 'target'}`;
+          continue;
+        }
+
+        result.primaryKey = await resolvePrimaryKey(sourceConn, tableName);
+        result.columns = sourceColumns.map((c) => c.name).filter((column) => targetColumnNames.includes(column));
+
+        const missingKeyColumns = result.primaryKey.filter((column) => !targetColumnNames.includes(column));
+        if (missingKeyColumns.length > 0) {
+          result.error = `Primary key columns missing in target: ${missingKeyColumns.join(', ')}`;
+          continue;
+        }
+
+        await sourceConn.client.begin('ISOLATION LEVEL REPEATABLE READ READ ONLY', async (source) => {
+          for (const setting of OUTPUT_SETTINGS) await source.unsafe(setting);
+
+          await targetConn.client.begin('ISOLATION LEVEL REPEATABLE READ READ ONLY', async (target) => {
+            for (const setting of OUTPUT_SETTINGS) await target.unsafe(setting);
+
+            await compareTable(source, target, result, buildDiffKey(result.primaryKey, sourceColumns), rangeSize, sampleSize);
+          });
+        });
+      } catch (error) {
+        logger.error('Failed to diff table data', { tableName, error });
+        // Partial counts would be misleading
+        Object.assign(result, emptyTableDiff(tableName), {
+          error: error instanceof Error ? error.message : 'Comparison failed',
+        });
+      }
+    }
+
+    return {
+      sourceName,
+      targetName,
+      generatedAt: new Date().toISOString(),
+      tables: tableDiffs,
+      totals: {
+        onlyInSource: tableDiffs.reduce((sum, t) => sum + t.onlyInSource, 0),
+        onlyInTarget: tableDiffs.reduce((sum, t) => sum + t.onlyInTarget, 0),
+        identical: tableDiffs.reduce((sum, t) => sum + t.identical, 0),
+        differing: tableDiffs.reduce((sum, t) => sum + t.differing, 0),
+      },
+    };
+  } finally {
+    await sourceConn.close();
+    await targetConn.close();
+  }
+}
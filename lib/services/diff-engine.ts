@@ -1,11 +1,37 @@
 import { createDrizzleClient, type DrizzleConnection } from './drizzle-factory';
 import { areTypesCompatible } from './schema-inspector';
-import type { TableDiff, SchemaDiff, ColumnDiff } from '@/types';
+import type { TableDiff, SchemaDiff, ColumnDiff, ConflictStrategy } from '@/types';
 import {
-  isValidTableName,
+  isValidQualifiedTableName,
   escapeIdentifier,
+  escapeQualifiedName,
+  parseQualifiedTableName,
   SecurityError,
 } from './security-utils';
+import {
+  resolvePrimaryKey,
+  serializeRowKey,
+  parseRowKey,
+  buildKeyColumnList,
+  buildKeyOrderBy,
+  buildKeysetCondition,
+  buildKeyMatchCondition,
+  flattenKeys,
+  type PrimaryKeyColumns,
+} from './primary-key';
+import {
+  resolveChangeTracking,
+  compareRowVersions,
+  DEFAULT_CHANGE_TRACKING_COLUMN,
+  type ChangeTracking,
+} from './change-tracking';
+import {
+  assertValidRowFilters,
+  compileRowFilters,
+  describeRowFilters,
+  type CompiledRowFilter,
+  type RowFilter,
+} from './row-filter';
 import { logger } from '@/lib/services/logger';
 
 // ============================================================================
@@ -63,6 +89,9 @@ export interface DiffOptions {
   tables: string[];
   since?: Date; // Only get changes after this timestamp
   sampleSize?: number; // Number of sample rows to include
+  mirrorDeleteTables?: string[]; // Tables where source-missing rows will be deleted
+  changeTrackingColumns?: Record<string, string | null>; // Per-table change tracking column (default: updated_at)
+  rowFilters?: Record<string, RowFilter[]>; // Per-table row filters; only matching source rows are counted
 }
 
 export interface DiffResult {
@@ -70,13 +99,47 @@ export interface DiffResult {
   schemaIssues: SchemaDiff[];
   totalInserts: number;
   totalUpdates: number;
+  totalDeletes: number;
+}
+
+/**
+ * Whether source-missing rows may be deleted from the target. In two-way
+ * mode a row missing from the source may be a new target row rather than a
+ * source delete, so only delete when the source wins.
+ */
+export function shouldMirrorDeletes(
+  direction: 'one_way' | 'two_way',
+  strategy: ConflictStrategy = 'last_write_wins'
+): boolean {
+  return direction === 'one_way' || strategy === 'source_wins';
+}
+
+/**
+ * Names of the enabled tables whose deletes will be mirrored to the target
+ */
+export function getMirrorDeleteTables(
+  tables: { tableName: string; enabled: boolean; mirrorDeletes?: boolean; conflictStrategy?: ConflictStrategy }[],
+  direction: 'one_way' | 'two_way'
+): string[] {
+  return tables
+    .filter((t) => t.enabled && t.mirrorDeletes && shouldMirrorDeletes(direction, t.conflictStrategy))
+    .map((t) => t.tableName);
 }
 
 /**
  * Calculate differences between source and target databases
  */
 export async function calculateDiff(options: DiffOptions): Promise<DiffResult> {
-  const { sourceUrl, targetUrl, tables, since, sampleSize = 5 } = options;
+  const {
+    sourceUrl,
+    targetUrl,
+    tables,
+    since,
+    sampleSize = 5,
+    mirrorDeleteTables = [],
+    changeTrackingColumns = {},
+    rowFilters = {},
+  } = options;
   
   let sourceConn: DrizzleConnection | null = null;
   let targetConn: DrizzleConnection | null = null;
@@ -89,6 +152,7 @@ export async function calculateDiff(options: DiffOptions): Promise<DiffResult> {
     const schemaIssues: SchemaDiff[] = [];
     let totalInserts = 0;
     let totalUpdates = 0;
+    let totalDeletes = 0;
     
     for (const tableName of tables) {
       // Check schema compatibility
@@ -113,12 +177,16 @@ export async function calculateDiff(options: DiffOptions): Promise<DiffResult> {
         targetConn,
         tableName,
         since,
-        sampleSize
+        sampleSize,
+        mirrorDeleteTables.includes(tableName),
+        changeTrackingColumns[tableName],
+        rowFilters[tableName]
       );
       
       tableDiffs.push(diff);
       totalInserts += diff.inserts;
       totalUpdates += diff.updates;
+      totalDeletes += diff.deletes;
     }
     
     return {
@@ -126,6 +194,7 @@ export async function calculateDiff(options: DiffOptions): Promise<DiffResult> {
       schemaIssues,
       totalInserts,
       totalUpdates,
+      totalDeletes,
     };
   } finally {
     if (sourceConn) await sourceConn.close();
@@ -230,6 +299,7 @@ async function getTableColumns(
   conn: DrizzleConnection,
   tableName: string
 ): Promise<{ name: string; type: string; udtName: string; isNullable: boolean }[]> {
+  const { schema, table } = parseQualifiedTableName(tableName);
   try {
     const result = await conn.client`
       SELECT 
@@ -238,8 +308,8 @@ async function getTableColumns(
         udt_name,
         is_nullable = 'YES' as is_nullable
       FROM information_schema.columns
-      WHERE table_schema = 'public'
-        AND table_name = ${tableName}
+      WHERE table_schema = ${schema}
+        AND table_name = ${table}
       ORDER BY ordinal_position
     `;
     
@@ -263,69 +333,92 @@ async function calculateTableDiff(
   targetConn: DrizzleConnection,
   tableName: string,
   since?: Date,
-  sampleSize: number = 5
+  sampleSize: number = 5,
+  includeDeletes: boolean = false,
+  changeTrackingColumn?: string | null,
+  filters: RowFilter[] = []
 ): Promise<TableDiff> {
   // SECURITY: Validate table name before use
-  if (!isValidTableName(tableName)) {
+  if (!isValidQualifiedTableName(tableName)) {
     throw new SecurityError(`Invalid table name: ${tableName}`);
   }
   
-  const safeTableName = escapeIdentifier(tableName);
+  const safeTableName = escapeQualifiedName(tableName);
+  const primaryKey = await resolvePrimaryKey(targetConn, tableName);
+  const keyColumnList = buildKeyColumnList(primaryKey);
+  const tracking = await resolveChangeTracking(sourceConn, tableName, changeTrackingColumn);
+  await assertValidRowFilters(sourceConn, tableName, filters);
+  const hasFilters = filters.length > 0;
+  // Only timestamp columns can be filtered by a point in time
+  const sinceColumn = since && tracking.kind === 'timestamp' && tracking.column
+    ? escapeIdentifier(tracking.column)
+    : null;
+  // Full rows are needed to compare hashes
+  const versionSelectList = tracking.column ? `${keyColumnList}, ${escapeIdentifier(tracking.column)}` : '*';
+  // Rows with a NULL key column cannot be matched and are left out
+  const toKeys = (rows: readonly Record<string, unknown>[]) =>
+    rows.map((r) => serializeRowKey(r, primaryKey)).filter(Boolean);
   
   // Get row counts
-  const [sourceCount, targetCount] = await Promise.all([
+  const [sourceCount, targetCount, matchingSourceCount] = await Promise.all([
     getRowCount(sourceConn, tableName),
     getRowCount(targetConn, tableName),
+    hasFilters ? getRowCount(sourceConn, tableName, compileRowFilters(filters)) : Promise.resolve(undefined),
   ]);
   
-  // Find rows that need to be inserted (exist in source but not in target)
-  const insertQuery = since
-    ? `
-      SELECT s.* FROM ${safeTableName} s
-      LEFT JOIN ${safeTableName} t ON s.id = t.id
-      WHERE t.id IS NULL AND s.updated_at >= $1
-      ORDER BY s.updated_at DESC
-      LIMIT $2
-    `
-    : `
-      SELECT s.* FROM ${safeTableName} s
-      LEFT JOIN ${safeTableName} t ON s.id = t.id
-      WHERE t.id IS NULL
-      ORDER BY s.updated_at DESC
-      LIMIT $1
-    `;
-  
-  // For cross-database comparison, we need to do this differently
-  // Get source IDs first
-  const sourceIdsResult = since
-    ? await sourceConn.client.unsafe(
-        `SELECT id FROM ${safeTableName} WHERE updated_at >= $1`,
-        [since.toISOString()]
-      )
-    : await sourceConn.client.unsafe(`SELECT id FROM ${safeTableName}`);
+  // For cross-database comparison, get source keys first, restricted to rows
+  // changed since `since` and matching the table's row filters
+  const sourceConditions: string[] = [];
+  const sourceParams: (string | number | boolean)[] = [];
+  if (since && sinceColumn) {
+    sourceParams.push(since.toISOString());
+    sourceConditions.push(`${sinceColumn} >= $1`);
+  }
+  if (hasFilters) {
+    const compiled = compileRowFilters(filters, sourceParams.length + 1);
+    sourceConditions.push(compiled.sql);
+    sourceParams.push(...compiled.params);
+  }
+  const sourceKeysResult = await sourceConn.client.unsafe(
+    sourceConditions.length > 0
+      ? `SELECT ${keyColumnList} FROM ${safeTableName} WHERE ${sourceConditions.join(' AND ')}`
+      : `SELECT ${keyColumnList} FROM ${safeTableName}`,
+    sourceParams
+  );
   
-  const sourceIds = new Set(sourceIdsResult.map((r) => r.id));
+  const sourceIds = new Set(toKeys(sourceKeysResult));
   
-  // Get target IDs
-  const targetIdsResult = await targetConn.client.unsafe(
-    `SELECT id FROM ${safeTableName}`
+  // Get target keys
+  const targetKeysResult = await targetConn.client.unsafe(
+    `SELECT ${keyColumnList} FROM ${safeTableName}`
   );
-  const targetIds = new Set(targetIdsResult.map((r) => r.id));
+  const targetIds = new Set(toKeys(targetKeysResult));
   
   // Calculate inserts (in source but not in target)
   const insertIds = [...sourceIds].filter((id) => !targetIds.has(id));
   
+  // Calculate deletes (in target but no longer in source). When filtering by
+  // timestamp or row filters the source key set is partial, so fetch the full
+  // set for this.
+  let deleteCount = 0;
+  if (includeDeletes) {
+    const allSourceIds = sinceColumn || hasFilters
+      ? new Set(toKeys(await sourceConn.client.unsafe(`SELECT ${keyColumnList} FROM ${safeTableName}`)))
+      : sourceIds;
+    deleteCount = [...targetIds].filter((id) => !allSourceIds.has(id)).length;
+  }
+  
   // Get sample insert rows
   let sampleInserts: Record<string, unknown>[] = [];
   if (insertIds.length > 0) {
     // SECURITY: Validate sampleSize to prevent abuse
     const safeSampleSize = Math.min(Math.max(1, sampleSize), 100);
     const sampleIds = insertIds.slice(0, safeSampleSize);
-    const placeholders = sampleIds.map((_, i) => `$${i + 1}`).join(', ');
+    const sampleParams = flattenKeys(sampleIds, primaryKey);
     // SECURITY: Use parameterized query for LIMIT
     const insertSampleResult = await sourceConn.client.unsafe(
-      `SELECT * FROM ${safeTableName} WHERE id IN (${placeholders}) LIMIT $${sampleIds.length + 1}`,
-      [...sampleIds, safeSampleSize]
+      `SELECT * FROM ${safeTableName} WHERE ${buildKeyMatchCondition(primaryKey, sampleIds.length)} LIMIT $${sampleParams.length + 1}`,
+      [...sampleParams, safeSampleSize]
     );
     sampleInserts = insertSampleResult as Record<string, unknown>[];
   }
@@ -340,40 +433,36 @@ async function calculateTableDiff(
     const batchSize = 1000;
     for (let i = 0; i < commonIds.length; i += batchSize) {
       const batch = commonIds.slice(i, i + batchSize);
-      const placeholders = batch.map((_, idx) => `$${idx + 1}`).join(', ');
+      const batchCondition = buildKeyMatchCondition(primaryKey, batch.length);
+      const batchParams = flattenKeys(batch, primaryKey);
       
-      // Get source timestamps
-      const sourceTimestamps = await sourceConn.client.unsafe(
-        `SELECT id, updated_at FROM ${safeTableName} WHERE id IN (${placeholders})`,
-        batch
+      // Get source versions
+      const sourceVersions = await sourceConn.client.unsafe(
+        `SELECT ${versionSelectList} FROM ${safeTableName} WHERE ${batchCondition}`,
+        batchParams
       );
       
-      // Get target timestamps
-      const targetTimestamps = await targetConn.client.unsafe(
-        `SELECT id, updated_at FROM ${safeTableName} WHERE id IN (${placeholders})`,
-        batch
+      // Get target versions
+      const targetVersions = await targetConn.client.unsafe(
+        `SELECT ${versionSelectList} FROM ${safeTableName} WHERE ${batchCondition}`,
+        batchParams
       );
       
-      const targetTimestampMap = new Map(
-        targetTimestamps.map((r) => {
-          const timestamp = r.updated_at ? new Date(r.updated_at as string) : new Date(0);
-          return [r.id, isNaN(timestamp.getTime()) ? new Date(0) : timestamp];
-        })
+      const targetVersionMap = new Map(
+        targetVersions.map((r) => [serializeRowKey(r, primaryKey), r as Record<string, unknown>])
       );
       
-      for (const row of sourceTimestamps) {
-        // Safely parse date, default to epoch if invalid
-        const rawSourceTime = row.updated_at ? new Date(row.updated_at as string) : new Date(0);
-        const sourceTime = isNaN(rawSourceTime.getTime()) ? new Date(0) : rawSourceTime;
-        const targetTime = targetTimestampMap.get(row.id);
+      for (const row of sourceVersions) {
+        const key = serializeRowKey(row, primaryKey);
+        const targetRow = targetVersionMap.get(key);
         
-        if (targetTime && sourceTime > targetTime) {
+        if (targetRow && compareRowVersions(row, targetRow, tracking) > 0) {
           updateCount++;
           
           if (sampleUpdates.length < sampleSize) {
             const fullRow = await sourceConn.client.unsafe(
-              `SELECT * FROM ${safeTableName} WHERE id = $1`,
-              [row.id]
+              `SELECT * FROM ${safeTableName} WHERE ${buildKeyMatchCondition(primaryKey, 1)}`,
+              parseRowKey(key, primaryKey)
             );
             if (fullRow[0]) {
               sampleUpdates.push(fullRow[0] as Record<string, unknown>);
@@ -388,26 +477,37 @@ async function calculateTableDiff(
     tableName,
     inserts: insertIds.length,
     updates: updateCount,
+    deletes: deleteCount,
     sourceRowCount: sourceCount,
     targetRowCount: targetCount,
     sampleInserts,
     sampleUpdates,
+    ...(hasFilters && {
+      filteredSourceRowCount: matchingSourceCount,
+      filterSummary: describeRowFilters(filters),
+    }),
   };
 }
 
 /**
- * Get row count for a table
+ * Get row count for a table, optionally only counting rows matching a filter
  */
-async function getRowCount(conn: DrizzleConnection, tableName: string): Promise<number> {
+async function getRowCount(
+  conn: DrizzleConnection,
+  tableName: string,
+  filter?: CompiledRowFilter
+): Promise<number> {
   // SECURITY: Validate table name before use
-  if (!isValidTableName(tableName)) {
+  if (!isValidQualifiedTableName(tableName)) {
     throw new SecurityError(`Invalid table name: ${tableName}`);
   }
   
   try {
-    const safeTableName = escapeIdentifier(tableName);
+    const safeTableName = escapeQualifiedName(tableName);
+    const where = filter?.sql ? ` WHERE ${filter.sql}` : '';
     const result = await conn.client.unsafe(
-      `SELECT COUNT(*) as count FROM ${safeTableName}`
+      `SELECT COUNT(*) as count FROM ${safeTableName}${where}`,
+      filter?.params ?? []
     );
     return safeParseInt(result[0]?.count);
   } catch (error) {
@@ -417,7 +517,9 @@ async function getRowCount(conn: DrizzleConnection, tableName: string): Promise<
 }
 
 /**
- * Get rows that need to be synced from source to target
+ * Get rows that need to be synced from source to target.
+ * Paginates by the table's primary key; `afterId` and the returned `lastId`
+ * are keys serialized with `serializeRowKey`.
  */
 export async function getRowsToSync(
   sourceConn: DrizzleConnection,
@@ -425,32 +527,47 @@ export async function getRowsToSync(
   tableName: string,
   since?: Date,
   afterId?: string,
-  batchSize: number = 1000
+  batchSize: number = 1000,
+  primaryKey: PrimaryKeyColumns = ['id'],
+  changeTracking?: ChangeTracking,
+  filters?: RowFilter[]
 ): Promise<{
   rows: Record<string, unknown>[];
   hasMore: boolean;
   lastId: string | null;
 }> {
   // SECURITY: Validate table name before use
-  if (!isValidTableName(tableName)) {
+  if (!isValidQualifiedTableName(tableName)) {
     throw new SecurityError(`Invalid table name: ${tableName}`);
   }
   
-  const safeTableName = escapeIdentifier(tableName);
+  const safeTableName = escapeQualifiedName(tableName);
   
   // Build query for source rows
   let query = `SELECT * FROM ${safeTableName}`;
-  const params: (string | Date)[] = [];
+  const params: (string | number | boolean)[] = [];
   const conditions: string[] = [];
   
-  if (since) {
+  // Only timestamp-tracked tables can be filtered by `since`
+  const sinceColumn = changeTracking
+    ? (changeTracking.kind === 'timestamp' ? changeTracking.column : null)
+    : DEFAULT_CHANGE_TRACKING_COLUMN;
+  
+  if (since && sinceColumn) {
     params.push(since.toISOString());
-    conditions.push(`updated_at >= $${params.length}`);
+    conditions.push(`${escapeIdentifier(sinceColumn)} >= $${params.length}`);
+  }
+
+  // Row filters are validated by the caller against the table's columns
+  if (filters && filters.length > 0) {
+    const compiled = compileRowFilters(filters, params.length + 1);
+    conditions.push(compiled.sql);
+    params.push(...compiled.params);
   }
   
   if (afterId) {
-    params.push(afterId);
-    conditions.push(`id > $${params.length}`);
+    conditions.push(buildKeysetCondition(primaryKey, params.length + 1));
+    params.push(...parseRowKey(afterId, primaryKey));
   }
   
   if (conditions.length > 0) {
@@ -460,14 +577,14 @@ export async function getRowsToSync(
   // SECURITY: Ensure batch size is within safe limits and use parameterized query
   const safeBatchSize = Math.min(Math.max(1, batchSize), 10000);
   params.push(String(safeBatchSize + 1));
-  query += ` ORDER BY id ASC LIMIT $${params.length}`;
+  query += ` ORDER BY ${buildKeyOrderBy(primaryKey)} LIMIT $${params.length}`;
 
   const rows = await sourceConn.client.unsafe(query, params);
   
   const hasMore = rows.length > safeBatchSize;
   const resultRows = hasMore ? rows.slice(0, safeBatchSize) : rows;
   const lastRow = resultRows.length > 0 ? resultRows[resultRows.length - 1] : null;
-  const lastId = lastRow ? safeString(lastRow.id) || null : null;
+  const lastId = lastRow ? serializeRowKey(lastRow, primaryKey) || null : null;
   
   return {
     rows: resultRows as Record<string, unknown>[],
@@ -476,3 +593,61 @@ export async function getRowsToSync(
   };
 }
 
+
+/**
+ * Get primary keys of target rows that no longer exist in the source.
+ * Scans the target in keyset-paginated batches so large tables are never
+ * loaded into memory at once. Keys are serialized with `serializeRowKey`.
+ */
+export async function getDeletedRowIds(
+  sourceConn: DrizzleConnection,
+  targetConn: DrizzleConnection,
+  tableName: string,
+  afterId?: string,
+  batchSize: number = 1000,
+  primaryKey: PrimaryKeyColumns = ['id']
+): Promise<{
+  ids: string[];
+  hasMore: boolean;
+  lastId: string | null;
+}> {
+  // SECURITY: Validate table name before use
+  if (!isValidQualifiedTableName(tableName)) {
+    throw new SecurityError(`Invalid table name: ${tableName}`);
+  }
+  
+  const safeTableName = escapeQualifiedName(tableName);
+  const safeBatchSize = Math.min(Math.max(1, batchSize), 10000);
+  
+  const keyColumnList = buildKeyColumnList(primaryKey);
+  const params: string[] = [];
+  let query = `SELECT ${keyColumnList} FROM ${safeTableName}`;
+  if (afterId) {
+    query += ` WHERE ${buildKeysetCondition(primaryKey, 1)}`;
+    params.push(...parseRowKey(afterId, primaryKey));
+  }
+  params.push(String(safeBatchSize + 1));
+  query += ` ORDER BY ${buildKeyOrderBy(primaryKey)} LIMIT $${params.length}`;
+  
+  const targetRows = await targetConn.client.unsafe(query, params);
+  
+  const hasMore = targetRows.length > safeBatchSize;
+  const targetIds = (hasMore ? targetRows.slice(0, safeBatchSize) : targetRows)
+    .map((r) => serializeRowKey(r, primaryKey));
+  
+  if (targetIds.length === 0) {
+    return { ids: [], hasMore: false, lastId: null };
+  }
+  
+  const sourceRows = await sourceConn.client.unsafe(
+    `SELECT ${keyColumnList} FROM ${safeTableName} WHERE ${buildKeyMatchCondition(primaryKey, targetIds.length)}`,
+    flattenKeys(targetIds, primaryKey)
+  );
+  const sourceIds = new Set(sourceRows.map((r) => serializeRowKey(r, primaryKey)));
+  
+  return {
+    ids: targetIds.filter((id) => !sourceIds.has(id)),
+    hasMore,
+    lastId: targetIds[targetIds.length - 1] || null,
+  };
+}
@@ -1,6 +1,12 @@
 import { drizzle } from 'drizzle-orm/postgres-js';
 import postgres, { Sql } from 'postgres';
 import { logger } from '@/lib/services/logger';
+import {
+  DEFAULT_SCHEMA,
+  escapeQualifiedName,
+  parseQualifiedTableName,
+  qualifyTableName,
+} from './security-utils';
 
 // ============================================================================
 // SAFE TYPE COERCION HELPERS
@@ -109,8 +115,13 @@ export async function executeWithTimeout<T>(
 /**
  * Test database connection by running a simple query
  * Returns true if connection successful, throws error otherwise
+ * 
+ * @param schemas - Schemas whose tables are counted
  */
-export async function testConnection(databaseUrl: string): Promise<{ success: true; version: string; tableCount: number } | { success: false; error: string }> {
+export async function testConnection(
+  databaseUrl: string,
+  schemas: string[] = [DEFAULT_SCHEMA]
+): Promise<{ success: true; version: string; tableCount: number } | { success: false; error: string }> {
   let connection: DrizzleConnection | null = null;
   
   try {
@@ -128,7 +139,7 @@ export async function testConnection(databaseUrl: string): Promise<{ success: tr
     const tableResult = await executeWithTimeout(
       connection,
       async () => connection!.client`
-        SELECT COUNT(*) as count FROM pg_tables WHERE schemaname = 'public'
+        SELECT COUNT(*) as count FROM pg_tables WHERE schemaname = ANY(${connection!.client.array(schemas)})
       `,
       10000
     );
@@ -149,8 +160,13 @@ export async function testConnection(databaseUrl: string): Promise<{ success: tr
 /**
  * Get list of tables from a database that are eligible for syncing
  * Tables must have 'id' (UUID) and 'updated_at' (timestamp) columns
+ * 
+ * Tables outside `public` are returned as `schema.table`
  */
-export async function getSyncableTables(databaseUrl: string): Promise<string[]> {
+export async function getSyncableTables(
+  databaseUrl: string,
+  schemas: string[] = [DEFAULT_SCHEMA]
+): Promise<string[]> {
   let connection: DrizzleConnection | null = null;
   
   try {
@@ -160,7 +176,7 @@ export async function getSyncableTables(databaseUrl: string): Promise<string[]>
     const result = await executeWithTimeout(
       connection,
       async () => connection!.client`
-        SELECT DISTINCT t.table_name
+        SELECT DISTINCT t.table_schema, t.table_name
         FROM information_schema.tables t
         INNER JOIN information_schema.columns c1 
           ON t.table_name = c1.table_name 
@@ -170,16 +186,16 @@ export async function getSyncableTables(databaseUrl: string): Promise<string[]>
           ON t.table_name = c2.table_name 
           AND t.table_schema = c2.table_schema
           AND c2.column_name = 'updated_at'
-        WHERE t.table_schema = 'public'
+        WHERE t.table_schema = ANY(${connection!.client.array(schemas)})
           AND t.table_type = 'BASE TABLE'
           AND t.table_name NOT LIKE 'pg_%'
           AND t.table_name NOT LIKE '_prisma_%'
           AND t.table_name NOT LIKE 'drizzle_%'
-        ORDER BY t.table_name
+        ORDER BY t.table_schema, t.table_name
       `
     );
     
-    return result.map((row) => row.table_name as string);
+    return result.map((row) => qualifyTableName(row.table_schema as string, row.table_name as string));
   } finally {
     if (connection) {
       await connection.close();
@@ -188,18 +204,22 @@ export async function getSyncableTables(databaseUrl: string): Promise<string[]>
 }
 
 /**
- * Get table schema information
+ * Get table schema information. Identity columns get their value from a
+ * sequence when omitted; generated columns cannot be written at all.
  */
 export async function getTableSchema(databaseUrl: string, tableName: string): Promise<{
   columnName: string;
   dataType: string;
   isNullable: boolean;
   columnDefault: string | null;
+  isIdentity: boolean;
+  isGenerated: boolean;
 }[]> {
   let connection: DrizzleConnection | null = null;
   
   try {
     connection = createDrizzleClient(databaseUrl);
+    const { schema, table } = parseQualifiedTableName(tableName);
     
     const result = await executeWithTimeout(
       connection,
@@ -208,10 +228,12 @@ export async function getTableSchema(databaseUrl: string, tableName: string): Pr
           column_name,
           data_type,
           is_nullable = 'YES' as is_nullable,
-          column_default
+          column_default,
+          is_identity = 'YES' as is_identity,
+          is_generated = 'ALWAYS' as is_generated
         FROM information_schema.columns
-        WHERE table_schema = 'public'
-          AND table_name = ${tableName}
+        WHERE table_schema = ${schema}
+          AND table_name = ${table}
         ORDER BY ordinal_position
       `
     );
@@ -221,6 +243,8 @@ export async function getTableSchema(databaseUrl: string, tableName: string): Pr
       dataType: safeString(row.data_type),
       isNullable: safeBoolean(row.is_nullable),
       columnDefault: row.column_default != null ? safeString(row.column_default) : null,
+      isIdentity: safeBoolean(row.is_identity),
+      isGenerated: safeBoolean(row.is_generated),
     })).filter(col => col.columnName); // Filter out invalid entries
   } finally {
     if (connection) {
@@ -237,22 +261,25 @@ export async function getTableRowCount(databaseUrl: string, tableName: string):
   
   try {
     connection = createDrizzleClient(databaseUrl);
+    const safeTableName = escapeQualifiedName(tableName);
+    const { schema, table } = parseQualifiedTableName(tableName);
     
     // Use estimated count for large tables (faster)
     const result = await executeWithTimeout(
       connection,
-      async () => connection!.client`
-        SELECT 
+      async () => connection!.client.unsafe(
+        `SELECT 
           CASE 
             WHEN c.reltuples < 0 THEN 0
             WHEN c.reltuples > 1000000 THEN c.reltuples::bigint
-            ELSE (SELECT COUNT(*) FROM "${tableName}")
+            ELSE (SELECT COUNT(*) FROM ${safeTableName})
           END as count
         FROM pg_class c
         JOIN pg_namespace n ON n.oid = c.relnamespace
-        WHERE c.relname = ${tableName}
-          AND n.nspname = 'public'
-      `,
+        WHERE c.relname = $1
+          AND n.nspname = $2`,
+        [table, schema]
+      ),
       30000 // 30 second timeout for count
     );
     
@@ -0,0 +1,146 @@
+/**
+ * Explorer Export
+ *
+ * Streams an explorer view - a table with its current filter, quick search
+ * and ordering - as CSV, NDJSON or SQL INSERT statements. Rows are read
+ * through a cursor in batches, so only one batch is held in memory, and the
+ * export stops at a row cap.
+ */
+
+import type { DrizzleConnection } from './drizzle-factory';
+import { escapeSqlValue } from './backup-service';
+import { buildExplorerWhereClause, type ExplorerFilterGroup } from './explorer-filter';
+import { buildKeysetQuery, type SortDirection } from './keyset-pagination';
+import { escapeIdentifier, escapeQualifiedName } from './security-utils';
+import { formatCsvRow } from '@/lib/utils/csv';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const EXPLORER_EXPORT_FORMATS = ['csv', 'ndjson', 'sql'] as const;
+
+export type ExplorerExportFormat = (typeof EXPLORER_EXPORT_FORMATS)[number];
+
+export interface ExplorerExportOptions {
+  tableName: string;
+  format: ExplorerExportFormat;
+  // Exported columns, in output order
+  columns: string[];
+  filter?: ExplorerFilterGroup | null;
+  search?: string | null;
+  searchColumns?: string[];
+  // Same ordering as the explorer grid, see keyset-pagination.ts
+  orderColumn?: string | null;
+  direction: SortDirection;
+  keyColumns: string[];
+  maxRows: number;
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const DEFAULT_EXPORT_ROWS = 10000;
+export const MAX_EXPORT_ROWS = 100000;
+
+// Rows fetched per cursor round trip; also rows per INSERT statement
+const EXPORT_BATCH_SIZE = 500;
+
+const CONTENT_TYPES: Record<ExplorerExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8',
+  sql: 'application/sql; charset=utf-8',
+};
+
+// ============================================================================
+// FORMATTING
+// ============================================================================
+
+export function getExportContentType(format: ExplorerExportFormat): string {
+  return CONTENT_TYPES[format];
+}
+
+/**
+ * Download name, e.g. `billing.invoices-20240501T101500.csv`
+ */
+export function getExportFilename(tableName: string, format: ExplorerExportFormat, date: Date = new Date()): string {
+  const stamp = date.toISOString().replace(/[-:]/g, '').replace(/\..*$/, '');
+  return `${tableName}-${stamp}.${format}`;
+}
+
+/**
+ * Text written before the first row: the CSV header line, or a comment
+ * naming the table for SQL
+ */
+export function formatExportHeader(format: ExplorerExportFormat, tableName: string, columns: string[]): string {
+  switch (format) {
+    case 'csv':
+      return `${formatCsvRow(columns)}\n`;
+    case 'sql':
+      return `-- Rows exported from ${tableName}\n`;
+    default:
+      return '';
+  }
+}
+
+/**
+ * Format one batch of rows. SQL batches become a single multi-row INSERT.
+ */
+export function formatExportRows(
+  format: ExplorerExportFormat,
+  tableName: string,
+  columns: string[],
+  rows: Record<string, unknown>[]
+): string {
+  if (rows.length === 0) return '';
+
+  switch (format) {
+    case 'csv':
+      return rows.map((row) => `${formatCsvRow(columns.map((col) => row[col]))}\n`).join('');
+
+    case 'ndjson':
+      return rows
+        .map((row) => `${JSON.stringify(Object.fromEntries(columns.map((col) => [col, row[col] ?? null])))}\n`)
+        .join('');
+
+    case 'sql': {
+      const columnList = columns.map(escapeIdentifier).join(', ');
+      const values = rows.map((row) => `(${columns.map((col) => escapeSqlValue(row[col])).join(', ')})`);
+      return `INSERT INTO ${escapeQualifiedName(tableName)} (${columnList}) VALUES\n${values.join(',\n')};\n`;
+    }
+  }
+}
+
+// ============================================================================
+// STREAMING
+// ============================================================================
+
+/**
+ * Stream the export as text chunks: the header, then one chunk per batch
+ */
+export async function* streamExplorerExport(
+  conn: DrizzleConnection,
+  options: ExplorerExportOptions
+): AsyncGenerator<string> {
+  const { tableName, format, columns } = options;
+
+  const where = buildExplorerWhereClause({
+    filter: options.filter,
+    search: options.search,
+    searchColumns: options.searchColumns,
+  });
+  const { orderBy } = buildKeysetQuery(
+    { orderColumn: options.orderColumn, direction: options.direction, keyColumns: options.keyColumns },
+    null
+  );
+
+  const query = `SELECT ${columns.map(escapeIdentifier).join(', ')} FROM ${escapeQualifiedName(tableName)} ${where.sql} ORDER BY ${orderBy} LIMIT ${Math.max(1, Math.floor(options.maxRows))}`;
+
+  yield formatExportHeader(format, tableName, columns);
+
+  const cursor = conn.client.unsafe(query, where.params).cursor(EXPORT_BATCH_SIZE);
+  for await (const rows of cursor) {
+    yield formatExportRows(format, tableName, columns, rows);
+  }
+}
@@ -0,0 +1,364 @@
+/**
+ * Explorer Filters
+ *
+ * Structured filters and quick search for the data explorer. A filter is a
+ * tree of per-column conditions combined with AND / OR; it travels in the
+ * `filter` query parameter as JSON so filtered views can be shared by URL,
+ * and is compiled into parameterized SQL - values are never interpolated
+ * into the query text.
+ */
+
+import type {
+  ExplorerFilterCondition,
+  ExplorerFilterGroup,
+  ExplorerFilterOperator,
+  ExplorerFilterValue,
+} from '@/types';
+import { escapeIdentifier, isValidIdentifier } from './security-utils';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type { ExplorerFilterCondition, ExplorerFilterGroup, ExplorerFilterOperator, ExplorerFilterValue };
+
+export type ExplorerFilterNode = ExplorerFilterCondition | ExplorerFilterGroup;
+
+export interface CompiledExplorerFilter {
+  sql: string;
+  params: ExplorerFilterValue[];
+}
+
+export interface ExplorerWhereOptions {
+  filter?: ExplorerFilterGroup | null;
+  search?: string | null;
+  // Columns matched by the quick search, see getSearchableColumns
+  searchColumns?: string[];
+  // 1-based index of the first placeholder to use
+  firstParam?: number;
+}
+
+export const EXPLORER_FILTER_OPERATORS: readonly ExplorerFilterOperator[] = [
+  'eq',
+  'neq',
+  'contains',
+  'not_contains',
+  'gt',
+  'gte',
+  'lt',
+  'lte',
+  'between',
+  'is_null',
+  'is_not_null',
+];
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const MAX_FILTER_CONDITIONS = 50;
+export const MAX_FILTER_DEPTH = 3;
+export const MAX_SEARCH_LENGTH = 200;
+
+// information_schema data types matched by the quick search
+const SEARCHABLE_TYPES = ['text', 'character varying', 'character', 'citext', 'name', 'uuid'];
+
+const COMPARISON_SQL: Partial<Record<ExplorerFilterOperator, string>> = {
+  eq: '=',
+  neq: '<>',
+  gt: '>',
+  gte: '>=',
+  lt: '<',
+  lte: '<=',
+};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+export function isFilterGroup(node: ExplorerFilterNode): node is ExplorerFilterGroup {
+  return 'conditions' in node;
+}
+
+function isFilterValue(value: unknown): value is ExplorerFilterValue {
+  return typeof value === 'string' || typeof value === 'boolean' || (typeof value === 'number' && Number.isFinite(value));
+}
+
+/**
+ * Escape LIKE wildcards so user input only ever matches literally
+ */
+export function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, (c) => `\\${c}`);
+}
+
+/**
+ * Columns whose values the quick search looks through
+ */
+export function getSearchableColumns(columns: { name: string; type: string }[]): string[] {
+  return columns.filter((c) => SEARCHABLE_TYPES.includes(c.type)).map((c) => c.name);
+}
+
+/**
+ * Number of conditions in a filter, across all nested groups
+ */
+export function countFilterConditions(filter: ExplorerFilterGroup | null | undefined): number {
+  return (filter?.conditions || []).reduce(
+    (count, node) => count + (isFilterGroup(node) ? countFilterConditions(node) : 1),
+    0
+  );
+}
+
+// ============================================================================
+// SERIALIZATION
+// ============================================================================
+
+function parseNode(raw: unknown, depth: number): ExplorerFilterNode {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new Error('Invalid filter: expected an object');
+  }
+  const node = raw as Record<string, unknown>;
+
+  if ('conditions' in node) {
+    if (depth >= MAX_FILTER_DEPTH) {
+      throw new Error(`Invalid filter: groups can be nested at most ${MAX_FILTER_DEPTH} deep`);
+    }
+    if (node.combinator !== 'and' && node.combinator !== 'or') {
+      throw new Error('Invalid filter: combinator must be "and" or "or"');
+    }
+    if (!Array.isArray(node.conditions)) {
+      throw new Error('Invalid filter: conditions must be a list');
+    }
+    return {
+      combinator: node.combinator,
+      conditions: node.conditions.map((child) => parseNode(child, depth + 1)),
+    };
+  }
+
+  if (typeof node.column !== 'string' || typeof node.operator !== 'string') {
+    throw new Error('Invalid filter: every condition needs a column and an operator');
+  }
+  if (node.value !== undefined && !isFilterValue(node.value)) {
+    throw new Error(`Invalid filter: unsupported value for "${node.column}"`);
+  }
+  if (node.valueTo !== undefined && !isFilterValue(node.valueTo)) {
+    throw new Error(`Invalid filter: unsupported upper bound for "${node.column}"`);
+  }
+
+  const condition: ExplorerFilterCondition = {
+    column: node.column,
+    operator: node.operator as ExplorerFilterOperator,
+  };
+  if (node.value !== undefined) condition.value = node.value;
+  if (node.valueTo !== undefined) condition.valueTo = node.valueTo;
+  return condition;
+}
+
+/**
+ * Parse the JSON `filter` query parameter.
+ * Returns null when it is absent; throws when it is malformed.
+ */
+export function parseExplorerFilter(raw: string | null | undefined): ExplorerFilterGroup | null {
+  if (!raw) return null;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error('Invalid filter: not valid JSON');
+  }
+
+  const node = parseNode(parsed, 0);
+  if (!isFilterGroup(node)) {
+    return { combinator: 'and', conditions: [node] };
+  }
+  return node;
+}
+
+/**
+ * Drop empty groups so they neither reach the query nor clutter the URL
+ */
+function pruneGroup(group: ExplorerFilterGroup): ExplorerFilterGroup {
+  return {
+    combinator: group.combinator,
+    conditions: group.conditions
+      .map((node) => (isFilterGroup(node) ? pruneGroup(node) : node))
+      .filter((node) => !isFilterGroup(node) || node.conditions.length > 0),
+  };
+}
+
+/**
+ * Serialize a filter for the `filter` query parameter.
+ * Returns null when the filter has no conditions.
+ */
+export function serializeExplorerFilter(filter: ExplorerFilterGroup | null | undefined): string | null {
+  if (!filter) return null;
+  const pruned = pruneGroup(filter);
+  return pruned.conditions.length > 0 ? JSON.stringify(pruned) : null;
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Validate a filter against a table's columns.
+ * Returns a list of human-readable errors (empty when the filter is valid).
+ */
+export function validateExplorerFilter(filter: ExplorerFilterGroup, columns: string[]): string[] {
+  const errors: string[] = [];
+  const columnSet = new Set(columns);
+
+  if (countFilterConditions(filter) > MAX_FILTER_CONDITIONS) {
+    return [`A filter can have at most ${MAX_FILTER_CONDITIONS} conditions`];
+  }
+
+  const visit = (node: ExplorerFilterNode) => {
+    if (isFilterGroup(node)) {
+      node.conditions.forEach(visit);
+      return;
+    }
+
+    const { column, operator, value, valueTo } = node;
+
+    if (!isValidIdentifier(column)) {
+      errors.push(`Invalid column name "${column}"`);
+      return;
+    }
+    if (!columnSet.has(column)) {
+      errors.push(`Column "${column}" does not exist`);
+      return;
+    }
+    if (!EXPLORER_FILTER_OPERATORS.includes(operator)) {
+      errors.push(`${column}: unsupported operator "${operator}"`);
+      return;
+    }
+
+    switch (operator) {
+      case 'is_null':
+      case 'is_not_null':
+        return;
+      case 'between':
+        if (value === undefined || valueTo === undefined) {
+          errors.push(`${column}: "between" requires a lower and an upper bound`);
+        }
+        return;
+      case 'contains':
+      case 'not_contains':
+        if (typeof value !== 'string' || value === '') {
+          errors.push(`${column}: "${operator}" requires some text`);
+        }
+        return;
+      default:
+        if (value === undefined) {
+          errors.push(`${column}: "${operator}" requires a value`);
+        }
+    }
+  };
+
+  visit(filter);
+  return errors;
+}
+
+// ============================================================================
+// COMPILATION
+// ============================================================================
+
+/**
+ * Compile a filter into a parameterized condition.
+ * Returns an empty `sql` string when the filter has no conditions.
+ *
+ * @param firstParam - 1-based index of the first placeholder to use
+ */
+export function compileExplorerFilter(
+  filter: ExplorerFilterGroup | null | undefined,
+  firstParam: number = 1
+): CompiledExplorerFilter {
+  const params: ExplorerFilterValue[] = [];
+  const bind = (value: ExplorerFilterValue) => {
+    params.push(value);
+    return `$${firstParam + params.length - 1}`;
+  };
+
+  const compileCondition = ({ column: name, operator, value, valueTo }: ExplorerFilterCondition): string => {
+    const column = escapeIdentifier(name);
+
+    switch (operator) {
+      case 'is_null':
+        return `${column} IS NULL`;
+      case 'is_not_null':
+        return `${column} IS NOT NULL`;
+      case 'contains':
+      case 'not_contains':
+        if (typeof value !== 'string') {
+          throw new Error(`Filter on "${name}" requires some text`);
+        }
+        return `${column}::text ${operator === 'contains' ? 'ILIKE' : 'NOT ILIKE'} ${bind(`%${escapeLikePattern(value)}%`)}`;
+      case 'between':
+        if (value === undefined || valueTo === undefined) {
+          throw new Error(`Filter on "${name}" requires a lower and an upper bound`);
+        }
+        return `${column} BETWEEN ${bind(value)} AND ${bind(valueTo)}`;
+      default: {
+        const sqlOperator = COMPARISON_SQL[operator];
+        if (!sqlOperator || value === undefined) {
+          throw new Error(`Invalid filter on "${name}"`);
+        }
+        return `${column} ${sqlOperator} ${bind(value)}`;
+      }
+    }
+  };
+
+  const compileGroup = (group: ExplorerFilterGroup): string => {
+    const parts = group.conditions
+      .map((node) => (isFilterGroup(node) ? compileGroup(node) : compileCondition(node)))
+      .filter((part) => part !== '');
+    if (parts.length === 0) return '';
+    if (parts.length === 1) return parts[0];
+    return `(${parts.join(group.combinator === 'or' ? ' OR ' : ' AND ')})`;
+  };
+
+  return { sql: filter ? compileGroup(filter) : '', params };
+}
+
+/**
+ * Compile a quick search into a case-insensitive match on any of the columns.
+ * Returns an empty `sql` string when there is nothing to search.
+ */
+export function compileExplorerSearch(
+  search: string | null | undefined,
+  columns: string[],
+  firstParam: number = 1
+): CompiledExplorerFilter {
+  const term = (search || '').trim().slice(0, MAX_SEARCH_LENGTH);
+  if (!term || columns.length === 0) {
+    return { sql: '', params: [] };
+  }
+
+  // Every column shares one placeholder
+  const placeholder = `$${firstParam}`;
+  const matches = columns.map((c) => `${escapeIdentifier(c)}::text ILIKE ${placeholder}`);
+  return {
+    sql: matches.length === 1 ? matches[0] : `(${matches.join(' OR ')})`,
+    params: [`%${escapeLikePattern(term)}%`],
+  };
+}
+
+/**
+ * Build the WHERE clause for a filter and quick search, both of which must
+ * match. Returns an empty `sql` string when neither applies.
+ */
+export function buildExplorerWhereClause(options: ExplorerWhereOptions): CompiledExplorerFilter {
+  const firstParam = options.firstParam ?? 1;
+  const filter = compileExplorerFilter(options.filter, firstParam);
+  const search = compileExplorerSearch(
+    options.search,
+    options.searchColumns || [],
+    firstParam + filter.params.length
+  );
+
+  const conditions = [filter.sql, search.sql].filter((c) => c !== '');
+  return {
+    sql: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '',
+    params: [...filter.params, ...search.params],
+  };
+}
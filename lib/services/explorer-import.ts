@@ -0,0 +1,571 @@
+/**
+ * Explorer Import
+ *
+ * Loads an uploaded CSV or NDJSON file into a table. The file is parsed up
+ * front, its columns are mapped onto the table's columns (as reported by
+ * getTableSchema), and each row is converted to the column types and checked
+ * with the same validateRow rules sync uses. Valid rows are written in
+ * multi-row INSERT batches, plain or upserting on the primary key; a batch
+ * the database rejects is retried row by row so every failing row gets its
+ * own error while the rest are still written.
+ */
+
+import type { DrizzleConnection, getTableSchema } from './drizzle-factory';
+import { validateRow } from './row-validation';
+import { escapeIdentifier, escapeQualifiedName, sanitizeErrorMessage } from './security-utils';
+import { parseCsv } from '@/lib/utils/csv';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const EXPLORER_IMPORT_FORMATS = ['csv', 'ndjson'] as const;
+
+export type ExplorerImportFormat = (typeof EXPLORER_IMPORT_FORMATS)[number];
+
+export const EXPLORER_IMPORT_MODES = ['insert', 'upsert'] as const;
+
+// insert adds every row; upsert updates rows whose primary key already exists
+export type ExplorerImportMode = (typeof EXPLORER_IMPORT_MODES)[number];
+
+export type ImportTableColumn = Awaited<ReturnType<typeof getTableSchema>>[number];
+
+// File column -> table column; unmapped file columns are skipped
+export type ImportColumnMapping = Record<string, string>;
+
+export interface ImportRecord {
+  // 1-based CSV data row (after the header) or NDJSON line
+  row: number;
+  values: Record<string, unknown>;
+}
+
+export interface ImportRowError {
+  row: number;
+  errors: string[];
+}
+
+export interface ParsedImportFile {
+  format: ExplorerImportFormat;
+  // In file order: the CSV header, or NDJSON keys in order of appearance
+  columns: string[];
+  records: ImportRecord[];
+  // Rows that could not be parsed at all
+  errors: ImportRowError[];
+}
+
+export interface ExplorerImportOptions {
+  tableName: string;
+  mode: ExplorerImportMode;
+  mapping: ImportColumnMapping;
+  columns: ImportTableColumn[];
+  keyColumns: string[];
+}
+
+export type ExplorerImportEvent =
+  | { type: 'start'; total: number }
+  | { type: 'progress'; processed: number; written: number; failed: number; errors: ImportRowError[] }
+  | { type: 'complete'; processed: number; written: number; failed: number };
+
+/**
+ * Thrown for a file that cannot be imported at all, e.g. an empty file or
+ * one with duplicate column names
+ */
+export class ImportFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportFileError';
+  }
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const MAX_IMPORT_BYTES = 10 * 1024 * 1024;
+export const MAX_IMPORT_ROWS = 100000;
+
+// Rows shown in the preview before mapping
+export const IMPORT_PREVIEW_ROWS = 20;
+
+// Row errors sent to the client; later failures are only counted
+export const MAX_REPORTED_ERRORS = 100;
+
+const IMPORT_BATCH_SIZE = 500;
+
+// Postgres' limit on bind parameters per statement
+const MAX_QUERY_PARAMS = 65535;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{12}$/i;
+const INTEGER_PATTERN = /^[-+]?\d+$/;
+const DECIMAL_PATTERN = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+
+const TRUE_VALUES = new Set(['true', 't', 'yes', 'y', '1']);
+const FALSE_VALUES = new Set(['false', 'f', 'no', 'n', '0']);
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * Pick the format from the file extension, falling back to the content:
+ * a file starting with `{` is NDJSON
+ */
+export function detectImportFormat(fileName: string, text: string): ExplorerImportFormat {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'csv') return 'csv';
+  if (extension === 'ndjson' || extension === 'jsonl' || extension === 'json') return 'ndjson';
+  return text.trimStart().startsWith('{') ? 'ndjson' : 'csv';
+}
+
+function parseCsvFile(text: string): ParsedImportFile {
+  let rows: string[][];
+  try {
+    rows = parseCsv(text);
+  } catch (error) {
+    throw new ImportFileError(`Invalid CSV: ${(error as Error).message}`);
+  }
+
+  const [header, ...data] = rows;
+  if (!header) {
+    throw new ImportFileError('The file is empty');
+  }
+
+  const columns = header.map((name) => name.trim());
+  if (columns.some((name) => name === '')) {
+    throw new ImportFileError('Every CSV column needs a name in the header row');
+  }
+  const duplicates = columns.filter((name, i) => columns.indexOf(name) !== i);
+  if (duplicates.length > 0) {
+    throw new ImportFileError(`Duplicate CSV columns: ${[...new Set(duplicates)].join(', ')}`);
+  }
+
+  const file: ParsedImportFile = { format: 'csv', columns, records: [], errors: [] };
+  data.forEach((fields, index) => {
+    const row = index + 1;
+    if (fields.length !== columns.length) {
+      file.errors.push({ row, errors: [`Expected ${columns.length} fields, found ${fields.length}`] });
+      return;
+    }
+    // CSV cannot tell an empty string from a missing value; exports write NULL as an empty field
+    file.records.push({
+      row,
+      values: Object.fromEntries(columns.map((name, i) => [name, fields[i] === '' ? null : fields[i]])),
+    });
+  });
+
+  return file;
+}
+
+function parseNdjsonFile(text: string): ParsedImportFile {
+  const file: ParsedImportFile = { format: 'ndjson', columns: [], records: [], errors: [] };
+  const seen = new Set<string>();
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    const row = index + 1;
+    if (line.trim() === '') return;
+
+    let value: unknown;
+    try {
+      value = JSON.parse(line);
+    } catch {
+      file.errors.push({ row, errors: ['Invalid JSON'] });
+      return;
+    }
+    if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+      file.errors.push({ row, errors: ['Each line must be a JSON object'] });
+      return;
+    }
+
+    for (const key of Object.keys(value)) {
+      if (!seen.has(key)) {
+        seen.add(key);
+        file.columns.push(key);
+      }
+    }
+    file.records.push({ row, values: value as Record<string, unknown> });
+  });
+
+  if (file.records.length === 0 && file.errors.length === 0) {
+    throw new ImportFileError('The file is empty');
+  }
+  return file;
+}
+
+/**
+ * Parse an uploaded file into records keyed by file column
+ */
+export function parseImportFile(text: string, format: ExplorerImportFormat): ParsedImportFile {
+  const file = format === 'csv' ? parseCsvFile(text) : parseNdjsonFile(text);
+
+  if (file.records.length + file.errors.length > MAX_IMPORT_ROWS) {
+    throw new ImportFileError(`At most ${MAX_IMPORT_ROWS.toLocaleString('en-US')} rows can be imported at once`);
+  }
+  return file;
+}
+
+/**
+ * Read and parse the `file` field of an upload form
+ */
+export async function readImportUpload(form: FormData): Promise<ParsedImportFile> {
+  const upload = form.get('file');
+  if (!upload || typeof upload === 'string') {
+    throw new ImportFileError('Choose a CSV or NDJSON file to import');
+  }
+  if (upload.size > MAX_IMPORT_BYTES) {
+    throw new ImportFileError(`Files can be at most ${MAX_IMPORT_BYTES / 1024 / 1024}MB`);
+  }
+
+  const text = await upload.text();
+  return parseImportFile(text, detectImportFormat(upload.name, text));
+}
+
+// ============================================================================
+// MAPPING
+// ============================================================================
+
+function normalizeColumnName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+}
+
+/**
+ * Map file columns to table columns with the same name, ignoring case,
+ * spaces and punctuation (`First Name` -> `first_name`)
+ */
+export function suggestColumnMapping(fileColumns: string[], columns: ImportTableColumn[]): ImportColumnMapping {
+  const mapping: ImportColumnMapping = {};
+  const used = new Set<string>();
+
+  for (const fileColumn of fileColumns) {
+    const target = columns.find((c) =>
+      !c.isGenerated &&
+      !used.has(c.columnName) &&
+      normalizeColumnName(c.columnName) === normalizeColumnName(fileColumn)
+    );
+    if (target) {
+      mapping[fileColumn] = target.columnName;
+      used.add(target.columnName);
+    }
+  }
+
+  return mapping;
+}
+
+function isRequiredColumn(column: ImportTableColumn): boolean {
+  return !column.isNullable && column.columnDefault === null && !column.isIdentity && !column.isGenerated;
+}
+
+/**
+ * Validate a column mapping for the chosen mode.
+ * Returns a list of errors (empty when the import can run).
+ */
+export function validateImportMapping(
+  mapping: ImportColumnMapping,
+  fileColumns: string[],
+  columns: ImportTableColumn[],
+  keyColumns: string[],
+  mode: ExplorerImportMode
+): string[] {
+  const errors: string[] = [];
+  const byName = new Map(columns.map((c) => [c.columnName, c]));
+  const targets = Object.values(mapping);
+
+  if (targets.length === 0) {
+    errors.push('Map at least one file column to a table column');
+  }
+
+  for (const [fileColumn, target] of Object.entries(mapping)) {
+    if (!fileColumns.includes(fileColumn)) {
+      errors.push(`File column "${fileColumn}" is not in the file`);
+    }
+    const column = byName.get(target);
+    if (!column) {
+      errors.push(`Column "${target}" does not exist`);
+    } else if (column.isGenerated) {
+      errors.push(`Column "${target}" is generated and cannot be imported`);
+    }
+  }
+
+  const duplicates = targets.filter((target, i) => targets.indexOf(target) !== i);
+  for (const target of new Set(duplicates)) {
+    errors.push(`Column "${target}" is mapped more than once`);
+  }
+
+  for (const column of columns) {
+    if (isRequiredColumn(column) && !targets.includes(column.columnName)) {
+      errors.push(`Column "${column.columnName}" is required (NOT NULL without a default)`);
+    }
+  }
+
+  if (mode === 'upsert') {
+    if (keyColumns.length === 0) {
+      errors.push('Upsert needs a table with a primary key');
+    }
+    for (const key of keyColumns) {
+      if (!targets.includes(key)) {
+        errors.push(`Upsert needs the primary key column "${key}" mapped`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+// ============================================================================
+// VALUE CONVERSION
+// ============================================================================
+
+function toArrayLiteral(values: unknown[]): string {
+  const items = values.map((item) => {
+    if (item === null || item === undefined) return 'NULL';
+    if (Array.isArray(item)) return toArrayLiteral(item);
+    const text = typeof item === 'object' ? JSON.stringify(item) : String(item);
+    return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+  });
+  return `{${items.join(',')}}`;
+}
+
+/**
+ * Convert a file value to what the column's type expects. CSV values arrive
+ * as text; NDJSON values may already be numbers, booleans or objects.
+ * Returns an error message when the value does not fit the type.
+ */
+export function convertImportValue(
+  value: unknown,
+  column: Pick<ImportTableColumn, 'columnName' | 'dataType'>
+): { value: unknown; error?: string } {
+  if (value === null || value === undefined) return { value: null };
+
+  const name = column.columnName;
+  const text = typeof value === 'string' ? value.trim() : null;
+  const invalid = (expected: string) => ({
+    value,
+    error: `Column "${name}": ${JSON.stringify(value)} is not ${expected}`,
+  });
+
+  switch (column.dataType) {
+    case 'smallint':
+    case 'integer': {
+      if (typeof value === 'number') {
+        return Number.isInteger(value) || !Number.isFinite(value) ? { value } : invalid('an integer');
+      }
+      return text !== null && INTEGER_PATTERN.test(text) ? { value: Number(text) } : invalid('an integer');
+    }
+
+    case 'bigint':
+      // Kept as text so values beyond 2^53 survive
+      if (typeof value === 'number') return Number.isInteger(value) ? { value } : invalid('an integer');
+      return text !== null && INTEGER_PATTERN.test(text) ? { value: text } : invalid('an integer');
+
+    case 'numeric':
+      if (typeof value === 'number') return { value };
+      return text !== null && DECIMAL_PATTERN.test(text) ? { value: text } : invalid('a number');
+
+    case 'real':
+    case 'double precision':
+      if (typeof value === 'number') return { value };
+      return text !== null && text !== '' && !Number.isNaN(Number(text)) ? { value: Number(text) } : invalid('a number');
+
+    case 'boolean': {
+      if (typeof value === 'boolean') return { value };
+      const normalized = String(value).trim().toLowerCase();
+      if (TRUE_VALUES.has(normalized)) return { value: true };
+      if (FALSE_VALUES.has(normalized)) return { value: false };
+      return invalid('a boolean');
+    }
+
+    case 'json':
+    case 'jsonb':
+      if (typeof value !== 'string') return { value };
+      try {
+        return { value: JSON.parse(value) };
+      } catch {
+        return invalid('valid JSON');
+      }
+
+    case 'date':
+    case 'timestamp without time zone':
+    case 'timestamp with time zone': {
+      if (text === null) return invalid('a date');
+      // Postgres parses the text itself, so timestamps keep their exact value and zone
+      if (/^[-+]?infinity$/i.test(text) || !Number.isNaN(Date.parse(text))) return { value: text };
+      return invalid('a date');
+    }
+
+    case 'uuid':
+      return text !== null && UUID_PATTERN.test(text) ? { value: text } : invalid('a UUID');
+
+    case 'ARRAY':
+      if (Array.isArray(value)) return { value: toArrayLiteral(value) };
+      return typeof value === 'string' ? { value } : invalid('an array');
+
+    default:
+      if (typeof value === 'string') return { value };
+      return { value: typeof value === 'object' ? JSON.stringify(value) : String(value) };
+  }
+}
+
+/**
+ * Build the table row for one record: map and convert its values, then run
+ * validateRow. Value issues sync would only warn about (NaN, Infinity,
+ * unsafe integers) are errors here, since the stored value would not be
+ * the one in the file.
+ */
+export function prepareImportRow(
+  record: ImportRecord,
+  options: Pick<ExplorerImportOptions, 'mapping' | 'columns'>
+): { values: Record<string, unknown>; errors: string[] } {
+  const byName = new Map(options.columns.map((c) => [c.columnName, c]));
+  const values: Record<string, unknown> = {};
+  const errors: string[] = [];
+
+  for (const [fileColumn, target] of Object.entries(options.mapping)) {
+    const column = byName.get(target);
+    if (!column) continue;
+
+    const converted = convertImportValue(record.values[fileColumn], column);
+    if (converted.error) {
+      errors.push(converted.error);
+    }
+    values[target] = converted.value;
+  }
+
+  // Columns with a default may be omitted, but a NULL written to one is still a NULL.
+  // Key columns are checked like any other, as the file may leave them empty.
+  const notNullColumns = new Set(
+    options.columns
+      .filter((c) => !c.isNullable && (c.columnName in values || isRequiredColumn(c)))
+      .map((c) => c.columnName)
+  );
+  const generatedColumns = new Set(options.columns.filter((c) => c.isGenerated).map((c) => c.columnName));
+
+  const validation = validateRow(values, notNullColumns, generatedColumns, new Set());
+  errors.push(...validation.issues, ...validation.warnings);
+
+  return { values, errors };
+}
+
+// ============================================================================
+// SQL
+// ============================================================================
+
+type ImportParam = string | number | boolean | null;
+
+function toParam(value: unknown): ImportParam {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return value;
+  return JSON.stringify(value);
+}
+
+/**
+ * Build one multi-row INSERT for a batch of prepared rows. Upserts update
+ * every imported non-key column of rows whose primary key already exists.
+ */
+export function buildImportStatement(
+  tableName: string,
+  columns: string[],
+  rows: Record<string, unknown>[],
+  mode: ExplorerImportMode,
+  keyColumns: string[]
+): { sql: string; params: ImportParam[] } {
+  const params: ImportParam[] = [];
+  const valueSets = rows.map((row) => {
+    const placeholders = columns.map((column) => {
+      params.push(toParam(row[column]));
+      return `$${params.length}`;
+    });
+    return `(${placeholders.join(', ')})`;
+  });
+
+  let sql = `INSERT INTO ${escapeQualifiedName(tableName)} (${columns.map(escapeIdentifier).join(', ')}) VALUES ${valueSets.join(', ')}`;
+
+  if (mode === 'upsert') {
+    const conflictTarget = keyColumns.map(escapeIdentifier).join(', ');
+    const updateColumns = columns.filter((column) => !keyColumns.includes(column));
+    sql += updateColumns.length > 0
+      ? ` ON CONFLICT (${conflictTarget}) DO UPDATE SET ${updateColumns.map((c) => `${escapeIdentifier(c)} = EXCLUDED.${escapeIdentifier(c)}`).join(', ')}`
+      : ` ON CONFLICT (${conflictTarget}) DO NOTHING`;
+  }
+
+  return { sql, params };
+}
+
+// ============================================================================
+// IMPORT
+// ============================================================================
+
+/**
+ * Run the import, yielding a start event, a progress event after each batch
+ * (with that batch's row errors) and a completion summary. Rows are written
+ * batch by batch, outside a transaction, so rows written before a failure
+ * stay written.
+ */
+export async function* runExplorerImport(
+  conn: DrizzleConnection,
+  file: ParsedImportFile,
+  options: ExplorerImportOptions
+): AsyncGenerator<ExplorerImportEvent> {
+  const { tableName, mode, keyColumns } = options;
+  const columns = [...new Set(Object.values(options.mapping))];
+  const batchSize = Math.max(1, Math.min(IMPORT_BATCH_SIZE, Math.floor(MAX_QUERY_PARAMS / columns.length)));
+
+  let processed = 0;
+  let written = 0;
+  let failed = 0;
+  let reported = 0;
+
+  // Only the first MAX_REPORTED_ERRORS errors are sent; the rest are counted
+  const report = (errors: ImportRowError[]) => {
+    failed += errors.length;
+    const sent = errors.slice(0, Math.max(0, MAX_REPORTED_ERRORS - reported));
+    reported += sent.length;
+    return sent;
+  };
+
+  yield { type: 'start', total: file.records.length + file.errors.length };
+
+  if (file.errors.length > 0) {
+    processed += file.errors.length;
+    const errors = report(file.errors);
+    yield { type: 'progress', processed, written, failed, errors };
+  }
+
+  for (let i = 0; i < file.records.length; i += batchSize) {
+    const batch = file.records.slice(i, i + batchSize);
+    const batchErrors: ImportRowError[] = [];
+    const valid: { row: number; values: Record<string, unknown> }[] = [];
+
+    for (const record of batch) {
+      const prepared = prepareImportRow(record, options);
+      if (prepared.errors.length > 0) {
+        batchErrors.push({ row: record.row, errors: prepared.errors });
+      } else {
+        valid.push({ row: record.row, values: prepared.values });
+      }
+    }
+
+    if (valid.length > 0) {
+      try {
+        const statement = buildImportStatement(tableName, columns, valid.map((r) => r.values), mode, keyColumns);
+        const result = await conn.client.unsafe(statement.sql, statement.params);
+        written += result.count;
+      } catch {
+        // The statement wrote nothing; retry row by row to pin the error on the rows that cause it
+        for (const { row, values } of valid) {
+          try {
+            const statement = buildImportStatement(tableName, columns, [values], mode, keyColumns);
+            const result = await conn.client.unsafe(statement.sql, statement.params);
+            written += result.count;
+          } catch (error) {
+            batchErrors.push({ row, errors: [sanitizeErrorMessage(error)] });
+          }
+        }
+      }
+    }
+
+    processed += batch.length;
+    const errors = report(batchErrors.sort((a, b) => a.row - b.row));
+    yield { type: 'progress', processed, written, failed, errors };
+  }
+
+  yield { type: 'complete', processed, written, failed };
+}
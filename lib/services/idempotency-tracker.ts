@@ -16,8 +16,8 @@ import { logger } from '@/lib/services/logger';
 export interface ProcessedRow {
   syncJobId: string;
   tableName: string;
-  rowId: string;
-  operation: 'insert' | 'update' | 'skip';
+  rowId: string; // Primary key serialized with serializeRowKey (JSON array for composite keys)
+  operation: 'insert' | 'update' | 'delete' | 'skip';
   batchId?: string;
   processedAt: Date;
 }
@@ -26,6 +26,7 @@ export interface IdempotencyStats {
   totalProcessed: number;
   inserts: number;
   updates: number;
+  deletes: number;
   skips: number;
 }
 
@@ -395,6 +396,7 @@ export async function getIdempotencyStats(syncJobId: string): Promise<Idempotenc
     totalProcessed: 0,
     inserts: 0,
     updates: 0,
+    deletes: 0,
     skips: 0,
   };
   
@@ -416,6 +418,7 @@ export async function getIdempotencyStats(syncJobId: string): Promise<Idempotenc
           stats.totalProcessed = data.length;
           stats.inserts = data.filter((r) => r.operation === 'insert').length;
           stats.updates = data.filter((r) => r.operation === 'update').length;
+          stats.deletes = data.filter((r) => r.operation === 'delete').length;
           stats.skips = data.filter((r) => r.operation === 'skip').length;
         }
       }
@@ -78,6 +78,11 @@ const SENSITIVE_PATTERNS: Array<{ pattern: RegExp; replacement: string | ((match
     pattern: /(Bearer\s+)[A-Za-z0-9-_=]+\.?[A-Za-z0-9-_=]*\.?[A-Za-z0-9-_.+/=]*/gi, 
     replacement: '$1[REDACTED]' 
   },
+  // Personal access tokens
+  {
+    pattern: /sbsync_[A-Za-z0-9_-]+/g,
+    replacement: '[REDACTED_API_TOKEN]'
+  },
   // JWT tokens
   { 
     pattern: /eyJ[A-Za-z0-9-_=]+\.eyJ[A-Za-z0-9-_=]+\.[A-Za-z0-9-_.+/=]*/g, 
@@ -0,0 +1,200 @@
+/**
+ * Migration Export
+ *
+ * Packages a generated MigrationPlan as files for teams that apply schema
+ * changes from migration folders checked into git:
+ * - supabase: one timestamped file for `supabase/migrations` (the Supabase
+ *   CLI has no down migrations, so the rollback is left out)
+ * - drizzle: a fresh drizzle-kit migration folder (SQL file +
+ *   meta/_journal.json) that `drizzle-kit migrate` and drizzle's migrator can
+ *   apply. The journal only lists this migration, so it is not meant to be
+ *   unzipped over an existing folder; the SQL file is tagged with a timestamp
+ *   so it can be copied into one without colliding with numbered files.
+ * - zip: up.sql / down.sql plus a manifest describing each script
+ *
+ * Server-only: the zip writer uses Node's `zlib`.
+ */
+
+import type { MigrationPlan, MigrationScript } from './schema-migration-generator';
+import { checksumMigrationPlan, getExecutableStatements } from './migration-ledger';
+import { createZipArchive, type ZipEntry } from './zip-archive';
+
+export const MIGRATION_EXPORT_FORMATS = ['supabase', 'drizzle', 'zip'] as const;
+
+export type MigrationExportFormat = (typeof MIGRATION_EXPORT_FORMATS)[number];
+
+export interface MigrationExportOptions {
+  /** Human-readable migration name, slugified into file names */
+  name?: string;
+  createdAt?: Date;
+}
+
+export interface MigrationExport {
+  filename: string;
+  contentType: string;
+  body: string | Buffer;
+}
+
+const DEFAULT_MIGRATION_NAME = 'schema_sync';
+
+// drizzle-kit's journal format for PostgreSQL
+const DRIZZLE_JOURNAL_VERSION = '7';
+const DRIZZLE_STATEMENT_BREAKPOINT = '--> statement-breakpoint';
+
+/**
+ * Lowercase snake_case name safe for file names, e.g. "Add orders!" -> "add_orders"
+ */
+export function slugifyMigrationName(name: string | undefined): string {
+  const slug = (name ?? '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .slice(0, 64);
+  return slug || DEFAULT_MIGRATION_NAME;
+}
+
+/**
+ * Supabase CLI migration version: UTC timestamp as YYYYMMDDHHmmss
+ */
+export function formatMigrationTimestamp(date: Date): string {
+  return date.toISOString().replace(/[-:T]/g, '').slice(0, 14);
+}
+
+/**
+ * Split scripts into drizzle statement chunks, one statement each. Commented
+ * out scripts (destructive drops) travel with the next chunk so they stay
+ * visible in the file without being executed on their own.
+ */
+function toDrizzleChunks(scripts: MigrationScript[]): string[] {
+  const chunks: string[] = [];
+  let pendingComments = '';
+
+  for (const script of scripts) {
+    const statements = getExecutableStatements(script.sql);
+
+    if (statements.length === 0) {
+      pendingComments += `${script.sql.trim()}\n`;
+      continue;
+    }
+
+    statements.forEach((statement, index) => {
+      const header = index === 0 ? `${pendingComments}-- ${script.description}\n` : '';
+      chunks.push(`${header}${statement};`);
+      pendingComments = '';
+    });
+  }
+
+  if (pendingComments) {
+    chunks.push(pendingComments.trim());
+  }
+
+  return chunks;
+}
+
+/**
+ * Files making up a new drizzle-kit migration folder
+ */
+function buildDrizzleFiles(plan: MigrationPlan, tag: string, createdAt: Date): ZipEntry[] {
+  const journal = {
+    version: DRIZZLE_JOURNAL_VERSION,
+    dialect: 'postgresql',
+    entries: [
+      {
+        idx: 0,
+        version: DRIZZLE_JOURNAL_VERSION,
+        when: createdAt.getTime(),
+        tag,
+        breakpoints: true,
+      },
+    ],
+  };
+
+  return [
+    {
+      path: `drizzle/${tag}.sql`,
+      content: `${toDrizzleChunks(plan.scripts).join(`\n${DRIZZLE_STATEMENT_BREAKPOINT}\n`)}\n`,
+    },
+    {
+      path: 'drizzle/meta/_journal.json',
+      content: `${JSON.stringify(journal, null, 2)}\n`,
+    },
+    {
+      path: 'drizzle/README.md',
+      content: `# ${tag}
+
+A new drizzle-kit migration folder holding a single migration. Its
+meta/_journal.json only lists this migration, so don't unzip it over an
+existing migrations folder. To add the migration to one, copy ${tag}.sql in
+and append a matching entry (next idx, tag "${tag}") to that folder's journal.
+`,
+    },
+  ];
+}
+
+/**
+ * Files making up the up/down bundle
+ */
+function buildBundleFiles(plan: MigrationPlan, folder: string, name: string, createdAt: Date): ZipEntry[] {
+  const manifest = {
+    name,
+    createdAt: createdAt.toISOString(),
+    checksum: checksumMigrationPlan(plan.scripts),
+    summary: plan.summary,
+    scripts: plan.scripts.map(({ tableName, description, severity, isDestructive }) => ({
+      tableName,
+      description,
+      severity,
+      isDestructive,
+    })),
+    renames: plan.renames.map(({ id, kind, from, to, confidence, decision }) => ({
+      id,
+      kind,
+      from,
+      to,
+      confidence,
+      decision,
+    })),
+  };
+
+  return [
+    { path: `${folder}/up.sql`, content: plan.fullScript },
+    { path: `${folder}/down.sql`, content: plan.rollbackScript },
+    { path: `${folder}/manifest.json`, content: `${JSON.stringify(manifest, null, 2)}\n` },
+  ];
+}
+
+/**
+ * Package a migration plan in the given format
+ */
+export function exportMigrationPlan(
+  plan: MigrationPlan,
+  format: MigrationExportFormat,
+  options: MigrationExportOptions = {}
+): MigrationExport {
+  const name = slugifyMigrationName(options.name);
+  const createdAt = options.createdAt ?? new Date();
+  const version = formatMigrationTimestamp(createdAt);
+
+  switch (format) {
+    case 'supabase':
+      return {
+        filename: `${version}_${name}.sql`,
+        contentType: 'application/sql; charset=utf-8',
+        body: plan.fullScript,
+      };
+
+    case 'drizzle':
+      return {
+        filename: `${version}_${name}_drizzle.zip`,
+        contentType: 'application/zip',
+        body: createZipArchive(buildDrizzleFiles(plan, `${version}_${name}`, createdAt), createdAt),
+      };
+
+    case 'zip':
+      return {
+        filename: `${version}_${name}.zip`,
+        contentType: 'application/zip',
+        body: createZipArchive(buildBundleFiles(plan, `${version}_${name}`, name, createdAt), createdAt),
+      };
+  }
+}
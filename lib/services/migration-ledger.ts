@@ -0,0 +1,216 @@
+/**
+ * Migration Ledger
+ *
+ * Applies a schema migration plan to a target database and records the
+ * outcome in the schema_migrations ledger:
+ * - Plan scripts run in order, each in its own transaction, stopping at the
+ *   first failure (scripts already applied stay applied)
+ * - Verification re-runs schema validation against the source afterwards
+ * - The rollback of the scripts that were applied can later be run from the
+ *   ledger entry
+ *
+ * Server-only: imports `crypto` and connects to user databases.
+ */
+
+import { createHash } from 'crypto';
+import type {
+  MigrationScriptResult,
+  MigrationVerification,
+  SchemaValidationResult,
+} from '@/types';
+import { createDrizzleClient, type DrizzleConnection } from './drizzle-factory';
+import type { MigrationScript } from './schema-migration-generator';
+import { parseSql } from './sql-parser';
+import { DEFAULT_SCHEMA, qualifyTableName } from './security-utils';
+
+// Per-statement limits while applying, so a migration can't hang on a lock
+const STATEMENT_TIMEOUT = 300000; // 5 minutes
+const LOCK_TIMEOUT = 30000; // 30 seconds
+
+// Issues kept in a ledger entry's verification
+const MAX_VERIFICATION_ISSUES = 50;
+
+/**
+ * Runs a list of statements as one unit, throwing on the first error
+ */
+export type StatementExecutor = (statements: string[]) => Promise<void>;
+
+/**
+ * SHA-256 of a plan's scripts. Generated headers carry a timestamp, so the
+ * checksum covers the statements only - the same plan has the same checksum
+ * on every target.
+ */
+export function checksumMigrationPlan(scripts: Pick<MigrationScript, 'sql'>[]): string {
+  const hash = createHash('sha256');
+  for (const script of scripts) {
+    hash.update(script.sql.trim());
+    hash.update('\n');
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * Split a script into the statements to execute, dropping transaction
+ * control (BEGIN/COMMIT/ROLLBACK) - the executor owns the transaction
+ */
+export function getExecutableStatements(sql: string): string[] {
+  const { statements, errors } = parseSql(sql);
+
+  if (errors.length > 0) {
+    throw new Error(`Could not parse script: ${errors.join(', ')}`);
+  }
+
+  return statements
+    .filter((statement) => !['BEGIN', 'COMMIT', 'ROLLBACK'].includes(statement.type))
+    .map((statement) => statement.sql);
+}
+
+/**
+ * Run plan scripts in order, stopping at the first failure. Scripts after a
+ * failure are reported as skipped, as are scripts with no statements.
+ */
+export async function applyMigrationScripts(
+  scripts: MigrationScript[],
+  execute: StatementExecutor
+): Promise<MigrationScriptResult[]> {
+  const results: MigrationScriptResult[] = [];
+  let failed = false;
+
+  for (const script of scripts) {
+    const result: MigrationScriptResult = {
+      tableName: script.tableName,
+      description: script.description,
+      status: 'skipped',
+      durationMs: 0,
+    };
+    results.push(result);
+
+    if (failed) continue;
+
+    const startTime = Date.now();
+    try {
+      const statements = getExecutableStatements(script.sql);
+      if (statements.length === 0) {
+        // e.g. destructive scripts the generator comments out
+        result.note = 'Nothing to run - the script is commented out';
+        continue;
+      }
+      await execute(statements);
+      result.status = 'success';
+    } catch (error) {
+      result.status = 'error';
+      result.error = error instanceof Error ? error.message : 'Script failed';
+      failed = true;
+    } finally {
+      result.durationMs = Date.now() - startTime;
+    }
+  }
+
+  return results;
+}
+
+/**
+ * The plan scripts that ran successfully, so the rollback of a partly applied
+ * migration only undoes what was applied
+ */
+export function getAppliedScripts(
+  scripts: MigrationScript[],
+  results: MigrationScriptResult[]
+): MigrationScript[] {
+  return scripts.filter((_, i) => results[i]?.status === 'success');
+}
+
+/**
+ * Executor that runs each batch of statements in its own transaction on the
+ * given connection
+ */
+export function createTransactionExecutor(connection: DrizzleConnection): StatementExecutor {
+  return async (statements) => {
+    await connection.client.begin(async (tx) => {
+      await tx.unsafe(`SET LOCAL statement_timeout = ${STATEMENT_TIMEOUT}`);
+      await tx.unsafe(`SET LOCAL lock_timeout = ${LOCK_TIMEOUT}`);
+
+      for (const statement of statements) {
+        await tx.unsafe(statement);
+      }
+    });
+  };
+}
+
+/**
+ * Apply plan scripts to a database
+ */
+export async function applyMigrationToDatabase(
+  databaseUrl: string,
+  scripts: MigrationScript[]
+): Promise<MigrationScriptResult[]> {
+  const connection = createDrizzleClient(databaseUrl);
+
+  try {
+    return await applyMigrationScripts(scripts, createTransactionExecutor(connection));
+  } finally {
+    await connection.close();
+  }
+}
+
+/**
+ * Run a ledger entry's rollback script as a single transaction
+ */
+export async function rollbackMigrationOnDatabase(
+  databaseUrl: string,
+  rollbackScript: string
+): Promise<void> {
+  const statements = getExecutableStatements(rollbackScript);
+
+  if (statements.length === 0) {
+    throw new Error('This migration has no rollback statements - it must be reverted manually');
+  }
+
+  const connection = createDrizzleClient(databaseUrl);
+
+  try {
+    await createTransactionExecutor(connection)(statements);
+  } finally {
+    await connection.close();
+  }
+}
+
+/**
+ * Every table in the given schemas, keyed the way the schema inspector keys
+ * them. Used when a migration is requested for "all tables".
+ */
+export async function listDatabaseTables(
+  databaseUrl: string,
+  schemas: string[] = [DEFAULT_SCHEMA]
+): Promise<string[]> {
+  const connection = createDrizzleClient(databaseUrl);
+
+  try {
+    const rows = await connection.client`
+      SELECT table_schema, table_name
+      FROM information_schema.tables
+      WHERE table_type = 'BASE TABLE'
+        AND table_schema IN ${connection.client(schemas)}
+      ORDER BY table_schema, table_name
+    `;
+
+    return rows.map((row) => qualifyTableName(String(row.table_schema), String(row.table_name)));
+  } finally {
+    await connection.close();
+  }
+}
+
+/**
+ * Reduce a validation result to what the ledger keeps
+ */
+export function summarizeVerification(result: SchemaValidationResult): MigrationVerification {
+  return {
+    isValid: result.isValid,
+    summary: result.summary,
+    remainingIssues: result.issues
+      .filter((issue) => issue.severity !== 'INFO')
+      .slice(0, MAX_VERIFICATION_ISSUES)
+      .map(({ severity, tableName, columnName, message }) => ({ severity, tableName, columnName, message })),
+    verifiedAt: new Date().toISOString(),
+  };
+}
@@ -10,6 +10,9 @@ import type { SyncProgress, SyncCheckpoint, TableConfig, Conflict } from '@/type
 import {
   validateTableNames,
   buildSafeTableLiteralArray,
+  escapeQualifiedName,
+  parseQualifiedTableName,
+  qualifiedTableNameSql,
   SecurityError,
 } from './security-utils';
 
@@ -144,17 +147,19 @@ async function getForeignKeyGraph(
   const tableListSql = buildSafeTableLiteralArray(validTableNames);
   
   const fkResult = await conn.client.unsafe(`
-    SELECT DISTINCT
-      tc.table_name AS child_table,
-      ccu.table_name AS parent_table
-    FROM information_schema.table_constraints tc
-    JOIN information_schema.constraint_column_usage ccu
-      ON tc.constraint_name = ccu.constraint_name
-      AND tc.table_schema = ccu.table_schema
-    WHERE tc.constraint_type = 'FOREIGN KEY'
-      AND tc.table_schema = 'public'
-      AND tc.table_name IN (${tableListSql})
-      AND ccu.table_name IN (${tableListSql})
+    SELECT DISTINCT child_table, parent_table
+    FROM (
+      SELECT
+        ${qualifiedTableNameSql('tc.table_schema', 'tc.table_name')} AS child_table,
+        ${qualifiedTableNameSql('ccu.table_schema', 'ccu.table_name')} AS parent_table
+      FROM information_schema.table_constraints tc
+      JOIN information_schema.constraint_column_usage ccu
+        ON tc.constraint_name = ccu.constraint_name
+        AND tc.constraint_schema = ccu.constraint_schema
+      WHERE tc.constraint_type = 'FOREIGN KEY'
+    ) fk
+    WHERE child_table IN (${tableListSql})
+      AND parent_table IN (${tableListSql})
   `);
   
   // Build dependency graph (child depends on parent)
@@ -239,11 +244,13 @@ async function syncTableWorker(
     config.onLog?.('info', `Starting sync for table: ${tableName}`);
     
     // Get column info
+    const { schema, table } = parseQualifiedTableName(tableName);
+    const safeTableName = escapeQualifiedName(tableName);
     const columnsResult = await sourceConn.client`
       SELECT column_name, data_type
       FROM information_schema.columns
-      WHERE table_schema = 'public'
-        AND table_name = ${tableName}
+      WHERE table_schema = ${schema}
+        AND table_name = ${table}
       ORDER BY ordinal_position
     `;
     
@@ -284,7 +291,7 @@ async function syncTableWorker(
       const safeBatchSize = Math.min(Math.max(1, config.batchSize), 10000);
       const safeOffset = Math.max(0, offset);
       const rows = await sourceConn.client.unsafe(
-        `SELECT * FROM "${tableName}" ORDER BY "${pkColumn}" LIMIT $1 OFFSET $2`,
+        `SELECT * FROM ${safeTableName} ORDER BY "${pkColumn}" LIMIT $1 OFFSET $2`,
         [safeBatchSize, safeOffset]
       );
       
@@ -317,11 +324,11 @@ async function syncTableWorker(
               .join(', ');
             
             const upsertSQL = `
-              INSERT INTO "${tableName}" (${columnList})
+              INSERT INTO ${safeTableName} (${columnList})
               VALUES (${placeholders})
               ON CONFLICT ("${pkColumn}") DO UPDATE SET ${updateSet}
-              WHERE "${tableName}".updated_at IS NULL 
-                 OR "${tableName}".updated_at < EXCLUDED.updated_at
+              WHERE ${safeTableName}.updated_at IS NULL 
+                 OR ${safeTableName}.updated_at < EXCLUDED.updated_at
             `;
             
             const upsertResult = await tx.unsafe(upsertSQL, values);
@@ -330,7 +337,7 @@ async function syncTableWorker(
             if (upsertResult.count === 1) {
               // Determine if it was insert or update by checking if row existed
               const existedResult = await tx.unsafe(
-                `SELECT 1 FROM "${tableName}" WHERE "${pkColumn}" = $1`,
+                `SELECT 1 FROM ${safeTableName} WHERE "${pkColumn}" = $1`,
                 [rowId]
               );
               
@@ -0,0 +1,205 @@
+/**
+ * Primary Key Helpers
+ *
+ * Resolves a table's real primary key and builds the SQL fragments needed to
+ * paginate, look up and checkpoint rows by it. Single-column keys are
+ * serialized as their plain string value (compatible with checkpoints written
+ * before composite key support); composite keys are serialized as a JSON array
+ * of their column values in key order.
+ */
+
+import type { DrizzleConnection } from './drizzle-factory';
+import { inspectTable } from './schema-inspector';
+import type { DetailedTableSchema } from '@/types';
+import { escapeIdentifier } from './security-utils';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type PrimaryKeyColumns = string[];
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Safely coerce a key value to string
+ */
+function safeString(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  if (typeof value === 'bigint') return value.toString();
+  if (value instanceof Date) return value.toISOString();
+  try {
+    return JSON.stringify(value);
+  } catch {
+    return '';
+  }
+}
+
+// ============================================================================
+// KEY RESOLUTION
+// ============================================================================
+
+/**
+ * Resolve the primary key columns of a table.
+ * Falls back to an `id` column for tables without a declared primary key.
+ */
+export async function resolvePrimaryKey(
+  conn: DrizzleConnection,
+  tableName: string
+): Promise<PrimaryKeyColumns> {
+  const keyColumns = getSyncKeyColumns(await inspectTable(conn, tableName));
+
+  if (!keyColumns) {
+    throw new Error(`Table "${tableName}" has no primary key and no "id" column to sync by`);
+  }
+
+  return keyColumns;
+}
+
+/**
+ * Key columns an inspected table is synced by: its declared primary key, or
+ * an `id` column for tables without one. Null if neither exists.
+ */
+export function getSyncKeyColumns(
+  table: Pick<DetailedTableSchema, 'primaryKey' | 'columns'>
+): PrimaryKeyColumns | null {
+  if (table.primaryKey && table.primaryKey.columns.length > 0) {
+    return table.primaryKey.columns;
+  }
+
+  if (table.columns.some((c) => c.name === 'id')) {
+    return ['id'];
+  }
+
+  return null;
+}
+
+// ============================================================================
+// KEY SERIALIZATION
+// ============================================================================
+
+/**
+ * Serialize a row's primary key for checkpoints and idempotency tracking.
+ * Returns an empty string if any key column is null or missing.
+ */
+export function serializeRowKey(row: Record<string, unknown>, keyColumns: PrimaryKeyColumns): string {
+  const values = keyColumns.map((c) => row[c]);
+  if (values.some((v) => v === null || v === undefined)) {
+    return '';
+  }
+
+  if (keyColumns.length === 1) {
+    return safeString(values[0]);
+  }
+
+  return JSON.stringify(values.map(safeString));
+}
+
+/**
+ * Parse a serialized key back into its column values (in key order).
+ * Throws if the key does not match the number of key columns.
+ */
+export function parseRowKey(key: string, keyColumns: PrimaryKeyColumns): string[] {
+  if (keyColumns.length === 1) {
+    return [key];
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(key);
+  } catch {
+    throw new Error(`Invalid composite key "${key}" for (${keyColumns.join(', ')})`);
+  }
+
+  if (
+    !Array.isArray(parsed) ||
+    parsed.length !== keyColumns.length ||
+    !parsed.every((v) => typeof v === 'string')
+  ) {
+    throw new Error(`Invalid composite key "${key}" for (${keyColumns.join(', ')})`);
+  }
+
+  return parsed as string[];
+}
+
+// ============================================================================
+// SQL BUILDERS
+// ============================================================================
+
+/**
+ * Escaped key column list, e.g. `"id"` or `"org_id", "user_id"`
+ */
+export function buildKeyColumnList(keyColumns: PrimaryKeyColumns): string {
+  return keyColumns.map(escapeIdentifier).join(', ');
+}
+
+/**
+ * ORDER BY clause body for keyset pagination
+ */
+export function buildKeyOrderBy(keyColumns: PrimaryKeyColumns): string {
+  return keyColumns.map((c) => `${escapeIdentifier(c)} ASC`).join(', ');
+}
+
+/**
+ * Keyset condition selecting rows after the given key.
+ * Composite keys use a row-value comparison so the PK index can be used.
+ *
+ * @param firstParam - 1-based index of the first placeholder to use
+ */
+export function buildKeysetCondition(keyColumns: PrimaryKeyColumns, firstParam: number): string {
+  if (keyColumns.length === 1) {
+    return `${escapeIdentifier(keyColumns[0])} > $${firstParam}`;
+  }
+
+  const placeholders = keyColumns.map((_, i) => `$${firstParam + i}`).join(', ');
+  return `(${buildKeyColumnList(keyColumns)}) > (${placeholders})`;
+}
+
+/**
+ * Condition selecting rows up to and including the given key; pairs with
+ * `buildKeysetCondition` to select a key range.
+ *
+ * @param firstParam - 1-based index of the first placeholder to use
+ */
+export function buildKeyUpperBoundCondition(keyColumns: PrimaryKeyColumns, firstParam: number): string {
+  if (keyColumns.length === 1) {
+    return `${escapeIdentifier(keyColumns[0])} <= $${firstParam}`;
+  }
+
+  const placeholders = keyColumns.map((_, i) => `$${firstParam + i}`).join(', ');
+  return `(${buildKeyColumnList(keyColumns)}) <= (${placeholders})`;
+}
+
+/**
+ * Condition matching any of `keyCount` keys. Pair with `flattenKeys` for params.
+ *
+ * @param firstParam - 1-based index of the first placeholder to use
+ */
+export function buildKeyMatchCondition(
+  keyColumns: PrimaryKeyColumns,
+  keyCount: number,
+  firstParam: number = 1
+): string {
+  const width = keyColumns.length;
+
+  if (width === 1) {
+    const placeholders = Array.from({ length: keyCount }, (_, i) => `$${firstParam + i}`).join(', ');
+    return `${escapeIdentifier(keyColumns[0])} IN (${placeholders})`;
+  }
+
+  const tuples = Array.from({ length: keyCount }, (_, k) =>
+    `(${keyColumns.map((_, i) => `$${firstParam + k * width + i}`).join(', ')})`
+  ).join(', ');
+  return `(${buildKeyColumnList(keyColumns)}) IN (${tuples})`;
+}
+
+/**
+ * Flatten serialized keys into query parameters in key column order
+ */
+export function flattenKeys(keys: string[], keyColumns: PrimaryKeyColumns): string[] {
+  return keys.flatMap((key) => parseRowKey(key, keyColumns));
+}
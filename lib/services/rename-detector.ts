@@ -0,0 +1,272 @@
+/**
+ * Rename Detector
+ *
+ * Without help, a renamed table or column diffs as "missing in target" plus
+ * "extra in target", and the generated migration creates an empty copy
+ * instead of renaming. This pairs up unmatched tables and columns that look
+ * like the same object under a new name, scored on:
+ * - Columns: type (required), name similarity, position, nullability,
+ *   default and key membership (primary key, unique, foreign key)
+ * - Tables: shared columns, name similarity and primary key (same schema only)
+ *
+ * Candidates are proposals only; generateMigrationPlan renames only those
+ * the user accepts.
+ */
+
+import type { DatabaseSchema, DetailedColumn, DetailedTableSchema, RenameCandidate } from '@/types';
+import { parseQualifiedTableName } from './security-utils';
+
+// Minimum confidence for a pair to be proposed
+const COLUMN_RENAME_THRESHOLD = 0.5;
+const TABLE_RENAME_THRESHOLD = 0.6;
+
+// Column score weights (sum to 1)
+const COLUMN_WEIGHTS = { name: 0.35, position: 0.15, nullability: 0.1, defaultValue: 0.1, keys: 0.3 };
+
+// Table score weights (sum to 1)
+const TABLE_WEIGHTS = { columns: 0.6, name: 0.25, primaryKey: 0.15 };
+
+/**
+ * Levenshtein edit distance
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Similarity of two identifiers, 0-1: the better of edit-distance similarity
+ * and the share of underscore-separated words they have in common (so
+ * `name` -> `full_name` and `user_id` -> `owner_id` both score)
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const left = a.toLowerCase();
+  const right = b.toLowerCase();
+  if (left === right) return 1;
+
+  const edit = 1 - editDistance(left, right) / Math.max(left.length, right.length);
+
+  const leftWords = new Set(left.split('_').filter(Boolean));
+  const rightWords = new Set(right.split('_').filter(Boolean));
+  const shared = [...leftWords].filter((word) => rightWords.has(word)).length;
+  const words = shared / Math.max(leftWords.size, rightWords.size, 1);
+
+  return Math.max(edit, words);
+}
+
+function percent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+/**
+ * Key constraints a column takes part in, as comparable labels
+ */
+function columnKeys(table: DetailedTableSchema, column: DetailedColumn): string[] {
+  const keys: string[] = [];
+
+  if (column.isPrimaryKey || table.primaryKey?.columns.includes(column.name)) {
+    keys.push('primary key');
+  }
+  const isUnique = table.constraints.some(
+    (c) => c.type === 'UNIQUE' && c.columns.length === 1 && c.columns[0] === column.name
+  ) || table.indexes.some(
+    (i) => i.isUnique && !i.isPrimary && i.columns.length === 1 && i.columns[0] === column.name
+  );
+  if (isUnique) {
+    keys.push('unique');
+  }
+  for (const fk of table.foreignKeys.filter((f) => f.columnName === column.name)) {
+    keys.push(`foreign key to ${fk.referencedTable}.${fk.referencedColumn}`);
+  }
+
+  return keys.sort();
+}
+
+/**
+ * Keep the best-scoring candidates such that each name is used at most once
+ * on either side
+ */
+function pickOneToOne(candidates: RenameCandidate[]): RenameCandidate[] {
+  const usedFrom = new Set<string>();
+  const usedTo = new Set<string>();
+  const picked: RenameCandidate[] = [];
+
+  for (const candidate of [...candidates].sort((a, b) => b.confidence - a.confidence)) {
+    if (usedFrom.has(candidate.from) || usedTo.has(candidate.to)) continue;
+    usedFrom.add(candidate.from);
+    usedTo.add(candidate.to);
+    picked.push(candidate);
+  }
+
+  return picked;
+}
+
+/**
+ * Score one target-only column as the renamed form of a source-only column
+ */
+function scoreColumnRename(
+  sourceTable: DetailedTableSchema,
+  sourceColumn: DetailedColumn,
+  targetTable: DetailedTableSchema,
+  targetColumn: DetailedColumn
+): RenameCandidate | null {
+  // A rename keeps the type; anything else is a different column
+  if (sourceColumn.udtName !== targetColumn.udtName) return null;
+
+  const reasons = [`same type (${sourceColumn.udtName})`];
+  let score = 0;
+
+  const name = nameSimilarity(sourceColumn.name, targetColumn.name);
+  score += COLUMN_WEIGHTS.name * name;
+  if (name >= 0.5) reasons.push(`similar name (${percent(name)})`);
+
+  const positionGap = Math.abs(sourceColumn.ordinalPosition - targetColumn.ordinalPosition);
+  if (positionGap === 0) {
+    score += COLUMN_WEIGHTS.position;
+    reasons.push(`same position (${sourceColumn.ordinalPosition})`);
+  } else if (positionGap === 1) {
+    score += COLUMN_WEIGHTS.position / 2;
+  }
+
+  if (sourceColumn.isNullable === targetColumn.isNullable) {
+    score += COLUMN_WEIGHTS.nullability;
+    reasons.push(sourceColumn.isNullable ? 'both nullable' : 'both NOT NULL');
+  }
+
+  if ((sourceColumn.defaultValue ?? null) === (targetColumn.defaultValue ?? null)) {
+    score += COLUMN_WEIGHTS.defaultValue;
+    if (sourceColumn.defaultValue) reasons.push(`same default (${sourceColumn.defaultValue})`);
+  }
+
+  const sourceKeys = columnKeys(sourceTable, sourceColumn);
+  const targetKeys = columnKeys(targetTable, targetColumn);
+  if (sourceKeys.join(',') === targetKeys.join(',')) {
+    // Shared key constraints are strong evidence; two plain columns are weak
+    score += sourceKeys.length > 0 ? COLUMN_WEIGHTS.keys : COLUMN_WEIGHTS.keys / 2;
+    reasons.push(...sourceKeys.map((key) => `both ${key}`));
+  }
+
+  if (score < COLUMN_RENAME_THRESHOLD) return null;
+
+  return {
+    id: `column:${sourceTable.tableName}:${targetColumn.name}->${sourceColumn.name}`,
+    kind: 'column',
+    tableName: sourceTable.tableName,
+    from: targetColumn.name,
+    to: sourceColumn.name,
+    confidence: Math.round(score * 100) / 100,
+    reasons,
+  };
+}
+
+/**
+ * Score one target-only table as the renamed form of a source-only table
+ */
+function scoreTableRename(
+  sourceTable: DetailedTableSchema,
+  targetTable: DetailedTableSchema
+): RenameCandidate | null {
+  const source = parseQualifiedTableName(sourceTable.tableName);
+  const target = parseQualifiedTableName(targetTable.tableName);
+
+  // ALTER TABLE ... RENAME can't move a table between schemas
+  if (source.schema !== target.schema) return null;
+
+  const signature = (c: DetailedColumn) => `${c.name}:${c.udtName}`;
+  const sourceColumns = new Set(sourceTable.columns.map(signature));
+  const targetColumns = new Set(targetTable.columns.map(signature));
+  const shared = [...sourceColumns].filter((c) => targetColumns.has(c)).length;
+  const total = new Set([...sourceColumns, ...targetColumns]).size;
+  if (shared === 0) return null;
+
+  const reasons = [`${shared} of ${total} columns match`];
+  let score = TABLE_WEIGHTS.columns * (shared / total);
+
+  const name = nameSimilarity(source.table, target.table);
+  score += TABLE_WEIGHTS.name * name;
+  if (name >= 0.5) reasons.push(`similar name (${percent(name)})`);
+
+  const sourcePk = sourceTable.primaryKey?.columns ?? [];
+  const targetPk = targetTable.primaryKey?.columns ?? [];
+  if (sourcePk.length > 0 && [...sourcePk].sort().join(',') === [...targetPk].sort().join(',')) {
+    score += TABLE_WEIGHTS.primaryKey;
+    reasons.push(`same primary key (${sourcePk.join(', ')})`);
+  }
+
+  if (score < TABLE_RENAME_THRESHOLD) return null;
+
+  return {
+    id: `table:${targetTable.tableName}->${sourceTable.tableName}`,
+    kind: 'table',
+    tableName: sourceTable.tableName,
+    from: targetTable.tableName,
+    to: sourceTable.tableName,
+    confidence: Math.round(score * 100) / 100,
+    reasons,
+  };
+}
+
+/**
+ * Propose renames that would make the target match the source:
+ * - selected source tables missing in the target, against target tables
+ *   missing in the source
+ * - for selected tables in both, source-only columns against target-only
+ *   columns
+ */
+export function detectRenameCandidates(
+  sourceSchema: DatabaseSchema,
+  targetSchema: DatabaseSchema,
+  selectedTables: string[]
+): RenameCandidate[] {
+  const sourceTables = new Map(sourceSchema.tables.map((t) => [t.tableName, t]));
+  const targetTables = new Map(targetSchema.tables.map((t) => [t.tableName, t]));
+
+  const tableCandidates: RenameCandidate[] = [];
+  const orphanTargetTables = targetSchema.tables.filter((t) => !sourceTables.has(t.tableName));
+
+  for (const tableName of selectedTables) {
+    const sourceTable = sourceTables.get(tableName);
+    if (!sourceTable || targetTables.has(tableName)) continue;
+
+    for (const targetTable of orphanTargetTables) {
+      const candidate = scoreTableRename(sourceTable, targetTable);
+      if (candidate) tableCandidates.push(candidate);
+    }
+  }
+
+  const columnCandidates: RenameCandidate[] = [];
+
+  for (const tableName of selectedTables) {
+    const sourceTable = sourceTables.get(tableName);
+    const targetTable = targetTables.get(tableName);
+    if (!sourceTable || !targetTable) continue;
+
+    const sourceNames = new Set(sourceTable.columns.map((c) => c.name));
+    const targetNames = new Set(targetTable.columns.map((c) => c.name));
+    const candidates: RenameCandidate[] = [];
+
+    for (const sourceColumn of sourceTable.columns.filter((c) => !targetNames.has(c.name))) {
+      for (const targetColumn of targetTable.columns.filter((c) => !sourceNames.has(c.name))) {
+        const candidate = scoreColumnRename(sourceTable, sourceColumn, targetTable, targetColumn);
+        if (candidate) candidates.push(candidate);
+      }
+    }
+
+    columnCandidates.push(...pickOneToOne(candidates));
+  }
+
+  return [...pickOneToOne(tableCandidates), ...columnCandidates];
+}
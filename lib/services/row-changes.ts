@@ -0,0 +1,262 @@
+/**
+ * Row Changes
+ *
+ * Validates and applies a batch of edits made in the data explorer to one
+ * table. Updates and deletes address rows by their full primary key, every
+ * value is passed as a query parameter, and the whole batch runs in a single
+ * transaction: if any statement fails, or an update or delete no longer
+ * matches a row, nothing is written.
+ */
+
+import type { DrizzleConnection } from './drizzle-factory';
+import { buildKeyMatchCondition, type PrimaryKeyColumns } from './primary-key';
+import { escapeIdentifier, escapeQualifiedName } from './security-utils';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type RowValues = Record<string, unknown>;
+
+export interface RowInsert {
+  values: RowValues;
+}
+
+export interface RowUpdate {
+  // Current value of every primary key column
+  key: RowValues;
+  // Changed columns only
+  values: RowValues;
+}
+
+export interface RowDelete {
+  key: RowValues;
+}
+
+export interface RowChangeSet {
+  inserts: RowInsert[];
+  updates: RowUpdate[];
+  deletes: RowDelete[];
+}
+
+export type RowChangeParam = string | number | boolean | null;
+
+export interface RowChangeStatement {
+  kind: 'insert' | 'update' | 'delete';
+  sql: string;
+  params: RowChangeParam[];
+  key?: RowValues;
+}
+
+export interface RowChangeResult {
+  inserted: number;
+  updated: number;
+  deleted: number;
+  // Rows as stored after the inserts and updates
+  rows: Record<string, unknown>[];
+}
+
+/**
+ * Thrown when an update or delete matches no row, usually because someone
+ * else changed or deleted it after it was loaded
+ */
+export class RowChangeConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RowChangeConflictError';
+  }
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const MAX_ROW_CHANGES = 500;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Convert an edited value to a query parameter. JSON values (objects and
+ * arrays) are sent as JSON text.
+ */
+function toParam(value: unknown): RowChangeParam {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return value;
+  if (value instanceof Date) return value.toISOString();
+  return JSON.stringify(value);
+}
+
+/**
+ * Describe a key for error messages, e.g. `id=42` or `org_id=1, user_id=7`
+ */
+export function describeRowKey(key: RowValues): string {
+  return Object.entries(key).map(([column, value]) => `${column}=${String(value)}`).join(', ');
+}
+
+export function countRowChanges(changes: RowChangeSet): number {
+  return changes.inserts.length + changes.updates.length + changes.deletes.length;
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Validate a change set against the table's columns and primary key.
+ * Returns a list of errors (empty when the change set can be applied).
+ */
+export function validateRowChanges(
+  changes: RowChangeSet,
+  columns: string[],
+  keyColumns: PrimaryKeyColumns
+): string[] {
+  const errors: string[] = [];
+  const columnSet = new Set(columns);
+  const total = countRowChanges(changes);
+
+  if (total === 0) {
+    errors.push('No changes to apply');
+  } else if (total > MAX_ROW_CHANGES) {
+    errors.push(`At most ${MAX_ROW_CHANGES} rows can be changed at once`);
+  }
+
+  if ((changes.updates.length > 0 || changes.deletes.length > 0) && keyColumns.length === 0) {
+    errors.push('Rows of a table without a primary key cannot be updated or deleted');
+  }
+
+  const checkColumns = (label: string, values: RowValues) => {
+    for (const column of Object.keys(values)) {
+      if (!columnSet.has(column)) {
+        errors.push(`${label}: column "${column}" does not exist`);
+      }
+    }
+  };
+
+  const checkKey = (label: string, key: RowValues) => {
+    if (keyColumns.length === 0) return;
+    const keyNames = Object.keys(key);
+    const complete = keyNames.length === keyColumns.length &&
+      keyColumns.every((column) => key[column] !== null && key[column] !== undefined);
+    if (!complete) {
+      errors.push(`${label}: key must set exactly (${keyColumns.join(', ')})`);
+    }
+  };
+
+  changes.inserts.forEach((insert, index) => {
+    checkColumns(`Insert ${index + 1}`, insert.values);
+  });
+
+  changes.updates.forEach((update, index) => {
+    const label = `Update ${index + 1}`;
+    checkKey(label, update.key);
+    checkColumns(label, update.values);
+
+    if (Object.keys(update.values).length === 0) {
+      errors.push(`${label}: no columns to change`);
+    }
+    for (const column of keyColumns) {
+      if (column in update.values) {
+        errors.push(`${label}: primary key column "${column}" cannot be changed`);
+      }
+    }
+  });
+
+  changes.deletes.forEach((del, index) => {
+    checkKey(`Delete ${index + 1}`, del.key);
+  });
+
+  return errors;
+}
+
+// ============================================================================
+// SQL
+// ============================================================================
+
+/**
+ * Compile a validated change set into parameterized statements. Deletes run
+ * first and inserts last, so a row can be deleted and re-created with the
+ * same key in one batch.
+ */
+export function compileRowChanges(
+  tableName: string,
+  changes: RowChangeSet,
+  keyColumns: PrimaryKeyColumns
+): RowChangeStatement[] {
+  const safeTableName = escapeQualifiedName(tableName);
+  const statements: RowChangeStatement[] = [];
+
+  const keyParams = (key: RowValues) => keyColumns.map((column) => toParam(key[column]));
+
+  for (const { key } of changes.deletes) {
+    statements.push({
+      kind: 'delete',
+      sql: `DELETE FROM ${safeTableName} WHERE ${buildKeyMatchCondition(keyColumns, 1)} RETURNING 1`,
+      params: keyParams(key),
+      key,
+    });
+  }
+
+  for (const { key, values } of changes.updates) {
+    const columns = Object.keys(values);
+    const setClause = columns.map((column, i) => `${escapeIdentifier(column)} = $${i + 1}`).join(', ');
+
+    statements.push({
+      kind: 'update',
+      sql: `UPDATE ${safeTableName} SET ${setClause} WHERE ${buildKeyMatchCondition(keyColumns, 1, columns.length + 1)} RETURNING *`,
+      params: [...columns.map((column) => toParam(values[column])), ...keyParams(key)],
+      key,
+    });
+  }
+
+  for (const { values } of changes.inserts) {
+    const columns = Object.keys(values);
+
+    statements.push({
+      kind: 'insert',
+      sql: columns.length === 0
+        ? `INSERT INTO ${safeTableName} DEFAULT VALUES RETURNING *`
+        : `INSERT INTO ${safeTableName} (${columns.map(escapeIdentifier).join(', ')}) ` +
+          `VALUES (${columns.map((_, i) => `$${i + 1}`).join(', ')}) RETURNING *`,
+      params: columns.map((column) => toParam(values[column])),
+    });
+  }
+
+  return statements;
+}
+
+/**
+ * Apply a validated change set in one transaction
+ */
+export async function applyRowChanges(
+  connection: DrizzleConnection,
+  tableName: string,
+  changes: RowChangeSet,
+  keyColumns: PrimaryKeyColumns
+): Promise<RowChangeResult> {
+  const statements = compileRowChanges(tableName, changes, keyColumns);
+
+  return connection.client.begin(async (tx) => {
+    const result: RowChangeResult = { inserted: 0, updated: 0, deleted: 0, rows: [] };
+
+    for (const statement of statements) {
+      const rows = await tx.unsafe(statement.sql, statement.params);
+
+      if (statement.kind !== 'insert' && rows.length === 0) {
+        throw new RowChangeConflictError(
+          `Row ${describeRowKey(statement.key!)} no longer exists; reload the table and try again`
+        );
+      }
+
+      if (statement.kind === 'delete') {
+        result.deleted++;
+      } else {
+        result[statement.kind === 'insert' ? 'inserted' : 'updated']++;
+        result.rows.push({ ...rows[0] });
+      }
+    }
+
+    return result;
+  }) as Promise<RowChangeResult>;
+}
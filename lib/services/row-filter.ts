@@ -0,0 +1,245 @@
+/**
+ * Row Filters
+ *
+ * Per-table WHERE predicates that restrict which source rows are synced,
+ * e.g. a single tenant or rows from the last 30 days. Filters are stored as
+ * structured definitions on the table config and compiled into parameterized
+ * SQL - values are never interpolated into the query text.
+ */
+
+import type { RowFilter, RowFilterOperator, RowFilterValue } from '@/types';
+import type { DrizzleConnection } from './drizzle-factory';
+import { escapeIdentifier, isValidIdentifier, parseQualifiedTableName } from './security-utils';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type { RowFilter, RowFilterOperator, RowFilterValue };
+
+export const ROW_FILTER_OPERATORS: readonly RowFilterOperator[] = [
+  'eq',
+  'neq',
+  'gt',
+  'gte',
+  'lt',
+  'lte',
+  'in',
+  'not_in',
+  'like',
+  'is_null',
+  'is_not_null',
+  'within_days',
+];
+
+export interface CompiledRowFilter {
+  sql: string;
+  params: (string | number | boolean)[];
+}
+
+// Maximum number of values accepted by `in` / `not_in`
+export const MAX_FILTER_LIST_VALUES = 1000;
+
+const COMPARISON_SQL: Partial<Record<RowFilterOperator, string>> = {
+  eq: '=',
+  neq: '<>',
+  gt: '>',
+  gte: '>=',
+  lt: '<',
+  lte: '<=',
+  like: 'LIKE',
+};
+
+const OPERATOR_LABELS: Record<RowFilterOperator, string> = {
+  eq: '=',
+  neq: '≠',
+  gt: '>',
+  gte: '≥',
+  lt: '<',
+  lte: '≤',
+  in: 'in',
+  not_in: 'not in',
+  like: 'like',
+  is_null: 'is null',
+  is_not_null: 'is not null',
+  within_days: 'within last',
+};
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Validate filters against a table's columns.
+ * Returns a list of human-readable errors (empty when all filters are valid).
+ */
+export function validateRowFilters(filters: RowFilter[], columns: string[]): string[] {
+  const errors: string[] = [];
+  const columnSet = new Set(columns);
+
+  filters.forEach((filter, index) => {
+    const label = `Filter ${index + 1}`;
+
+    if (!isValidIdentifier(filter.column)) {
+      errors.push(`${label}: invalid column name "${filter.column}"`);
+      return;
+    }
+    if (!columnSet.has(filter.column)) {
+      errors.push(`${label}: column "${filter.column}" does not exist`);
+      return;
+    }
+    if (!ROW_FILTER_OPERATORS.includes(filter.operator)) {
+      errors.push(`${label}: unsupported operator "${filter.operator}"`);
+      return;
+    }
+
+    const { operator, value } = filter;
+
+    switch (operator) {
+      case 'is_null':
+      case 'is_not_null':
+        return;
+      case 'in':
+      case 'not_in':
+        if (!Array.isArray(value) || value.length === 0) {
+          errors.push(`${label}: "${operator}" requires a non-empty list of values`);
+        } else if (value.length > MAX_FILTER_LIST_VALUES) {
+          errors.push(`${label}: "${operator}" accepts at most ${MAX_FILTER_LIST_VALUES} values`);
+        }
+        return;
+      case 'within_days':
+        if (typeof value !== 'number' || !Number.isInteger(value) || value <= 0) {
+          errors.push(`${label}: "within_days" requires a positive whole number of days`);
+        }
+        return;
+      case 'like':
+        if (typeof value !== 'string') {
+          errors.push(`${label}: "like" requires a text pattern`);
+        }
+        return;
+      default:
+        if (value === null || value === undefined || Array.isArray(value)) {
+          errors.push(`${label}: "${operator}" requires a single value`);
+        }
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Validate filters against the live columns of a table.
+ * Throws with every problem found so a misconfigured table fails before any
+ * rows are read.
+ */
+export async function assertValidRowFilters(
+  conn: DrizzleConnection,
+  tableName: string,
+  filters: RowFilter[] | undefined
+): Promise<void> {
+  if (!filters || filters.length === 0) return;
+
+  const { schema, table } = parseQualifiedTableName(tableName);
+  const result = await conn.client`
+    SELECT column_name
+    FROM information_schema.columns
+    WHERE table_schema = ${schema}
+      AND table_name = ${table}
+  `;
+
+  const errors = validateRowFilters(filters, result.map((r) => String(r.column_name)));
+  if (errors.length > 0) {
+    throw new Error(`Invalid row filters for "${tableName}": ${errors.join('; ')}`);
+  }
+}
+
+// ============================================================================
+// COMPILATION
+// ============================================================================
+
+/**
+ * Compile filters into a parameterized condition joined with AND.
+ * Returns an empty `sql` string when there are no filters.
+ *
+ * @param firstParam - 1-based index of the first placeholder to use
+ * @param alias - Optional table alias to qualify column references with
+ */
+export function compileRowFilters(
+  filters: RowFilter[] | undefined,
+  firstParam: number = 1,
+  alias?: string
+): CompiledRowFilter {
+  const conditions: string[] = [];
+  const params: (string | number | boolean)[] = [];
+  const placeholder = () => `$${firstParam + params.length - 1}`;
+
+  for (const filter of filters || []) {
+    const column = alias
+      ? `${escapeIdentifier(alias)}.${escapeIdentifier(filter.column)}`
+      : escapeIdentifier(filter.column);
+    const { operator, value } = filter;
+
+    switch (operator) {
+      case 'is_null':
+        conditions.push(`${column} IS NULL`);
+        break;
+      case 'is_not_null':
+        conditions.push(`${column} IS NOT NULL`);
+        break;
+      case 'in':
+      case 'not_in': {
+        const values = Array.isArray(value) ? value : [];
+        if (values.length === 0) {
+          throw new Error(`Filter on "${filter.column}" requires a non-empty list of values`);
+        }
+        const placeholders = values.map((v) => {
+          params.push(v);
+          return placeholder();
+        });
+        conditions.push(`${column} ${operator === 'in' ? 'IN' : 'NOT IN'} (${placeholders.join(', ')})`);
+        break;
+      }
+      case 'within_days':
+        params.push(Number(value));
+        conditions.push(`${column} >= NOW() - (${placeholder()}::int * INTERVAL '1 day')`);
+        break;
+      default: {
+        const sqlOperator = COMPARISON_SQL[operator];
+        if (!sqlOperator || value === null || value === undefined || Array.isArray(value)) {
+          throw new Error(`Invalid filter on "${filter.column}"`);
+        }
+        params.push(value);
+        conditions.push(
+          operator === 'like'
+            ? `${column}::text LIKE ${placeholder()}`
+            : `${column} ${sqlOperator} ${placeholder()}`
+        );
+      }
+    }
+  }
+
+  return { sql: conditions.join(' AND '), params };
+}
+
+// ============================================================================
+// DISPLAY
+// ============================================================================
+
+/**
+ * Human-readable summary, e.g. `tenant_id = 42 AND created_at within last 30 days`
+ */
+export function describeRowFilters(filters: RowFilter[] | undefined): string {
+  return (filters || [])
+    .map(({ column, operator, value }) => {
+      const label = OPERATOR_LABELS[operator] || operator;
+      if (operator === 'is_null' || operator === 'is_not_null') {
+        return `${column} ${label}`;
+      }
+      if (operator === 'within_days') {
+        return `${column} ${label} ${value} day${value === 1 ? '' : 's'}`;
+      }
+      const shown = Array.isArray(value) ? `(${value.join(', ')})` : String(value);
+      return `${column} ${label} ${shown}`;
+    })
+    .join(' AND ');
+}
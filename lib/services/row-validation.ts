@@ -0,0 +1,105 @@
+/**
+ * Row Validation
+ *
+ * Checks a row against the target table's NOT NULL columns and flags values
+ * that cannot be stored faithfully (NaN, Infinity, unsafe integers, invalid
+ * dates, oversized values) before it is written. Shared by sync, which
+ * writes rows read from another database, and explorer imports, which write
+ * rows parsed from an uploaded file.
+ */
+
+/**
+ * Estimate row size in bytes (for large row detection)
+ */
+export function estimateRowSize(row: Record<string, unknown>): number {
+  let size = 0;
+  for (const value of Object.values(row)) {
+    if (value === null || value === undefined) {
+      size += 4;
+    } else if (typeof value === 'string') {
+      size += value.length * 2; // UTF-16
+    } else if (typeof value === 'number') {
+      size += 8;
+    } else if (typeof value === 'boolean') {
+      size += 1;
+    } else if (typeof value === 'object') {
+      size += JSON.stringify(value).length * 2;
+    }
+  }
+  return size;
+}
+
+// Maximum row size (1MB) - rows larger than this will be handled specially
+export const MAX_ROW_SIZE = 1024 * 1024;
+
+/**
+ * Check if a value might cause issues when written
+ * Returns warning message if problematic, null if OK
+ */
+export function checkValueForIssues(columnName: string, value: unknown): string | null {
+  if (typeof value === 'number') {
+    if (Number.isNaN(value)) {
+      return `Column "${columnName}" has NaN value`;
+    }
+    if (!Number.isFinite(value)) {
+      return `Column "${columnName}" has Infinity value`;
+    }
+    // Check for potential precision loss with very large numbers
+    if (Math.abs(value) > Number.MAX_SAFE_INTEGER) {
+      return `Column "${columnName}" has value exceeding safe integer range`;
+    }
+  }
+  
+  if (value instanceof Date && isNaN(value.getTime())) {
+    return `Column "${columnName}" has invalid Date`;
+  }
+  
+  if (typeof value === 'string' && value.length > 10 * 1024 * 1024) {
+    return `Column "${columnName}" has very large string (${Math.round(value.length / 1024 / 1024)}MB)`;
+  }
+  
+  return null;
+}
+
+/**
+ * Validate a row against known constraints
+ * Returns validation result with any issues found
+ */
+export function validateRow(
+  row: Record<string, unknown>,
+  notNullColumns: Set<string>,
+  generatedColumns: Set<string>,
+  keyColumns: Set<string>
+): { valid: boolean; issues: string[]; warnings: string[] } {
+  const issues: string[] = [];
+  const warnings: string[] = [];
+
+  // Check NOT NULL columns
+  for (const col of notNullColumns) {
+    if (generatedColumns.has(col)) continue; // Skip generated columns
+    if (keyColumns.has(col)) continue; // Key is always provided
+    
+    const value = row[col];
+    if (value === null || value === undefined) {
+      issues.push(`NULL value in NOT NULL column: ${col}`);
+    }
+  }
+
+  // Check all column values for potential issues
+  for (const [col, value] of Object.entries(row)) {
+    if (generatedColumns.has(col)) continue;
+    
+    const valueIssue = checkValueForIssues(col, value);
+    if (valueIssue) {
+      warnings.push(valueIssue);
+    }
+  }
+
+  // Check row size
+  const rowSize = estimateRowSize(row);
+  if (rowSize > MAX_ROW_SIZE) {
+    issues.push(`Row too large: ${Math.round(rowSize / 1024)}KB (max 1MB)`);
+  }
+
+  return { valid: issues.length === 0, issues, warnings };
+}
@@ -1,11 +1,23 @@
 /**
  * Scheduler Service
  *
- * In-memory cron-like scheduler for sync jobs.
- * Supports recurring schedules with timezone handling.
+ * Cron-like recurring schedules for sync jobs. Schedules are persisted in the
+ * `scheduled_syncs` table and run by the backend scheduler
+ * (server/src/services/scheduled-jobs.ts), so they survive deploys and
+ * serverless cold starts.
  */
 
-import { logger } from '@/lib/services/logger';
+import { supabaseScheduledSyncStore } from '@/lib/db/supabase-store';
+import type { ScheduledSync } from '@/types/supabase';
+import { calculateNextRun, validateCronExpression } from './cron';
+
+export {
+  calculateNextRun,
+  getNextRuns,
+  validateCronExpression,
+  describeCron,
+  CRON_PRESETS,
+} from './cron';
 
 export interface ScheduledJob {
   id: string;
@@ -31,190 +43,34 @@ export interface ScheduleConfig {
   timezone?: string;
 }
 
-// Store for scheduled jobs
-const scheduledJobs = new Map<string, ScheduledJob>();
-
-// Store for active timers
-const activeTimers = new Map<string, NodeJS.Timeout>();
-
-// Callback for when a scheduled job should run
-let onScheduledJobRun: ((job: ScheduledJob) => Promise<void>) | null = null;
-
-/**
- * Parse a simple cron expression
- * Format: minute hour day-of-month month day-of-week
- * Supports: asterisk, specific values, ranges (1-5), lists (1,3,5), steps
- */
-function parseCronField(field: string, min: number, max: number): number[] {
-  const values: number[] = [];
-  
-  // Handle *
-  if (field === '*') {
-    for (let i = min; i <= max; i++) {
-      values.push(i);
-    }
-    return values;
-  }
-  
-  // Handle */step
-  if (field.startsWith('*/')) {
-    const step = parseInt(field.slice(2), 10);
-    for (let i = min; i <= max; i += step) {
-      values.push(i);
-    }
-    return values;
-  }
-  
-  // Handle ranges and lists
-  const parts = field.split(',');
-  for (const part of parts) {
-    if (part.includes('-')) {
-      const [start, end] = part.split('-').map(Number);
-      for (let i = start; i <= end; i++) {
-        if (i >= min && i <= max) values.push(i);
-      }
-    } else {
-      const val = parseInt(part, 10);
-      if (val >= min && val <= max) values.push(val);
-    }
-  }
-  
-  return values;
-}
-
-/**
- * Calculate next run time based on cron expression
- */
-export function calculateNextRun(cronExpression: string, fromDate: Date = new Date()): Date | null {
-  try {
-    const parts = cronExpression.trim().split(/\s+/);
-    if (parts.length !== 5) return null;
-    
-    const [minuteField, hourField, dayField, monthField, dowField] = parts;
-    
-    const minutes = parseCronField(minuteField, 0, 59);
-    const hours = parseCronField(hourField, 0, 23);
-    const days = parseCronField(dayField, 1, 31);
-    const months = parseCronField(monthField, 1, 12);
-    const daysOfWeek = parseCronField(dowField, 0, 6);
-    
-    // Search forward from current time
-    const candidate = new Date(fromDate);
-    candidate.setSeconds(0, 0);
-    candidate.setMinutes(candidate.getMinutes() + 1); // Start from next minute
-    
-    // Search up to 1 year ahead
-    const maxDate = new Date(fromDate);
-    maxDate.setFullYear(maxDate.getFullYear() + 1);
-    
-    while (candidate < maxDate) {
-      const month = candidate.getMonth() + 1;
-      const day = candidate.getDate();
-      const dow = candidate.getDay();
-      const hour = candidate.getHours();
-      const minute = candidate.getMinutes();
-      
-      if (
-        months.includes(month) &&
-        days.includes(day) &&
-        daysOfWeek.includes(dow) &&
-        hours.includes(hour) &&
-        minutes.includes(minute)
-      ) {
-        return candidate;
-      }
-      
-      // Move to next minute
-      candidate.setMinutes(candidate.getMinutes() + 1);
-    }
-    
-    return null;
-  } catch {
-    return null;
-  }
-}
-
-/**
- * Validate cron expression
- */
-export function validateCronExpression(expression: string): { valid: boolean; error?: string } {
-  const parts = expression.trim().split(/\s+/);
-  
-  if (parts.length !== 5) {
-    return { valid: false, error: 'Cron expression must have 5 fields: minute hour day month day-of-week' };
-  }
-  
-  const [minute, hour, day, month, dow] = parts;
-  
-  // Basic validation for each field
-  const fieldValidation = [
-    { field: minute, name: 'minute', min: 0, max: 59 },
-    { field: hour, name: 'hour', min: 0, max: 23 },
-    { field: day, name: 'day', min: 1, max: 31 },
-    { field: month, name: 'month', min: 1, max: 12 },
-    { field: dow, name: 'day-of-week', min: 0, max: 6 },
-  ];
-  
-  for (const { field, name, min, max } of fieldValidation) {
-    if (field === '*' || field.startsWith('*/')) continue;
-    
-    const values = field.split(',');
-    for (const value of values) {
-      if (value.includes('-')) {
-        const [start, end] = value.split('-').map(Number);
-        if (isNaN(start) || isNaN(end) || start < min || end > max || start > end) {
-          return { valid: false, error: `Invalid range in ${name}: ${value}` };
-        }
-      } else {
-        const num = parseInt(value, 10);
-        if (isNaN(num) || num < min || num > max) {
-          return { valid: false, error: `Invalid value in ${name}: ${value}` };
-        }
-      }
-    }
-  }
-  
-  return { valid: true };
-}
-
 /**
- * Get human-readable description of cron expression
+ * Map a `scheduled_syncs` row to a ScheduledJob
  */
-export function describeCron(expression: string): string {
-  const parts = expression.trim().split(/\s+/);
-  if (parts.length !== 5) return 'Invalid expression';
-  
-  const [minute, hour, day, month, dow] = parts;
-  
-  // Common patterns
-  if (minute === '0' && hour === '*' && day === '*' && month === '*' && dow === '*') {
-    return 'Every hour at minute 0';
-  }
-  if (minute === '0' && hour === '0' && day === '*' && month === '*' && dow === '*') {
-    return 'Daily at midnight';
-  }
-  if (minute === '0' && hour === '0' && day === '*' && month === '*' && dow === '0') {
-    return 'Every Sunday at midnight';
-  }
-  if (minute === '0' && hour === '0' && day === '1' && month === '*' && dow === '*') {
-    return 'First day of every month at midnight';
-  }
-  if (minute.startsWith('*/')) {
-    const interval = minute.slice(2);
-    return `Every ${interval} minutes`;
-  }
-  if (hour.startsWith('*/')) {
-    const interval = hour.slice(2);
-    return `Every ${interval} hours`;
-  }
-  
-  return `At ${minute} minutes past ${hour === '*' ? 'every hour' : `hour ${hour}`}`;
+function toScheduledJob(row: ScheduledSync): ScheduledJob {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    name: row.name,
+    sourceConnectionId: row.source_connection_id,
+    targetConnectionId: row.target_connection_id,
+    tables: (row.tables_config as ScheduledJob['tables']) || [],
+    direction: row.direction,
+    cronExpression: row.cron_expression,
+    timezone: row.timezone,
+    enabled: row.enabled,
+    lastRunAt: row.last_run_at ? new Date(row.last_run_at) : null,
+    nextRunAt: row.next_run_at ? new Date(row.next_run_at) : null,
+    lastRunStatus: row.last_run_status,
+    lastRunJobId: row.last_run_job_id,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
 }
 
 /**
  * Create a scheduled job
  */
-export function createScheduledJob(
+export async function createScheduledJob(
   userId: string,
   config: {
     name: string;
@@ -226,252 +82,99 @@ export function createScheduledJob(
     timezone?: string;
     enabled?: boolean;
   }
-): ScheduledJob {
-  const id = `schedule-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
-  const now = new Date();
-  
-  const validation = validateCronExpression(config.cronExpression);
+): Promise<ScheduledJob> {
+  const timezone = config.timezone || 'UTC';
+  const validation = validateCronExpression(config.cronExpression, timezone);
   if (!validation.valid) {
     throw new Error(validation.error);
   }
   
-  const nextRunAt = config.enabled !== false 
-    ? calculateNextRun(config.cronExpression) 
-    : null;
-  
-  const job: ScheduledJob = {
-    id,
-    userId,
+  const enabled = config.enabled !== false;
+  const row = await supabaseScheduledSyncStore.create(userId, {
     name: config.name,
     sourceConnectionId: config.sourceConnectionId,
     targetConnectionId: config.targetConnectionId,
-    tables: config.tables,
     direction: config.direction,
+    tablesConfig: config.tables,
     cronExpression: config.cronExpression,
-    timezone: config.timezone || 'UTC',
-    enabled: config.enabled !== false,
-    lastRunAt: null,
-    nextRunAt,
-    lastRunStatus: null,
-    lastRunJobId: null,
-    createdAt: now,
-    updatedAt: now,
-  };
+    timezone,
+    enabled,
+    nextRunAt: enabled ? calculateNextRun(config.cronExpression, new Date(), timezone) : null,
+  });
   
-  scheduledJobs.set(id, job);
-  
-  if (job.enabled) {
-    scheduleNextRun(job);
-  }
-  
-  return job;
-}
-
-/**
- * Schedule the next run for a job
- */
-function scheduleNextRun(job: ScheduledJob): void {
-  // Clear existing timer
-  const existingTimer = activeTimers.get(job.id);
-  if (existingTimer) {
-    clearTimeout(existingTimer);
-    activeTimers.delete(job.id);
-  }
-  
-  if (!job.enabled || !job.nextRunAt) return;
-  
-  const delay = job.nextRunAt.getTime() - Date.now();
-  if (delay < 0) {
-    // Time has passed, calculate next run
-    const nextRun = calculateNextRun(job.cronExpression);
-    if (nextRun) {
-      job.nextRunAt = nextRun;
-      scheduledJobs.set(job.id, job);
-      scheduleNextRun(job);
-    }
-    return;
-  }
-  
-  // Maximum setTimeout delay (about 24.8 days)
-  const maxDelay = 2147483647;
-  
-  if (delay > maxDelay) {
-    // Schedule a check closer to the time
-    const timer = setTimeout(() => {
-      scheduleNextRun(job);
-    }, maxDelay);
-    activeTimers.set(job.id, timer);
-  } else {
-    // Schedule the actual run
-    const timer = setTimeout(async () => {
-      await executeScheduledJob(job);
-    }, delay);
-    activeTimers.set(job.id, timer);
-  }
-}
-
-/**
- * Execute a scheduled job
- */
-async function executeScheduledJob(job: ScheduledJob): Promise<void> {
-  if (!onScheduledJobRun) {
-    logger.error('No scheduled job handler registered');
-    return;
-  }
-  
-  // Update job status
-  job.lastRunAt = new Date();
-  job.lastRunStatus = 'running';
-  scheduledJobs.set(job.id, job);
-  
-  try {
-    await onScheduledJobRun(job);
-    job.lastRunStatus = 'success';
-  } catch (error) {
-    logger.error('Scheduled job failed', { jobId: job.id, error });
-    job.lastRunStatus = 'failed';
-  }
-  
-  // Calculate next run
-  job.nextRunAt = calculateNextRun(job.cronExpression);
-  job.updatedAt = new Date();
-  scheduledJobs.set(job.id, job);
-  
-  // Schedule next run
-  if (job.enabled) {
-    scheduleNextRun(job);
-  }
-}
-
-/**
- * Register handler for scheduled job execution
- */
-export function registerScheduledJobHandler(
-  handler: (job: ScheduledJob) => Promise<void>
-): void {
-  onScheduledJobRun = handler;
+  return toScheduledJob(row);
 }
 
 /**
  * Get all scheduled jobs for a user
  */
-export function getScheduledJobs(userId: string): ScheduledJob[] {
-  return Array.from(scheduledJobs.values())
-    .filter(job => job.userId === userId)
-    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+export async function getScheduledJobs(userId: string): Promise<ScheduledJob[]> {
+  const rows = await supabaseScheduledSyncStore.getAll(userId);
+  return rows.map(toScheduledJob);
 }
 
 /**
  * Get a scheduled job by ID
  */
-export function getScheduledJob(id: string, userId: string): ScheduledJob | undefined {
-  const job = scheduledJobs.get(id);
-  if (job && job.userId === userId) {
-    return job;
-  }
-  return undefined;
+export async function getScheduledJob(id: string, userId: string): Promise<ScheduledJob | undefined> {
+  const row = await supabaseScheduledSyncStore.getById(id, userId);
+  return row ? toScheduledJob(row) : undefined;
 }
 
 /**
  * Update a scheduled job
  */
-export function updateScheduledJob(
+export async function updateScheduledJob(
   id: string,
   userId: string,
   updates: Partial<Pick<ScheduledJob, 'name' | 'cronExpression' | 'timezone' | 'enabled' | 'tables'>>
-): ScheduledJob | null {
-  const job = scheduledJobs.get(id);
-  if (!job || job.userId !== userId) return null;
+): Promise<ScheduledJob | null> {
+  const job = await getScheduledJob(id, userId);
+  if (!job) return null;
   
-  if (updates.cronExpression) {
-    const validation = validateCronExpression(updates.cronExpression);
+  const cronExpression = updates.cronExpression || job.cronExpression;
+  const timezone = updates.timezone || job.timezone;
+  const enabled = updates.enabled ?? job.enabled;
+  
+  if (updates.cronExpression || updates.timezone) {
+    const validation = validateCronExpression(cronExpression, timezone);
     if (!validation.valid) {
       throw new Error(validation.error);
     }
   }
   
-  const updatedJob: ScheduledJob = {
-    ...job,
-    ...updates,
-    updatedAt: new Date(),
-  };
-  
-  // Recalculate next run if cron or enabled changed
-  if (updates.cronExpression || updates.enabled !== undefined) {
-    updatedJob.nextRunAt = updatedJob.enabled 
-      ? calculateNextRun(updatedJob.cronExpression) 
-      : null;
-  }
-  
-  scheduledJobs.set(id, updatedJob);
+  // Recalculate next run if cron, timezone or enabled changed
+  const scheduleChanged =
+    updates.cronExpression !== undefined || updates.timezone !== undefined || updates.enabled !== undefined;
   
-  // Reschedule
-  if (updatedJob.enabled) {
-    scheduleNextRun(updatedJob);
-  } else {
-    const timer = activeTimers.get(id);
-    if (timer) {
-      clearTimeout(timer);
-      activeTimers.delete(id);
-    }
-  }
+  const row = await supabaseScheduledSyncStore.update(id, userId, {
+    name: updates.name,
+    tablesConfig: updates.tables,
+    cronExpression: updates.cronExpression,
+    timezone: updates.timezone,
+    enabled: updates.enabled,
+    ...(scheduleChanged && { nextRunAt: enabled ? calculateNextRun(cronExpression, new Date(), timezone) : null }),
+  });
   
-  return updatedJob;
+  return row ? toScheduledJob(row) : null;
 }
 
 /**
  * Delete a scheduled job
  */
-export function deleteScheduledJob(id: string, userId: string): boolean {
-  const job = scheduledJobs.get(id);
-  if (!job || job.userId !== userId) return false;
-  
-  // Clear timer
-  const timer = activeTimers.get(id);
-  if (timer) {
-    clearTimeout(timer);
-    activeTimers.delete(id);
-  }
-  
-  return scheduledJobs.delete(id);
+export async function deleteScheduledJob(id: string, userId: string): Promise<boolean> {
+  return supabaseScheduledSyncStore.delete(id, userId);
 }
 
 /**
- * Trigger a scheduled job immediately
+ * Trigger a scheduled job immediately.
+ * Marks the schedule as due; the backend scheduler starts it on its next poll
+ * and then resumes the regular cron cadence.
  */
 export async function triggerScheduledJob(id: string, userId: string): Promise<boolean> {
-  const job = scheduledJobs.get(id);
-  if (!job || job.userId !== userId) return false;
+  const job = await getScheduledJob(id, userId);
+  if (!job || !job.enabled) return false;
   
-  await executeScheduledJob(job);
-  return true;
-}
-
-/**
- * Get system stats
- */
-export function getSchedulerStats() {
-  const jobs = Array.from(scheduledJobs.values());
-  return {
-    total: jobs.length,
-    enabled: jobs.filter(j => j.enabled).length,
-    disabled: jobs.filter(j => !j.enabled).length,
-    running: jobs.filter(j => j.lastRunStatus === 'running').length,
-  };
+  const row = await supabaseScheduledSyncStore.update(id, userId, { nextRunAt: new Date() });
+  return row !== null;
 }
-
-// Common cron presets
-export const CRON_PRESETS = {
-  everyMinute: '* * * * *',
-  every5Minutes: '*/5 * * * *',
-  every15Minutes: '*/15 * * * *',
-  every30Minutes: '*/30 * * * *',
-  everyHour: '0 * * * *',
-  every6Hours: '0 */6 * * *',
-  every12Hours: '0 */12 * * *',
-  daily: '0 0 * * *',
-  dailyAt9AM: '0 9 * * *',
-  weekly: '0 0 * * 0',
-  monthly: '0 0 1 * *',
-};
-
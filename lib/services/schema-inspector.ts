@@ -2,7 +2,9 @@
  * Schema Inspector Service
  * 
  * Provides comprehensive schema inspection for PostgreSQL databases.
- * Extracts columns, primary keys, foreign keys, constraints, and indexes.
+ * Extracts columns, primary keys, foreign keys, constraints, and indexes,
+ * plus the objects around the tables: views, functions, triggers, sequences,
+ * extensions and row-level security policies.
  * 
  * OPTIMIZED: Uses bulk queries to fetch all schema info in ~6 queries total
  * instead of 6 queries per table (e.g., 252 queries → 6 queries for 42 tables)
@@ -17,14 +19,28 @@ import type {
   DetailedTableSchema,
   DatabaseSchema,
   EnumType,
+  ViewDefinition,
+  FunctionDefinition,
+  TriggerDefinition,
+  SequenceDefinition,
+  ExtensionDefinition,
+  RlsPolicy,
 } from '@/types';
 import { logger } from '@/lib/services/logger';
+import { DEFAULT_SCHEMA, parseQualifiedTableName, qualifyTableName } from './security-utils';
+import { sortViewsByDependency } from './schema-objects';
 
 /**
  * Inspect the full schema of a database - OPTIMIZED VERSION
  * Uses bulk queries to fetch all data at once instead of per-table queries
+ *
+ * @param schemas - Schemas to inspect. Tables outside `public` are keyed as
+ *   `schema.table`.
  */
-export async function inspectDatabaseSchema(databaseUrl: string): Promise<DatabaseSchema> {
+export async function inspectDatabaseSchema(
+  databaseUrl: string,
+  schemas: string[] = [DEFAULT_SCHEMA]
+): Promise<DatabaseSchema> {
   let connection: DrizzleConnection | null = null;
   
   try {
@@ -44,16 +60,28 @@ export async function inspectDatabaseSchema(databaseUrl: string): Promise<Databa
       allConstraints,
       allIndexes,
       allStats,
+      views,
+      functions,
+      triggers,
+      sequences,
+      extensions,
+      policies,
     ] = await Promise.all([
       connection.client`SELECT version()`,
-      getEnumTypes(connection),
-      getTableNames(connection),
-      getAllColumns(connection),
-      getAllPrimaryKeys(connection),
-      getAllForeignKeys(connection),
-      getAllConstraints(connection),
-      getAllIndexes(connection),
-      getAllTableStats(connection),
+      getEnumTypes(connection, schemas),
+      getTableNames(connection, schemas),
+      getAllColumns(connection, schemas),
+      getAllPrimaryKeys(connection, schemas),
+      getAllForeignKeys(connection, schemas),
+      getAllConstraints(connection, schemas),
+      getAllIndexes(connection, schemas),
+      getAllTableStats(connection, schemas),
+      getViews(connection, schemas),
+      getFunctions(connection, schemas),
+      getTriggers(connection, schemas),
+      getSequences(connection, schemas),
+      getExtensions(connection),
+      getPolicies(connection, schemas),
     ]);
     
     const version = (versionResult[0]?.version as string) || 'Unknown';
@@ -62,12 +90,12 @@ export async function inspectDatabaseSchema(databaseUrl: string): Promise<Databa
     logger.info('Schema Inspector: Processing tables', { tableCount: tableNames.length });
     
     // Build lookup maps for O(1) access
-    const columnsMap = groupByTable(allColumns, 'table_name');
-    const pkMap = groupByTable(allPrimaryKeys, 'table_name');
-    const fkMap = groupByTable(allForeignKeys, 'table_name');
-    const constraintsMap = groupByTable(allConstraints, 'table_name');
-    const indexesMap = groupByTable(allIndexes, 'table_name');
-    const statsMap = new Map(allStats.map(s => [s.table_name as string, s]));
+    const columnsMap = groupByTable(allColumns);
+    const pkMap = groupByTable(allPrimaryKeys);
+    const fkMap = groupByTable(allForeignKeys);
+    const constraintsMap = groupByTable(allConstraints);
+    const indexesMap = groupByTable(allIndexes);
+    const statsMap = new Map(allStats.map(s => [tableKey(s), s]));
     
     // Assemble tables from pre-fetched data (no more DB queries!)
     const tables: DetailedTableSchema[] = [];
@@ -91,6 +119,7 @@ export async function inspectDatabaseSchema(databaseUrl: string): Promise<Databa
       
       const tableSchema: DetailedTableSchema = {
         tableName,
+        schemaName: parseQualifiedTableName(tableName).schema,
         columns,
         primaryKey,
         foreignKeys,
@@ -98,6 +127,8 @@ export async function inspectDatabaseSchema(databaseUrl: string): Promise<Databa
         indexes,
         rowCount: parseInt(stats?.estimated_rows as string || '0', 10),
         estimatedSize: (stats?.size as string) || 'Unknown',
+        rlsEnabled: safeBoolean(stats?.rls_enabled),
+        rlsForced: safeBoolean(stats?.rls_forced),
       };
       
       tables.push(tableSchema);
@@ -122,6 +153,12 @@ export async function inspectDatabaseSchema(databaseUrl: string): Promise<Databa
     return {
       tables,
       enums,
+      views,
+      functions,
+      triggers,
+      sequences,
+      extensions,
+      policies,
       syncableTables,
       version,
       inspectedAt: new Date(),
@@ -141,30 +178,32 @@ export async function inspectDatabaseSchema(databaseUrl: string): Promise<Databa
 /**
  * Get all table names in one query
  */
-async function getTableNames(connection: DrizzleConnection): Promise<string[]> {
+async function getTableNames(connection: DrizzleConnection, schemas: string[]): Promise<string[]> {
   const result = await connection.client`
-    SELECT table_name
+    SELECT table_schema, table_name
     FROM information_schema.tables
-    WHERE table_schema = 'public'
+    WHERE table_schema = ANY(${connection.client.array(schemas)})
       AND table_type = 'BASE TABLE'
       AND table_name NOT LIKE 'pg_%'
       AND table_name NOT LIKE '_prisma_%'
       AND table_name NOT LIKE 'drizzle_%'
-    ORDER BY table_name
+    ORDER BY table_schema, table_name
   `;
-  return result.map((row) => row.table_name as string);
+  return result.map(tableKey);
 }
 
 /**
  * Get ALL columns for ALL tables in one query
  */
-async function getAllColumns(connection: DrizzleConnection): Promise<Record<string, unknown>[]> {
+async function getAllColumns(connection: DrizzleConnection, schemas: string[]): Promise<Record<string, unknown>[]> {
   return connection.client`
     SELECT 
+      c.table_schema,
       c.table_name,
       c.column_name,
       c.data_type,
       c.udt_name,
+      c.udt_schema,
       c.is_nullable = 'YES' as is_nullable,
       c.column_default,
       c.character_maximum_length,
@@ -173,21 +212,22 @@ async function getAllColumns(connection: DrizzleConnection): Promise<Record<stri
     FROM information_schema.columns c
     JOIN information_schema.tables t 
       ON c.table_name = t.table_name AND c.table_schema = t.table_schema
-    WHERE c.table_schema = 'public'
+    WHERE c.table_schema = ANY(${connection.client.array(schemas)})
       AND t.table_type = 'BASE TABLE'
       AND c.table_name NOT LIKE 'pg_%'
       AND c.table_name NOT LIKE '_prisma_%'
       AND c.table_name NOT LIKE 'drizzle_%'
-    ORDER BY c.table_name, c.ordinal_position
+    ORDER BY c.table_schema, c.table_name, c.ordinal_position
   `;
 }
 
 /**
  * Get ALL primary keys for ALL tables in one query
  */
-async function getAllPrimaryKeys(connection: DrizzleConnection): Promise<Record<string, unknown>[]> {
+async function getAllPrimaryKeys(connection: DrizzleConnection, schemas: string[]): Promise<Record<string, unknown>[]> {
   return connection.client`
     SELECT 
+      tc.table_schema,
       tc.table_name,
       tc.constraint_name,
       kcu.column_name,
@@ -197,23 +237,25 @@ async function getAllPrimaryKeys(connection: DrizzleConnection): Promise<Record<
       ON tc.constraint_name = kcu.constraint_name
       AND tc.table_schema = kcu.table_schema
     WHERE tc.constraint_type = 'PRIMARY KEY'
-      AND tc.table_schema = 'public'
+      AND tc.table_schema = ANY(${connection.client.array(schemas)})
       AND tc.table_name NOT LIKE 'pg_%'
       AND tc.table_name NOT LIKE '_prisma_%'
       AND tc.table_name NOT LIKE 'drizzle_%'
-    ORDER BY tc.table_name, kcu.ordinal_position
+    ORDER BY tc.table_schema, tc.table_name, kcu.ordinal_position
   `;
 }
 
 /**
  * Get ALL foreign keys for ALL tables in one query
  */
-async function getAllForeignKeys(connection: DrizzleConnection): Promise<Record<string, unknown>[]> {
+async function getAllForeignKeys(connection: DrizzleConnection, schemas: string[]): Promise<Record<string, unknown>[]> {
   return connection.client`
     SELECT
+      tc.table_schema,
       tc.table_name,
       tc.constraint_name,
       kcu.column_name,
+      ccu.table_schema AS referenced_schema,
       ccu.table_name AS referenced_table,
       ccu.column_name AS referenced_column,
       rc.delete_rule,
@@ -224,12 +266,12 @@ async function getAllForeignKeys(connection: DrizzleConnection): Promise<Record<
       AND tc.table_schema = kcu.table_schema
     JOIN information_schema.constraint_column_usage ccu
       ON ccu.constraint_name = tc.constraint_name
-      AND ccu.table_schema = tc.table_schema
+      AND ccu.constraint_schema = tc.table_schema
     JOIN information_schema.referential_constraints rc
       ON rc.constraint_name = tc.constraint_name
       AND rc.constraint_schema = tc.table_schema
     WHERE tc.constraint_type = 'FOREIGN KEY'
-      AND tc.table_schema = 'public'
+      AND tc.table_schema = ANY(${connection.client.array(schemas)})
       AND tc.table_name NOT LIKE 'pg_%'
       AND tc.table_name NOT LIKE '_prisma_%'
       AND tc.table_name NOT LIKE 'drizzle_%'
@@ -239,9 +281,10 @@ async function getAllForeignKeys(connection: DrizzleConnection): Promise<Record<
 /**
  * Get ALL constraints for ALL tables in one query
  */
-async function getAllConstraints(connection: DrizzleConnection): Promise<Record<string, unknown>[]> {
+async function getAllConstraints(connection: DrizzleConnection, schemas: string[]): Promise<Record<string, unknown>[]> {
   return connection.client`
     SELECT
+      tc.table_schema,
       tc.table_name,
       tc.constraint_name,
       tc.constraint_type,
@@ -253,20 +296,22 @@ async function getAllConstraints(connection: DrizzleConnection): Promise<Record<
       AND tc.table_schema = kcu.table_schema
     LEFT JOIN pg_constraint pgc
       ON pgc.conname = tc.constraint_name
-    WHERE tc.table_schema = 'public'
+      AND pgc.connamespace = to_regnamespace(tc.table_schema)
+    WHERE tc.table_schema = ANY(${connection.client.array(schemas)})
       AND tc.table_name NOT LIKE 'pg_%'
       AND tc.table_name NOT LIKE '_prisma_%'
       AND tc.table_name NOT LIKE 'drizzle_%'
-    GROUP BY tc.table_name, tc.constraint_name, tc.constraint_type, pgc.oid
+    GROUP BY tc.table_schema, tc.table_name, tc.constraint_name, tc.constraint_type, pgc.oid
   `;
 }
 
 /**
  * Get ALL indexes for ALL tables in one query
  */
-async function getAllIndexes(connection: DrizzleConnection): Promise<Record<string, unknown>[]> {
+async function getAllIndexes(connection: DrizzleConnection, schemas: string[]): Promise<Record<string, unknown>[]> {
   return connection.client`
     SELECT
+      n.nspname as table_schema,
       t.relname as table_name,
       i.relname as index_name,
       array_agg(a.attname ORDER BY array_position(ix.indkey, a.attnum)) as columns,
@@ -279,27 +324,30 @@ async function getAllIndexes(connection: DrizzleConnection): Promise<Record<stri
     JOIN pg_am am ON i.relam = am.oid
     JOIN pg_attribute a ON a.attrelid = t.oid AND a.attnum = ANY(ix.indkey)
     JOIN pg_namespace n ON t.relnamespace = n.oid
-    WHERE n.nspname = 'public'
+    WHERE n.nspname = ANY(${connection.client.array(schemas)})
       AND t.relkind = 'r'
       AND t.relname NOT LIKE 'pg_%'
       AND t.relname NOT LIKE '_prisma_%'
       AND t.relname NOT LIKE 'drizzle_%'
-    GROUP BY t.relname, i.relname, ix.indisunique, ix.indisprimary, am.amname
+    GROUP BY n.nspname, t.relname, i.relname, ix.indisunique, ix.indisprimary, am.amname
   `;
 }
 
 /**
  * Get ALL table stats in one query (uses pg_class for speed, no COUNT(*))
  */
-async function getAllTableStats(connection: DrizzleConnection): Promise<Record<string, unknown>[]> {
+async function getAllTableStats(connection: DrizzleConnection, schemas: string[]): Promise<Record<string, unknown>[]> {
   return connection.client`
     SELECT 
+      n.nspname as table_schema,
       c.relname as table_name,
       COALESCE(c.reltuples, 0)::bigint as estimated_rows,
-      pg_size_pretty(pg_total_relation_size(c.oid)) as size
+      pg_size_pretty(pg_total_relation_size(c.oid)) as size,
+      c.relrowsecurity as rls_enabled,
+      c.relforcerowsecurity as rls_forced
     FROM pg_class c
     JOIN pg_namespace n ON n.oid = c.relnamespace
-    WHERE n.nspname = 'public'
+    WHERE n.nspname = ANY(${connection.client.array(schemas)})
       AND c.relkind = 'r'
       AND c.relname NOT LIKE 'pg_%'
       AND c.relname NOT LIKE '_prisma_%'
@@ -312,12 +360,19 @@ async function getAllTableStats(connection: DrizzleConnection): Promise<Record<s
 // ============================================================================
 
 /**
- * Group rows by table name for O(1) lookup
+ * App table key (see qualifyTableName) for a row with table_schema/table_name
+ */
+function tableKey(row: Record<string, unknown>): string {
+  return qualifyTableName(safeString(row.table_schema, DEFAULT_SCHEMA), safeString(row.table_name));
+}
+
+/**
+ * Group rows by qualified table name for O(1) lookup
  */
-function groupByTable(rows: Record<string, unknown>[], tableKey: string): Map<string, Record<string, unknown>[]> {
+function groupByTable(rows: Record<string, unknown>[]): Map<string, Record<string, unknown>[]> {
   const map = new Map<string, Record<string, unknown>[]>();
   for (const row of rows) {
-    const tableName = row[tableKey] as string;
+    const tableName = tableKey(row);
     if (!map.has(tableName)) {
       map.set(tableName, []);
     }
@@ -334,6 +389,7 @@ function buildColumns(rows: Record<string, unknown>[]): DetailedColumn[] {
     name: safeString(row.column_name),
     dataType: safeString(row.data_type),
     udtName: safeString(row.udt_name),
+    udtSchema: safeString(row.udt_schema, DEFAULT_SCHEMA),
     isNullable: safeBoolean(row.is_nullable) || row.is_nullable === 'YES',
     defaultValue: row.column_default != null ? safeString(row.column_default) : null,
     isPrimaryKey: false,
@@ -363,7 +419,10 @@ function buildForeignKeys(rows: Record<string, unknown>[]): ForeignKey[] {
   return rows.map((row) => ({
     constraintName: safeString(row.constraint_name),
     columnName: safeString(row.column_name),
-    referencedTable: safeString(row.referenced_table),
+    referencedTable: qualifyTableName(
+      safeString(row.referenced_schema, DEFAULT_SCHEMA),
+      safeString(row.referenced_table)
+    ),
     referencedColumn: safeString(row.referenced_column),
     onDelete: row.delete_rule as string,
     onUpdate: safeString(row.update_rule),
@@ -398,7 +457,7 @@ function buildIndexes(rows: Record<string, unknown>[]): TableIndex[] {
 /**
  * Get all ENUM types from the database
  */
-async function getEnumTypes(connection: DrizzleConnection): Promise<EnumType[]> {
+async function getEnumTypes(connection: DrizzleConnection, schemas: string[]): Promise<EnumType[]> {
   const result = await connection.client`
     SELECT 
       t.typname as enum_name,
@@ -407,9 +466,9 @@ async function getEnumTypes(connection: DrizzleConnection): Promise<EnumType[]>
     FROM pg_type t
     JOIN pg_enum e ON t.oid = e.enumtypid
     JOIN pg_namespace n ON t.typnamespace = n.oid
-    WHERE n.nspname = 'public'
+    WHERE n.nspname = ANY(${connection.client.array(schemas)})
     GROUP BY t.typname, n.nspname
-    ORDER BY t.typname
+    ORDER BY n.nspname, t.typname
   `;
   
   return result.map((row) => ({
@@ -419,6 +478,221 @@ async function getEnumTypes(connection: DrizzleConnection): Promise<EnumType[]>
   })).filter(e => e.name); // Filter out invalid entries
 }
 
+// ============================================================================
+// DATABASE OBJECTS - Views, functions, triggers, sequences, extensions, RLS
+// ============================================================================
+// Objects that belong to an extension are skipped: CREATE EXTENSION brings
+// them along.
+
+/**
+ * Get all views and materialized views with the relations they select from,
+ * sorted so a view is listed after the views it depends on
+ */
+async function getViews(connection: DrizzleConnection, schemas: string[]): Promise<ViewDefinition[]> {
+  const result = await connection.client`
+    SELECT 
+      n.nspname as schema_name,
+      c.relname as view_name,
+      c.relkind = 'm' as is_materialized,
+      pg_get_viewdef(c.oid, true) as definition,
+      COALESCE((
+        SELECT json_agg(DISTINCT jsonb_build_object('table_schema', dn.nspname, 'table_name', dc.relname))
+        FROM pg_rewrite r
+        JOIN pg_depend d ON d.classid = 'pg_rewrite'::regclass AND d.objid = r.oid
+        JOIN pg_class dc ON dc.oid = d.refobjid
+        JOIN pg_namespace dn ON dn.oid = dc.relnamespace
+        WHERE r.ev_class = c.oid
+          AND d.refclassid = 'pg_class'::regclass
+          AND d.refobjid <> c.oid
+          AND dc.relkind IN ('r', 'p', 'f', 'v', 'm')
+      ), '[]'::json) as depends_on
+    FROM pg_class c
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE n.nspname = ANY(${connection.client.array(schemas)})
+      AND c.relkind IN ('v', 'm')
+      AND NOT EXISTS (
+        SELECT 1 FROM pg_depend d
+        WHERE d.classid = 'pg_class'::regclass AND d.objid = c.oid AND d.deptype = 'e'
+      )
+    ORDER BY c.oid
+  `;
+  
+  return sortViewsByDependency(result.map((row) => ({
+    schema: safeString(row.schema_name),
+    name: safeString(row.view_name),
+    isMaterialized: safeBoolean(row.is_materialized),
+    definition: safeString(row.definition).trim(),
+    dependsOn: (Array.isArray(row.depends_on) ? row.depends_on : []).map(tableKey),
+  })));
+}
+
+/**
+ * Get all functions and procedures with their full definitions
+ */
+async function getFunctions(connection: DrizzleConnection, schemas: string[]): Promise<FunctionDefinition[]> {
+  const result = await connection.client`
+    SELECT 
+      n.nspname as schema_name,
+      p.proname as function_name,
+      pg_get_function_identity_arguments(p.oid) as identity_arguments,
+      p.prokind as kind,
+      l.lanname as language,
+      pg_get_functiondef(p.oid) as definition
+    FROM pg_proc p
+    JOIN pg_namespace n ON n.oid = p.pronamespace
+    JOIN pg_language l ON l.oid = p.prolang
+    WHERE n.nspname = ANY(${connection.client.array(schemas)})
+      AND p.prokind IN ('f', 'p')
+      AND NOT EXISTS (
+        SELECT 1 FROM pg_depend d
+        WHERE d.classid = 'pg_proc'::regclass AND d.objid = p.oid AND d.deptype = 'e'
+      )
+    ORDER BY p.oid
+  `;
+  
+  return result.map((row) => ({
+    schema: safeString(row.schema_name),
+    name: safeString(row.function_name),
+    identityArguments: safeString(row.identity_arguments),
+    kind: row.kind === 'p' ? 'procedure' as const : 'function' as const,
+    language: safeString(row.language),
+    definition: safeString(row.definition).trim(),
+  }));
+}
+
+/**
+ * Get all user-defined triggers (not the internal ones behind foreign keys)
+ */
+async function getTriggers(connection: DrizzleConnection, schemas: string[]): Promise<TriggerDefinition[]> {
+  const result = await connection.client`
+    SELECT 
+      n.nspname as table_schema,
+      c.relname as table_name,
+      t.tgname as trigger_name,
+      t.tgenabled <> 'D' as is_enabled,
+      pg_get_triggerdef(t.oid) as definition,
+      pn.nspname as function_schema,
+      p.proname as function_name
+    FROM pg_trigger t
+    JOIN pg_class c ON c.oid = t.tgrelid
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    JOIN pg_proc p ON p.oid = t.tgfoid
+    JOIN pg_namespace pn ON pn.oid = p.pronamespace
+    WHERE n.nspname = ANY(${connection.client.array(schemas)})
+      AND NOT t.tgisinternal
+    ORDER BY n.nspname, c.relname, t.tgname
+  `;
+  
+  return result.map((row) => ({
+    tableName: tableKey(row),
+    name: safeString(row.trigger_name),
+    isEnabled: safeBoolean(row.is_enabled, true),
+    definition: safeString(row.definition),
+    functionName: qualifyTableName(safeString(row.function_schema), safeString(row.function_name)),
+  }));
+}
+
+/**
+ * Get all sequences with their current values and owning columns
+ */
+async function getSequences(connection: DrizzleConnection, schemas: string[]): Promise<SequenceDefinition[]> {
+  const result = await connection.client`
+    SELECT 
+      s.schemaname as schema_name,
+      s.sequencename as sequence_name,
+      s.data_type::text as data_type,
+      s.start_value::text as start_value,
+      s.increment_by::text as increment_by,
+      s.min_value::text as min_value,
+      s.max_value::text as max_value,
+      s.cycle,
+      s.last_value::text as last_value,
+      d.deptype as owner_dependency,
+      tn.nspname as table_schema,
+      tc.relname as table_name,
+      a.attname as column_name
+    FROM pg_sequences s
+    JOIN pg_namespace n ON n.nspname = s.schemaname
+    JOIN pg_class c ON c.relnamespace = n.oid AND c.relname = s.sequencename
+    LEFT JOIN pg_depend d
+      ON d.classid = 'pg_class'::regclass
+      AND d.objid = c.oid
+      AND d.refclassid = 'pg_class'::regclass
+      AND d.deptype IN ('a', 'i')
+    LEFT JOIN pg_class tc ON tc.oid = d.refobjid
+    LEFT JOIN pg_namespace tn ON tn.oid = tc.relnamespace
+    LEFT JOIN pg_attribute a ON a.attrelid = d.refobjid AND a.attnum = d.refobjsubid
+    WHERE s.schemaname = ANY(${connection.client.array(schemas)})
+    ORDER BY s.schemaname, s.sequencename
+  `;
+  
+  return result.map((row) => ({
+    schema: safeString(row.schema_name),
+    name: safeString(row.sequence_name),
+    dataType: safeString(row.data_type, 'bigint'),
+    startValue: safeString(row.start_value, '1'),
+    increment: safeString(row.increment_by, '1'),
+    minValue: safeString(row.min_value),
+    maxValue: safeString(row.max_value),
+    cycle: safeBoolean(row.cycle),
+    lastValue: row.last_value === null || row.last_value === undefined ? null : safeString(row.last_value),
+    ownedBy: row.table_name && row.column_name ? `${tableKey(row)}.${safeString(row.column_name)}` : null,
+    isIdentity: row.owner_dependency === 'i',
+  }));
+}
+
+/**
+ * Get installed extensions (database-wide; plpgsql is always installed)
+ */
+async function getExtensions(connection: DrizzleConnection): Promise<ExtensionDefinition[]> {
+  const result = await connection.client`
+    SELECT 
+      e.extname as extension_name,
+      n.nspname as schema_name,
+      e.extversion as version
+    FROM pg_extension e
+    JOIN pg_namespace n ON n.oid = e.extnamespace
+    WHERE e.extname <> 'plpgsql'
+    ORDER BY e.extname
+  `;
+  
+  return result.map((row) => ({
+    name: safeString(row.extension_name),
+    schema: safeString(row.schema_name, DEFAULT_SCHEMA),
+    version: safeString(row.version),
+  }));
+}
+
+/**
+ * Get all row-level security policies
+ */
+async function getPolicies(connection: DrizzleConnection, schemas: string[]): Promise<RlsPolicy[]> {
+  const result = await connection.client`
+    SELECT 
+      schemaname as table_schema,
+      tablename as table_name,
+      policyname as policy_name,
+      permissive,
+      roles,
+      cmd,
+      qual,
+      with_check
+    FROM pg_policies
+    WHERE schemaname = ANY(${connection.client.array(schemas)})
+    ORDER BY schemaname, tablename, policyname
+  `;
+  
+  return result.map((row) => ({
+    tableName: tableKey(row),
+    name: safeString(row.policy_name),
+    permissive: safeString(row.permissive, 'PERMISSIVE') === 'PERMISSIVE',
+    command: safeString(row.cmd, 'ALL').toUpperCase() as RlsPolicy['command'],
+    roles: parsePostgresArray(row.roles),
+    using: row.qual === null || row.qual === undefined ? null : safeString(row.qual),
+    withCheck: row.with_check === null || row.with_check === undefined ? null : safeString(row.with_check),
+  }));
+}
+
 /**
  * Parse PostgreSQL array to JavaScript array
  * Handles both native arrays and string representations like {val1,val2}
@@ -526,6 +800,7 @@ function safeNumber(value: unknown, fallback: number = 0): number {
 
 /**
  * Inspect a single table's full schema
+ * Accepts bare (`public`) or schema-qualified (`schema.table`) names
  */
 export async function inspectTable(
   connection: DrizzleConnection,
@@ -558,6 +833,7 @@ export async function inspectTable(
   
   return {
     tableName,
+    schemaName: parseQualifiedTableName(tableName).schema,
     columns,
     primaryKey,
     foreignKeys,
@@ -575,19 +851,21 @@ async function getDetailedColumns(
   connection: DrizzleConnection,
   tableName: string
 ): Promise<DetailedColumn[]> {
+  const { schema, table } = parseQualifiedTableName(tableName);
   const result = await connection.client`
     SELECT 
       c.column_name,
       c.data_type,
       c.udt_name,
+      c.udt_schema,
       c.is_nullable = 'YES' as is_nullable,
       c.column_default,
       c.character_maximum_length,
       c.numeric_precision,
       c.ordinal_position
     FROM information_schema.columns c
-    WHERE c.table_schema = 'public'
-      AND c.table_name = ${tableName}
+    WHERE c.table_schema = ${schema}
+      AND c.table_name = ${table}
     ORDER BY c.ordinal_position
   `;
   
@@ -595,6 +873,7 @@ async function getDetailedColumns(
     name: safeString(row.column_name),
     dataType: safeString(row.data_type),
     udtName: safeString(row.udt_name),
+    udtSchema: safeString(row.udt_schema, DEFAULT_SCHEMA),
     isNullable: safeBoolean(row.is_nullable),
     defaultValue: row.column_default != null ? safeString(row.column_default) : null,
     isPrimaryKey: false, // Will be set later
@@ -611,6 +890,7 @@ async function getPrimaryKey(
   connection: DrizzleConnection,
   tableName: string
 ): Promise<{ columns: string[]; constraintName: string } | null> {
+  const { schema, table } = parseQualifiedTableName(tableName);
   const result = await connection.client`
     SELECT 
       tc.constraint_name,
@@ -620,8 +900,8 @@ async function getPrimaryKey(
       ON tc.constraint_name = kcu.constraint_name
       AND tc.table_schema = kcu.table_schema
     WHERE tc.constraint_type = 'PRIMARY KEY'
-      AND tc.table_schema = 'public'
-      AND tc.table_name = ${tableName}
+      AND tc.table_schema = ${schema}
+      AND tc.table_name = ${table}
     ORDER BY kcu.ordinal_position
   `;
   
@@ -645,10 +925,12 @@ async function getForeignKeys(
   connection: DrizzleConnection,
   tableName: string
 ): Promise<ForeignKey[]> {
+  const { schema, table } = parseQualifiedTableName(tableName);
   const result = await connection.client`
     SELECT
       tc.constraint_name,
       kcu.column_name,
+      ccu.table_schema AS referenced_schema,
       ccu.table_name AS referenced_table,
       ccu.column_name AS referenced_column,
       rc.delete_rule,
@@ -659,19 +941,22 @@ async function getForeignKeys(
       AND tc.table_schema = kcu.table_schema
     JOIN information_schema.constraint_column_usage ccu
       ON ccu.constraint_name = tc.constraint_name
-      AND ccu.table_schema = tc.table_schema
+      AND ccu.constraint_schema = tc.table_schema
     JOIN information_schema.referential_constraints rc
       ON rc.constraint_name = tc.constraint_name
       AND rc.constraint_schema = tc.table_schema
     WHERE tc.constraint_type = 'FOREIGN KEY'
-      AND tc.table_schema = 'public'
-      AND tc.table_name = ${tableName}
+      AND tc.table_schema = ${schema}
+      AND tc.table_name = ${table}
   `;
   
   return result.map((row) => ({
     constraintName: safeString(row.constraint_name),
     columnName: safeString(row.column_name),
-    referencedTable: safeString(row.referenced_table),
+    referencedTable: qualifyTableName(
+      safeString(row.referenced_schema, DEFAULT_SCHEMA),
+      safeString(row.referenced_table)
+    ),
     referencedColumn: safeString(row.referenced_column),
     onDelete: safeString(row.delete_rule),
     onUpdate: safeString(row.update_rule),
@@ -685,6 +970,7 @@ async function getConstraints(
   connection: DrizzleConnection,
   tableName: string
 ): Promise<TableConstraint[]> {
+  const { schema, table } = parseQualifiedTableName(tableName);
   const result = await connection.client`
     SELECT
       tc.constraint_name,
@@ -697,8 +983,9 @@ async function getConstraints(
       AND tc.table_schema = kcu.table_schema
     LEFT JOIN pg_constraint pgc
       ON pgc.conname = tc.constraint_name
-    WHERE tc.table_schema = 'public'
-      AND tc.table_name = ${tableName}
+      AND pgc.connamespace = to_regnamespace(tc.table_schema)
+    WHERE tc.table_schema = ${schema}
+      AND tc.table_name = ${table}
     GROUP BY tc.constraint_name, tc.constraint_type, pgc.oid
   `;
   
@@ -717,6 +1004,7 @@ async function getIndexes(
   connection: DrizzleConnection,
   tableName: string
 ): Promise<TableIndex[]> {
+  const { schema, table } = parseQualifiedTableName(tableName);
   const result = await connection.client`
     SELECT
       i.relname as index_name,
@@ -730,8 +1018,8 @@ async function getIndexes(
     JOIN pg_am am ON i.relam = am.oid
     JOIN pg_attribute a ON a.attrelid = t.oid AND a.attnum = ANY(ix.indkey)
     JOIN pg_namespace n ON t.relnamespace = n.oid
-    WHERE n.nspname = 'public'
-      AND t.relname = ${tableName}
+    WHERE n.nspname = ${schema}
+      AND t.relname = ${table}
     GROUP BY i.relname, ix.indisunique, ix.indisprimary, am.amname
   `;
   
@@ -754,14 +1042,15 @@ async function getTableStats(
   try {
     // Use PostgreSQL's estimated row count from pg_class (FAST - uses statistics)
     // This avoids slow COUNT(*) on large tables
+    const { schema, table } = parseQualifiedTableName(tableName);
     const statsResult = await connection.client`
       SELECT 
         COALESCE(c.reltuples, 0)::bigint as estimated_rows,
         pg_size_pretty(pg_total_relation_size(c.oid)) as size
       FROM pg_class c
       JOIN pg_namespace n ON n.oid = c.relnamespace
-      WHERE c.relname = ${tableName}
-        AND n.nspname = 'public'
+      WHERE c.relname = ${table}
+        AND n.nspname = ${schema}
     `;
     
     const rowCount = parseInt(statsResult[0]?.estimated_rows as string || '0', 10);
@@ -3,6 +3,11 @@
  * 
  * Generates safe, idempotent SQL DDL statements to fix schema differences.
  * All queries use IF EXISTS / IF NOT EXISTS for safety.
+ *
+ * Scripts are ordered so every object exists before something depends on it:
+ * extensions, ENUMs, sequences, functions, tables, views, triggers, RLS
+ * policies, and finally sequence values. Functions, views and triggers are
+ * limited to the ones the selected tables use.
  */
 
 import type {
@@ -12,7 +17,23 @@ import type {
   SchemaValidationResult,
   TableComparisonResult,
   EnumType,
+  DatabaseSchema,
+  ExtensionDefinition,
+  FunctionDefinition,
+  RlsPolicy,
+  SequenceDefinition,
+  TriggerDefinition,
+  ViewDefinition,
+  RenameCandidate,
+  RenameDecision,
 } from '@/types';
+import {
+  DEFAULT_SCHEMA,
+  escapeIdentifier,
+  parseQualifiedTableName,
+  qualifyTableName,
+} from './security-utils';
+import { functionKey, normalizeDefinition, sortViewsByDependency } from './schema-objects';
 
 export interface MigrationScript {
   tableName: string;
@@ -20,6 +41,17 @@ export interface MigrationScript {
   sql: string;
   isDestructive: boolean;
   severity: 'safe' | 'caution' | 'dangerous';
+  /** Statements that undo this script, when they can't be derived from the description */
+  rollbackSql?: string;
+}
+
+/**
+ * A rename candidate from validation, oriented for the plan's direction, with
+ * the user's decision. Only accepted renames produce scripts; pending and
+ * rejected ones migrate as add (and a commented-out drop).
+ */
+export interface PlannedRename extends RenameCandidate {
+  decision: RenameDecision | 'pending';
 }
 
 export interface MigrationPlan {
@@ -32,6 +64,7 @@ export interface MigrationPlan {
   };
   fullScript: string;
   rollbackScript: string;
+  renames: PlannedRename[];
 }
 
 /**
@@ -61,15 +94,56 @@ function columnsMatch(cols1: unknown, cols2: unknown): boolean {
   return JSON.stringify(arr1) === JSON.stringify(arr2);
 }
 
+/**
+ * Split a table (or type) key into its schema and name literals plus the
+ * escaped `"schema"."name"` reference used in DDL
+ */
+function qualifiedRef(key: string): { schema: string; name: string; ref: string } {
+  const { schema, table } = parseQualifiedTableName(key);
+  return { schema, name: table, ref: `${escapeIdentifier(schema)}.${escapeIdentifier(table)}` };
+}
+
+/**
+ * Key for an ENUM type, qualified the same way as table names
+ */
+function enumKey(enumType: EnumType): string {
+  return qualifyTableName(enumType.schema || DEFAULT_SCHEMA, enumType.name);
+}
+
 /**
  * Generate migration scripts from validation results
+ *
+ * @param renameDecisions - Decisions on `validationResult.renameCandidates`,
+ *   by candidate ID. Only accepted candidates are migrated as renames.
  */
 export function generateMigrationPlan(
   validationResult: SchemaValidationResult,
-  direction: 'source_to_target' | 'target_to_source' = 'source_to_target'
+  direction: 'source_to_target' | 'target_to_source' = 'source_to_target',
+  renameDecisions: Record<string, RenameDecision> = {}
 ): MigrationPlan {
   const scripts: MigrationScript[] = [];
   
+  const [referenceSchema, currentSchema] = direction === 'source_to_target'
+    ? [validationResult.sourceSchema, validationResult.targetSchema]
+    : [validationResult.targetSchema, validationResult.sourceSchema];
+  const selectedTables = new Set(validationResult.comparisonDetails.map((c) => c.tableName));
+  
+  // Candidates rename target names to source names; flip them when the
+  // source is the one being changed
+  const renames: PlannedRename[] = (validationResult.renameCandidates || []).map((candidate) => ({
+    ...candidate,
+    ...(direction === 'target_to_source' && {
+      from: candidate.to,
+      to: candidate.from,
+      tableName: candidate.kind === 'table' ? candidate.from : candidate.tableName,
+    }),
+    decision: renameDecisions[candidate.id] ?? 'pending',
+  }));
+  const acceptedRenames = renames.filter((r) => r.decision === 'accepted');
+  
+  // Extensions provide types and functions the rest may use
+  scripts.push(...generateExtensionScripts(referenceSchema.extensions || [], currentSchema.extensions || []));
+  
   // Get source and target enums (with fallback for backward compatibility)
   const sourceEnums = validationResult.sourceSchema.enums || [];
   const targetEnums = validationResult.targetSchema.enums || [];
@@ -81,34 +155,52 @@ export function generateMigrationPlan(
     scripts.push(...generateEnumMigrationScripts(targetEnums, sourceEnums));
   }
   
+  // Sequences must exist before column defaults call nextval() on them
+  scripts.push(...generateCreateSequenceScripts(referenceSchema, currentSchema, selectedTables));
+  
+  // Functions before the tables whose defaults and checks call them, and the
+  // views and triggers that call them
+  scripts.push(...generateFunctionScripts(referenceSchema, currentSchema, selectedTables));
+  
   // Process each table comparison
+  const referenceTables = new Map(referenceSchema.tables.map((t) => [t.tableName, t]));
+  const currentTables = new Map(currentSchema.tables.map((t) => [t.tableName, t]));
+  
   for (const comparison of validationResult.comparisonDetails) {
-    const sourceTable = validationResult.sourceSchema.tables.find(
-      (t) => t.tableName === comparison.tableName
-    );
-    const targetTable = validationResult.targetSchema.tables.find(
-      (t) => t.tableName === comparison.tableName
-    );
+    let tableName = comparison.tableName;
+    let referenceTable = referenceTables.get(tableName);
+    let currentTable = currentTables.get(tableName);
     
-    if (direction === 'source_to_target') {
-      // Generate scripts to make target match source
-      scripts.push(...generateTableMigrationScripts(
-        comparison.tableName,
-        sourceTable,
-        targetTable,
-        comparison
-      ));
-    } else {
-      // Generate scripts to make source match target
-      scripts.push(...generateTableMigrationScripts(
-        comparison.tableName,
-        targetTable,
-        sourceTable,
-        comparison
-      ));
+    // An accepted table rename turns create (or drop) into rename, then
+    // diffs the renamed table as usual
+    const tableRename = acceptedRenames.find((r) => r.kind === 'table' && (
+      (r.to === tableName && !currentTable) || (r.from === tableName && !referenceTable)
+    ));
+    const renamedTable = tableRename && currentTables.get(tableRename.from);
+    if (tableRename && renamedTable && referenceTables.has(tableRename.to)) {
+      scripts.push(generateRenameTableScript(tableRename));
+      tableName = tableRename.to;
+      referenceTable = referenceTables.get(tableName);
+      currentTable = { ...renamedTable, tableName };
     }
+    
+    scripts.push(...generateTableMigrationScripts(
+      tableName,
+      referenceTable,
+      currentTable,
+      comparison,
+      acceptedRenames.filter((r) => r.kind === 'column' && r.tableName === tableName)
+    ));
   }
   
+  // Views in dependency order so each one's dependencies exist
+  scripts.push(...generateViewScripts(referenceSchema.views || [], currentSchema.views || [], selectedTables));
+  scripts.push(...generateTriggerScripts(referenceSchema.triggers || [], currentSchema.triggers || [], selectedTables));
+  scripts.push(...generateRowLevelSecurityScripts(referenceSchema, currentSchema, selectedTables));
+  
+  // Sequence values last, once everything else is in place
+  scripts.push(...generateSequenceValueScripts(referenceSchema, currentSchema, selectedTables));
+  
   // Calculate summary
   const summary = {
     totalScripts: scripts.length,
@@ -119,13 +211,14 @@ export function generateMigrationPlan(
   
   // Generate full script with transaction
   const fullScript = generateFullScript(scripts);
-  const rollbackScript = generateRollbackScript(scripts, validationResult);
+  const rollbackScript = generateRollbackScript(scripts);
   
   return {
     scripts,
     summary,
     fullScript,
     rollbackScript,
+    renames,
   };
 }
 
@@ -136,7 +229,8 @@ function generateTableMigrationScripts(
   tableName: string,
   referenceTable: DetailedTableSchema | undefined,
   targetTable: DetailedTableSchema | undefined,
-  comparison: TableComparisonResult
+  comparison: TableComparisonResult,
+  columnRenames: PlannedRename[] = []
 ): MigrationScript[] {
   const scripts: MigrationScript[] = [];
   
@@ -161,6 +255,16 @@ function generateTableMigrationScripts(
   const refColMap = new Map(referenceTable.columns.map((c) => [c.name, c]));
   const targetColMap = new Map(targetTable.columns.map((c) => [c.name, c]));
   
+  // Rename accepted columns first, so they aren't added as new columns
+  for (const rename of columnRenames) {
+    const renamedCol = targetColMap.get(rename.from);
+    if (!renamedCol || targetColMap.has(rename.to) || !refColMap.has(rename.to)) continue;
+    
+    scripts.push(generateRenameColumnScript(tableName, rename));
+    targetColMap.delete(rename.from);
+    targetColMap.set(rename.to, { ...renamedCol, name: rename.to });
+  }
+  
   // Find columns to add (in reference but not in target)
   for (const [colName, refCol] of refColMap) {
     if (!targetColMap.has(colName)) {
@@ -205,6 +309,94 @@ function generateTableMigrationScripts(
   return scripts;
 }
 
+/**
+ * Generate ALTER TABLE ... RENAME TO script for an accepted table rename
+ */
+function generateRenameTableScript(rename: PlannedRename): MigrationScript {
+  const header = `-- Rename table: ${rename.from} -> ${rename.to} (${Math.round(rename.confidence * 100)}% confidence, accepted)\n`;
+
+  return {
+    tableName: rename.to,
+    description: `Rename table "${rename.from}" to "${rename.to}"`,
+    sql: header + renameTableBlock(rename.from, rename.to),
+    isDestructive: false,
+    severity: 'caution',
+    // Guarded like the rename itself, so it is a no-op if the rename never ran
+    rollbackSql: renameTableBlock(rename.to, rename.from),
+  };
+}
+
+/**
+ * DO block renaming a table, skipped unless the old name exists and the new
+ * one doesn't
+ */
+function renameTableBlock(fromName: string, toName: string): string {
+  const from = qualifiedRef(fromName);
+  const to = qualifiedRef(toName);
+  return `DO $$
+BEGIN
+    IF EXISTS (
+        SELECT FROM information_schema.tables 
+        WHERE table_schema = '${from.schema}' 
+        AND table_name = '${from.name}'
+    ) AND NOT EXISTS (
+        SELECT FROM information_schema.tables 
+        WHERE table_schema = '${to.schema}' 
+        AND table_name = '${to.name}'
+    ) THEN
+        ALTER TABLE ${from.ref} RENAME TO ${escapeIdentifier(to.name)};
+        RAISE NOTICE 'Renamed table: ${fromName} -> ${toName}';
+    ELSE
+        RAISE NOTICE 'Skipped rename: ${fromName} is missing or ${toName} already exists';
+    END IF;
+END $$;
+`;
+}
+
+/**
+ * Generate ALTER TABLE ... RENAME COLUMN script for an accepted column rename
+ */
+function generateRenameColumnScript(tableName: string, rename: PlannedRename): MigrationScript {
+  const header = `-- Rename column: ${tableName}.${rename.from} -> ${rename.to} (${Math.round(rename.confidence * 100)}% confidence, accepted)\n`;
+
+  return {
+    tableName,
+    description: `Rename column "${rename.from}" to "${rename.to}" on "${tableName}"`,
+    sql: header + renameColumnBlock(tableName, rename.from, rename.to),
+    isDestructive: false,
+    severity: 'caution',
+    rollbackSql: renameColumnBlock(tableName, rename.to, rename.from),
+  };
+}
+
+/**
+ * DO block renaming a column, skipped unless the old column exists and the
+ * new one doesn't
+ */
+function renameColumnBlock(tableName: string, from: string, to: string): string {
+  const { schema, name, ref } = qualifiedRef(tableName);
+  return `DO $$
+BEGIN
+    IF EXISTS (
+        SELECT FROM information_schema.columns 
+        WHERE table_schema = '${schema}' 
+        AND table_name = '${name}' 
+        AND column_name = '${from}'
+    ) AND NOT EXISTS (
+        SELECT FROM information_schema.columns 
+        WHERE table_schema = '${schema}' 
+        AND table_name = '${name}' 
+        AND column_name = '${to}'
+    ) THEN
+        ALTER TABLE ${ref} RENAME COLUMN ${escapeIdentifier(from)} TO ${escapeIdentifier(to)};
+        RAISE NOTICE 'Renamed column: ${tableName}.${from} -> ${to}';
+    ELSE
+        RAISE NOTICE 'Skipped rename: ${tableName}.${from} is missing or ${to} already exists';
+    END IF;
+END $$;
+`;
+}
+
 /**
  * Generate CREATE TABLE script
  */
@@ -223,15 +415,20 @@ function generateCreateTableScript(table: DetailedTableSchema): MigrationScript
     pkConstraint = `,\n    CONSTRAINT "${table.primaryKey.constraintName}" PRIMARY KEY (${pkCols})`;
   }
   
+  const { schema, name, ref } = qualifiedRef(table.tableName);
+  const createSchema = schema !== DEFAULT_SCHEMA
+    ? `        CREATE SCHEMA IF NOT EXISTS ${escapeIdentifier(schema)};\n`
+    : '';
+  
   const sql = `-- Create table: ${table.tableName}
 DO $$
 BEGIN
     IF NOT EXISTS (
         SELECT FROM information_schema.tables 
-        WHERE table_schema = 'public' 
-        AND table_name = '${table.tableName}'
+        WHERE table_schema = '${schema}' 
+        AND table_name = '${name}'
     ) THEN
-        CREATE TABLE public."${table.tableName}" (
+${createSchema}        CREATE TABLE ${ref} (
 ${columns}${pkConstraint}
         );
         RAISE NOTICE 'Created table: ${table.tableName}';
@@ -255,6 +452,7 @@ END $$;
  * WARNING: This is a DANGEROUS operation that will delete all data!
  */
 function generateDropTableScript(table: DetailedTableSchema): MigrationScript {
+  const { schema, name, ref } = qualifiedRef(table.tableName);
   const sql = `-- DROP table: ${table.tableName}
 -- ⚠️  WARNING: This will DELETE ALL DATA in this table!
 -- ⚠️  This table exists in target but NOT in source.
@@ -263,11 +461,11 @@ DO $$
 BEGIN
     IF EXISTS (
         SELECT FROM information_schema.tables 
-        WHERE table_schema = 'public' 
-        AND table_name = '${table.tableName}'
+        WHERE table_schema = '${schema}' 
+        AND table_name = '${name}'
     ) THEN
         -- Uncomment the line below to actually drop the table:
-        -- DROP TABLE public."${table.tableName}" CASCADE;
+        -- DROP TABLE ${ref} CASCADE;
         RAISE NOTICE 'Table "${table.tableName}" exists in target but not source. Skipping drop for safety.';
         RAISE NOTICE 'To drop this table, uncomment the DROP TABLE line above.';
     END IF;
@@ -292,8 +490,8 @@ function generateEnumMigrationScripts(
 ): MigrationScript[] {
   const scripts: MigrationScript[] = [];
   
-  const sourceEnumMap = new Map(sourceEnums.map((e) => [e.name, e]));
-  const targetEnumMap = new Map(targetEnums.map((e) => [e.name, e]));
+  const sourceEnumMap = new Map(sourceEnums.map((e) => [enumKey(e), e]));
+  const targetEnumMap = new Map(targetEnums.map((e) => [enumKey(e), e]));
   
   // Find ENUMs that exist in source but not in target (need to CREATE)
   for (const [enumName, sourceEnum] of sourceEnumMap) {
@@ -339,27 +537,29 @@ function getEnumValues(enumType: EnumType): string[] {
 function generateCreateEnumScript(enumType: EnumType): MigrationScript {
   const enumValues = getEnumValues(enumType);
   const values = enumValues.map((v) => `'${v.replace(/'/g, "''")}'`).join(', ');
+  const enumName = enumKey(enumType);
+  const { schema, name, ref } = qualifiedRef(enumName);
   
-  const sql = `-- Create ENUM type: ${enumType.name}
+  const sql = `-- Create ENUM type: ${enumName}
 DO $$
 BEGIN
     IF NOT EXISTS (
         SELECT 1 FROM pg_type t
         JOIN pg_namespace n ON t.typnamespace = n.oid
-        WHERE t.typname = '${enumType.name}'
-        AND n.nspname = 'public'
+        WHERE t.typname = '${name}'
+        AND n.nspname = '${schema}'
     ) THEN
-        CREATE TYPE public."${enumType.name}" AS ENUM (${values});
-        RAISE NOTICE 'Created ENUM type: ${enumType.name}';
+        CREATE TYPE ${ref} AS ENUM (${values});
+        RAISE NOTICE 'Created ENUM type: ${enumName}';
     ELSE
-        RAISE NOTICE 'ENUM type already exists: ${enumType.name}';
+        RAISE NOTICE 'ENUM type already exists: ${enumName}';
     END IF;
 END $$;
 `;
 
   return {
-    tableName: `ENUM:${enumType.name}`,
-    description: `Create ENUM type "${enumType.name}" with values: ${enumValues.join(', ')}`,
+    tableName: `ENUM:${enumName}`,
+    description: `Create ENUM type "${enumName}" with values: ${enumValues.join(', ')}`,
     sql,
     isDestructive: false,
     severity: 'safe',
@@ -381,6 +581,7 @@ function generateAddEnumValueScript(
   const afterClause = afterValue 
     ? ` AFTER '${afterValue.replace(/'/g, "''")}'` 
     : '';
+  const { schema, name, ref } = qualifiedRef(enumName);
   
   const sql = `-- Add value to ENUM type: ${enumName}
 DO $$
@@ -389,11 +590,11 @@ BEGIN
         SELECT 1 FROM pg_enum e
         JOIN pg_type t ON e.enumtypid = t.oid
         JOIN pg_namespace n ON t.typnamespace = n.oid
-        WHERE t.typname = '${enumName}'
-        AND n.nspname = 'public'
+        WHERE t.typname = '${name}'
+        AND n.nspname = '${schema}'
         AND e.enumlabel = '${newValue.replace(/'/g, "''")}'
     ) THEN
-        ALTER TYPE public."${enumName}" ADD VALUE '${newValue.replace(/'/g, "''")}'${afterClause};
+        ALTER TYPE ${ref} ADD VALUE '${newValue.replace(/'/g, "''")}'${afterClause};
         RAISE NOTICE 'Added value "${newValue}" to ENUM: ${enumName}';
     ELSE
         RAISE NOTICE 'ENUM value already exists: ${enumName}.${newValue}';
@@ -415,7 +616,9 @@ END $$;
  * WARNING: This will fail if any tables still use this type!
  */
 function generateDropEnumScript(enumType: EnumType): MigrationScript {
-  const sql = `-- DROP ENUM type: ${enumType.name}
+  const enumName = enumKey(enumType);
+  const { schema, name, ref } = qualifiedRef(enumName);
+  const sql = `-- DROP ENUM type: ${enumName}
 -- ⚠️  WARNING: This ENUM exists in target but NOT in source.
 -- ⚠️  This will FAIL if any tables still use this type!
 -- ⚠️  If you want to KEEP this ENUM, swap your source and target databases.
@@ -424,28 +627,28 @@ BEGIN
     IF EXISTS (
         SELECT 1 FROM pg_type t
         JOIN pg_namespace n ON t.typnamespace = n.oid
-        WHERE t.typname = '${enumType.name}'
-        AND n.nspname = 'public'
+        WHERE t.typname = '${name}'
+        AND n.nspname = '${schema}'
     ) THEN
         -- Check if ENUM is still in use
         IF EXISTS (
             SELECT 1 FROM information_schema.columns
-            WHERE udt_name = '${enumType.name}'
-            AND table_schema = 'public'
+            WHERE udt_name = '${name}'
+            AND udt_schema = '${schema}'
         ) THEN
-            RAISE NOTICE 'ENUM "${enumType.name}" is still in use by tables. Skipping drop.';
+            RAISE NOTICE 'ENUM "${enumName}" is still in use by tables. Skipping drop.';
         ELSE
             -- Uncomment the line below to actually drop the ENUM:
-            -- DROP TYPE public."${enumType.name}";
-            RAISE NOTICE 'ENUM "${enumType.name}" exists in target but not source. Skipping drop for safety.';
+            -- DROP TYPE ${ref};
+            RAISE NOTICE 'ENUM "${enumName}" exists in target but not source. Skipping drop for safety.';
         END IF;
     END IF;
 END $$;
 `;
 
   return {
-    tableName: `ENUM:${enumType.name}`,
-    description: `DROP ENUM type "${enumType.name}" (exists in target but not source) - COMMENTED OUT FOR SAFETY`,
+    tableName: `ENUM:${enumName}`,
+    description: `DROP ENUM type "${enumName}" (exists in target but not source) - COMMENTED OUT FOR SAFETY`,
     sql,
     isDestructive: true,
     severity: 'dangerous',
@@ -456,6 +659,7 @@ END $$;
  * Generate ADD COLUMN script
  */
 function generateAddColumnScript(tableName: string, column: DetailedColumn): MigrationScript {
+  const { schema, name, ref } = qualifiedRef(tableName);
   const dataType = getFullDataType(column);
   const nullability = column.isNullable ? '' : ' NOT NULL';
   const defaultValue = column.defaultValue ? ` DEFAULT ${column.defaultValue}` : '';
@@ -470,22 +674,22 @@ DO $$
 BEGIN
     IF NOT EXISTS (
         SELECT FROM information_schema.columns 
-        WHERE table_schema = 'public' 
-        AND table_name = '${tableName}' 
+        WHERE table_schema = '${schema}' 
+        AND table_name = '${name}' 
         AND column_name = '${column.name}'
     ) THEN
         -- Step 1: Add column as nullable
-        ALTER TABLE public."${tableName}" 
+        ALTER TABLE ${ref} 
         ADD COLUMN "${column.name}" ${dataType};
         
         -- Step 2: Set a default value for existing rows
         -- WARNING: You may need to customize this default value!
-        UPDATE public."${tableName}" 
+        UPDATE ${ref} 
         SET "${column.name}" = ${getDefaultForType(column.udtName)}
         WHERE "${column.name}" IS NULL;
         
         -- Step 3: Make column NOT NULL
-        ALTER TABLE public."${tableName}" 
+        ALTER TABLE ${ref} 
         ALTER COLUMN "${column.name}" SET NOT NULL;
         
         RAISE NOTICE 'Added NOT NULL column: ${tableName}.${column.name}';
@@ -500,11 +704,11 @@ DO $$
 BEGIN
     IF NOT EXISTS (
         SELECT FROM information_schema.columns 
-        WHERE table_schema = 'public' 
-        AND table_name = '${tableName}' 
+        WHERE table_schema = '${schema}' 
+        AND table_name = '${name}' 
         AND column_name = '${column.name}'
     ) THEN
-        ALTER TABLE public."${tableName}" 
+        ALTER TABLE ${ref} 
         ADD COLUMN "${column.name}" ${dataType}${nullability}${defaultValue};
         RAISE NOTICE 'Added column: ${tableName}.${column.name}';
     ELSE
@@ -531,6 +735,7 @@ function generateAlterColumnScript(
   sourceColumn: DetailedColumn,
   targetColumn: DetailedColumn
 ): MigrationScript {
+  const { schema, name, ref } = qualifiedRef(tableName);
   const sourceType = getFullDataType(sourceColumn);
   const targetType = getFullDataType(targetColumn);
   
@@ -540,13 +745,13 @@ DO $$
 BEGIN
     IF EXISTS (
         SELECT FROM information_schema.columns 
-        WHERE table_schema = 'public' 
-        AND table_name = '${tableName}' 
+        WHERE table_schema = '${schema}' 
+        AND table_name = '${name}' 
         AND column_name = '${sourceColumn.name}'
     ) THEN
         -- Attempt type conversion with USING clause
         BEGIN
-            ALTER TABLE public."${tableName}" 
+            ALTER TABLE ${ref} 
             ALTER COLUMN "${sourceColumn.name}" TYPE ${sourceType}
             USING "${sourceColumn.name}"::${sourceType};
             RAISE NOTICE 'Altered column type: ${tableName}.${sourceColumn.name} to ${sourceType}';
@@ -575,22 +780,23 @@ function generateCreateIndexScript(
   tableName: string,
   index: { name: string; columns: string[] | unknown; isUnique: boolean; indexType: string }
 ): MigrationScript {
+  const { schema, name, ref } = qualifiedRef(tableName);
   const uniqueKeyword = index.isUnique ? 'UNIQUE ' : '';
   const colsArray = getColumns(index.columns);
   const columns = colsArray.map((c) => `"${c}"`).join(', ');
-  const indexName = `idx_${tableName}_${colsArray.join('_')}`;
+  const indexName = `idx_${name}_${colsArray.join('_')}`;
   
   const sql = `-- Create index: ${indexName}
 DO $$
 BEGIN
     IF NOT EXISTS (
         SELECT FROM pg_indexes 
-        WHERE schemaname = 'public' 
-        AND tablename = '${tableName}' 
+        WHERE schemaname = '${schema}' 
+        AND tablename = '${name}' 
         AND indexname = '${indexName}'
     ) THEN
         CREATE ${uniqueKeyword}INDEX "${indexName}" 
-        ON public."${tableName}" (${columns});
+        ON ${ref} (${columns});
         RAISE NOTICE 'Created index: ${indexName}';
     ELSE
         RAISE NOTICE 'Index already exists: ${indexName}';
@@ -614,16 +820,17 @@ function generateAddConstraintScript(
   tableName: string,
   constraint: { name: string; type: string; definition: string }
 ): MigrationScript {
+  const { schema, name, ref } = qualifiedRef(tableName);
   const sql = `-- Add constraint: ${constraint.name}
 DO $$
 BEGIN
     IF NOT EXISTS (
         SELECT FROM information_schema.table_constraints 
-        WHERE table_schema = 'public' 
-        AND table_name = '${tableName}' 
+        WHERE table_schema = '${schema}' 
+        AND table_name = '${name}' 
         AND constraint_name = '${constraint.name}'
     ) THEN
-        ALTER TABLE public."${tableName}" 
+        ALTER TABLE ${ref} 
         ADD CONSTRAINT "${constraint.name}" ${constraint.definition};
         RAISE NOTICE 'Added constraint: ${constraint.name}';
     ELSE
@@ -641,6 +848,530 @@ END $$;
   };
 }
 
+// ============================================================================
+// DATABASE OBJECTS - Extensions, sequences, functions, views, triggers, RLS
+// ============================================================================
+// Definitions come from pg_get_functiondef / pg_get_viewdef / pg_get_triggerdef,
+// so they are replayed as-is. Each script carries its own rollbackSql: the
+// target's previous definition when one is replaced, a DROP when one is new.
+
+/**
+ * Quote a string as a SQL literal
+ */
+function quoteLiteral(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Append the statement terminator the pg_get_*def functions leave off
+ */
+function terminate(definition: string): string {
+  return `${definition.trim().replace(/;+$/, '')};`;
+}
+
+function dropFunctionStatement(fn: FunctionDefinition): string {
+  const { ref } = qualifiedRef(qualifyTableName(fn.schema, fn.name));
+  return `DROP ${fn.kind === 'procedure' ? 'PROCEDURE' : 'FUNCTION'} IF EXISTS ${ref}(${fn.identityArguments});`;
+}
+
+/**
+ * Functions to migrate: standalone ones, and trigger functions used by a
+ * trigger on a selected table
+ */
+function isFunctionSelected(
+  fn: FunctionDefinition,
+  triggers: TriggerDefinition[],
+  selectedTables: Set<string>
+): boolean {
+  // Trigger functions take no arguments
+  if (fn.identityArguments !== '') return true;
+  
+  const name = qualifyTableName(fn.schema, fn.name);
+  const callers = triggers.filter((t) => t.functionName === name);
+  return callers.length === 0 || callers.some((t) => selectedTables.has(t.tableName));
+}
+
+/**
+ * Views to migrate, in dependency order: those that only select from
+ * selected tables and other selected views
+ */
+function selectViews(views: ViewDefinition[], selectedTables: Set<string>): ViewDefinition[] {
+  const selectedViews = new Set<string>();
+  
+  return sortViewsByDependency(views).filter((view) => {
+    const isSelected = (view.dependsOn || []).every((d) => selectedTables.has(d) || selectedViews.has(d));
+    if (isSelected) selectedViews.add(qualifyTableName(view.schema, view.name));
+    return isSelected;
+  });
+}
+
+/**
+ * Sequences to migrate: standalone ones, and those owned by selected tables
+ */
+function isSequenceSelected(sequence: SequenceDefinition, selectedTables: Set<string>): boolean {
+  if (!sequence.ownedBy) return true;
+  return selectedTables.has(sequence.ownedBy.slice(0, sequence.ownedBy.lastIndexOf('.')));
+}
+
+/**
+ * Generate CREATE EXTENSION scripts for extensions missing in the target
+ */
+function generateExtensionScripts(
+  referenceExtensions: ExtensionDefinition[],
+  currentExtensions: ExtensionDefinition[]
+): MigrationScript[] {
+  const installed = new Set(currentExtensions.map((e) => e.name));
+  
+  return referenceExtensions
+    .filter((extension) => !installed.has(extension.name))
+    .map((extension) => {
+      const schema = escapeIdentifier(extension.schema);
+      const createSchema = extension.schema !== DEFAULT_SCHEMA
+        ? `CREATE SCHEMA IF NOT EXISTS ${schema};\n`
+        : '';
+      
+      return {
+        tableName: `EXTENSION:${extension.name}`,
+        description: `Create extension "${extension.name}" in schema "${extension.schema}"`,
+        sql: `-- Create extension: ${extension.name}
+${createSchema}CREATE EXTENSION IF NOT EXISTS ${escapeIdentifier(extension.name)} WITH SCHEMA ${schema};
+`,
+        isDestructive: false,
+        severity: 'safe' as const,
+        rollbackSql: `DROP EXTENSION IF EXISTS ${escapeIdentifier(extension.name)};\n`,
+      };
+    });
+}
+
+/**
+ * Generate CREATE SEQUENCE scripts for sequences missing in the target.
+ * Identity sequences are created with their column.
+ */
+function generateCreateSequenceScripts(
+  referenceSchema: DatabaseSchema,
+  currentSchema: DatabaseSchema,
+  selectedTables: Set<string>
+): MigrationScript[] {
+  const existing = new Set(
+    (currentSchema.sequences || []).map((s) => qualifyTableName(s.schema, s.name))
+  );
+  
+  return (referenceSchema.sequences || [])
+    .filter((sequence) => !sequence.isIdentity && isSequenceSelected(sequence, selectedTables))
+    .filter((sequence) => !existing.has(qualifyTableName(sequence.schema, sequence.name)))
+    .map((sequence) => {
+      const sequenceName = qualifyTableName(sequence.schema, sequence.name);
+      const { schema, ref } = qualifiedRef(sequenceName);
+      const createSchema = schema !== DEFAULT_SCHEMA
+        ? `CREATE SCHEMA IF NOT EXISTS ${escapeIdentifier(schema)};\n`
+        : '';
+      
+      return {
+        tableName: `SEQUENCE:${sequenceName}`,
+        description: `Create sequence "${sequenceName}"`,
+        sql: `-- Create sequence: ${sequenceName}
+${createSchema}CREATE SEQUENCE IF NOT EXISTS ${ref}
+    AS ${sequence.dataType}
+    INCREMENT BY ${sequence.increment}
+    MINVALUE ${sequence.minValue}
+    MAXVALUE ${sequence.maxValue}
+    START WITH ${sequence.startValue}
+    ${sequence.cycle ? 'CYCLE' : 'NO CYCLE'};
+`,
+        isDestructive: false,
+        severity: 'safe' as const,
+        rollbackSql: `DROP SEQUENCE IF EXISTS ${ref};\n`,
+      };
+    });
+}
+
+/**
+ * Generate setval() scripts that move target sequences up to the source's
+ * current value, so inserts after a data sync don't reuse IDs
+ */
+function generateSequenceValueScripts(
+  referenceSchema: DatabaseSchema,
+  currentSchema: DatabaseSchema,
+  selectedTables: Set<string>
+): MigrationScript[] {
+  const scripts: MigrationScript[] = [];
+  const currentSequences = new Map(
+    (currentSchema.sequences || []).map((s) => [qualifyTableName(s.schema, s.name), s])
+  );
+  
+  for (const sequence of referenceSchema.sequences || []) {
+    if (sequence.lastValue === null || !isSequenceSelected(sequence, selectedTables)) continue;
+    
+    const sequenceName = qualifyTableName(sequence.schema, sequence.name);
+    const current = currentSequences.get(sequenceName);
+    
+    // Missing identity sequences are created with their table, under a name
+    // we can't rely on; missing standalone ones were created above
+    if (!current && sequence.isIdentity) continue;
+    if (current?.lastValue && BigInt(current.lastValue) >= BigInt(sequence.lastValue)) continue;
+    
+    const { ref } = qualifiedRef(sequenceName);
+    const regclass = quoteLiteral(ref);
+    
+    scripts.push({
+      tableName: `SEQUENCE:${sequenceName}`,
+      description: `Set sequence "${sequenceName}" to ${sequence.lastValue}`,
+      sql: `-- Set sequence value: ${sequenceName}
+SELECT setval(${regclass}, ${sequence.lastValue}, true);
+`,
+      isDestructive: false,
+      severity: 'safe',
+      // A sequence created by this plan is dropped by its own rollback
+      ...(current && {
+        rollbackSql: current.lastValue
+          ? `SELECT setval(${regclass}, ${current.lastValue}, true);\n`
+          : `SELECT setval(${regclass}, ${current.startValue}, false);\n`,
+      }),
+    });
+  }
+  
+  return scripts;
+}
+
+/**
+ * Generate scripts for the selected functions and procedures: create missing
+ * ones, replace changed ones, and suggest (commented-out) drops for extra
+ * ones. Bodies aren't checked on creation, like pg_dump does, since they run
+ * before the tables they may refer to exist.
+ */
+function generateFunctionScripts(
+  referenceSchema: DatabaseSchema,
+  currentSchema: DatabaseSchema,
+  selectedTables: Set<string>
+): MigrationScript[] {
+  const scripts: MigrationScript[] = [];
+  const currentMap = new Map((currentSchema.functions || []).map((f) => [functionKey(f), f]));
+  const referenceKeys = new Set((referenceSchema.functions || []).map(functionKey));
+  
+  for (const fn of referenceSchema.functions || []) {
+    if (!isFunctionSelected(fn, referenceSchema.triggers || [], selectedTables)) continue;
+    
+    const key = functionKey(fn);
+    const current = currentMap.get(key);
+    
+    if (current && normalizeDefinition(current.definition) === normalizeDefinition(fn.definition)) {
+      continue;
+    }
+    
+    scripts.push({
+      tableName: `FUNCTION:${key}`,
+      description: current
+        ? `Replace ${fn.kind} "${key}"`
+        : `Create ${fn.kind} "${key}"`,
+      sql: `-- ${current ? 'Replace' : 'Create'} ${fn.kind}: ${key}
+SET LOCAL check_function_bodies = off;
+${terminate(fn.definition)}
+`,
+      isDestructive: false,
+      severity: current ? 'caution' : 'safe',
+      rollbackSql: current
+        ? `${terminate(current.definition)}\n`
+        : `${dropFunctionStatement(fn)}\n`,
+    });
+  }
+  
+  for (const [key, fn] of currentMap) {
+    if (referenceKeys.has(key) || !isFunctionSelected(fn, currentSchema.triggers || [], selectedTables)) continue;
+    
+    scripts.push({
+      tableName: `FUNCTION:${key}`,
+      description: `DROP ${fn.kind} "${key}" (exists in target but not source) - COMMENTED OUT FOR SAFETY`,
+      sql: `-- DROP ${fn.kind}: ${key}
+-- ⚠️  WARNING: This ${fn.kind} exists in target but NOT in source.
+-- ⚠️  Triggers, policies or app code in the target may still call it.
+-- Uncomment the line below to actually drop the ${fn.kind}:
+-- ${dropFunctionStatement(fn)}
+`,
+      isDestructive: true,
+      severity: 'dangerous',
+    });
+  }
+  
+  return scripts;
+}
+
+/**
+ * CREATE statement for a view
+ */
+function createViewStatement(view: ViewDefinition, orReplace: boolean): string {
+  const { ref } = qualifiedRef(qualifyTableName(view.schema, view.name));
+  const body = view.definition.trim().replace(/;+$/, '');
+  
+  if (view.isMaterialized) {
+    return `CREATE MATERIALIZED VIEW IF NOT EXISTS ${ref} AS\n${body};`;
+  }
+  return `CREATE ${orReplace ? 'OR REPLACE ' : ''}VIEW ${ref} AS\n${body};`;
+}
+
+function dropViewStatement(view: ViewDefinition): string {
+  const { ref } = qualifiedRef(qualifyTableName(view.schema, view.name));
+  return `DROP ${view.isMaterialized ? 'MATERIALIZED VIEW' : 'VIEW'} IF EXISTS ${ref};`;
+}
+
+/**
+ * Generate scripts for views over the selected tables: create missing ones,
+ * replace changed ones, and suggest (commented-out) drops for extra ones.
+ * Plain views are replaced in place; materialized views (or a change of kind)
+ * are dropped and recreated.
+ */
+function generateViewScripts(
+  referenceViews: ViewDefinition[],
+  currentViews: ViewDefinition[],
+  selectedTables: Set<string>
+): MigrationScript[] {
+  const scripts: MigrationScript[] = [];
+  const currentMap = new Map(currentViews.map((v) => [qualifyTableName(v.schema, v.name), v]));
+  const referenceNames = new Set(referenceViews.map((v) => qualifyTableName(v.schema, v.name)));
+  
+  for (const view of selectViews(referenceViews, selectedTables)) {
+    const viewName = qualifyTableName(view.schema, view.name);
+    const kind = view.isMaterialized ? 'materialized view' : 'view';
+    const current = currentMap.get(viewName);
+    
+    if (!current) {
+      scripts.push({
+        tableName: `VIEW:${viewName}`,
+        description: `Create ${kind} "${viewName}"`,
+        sql: `-- Create ${kind}: ${viewName}
+${createViewStatement(view, true)}
+`,
+        isDestructive: false,
+        severity: 'safe',
+        rollbackSql: `${dropViewStatement(view)}\n`,
+      });
+      continue;
+    }
+    
+    if (
+      current.isMaterialized === view.isMaterialized &&
+      normalizeDefinition(current.definition) === normalizeDefinition(view.definition)
+    ) {
+      continue;
+    }
+    
+    const replaceInPlace = !view.isMaterialized && !current.isMaterialized;
+    
+    scripts.push({
+      tableName: `VIEW:${viewName}`,
+      description: `Replace ${kind} "${viewName}"`,
+      sql: replaceInPlace
+        ? `-- Replace view: ${viewName}
+-- Fails if columns were removed or retyped; drop the view first in that case.
+${createViewStatement(view, true)}
+`
+        : `-- Recreate ${kind}: ${viewName}
+${dropViewStatement(current)}
+${createViewStatement(view, false)}
+`,
+      isDestructive: false,
+      severity: 'caution',
+      rollbackSql: replaceInPlace
+        ? `${createViewStatement(current, true)}\n`
+        : `${dropViewStatement(view)}\n${createViewStatement(current, false)}\n`,
+    });
+  }
+  
+  for (const view of selectViews(currentViews, selectedTables)) {
+    const viewName = qualifyTableName(view.schema, view.name);
+    if (referenceNames.has(viewName)) continue;
+    
+    scripts.push({
+      tableName: `VIEW:${viewName}`,
+      description: `DROP view "${viewName}" (exists in target but not source) - COMMENTED OUT FOR SAFETY`,
+      sql: `-- DROP view: ${viewName}
+-- ⚠️  WARNING: This view exists in target but NOT in source.
+-- Uncomment the line below to actually drop the view:
+-- ${dropViewStatement(view)}
+`,
+      isDestructive: true,
+      severity: 'dangerous',
+    });
+  }
+  
+  return scripts;
+}
+
+/**
+ * Statements that (re)create a trigger, disabling it if it is disabled in
+ * the database it came from
+ */
+function createTriggerStatements(trigger: TriggerDefinition): string {
+  const { ref } = qualifiedRef(trigger.tableName);
+  const name = escapeIdentifier(trigger.name);
+  const disable = trigger.isEnabled ? '' : `\nALTER TABLE ${ref} DISABLE TRIGGER ${name};`;
+  
+  return `DROP TRIGGER IF EXISTS ${name} ON ${ref};
+${terminate(trigger.definition)}${disable}`;
+}
+
+/**
+ * Generate scripts for triggers on the selected tables that are missing or
+ * differ in the target
+ */
+function generateTriggerScripts(
+  referenceTriggers: TriggerDefinition[],
+  currentTriggers: TriggerDefinition[],
+  selectedTables: Set<string>
+): MigrationScript[] {
+  const scripts: MigrationScript[] = [];
+  const currentMap = new Map(currentTriggers.map((t) => [`${t.tableName}:${t.name}`, t]));
+  
+  for (const trigger of referenceTriggers) {
+    if (!selectedTables.has(trigger.tableName)) continue;
+    
+    const current = currentMap.get(`${trigger.tableName}:${trigger.name}`);
+    
+    if (
+      current &&
+      current.isEnabled === trigger.isEnabled &&
+      normalizeDefinition(current.definition) === normalizeDefinition(trigger.definition)
+    ) {
+      continue;
+    }
+    
+    scripts.push({
+      tableName: trigger.tableName,
+      description: `${current ? 'Replace' : 'Create'} trigger "${trigger.name}" on "${trigger.tableName}"`,
+      sql: `-- ${current ? 'Replace' : 'Create'} trigger: ${trigger.name}
+${createTriggerStatements(trigger)}
+`,
+      isDestructive: false,
+      severity: current ? 'caution' : 'safe',
+      rollbackSql: current
+        ? `${createTriggerStatements(current)}\n`
+        : `DROP TRIGGER IF EXISTS ${escapeIdentifier(trigger.name)} ON ${qualifiedRef(trigger.tableName).ref};\n`,
+    });
+  }
+  
+  return scripts;
+}
+
+/**
+ * Statements that (re)create an RLS policy
+ */
+function createPolicyStatements(policy: RlsPolicy): string {
+  const { ref } = qualifiedRef(policy.tableName);
+  const name = escapeIdentifier(policy.name);
+  // PUBLIC is a keyword, not a role name
+  const roles = policy.roles.length > 0
+    ? policy.roles.map((role) => (role === 'public' ? 'PUBLIC' : escapeIdentifier(role))).join(', ')
+    : 'PUBLIC';
+  const using = policy.using !== null ? `\n    USING (${policy.using})` : '';
+  const withCheck = policy.withCheck !== null ? `\n    WITH CHECK (${policy.withCheck})` : '';
+  
+  return `DROP POLICY IF EXISTS ${name} ON ${ref};
+CREATE POLICY ${name} ON ${ref}
+    AS ${policy.permissive ? 'PERMISSIVE' : 'RESTRICTIVE'}
+    FOR ${policy.command}
+    TO ${roles}${using}${withCheck};`;
+}
+
+function policiesMatch(a: RlsPolicy, b: RlsPolicy): boolean {
+  return (
+    a.command === b.command &&
+    a.permissive === b.permissive &&
+    [...a.roles].sort().join(',') === [...b.roles].sort().join(',') &&
+    normalizeDefinition(a.using) === normalizeDefinition(b.using) &&
+    normalizeDefinition(a.withCheck) === normalizeDefinition(b.withCheck)
+  );
+}
+
+/**
+ * Generate scripts that enable row level security on the selected tables and
+ * bring their policies in line with the source
+ */
+function generateRowLevelSecurityScripts(
+  referenceSchema: DatabaseSchema,
+  currentSchema: DatabaseSchema,
+  selectedTables: Set<string>
+): MigrationScript[] {
+  const scripts: MigrationScript[] = [];
+  const currentTables = new Map(currentSchema.tables.map((t) => [t.tableName, t]));
+  
+  for (const table of referenceSchema.tables) {
+    if (!selectedTables.has(table.tableName)) continue;
+    
+    // Tables created by this plan start without RLS
+    const current = currentTables.get(table.tableName);
+    const enable = table.rlsEnabled && !current?.rlsEnabled;
+    const force = table.rlsForced && !current?.rlsForced;
+    if (!enable && !force) continue;
+    
+    const { ref } = qualifiedRef(table.tableName);
+    const statements = [
+      enable && `ALTER TABLE ${ref} ENABLE ROW LEVEL SECURITY;`,
+      force && `ALTER TABLE ${ref} FORCE ROW LEVEL SECURITY;`,
+    ].filter(Boolean).join('\n');
+    const rollback = [
+      force && `ALTER TABLE ${ref} NO FORCE ROW LEVEL SECURITY;`,
+      enable && `ALTER TABLE ${ref} DISABLE ROW LEVEL SECURITY;`,
+    ].filter(Boolean).join('\n');
+    
+    scripts.push({
+      tableName: table.tableName,
+      description: `Enable row level security on "${table.tableName}"`,
+      sql: `-- Enable row level security: ${table.tableName}
+-- Requests are denied unless a policy allows them.
+${statements}
+`,
+      isDestructive: false,
+      severity: 'caution',
+      rollbackSql: `${rollback}\n`,
+    });
+  }
+  
+  const selectedPolicies = (policies: RlsPolicy[] | undefined) =>
+    (policies || []).filter((p) => selectedTables.has(p.tableName));
+  const currentPolicies = new Map(
+    selectedPolicies(currentSchema.policies).map((p) => [`${p.tableName}:${p.name}`, p])
+  );
+  const referenceKeys = new Set(
+    selectedPolicies(referenceSchema.policies).map((p) => `${p.tableName}:${p.name}`)
+  );
+  
+  for (const policy of selectedPolicies(referenceSchema.policies)) {
+    const current = currentPolicies.get(`${policy.tableName}:${policy.name}`);
+    if (current && policiesMatch(current, policy)) continue;
+    
+    scripts.push({
+      tableName: policy.tableName,
+      description: `${current ? 'Replace' : 'Create'} policy "${policy.name}" on "${policy.tableName}"`,
+      sql: `-- ${current ? 'Replace' : 'Create'} policy: ${policy.name}
+${createPolicyStatements(policy)}
+`,
+      isDestructive: false,
+      severity: current ? 'caution' : 'safe',
+      rollbackSql: current
+        ? `${createPolicyStatements(current)}\n`
+        : `DROP POLICY IF EXISTS ${escapeIdentifier(policy.name)} ON ${qualifiedRef(policy.tableName).ref};\n`,
+    });
+  }
+  
+  for (const [key, policy] of currentPolicies) {
+    if (referenceKeys.has(key)) continue;
+    
+    scripts.push({
+      tableName: policy.tableName,
+      description: `DROP policy "${policy.name}" on "${policy.tableName}" (exists in target but not source) - COMMENTED OUT FOR SAFETY`,
+      sql: `-- DROP policy: ${policy.name}
+-- ⚠️  WARNING: This policy exists in target but NOT in source.
+-- ⚠️  Dropping it changes who can read or write "${policy.tableName}".
+-- Uncomment the line below to actually drop the policy:
+-- DROP POLICY IF EXISTS ${escapeIdentifier(policy.name)} ON ${qualifiedRef(policy.tableName).ref};
+`,
+      isDestructive: true,
+      severity: 'dangerous',
+    });
+  }
+  
+  return scripts;
+}
+
 /**
  * Generate full migration script with transaction wrapper
  */
@@ -680,12 +1411,10 @@ function generateFullScript(scripts: MigrationScript[]): string {
 }
 
 /**
- * Generate rollback script
+ * Generate the rollback script undoing the given scripts, in reverse order.
+ * Also used for partly applied plans, with only the scripts that ran.
  */
-function generateRollbackScript(
-  scripts: MigrationScript[],
-  validationResult: SchemaValidationResult
-): string {
+export function generateRollbackScript(scripts: MigrationScript[]): string {
   const rollbackStatements: string[] = [];
   
   // Process scripts in reverse order for proper rollback sequence
@@ -694,25 +1423,28 @@ function generateRollbackScript(
   
   for (const script of reversedScripts) {
     // Generate inverse operations where possible
-    if (script.description.startsWith('Add column')) {
+    if (script.rollbackSql) {
+      rollbackStatements.push(`-- Rollback: ${script.description}
+${script.rollbackSql}`);
+    } else if (script.description.startsWith('Add column')) {
       const match = script.description.match(/Add column "(.+)" .+ to "(.+)"/);
       if (match) {
         rollbackStatements.push(`-- Rollback: ${script.description}
-ALTER TABLE public."${match[2]}" DROP COLUMN IF EXISTS "${match[1]}";
+ALTER TABLE ${qualifiedRef(match[2]).ref} DROP COLUMN IF EXISTS "${match[1]}";
 `);
       }
     } else if (script.description.startsWith('Create table')) {
       const match = script.description.match(/Create table "(.+)"/);
       if (match) {
         rollbackStatements.push(`-- Rollback: ${script.description}
-DROP TABLE IF EXISTS public."${match[1]}" CASCADE;
+DROP TABLE IF EXISTS ${qualifiedRef(match[1]).ref} CASCADE;
 `);
       }
     } else if (script.description.startsWith('Create ENUM type')) {
       const match = script.description.match(/Create ENUM type "(.+)"/);
       if (match) {
         rollbackStatements.push(`-- Rollback: ${script.description}
-DROP TYPE IF EXISTS public."${match[1]}";
+DROP TYPE IF EXISTS ${qualifiedRef(match[1]).ref};
 `);
       }
     } else if (script.description.startsWith('Add value')) {
@@ -736,7 +1468,7 @@ DROP TYPE IF EXISTS public."${match[1]}";
         const indexName = script.sql.match(/CREATE .+INDEX "(.+?)"/)?.[1];
         if (indexName) {
           rollbackStatements.push(`-- Rollback: ${script.description}
-DROP INDEX IF EXISTS public."${indexName}";
+DROP INDEX IF EXISTS ${escapeIdentifier(qualifiedRef(match[1]).schema)}."${indexName}";
 `);
         }
       }
@@ -820,7 +1552,7 @@ function getFullDataType(column: DetailedColumn): string {
   
   if (column.dataType === 'USER-DEFINED' || !isKnownType) {
     // It's an ENUM or custom type - keep original name with proper quoting
-    return `public."${type}"`;
+    return `${escapeIdentifier(column.udtSchema || DEFAULT_SCHEMA)}."${type}"`;
   }
   
   return type.toUpperCase();
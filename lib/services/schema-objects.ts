@@ -0,0 +1,52 @@
+/**
+ * Schema Object Helpers
+ *
+ * Keys, comparisons and ordering for the database objects beyond tables
+ * (functions, views, triggers, policies), shared by the schema inspector,
+ * validator and migration generator.
+ */
+
+import type { FunctionDefinition, ViewDefinition } from '@/types';
+import { qualifyTableName } from './security-utils';
+
+/**
+ * Collapse whitespace so formatting differences don't count as changes
+ */
+export function normalizeDefinition(definition: string | null): string {
+  return (definition ?? '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Key identifying a function overload, e.g. `billing.charge(amount integer)`
+ */
+export function functionKey(fn: FunctionDefinition): string {
+  return `${qualifyTableName(fn.schema, fn.name)}(${fn.identityArguments})`;
+}
+
+/**
+ * Order views so each one comes after the views it selects from, keeping the
+ * given order otherwise. Catalog (creation) order isn't enough: CREATE OR
+ * REPLACE can make an older view depend on a newer one.
+ */
+export function sortViewsByDependency(views: ViewDefinition[]): ViewDefinition[] {
+  const byName = new Map(views.map((v) => [qualifyTableName(v.schema, v.name), v]));
+  const visited = new Set<string>();
+  const sorted: ViewDefinition[] = [];
+
+  const visit = (name: string) => {
+    const view = byName.get(name);
+    if (!view || visited.has(name)) return;
+    visited.add(name);
+
+    for (const dependency of view.dependsOn || []) {
+      visit(dependency);
+    }
+    sorted.push(view);
+  };
+
+  for (const name of byName.keys()) {
+    visit(name);
+  }
+
+  return sorted;
+}
@@ -6,7 +6,14 @@
  */
 
 import { inspectDatabaseSchema, areTypesCompatible, canSafelyInsert } from './schema-inspector';
+import { getChangeTrackingKind, DEFAULT_CHANGE_TRACKING_COLUMN } from './change-tracking';
+import { validateRowFilters } from './row-filter';
+import { detectRenameCandidates } from './rename-detector';
+import { getSyncKeyColumns } from './primary-key';
+import { functionKey, normalizeDefinition } from './schema-objects';
+import { DEFAULT_SCHEMA, parseQualifiedTableName, qualifyTableName } from './security-utils';
 import type {
+  RowFilter,
   DatabaseSchema,
   DetailedColumn,
   DetailedTableSchema,
@@ -15,6 +22,8 @@ import type {
   SchemaValidationResult,
   TableComparisonResult,
   ColumnComparisonResult,
+  RlsPolicy,
+  SequenceDefinition,
 } from '@/types';
 
 let issueCounter = 0;
@@ -52,19 +61,31 @@ function columnsMatch(cols1: unknown, cols2: unknown): boolean {
 
 /**
  * Validate schema compatibility between source and target databases
+ *
+ * @param changeTrackingColumns - Per-table change tracking column from the
+ *   table configs. Missing entries use `updated_at`; `null` means the table
+ *   is compared by row hash.
+ * @param rowFilters - Per-table row filters from the table configs, checked
+ *   against the source table's columns.
  */
 export async function validateSchemas(
   sourceUrl: string,
   targetUrl: string,
-  selectedTables: string[]
+  selectedTables: string[],
+  changeTrackingColumns: Record<string, string | null | undefined> = {},
+  rowFilters: Record<string, RowFilter[] | undefined> = {}
 ): Promise<SchemaValidationResult> {
   // Reset issue counter for each validation
   issueCounter = 0;
   
-  // Inspect both schemas
+  // Inspect both schemas, covering every schema a selected table lives in
+  const schemas = [...new Set([
+    DEFAULT_SCHEMA,
+    ...selectedTables.map((t) => parseQualifiedTableName(t).schema),
+  ])];
   const [sourceSchema, targetSchema] = await Promise.all([
-    inspectDatabaseSchema(sourceUrl),
-    inspectDatabaseSchema(targetUrl),
+    inspectDatabaseSchema(sourceUrl, schemas),
+    inspectDatabaseSchema(targetUrl, schemas),
   ]);
   
   const issues: ValidationIssue[] = [];
@@ -82,10 +103,41 @@ export async function validateSchemas(
     const sourceTable = sourceTableMap.get(tableName);
     const targetTable = targetTableMap.get(tableName);
     
-    const comparison = compareTable(tableName, sourceTable, targetTable, issues);
+    const comparison = compareTable(
+      tableName,
+      sourceTable,
+      targetTable,
+      issues,
+      changeTrackingColumns[tableName],
+      rowFilters[tableName]
+    );
     comparisonDetails.push(comparison);
   }
   
+  // Compare the objects around the tables
+  compareExtensions(sourceSchema, targetSchema, issues);
+  compareSequences(sourceSchema, targetSchema, selectedTables, issues);
+  compareFunctions(sourceSchema, targetSchema, issues);
+  compareViews(sourceSchema, targetSchema, issues);
+  compareTriggers(sourceSchema, targetSchema, selectedTables, issues);
+  compareRowLevelSecurity(sourceSchema, targetSchema, selectedTables, issues);
+  
+  // Flag likely renames, which would otherwise migrate as drop + add
+  const renameCandidates = detectRenameCandidates(sourceSchema, targetSchema, selectedTables);
+  for (const candidate of renameCandidates) {
+    const kind = candidate.kind === 'table' ? 'Table' : 'Column';
+    issues.push({
+      id: generateIssueId(),
+      severity: 'MEDIUM',
+      category: 'Possible Rename',
+      tableName: candidate.tableName,
+      columnName: candidate.kind === 'column' ? candidate.to : undefined,
+      message: `${kind} "${candidate.from}" in target may have been renamed to "${candidate.to}" (${Math.round(candidate.confidence * 100)}% confidence)`,
+      details: `Matched on: ${candidate.reasons.join(', ')}.`,
+      recommendation: `Accept the rename when generating the migration to keep the existing data; otherwise an empty ${kind.toLowerCase()} is created.`,
+    });
+  }
+  
   // Calculate summary
   const summary = {
     critical: issues.filter((i) => i.severity === 'CRITICAL').length,
@@ -109,9 +161,34 @@ export async function validateSchemas(
     sourceSchema,
     targetSchema,
     comparisonDetails,
+    renameCandidates,
   };
 }
 
+/**
+ * Split the selected tables, given by name or by table config, into the
+ * table names and per-table options validateSchemas takes
+ */
+export function getTableValidationOptions(
+  tables: Array<string | { tableName: string; changeTrackingColumn?: string | null; filters?: RowFilter[] }>
+): {
+  tableNames: string[];
+  changeTrackingColumns: Record<string, string | null | undefined>;
+  rowFilters: Record<string, RowFilter[] | undefined>;
+} {
+  const changeTrackingColumns: Record<string, string | null | undefined> = {};
+  const rowFilters: Record<string, RowFilter[] | undefined> = {};
+  
+  const tableNames = tables.map((table) => {
+    if (typeof table === 'string') return table;
+    changeTrackingColumns[table.tableName] = table.changeTrackingColumn;
+    rowFilters[table.tableName] = table.filters;
+    return table.tableName;
+  });
+  
+  return { tableNames, changeTrackingColumns, rowFilters };
+}
+
 /**
  * Compare ENUM types between source and target
  */
@@ -196,6 +273,361 @@ function compareEnumTypes(
   }
 }
 
+// ============================================================================
+// DATABASE OBJECTS - Extensions, sequences, functions, views, triggers, RLS
+// ============================================================================
+// Arrays are read with `|| []` so results inspected before these objects
+// existed still validate.
+
+function policyKey(policy: RlsPolicy): string {
+  return `${policy.tableName}:${policy.name}`;
+}
+
+/**
+ * Table a sequence's owning column belongs to (`ownedBy` is `table.column`)
+ */
+function sequenceOwnerTable(sequence: SequenceDefinition): string | null {
+  return sequence.ownedBy ? sequence.ownedBy.slice(0, sequence.ownedBy.lastIndexOf('.')) : null;
+}
+
+/**
+ * Compare installed extensions (database-wide)
+ */
+function compareExtensions(
+  sourceSchema: DatabaseSchema,
+  targetSchema: DatabaseSchema,
+  issues: ValidationIssue[]
+): void {
+  const targetExtensions = new Map((targetSchema.extensions || []).map((e) => [e.name, e]));
+  
+  for (const extension of sourceSchema.extensions || []) {
+    const targetExtension = targetExtensions.get(extension.name);
+    
+    if (!targetExtension) {
+      issues.push({
+        id: generateIssueId(),
+        severity: 'HIGH',
+        category: 'Extensions',
+        tableName: `EXTENSION:${extension.name}`,
+        message: `Extension "${extension.name}" is not installed in target database`,
+        details: `Source has ${extension.name} ${extension.version} in schema "${extension.schema}". Columns, defaults and functions that use it will fail in the target.`,
+        recommendation: 'The migration will create the extension. Some extensions must be enabled from the Supabase dashboard.',
+      });
+    } else if (targetExtension.version !== extension.version) {
+      issues.push({
+        id: generateIssueId(),
+        severity: 'INFO',
+        category: 'Extensions',
+        tableName: `EXTENSION:${extension.name}`,
+        message: `Extension "${extension.name}" version differs (source ${extension.version}, target ${targetExtension.version})`,
+        details: 'Functions added in newer versions may be missing from the older one.',
+        recommendation: 'Update the older installation with ALTER EXTENSION ... UPDATE if needed.',
+      });
+    }
+  }
+}
+
+/**
+ * Compare sequences: missing standalone/serial sequences, and target
+ * sequences that are behind the source (inserts would reuse synced IDs)
+ */
+function compareSequences(
+  sourceSchema: DatabaseSchema,
+  targetSchema: DatabaseSchema,
+  selectedTables: string[],
+  issues: ValidationIssue[]
+): void {
+  const selected = new Set(selectedTables);
+  const targetSequences = new Map(
+    (targetSchema.sequences || []).map((s) => [qualifyTableName(s.schema, s.name), s])
+  );
+  
+  for (const sequence of sourceSchema.sequences || []) {
+    const owner = sequenceOwnerTable(sequence);
+    if (owner && !selected.has(owner)) continue;
+    
+    const sequenceName = qualifyTableName(sequence.schema, sequence.name);
+    const targetSequence = targetSequences.get(sequenceName);
+    
+    if (!targetSequence) {
+      // Identity sequences come with their column
+      if (sequence.isIdentity) continue;
+      
+      issues.push({
+        id: generateIssueId(),
+        severity: 'HIGH',
+        category: 'Sequences',
+        tableName: `SEQUENCE:${sequenceName}`,
+        message: `Sequence "${sequenceName}" does not exist in target database`,
+        details: owner
+          ? `Used by ${sequence.ownedBy}. Column defaults that call nextval() on it will fail.`
+          : 'Column defaults or functions that call nextval() on it will fail.',
+        recommendation: 'The migration will create the sequence and set its current value.',
+      });
+    } else if (
+      sequence.lastValue !== null &&
+      (targetSequence.lastValue === null || BigInt(targetSequence.lastValue) < BigInt(sequence.lastValue))
+    ) {
+      issues.push({
+        id: generateIssueId(),
+        severity: 'MEDIUM',
+        category: 'Sequences',
+        tableName: `SEQUENCE:${sequenceName}`,
+        message: `Sequence "${sequenceName}" is behind source (source ${sequence.lastValue}, target ${targetSequence.lastValue ?? 'unused'})`,
+        details: 'After syncing rows, new inserts in the target would generate IDs that already exist.',
+        recommendation: 'The migration will advance the target sequence to the source value.',
+      });
+    }
+  }
+}
+
+/**
+ * Compare functions and procedures by signature and definition
+ */
+function compareFunctions(
+  sourceSchema: DatabaseSchema,
+  targetSchema: DatabaseSchema,
+  issues: ValidationIssue[]
+): void {
+  const sourceFunctions = new Map((sourceSchema.functions || []).map((f) => [functionKey(f), f]));
+  const targetFunctions = new Map((targetSchema.functions || []).map((f) => [functionKey(f), f]));
+  
+  for (const [key, fn] of sourceFunctions) {
+    const targetFn = targetFunctions.get(key);
+    
+    if (!targetFn) {
+      issues.push({
+        id: generateIssueId(),
+        severity: 'MEDIUM',
+        category: 'Functions',
+        tableName: `FUNCTION:${key}`,
+        message: `${fn.kind === 'procedure' ? 'Procedure' : 'Function'} "${key}" does not exist in target database`,
+        details: `Triggers, policies, defaults and RPC calls that use this ${fn.language} ${fn.kind} will fail.`,
+        recommendation: `The migration will create the ${fn.kind}.`,
+      });
+    } else if (normalizeDefinition(fn.definition) !== normalizeDefinition(targetFn.definition)) {
+      issues.push({
+        id: generateIssueId(),
+        severity: 'LOW',
+        category: 'Functions',
+        tableName: `FUNCTION:${key}`,
+        message: `${fn.kind === 'procedure' ? 'Procedure' : 'Function'} "${key}" differs between source and target`,
+        details: 'The body or attributes (volatility, security, search_path) have changed.',
+        recommendation: 'The migration will replace the target definition; the rollback restores it.',
+      });
+    }
+  }
+  
+  for (const key of targetFunctions.keys()) {
+    if (!sourceFunctions.has(key)) {
+      issues.push({
+        id: generateIssueId(),
+        severity: 'INFO',
+        category: 'Functions',
+        tableName: `FUNCTION:${key}`,
+        message: `Function "${key}" exists in target but not in source`,
+        details: 'This won\'t affect sync from source to target.',
+        recommendation: 'No action needed unless you want to keep schemas identical.',
+      });
+    }
+  }
+}
+
+/**
+ * Compare views and materialized views
+ */
+function compareViews(
+  sourceSchema: DatabaseSchema,
+  targetSchema: DatabaseSchema,
+  issues: ValidationIssue[]
+): void {
+  const targetViews = new Map(
+    (targetSchema.views || []).map((v) => [qualifyTableName(v.schema, v.name), v])
+  );
+  const sourceViewNames = new Set<string>();
+  
+  for (const view of sourceSchema.views || []) {
+    const viewName = qualifyTableName(view.schema, view.name);
+    const kind = view.isMaterialized ? 'Materialized view' : 'View';
+    const targetView = targetViews.get(viewName);
+    sourceViewNames.add(viewName);
+    
+    if (!targetView) {
+      issues.push({
+        id: generateIssueId(),
+        severity: 'MEDIUM',
+        category: 'Views',
+        tableName: `VIEW:${viewName}`,
+        message: `${kind} "${viewName}" does not exist in target database`,
+        details: 'Queries and API calls that read from this view will fail.',
+        recommendation: `The migration will create the ${kind.toLowerCase()}.`,
+      });
+    } else if (
+      targetView.isMaterialized !== view.isMaterialized ||
+      normalizeDefinition(targetView.definition) !== normalizeDefinition(view.definition)
+    ) {
+      issues.push({
+        id: generateIssueId(),
+        severity: 'LOW',
+        category: 'Views',
+        tableName: `VIEW:${viewName}`,
+        message: `${kind} "${viewName}" differs between source and target`,
+        details: targetView.isMaterialized !== view.isMaterialized
+          ? `It is ${view.isMaterialized ? '' : 'not '}materialized in source but ${targetView.isMaterialized ? '' : 'not '}in target.`
+          : 'The view query has changed.',
+        recommendation: 'The migration will replace the target definition; the rollback restores it.',
+      });
+    }
+  }
+  
+  for (const viewName of targetViews.keys()) {
+    if (!sourceViewNames.has(viewName)) {
+      issues.push({
+        id: generateIssueId(),
+        severity: 'INFO',
+        category: 'Views',
+        tableName: `VIEW:${viewName}`,
+        message: `View "${viewName}" exists in target but not in source`,
+        details: 'This won\'t affect sync from source to target.',
+        recommendation: 'No action needed unless you want to keep schemas identical.',
+      });
+    }
+  }
+}
+
+/**
+ * Compare triggers on the selected tables
+ */
+function compareTriggers(
+  sourceSchema: DatabaseSchema,
+  targetSchema: DatabaseSchema,
+  selectedTables: string[],
+  issues: ValidationIssue[]
+): void {
+  const selected = new Set(selectedTables);
+  const targetTriggers = new Map(
+    (targetSchema.triggers || []).map((t) => [`${t.tableName}:${t.name}`, t])
+  );
+  
+  for (const trigger of sourceSchema.triggers || []) {
+    if (!selected.has(trigger.tableName)) continue;
+    
+    const targetTrigger = targetTriggers.get(`${trigger.tableName}:${trigger.name}`);
+    
+    if (!targetTrigger) {
+      issues.push({
+        id: generateIssueId(),
+        severity: 'MEDIUM',
+        category: 'Triggers',
+        tableName: trigger.tableName,
+        message: `Trigger "${trigger.name}" does not exist in target`,
+        details: 'Behaviour the app relies on (timestamps, audit rows, denormalized columns) won\'t happen in the target.',
+        recommendation: 'The migration will create the trigger.',
+      });
+    } else if (
+      normalizeDefinition(targetTrigger.definition) !== normalizeDefinition(trigger.definition) ||
+      targetTrigger.isEnabled !== trigger.isEnabled
+    ) {
+      issues.push({
+        id: generateIssueId(),
+        severity: 'LOW',
+        category: 'Triggers',
+        tableName: trigger.tableName,
+        message: `Trigger "${trigger.name}" differs between source and target`,
+        details: targetTrigger.isEnabled !== trigger.isEnabled
+          ? `It is ${trigger.isEnabled ? 'enabled' : 'disabled'} in source but ${targetTrigger.isEnabled ? 'enabled' : 'disabled'} in target.`
+          : `Source: ${trigger.definition}`,
+        recommendation: 'The migration will recreate the trigger; the rollback restores it.',
+      });
+    }
+  }
+}
+
+/**
+ * Compare row-level security: whether it is enabled on the selected tables,
+ * and their policies. A table with RLS but no matching policies either
+ * exposes every row or denies every request.
+ */
+function compareRowLevelSecurity(
+  sourceSchema: DatabaseSchema,
+  targetSchema: DatabaseSchema,
+  selectedTables: string[],
+  issues: ValidationIssue[]
+): void {
+  const selected = new Set(selectedTables);
+  const targetTables = new Map(targetSchema.tables.map((t) => [t.tableName, t]));
+  
+  for (const table of sourceSchema.tables) {
+    const targetTable = targetTables.get(table.tableName);
+    if (!selected.has(table.tableName) || !targetTable) continue;
+    
+    if (table.rlsEnabled && !targetTable.rlsEnabled) {
+      issues.push({
+        id: generateIssueId(),
+        severity: 'HIGH',
+        category: 'Row Level Security',
+        tableName: table.tableName,
+        message: 'Row level security is enabled in source but not in target',
+        details: 'Every row in the target table is readable and writable by any role with table access (e.g. the anon key).',
+        recommendation: 'The migration will enable row level security on the target table.',
+      });
+    }
+  }
+  
+  const sourcePolicies = new Map(
+    (sourceSchema.policies || []).filter((p) => selected.has(p.tableName)).map((p) => [policyKey(p), p])
+  );
+  const targetPolicies = new Map(
+    (targetSchema.policies || []).filter((p) => selected.has(p.tableName)).map((p) => [policyKey(p), p])
+  );
+  
+  for (const [key, policy] of sourcePolicies) {
+    const targetPolicy = targetPolicies.get(key);
+    
+    if (!targetPolicy) {
+      issues.push({
+        id: generateIssueId(),
+        severity: 'HIGH',
+        category: 'Row Level Security',
+        tableName: policy.tableName,
+        message: `Policy "${policy.name}" does not exist in target`,
+        details: `${policy.command} for ${policy.roles.join(', ') || 'public'}. Requests it allows in source will be denied (or not restricted) in target.`,
+        recommendation: 'The migration will create the policy.',
+      });
+    } else if (
+      targetPolicy.command !== policy.command ||
+      targetPolicy.permissive !== policy.permissive ||
+      [...targetPolicy.roles].sort().join(',') !== [...policy.roles].sort().join(',') ||
+      normalizeDefinition(targetPolicy.using) !== normalizeDefinition(policy.using) ||
+      normalizeDefinition(targetPolicy.withCheck) !== normalizeDefinition(policy.withCheck)
+    ) {
+      issues.push({
+        id: generateIssueId(),
+        severity: 'MEDIUM',
+        category: 'Row Level Security',
+        tableName: policy.tableName,
+        message: `Policy "${policy.name}" differs between source and target`,
+        details: `Source: ${policy.command} USING (${policy.using ?? 'true'})${policy.withCheck ? ` WITH CHECK (${policy.withCheck})` : ''}`,
+        recommendation: 'The migration will recreate the policy; the rollback restores it.',
+      });
+    }
+  }
+  
+  for (const [key, policy] of targetPolicies) {
+    if (!sourcePolicies.has(key)) {
+      issues.push({
+        id: generateIssueId(),
+        severity: 'INFO',
+        category: 'Row Level Security',
+        tableName: policy.tableName,
+        message: `Policy "${policy.name}" exists in target but not in source`,
+        details: 'Target access rules are stricter or looser than the source.',
+        recommendation: 'No action needed unless you want to keep schemas identical.',
+      });
+    }
+  }
+}
+
 /**
  * Compare a single table between source and target
  */
@@ -203,7 +635,9 @@ function compareTable(
   tableName: string,
   sourceTable: DetailedTableSchema | undefined,
   targetTable: DetailedTableSchema | undefined,
-  issues: ValidationIssue[]
+  issues: ValidationIssue[],
+  changeTrackingColumn?: string | null,
+  rowFilters?: RowFilter[]
 ): TableComparisonResult {
   const result: TableComparisonResult = {
     tableName,
@@ -247,7 +681,26 @@ function compareTable(
   }
   
   // Validate required columns (check both tables together to avoid duplicates)
-  validateRequiredColumnsForSync(tableName, sourceTable, targetTable, issues);
+  validateRequiredColumnsForSync(tableName, sourceTable, targetTable, issues, changeTrackingColumn);
+  
+  // Row filters must reference existing source columns
+  if (rowFilters && rowFilters.length > 0) {
+    const filterErrors = validateRowFilters(rowFilters, sourceTable.columns.map((c) => c.name));
+    for (const error of filterErrors) {
+      issues.push({
+        id: generateIssueId(),
+        severity: 'CRITICAL',
+        category: 'Row Filters',
+        tableName,
+        message: error,
+        details: 'The table\'s row filter cannot be applied, so no rows would be synced.',
+        recommendation: 'Fix or remove the filter in the table configuration.',
+      });
+    }
+    if (filterErrors.length > 0) {
+      result.isCompatible = false;
+    }
+  }
   
   // Compare columns
   result.columnComparison = compareColumns(tableName, sourceTable, targetTable, issues);
@@ -277,94 +730,115 @@ function validateRequiredColumnsForSync(
   tableName: string,
   sourceTable: DetailedTableSchema,
   targetTable: DetailedTableSchema,
-  issues: ValidationIssue[]
+  issues: ValidationIssue[],
+  changeTrackingColumn?: string | null
 ): void {
-  const sourceIdCol = sourceTable.columns.find((c) => c.name === 'id');
-  const targetIdCol = targetTable.columns.find((c) => c.name === 'id');
-  const sourceUpdatedAtCol = sourceTable.columns.find((c) => c.name === 'updated_at');
-  const targetUpdatedAtCol = targetTable.columns.find((c) => c.name === 'updated_at');
+  const sourceKey = getSyncKeyColumns(sourceTable);
+  const targetKey = getSyncKeyColumns(targetTable);
   
-  // Check id column
-  const sourceMissingId = !sourceIdCol;
-  const targetMissingId = !targetIdCol;
-  
-  if (sourceMissingId || targetMissingId) {
-    const location = sourceMissingId && targetMissingId 
+  // Rows are matched by the primary key, or an "id" column without one
+  if (!sourceKey || !targetKey) {
+    const location = !sourceKey && !targetKey 
       ? 'both databases' 
-      : sourceMissingId ? 'source database' : 'target database';
+      : !sourceKey ? 'source database' : 'target database';
     issues.push({
       id: generateIssueId(),
       severity: 'CRITICAL',
       category: 'Required Columns',
       tableName,
+      message: `No primary key in ${location}`,
+      details: 'Sync matches rows by the table\'s primary key (or an "id" column) and cannot sync a table without one.',
+      recommendation: 'Add a PRIMARY KEY constraint to the table.',
+    });
+  } else if (sourceKey.join(',') !== targetKey.join(',')) {
+    issues.push({
+      id: generateIssueId(),
+      severity: 'CRITICAL',
+      category: 'Required Columns',
+      tableName,
+      message: `Primary key differs: (${sourceKey.join(', ')}) in source, (${targetKey.join(', ')}) in target`,
+      details: 'Rows are matched by the target\'s primary key, so source rows would be matched by the wrong columns.',
+      recommendation: 'Use the same primary key columns in both databases.',
+    });
+  } else if (!sourceTable.primaryKey || !targetTable.primaryKey) {
+    issues.push({
+      id: generateIssueId(),
+      severity: 'MEDIUM',
+      category: 'Required Columns',
+      tableName,
       columnName: 'id',
-      message: `Missing required "id" column in ${location}`,
-      details: 'Sync requires an "id" column of type UUID as the primary key.',
-      recommendation: 'Add an "id UUID PRIMARY KEY" column to the table.',
+      message: 'No declared primary key; rows will be matched by the "id" column',
+      details: 'Without a primary key constraint, duplicate "id" values can make rows match more than once.',
+      recommendation: 'Declare "id" as the PRIMARY KEY.',
     });
-  } else {
-    // Check id column type
-    const sourceIdWrongType = sourceIdCol.udtName !== 'uuid';
-    const targetIdWrongType = targetIdCol.udtName !== 'uuid';
-    
-    if (sourceIdWrongType || targetIdWrongType) {
-      const location = sourceIdWrongType && targetIdWrongType 
-        ? 'both databases' 
-        : sourceIdWrongType ? 'source database' : 'target database';
-      const wrongType = sourceIdWrongType ? sourceIdCol.udtName : targetIdCol.udtName;
-      issues.push({
-        id: generateIssueId(),
-        severity: 'CRITICAL',
-        category: 'Required Columns',
-        tableName,
-        columnName: 'id',
-        message: `"id" column has wrong type (${wrongType}) in ${location}`,
-        details: 'The "id" column must be of type UUID for sync to work correctly.',
-        recommendation: 'Alter the "id" column to be UUID type.',
-      });
-    }
   }
   
-  // Check updated_at column
-  const sourceMissingUpdatedAt = !sourceUpdatedAtCol;
-  const targetMissingUpdatedAt = !targetUpdatedAtCol;
+  validateChangeTrackingColumn(tableName, sourceTable, targetTable, issues, changeTrackingColumn);
+}
+
+/**
+ * Validate the change tracking column used for incremental sync and conflict
+ * resolution. Tables without a usable column still sync, but every existing
+ * row is compared by hash, so this is reported as a warning.
+ */
+function validateChangeTrackingColumn(
+  tableName: string,
+  sourceTable: DetailedTableSchema,
+  targetTable: DetailedTableSchema,
+  issues: ValidationIssue[],
+  changeTrackingColumn?: string | null
+): void {
+  if (changeTrackingColumn === null) {
+    issues.push({
+      id: generateIssueId(),
+      severity: 'INFO',
+      category: 'Change Tracking',
+      tableName,
+      message: 'Change tracking disabled, rows will be compared by hash',
+      details: 'Every row that exists in both databases is hashed and compared on each sync.',
+      recommendation: 'Configure a timestamp or version column for faster incremental sync.',
+    });
+    return;
+  }
+  
+  const column = changeTrackingColumn || DEFAULT_CHANGE_TRACKING_COLUMN;
+  const sourceCol = sourceTable.columns.find((c) => c.name === column);
+  const targetCol = targetTable.columns.find((c) => c.name === column);
   
-  if (sourceMissingUpdatedAt || targetMissingUpdatedAt) {
-    const location = sourceMissingUpdatedAt && targetMissingUpdatedAt 
+  if (!sourceCol || !targetCol) {
+    const location = !sourceCol && !targetCol 
       ? 'both databases' 
-      : sourceMissingUpdatedAt ? 'source database' : 'target database';
+      : !sourceCol ? 'source database' : 'target database';
     issues.push({
       id: generateIssueId(),
-      severity: 'CRITICAL',
-      category: 'Required Columns',
+      severity: 'MEDIUM',
+      category: 'Change Tracking',
       tableName,
-      columnName: 'updated_at',
-      message: `Missing required "updated_at" column in ${location}`,
-      details: 'Sync requires an "updated_at" column of type TIMESTAMPTZ for incremental sync.',
-      recommendation: 'Add an "updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()" column and create an update trigger.',
+      columnName: column,
+      message: `Change tracking column "${column}" is missing in ${location}`,
+      details: 'Without a change tracking column, sync falls back to comparing full row hashes. ' +
+        'Changes cannot be ordered, so two-way conflicts always resolve in favour of the source.',
+      recommendation: `Add a "${column}" TIMESTAMPTZ or integer version column, or configure a different change tracking column for this table.`,
+    });
+    return;
+  }
+  
+  const sourceKind = getChangeTrackingKind(sourceCol.udtName);
+  const targetKind = getChangeTrackingKind(targetCol.udtName);
+  
+  if (!sourceKind || !targetKind || sourceKind !== targetKind) {
+    const wrongType = !sourceKind ? sourceCol.udtName : targetCol.udtName;
+    issues.push({
+      id: generateIssueId(),
+      severity: 'MEDIUM',
+      category: 'Change Tracking',
+      tableName,
+      columnName: column,
+      message: `Change tracking column "${column}" has unsupported type (${wrongType})`,
+      details: 'Change tracking columns must be a timestamp or an integer version on both sides. ' +
+        'Sync will fall back to comparing full row hashes.',
+      recommendation: `Alter "${column}" to TIMESTAMPTZ or an integer type.`,
     });
-  } else {
-    // Check updated_at column type
-    const validTypes = ['timestamptz', 'timestamp'];
-    const sourceWrongType = !validTypes.includes(sourceUpdatedAtCol.udtName);
-    const targetWrongType = !validTypes.includes(targetUpdatedAtCol.udtName);
-    
-    if (sourceWrongType || targetWrongType) {
-      const location = sourceWrongType && targetWrongType 
-        ? 'both databases' 
-        : sourceWrongType ? 'source database' : 'target database';
-      const wrongType = sourceWrongType ? sourceUpdatedAtCol.udtName : targetUpdatedAtCol.udtName;
-      issues.push({
-        id: generateIssueId(),
-        severity: 'CRITICAL',
-        category: 'Required Columns',
-        tableName,
-        columnName: 'updated_at',
-        message: `"updated_at" column has wrong type (${wrongType}) in ${location}`,
-        details: 'The "updated_at" column must be of type TIMESTAMPTZ or TIMESTAMP.',
-        recommendation: 'Alter the "updated_at" column to be TIMESTAMPTZ type.',
-      });
-    }
   }
 }
 
@@ -30,7 +30,12 @@ export type SecurityEventType =
   | 'suspicious_activity'
   | 'new_device_login'
   | 'password_changed'
-  | 'api_error';
+  | 'api_token_created'
+  | 'api_token_revoked'
+  | 'api_token_used'
+  | 'api_token_rejected'
+  | 'api_error'
+  | 'rows_changed';
 
 export type SecuritySeverity = 'low' | 'medium' | 'high' | 'critical';
 
@@ -68,7 +73,12 @@ const EVENT_SEVERITY: Record<SecurityEventType, SecuritySeverity> = {
   suspicious_activity: 'high',
   new_device_login: 'medium',
   password_changed: 'medium',
+  api_token_created: 'medium',
+  api_token_revoked: 'medium',
+  api_token_used: 'low',
+  api_token_rejected: 'medium',
   api_error: 'low',
+  rows_changed: 'medium',
 };
 
 // ============================================================================
@@ -348,6 +358,21 @@ export async function logSuspiciousActivity(
   });
 }
 
+/**
+ * Log rows inserted, updated or deleted through the data explorer. Flushed
+ * right away so the audit entry is not lost with a short-lived function.
+ */
+export async function logRowChanges(
+  event: Omit<SecurityEvent, 'eventType' | 'severity'>
+): Promise<void> {
+  await logSecurityEvent({
+    ...event,
+    eventType: 'rows_changed',
+    severity: 'medium',
+  });
+  await flushSecurityEvents();
+}
+
 /**
  * Flush all pending security events
  */
@@ -61,8 +61,79 @@ export function isValidTableName(tableName: string): boolean {
   return true;
 }
 
+// ============================================================================
+// SCHEMA-QUALIFIED TABLE NAMES
+// ============================================================================
+
+/**
+ * Schema assumed for table names without a schema prefix
+ */
+export const DEFAULT_SCHEMA = 'public';
+
+/**
+ * Validate a schema name (same rules as identifiers, no system schemas)
+ */
+export function isValidSchemaName(schemaName: string): boolean {
+  if (!isValidIdentifier(schemaName)) return false;
+  if (schemaName.startsWith('pg_')) return false; // pg_catalog, pg_toast, ...
+  if (schemaName === 'information_schema') return false;
+  return true;
+}
+
+/**
+ * Split a table name into schema and table parts.
+ * Names without a schema prefix belong to the default (`public`) schema.
+ */
+export function parseQualifiedTableName(name: string): { schema: string; table: string } {
+  const dot = name.indexOf('.');
+  if (dot === -1) {
+    return { schema: DEFAULT_SCHEMA, table: name };
+  }
+  return { schema: name.slice(0, dot), table: name.slice(dot + 1) };
+}
+
+/**
+ * Build the key used for a table throughout the app.
+ * Tables in `public` keep their bare name so existing configurations stay
+ * valid; tables in other schemas are keyed as `schema.table`.
+ */
+export function qualifyTableName(schema: string, table: string): string {
+  return schema === DEFAULT_SCHEMA ? table : `${schema}.${table}`;
+}
+
+/**
+ * Validate a table name that may be schema-qualified (`schema.table`)
+ */
+export function isValidQualifiedTableName(name: string): boolean {
+  if (!name || typeof name !== 'string') return false;
+  const { schema, table } = parseQualifiedTableName(name);
+  return isValidSchemaName(schema) && isValidTableName(table);
+}
+
+/**
+ * Escape a possibly schema-qualified table name, escaping each part
+ * separately: `billing.invoices` becomes `"billing"."invoices"`.
+ *
+ * SECURITY: Validates both parts before escaping
+ */
+export function escapeQualifiedName(name: string): string {
+  if (!isValidQualifiedTableName(name)) {
+    throw new SecurityError(`Invalid table name: ${name}`);
+  }
+  const { schema, table } = parseQualifiedTableName(name);
+  return `${escapeIdentifier(schema)}.${escapeIdentifier(table)}`;
+}
+
+/**
+ * SQL expression producing the app's table key from schema and table name
+ * columns (see qualifyTableName). Column references must be trusted.
+ */
+export function qualifiedTableNameSql(schemaColumn: string, tableColumn: string): string {
+  return `CASE WHEN ${schemaColumn} = '${DEFAULT_SCHEMA}' THEN ${tableColumn} ELSE ${schemaColumn} || '.' || ${tableColumn} END`;
+}
+
 /**
- * Validate multiple table names
+ * Validate multiple table names (optionally schema-qualified)
  * Returns array of valid table names and array of rejected ones
  */
 export function validateTableNames(tableNames: string[]): {
@@ -73,7 +144,7 @@ export function validateTableNames(tableNames: string[]): {
   const invalid: string[] = [];
   
   for (const name of tableNames) {
-    if (isValidTableName(name)) {
+    if (isValidQualifiedTableName(name)) {
       valid.push(name);
     } else {
       invalid.push(name);
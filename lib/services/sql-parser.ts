@@ -0,0 +1,901 @@
+/**
+ * SQL Parser
+ *
+ * A Postgres-aware tokenizer and statement splitter. It understands quoted
+ * identifiers, string literals (including E'' escapes), dollar-quoted bodies,
+ * nested block comments, CTEs and BEGIN ATOMIC function bodies well enough to
+ * classify statements, find the objects they touch and rate their risk. It is
+ * not a full grammar: beyond unterminated tokens and unbalanced parentheses,
+ * syntax errors are left for the database to report.
+ */
+
+import { DEFAULT_SCHEMA, qualifyTableName } from './security-utils';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type SqlTokenType =
+  | 'word'
+  | 'quoted_identifier'
+  | 'string'
+  | 'dollar_string'
+  | 'number'
+  | 'parameter'
+  | 'operator'
+  | 'punctuation'
+  | 'comment'
+  | 'whitespace';
+
+export interface SqlToken {
+  type: SqlTokenType;
+  /**
+   * Normalized value: lower-cased for words, unescaped for quoted identifiers
+   * and strings (dollar strings hold their body), as written otherwise
+   */
+  value: string;
+  /** Offset of the first character in the source */
+  start: number;
+  /** Offset just past the last character */
+  end: number;
+}
+
+export type SqlStatementType =
+  | 'SELECT'
+  | 'INSERT'
+  | 'UPDATE'
+  | 'DELETE'
+  | 'CREATE'
+  | 'ALTER'
+  | 'DROP'
+  | 'TRUNCATE'
+  | 'GRANT'
+  | 'REVOKE'
+  | 'BEGIN'
+  | 'COMMIT'
+  | 'ROLLBACK'
+  | 'OTHER'
+  | 'MIXED';
+
+export type SqlRiskLevel = 'safe' | 'caution' | 'dangerous';
+
+export interface SqlStatement {
+  /** Statement text, without the terminating semicolon or leading comments */
+  sql: string;
+  start: number;
+  end: number;
+  /** Significant tokens (no whitespace or comments) */
+  tokens: SqlToken[];
+}
+
+/**
+ * The clauses of an UPDATE or DELETE needed to count the rows it would touch
+ */
+export interface DmlClauses {
+  /** Leading WITH clause, including the WITH keyword */
+  withClause?: string;
+  /** Whether any CTE in the WITH clause writes data */
+  withModifiesData: boolean;
+  /** Target relation as written, including ONLY and any alias */
+  target: string;
+  /** Extra relations from UPDATE ... FROM or DELETE ... USING */
+  fromList?: string;
+  /** Top-level WHERE condition, without the WHERE keyword */
+  where?: string;
+  /** WHERE CURRENT OF <cursor> - the affected row depends on a cursor */
+  whereCurrentOf: boolean;
+}
+
+export interface ParsedSqlStatement extends SqlStatement {
+  type: SqlStatementType;
+  /**
+   * Tables and other objects the statement reads or changes. Objects in the
+   * default schema keep their bare name, others are `schema.name`.
+   */
+  affectedObjects: string[];
+  riskLevel: SqlRiskLevel;
+  /** Reasons for the risk level, prefixed with "Dangerous:" or "Caution:" */
+  warnings: string[];
+  /** Set for UPDATE and DELETE statements */
+  dml?: DmlClauses;
+}
+
+export interface ParsedSql {
+  statements: ParsedSqlStatement[];
+  /** Unterminated tokens and unbalanced parentheses */
+  errors: string[];
+}
+
+// ============================================================================
+// TOKENIZER
+// ============================================================================
+
+const WORD_START = /[A-Za-z_\u0080-\uffff]/;
+const WORD_CHAR = /[A-Za-z0-9_$\u0080-\uffff]/;
+const OPERATOR_CHARS = '+-*/<>=~!@#%^&|`?';
+const PUNCTUATION_CHARS = '()[],;.:';
+const DOLLAR_TAG = /\$(?:[A-Za-z_\u0080-\uffff][A-Za-z0-9_\u0080-\uffff]*)?\$/y;
+const NUMBER = /(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/y;
+
+/** Match a sticky regex at `index`, returning the matched text */
+function matchAt(regex: RegExp, text: string, index: number): string | null {
+  regex.lastIndex = index;
+  const match = regex.exec(text);
+  return match ? match[0] : null;
+}
+
+/**
+ * Split SQL into tokens. Never throws: unterminated strings, identifiers and
+ * comments run to the end of the input and are reported in `errors`.
+ */
+export function tokenizeSql(sql: string): { tokens: SqlToken[]; errors: string[] } {
+  const tokens: SqlToken[] = [];
+  const errors: string[] = [];
+  const length = sql.length;
+  let i = 0;
+
+  const push = (type: SqlTokenType, value: string, start: number) => {
+    tokens.push({ type, value, start, end: i });
+  };
+
+  // Read a quoted string or identifier whose opening quote is at `i`
+  const readQuoted = (quote: string, backslashEscapes: boolean): { value: string; closed: boolean } => {
+    let value = '';
+    i++;
+    while (i < length) {
+      const ch = sql[i];
+      if (backslashEscapes && ch === '\\' && i + 1 < length) {
+        value += sql[i + 1];
+        i += 2;
+      } else if (ch === quote) {
+        if (sql[i + 1] === quote) {
+          value += quote;
+          i += 2;
+        } else {
+          i++;
+          return { value, closed: true };
+        }
+      } else {
+        value += ch;
+        i++;
+      }
+    }
+    return { value, closed: false };
+  };
+
+  const readString = (start: number, backslashEscapes: boolean) => {
+    const { value, closed } = readQuoted("'", backslashEscapes);
+    if (!closed) errors.push('Unbalanced single quotes');
+    push('string', value, start);
+  };
+
+  const readIdentifier = (start: number) => {
+    const { value, closed } = readQuoted('"', false);
+    if (!closed) errors.push('Unbalanced double quotes');
+    push('quoted_identifier', value, start);
+  };
+
+  while (i < length) {
+    const start = i;
+    const ch = sql[i];
+    const next = sql[i + 1];
+    const dollarTag = ch === '$' ? matchAt(DOLLAR_TAG, sql, i) : null;
+
+    if (/\s/.test(ch)) {
+      while (i < length && /\s/.test(sql[i])) i++;
+      push('whitespace', sql.slice(start, i), start);
+    } else if (ch === '-' && next === '-') {
+      const newline = sql.indexOf('\n', i);
+      i = newline === -1 ? length : newline;
+      push('comment', sql.slice(start, i), start);
+    } else if (ch === '/' && next === '*') {
+      // Block comments nest in Postgres
+      let depth = 1;
+      i += 2;
+      while (i < length && depth > 0) {
+        if (sql[i] === '/' && sql[i + 1] === '*') {
+          depth++;
+          i += 2;
+        } else if (sql[i] === '*' && sql[i + 1] === '/') {
+          depth--;
+          i += 2;
+        } else {
+          i++;
+        }
+      }
+      if (depth > 0) errors.push('Unterminated block comment');
+      push('comment', sql.slice(start, i), start);
+    } else if ((ch === 'e' || ch === 'E') && next === "'") {
+      i++;
+      readString(start, true);
+    } else if (/[bBxXnN]/.test(ch) && next === "'") {
+      i++;
+      readString(start, false);
+    } else if ((ch === 'u' || ch === 'U') && next === '&' && (sql[i + 2] === "'" || sql[i + 2] === '"')) {
+      i += 2;
+      if (sql[i] === "'") readString(start, false);
+      else readIdentifier(start);
+    } else if (ch === "'") {
+      readString(start, false);
+    } else if (ch === '"') {
+      readIdentifier(start);
+    } else if (ch === '$' && next !== undefined && /\d/.test(next)) {
+      i++;
+      while (i < length && /\d/.test(sql[i])) i++;
+      push('parameter', sql.slice(start, i), start);
+    } else if (dollarTag) {
+      const bodyStart = start + dollarTag.length;
+      const close = sql.indexOf(dollarTag, bodyStart);
+      if (close === -1) {
+        errors.push('Unterminated dollar-quoted string');
+        i = length;
+        push('dollar_string', sql.slice(bodyStart), start);
+      } else {
+        i = close + dollarTag.length;
+        push('dollar_string', sql.slice(bodyStart, close), start);
+      }
+    } else if (/\d/.test(ch) || (ch === '.' && next !== undefined && /\d/.test(next))) {
+      i += (matchAt(NUMBER, sql, i) ?? ch).length;
+      push('number', sql.slice(start, i), start);
+    } else if (WORD_START.test(ch)) {
+      while (i < length && WORD_CHAR.test(sql[i])) i++;
+      push('word', sql.slice(start, i).toLowerCase(), start);
+    } else if (ch === ':' && next === ':') {
+      i += 2;
+      push('punctuation', '::', start);
+    } else if (PUNCTUATION_CHARS.includes(ch)) {
+      i++;
+      push('punctuation', ch, start);
+    } else if (OPERATOR_CHARS.includes(ch)) {
+      // An operator ends where a comment starts
+      while (
+        i < length &&
+        OPERATOR_CHARS.includes(sql[i]) &&
+        !(i > start && ((sql[i] === '-' && sql[i + 1] === '-') || (sql[i] === '/' && sql[i + 1] === '*')))
+      ) {
+        i++;
+      }
+      push('operator', sql.slice(start, i), start);
+    } else {
+      i++;
+      push('operator', ch, start);
+    }
+  }
+
+  return { tokens, errors };
+}
+
+function isSignificant(token: SqlToken): boolean {
+  return token.type !== 'whitespace' && token.type !== 'comment';
+}
+
+// ============================================================================
+// STATEMENT SPLITTING
+// ============================================================================
+
+function splitTokens(sql: string, tokens: SqlToken[]): SqlStatement[] {
+  const statements: SqlStatement[] = [];
+  let current: SqlToken[] = [];
+  let previous: SqlToken | undefined;
+  // Semicolons inside BEGIN ATOMIC ... END bodies don't end the statement
+  let atomicDepth = 0;
+  let caseDepth = 0;
+
+  const flush = () => {
+    if (current.length > 0) {
+      const start = current[0].start;
+      const end = current[current.length - 1].end;
+      statements.push({ sql: sql.slice(start, end), start, end, tokens: current });
+    }
+    current = [];
+  };
+
+  for (const token of tokens) {
+    if (!isSignificant(token)) continue;
+
+    if (token.type === 'word') {
+      if (token.value === 'atomic' && previous?.type === 'word' && previous.value === 'begin') {
+        atomicDepth++;
+      } else if (atomicDepth > 0 && token.value === 'case') {
+        caseDepth++;
+      } else if (atomicDepth > 0 && token.value === 'end') {
+        if (caseDepth > 0) caseDepth--;
+        else atomicDepth--;
+      }
+    }
+
+    if (token.type === 'punctuation' && token.value === ';' && atomicDepth === 0) {
+      flush();
+    } else {
+      current.push(token);
+    }
+    previous = token;
+  }
+  flush();
+
+  return statements;
+}
+
+/**
+ * Split a script into statements on top-level semicolons. Semicolons in
+ * strings, identifiers, comments, dollar-quoted bodies and BEGIN ATOMIC
+ * bodies are ignored; comment-only statements are dropped.
+ */
+export function splitSqlStatements(sql: string): SqlStatement[] {
+  return splitTokens(sql, tokenizeSql(sql).tokens);
+}
+
+// ============================================================================
+// ANALYSIS
+// ============================================================================
+
+const RISK_ORDER: Record<SqlRiskLevel, number> = { safe: 0, caution: 1, dangerous: 2 };
+
+/** Words that end a relation reference instead of aliasing it */
+const CLAUSE_KEYWORDS = new Set([
+  'where', 'join', 'left', 'right', 'inner', 'outer', 'full', 'cross', 'natural',
+  'on', 'using', 'group', 'order', 'limit', 'offset', 'having', 'window', 'union',
+  'except', 'intersect', 'returning', 'set', 'for', 'fetch', 'tablesample',
+  'lateral', 'from', 'into', 'values', 'select', 'default', 'overriding', 'do',
+  'with', 'as', 'to',
+]);
+
+/** Words that may precede the object kind in CREATE */
+const CREATE_MODIFIERS = new Set([
+  'or', 'replace', 'temp', 'temporary', 'unlogged', 'global', 'local', 'unique',
+  'recursive', 'trusted', 'procedural', 'constraint',
+]);
+
+/** Object kinds written as several words, longest first */
+const MULTI_WORD_KINDS = [
+  ['foreign', 'data', 'wrapper'],
+  ['text', 'search', 'configuration'],
+  ['text', 'search', 'dictionary'],
+  ['text', 'search', 'parser'],
+  ['text', 'search', 'template'],
+  ['materialized', 'view'],
+  ['foreign', 'table'],
+  ['event', 'trigger'],
+  ['access', 'method'],
+  ['operator', 'class'],
+  ['operator', 'family'],
+  ['user', 'mapping'],
+];
+
+const DML_TYPES = new Set<SqlStatementType>(['SELECT', 'INSERT', 'UPDATE', 'DELETE']);
+
+const LEADING_KEYWORD_TYPES: Record<string, SqlStatementType> = {
+  select: 'SELECT',
+  values: 'SELECT',
+  table: 'SELECT',
+  insert: 'INSERT',
+  update: 'UPDATE',
+  delete: 'DELETE',
+  create: 'CREATE',
+  alter: 'ALTER',
+  drop: 'DROP',
+  truncate: 'TRUNCATE',
+  grant: 'GRANT',
+  revoke: 'REVOKE',
+  begin: 'BEGIN',
+  start: 'BEGIN',
+  commit: 'COMMIT',
+  end: 'COMMIT',
+  rollback: 'ROLLBACK',
+  abort: 'ROLLBACK',
+};
+
+interface Analysis {
+  type: SqlStatementType;
+  objects: string[];
+  riskLevel: SqlRiskLevel;
+  warnings: { level: SqlRiskLevel; message: string }[];
+  dml?: DmlClauses;
+}
+
+/**
+ * Walks the significant tokens of one statement (or one CTE body)
+ */
+class StatementAnalyzer {
+  private readonly depth: number[] = [];
+  private readonly matching = new Map<number, number>();
+  private readonly objects: string[] = [];
+  private readonly warnings: Analysis['warnings'] = [];
+
+  constructor(
+    private readonly source: string,
+    private readonly tokens: SqlToken[],
+    /** Names of CTEs in scope - references to them are not objects */
+    private readonly cteNames = new Set<string>()
+  ) {
+    const open: number[] = [];
+    tokens.forEach((token, index) => {
+      if (this.isPunct(index, ')')) {
+        const start = open.pop();
+        if (start !== undefined) this.matching.set(start, index);
+      }
+      this.depth.push(open.length);
+      if (this.isPunct(index, '(')) open.push(index);
+    });
+  }
+
+  analyze(): Analysis {
+    let mainStart = 0;
+    let withClause: string | undefined;
+    let withModifiesData = false;
+
+    if (this.isWord(0, 'with')) {
+      const { end, bodies } = this.readWithClause();
+      mainStart = end;
+      withClause = this.text(0, end - 1);
+
+      for (const [bodyStart, bodyEnd] of bodies) {
+        const body = new StatementAnalyzer(this.source, this.tokens.slice(bodyStart, bodyEnd), this.cteNames).analyze();
+        body.objects.forEach(object => this.addObject(object));
+        this.warnings.push(...body.warnings);
+        if (body.type !== 'SELECT') withModifiesData = true;
+      }
+    }
+
+    const type = this.detectType(mainStart);
+    let dml: DmlClauses | undefined;
+
+    switch (type) {
+      case 'SELECT':
+      case 'INSERT':
+        this.collectRelations(mainStart);
+        if (type === 'INSERT') this.checkUpsert(mainStart);
+        break;
+      case 'UPDATE':
+      case 'DELETE':
+        this.collectRelations(mainStart);
+        dml = this.readDmlClauses(type, mainStart, withClause, withModifiesData);
+        this.checkDmlWhere(type, dml);
+        break;
+      case 'CREATE':
+        this.analyzeCreate(mainStart);
+        break;
+      case 'ALTER':
+        this.analyzeAlter(mainStart);
+        break;
+      case 'DROP':
+        this.analyzeDrop(mainStart);
+        break;
+      case 'TRUNCATE':
+        this.readNameList(this.skipWords(mainStart + 1, ['table', 'only']));
+        this.warn('dangerous', 'TRUNCATE statement - removes all data');
+        break;
+      case 'GRANT':
+      case 'REVOKE':
+        this.analyzePrivileges(mainStart);
+        this.warn('caution', 'Permission change detected');
+        break;
+      default:
+        if (this.isWord(mainStart, 'do')) {
+          this.warn('caution', 'DO block - runs arbitrary procedural code');
+        }
+    }
+
+    const riskLevel = this.warnings.reduce<SqlRiskLevel>(
+      (level, warning) => RISK_ORDER[warning.level] > RISK_ORDER[level] ? warning.level : level,
+      'safe'
+    );
+
+    return { type, objects: this.objects, riskLevel, warnings: this.warnings, dml };
+  }
+
+  // --------------------------------------------------------------------------
+  // Token helpers
+  // --------------------------------------------------------------------------
+
+  private isWord(index: number, ...values: string[]): boolean {
+    const token = this.tokens[index];
+    return token?.type === 'word' && values.includes(token.value);
+  }
+
+  private isPunct(index: number, value: string): boolean {
+    const token = this.tokens[index];
+    return token?.type === 'punctuation' && token.value === value;
+  }
+
+  private isName(index: number): boolean {
+    const type = this.tokens[index]?.type;
+    return type === 'word' || type === 'quoted_identifier';
+  }
+
+  private skipWords(index: number, words: string[]): number {
+    while (this.isWord(index, ...words)) index++;
+    return index;
+  }
+
+  private skipIfExists(index: number): number {
+    if (this.isWord(index, 'if') && this.isWord(index + 1, 'not') && this.isWord(index + 2, 'exists')) return index + 3;
+    if (this.isWord(index, 'if') && this.isWord(index + 1, 'exists')) return index + 2;
+    return index;
+  }
+
+  /** Index just past the parenthesized group opening at `index` */
+  private skipParens(index: number): number {
+    return (this.matching.get(index) ?? this.tokens.length - 1) + 1;
+  }
+
+  /** Source text from the start of token `from` to the end of token `to` */
+  private text(from: number, to: number): string {
+    return this.source.slice(this.tokens[from].start, this.tokens[to].end);
+  }
+
+  /** First top-level token at or after `from` that is one of `words` */
+  private findTopLevel(from: number, words: string[]): number {
+    for (let index = from; index < this.tokens.length; index++) {
+      if (this.depth[index] === 0 && this.isWord(index, ...words)) return index;
+    }
+    return -1;
+  }
+
+  private addObject(name: string): void {
+    if (!this.objects.includes(name)) this.objects.push(name);
+  }
+
+  private warn(level: SqlRiskLevel, message: string): void {
+    this.warnings.push({ level, message });
+  }
+
+  /**
+   * Read a possibly qualified name (`a`, `schema.a`, `db.schema.a`) and record
+   * it as an affected object
+   */
+  private readName(index: number, record = true): number {
+    if (!this.isName(index)) return index;
+
+    const parts = [this.tokens[index].value];
+    let next = index + 1;
+    while (this.isPunct(next, '.') && this.isName(next + 1)) {
+      parts.push(this.tokens[next + 1].value);
+      next += 2;
+    }
+
+    if (record && !(parts.length === 1 && this.cteNames.has(parts[0]))) {
+      const name = parts[parts.length - 1];
+      const schema = parts.length > 1 ? parts[parts.length - 2] : DEFAULT_SCHEMA;
+      this.addObject(qualifyTableName(schema, name));
+    }
+    return next;
+  }
+
+  /** Read comma-separated names, skipping function argument lists */
+  private readNameList(index: number): number {
+    while (this.isName(index)) {
+      index = this.readName(index);
+      if (this.isPunct(index, '(')) index = this.skipParens(index);
+      if (!this.isPunct(index, ',')) break;
+      index++;
+    }
+    return index;
+  }
+
+  // --------------------------------------------------------------------------
+  // Statement structure
+  // --------------------------------------------------------------------------
+
+  /**
+   * Read `WITH [RECURSIVE] name [(cols)] AS [NOT] [MATERIALIZED] (body), ...`
+   * and return where the main statement starts plus each body's token range
+   */
+  private readWithClause(): { end: number; bodies: [number, number][] } {
+    const bodies: [number, number][] = [];
+    let index = this.skipWords(1, ['recursive']);
+
+    while (this.isName(index)) {
+      this.cteNames.add(this.tokens[index].value);
+      index++;
+      if (this.isPunct(index, '(')) index = this.skipParens(index);
+      if (!this.isWord(index, 'as')) break;
+      index = this.skipWords(index + 1, ['not', 'materialized']);
+      if (!this.isPunct(index, '(')) break;
+
+      const close = this.skipParens(index) - 1;
+      bodies.push([index + 1, close]);
+      index = close + 1;
+
+      // SEARCH / CYCLE clauses run up to the next CTE or the main statement
+      while (index < this.tokens.length && this.depth[index] === 0 && !this.isPunct(index, ',')
+        && !this.isWord(index, 'select', 'insert', 'update', 'delete', 'values', 'table')) {
+        index++;
+      }
+      if (!this.isPunct(index, ',')) break;
+      index++;
+    }
+
+    return { end: index, bodies };
+  }
+
+  private detectType(index: number): SqlStatementType {
+    if (this.isPunct(index, '(')) return 'SELECT';
+    const token = this.tokens[index];
+    if (token?.type !== 'word') return 'OTHER';
+    return LEADING_KEYWORD_TYPES[token.value] ?? 'OTHER';
+  }
+
+  /**
+   * Record every relation read or written by a DML statement: the target and
+   * anything after FROM, JOIN, USING, INTO or UPDATE at query level. FROM
+   * inside function calls such as EXTRACT(... FROM col) is not a relation.
+   */
+  private collectRelations(from: number): void {
+    const scopes: ('query' | 'expr')[] = [];
+
+    for (let index = from; index < this.tokens.length; index++) {
+      if (this.isPunct(index, '(')) {
+        scopes.push(this.isWord(index + 1, 'select', 'with', 'values') ? 'query' : 'expr');
+        continue;
+      }
+      if (this.isPunct(index, ')')) {
+        scopes.pop();
+        continue;
+      }
+      if (scopes.length > 0 && scopes[scopes.length - 1] === 'expr') continue;
+
+      if (this.isWord(index, 'from') && !this.isWord(index - 1, 'distinct')) {
+        this.readRelationList(index + 1);
+      } else if (this.isWord(index, 'join')) {
+        this.readRelationList(index + 1, false);
+      } else if (this.isWord(index, 'into') || (this.isWord(index, 'update') && index === from)) {
+        // INSERT INTO t (columns) - the parentheses are not a function call
+        this.readRelationList(index + 1, false, false);
+      } else if (this.isWord(index, 'using') && !this.isPunct(index + 1, '(')) {
+        this.readRelationList(index + 1);
+      }
+    }
+  }
+
+  private readRelationList(index: number, allowList = true, allowFunctions = true): void {
+    while (index < this.tokens.length) {
+      index = this.skipWords(index, ['only', 'lateral']);
+
+      if (this.isPunct(index, '(')) {
+        // Subquery - its own FROM clauses are picked up by the main scan
+        index = this.skipParens(index);
+      } else if (this.isName(index) && !this.isWord(index, ...CLAUSE_KEYWORDS)) {
+        const end = this.readName(index, false);
+        if (allowFunctions && this.isPunct(end, '(')) {
+          // Set-returning function, e.g. generate_series(1, 10)
+          index = this.skipParens(end);
+        } else {
+          this.readName(index);
+          index = end;
+        }
+      } else {
+        return;
+      }
+
+      // UPDATE t * (descendant tables, the default)
+      if (this.tokens[index]?.type === 'operator' && this.tokens[index].value === '*') index++;
+      if (this.isWord(index, 'as')) index++;
+      if (this.isName(index) && !this.isWord(index, ...CLAUSE_KEYWORDS)) index++;
+      if (this.isPunct(index, '(')) index = this.skipParens(index);
+
+      if (!allowList || !this.isPunct(index, ',')) return;
+      index++;
+    }
+  }
+
+  private readDmlClauses(
+    type: 'UPDATE' | 'DELETE',
+    mainStart: number,
+    withClause: string | undefined,
+    withModifiesData: boolean
+  ): DmlClauses | undefined {
+    const targetStart = type === 'UPDATE' ? mainStart + 1 : mainStart + 2;
+    if (type === 'DELETE' && !this.isWord(mainStart + 1, 'from')) return undefined;
+
+    const targetEnd = type === 'UPDATE'
+      ? this.findTopLevel(targetStart, ['set'])
+      : this.findTopLevel(targetStart, ['using', 'where', 'returning']);
+    const returningStart = this.findTopLevel(targetStart, ['returning']);
+    const before = (index: number, limit: number) => index !== -1 && (limit === -1 || index < limit) ? index : -1;
+    const whereStart = before(this.findTopLevel(targetStart, ['where']), returningStart);
+    const fromStart = before(
+      before(this.findTopLevel(targetStart, [type === 'UPDATE' ? 'from' : 'using']), whereStart),
+      returningStart
+    );
+    const last = this.tokens.length - 1;
+
+    const endOfClause = (start: number, ...candidates: number[]) => {
+      const ends = candidates.filter(candidate => candidate > start);
+      return (ends.length > 0 ? Math.min(...ends) : last + 1) - 1;
+    };
+
+    if (type === 'UPDATE' && targetEnd === -1) return undefined;
+    const target = this.text(targetStart, targetEnd === -1 ? last : targetEnd - 1);
+
+    let fromList: string | undefined;
+    if (fromStart !== -1 && fromStart + 1 <= last) {
+      fromList = this.text(fromStart + 1, endOfClause(fromStart, whereStart, returningStart));
+    }
+
+    let where: string | undefined;
+    let whereCurrentOf = false;
+    if (whereStart !== -1 && whereStart + 1 <= last) {
+      whereCurrentOf = this.isWord(whereStart + 1, 'current') && this.isWord(whereStart + 2, 'of');
+      where = this.text(whereStart + 1, endOfClause(whereStart, returningStart));
+    }
+
+    return { withClause, withModifiesData, target, fromList, where, whereCurrentOf };
+  }
+
+  private checkDmlWhere(type: 'UPDATE' | 'DELETE', dml: DmlClauses | undefined): void {
+    const hasWhere = dml?.where !== undefined;
+    if (type === 'DELETE') {
+      this.warn(
+        hasWhere ? 'caution' : 'dangerous',
+        hasWhere ? 'DELETE statement - removes data' : 'DELETE without WHERE - removes all rows'
+      );
+    } else {
+      this.warn(
+        hasWhere ? 'caution' : 'dangerous',
+        hasWhere ? 'UPDATE statement - modifies data' : 'UPDATE without WHERE - updates all rows'
+      );
+    }
+  }
+
+  private checkUpsert(from: number): void {
+    const conflict = this.findTopLevel(from, ['conflict']);
+    if (conflict !== -1 && this.isWord(conflict - 1, 'on')) {
+      const action = this.findTopLevel(conflict, ['do']);
+      if (action !== -1 && this.isWord(action + 1, 'update')) {
+        this.warn('caution', 'INSERT ... ON CONFLICT DO UPDATE - may modify existing rows');
+      }
+    }
+  }
+
+  /** Read the object kind after CREATE/ALTER/DROP, e.g. "TABLE" or "MATERIALIZED VIEW" */
+  private readKind(index: number): { kind: string; next: number } {
+    if (!this.isName(index)) return { kind: '', next: index };
+
+    const phrase = MULTI_WORD_KINDS.find(words => words.every((word, offset) => this.isWord(index + offset, word)));
+    const words = phrase ?? [this.tokens[index].value];
+    return { kind: words.join(' ').toUpperCase(), next: index + words.length };
+  }
+
+  private analyzeCreate(mainStart: number): void {
+    const { kind, next } = this.readKind(this.skipWords(mainStart + 1, [...CREATE_MODIFIERS]));
+    let index = this.skipWords(next, ['concurrently']);
+    const concurrently = this.isWord(next, 'concurrently');
+    index = this.skipIfExists(index);
+
+    if (kind === 'INDEX') {
+      if (!this.isWord(index, 'on')) index = this.readName(index);
+      if (this.isWord(index, 'on')) this.readName(this.skipWords(index + 1, ['only']));
+      if (!concurrently) this.warn('caution', 'CREATE INDEX - may lock table');
+      return;
+    }
+
+    if (kind === 'EXTENSION' || kind === 'SCHEMA' || kind === 'ROLE' || kind === 'USER' || kind === 'DATABASE') {
+      if (this.isName(index)) this.addObject(this.tokens[index].value);
+      return;
+    }
+
+    index = this.readName(index);
+
+    if (kind === 'TRIGGER' || kind === 'POLICY' || kind === 'RULE') {
+      const on = this.findTopLevel(index, ['on']);
+      if (on !== -1) this.readName(on + 1);
+    }
+  }
+
+  private analyzeAlter(mainStart: number): void {
+    const { kind, next } = this.readKind(mainStart + 1);
+    let index = this.skipIfExists(next);
+    index = this.skipWords(index, ['only']);
+    index = this.readName(index);
+
+    this.warn('caution', `ALTER ${kind || 'statement'} statement - modifies schema`);
+    if (kind !== 'TABLE' && kind !== 'FOREIGN TABLE') return;
+
+    // Each comma-separated action at the top level
+    let actionStart = index;
+    for (let i = index; i <= this.tokens.length; i++) {
+      if (i < this.tokens.length && !(this.depth[i] === 0 && this.isPunct(i, ','))) continue;
+      this.checkAlterTableAction(actionStart);
+      actionStart = i + 1;
+    }
+  }
+
+  private checkAlterTableAction(index: number): void {
+    if (this.isWord(index, 'drop')) {
+      const target = this.isWord(index + 1, 'column') ? index + 2 : index + 1;
+      if (this.isWord(index + 1, 'column')
+        || (this.isName(target) && !this.isWord(target, 'constraint', 'default', 'not', 'identity', 'expression'))) {
+        this.warn('dangerous', 'DROP COLUMN - data loss');
+      }
+      return;
+    }
+
+    if (this.isWord(index, 'alter')) {
+      let i = this.skipWords(index + 1, ['column']);
+      i = this.readName(i, false);
+      if (this.isWord(i, 'type') || (this.isWord(i, 'set') && this.isWord(i + 1, 'data') && this.isWord(i + 2, 'type'))) {
+        this.warn('dangerous', 'TYPE change - potential data loss');
+      }
+    }
+  }
+
+  private analyzeDrop(mainStart: number): void {
+    const { kind, next } = this.readKind(mainStart + 1);
+    let index = this.skipWords(next, ['concurrently']);
+    index = this.skipIfExists(index);
+
+    if (kind === 'TRIGGER' || kind === 'POLICY' || kind === 'RULE') {
+      index = this.readName(index, false);
+      if (this.isWord(index, 'on')) this.readName(index + 1);
+    } else {
+      this.readNameList(index);
+    }
+
+    this.warn('dangerous', `DROP ${kind || 'statement'} statement detected - destructive`);
+  }
+
+  private analyzePrivileges(mainStart: number): void {
+    const on = this.findTopLevel(mainStart + 1, ['on']);
+    if (on === -1) return;
+
+    let index = on + 1;
+    if (this.isWord(index, 'all') && this.isWord(index + 2, 'in') && this.isWord(index + 3, 'schema')) {
+      // ON ALL TABLES IN SCHEMA s
+      if (this.isName(index + 4)) this.addObject(`${this.tokens[index + 4].value}.*`);
+      return;
+    }
+    index = this.skipWords(index, ['table', 'sequence', 'function', 'procedure', 'routine', 'schema', 'database', 'type']);
+    this.readNameList(index);
+  }
+}
+
+function toStatement(source: string, statement: SqlStatement): ParsedSqlStatement {
+  const analysis = new StatementAnalyzer(source, statement.tokens).analyze();
+
+  // A dangerous statement only reports what makes it dangerous
+  const warnings = analysis.warnings
+    .filter(warning => analysis.riskLevel !== 'dangerous' || warning.level === 'dangerous')
+    .map(warning => `${warning.level === 'dangerous' ? 'Dangerous' : 'Caution'}: ${warning.message}`);
+
+  return {
+    ...statement,
+    type: analysis.type,
+    affectedObjects: analysis.objects,
+    riskLevel: analysis.riskLevel,
+    warnings: [...new Set(warnings)],
+    dml: analysis.dml,
+  };
+}
+
+function checkParentheses(tokens: SqlToken[]): string[] {
+  let depth = 0;
+  for (const token of tokens) {
+    if (token.type !== 'punctuation') continue;
+    if (token.value === '(') depth++;
+    else if (token.value === ')') depth--;
+    if (depth < 0) {
+      return ['Unbalanced parentheses - extra closing paren'];
+    }
+  }
+  return depth > 0 ? ['Unbalanced parentheses - missing closing paren'] : [];
+}
+
+/**
+ * Tokenize, split and analyze a SQL script
+ */
+export function parseSql(sql: string): ParsedSql {
+  const { tokens, errors } = tokenizeSql(sql);
+
+  return {
+    statements: splitTokens(sql, tokens).map(statement => toStatement(sql, statement)),
+    errors: [...errors, ...checkParentheses(tokens)],
+  };
+}
+
+/**
+ * Whether a statement type can run under EXPLAIN
+ */
+export function isExplainable(type: SqlStatementType): boolean {
+  return DML_TYPES.has(type);
+}
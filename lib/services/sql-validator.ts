@@ -2,75 +2,99 @@
  * SQL Validator Service
  * 
  * Validates SQL statements for safety before execution.
- * Provides syntax checking and risk assessment.
+ * Provides syntax checking and risk assessment on top of the tokenizer and
+ * statement analysis in sql-parser.ts.
  */
 
+import {
+  isExplainable,
+  parseSql,
+  ParsedSqlStatement,
+  splitSqlStatements,
+  SqlRiskLevel,
+  SqlStatementType,
+  SqlToken,
+  tokenizeSql,
+} from './sql-parser';
+
+export type { SqlRiskLevel, SqlStatementType };
+
 export interface SqlValidationResult {
   isValid: boolean;
   isSafe: boolean;
-  riskLevel: 'safe' | 'caution' | 'dangerous';
+  riskLevel: SqlRiskLevel;
   errors: string[];
   warnings: string[];
   statementType: SqlStatementType;
   affectedObjects: string[];
+  statements: SqlStatementSummary[];
+}
+
+/**
+ * Per-statement breakdown of a validated script
+ */
+export interface SqlStatementSummary {
+  sql: string;
+  statementType: SqlStatementType;
+  riskLevel: SqlRiskLevel;
+  warnings: string[];
+  affectedObjects: string[];
 }
 
-export type SqlStatementType = 
-  | 'SELECT'
-  | 'INSERT'
-  | 'UPDATE'
-  | 'DELETE'
-  | 'CREATE'
-  | 'ALTER'
-  | 'DROP'
-  | 'TRUNCATE'
-  | 'GRANT'
-  | 'REVOKE'
-  | 'BEGIN'
-  | 'COMMIT'
-  | 'ROLLBACK'
-  | 'OTHER'
-  | 'MIXED';
+const RISK_ORDER: Record<SqlRiskLevel, number> = { safe: 0, caution: 1, dangerous: 2 };
 
-// Dangerous SQL patterns
-const DANGEROUS_PATTERNS = [
-  { pattern: /DROP\s+(TABLE|DATABASE|SCHEMA|INDEX)/i, message: 'DROP statement detected - destructive' },
-  { pattern: /TRUNCATE\s+TABLE/i, message: 'TRUNCATE statement - removes all data' },
-  { pattern: /DELETE\s+FROM\s+\w+\s*(?:;|$)/i, message: 'DELETE without WHERE - removes all rows' },
-  { pattern: /UPDATE\s+\w+\s+SET\s+[^;]+(?:;|$)(?!\s*WHERE)/i, message: 'UPDATE without WHERE - updates all rows' },
-  { pattern: /ALTER\s+TABLE\s+\w+\s+DROP\s+COLUMN/i, message: 'DROP COLUMN - data loss' },
-  { pattern: /ALTER\s+TABLE\s+\w+\s+ALTER\s+COLUMN\s+\w+\s+TYPE/i, message: 'TYPE change - potential data loss' },
-];
+const DESTRUCTIVE_TYPES = new Set<SqlStatementType>(['DROP', 'DELETE', 'TRUNCATE']);
+
+/**
+ * Check the token stream for common injection patterns. Works on tokens so
+ * keywords inside string literals, identifiers and function bodies don't
+ * trigger false positives.
+ */
+function checkInjectionPatterns(tokens: SqlToken[], statements: ParsedSqlStatement[]): string[] {
+  const errors = new Set<string>();
+  const significant = tokens.filter((token) => token.type !== 'whitespace');
+  const isWord = (token: SqlToken | undefined, ...values: string[]) =>
+    token?.type === 'word' && values.includes(token.value);
+  const isLiteral = (token: SqlToken | undefined) =>
+    token?.type === 'string' || token?.type === 'number';
+
+  significant.forEach((token, index) => {
+    const next = significant[index + 1];
+
+    if (token.type === 'punctuation' && token.value === ';' && next?.type === 'comment') {
+      errors.add('SQL comment after semicolon - potential injection');
+    }
+    if (token.type === 'comment' && token.value.startsWith('/*')) {
+      errors.add('SQL block comment detected');
+    }
+    // OR '1'='1' and friends: a literal compared with itself
+    if (isWord(token, 'or') && isLiteral(next)
+      && significant[index + 2]?.type === 'operator' && significant[index + 2].value === '='
+      && isLiteral(significant[index + 3]) && significant[index + 3].value === next.value) {
+      errors.add('Classic SQL injection pattern detected');
+    }
+    if (isWord(token, 'union')) {
+      const following = isWord(next, 'all', 'distinct') ? significant[index + 2] : next;
+      if (isWord(following, 'select')) {
+        errors.add('UNION SELECT - potential injection');
+      }
+    }
+    if (isWord(token, 'xp_cmdshell') || (isWord(token, 'exec') && next?.type === 'punctuation' && next.value === '(')) {
+      errors.add('Dangerous system command detected');
+    }
+  });
 
-// Caution patterns
-const CAUTION_PATTERNS = [
-  { pattern: /ALTER\s+TABLE/i, message: 'ALTER TABLE statement - modifies schema' },
-  { pattern: /DELETE\s+FROM/i, message: 'DELETE statement - removes data' },
-  { pattern: /UPDATE\s+/i, message: 'UPDATE statement - modifies data' },
-  { pattern: /CREATE\s+INDEX/i, message: 'CREATE INDEX - may lock table' },
-  { pattern: /DROP\s+INDEX/i, message: 'DROP INDEX - may affect performance' },
-  { pattern: /GRANT|REVOKE/i, message: 'Permission change detected' },
-];
+  if (statements.slice(1).some((statement) => DESTRUCTIVE_TYPES.has(statement.type))) {
+    errors.add('Stacked query with destructive command');
+  }
 
-// SQL injection patterns
-const INJECTION_PATTERNS = [
-  { pattern: /;\s*--/i, message: 'SQL comment after semicolon - potential injection' },
-  { pattern: /'\s*OR\s+'1'\s*=\s*'1/i, message: 'Classic SQL injection pattern detected' },
-  { pattern: /UNION\s+SELECT/i, message: 'UNION SELECT - potential injection' },
-  { pattern: /;\s*(DROP|DELETE|TRUNCATE)/i, message: 'Stacked query with destructive command' },
-  { pattern: /\/\*[\s\S]*?\*\//, message: 'SQL block comment detected' },
-  { pattern: /xp_cmdshell|exec\s*\(/i, message: 'Dangerous system command detected' },
-];
+  return [...errors];
+}
 
 /**
  * Validate SQL statement
  */
 export function validateSql(sql: string): SqlValidationResult {
-  const errors: string[] = [];
-  const warnings: string[] = [];
-  let isSafe = true;
-  let riskLevel: 'safe' | 'caution' | 'dangerous' = 'safe';
-  
   // Trim and normalize
   const normalizedSql = sql.trim();
   
@@ -84,151 +108,49 @@ export function validateSql(sql: string): SqlValidationResult {
       warnings: [],
       statementType: 'OTHER',
       affectedObjects: [],
+      statements: [],
     };
   }
   
-  // Check for injection patterns
-  for (const { pattern, message } of INJECTION_PATTERNS) {
-    if (pattern.test(normalizedSql)) {
-      errors.push(`Security: ${message}`);
-      isSafe = false;
-      riskLevel = 'dangerous';
-    }
-  }
+  const { statements, errors: syntaxErrors } = parseSql(normalizedSql);
+  const injectionErrors = checkInjectionPatterns(tokenizeSql(normalizedSql).tokens, statements);
   
-  // Check for dangerous patterns
-  for (const { pattern, message } of DANGEROUS_PATTERNS) {
-    if (pattern.test(normalizedSql)) {
-      warnings.push(`Dangerous: ${message}`);
-      riskLevel = 'dangerous';
-    }
-  }
+  let riskLevel: SqlRiskLevel = injectionErrors.length > 0 ? 'dangerous' : 'safe';
+  const warnings: string[] = [];
+  const affectedObjects: string[] = [];
   
-  // Check for caution patterns (only if not already dangerous)
-  if (riskLevel !== 'dangerous') {
-    for (const { pattern, message } of CAUTION_PATTERNS) {
-      if (pattern.test(normalizedSql)) {
-        warnings.push(`Caution: ${message}`);
-        if (riskLevel === 'safe') {
-          riskLevel = 'caution';
-        }
-      }
+  for (const statement of statements) {
+    if (RISK_ORDER[statement.riskLevel] > RISK_ORDER[riskLevel]) {
+      riskLevel = statement.riskLevel;
+    }
+    for (const warning of statement.warnings) {
+      if (!warnings.includes(warning)) warnings.push(warning);
+    }
+    for (const object of statement.affectedObjects) {
+      if (!affectedObjects.includes(object)) affectedObjects.push(object);
     }
   }
   
-  // Detect statement type
-  const statementType = detectStatementType(normalizedSql);
-  
-  // Extract affected objects
-  const affectedObjects = extractAffectedObjects(normalizedSql);
-  
-  // Check for balanced quotes and parentheses
-  const quoteErrors = checkBalancedTokens(normalizedSql);
-  errors.push(...quoteErrors);
+  const errors = [...injectionErrors.map((message) => `Security: ${message}`), ...syntaxErrors];
   
   return {
     isValid: errors.length === 0,
-    isSafe,
+    isSafe: injectionErrors.length === 0,
     riskLevel,
     errors,
     warnings,
-    statementType,
+    statementType: statements.length > 1 ? 'MIXED' : (statements[0]?.type ?? 'OTHER'),
     affectedObjects,
+    statements: statements.map((statement) => ({
+      sql: statement.sql,
+      statementType: statement.type,
+      riskLevel: statement.riskLevel,
+      warnings: statement.warnings,
+      affectedObjects: statement.affectedObjects,
+    })),
   };
 }
 
-/**
- * Detect the type of SQL statement
- */
-function detectStatementType(sql: string): SqlStatementType {
-  const normalized = sql.toUpperCase().trim();
-  
-  // Check for multiple statements
-  const statements = sql.split(/;\s*/).filter((s) => s.trim());
-  if (statements.length > 1) {
-    return 'MIXED';
-  }
-  
-  if (normalized.startsWith('SELECT')) return 'SELECT';
-  if (normalized.startsWith('INSERT')) return 'INSERT';
-  if (normalized.startsWith('UPDATE')) return 'UPDATE';
-  if (normalized.startsWith('DELETE')) return 'DELETE';
-  if (normalized.startsWith('CREATE')) return 'CREATE';
-  if (normalized.startsWith('ALTER')) return 'ALTER';
-  if (normalized.startsWith('DROP')) return 'DROP';
-  if (normalized.startsWith('TRUNCATE')) return 'TRUNCATE';
-  if (normalized.startsWith('GRANT')) return 'GRANT';
-  if (normalized.startsWith('REVOKE')) return 'REVOKE';
-  if (normalized.startsWith('BEGIN')) return 'BEGIN';
-  if (normalized.startsWith('COMMIT')) return 'COMMIT';
-  if (normalized.startsWith('ROLLBACK')) return 'ROLLBACK';
-  
-  return 'OTHER';
-}
-
-/**
- * Extract table/object names affected by the SQL
- */
-function extractAffectedObjects(sql: string): string[] {
-  const objects: string[] = [];
-  
-  // Match table names after FROM, INTO, UPDATE, TABLE keywords
-  const patterns = [
-    /FROM\s+(?:public\.)?["']?(\w+)["']?/gi,
-    /INTO\s+(?:public\.)?["']?(\w+)["']?/gi,
-    /UPDATE\s+(?:public\.)?["']?(\w+)["']?/gi,
-    /TABLE\s+(?:IF\s+(?:NOT\s+)?EXISTS\s+)?(?:public\.)?["']?(\w+)["']?/gi,
-    /INDEX\s+(?:IF\s+(?:NOT\s+)?EXISTS\s+)?["']?(\w+)["']?/gi,
-  ];
-  
-  for (const pattern of patterns) {
-    let match;
-    while ((match = pattern.exec(sql)) !== null) {
-      const objectName = match[1];
-      if (objectName && !objects.includes(objectName)) {
-        objects.push(objectName);
-      }
-    }
-  }
-  
-  return objects;
-}
-
-/**
- * Check for balanced quotes and parentheses
- */
-function checkBalancedTokens(sql: string): string[] {
-  const errors: string[] = [];
-  
-  // Check single quotes
-  const singleQuotes = (sql.match(/'/g) || []).length;
-  if (singleQuotes % 2 !== 0) {
-    errors.push('Unbalanced single quotes');
-  }
-  
-  // Check double quotes
-  const doubleQuotes = (sql.match(/"/g) || []).length;
-  if (doubleQuotes % 2 !== 0) {
-    errors.push('Unbalanced double quotes');
-  }
-  
-  // Check parentheses
-  let parenCount = 0;
-  for (const char of sql) {
-    if (char === '(') parenCount++;
-    else if (char === ')') parenCount--;
-    if (parenCount < 0) {
-      errors.push('Unbalanced parentheses - extra closing paren');
-      break;
-    }
-  }
-  if (parenCount > 0) {
-    errors.push('Unbalanced parentheses - missing closing paren');
-  }
-  
-  return errors;
-}
-
 /**
  * Validate migration script
  */
@@ -246,13 +168,8 @@ export function validateMigrationScript(script: string): {
     invalid: number;
   };
 } {
-  // Split into statements
-  const statements = script
-    .split(/;(?=(?:[^']*'[^']*')*[^']*$)/)  // Split on ; but not inside quotes
-    .map((s) => s.trim())
-    .filter((s) => s && !s.startsWith('--'));
-  
-  const results = statements.map((sql) => ({
+  // Split into statements (comment-only chunks are dropped)
+  const results = splitSqlStatements(script).map(({ sql }) => ({
     sql,
     validation: validateSql(sql),
   }));
@@ -277,7 +194,7 @@ export function wrapInTransaction(sql: string): string {
   const trimmed = sql.trim();
   
   // Check if already wrapped
-  if (/^\s*BEGIN/i.test(trimmed)) {
+  if (parseSql(trimmed).statements[0]?.type === 'BEGIN') {
     return trimmed;
   }
   
@@ -296,18 +213,18 @@ ${trimmed}
  * Generate dry-run version of SQL (adds EXPLAIN)
  */
 export function generateDryRunSql(sql: string): string {
-  const trimmed = sql.trim().toUpperCase();
-  
-  // Only SELECT, INSERT, UPDATE, DELETE can use EXPLAIN
-  if (trimmed.startsWith('SELECT') || 
-      trimmed.startsWith('INSERT') || 
-      trimmed.startsWith('UPDATE') || 
-      trimmed.startsWith('DELETE')) {
-    return `EXPLAIN (ANALYZE false, COSTS true, FORMAT TEXT)\n${sql}`;
-  }
+  const { statements } = parseSql(sql);
+  const terminator = statements.length > 1 ? ';' : '';
   
-  // For DDL, return as comment
-  return `-- DRY RUN: The following statement would be executed:\n-- ${sql.replace(/\n/g, '\n-- ')}`;
+  return statements.map((statement) => {
+    // Only SELECT, INSERT, UPDATE, DELETE can use EXPLAIN
+    if (isExplainable(statement.type)) {
+      return `EXPLAIN (ANALYZE false, COSTS true, FORMAT TEXT)\n${statement.sql}${terminator}`;
+    }
+    
+    // For DDL, return as comment
+    return `-- DRY RUN: The following statement would be executed:\n-- ${statement.sql.replace(/\n/g, '\n-- ')}`;
+  }).join('\n\n');
 }
 
 /**
@@ -317,27 +234,27 @@ export async function estimateAffectedRows(
   sql: string,
   executeQuery: (query: string) => Promise<unknown[]>
 ): Promise<number | null> {
-  const trimmed = sql.trim().toUpperCase();
+  const { statements, errors } = parseSql(sql);
+  const dml = statements.length === 1 ? statements[0].dml : undefined;
   
-  // Only for UPDATE/DELETE can we estimate
-  if (!trimmed.startsWith('UPDATE') && !trimmed.startsWith('DELETE')) {
+  // Only a single UPDATE/DELETE can be estimated. Skip statements whose WITH
+  // clause writes data - counting would run those writes.
+  if (errors.length > 0 || !dml || dml.whereCurrentOf || dml.withModifiesData) {
     return null;
   }
   
   try {
-    // Convert to COUNT query
-    const whereMatch = sql.match(/WHERE([\s\S]+)$/i);
-    const fromMatch = sql.match(/(?:FROM|UPDATE)\s+["']?(\w+)["']?/i);
+    // Convert to COUNT query over the same relations and condition
+    const relations = dml.fromList ? `${dml.target}, ${dml.fromList}` : dml.target;
+    const countQuery = [
+      dml.withClause,
+      `SELECT COUNT(*) as count FROM ${relations}`,
+      dml.where ? `WHERE ${dml.where}` : '',
+    ].filter(Boolean).join(' ');
     
-    if (fromMatch) {
-      const table = fromMatch[1];
-      const whereClause = whereMatch ? `WHERE ${whereMatch[1]}` : '';
-      const countQuery = `SELECT COUNT(*) as count FROM "${table}" ${whereClause}`;
-      
-      const result = await executeQuery(countQuery);
-      if (result[0] && typeof result[0] === 'object' && 'count' in result[0]) {
-        return parseInt(String(result[0].count), 10);
-      }
+    const result = await executeQuery(countQuery);
+    if (result[0] && typeof result[0] === 'object' && 'count' in result[0]) {
+      return parseInt(String(result[0].count), 10);
     }
   } catch {
     // Ignore errors - return null if we can't estimate
@@ -345,4 +262,3 @@ export async function estimateAffectedRows(
   
   return null;
 }
-
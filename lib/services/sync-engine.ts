@@ -1,5 +1,22 @@
 import { createDrizzleClient, type DrizzleConnection } from './drizzle-factory';
 import { getRowsToSync } from './diff-engine';
+import {
+  resolvePrimaryKey,
+  serializeRowKey,
+  parseRowKey,
+  buildKeyColumnList,
+  buildKeyMatchCondition,
+} from './primary-key';
+import { escapeQualifiedName } from './security-utils';
+import { resolveChangeTracking, compareRowVersions, readRowVersion } from './change-tracking';
+import { assertValidRowFilters, describeRowFilters, type RowFilter } from './row-filter';
+import {
+  assertValidColumnTransforms,
+  createColumnTransformPlan,
+  applyColumnTransforms,
+  describeColumnTransforms,
+  type ColumnTransformConfig,
+} from './column-masking';
 import { db } from '@/lib/db/client';
 import { syncJobs, syncLogs } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
@@ -102,6 +119,7 @@ export async function executeSync(options: SyncOptions): Promise<SyncResult> {
     processedRows: 0,
     insertedRows: 0,
     updatedRows: 0,
+    deletedRows: 0,
     skippedRows: 0,
     errors: 0,
   };
@@ -166,6 +184,13 @@ export async function executeSync(options: SyncOptions): Promise<SyncResult> {
           targetConn,
           tableName,
           conflictStrategy: tableConfig.conflictStrategy || 'last_write_wins',
+          changeTrackingColumn: tableConfig.changeTrackingColumn,
+          filters: tableConfig.filters,
+          columnTransforms: {
+            includeColumns: tableConfig.includeColumns,
+            excludeColumns: tableConfig.excludeColumns,
+            masking: tableConfig.masking,
+          },
           direction,
           since,
           afterId,
@@ -254,6 +279,9 @@ interface TableSyncOptions {
   targetConn: DrizzleConnection;
   tableName: string;
   conflictStrategy: ConflictStrategy;
+  changeTrackingColumn?: string | null;
+  filters?: RowFilter[];
+  columnTransforms?: ColumnTransformConfig;
   direction: 'one_way' | 'two_way';
   since?: Date;
   afterId?: string;
@@ -283,6 +311,9 @@ async function syncTable(options: TableSyncOptions): Promise<TableSyncResult> {
     targetConn,
     tableName,
     conflictStrategy,
+    changeTrackingColumn,
+    filters,
+    columnTransforms = {},
     direction,
     since,
     afterId,
@@ -304,6 +335,38 @@ async function syncTable(options: TableSyncOptions): Promise<TableSyncResult> {
   let hasMore = true;
   let processedRows = 0;
   
+  const primaryKey = await resolvePrimaryKey(sourceConn, tableName);
+  const primaryKeyColumns = new Set(primaryKey);
+  const keyCondition = buildKeyMatchCondition(primaryKey, 1);
+  const safeTableName = escapeQualifiedName(tableName);
+  const tracking = await resolveChangeTracking(sourceConn, tableName, changeTrackingColumn);
+  // Full target rows are needed to compare hashes
+  const existingSelectList = tracking.column
+    ? `${buildKeyColumnList(primaryKey)}, "${tracking.column}"`
+    : '*';
+  
+  await assertValidRowFilters(sourceConn, tableName, filters);
+  if (filters && filters.length > 0) {
+    await onLog?.('info', `Row filter for ${tableName}: ${describeRowFilters(filters)}`);
+  }
+  
+  const protectedColumns = tracking.column ? [...primaryKey, tracking.column] : primaryKey;
+  await assertValidColumnTransforms(sourceConn, tableName, columnTransforms, protectedColumns);
+  const columnPlan = createColumnTransformPlan(columnTransforms);
+  for (const line of describeColumnTransforms(columnTransforms)) {
+    await onLog?.('info', `Column masking for ${tableName}: ${line}`);
+  }
+  
+  // A checkpoint written under a different key shape cannot be resumed from
+  if (currentAfterId) {
+    try {
+      parseRowKey(currentAfterId, primaryKey);
+    } catch {
+      await onLog?.('warn', `Checkpoint key does not match primary key of ${tableName}, restarting table`);
+      currentAfterId = undefined;
+    }
+  }
+  
   while (hasMore) {
     // Check for cancellation
     if (shouldCancel?.()) {
@@ -319,7 +382,10 @@ async function syncTable(options: TableSyncOptions): Promise<TableSyncResult> {
       tableName,
       since,
       currentAfterId,
-      batchSize
+      batchSize,
+      primaryKey,
+      tracking,
+      filters
     );
     
     hasMore = batch.hasMore;
@@ -334,8 +400,9 @@ async function syncTable(options: TableSyncOptions): Promise<TableSyncResult> {
       // Set statement timeout to prevent deadlocks (30 seconds per batch)
       await tx.unsafe('SET LOCAL statement_timeout = 30000');
 
-      for (const row of batch.rows) {
-        const rowId = safeString(row.id);
+      for (const sourceRow of batch.rows) {
+        const row = applyColumnTransforms(sourceRow, columnPlan);
+        const rowId = serializeRowKey(row, primaryKey);
         if (!rowId) {
           result.skipped++;
           continue;
@@ -344,8 +411,8 @@ async function syncTable(options: TableSyncOptions): Promise<TableSyncResult> {
         try {
           // Check if row exists in target
           const existingResult = await tx.unsafe(
-            `SELECT id, updated_at FROM "${tableName}" WHERE id = $1`,
-            [rowId]
+            `SELECT ${existingSelectList} FROM ${safeTableName} WHERE ${keyCondition}`,
+            parseRowKey(rowId, primaryKey)
           );
           
           const existing = existingResult[0];
@@ -358,18 +425,17 @@ async function syncTable(options: TableSyncOptions): Promise<TableSyncResult> {
             const columnList = columns.map((c) => `"${c}"`).join(', ');
             
             await tx.unsafe(
-              `INSERT INTO "${tableName}" (${columnList}) VALUES (${placeholders})`,
+              `INSERT INTO ${safeTableName} (${columnList}) VALUES (${placeholders})`,
               values
             );
             
             result.inserted++;
           } else {
             // Handle update with conflict resolution
-            const sourceUpdatedAt = safeDate(row.updated_at);
-            const targetUpdatedAt = safeDate(existing.updated_at);
+            const versionDiff = compareRowVersions(row, existing, tracking);
             
             // Check for conflict in two-way sync
-            if (direction === 'two_way' && targetUpdatedAt > sourceUpdatedAt) {
+            if (direction === 'two_way' && versionDiff < 0) {
               // Conflict detected
               if (conflictStrategy === 'manual') {
                 result.conflicts.push({
@@ -378,8 +444,10 @@ async function syncTable(options: TableSyncOptions): Promise<TableSyncResult> {
                   rowId,
                   sourceData: row,
                   targetData: existing as Record<string, unknown>,
-                  sourceUpdatedAt,
-                  targetUpdatedAt,
+                  sourceUpdatedAt: tracking.kind === 'timestamp' ? safeDate(row[tracking.column!]) : new Date(0),
+                  targetUpdatedAt: tracking.kind === 'timestamp' ? safeDate(existing[tracking.column!]) : new Date(0),
+                  sourceVersion: tracking.kind === 'integer' ? readRowVersion(row, tracking) : undefined,
+                  targetVersion: tracking.kind === 'integer' ? readRowVersion(existing, tracking) : undefined,
                   resolution: 'pending',
                 });
                 result.skipped++;
@@ -387,11 +455,7 @@ async function syncTable(options: TableSyncOptions): Promise<TableSyncResult> {
               }
               
               // Apply conflict strategy
-              const shouldUpdate = resolveConflict(
-                conflictStrategy,
-                sourceUpdatedAt,
-                targetUpdatedAt
-              );
+              const shouldUpdate = resolveConflict(conflictStrategy, versionDiff);
               
               if (!shouldUpdate) {
                 result.skipped++;
@@ -400,14 +464,14 @@ async function syncTable(options: TableSyncOptions): Promise<TableSyncResult> {
             }
             
             // Update existing row
-            if (sourceUpdatedAt > targetUpdatedAt) {
-              const columns = Object.keys(row).filter((c) => c !== 'id');
+            if (versionDiff > 0) {
+              const columns = Object.keys(row).filter((c) => !primaryKeyColumns.has(c));
               const values = columns.map((c) => row[c]) as (string | number | boolean | null)[];
               const setClause = columns.map((c, i) => `"${c}" = $${i + 1}`).join(', ');
               
               await tx.unsafe(
-                `UPDATE "${tableName}" SET ${setClause} WHERE id = $${columns.length + 1}`,
-                [...values, rowId]
+                `UPDATE ${safeTableName} SET ${setClause} WHERE ${buildKeyMatchCondition(primaryKey, 1, columns.length + 1)}`,
+                [...values, ...parseRowKey(rowId, primaryKey)]
               );
               
               result.updated++;
@@ -438,7 +502,7 @@ async function syncTable(options: TableSyncOptions): Promise<TableSyncResult> {
     result.lastRowId = currentAfterId || undefined;
     if (batch.rows.length > 0) {
       const lastRow = batch.rows[batch.rows.length - 1];
-      result.lastUpdatedAt = safeString(lastRow.updated_at, new Date().toISOString());
+      result.lastUpdatedAt = safeString(tracking.column ? lastRow[tracking.column] : undefined, new Date().toISOString());
     }
   }
   
@@ -447,15 +511,15 @@ async function syncTable(options: TableSyncOptions): Promise<TableSyncResult> {
 
 /**
  * Resolve conflict based on strategy
+ * @param versionDiff - Positive when the source row is newer (see compareRowVersions)
  */
 function resolveConflict(
   strategy: ConflictStrategy,
-  sourceUpdatedAt: Date,
-  targetUpdatedAt: Date
+  versionDiff: number
 ): boolean {
   switch (strategy) {
     case 'last_write_wins':
-      return sourceUpdatedAt > targetUpdatedAt;
+      return versionDiff > 0;
     case 'source_wins':
       return true;
     case 'target_wins':
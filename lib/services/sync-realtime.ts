@@ -10,29 +10,71 @@
  * - Foreign key dependency ordering (topological sort)
  * - Bulk inserts for better performance
  * - Generated column filtering
+ * - Optional delete propagation ("mirror deletes")
+ * - Composite and non-`id` primary keys (discovered per table)
+ * - Configurable change tracking column, with row-hash fallback
+ * - Tables outside `public` (schema-qualified as `schema.table`)
  */
 
 import { createDrizzleClient, type DrizzleConnection } from './drizzle-factory';
-import { getRowsToSync } from './diff-engine';
+import { getRowsToSync, getDeletedRowIds, shouldMirrorDeletes } from './diff-engine';
+import {
+  resolvePrimaryKey,
+  serializeRowKey,
+  parseRowKey,
+  buildKeyColumnList,
+  buildKeyMatchCondition,
+  flattenKeys,
+} from './primary-key';
+import {
+  resolveChangeTracking,
+  compareRowVersions,
+  readRowVersion,
+  type ChangeTracking,
+} from './change-tracking';
+import {
+  assertValidRowFilters,
+  compileRowFilters,
+  describeRowFilters,
+  type RowFilter,
+} from './row-filter';
+import {
+  assertValidColumnTransforms,
+  createColumnTransformPlan,
+  applyColumnTransforms,
+  describeColumnTransforms,
+  type ColumnMaskingRule,
+  type ColumnTransformConfig,
+} from './column-masking';
 import { withRetry, withTimeout, sleep } from './retry-handler';
+import { estimateRowSize, MAX_ROW_SIZE, validateRow } from './row-validation';
 import type { SyncProgress, SyncCheckpoint, ConflictStrategy, Conflict } from '@/types';
 import { logger } from '@/lib/services/logger';
 
 // Import new production-grade services
-import { createBackup, restoreBackup, type BackupMetadata } from './backup-service';
+import {
+  createBackup,
+  restoreBackup,
+  getBackupBySyncJobId,
+  type BackupMetadata,
+} from './backup-service';
 import { createMetricsCollector, type MetricsCollector } from './sync-metrics';
 import { SyncRateLimiter } from './sync-rate-limiter';
 import { 
   markRowProcessed, 
+  markRowsProcessed,
   isRowProcessed, 
   clearProcessedRows,
 } from './idempotency-tracker';
 
 // Import security utilities
 import {
-  isValidTableName,
+  isValidQualifiedTableName,
   validateTableNames,
   escapeIdentifier,
+  escapeQualifiedName,
+  parseQualifiedTableName,
+  qualifiedTableNameSql,
   buildSafeTableLiteralArray,
   sanitizeErrorMessage,
   SecurityError,
@@ -83,17 +125,19 @@ async function getTableSyncOrder(
     WITH target_tables AS (
       SELECT unnest(ARRAY[${tableListSql}]) AS table_name
     )
-    SELECT DISTINCT
-      tc.table_name AS child_table,
-      ccu.table_name AS parent_table
-    FROM information_schema.table_constraints tc
-    JOIN information_schema.constraint_column_usage ccu
-      ON tc.constraint_name = ccu.constraint_name
-      AND tc.table_schema = ccu.table_schema
-    WHERE tc.constraint_type = 'FOREIGN KEY'
-      AND tc.table_schema = 'public'
-      AND tc.table_name IN (SELECT table_name FROM target_tables)
-      AND ccu.table_name IN (SELECT table_name FROM target_tables)
+    SELECT DISTINCT child_table, parent_table
+    FROM (
+      SELECT
+        ${qualifiedTableNameSql('tc.table_schema', 'tc.table_name')} AS child_table,
+        ${qualifiedTableNameSql('ccu.table_schema', 'ccu.table_name')} AS parent_table
+      FROM information_schema.table_constraints tc
+      JOIN information_schema.constraint_column_usage ccu
+        ON tc.constraint_name = ccu.constraint_name
+        AND tc.constraint_schema = ccu.constraint_schema
+      WHERE tc.constraint_type = 'FOREIGN KEY'
+    ) fk
+    WHERE child_table IN (SELECT table_name FROM target_tables)
+      AND parent_table IN (SELECT table_name FROM target_tables)
   `);
 
   // Build dependency graph
@@ -156,17 +200,18 @@ async function getGeneratedColumns(
   conn: DrizzleConnection,
   tableName: string
 ): Promise<Set<string>> {
+  const { schema, table } = parseQualifiedTableName(tableName);
   const result = await conn.client.unsafe(`
     SELECT column_name
     FROM information_schema.columns
-    WHERE table_schema = 'public'
-      AND table_name = $1
+    WHERE table_schema = $1
+      AND table_name = $2
       AND (
         is_generated = 'ALWAYS'
         OR generation_expression IS NOT NULL
         OR identity_generation IS NOT NULL
       )
-  `, [tableName]);
+  `, [schema, table]);
 
   return new Set(result.map(r => safeString(r.column_name)).filter(Boolean));
 }
@@ -178,13 +223,14 @@ async function getTableTriggers(
   conn: DrizzleConnection,
   tableName: string
 ): Promise<string[]> {
+  const { schema, table } = parseQualifiedTableName(tableName);
   const result = await conn.client.unsafe(`
     SELECT trigger_name
     FROM information_schema.triggers
-    WHERE event_object_schema = 'public'
-      AND event_object_table = $1
+    WHERE event_object_schema = $1
+      AND event_object_table = $2
       AND trigger_name NOT LIKE 'RI_%'
-  `, [tableName]);
+  `, [schema, table]);
 
   return result.map(r => safeString(r.trigger_name)).filter(Boolean);
 }
@@ -196,6 +242,7 @@ async function getUniqueConstraints(
   conn: DrizzleConnection,
   tableName: string
 ): Promise<{ name: string; columns: string[] }[]> {
+  const { schema, table } = parseQualifiedTableName(tableName);
   const result = await conn.client.unsafe(`
     SELECT 
       tc.constraint_name,
@@ -204,11 +251,11 @@ async function getUniqueConstraints(
     JOIN information_schema.key_column_usage kcu 
       ON tc.constraint_name = kcu.constraint_name
       AND tc.table_schema = kcu.table_schema
-    WHERE tc.table_schema = 'public'
-      AND tc.table_name = $1
+    WHERE tc.table_schema = $1
+      AND tc.table_name = $2
       AND tc.constraint_type IN ('UNIQUE', 'PRIMARY KEY')
     GROUP BY tc.constraint_name
-  `, [tableName]);
+  `, [schema, table]);
 
   return result.map(r => ({
     name: safeString(r.constraint_name),
@@ -225,16 +272,17 @@ async function getNotNullColumnsWithoutDefaults(
   conn: DrizzleConnection,
   tableName: string
 ): Promise<Set<string>> {
+  const { schema, table } = parseQualifiedTableName(tableName);
   const result = await conn.client.unsafe(`
     SELECT column_name
     FROM information_schema.columns
-    WHERE table_schema = 'public'
-      AND table_name = $1
+    WHERE table_schema = $1
+      AND table_name = $2
       AND is_nullable = 'NO'
       AND column_default IS NULL
       AND is_generated = 'NEVER'
       AND identity_generation IS NULL
-  `, [tableName]);
+  `, [schema, table]);
 
   return new Set(result.map(r => safeString(r.column_name)).filter(Boolean));
 }
@@ -246,6 +294,7 @@ async function getCheckConstraints(
   conn: DrizzleConnection,
   tableName: string
 ): Promise<{ name: string; definition: string }[]> {
+  const { schema, table } = parseQualifiedTableName(tableName);
   const result = await conn.client.unsafe(`
     SELECT 
       cc.constraint_name,
@@ -254,11 +303,11 @@ async function getCheckConstraints(
     JOIN information_schema.table_constraints tc 
       ON cc.constraint_name = tc.constraint_name
       AND cc.constraint_schema = tc.constraint_schema
-    WHERE tc.table_schema = 'public'
-      AND tc.table_name = $1
+    WHERE tc.table_schema = $1
+      AND tc.table_name = $2
       AND tc.constraint_type = 'CHECK'
       AND cc.constraint_name NOT LIKE '%_not_null'
-  `, [tableName]);
+  `, [schema, table]);
 
   return result.map(r => ({
     name: safeString(r.constraint_name),
@@ -291,16 +340,19 @@ async function detectCircularDependencies(
     WITH target_tables AS (
       SELECT unnest(ARRAY[${tableListSql}]) AS table_name
     )
-    SELECT DISTINCT
-      tc.table_name AS child_table,
-      ccu.table_name AS parent_table
-    FROM information_schema.table_constraints tc
-    JOIN information_schema.constraint_column_usage ccu
-      ON tc.constraint_name = ccu.constraint_name
-    WHERE tc.constraint_type = 'FOREIGN KEY'
-      AND tc.table_schema = 'public'
-      AND tc.table_name IN (SELECT table_name FROM target_tables)
-      AND ccu.table_name IN (SELECT table_name FROM target_tables)
+    SELECT DISTINCT child_table, parent_table
+    FROM (
+      SELECT
+        ${qualifiedTableNameSql('tc.table_schema', 'tc.table_name')} AS child_table,
+        ${qualifiedTableNameSql('ccu.table_schema', 'ccu.table_name')} AS parent_table
+      FROM information_schema.table_constraints tc
+      JOIN information_schema.constraint_column_usage ccu
+        ON tc.constraint_name = ccu.constraint_name
+        AND tc.constraint_schema = ccu.constraint_schema
+      WHERE tc.constraint_type = 'FOREIGN KEY'
+    ) fk
+    WHERE child_table IN (SELECT table_name FROM target_tables)
+      AND parent_table IN (SELECT table_name FROM target_tables)
   `);
 
   // Build adjacency list
@@ -359,14 +411,15 @@ async function deferForeignKeyConstraints(
   conn: DrizzleConnection,
   tableName: string
 ): Promise<string[]> {
+  const { schema, table } = parseQualifiedTableName(tableName);
   // Get deferrable FK constraints
   const result = await conn.client.unsafe(`
     SELECT constraint_name
     FROM information_schema.table_constraints
-    WHERE table_schema = 'public'
-      AND table_name = $1
+    WHERE table_schema = $1
+      AND table_name = $2
       AND constraint_type = 'FOREIGN KEY'
-  `, [tableName]);
+  `, [schema, table]);
 
   const constraintNames = result.map(r => safeString(r.constraint_name)).filter(Boolean);
   
@@ -374,7 +427,7 @@ async function deferForeignKeyConstraints(
   // Most FK constraints are NOT deferrable by default
   for (const name of constraintNames) {
     try {
-      await conn.client.unsafe(`SET CONSTRAINTS "${name}" DEFERRED`);
+      await conn.client.unsafe(`SET CONSTRAINTS ${escapeIdentifier(schema)}.${escapeIdentifier(name)} DEFERRED`);
     } catch {
       // Constraint not deferrable - this is expected for most FKs
     }
@@ -383,30 +436,6 @@ async function deferForeignKeyConstraints(
   return constraintNames;
 }
 
-/**
- * Estimate row size in bytes (for large row detection)
- */
-function estimateRowSize(row: Record<string, unknown>): number {
-  let size = 0;
-  for (const value of Object.values(row)) {
-    if (value === null || value === undefined) {
-      size += 4;
-    } else if (typeof value === 'string') {
-      size += value.length * 2; // UTF-16
-    } else if (typeof value === 'number') {
-      size += 8;
-    } else if (typeof value === 'boolean') {
-      size += 1;
-    } else if (typeof value === 'object') {
-      size += JSON.stringify(value).length * 2;
-    }
-  }
-  return size;
-}
-
-// Maximum row size (1MB) - rows larger than this will be handled specially
-const MAX_ROW_SIZE = 1024 * 1024;
-
 // Note: sanitizeIdentifier, isValidIdentifier, and escapeIdentifier are imported from security-utils.ts
 // Local wrapper for backward compatibility - returns unquoted escaped identifier for string interpolation
 function sanitizeIdentifier(identifier: string): string {
@@ -610,39 +639,11 @@ function serializeValue(value: unknown): string | number | boolean | null {
   return String(value);
 }
 
-/**
- * Check if a value might cause issues during sync
- * Returns warning message if problematic, null if OK
- */
-function checkValueForIssues(columnName: string, value: unknown): string | null {
-  if (typeof value === 'number') {
-    if (Number.isNaN(value)) {
-      return `Column "${columnName}" has NaN value`;
-    }
-    if (!Number.isFinite(value)) {
-      return `Column "${columnName}" has Infinity value`;
-    }
-    // Check for potential precision loss with very large numbers
-    if (Math.abs(value) > Number.MAX_SAFE_INTEGER) {
-      return `Column "${columnName}" has value exceeding safe integer range`;
-    }
-  }
-  
-  if (value instanceof Date && isNaN(value.getTime())) {
-    return `Column "${columnName}" has invalid Date`;
-  }
-  
-  if (typeof value === 'string' && value.length > 10 * 1024 * 1024) {
-    return `Column "${columnName}" has very large string (${Math.round(value.length / 1024 / 1024)}MB)`;
-  }
-  
-  return null;
-}
-
 /**
  * Table metadata for smarter sync
  */
 interface TableSyncMetadata {
+  primaryKey: string[];
   generatedColumns: Set<string>;
   uniqueConstraints: { name: string; columns: string[] }[];
   notNullColumns: Set<string>;
@@ -651,48 +652,6 @@ interface TableSyncMetadata {
   hasCircularDeps: boolean;
 }
 
-/**
- * Validate a row against known constraints
- * Returns validation result with any issues found
- */
-function validateRow(
-  row: Record<string, unknown>,
-  notNullColumns: Set<string>,
-  generatedColumns: Set<string>
-): { valid: boolean; issues: string[]; warnings: string[] } {
-  const issues: string[] = [];
-  const warnings: string[] = [];
-
-  // Check NOT NULL columns
-  for (const col of notNullColumns) {
-    if (generatedColumns.has(col)) continue; // Skip generated columns
-    if (col === 'id') continue; // ID is always provided
-    
-    const value = row[col];
-    if (value === null || value === undefined) {
-      issues.push(`NULL value in NOT NULL column: ${col}`);
-    }
-  }
-
-  // Check all column values for potential issues
-  for (const [col, value] of Object.entries(row)) {
-    if (generatedColumns.has(col)) continue;
-    
-    const valueIssue = checkValueForIssues(col, value);
-    if (valueIssue) {
-      warnings.push(valueIssue);
-    }
-  }
-
-  // Check row size
-  const rowSize = estimateRowSize(row);
-  if (rowSize > MAX_ROW_SIZE) {
-    issues.push(`Row too large: ${Math.round(rowSize / 1024)}KB (max 1MB)`);
-  }
-
-  return { valid: issues.length === 0, issues, warnings };
-}
-
 /**
  * Bulk insert rows using multi-value INSERT for better performance
  * Returns the number of successfully inserted rows
@@ -717,6 +676,9 @@ async function bulkInsertRows(
   let skippedValidation = 0;
   const bulkSize = SYNC_CONFIG.bulkInsertSize;
   const notNullColumns = metadata?.notNullColumns || new Set<string>();
+  const primaryKey = metadata?.primaryKey || ['id'];
+  const keyColumns = new Set(primaryKey);
+  const conflictTarget = buildKeyColumnList(primaryKey);
   
   // Separate large rows for individual processing
   const normalRows: Record<string, unknown>[] = [];
@@ -730,13 +692,13 @@ async function bulkInsertRows(
       largeRows.push(row);
     } else {
       // Validate row
-      const validation = validateRow(row, notNullColumns, generatedColumns);
+      const validation = validateRow(row, notNullColumns, generatedColumns, keyColumns);
       
       // Log warnings for data quality issues (but don't skip)
       if (validation.warnings.length > 0) {
         warningCount++;
         if (warningCount <= 3) {
-          onLog('warn', `⚠️ Data quality warning for row ${row.id}: ${validation.warnings.join(', ')}`);
+          onLog('warn', `⚠️ Data quality warning for row ${serializeRowKey(row, primaryKey)}: ${validation.warnings.join(', ')}`);
         }
       }
       
@@ -745,7 +707,7 @@ async function bulkInsertRows(
       } else {
         skippedValidation++;
         if (skippedValidation <= 3) {
-          onLog('warn', `⚠️ Skipping row ${row.id}: ${validation.issues.join(', ')}`);
+          onLog('warn', `⚠️ Skipping row ${serializeRowKey(row, primaryKey)}: ${validation.issues.join(', ')}`);
         }
       }
     }
@@ -791,14 +753,14 @@ async function bulkInsertRows(
         valueSets.push(`(${placeholders.join(', ')})`);
       }
       
-      // Build ON CONFLICT clause - update all columns except id
-      const updateColumns = columns.filter(c => c !== 'id');
+      // Build ON CONFLICT clause - update all columns except the primary key
+      const updateColumns = columns.filter(c => !keyColumns.has(c));
       const updateClause = updateColumns.length > 0
-        ? `ON CONFLICT (id) DO UPDATE SET ${updateColumns.map(c => `"${c}" = EXCLUDED."${c}"`).join(', ')}`
-        : 'ON CONFLICT (id) DO NOTHING';
+        ? `ON CONFLICT (${conflictTarget}) DO UPDATE SET ${updateColumns.map(c => `"${c}" = EXCLUDED."${c}"`).join(', ')}`
+        : `ON CONFLICT (${conflictTarget}) DO NOTHING`;
       
       const sql = `
-        INSERT INTO "${tableName}" (${columnList}) 
+        INSERT INTO ${escapeQualifiedName(tableName)} (${columnList}) 
         VALUES ${valueSets.join(', ')}
         ${updateClause}
       `;
@@ -833,13 +795,13 @@ async function bulkInsertRows(
           const columnListSingle = columns.map(c => `"${c}"`).join(', ');
           
           // Use ON CONFLICT DO UPDATE for individual inserts too
-          const updateCols = columns.filter(c => c !== 'id');
+          const updateCols = columns.filter(c => !keyColumns.has(c));
           const updatePart = updateCols.length > 0
-            ? `ON CONFLICT (id) DO UPDATE SET ${updateCols.map(c => `"${c}" = EXCLUDED."${c}"`).join(', ')}`
-            : 'ON CONFLICT (id) DO NOTHING';
+            ? `ON CONFLICT (${conflictTarget}) DO UPDATE SET ${updateCols.map(c => `"${c}" = EXCLUDED."${c}"`).join(', ')}`
+            : `ON CONFLICT (${conflictTarget}) DO NOTHING`;
           
           await (tx as { unsafe: (sql: string, params: unknown[]) => Promise<unknown> }).unsafe(
-            `INSERT INTO "${tableName}" (${columnListSingle}) VALUES (${placeholders}) ${updatePart}`,
+            `INSERT INTO ${escapeQualifiedName(tableName)} (${columnListSingle}) VALUES (${placeholders}) ${updatePart}`,
             values
           );
           inserted++;
@@ -848,15 +810,15 @@ async function bulkInsertRows(
           
           // Provide specific guidance based on error type
           if (rowMessage.toLowerCase().includes('unique')) {
-            onLog('error', `❌ Unique constraint violation for row ${row.id} in ${tableName}`);
+            onLog('error', `❌ Unique constraint violation for row ${serializeRowKey(row, primaryKey)} in ${tableName}`);
           } else if (rowMessage.toLowerCase().includes('check')) {
-            onLog('error', `❌ CHECK constraint violation for row ${row.id}: ${rowMessage}`);
+            onLog('error', `❌ CHECK constraint violation for row ${serializeRowKey(row, primaryKey)}: ${rowMessage}`);
           } else if (rowMessage.toLowerCase().includes('foreign key')) {
-            onLog('error', `❌ Foreign key violation for row ${row.id}: parent row may not exist`);
+            onLog('error', `❌ Foreign key violation for row ${serializeRowKey(row, primaryKey)}: parent row may not exist`);
           } else if (rowMessage.toLowerCase().includes('not null')) {
-            onLog('error', `❌ NOT NULL violation for row ${row.id}: ${rowMessage}`);
+            onLog('error', `❌ NOT NULL violation for row ${serializeRowKey(row, primaryKey)}: ${rowMessage}`);
           } else {
-            onLog('error', `❌ Failed to insert row ${row.id}: ${rowMessage}`);
+            onLog('error', `❌ Failed to insert row ${serializeRowKey(row, primaryKey)}: ${rowMessage}`);
           }
         }
       }
@@ -877,19 +839,19 @@ async function bulkInsertRows(
         const placeholders = columns.map((_, idx) => `$${idx + 1}`).join(', ');
         const columnListSingle = columns.map(c => `"${c}"`).join(', ');
         
-        const updateCols = columns.filter(c => c !== 'id');
+        const updateCols = columns.filter(c => !keyColumns.has(c));
         const updatePart = updateCols.length > 0
-          ? `ON CONFLICT (id) DO UPDATE SET ${updateCols.map(c => `"${c}" = EXCLUDED."${c}"`).join(', ')}`
-          : 'ON CONFLICT (id) DO NOTHING';
+          ? `ON CONFLICT (${conflictTarget}) DO UPDATE SET ${updateCols.map(c => `"${c}" = EXCLUDED."${c}"`).join(', ')}`
+          : `ON CONFLICT (${conflictTarget}) DO NOTHING`;
         
         await (tx as { unsafe: (sql: string, params: unknown[]) => Promise<unknown> }).unsafe(
-          `INSERT INTO "${tableName}" (${columnListSingle}) VALUES (${placeholders}) ${updatePart}`,
+          `INSERT INTO ${escapeQualifiedName(tableName)} (${columnListSingle}) VALUES (${placeholders}) ${updatePart}`,
           values
         );
         inserted++;
       } catch (error) {
         const message = error instanceof Error ? error.message : 'Unknown error';
-        onLog('error', `Failed to insert large row ${row.id}: ${message}`);
+        onLog('error', `Failed to insert large row ${serializeRowKey(row, primaryKey)}: ${message}`);
       }
     }
   }
@@ -973,7 +935,17 @@ export interface RealtimeSyncOptions {
   jobId: string;
   sourceUrl: string;
   targetUrl: string;
-  tables: { tableName: string; enabled: boolean; conflictStrategy?: string }[];
+  tables: {
+    tableName: string;
+    enabled: boolean;
+    conflictStrategy?: string;
+    mirrorDeletes?: boolean;
+    changeTrackingColumn?: string | null;
+    filters?: RowFilter[];
+    includeColumns?: string[];
+    excludeColumns?: string[];
+    masking?: ColumnMaskingRule[];
+  }[];
   direction: 'one_way' | 'two_way';
   checkpoint?: SyncCheckpoint;
   batchSize?: number;
@@ -992,6 +964,7 @@ export interface RealtimeSyncOptions {
  * - Rate limiting to protect target database
  * - Idempotency tracking for safe retries
  * - SERIALIZABLE transaction isolation
+ * - Opt-in delete propagation, only when a pre-sync backup exists
  */
 export async function executeSyncRealtime(options: RealtimeSyncOptions): Promise<void> {
   const {
@@ -1025,6 +998,7 @@ export async function executeSyncRealtime(options: RealtimeSyncOptions): Promise
     processedRows: 0,
     insertedRows: 0,
     updatedRows: 0,
+    deletedRows: 0,
     skippedRows: 0,
     errors: 0,
   };
@@ -1187,9 +1161,14 @@ export async function executeSyncRealtime(options: RealtimeSyncOptions): Promise
       onLog('info', `Processing table: ${tableName} (${i + 1}/${enabledTables.length})`);
       
       try {
+        // Reject filters that don't match the table before reading any rows
+        await assertValidRowFilters(sourceConn, tableName, tableConfig.filters);
+        const rowFilter = compileRowFilters(tableConfig.filters);
+        
         // Get row count for this table first
         const rowCountResult = await sourceConn.client.unsafe(
-          `SELECT COUNT(*) as count FROM "${tableName}"`
+          `SELECT COUNT(*) as count FROM ${escapeQualifiedName(tableName)}${rowFilter.sql ? ` WHERE ${rowFilter.sql}` : ''}`,
+          rowFilter.params
         );
         const tableRowCount = safeParseInt(rowCountResult[0]?.count);
         onLog('info', `Table ${tableName} has ${tableRowCount.toLocaleString()} rows to process`);
@@ -1200,6 +1179,13 @@ export async function executeSyncRealtime(options: RealtimeSyncOptions): Promise
           targetConn,
           tableName,
           conflictStrategy: (tableConfig.conflictStrategy as ConflictStrategy) || 'last_write_wins',
+          changeTrackingColumn: tableConfig.changeTrackingColumn,
+          filters: tableConfig.filters,
+          columnTransforms: {
+            includeColumns: tableConfig.includeColumns,
+            excludeColumns: tableConfig.excludeColumns,
+            masking: tableConfig.masking,
+          },
           direction,
           afterId: checkpoint?.lastTable === tableName ? checkpoint?.lastRowId : undefined,
           batchSize,
@@ -1291,6 +1277,78 @@ export async function executeSyncRealtime(options: RealtimeSyncOptions): Promise
       }
     }
     
+    // ========================================================================
+    // PRODUCTION FEATURE: Delete propagation (mirror deletes)
+    // Runs after all upserts, children before parents, so FK references to
+    // removed parent rows are cleaned up first.
+    // ========================================================================
+    const mirrorTables = [...orderedTables]
+      .reverse()
+      .filter(t => t.mirrorDeletes && processedTables.includes(t.tableName));
+    
+    if (mirrorTables.length > 0) {
+      // Deletes are only reversible through the pre-sync backup, which holds
+      // every row of each enabled table. On resume, look up the original one.
+      const deleteBackup = backupMetadata ?? (checkpoint ? await getBackupBySyncJobId(jobId) : null);
+      
+      if (!deleteBackup || deleteBackup.status !== 'completed') {
+        onLog('warn', `⚠️ Skipping delete propagation for ${mirrorTables.map(t => t.tableName).join(', ')}: no completed pre-sync backup`);
+      } else {
+        onLog('info', `🗑️ Propagating deletes for ${mirrorTables.length} table(s) (backup ${deleteBackup.id})`);
+        
+        for (const tableConfig of mirrorTables) {
+          const tableName = tableConfig.tableName;
+          const strategy = (tableConfig.conflictStrategy as ConflictStrategy) || 'last_write_wins';
+          
+          if (!shouldMirrorDeletes(direction, strategy)) {
+            onLog('info', `   Keeping source-missing rows in ${tableName} (two-way sync, ${strategy})`);
+            continue;
+          }
+          
+          progress.currentTable = tableName;
+          onProgress(progress);
+          
+          try {
+            const deleteResult = await syncTableDeletes({
+              sourceConn,
+              targetConn,
+              tableName,
+              batchSize,
+              jobId,
+              onDeleted: (count) => {
+                progress.deletedRows += count;
+                onProgress(progress);
+              },
+              onLog,
+              rateLimiter,
+              metricsCollector: metricsCollector || undefined,
+            });
+            
+            if (deleteResult.cancelled) {
+              currentCheckpoint = {
+                lastTable: tableName,
+                lastRowId: '',
+                lastUpdatedAt: new Date().toISOString(),
+                processedTables,
+              };
+              onComplete(false, currentCheckpoint);
+              return;
+            }
+            
+            onLog('info', `✅ Deletes: ${tableName} - ${deleteResult.deleted} removed`);
+          } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            onLog('error', `❌ Error propagating deletes for "${tableName}": ${message}`, {
+              table: tableName,
+              error: message,
+            });
+            progress.errors++;
+            onProgress(progress);
+          }
+        }
+      }
+    }
+    
     // ========================================================================
     // PRODUCTION FEATURE: Finalize metrics on success
     // ========================================================================
@@ -1311,6 +1369,7 @@ export async function executeSyncRealtime(options: RealtimeSyncOptions): Promise
       tablesProcessed: progress.completedTables,
       rowsInserted: progress.insertedRows,
       rowsUpdated: progress.updatedRows,
+      rowsDeleted: progress.deletedRows,
       backupId: backupMetadata?.id,
     });
     
@@ -1390,6 +1449,9 @@ interface TableSyncOptions {
   targetConn: DrizzleConnection;
   tableName: string;
   conflictStrategy: ConflictStrategy;
+  changeTrackingColumn?: string | null;
+  filters?: RowFilter[];
+  columnTransforms?: ColumnTransformConfig;
   direction: 'one_way' | 'two_way';
   afterId?: string;
   batchSize: number;
@@ -1411,7 +1473,7 @@ interface TableSyncResult {
     noChanges: number;        // No columns to update
     conflict: number;         // Two-way conflict
     error: number;            // Processing error
-    noId: number;             // Row missing id
+    noId: number;             // Row missing primary key value
   };
   errors: string[];           // Detailed error messages
   conflicts: Conflict[];
@@ -1456,6 +1518,9 @@ async function syncTable(options: TableSyncOptions): Promise<TableSyncResult> {
     targetConn,
     tableName,
     conflictStrategy,
+    changeTrackingColumn,
+    filters,
+    columnTransforms = {},
     direction,
     afterId,
     batchSize,
@@ -1492,6 +1557,47 @@ async function syncTable(options: TableSyncOptions): Promise<TableSyncResult> {
   // Collect table metadata for smarter sync
   onLog('info', `Analyzing table structure for ${tableName}...`);
   
+  const primaryKey = await resolvePrimaryKey(sourceConn, tableName);
+  const primaryKeyColumns = new Set(primaryKey);
+  const safeTableName = escapeQualifiedName(tableName);
+  
+  if (primaryKey.length !== 1 || primaryKey[0] !== 'id') {
+    onLog('info', `🔑 Primary key: (${primaryKey.join(', ')})`);
+  }
+  
+  const tracking = await resolveChangeTracking(sourceConn, tableName, changeTrackingColumn);
+  if (tracking.kind === 'hash') {
+    onLog(
+      changeTrackingColumn === null ? 'info' : 'warn',
+      `🔍 No change tracking column for ${tableName}, comparing full row hashes`
+    );
+  } else if (tracking.column !== 'updated_at') {
+    onLog('info', `🕒 Change tracking: ${tracking.column} (${tracking.kind})`);
+  }
+  
+  if (filters && filters.length > 0) {
+    onLog('info', `🔎 Row filter: ${describeRowFilters(filters)}`);
+  }
+  
+  // Projection and masking run on every fetched row, before validation and
+  // serialization, so the target only ever sees transformed values
+  const protectedColumns = tracking.column ? [...primaryKey, tracking.column] : primaryKey;
+  await assertValidColumnTransforms(sourceConn, tableName, columnTransforms, protectedColumns);
+  const columnPlan = createColumnTransformPlan(columnTransforms);
+  for (const line of describeColumnTransforms(columnTransforms)) {
+    onLog('info', `🛡️ Column masking: ${line}`);
+  }
+  
+  // A checkpoint written under a different key shape cannot be resumed from
+  if (currentAfterId) {
+    try {
+      parseRowKey(currentAfterId, primaryKey);
+    } catch {
+      onLog('warn', `⚠️ Checkpoint key "${currentAfterId}" does not match primary key of ${tableName}, restarting table`);
+      currentAfterId = undefined;
+    }
+  }
+  
   const [generatedColumns, triggers, uniqueConstraints, notNullColumns, checkConstraints] = await Promise.all([
     getGeneratedColumns(targetConn, tableName),
     getTableTriggers(targetConn, tableName),
@@ -1502,6 +1608,7 @@ async function syncTable(options: TableSyncOptions): Promise<TableSyncResult> {
   
   // Build metadata object
   const metadata: TableSyncMetadata = {
+    primaryKey,
     generatedColumns,
     uniqueConstraints,
     notNullColumns,
@@ -1518,7 +1625,9 @@ async function syncTable(options: TableSyncOptions): Promise<TableSyncResult> {
     onLog('warn', `⚠️ Table has ${triggers.length} trigger(s) that may affect performance`);
   }
   if (uniqueConstraints.length > 1) { // > 1 because PK is always there
-    const nonPkConstraints = uniqueConstraints.filter(c => !c.columns.includes('id') || c.columns.length > 1);
+    const nonPkConstraints = uniqueConstraints.filter(c =>
+      c.columns.length !== primaryKey.length || !c.columns.every(col => primaryKeyColumns.has(col))
+    );
     if (nonPkConstraints.length > 0) {
       onLog('info', `🔑 Additional unique constraints: ${nonPkConstraints.map(c => `(${c.columns.join(', ')})`).join(', ')}`);
     }
@@ -1560,7 +1669,10 @@ async function syncTable(options: TableSyncOptions): Promise<TableSyncResult> {
         tableName,
         undefined,
         currentAfterId,
-        batchSize
+        batchSize,
+        primaryKey,
+        tracking,
+        filters
       ),
       SYNC_CONFIG.batchTimeout,
       `Batch fetch timeout for table ${tableName}`
@@ -1576,31 +1688,35 @@ async function syncTable(options: TableSyncOptions): Promise<TableSyncResult> {
       break;
     }
     
+    const sourceRows = batch.rows.map((row) => applyColumnTransforms(row, columnPlan));
+    
     // Separate rows into inserts and updates for bulk processing
     const rowsToInsert: Record<string, unknown>[] = [];
     const rowsToUpdate: { row: Record<string, unknown>; existing: Record<string, unknown> }[] = [];
     const rowsToSkip: { row: Record<string, unknown>; reason: string }[] = [];
     
     // First pass: categorize rows
-    const existingIds = batch.rows
-      .filter(r => r.id !== null && r.id !== undefined)
-      .map(r => safeString(r.id));
+    const existingIds = sourceRows
+      .map(r => serializeRowKey(r, primaryKey))
+      .filter(Boolean);
     let existingRowsMap = new Map<string, Record<string, unknown>>();
     
     if (existingIds.length > 0) {
-      // Bulk check for existing rows
-      const placeholders = existingIds.map((_, i) => `$${i + 1}`).join(', ');
+      // Bulk check for existing rows (full rows are needed to compare hashes)
+      const selectList = tracking.column
+        ? `${buildKeyColumnList(primaryKey)}, ${escapeIdentifier(tracking.column)}`
+        : '*';
       const existingResult = await targetConn.client.unsafe(
-        `SELECT id, updated_at FROM "${tableName}" WHERE id IN (${placeholders})`,
-        existingIds
+        `SELECT ${selectList} FROM ${safeTableName} WHERE ${buildKeyMatchCondition(primaryKey, existingIds.length)}`,
+        flattenKeys(existingIds, primaryKey)
       );
       existingRowsMap = new Map(
-        existingResult.map(r => [safeString(r.id), r as Record<string, unknown>])
+        existingResult.map(r => [serializeRowKey(r, primaryKey), r as Record<string, unknown>])
       );
     }
     
-    for (const row of batch.rows) {
-      const rowId = safeString(row.id);
+    for (const row of sourceRows) {
+      const rowId = serializeRowKey(row, primaryKey);
       if (!rowId) {
         result.skipped++;
         result.skippedReasons.noId++;
@@ -1647,7 +1763,7 @@ async function syncTable(options: TableSyncOptions): Promise<TableSyncResult> {
       
       // UPDATES - still row by row due to conflict resolution logic
       for (const { row, existing } of rowsToUpdate) {
-        const rowId = safeString(row.id);
+        const rowId = serializeRowKey(row, primaryKey);
         
         // ========================================================================
         // PRODUCTION FEATURE: Idempotency check - skip already processed rows
@@ -1665,12 +1781,11 @@ async function syncTable(options: TableSyncOptions): Promise<TableSyncResult> {
         
         try {
           // Handle update with conflict resolution
-          // Safely parse dates using helper function
-          const sourceUpdatedAt = safeDate(row.updated_at, new Date(0));
-          const targetUpdatedAt = safeDate(existing.updated_at, new Date(0));
+          const hashColumns = Object.keys(row).filter((c) => !generatedColumns.has(c));
+          const versionDiff = compareRowVersions(row, existing, tracking, hashColumns);
           
           // Check for conflict in two-way sync
-          if (direction === 'two_way' && targetUpdatedAt > sourceUpdatedAt) {
+          if (direction === 'two_way' && versionDiff < 0) {
             if (conflictStrategy === 'manual') {
               result.conflicts.push({
                 id: `${tableName}-${rowId}`,
@@ -1678,8 +1793,7 @@ async function syncTable(options: TableSyncOptions): Promise<TableSyncResult> {
                 rowId,
                 sourceData: row,
                 targetData: existing as Record<string, unknown>,
-                sourceUpdatedAt,
-                targetUpdatedAt,
+                ...describeConflictVersions(row, existing, tracking),
                 resolution: 'pending',
               });
               result.skipped++;
@@ -1688,11 +1802,7 @@ async function syncTable(options: TableSyncOptions): Promise<TableSyncResult> {
             }
             
             // Apply conflict strategy
-            const shouldUpdate = resolveConflict(
-              conflictStrategy,
-              sourceUpdatedAt,
-              targetUpdatedAt
-            );
+            const shouldUpdate = resolveConflict(conflictStrategy, versionDiff);
             
             if (!shouldUpdate) {
               result.skipped++;
@@ -1701,11 +1811,13 @@ async function syncTable(options: TableSyncOptions): Promise<TableSyncResult> {
             }
           }
           
-          // Update existing row if source is newer (or if target has no updated_at)
-          if (sourceUpdatedAt > targetUpdatedAt || !existing.updated_at) {
+          // Update existing row if source is newer (or if target has no version)
+          const targetMissingVersion = !!tracking.column &&
+            (existing[tracking.column] === null || existing[tracking.column] === undefined);
+          if (versionDiff > 0 || targetMissingVersion) {
             // Filter out generated columns and undefined values
             const columns = Object.keys(row).filter((c) => 
-              c !== 'id' && 
+              !primaryKeyColumns.has(c) && 
               row[c] !== undefined && 
               !generatedColumns.has(c)
             );
@@ -1719,8 +1831,8 @@ async function syncTable(options: TableSyncOptions): Promise<TableSyncResult> {
             const setClause = columns.map((c, i) => `"${c}" = $${i + 1}`).join(', ');
             
             await tx.unsafe(
-              `UPDATE "${tableName}" SET ${setClause} WHERE id = $${columns.length + 1}`,
-              [...values, rowId]
+              `UPDATE ${safeTableName} SET ${setClause} WHERE ${buildKeyMatchCondition(primaryKey, 1, columns.length + 1)}`,
+              [...values, ...parseRowKey(rowId, primaryKey)]
             );
             
             result.updated++;
@@ -1752,7 +1864,7 @@ async function syncTable(options: TableSyncOptions): Promise<TableSyncResult> {
             onCheckpoint?.({
               lastTable: tableName,
               lastRowId: rowId,
-              lastUpdatedAt: safeString(row.updated_at, new Date().toISOString()),
+              lastUpdatedAt: safeString(tracking.column ? row[tracking.column] : undefined, new Date().toISOString()),
             });
           }
           
@@ -1763,11 +1875,11 @@ async function syncTable(options: TableSyncOptions): Promise<TableSyncResult> {
           
           // Store error details (limit to first 10)
           if (result.errors.length < 10) {
-            result.errors.push(`${tableName}.${row.id}: ${message}`);
+            result.errors.push(`${tableName}.${rowId}: ${message}`);
           }
           
           // Log errors in detail
-          onLog('error', `❌ Error [${tableName}.${row.id}]: ${message}`);
+          onLog('error', `❌ Error [${tableName}.${rowId}]: ${message}`);
           
           // Log row data for first few errors only
           if (result.skippedReasons.error <= 3) {
@@ -1817,7 +1929,7 @@ async function syncTable(options: TableSyncOptions): Promise<TableSyncResult> {
     result.lastRowId = currentAfterId || undefined;
     if (batch.rows.length > 0) {
       const lastRow = batch.rows[batch.rows.length - 1];
-      result.lastUpdatedAt = safeString(lastRow.updated_at, new Date().toISOString());
+      result.lastUpdatedAt = safeString(tracking.column ? lastRow[tracking.column] : undefined, new Date().toISOString());
     }
     
     // Small delay between batches to prevent overwhelming the database
@@ -1827,17 +1939,151 @@ async function syncTable(options: TableSyncOptions): Promise<TableSyncResult> {
   return result;
 }
 
+interface TableDeleteOptions {
+  sourceConn: DrizzleConnection;
+  targetConn: DrizzleConnection;
+  tableName: string;
+  batchSize: number;
+  jobId: string;
+  onDeleted: (count: number) => void;
+  onLog: (level: 'info' | 'warn' | 'error', message: string, metadata?: Record<string, unknown>) => void;
+  rateLimiter?: SyncRateLimiter;
+  metricsCollector?: MetricsCollector;
+}
+
+interface TableDeleteResult {
+  deleted: number;
+  cancelled: boolean;
+}
+
+/**
+ * Delete target rows whose primary key no longer exists in the source
+ */
+export async function syncTableDeletes(options: TableDeleteOptions): Promise<TableDeleteResult> {
+  const {
+    sourceConn,
+    targetConn,
+    tableName,
+    batchSize,
+    jobId,
+    onDeleted,
+    onLog,
+    rateLimiter,
+    metricsCollector,
+  } = options;
+  
+  // SECURITY: Validate table name before use
+  if (!isValidQualifiedTableName(tableName)) {
+    throw new SecurityError(`Invalid table name: ${tableName}`);
+  }
+  
+  const result: TableDeleteResult = { deleted: 0, cancelled: false };
+  const safeTableName = escapeQualifiedName(tableName);
+  const primaryKey = await resolvePrimaryKey(targetConn, tableName);
+  let currentAfterId: string | undefined;
+  let hasMore = true;
+  
+  while (hasMore) {
+    if (isSyncCancelled(jobId) || isJobTimedOut(jobId)) {
+      onLog('warn', `Delete propagation interrupted during ${tableName}`);
+      result.cancelled = true;
+      cancelledJobs.delete(jobId);
+      return result;
+    }
+    
+    const batch = await withTimeout(
+      async () => getDeletedRowIds(sourceConn, targetConn, tableName, currentAfterId, batchSize, primaryKey),
+      SYNC_CONFIG.batchTimeout,
+      `Delete scan timeout for table ${tableName}`
+    );
+    
+    hasMore = batch.hasMore;
+    currentAfterId = batch.lastId || currentAfterId;
+    
+    if (batch.ids.length === 0) {
+      continue;
+    }
+    
+    if (rateLimiter) {
+      await rateLimiter.acquirePermit(batch.ids.length);
+    }
+    
+    const batchStart = Date.now();
+    
+    const deleted = await targetConn.client.begin(async (tx) => {
+      const res = await tx.unsafe(
+        `DELETE FROM ${safeTableName} WHERE ${buildKeyMatchCondition(primaryKey, batch.ids.length)}`,
+        flattenKeys(batch.ids, primaryKey)
+      );
+      return res.count;
+    });
+    
+    result.deleted += deleted;
+    onDeleted(deleted);
+    
+    const batchDuration = Date.now() - batchStart;
+    if (metricsCollector) {
+      metricsCollector.recordBatch(tableName, batch.ids.length, batchDuration);
+    }
+    if (rateLimiter) {
+      rateLimiter.recordResponseTime(batchDuration / batch.ids.length);
+    }
+    
+    try {
+      await markRowsProcessed(batch.ids.map(id => ({
+        syncJobId: jobId,
+        tableName,
+        rowId: id,
+        operation: 'delete' as const,
+        processedAt: new Date(),
+      })));
+    } catch {
+      // Non-critical - continue even if marking fails
+    }
+    
+    onLog('info', `Deleted ${deleted} source-missing row(s) from ${tableName}`);
+    
+    await sleep(100);
+  }
+  
+  return result;
+}
+
+/**
+ * Build the version fields of a conflict record. Timestamp-tracked tables
+ * report their timestamps; integer-tracked tables report raw versions.
+ */
+function describeConflictVersions(
+  sourceRow: Record<string, unknown>,
+  targetRow: Record<string, unknown>,
+  tracking: ChangeTracking
+): Pick<Conflict, 'sourceUpdatedAt' | 'targetUpdatedAt' | 'sourceVersion' | 'targetVersion'> {
+  if (tracking.kind === 'timestamp') {
+    return {
+      sourceUpdatedAt: new Date(readRowVersion(sourceRow, tracking)),
+      targetUpdatedAt: new Date(readRowVersion(targetRow, tracking)),
+    };
+  }
+  
+  return {
+    sourceUpdatedAt: new Date(0),
+    targetUpdatedAt: new Date(0),
+    sourceVersion: tracking.kind === 'integer' ? readRowVersion(sourceRow, tracking) : undefined,
+    targetVersion: tracking.kind === 'integer' ? readRowVersion(targetRow, tracking) : undefined,
+  };
+}
+
 /**
  * Resolve conflict based on strategy
+ * @param versionDiff - Positive when the source row is newer (see compareRowVersions)
  */
 function resolveConflict(
   strategy: ConflictStrategy,
-  sourceUpdatedAt: Date,
-  targetUpdatedAt: Date
+  versionDiff: number
 ): boolean {
   switch (strategy) {
     case 'last_write_wins':
-      return sourceUpdatedAt > targetUpdatedAt;
+      return versionDiff > 0;
     case 'source_wins':
       return true;
     case 'target_wins':
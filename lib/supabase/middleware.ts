@@ -1,6 +1,7 @@
 import { createServerClient } from '@supabase/ssr';
 import { NextResponse, type NextRequest } from 'next/server';
 import { logger } from '@/lib/services/logger';
+import { isApiToken } from '@/lib/services/api-tokens';
 
 // Timeout for Supabase auth calls (5 seconds)
 const AUTH_TIMEOUT_MS = 5000;
@@ -37,6 +38,15 @@ const PUBLIC_API_ROUTES = [
   '/api/docs',
 ] as const;
 
+/**
+ * API routes that also accept personal access tokens. The route handlers
+ * forward the token to the backend, which authenticates it.
+ */
+const API_TOKEN_ROUTES = [
+  '/api/sync',
+  '/api/connections',
+] as const;
+
 /**
  * Check if the request path is a public route
  */
@@ -53,6 +63,19 @@ function isPublicApiRoutePath(pathname: string): boolean {
   ) || pathname.startsWith('/api/auth');
 }
 
+/**
+ * Check if the request carries a personal access token for a route that accepts one
+ */
+function isApiTokenRequest(request: NextRequest): boolean {
+  const pathname = request.nextUrl.pathname;
+  if (!API_TOKEN_ROUTES.some((route) => route === pathname || pathname.startsWith(route + '/'))) {
+    return false;
+  }
+
+  const authHeader = request.headers.get('authorization');
+  return !!authHeader?.startsWith('Bearer ') && isApiToken(authHeader.slice(7).trim());
+}
+
 // ============================================================================
 // HELPER FUNCTIONS
 // ============================================================================
@@ -93,6 +116,11 @@ export async function updateSession(request: NextRequest) {
     return NextResponse.next({ request });
   }
 
+  // Token-authenticated API calls have no session cookies to refresh
+  if (isApiTokenRequest(request)) {
+    return NextResponse.next({ request });
+  }
+
   let supabaseResponse = NextResponse.next({
     request,
   });
@@ -13,6 +13,4 @@ export {
   safeJoin,
 } from './postgres-array';
 
-
-
-
+export { escapeCsvField, formatCsvRow } from './csv';
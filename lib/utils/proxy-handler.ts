@@ -8,6 +8,27 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
 import { backendRequest, backendStream, BackendError } from './backend-client';
+import { getApiTokenFromRequest } from '@/lib/services/api-tokens';
+import type { Connection } from '@/types/supabase';
+
+/**
+ * The connection fields the backend returns for an API token's owner
+ */
+export type ApiTokenConnection = Pick<Connection, 'id' | 'name' | 'encrypted_url' | 'environment' | 'schemas'>;
+
+/**
+ * Options shared by the proxy factories
+ */
+export interface ProxyOptions {
+  /**
+   * Accept a personal access token (`Authorization: Bearer sbsync_...`) in
+   * place of a session. The token is forwarded as-is and authenticated by
+   * the backend, which also enforces its scopes and rate limit.
+   */
+  allowApiTokens?: boolean;
+  /** Request headers to pass through to the backend */
+  forwardHeaders?: string[];
+}
 
 /**
  * Get the user token from Supabase session
@@ -36,25 +57,127 @@ async function getUser() {
 }
 
 /**
- * Create a proxy handler for GET requests
+ * Resolve the credential to forward to the backend, or an error response
  */
-export function createProxyGET(backendPath: string | ((req: NextRequest) => string)) {
-  return async function handler(request: NextRequest) {
-    const user = await getUser();
-    if (!user) {
-      return NextResponse.json(
+async function resolveBackendToken(
+  request: NextRequest,
+  options: ProxyOptions
+): Promise<{ token: string } | { response: NextResponse }> {
+  if (options.allowApiTokens) {
+    const apiToken = getApiTokenFromRequest(request);
+    if (apiToken) return { token: apiToken };
+  }
+  
+  const user = await getUser();
+  if (!user) {
+    return {
+      response: NextResponse.json(
         { success: false, error: 'Authentication required' },
         { status: 401 }
-      );
-    }
-    
-    const token = await getUserToken();
-    if (!token) {
-      return NextResponse.json(
+      ),
+    };
+  }
+  
+  const token = await getUserToken();
+  if (!token) {
+    return {
+      response: NextResponse.json(
         { success: false, error: 'Invalid session' },
         { status: 401 }
-      );
+      ),
+    };
+  }
+  
+  return { token };
+}
+
+/**
+ * Collect the headers to pass through to the backend. Token requests also
+ * carry the caller's address and user agent for the backend's audit log.
+ */
+function getForwardedHeaders(request: NextRequest, options: ProxyOptions): Record<string, string> {
+  const names = [...(options.forwardHeaders || [])];
+  if (options.allowApiTokens && getApiTokenFromRequest(request)) {
+    names.push('x-forwarded-for', 'user-agent');
+  }
+  
+  const headers: Record<string, string> = {};
+  for (const name of names) {
+    const value = request.headers.get(name);
+    if (value) headers[name] = value;
+  }
+  return headers;
+}
+
+/**
+ * Authenticate an API token request through the backend and load the token
+ * owner's connections, for routes that work on the connections here instead
+ * of proxying. Connections the owner does not have are left out.
+ */
+export async function resolveApiTokenConnections(
+  request: NextRequest,
+  connectionIds: string[]
+): Promise<{ userId: string; connections: ApiTokenConnection[] } | { response: NextResponse }> {
+  const token = getApiTokenFromRequest(request);
+  if (!token) {
+    return {
+      response: NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      ),
+    };
+  }
+  
+  try {
+    const result = await backendRequest<{
+      data: {
+        userId: string;
+        connections: Array<Omit<ApiTokenConnection, 'encrypted_url'> & { encryptedUrl: string }>;
+      };
+    }>({
+      method: 'POST',
+      path: '/api/connections/resolve',
+      body: { connectionIds },
+      userToken: token,
+      headers: getForwardedHeaders(request, { allowApiTokens: true }),
+    });
+    
+    return {
+      userId: result.data.userId,
+      connections: result.data.connections.map(({ encryptedUrl, ...conn }) => ({
+        ...conn,
+        encrypted_url: encryptedUrl,
+      })),
+    };
+  } catch (error) {
+    if (error instanceof BackendError) {
+      return {
+        response: NextResponse.json(
+          { success: false, error: error.message },
+          { status: error.status }
+        ),
+      };
     }
+    return {
+      response: NextResponse.json(
+        { success: false, error: 'Backend request failed' },
+        { status: 500 }
+      ),
+    };
+  }
+}
+
+/**
+ * Create a proxy handler for GET requests
+ */
+export function createProxyGET(
+  backendPath: string | ((req: NextRequest) => string),
+  options: ProxyOptions = {}
+) {
+  return async function handler(request: NextRequest) {
+    const auth = await resolveBackendToken(request, options);
+    if ('response' in auth) return auth.response;
+    const { token } = auth;
     
     try {
       const path = typeof backendPath === 'function' ? backendPath(request) : backendPath;
@@ -68,6 +191,7 @@ export function createProxyGET(backendPath: string | ((req: NextRequest) => stri
         method: 'GET',
         path: fullPath,
         userToken: token,
+        headers: getForwardedHeaders(request, options),
       });
       
       return NextResponse.json(result);
@@ -89,23 +213,14 @@ export function createProxyGET(backendPath: string | ((req: NextRequest) => stri
 /**
  * Create a proxy handler for POST requests
  */
-export function createProxyPOST(backendPath: string | ((req: NextRequest) => string)) {
+export function createProxyPOST(
+  backendPath: string | ((req: NextRequest) => string),
+  options: ProxyOptions = {}
+) {
   return async function handler(request: NextRequest) {
-    const user = await getUser();
-    if (!user) {
-      return NextResponse.json(
-        { success: false, error: 'Authentication required' },
-        { status: 401 }
-      );
-    }
-    
-    const token = await getUserToken();
-    if (!token) {
-      return NextResponse.json(
-        { success: false, error: 'Invalid session' },
-        { status: 401 }
-      );
-    }
+    const auth = await resolveBackendToken(request, options);
+    if ('response' in auth) return auth.response;
+    const { token } = auth;
     
     try {
       const path = typeof backendPath === 'function' ? backendPath(request) : backendPath;
@@ -122,6 +237,7 @@ export function createProxyPOST(backendPath: string | ((req: NextRequest) => str
         path,
         body,
         userToken: token,
+        headers: getForwardedHeaders(request, options),
       });
       
       return NextResponse.json(result);
@@ -143,23 +259,14 @@ export function createProxyPOST(backendPath: string | ((req: NextRequest) => str
 /**
  * Create a proxy handler for PUT requests
  */
-export function createProxyPUT(backendPath: string | ((req: NextRequest) => string)) {
+export function createProxyPUT(
+  backendPath: string | ((req: NextRequest) => string),
+  options: ProxyOptions = {}
+) {
   return async function handler(request: NextRequest) {
-    const user = await getUser();
-    if (!user) {
-      return NextResponse.json(
-        { success: false, error: 'Authentication required' },
-        { status: 401 }
-      );
-    }
-    
-    const token = await getUserToken();
-    if (!token) {
-      return NextResponse.json(
-        { success: false, error: 'Invalid session' },
-        { status: 401 }
-      );
-    }
+    const auth = await resolveBackendToken(request, options);
+    if ('response' in auth) return auth.response;
+    const { token } = auth;
     
     try {
       const path = typeof backendPath === 'function' ? backendPath(request) : backendPath;
@@ -176,6 +283,7 @@ export function createProxyPUT(backendPath: string | ((req: NextRequest) => stri
         path,
         body,
         userToken: token,
+        headers: getForwardedHeaders(request, options),
       });
       
       return NextResponse.json(result);
@@ -197,23 +305,14 @@ export function createProxyPUT(backendPath: string | ((req: NextRequest) => stri
 /**
  * Create a proxy handler for DELETE requests
  */
-export function createProxyDELETE(backendPath: string | ((req: NextRequest) => string)) {
+export function createProxyDELETE(
+  backendPath: string | ((req: NextRequest) => string),
+  options: ProxyOptions = {}
+) {
   return async function handler(request: NextRequest) {
-    const user = await getUser();
-    if (!user) {
-      return NextResponse.json(
-        { success: false, error: 'Authentication required' },
-        { status: 401 }
-      );
-    }
-    
-    const token = await getUserToken();
-    if (!token) {
-      return NextResponse.json(
-        { success: false, error: 'Invalid session' },
-        { status: 401 }
-      );
-    }
+    const auth = await resolveBackendToken(request, options);
+    if ('response' in auth) return auth.response;
+    const { token } = auth;
     
     try {
       const path = typeof backendPath === 'function' ? backendPath(request) : backendPath;
@@ -222,6 +321,7 @@ export function createProxyDELETE(backendPath: string | ((req: NextRequest) => s
         method: 'DELETE',
         path,
         userToken: token,
+        headers: getForwardedHeaders(request, options),
       });
       
       return NextResponse.json(result);
@@ -243,23 +343,14 @@ export function createProxyDELETE(backendPath: string | ((req: NextRequest) => s
 /**
  * Create a proxy handler for streaming responses (SSE)
  */
-export function createProxyStream(backendPath: string | ((req: NextRequest) => string)) {
+export function createProxyStream(
+  backendPath: string | ((req: NextRequest) => string),
+  options: ProxyOptions = {}
+) {
   return async function handler(request: NextRequest) {
-    const user = await getUser();
-    if (!user) {
-      return NextResponse.json(
-        { success: false, error: 'Authentication required' },
-        { status: 401 }
-      );
-    }
-    
-    const token = await getUserToken();
-    if (!token) {
-      return NextResponse.json(
-        { success: false, error: 'Invalid session' },
-        { status: 401 }
-      );
-    }
+    const auth = await resolveBackendToken(request, options);
+    if ('response' in auth) return auth.response;
+    const { token } = auth;
     
     try {
       const path = typeof backendPath === 'function' ? backendPath(request) : backendPath;
@@ -278,6 +369,7 @@ export function createProxyStream(backendPath: string | ((req: NextRequest) => s
         path,
         body,
         userToken: token,
+        headers: getForwardedHeaders(request, options),
       });
       
       return new Response(stream, {
@@ -7,6 +7,7 @@
 import {
   ConnectionInputSchema,
   SyncJobInputSchema,
+  MigrationApplySchema,
   PaginationSchema,
   validateInput,
 } from '../schemas';
@@ -144,6 +145,32 @@ describe('Validation Schemas', () => {
     });
   });
 
+  describe('MigrationApplySchema', () => {
+    const validInput = {
+      sourceConnectionId: '123e4567-e89b-12d3-a456-426614174000',
+      planChecksum: 'a'.repeat(64),
+    };
+
+    it('should accept schema-qualified tables', () => {
+      const result = MigrationApplySchema.safeParse({
+        ...validInput,
+        tables: ['users', 'billing.invoices'],
+      });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.tables).toEqual(['users', 'billing.invoices']);
+      }
+    });
+
+    it('should reject invalid table name', () => {
+      const result = MigrationApplySchema.safeParse({
+        ...validInput,
+        tables: ['billing.invoices; DROP TABLE users'],
+      });
+      expect(result.success).toBe(false);
+    });
+  });
+
   describe('PaginationSchema', () => {
     it('should use defaults when not provided', () => {
       const result = PaginationSchema.safeParse({});
@@ -5,6 +5,7 @@
  */
 
 import { z } from 'zod';
+import { DEFAULT_EXPORT_ROWS, MAX_EXPORT_ROWS } from '@/lib/services/explorer-export';
 
 // ============================================
 // Common Patterns
@@ -19,6 +20,12 @@ const uuidPattern = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}
 // Table name pattern (alphanumeric, underscore, no SQL injection)
 const tableNamePattern = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
 
+// Table name optionally qualified by a schema (e.g. `billing.invoices`)
+const qualifiedTableNamePattern = /^[a-zA-Z_][a-zA-Z0-9_]*(\.[a-zA-Z_][a-zA-Z0-9_]*)?$/;
+
+// Schema name (no system schemas)
+const schemaNamePattern = /^(?!pg_)(?!information_schema$)[a-zA-Z_][a-zA-Z0-9_]*$/;
+
 // ============================================
 // Connection Schemas
 // ============================================
@@ -47,6 +54,17 @@ export const ConnectionInputSchema = z.object({
   environment: z.enum(['production', 'development'], {
     message: 'Environment must be "production" or "development"',
   }),
+  schemas: z
+    .array(
+      z
+        .string()
+        .max(63, 'Schema name too long')
+        .regex(schemaNamePattern, 'Invalid schema name format')
+    )
+    .min(1, 'At least one schema is required')
+    .max(20, 'Maximum 20 schemas per connection')
+    .optional()
+    .default(['public']),
 });
 
 export type ConnectionInput = z.infer<typeof ConnectionInputSchema>;
@@ -61,18 +79,84 @@ export const ConnectionIdSchema = z.object({
 // Sync Job Schemas
 // ============================================
 
+export const RowFilterSchema = z.object({
+  column: z
+    .string()
+    .min(1, 'Filter column is required')
+    .max(63, 'Column name too long')
+    .regex(tableNamePattern, 'Invalid column name format'),
+  operator: z.enum([
+    'eq', 'neq', 'gt', 'gte', 'lt', 'lte',
+    'in', 'not_in', 'like',
+    'is_null', 'is_not_null',
+    'within_days',
+  ]),
+  value: z
+    .union([
+      z.string().max(1000, 'Filter value too long'),
+      z.number(),
+      z.boolean(),
+      z.array(z.union([z.string().max(1000), z.number()])).max(1000, 'Too many filter values'),
+    ])
+    .nullable()
+    .optional(),
+});
+
+export type RowFilterInput = z.infer<typeof RowFilterSchema>;
+
+const columnNameSchema = z
+  .string()
+  .min(1, 'Column name is required')
+  .max(63, 'Column name too long')
+  .regex(tableNamePattern, 'Invalid column name format');
+
+export const ColumnMaskingRuleSchema = z.object({
+  column: columnNameSchema,
+  transform: z.enum(['hash', 'fake_email', 'null', 'fixed', 'truncate']),
+  value: z
+    .union([z.string().max(1000, 'Replacement value too long'), z.number(), z.boolean()])
+    .nullable()
+    .optional(),
+  length: z.number().int().min(0).max(10000).optional(),
+}).refine(
+  (rule) => rule.transform !== 'truncate' || rule.length !== undefined,
+  { message: 'Truncate requires a length', path: ['length'] }
+);
+
+export type ColumnMaskingRuleInput = z.infer<typeof ColumnMaskingRuleSchema>;
+
 export const TableConfigSchema = z.object({
   tableName: z
     .string()
     .min(1, 'Table name is required')
-    .max(63, 'Table name too long') // PostgreSQL limit
-    .regex(tableNamePattern, 'Invalid table name format'),
+    .max(127, 'Table name too long') // PostgreSQL limit, per part
+    .regex(qualifiedTableNamePattern, 'Invalid table name format'),
   enabled: z.boolean(),
   conflictStrategy: z
     .enum(['last_write_wins', 'source_wins', 'target_wins', 'manual'])
     .optional()
     .default('last_write_wins'),
-});
+  mirrorDeletes: z.boolean().optional().default(false),
+  changeTrackingColumn: z
+    .string()
+    .max(63, 'Column name too long')
+    .regex(tableNamePattern, 'Invalid column name format')
+    .nullable()
+    .optional(),
+  filters: z
+    .array(RowFilterSchema)
+    .max(10, 'Maximum 10 filters per table')
+    .optional(),
+  includeColumns: z.array(columnNameSchema).max(1600, 'Too many columns').optional(),
+  excludeColumns: z.array(columnNameSchema).max(1600, 'Too many columns').optional(),
+  masking: z
+    .array(ColumnMaskingRuleSchema)
+    .max(100, 'Maximum 100 masking rules per table')
+    .optional(),
+}).refine(
+  (config) => !(config.includeColumns?.length && config.excludeColumns?.length),
+  { message: 'Use either includeColumns or excludeColumns, not both', path: ['excludeColumns'] }
+);
 
 export type TableConfig = z.infer<typeof TableConfigSchema>;
 
@@ -105,6 +189,13 @@ export type SyncJobInput = z.infer<typeof SyncJobInputSchema>;
 // Validation Schemas
 // ============================================
 
+// A table by name, or by its config so the config's change tracking column
+// and row filters are validated along with the schema
+const TableSelectionSchema = z.union([
+  z.string().regex(qualifiedTableNamePattern, 'Invalid table name'),
+  TableConfigSchema,
+]);
+
 export const ValidateInputSchema = z.object({
   sourceConnectionId: z
     .string()
@@ -113,10 +204,7 @@ export const ValidateInputSchema = z.object({
     .string()
     .regex(uuidPattern, 'Invalid target connection ID'),
   tables: z
-    .array(z.union([
-      z.string().regex(tableNamePattern, 'Invalid table name'),
-      TableConfigSchema,
-    ]))
+    .array(TableSelectionSchema)
     .optional()
     .default([]),
   direction: z
@@ -131,6 +219,12 @@ export type ValidateInput = z.infer<typeof ValidateInputSchema>;
 // Migration Schemas
 // ============================================
 
+// Rename candidate ID -> decision (see RenameCandidate.id)
+const RenameDecisionsSchema = z
+  .record(z.string().max(300), z.enum(['accepted', 'rejected']))
+  .optional()
+  .default({});
+
 export const MigrationInputSchema = z.object({
   sourceConnectionId: z
     .string()
@@ -139,7 +233,7 @@ export const MigrationInputSchema = z.object({
     .string()
     .regex(uuidPattern, 'Invalid target connection ID'),
   tables: z
-    .array(z.string().regex(tableNamePattern, 'Invalid table name'))
+    .array(TableSelectionSchema)
     .optional()
     .default([]),
   direction: z
@@ -147,10 +241,68 @@ export const MigrationInputSchema = z.object({
     .optional()
     .default('source_to_target'),
   issueId: z.string().optional(),
+  renameDecisions: RenameDecisionsSchema,
+  // json returns the plan; the others download migration files
+  format: z
+    .enum(['json', 'supabase', 'drizzle', 'zip'])
+    .optional()
+    .default('json'),
+  name: z
+    .string()
+    .max(100, 'Migration name too long')
+    .optional(),
 });
 
 export type MigrationInput = z.infer<typeof MigrationInputSchema>;
 
+export const DataDiffInputSchema = z.object({
+  sourceConnectionId: z
+    .string()
+    .regex(uuidPattern, 'Invalid source connection ID'),
+  targetConnectionId: z
+    .string()
+    .regex(uuidPattern, 'Invalid target connection ID'),
+  // Empty means every table in the source
+  tables: z
+    .array(z.string().regex(qualifiedTableNamePattern, 'Invalid table name'))
+    .optional()
+    .default([]),
+  sampleSize: z
+    .number()
+    .int()
+    .min(0)
+    .max(100)
+    .optional(),
+  // report returns the report; json and csv download it
+  format: z
+    .enum(['report', 'json', 'csv'])
+    .optional()
+    .default('report'),
+});
+
+export type DataDiffInput = z.infer<typeof DataDiffInputSchema>;
+
+export const MigrationApplySchema = z.object({
+  sourceConnectionId: z
+    .string()
+    .regex(uuidPattern, 'Invalid source connection ID'),
+  tables: z
+    .array(TableSelectionSchema)
+    .optional()
+    .default([]),
+  renameDecisions: RenameDecisionsSchema,
+  planChecksum: z
+    .string()
+    .regex(/^[0-9a-f]{64}$/, 'Invalid plan checksum'),
+  confirmationPhrase: z.string().optional(),
+});
+
+export type MigrationApplyInput = z.infer<typeof MigrationApplySchema>;
+
+export const MigrationRollbackSchema = z.object({
+  confirmationPhrase: z.string().optional(),
+});
+
 export const ExecuteSqlSchema = z.object({
   sql: z
     .string()
@@ -161,6 +313,57 @@ export const ExecuteSqlSchema = z.object({
 
 export type ExecuteSqlInput = z.infer<typeof ExecuteSqlSchema>;
 
+// ============================================
+// Snapshot Schemas
+// ============================================
+
+export const SnapshotInputSchema = z.object({
+  connectionId: z
+    .string()
+    .regex(uuidPattern, 'Invalid connection ID'),
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Snapshot name is required')
+    .max(100, 'Snapshot name too long'),
+  description: z
+    .string()
+    .max(500, 'Description too long')
+    .optional(),
+  // Empty means every table in the connection's schemas
+  tables: z
+    .array(z.string().regex(qualifiedTableNamePattern, 'Invalid table name'))
+    .max(500, 'Too many tables')
+    .optional()
+    .default([]),
+});
+
+export type SnapshotInput = z.infer<typeof SnapshotInputSchema>;
+
+export const SnapshotRestoreSchema = z.object({
+  targetConnectionId: z
+    .string()
+    .regex(uuidPattern, 'Invalid target connection ID'),
+  // Empty means every table in the snapshot
+  tables: z
+    .array(z.string().regex(qualifiedTableNamePattern, 'Invalid table name'))
+    .optional()
+    .default([]),
+  confirmationPhrase: z.string().optional(),
+});
+
+export type SnapshotRestoreInput = z.infer<typeof SnapshotRestoreSchema>;
+
+export const SnapshotVerifySchema = z.object({
+  // Rehearse the restore into a scratch schema on this connection
+  rehearsalConnectionId: z
+    .string()
+    .regex(uuidPattern, 'Invalid rehearsal connection ID')
+    .optional(),
+});
+
+export type SnapshotVerifyInput = z.infer<typeof SnapshotVerifySchema>;
+
 // ============================================
 // Pagination Schemas
 // ============================================
@@ -188,33 +391,61 @@ export type Pagination = z.infer<typeof PaginationSchema>;
 // Schedule Schemas
 // ============================================
 
+const scheduleNameSchema = z
+  .string()
+  .trim()
+  .min(1, 'Schedule name is required')
+  .max(100, 'Schedule name too long');
+
+// Checked against the cron grammar by validateCronExpression
+const cronExpressionSchema = z
+  .string()
+  .trim()
+  .min(1, 'Cron expression is required')
+  .max(100, 'Cron expression too long');
+
+const timezoneSchema = z.string().max(64, 'Timezone too long');
+
+const scheduleTablesSchema = z
+  .array(TableConfigSchema)
+  .min(1, 'At least one table must be selected')
+  .max(100, 'Too many tables selected (max 100)');
+
 export const ScheduleInputSchema = z.object({
-  syncJobId: z
-    .string()
-    .regex(uuidPattern, 'Invalid sync job ID')
-    .optional(),
+  name: scheduleNameSchema,
   sourceConnectionId: z
     .string()
     .regex(uuidPattern, 'Invalid source connection ID'),
   targetConnectionId: z
     .string()
     .regex(uuidPattern, 'Invalid target connection ID'),
-  tables: z.array(TableConfigSchema).min(1),
-  direction: z.enum(['one_way', 'two_way']),
-  cronExpression: z
-    .string()
-    .min(9, 'Invalid cron expression')
-    .max(100, 'Cron expression too long'),
-  timezone: z
-    .string()
-    .max(50)
-    .optional()
-    .default('UTC'),
+  direction: z.enum(['one_way', 'two_way'], {
+    message: 'Direction must be "one_way" or "two_way"',
+  }),
+  tables: scheduleTablesSchema,
+  cronExpression: cronExpressionSchema,
+  timezone: timezoneSchema.optional().default('UTC'),
   enabled: z.boolean().optional().default(true),
-});
+}).refine(
+  (data) => data.sourceConnectionId !== data.targetConnectionId,
+  {
+    message: 'Source and target connections must be different',
+    path: ['targetConnectionId'],
+  }
+);
 
 export type ScheduleInput = z.infer<typeof ScheduleInputSchema>;
 
+export const ScheduleUpdateSchema = z.object({
+  name: scheduleNameSchema.optional(),
+  tables: scheduleTablesSchema.optional(),
+  cronExpression: cronExpressionSchema.optional(),
+  timezone: timezoneSchema.optional(),
+  enabled: z.boolean().optional(),
+});
+
+export type ScheduleUpdate = z.infer<typeof ScheduleUpdateSchema>;
+
 // ============================================
 // Utility Functions
 // ============================================
@@ -280,6 +511,54 @@ export const ExplorerRowSchema = z.object({
 
 export type ExplorerRow = z.infer<typeof ExplorerRowSchema>;
 
+const RowValuesSchema = z.record(z.string(), z.unknown());
+
+export const ExplorerRowChangesSchema = z.object({
+  inserts: z.array(z.object({ values: RowValuesSchema })).default([]),
+  updates: z.array(z.object({ key: RowValuesSchema, values: RowValuesSchema })).default([]),
+  deletes: z.array(z.object({ key: RowValuesSchema })).default([]),
+});
+
+export type ExplorerRowChanges = z.infer<typeof ExplorerRowChangesSchema>;
+
+export const ExplorerExportQuerySchema = z.object({
+  format: z.enum(['csv', 'ndjson', 'sql']).optional().default('csv'),
+  // Comma-separated; all columns when omitted
+  columns: z
+    .string()
+    .optional()
+    .transform((val) => (val || '').split(',').map((c) => c.trim()).filter(Boolean)),
+  limit: z
+    .string()
+    .optional()
+    .transform((val) => {
+      const num = parseInt(val || String(DEFAULT_EXPORT_ROWS), 10);
+      return Math.min(Math.max(1, isNaN(num) ? DEFAULT_EXPORT_ROWS : num), MAX_EXPORT_ROWS);
+    }),
+  orderBy: z
+    .string()
+    .regex(/^[a-zA-Z_][a-zA-Z0-9_]*$/, 'Invalid column name')
+    .optional(),
+  orderDir: z
+    .enum(['asc', 'desc'])
+    .optional()
+    .default('desc'),
+  search: z.string().max(200).optional(),
+  // JSON-encoded ExplorerFilterGroup, see explorer-filter.ts
+  filter: z.string().max(20000).optional(),
+});
+
+export type ExplorerExportQuery = z.infer<typeof ExplorerExportQuerySchema>;
+
+export const ExplorerImportSchema = z.object({
+  mode: z.enum(['insert', 'upsert']).optional().default('insert'),
+  // File column -> table column, see explorer-import.ts
+  // Targets are checked against the table's columns before anything is written
+  mapping: z.record(z.string().max(200), z.string().min(1).max(63)),
+});
+
+export type ExplorerImport = z.infer<typeof ExplorerImportSchema>;
+
 export const ExplorerQuerySchema = z.object({
   limit: z
     .string()
@@ -335,6 +614,44 @@ export const SignOutAllSchema = z.object({
 
 export type SignOutAllInput = z.infer<typeof SignOutAllSchema>;
 
+// ============================================
+// API Token Schemas
+// ============================================
+
+export const ApiTokenInputSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Token name is required')
+    .max(100, 'Token name too long'),
+  scopes: z
+    .array(z.enum(['read', 'sync', 'admin']))
+    .min(1, 'Select at least one scope')
+    .transform((scopes) => Array.from(new Set(scopes))),
+  expiresInDays: z
+    .number()
+    .int()
+    .min(1)
+    .max(365)
+    .nullable()
+    .optional(),
+  rateLimitPerMinute: z
+    .number()
+    .int()
+    .min(1)
+    .max(1000)
+    .optional()
+    .default(60),
+});
+
+export type ApiTokenInput = z.infer<typeof ApiTokenInputSchema>;
+
+export const ApiTokenIdSchema = z.object({
+  id: z
+    .string()
+    .regex(uuidPattern, 'Invalid token ID format'),
+});
+
 // ============================================
 // Security Schemas
 // ============================================
@@ -0,0 +1,110 @@
+/**
+ * CLI Command Tests
+ *
+ * Tests for the migration and dry-run sync commands against the app's
+ * responses.
+ */
+
+import { ApiClient, ApiError } from '../client';
+import { CommandContext, EXIT_CODES, createSync, generateMigration } from '../commands';
+
+function createContext(response: unknown): { ctx: CommandContext; request: jest.Mock } {
+  const request = jest.fn().mockResolvedValue(response);
+  return { ctx: { client: { request } as unknown as ApiClient, json: false }, request };
+}
+
+function migrationPlan(scripts: unknown[], combinedSQL: string) {
+  return {
+    migrationPlan: {
+      scripts,
+      safeScripts: scripts,
+      breakingScripts: [],
+      manualReviewRequired: [],
+      combinedSQL,
+      rollbackSQL: '',
+      estimatedDuration: '< 1 minute',
+      riskLevel: 'low',
+    },
+    checksum: 'a'.repeat(64),
+  };
+}
+
+describe('CLI Commands', () => {
+  let log: jest.SpyInstance;
+
+  beforeEach(() => {
+    log = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    log.mockRestore();
+  });
+
+  describe('generateMigration', () => {
+    it('should print the plan SQL and report the schemas as differing', async () => {
+      const sql = 'ALTER TABLE "public"."users" ADD COLUMN "email" text;';
+      const { ctx, request } = createContext(migrationPlan([{ sql }], sql));
+
+      await expect(generateMigration(ctx, 'source', 'target')).resolves.toBe(EXIT_CODES.FAILURE);
+      expect(request).toHaveBeenCalledWith('/api/sync/generate-migration', expect.objectContaining({ method: 'POST' }));
+      expect(log).toHaveBeenCalledWith(sql);
+    });
+
+    it('should succeed when no migration is needed', async () => {
+      const { ctx } = createContext(migrationPlan([], ''));
+
+      await expect(generateMigration(ctx, 'source', 'target')).resolves.toBe(EXIT_CODES.SUCCESS);
+      expect(log).toHaveBeenCalledWith('No migration needed - the schemas already match');
+    });
+
+    it('should reject a response without a migration plan', async () => {
+      const { ctx } = createContext({
+        scripts: [],
+        combinedSQL: '-- No changes required',
+        rollbackSQL: '-- No rollback needed',
+        estimatedDuration: '< 1 minute',
+        riskLevel: 'low',
+      });
+
+      await expect(generateMigration(ctx, 'source', 'target')).rejects.toBeInstanceOf(ApiError);
+      expect(log).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createSync', () => {
+    it('should print the preview of a dry run', async () => {
+      const { ctx, request } = createContext({
+        tables: [{ tableName: 'users', inserts: 2, updates: 1, deletes: 3 }],
+        schemaIssues: [],
+        totalInserts: 2,
+        totalUpdates: 1,
+        totalDeletes: 3,
+        estimatedDuration: 1,
+        warnings: ['Target "prod" is a production database.'],
+      });
+
+      await expect(createSync(ctx, 'source', 'target', { tables: 'users', dryRun: true }))
+        .resolves.toBe(EXIT_CODES.SUCCESS);
+      expect(request.mock.calls[0][1].body).toMatchObject({ dryRun: true });
+
+      const output = log.mock.calls[0][0] as string;
+      expect(output).toMatch(/users\s+2\s+1\s+3/);
+      expect(output).toContain('Total: +2 ~1 -3');
+      expect(output).toContain('Warning: Target "prod" is a production database.');
+    });
+
+    it('should reject a dry run answered with a job instead of a preview', async () => {
+      const { ctx } = createContext({ id: 'job-1', status: 'pending', direction: 'one_way' });
+
+      await expect(createSync(ctx, 'source', 'target', { tables: 'users', dryRun: true }))
+        .rejects.toBeInstanceOf(ApiError);
+    });
+
+    it('should print the ID of a created job', async () => {
+      const { ctx } = createContext({ id: 'job-1', status: 'pending', direction: 'one_way' });
+
+      await expect(createSync(ctx, 'source', 'target', { tables: 'users' })).resolves.toBe(EXIT_CODES.SUCCESS);
+      expect(log).toHaveBeenCalledWith('job-1');
+    });
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Schema Diff Tests
+ *
+ * Tests for the CLI's comparison of two connections' schema listings.
+ */
+
+import { diffSchemas, formatSchemaDiff, hasDifferences, SchemaColumn, SchemaTable } from '../schema-diff';
+
+function column(columnName: string, dataType = 'text', isNullable = true): SchemaColumn {
+  return { columnName, dataType, isNullable };
+}
+
+function table(tableName: string, columns: SchemaColumn[]): SchemaTable {
+  return { tableName, columns };
+}
+
+describe('Schema Diff', () => {
+  it('should report identical schemas as having no differences', () => {
+    const tables = [table('users', [column('id', 'uuid', false), column('email')])];
+    const diff = diffSchemas(tables, tables);
+
+    expect(hasDifferences(diff)).toBe(false);
+    expect(diff.identicalTables).toEqual(['users']);
+    expect(formatSchemaDiff(diff)).toBe('Schemas match (1 tables)');
+  });
+
+  it('should report tables missing from or only in the target', () => {
+    const diff = diffSchemas(
+      [table('users', []), table('orders', [])],
+      [table('users', []), table('legacy', [])]
+    );
+
+    expect(diff.missingInTarget).toEqual(['orders']);
+    expect(diff.extraInTarget).toEqual(['legacy']);
+    expect(hasDifferences(diff)).toBe(true);
+  });
+
+  it('should report column additions, removals, type and nullability changes', () => {
+    const diff = diffSchemas(
+      [table('users', [column('id', 'uuid', false), column('email', 'text', false), column('age', 'integer')])],
+      [table('users', [column('id', 'uuid', false), column('email', 'text', true), column('age', 'bigint'), column('nickname')])]
+    );
+
+    expect(diff.changedTables).toHaveLength(1);
+    expect(diff.changedTables[0].changes.map(c => [c.kind, c.column])).toEqual([
+      ['nullability_mismatch', 'email'],
+      ['type_mismatch', 'age'],
+      ['extra_in_target', 'nickname'],
+    ]);
+
+    const text = formatSchemaDiff(diff);
+    expect(text).toContain('~ table users');
+    expect(text).toContain('~ age: integer -> bigint');
+    expect(text).toContain('~ email: NOT NULL -> nullable');
+    expect(text).toContain('0 missing, 0 extra, 1 changed, 0 identical');
+  });
+
+  it('should report columns missing in the target', () => {
+    const diff = diffSchemas(
+      [table('users', [column('id', 'uuid', false)])],
+      [table('users', [])]
+    );
+
+    expect(diff.changedTables[0].changes).toEqual([
+      { kind: 'missing_in_target', column: 'id', source: column('id', 'uuid', false) },
+    ]);
+    expect(formatSchemaDiff(diff)).toContain('- id (uuid NOT NULL) missing in target');
+  });
+});
@@ -0,0 +1,247 @@
+/**
+ * CLI API Client
+ *
+ * HTTP client for the supabase-syncer CLI. Talks to the app's /api routes with
+ * a personal access token and follows the same request semantics as
+ * lib/utils/backend-client.ts:
+ * - Request timeout handling
+ * - Retry logic with exponential backoff (GETs and rate limits only, so a
+ *   failed POST never creates a job twice)
+ * - SSE stream parsing for sync progress
+ */
+
+const DEFAULT_TIMEOUT = 60000; // 1 minute
+const MAX_RETRIES = 3;
+const RETRY_DELAY_BASE = 1000; // 1 second
+
+/**
+ * Error returned by the API (or raised while calling it)
+ */
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public code?: string,
+    public details?: unknown
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+export interface ApiClientOptions {
+  baseUrl: string;
+  token: string;
+  timeout?: number;
+  retries?: number;
+}
+
+export interface ApiRequestOptions {
+  method?: 'GET' | 'POST' | 'DELETE';
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+/**
+ * A single event from the sync progress stream
+ */
+export interface SyncStreamEvent {
+  type: 'connected' | 'progress' | 'complete' | 'error' | 'timeout';
+  jobId?: string;
+  status?: string;
+  progress?: SyncProgress | null;
+  error?: string;
+}
+
+export interface SyncProgress {
+  totalTables: number;
+  completedTables: number;
+  currentTable: string | null;
+  totalRows: number;
+  processedRows: number;
+  insertedRows: number;
+  updatedRows: number;
+  deletedRows: number;
+  skippedRows: number;
+  errors: number;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+export class ApiClient {
+  private readonly baseUrl: string;
+  private readonly token: string;
+  private readonly timeout: number;
+  private readonly retries: number;
+
+  constructor(options: ApiClientOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.token = options.token;
+    this.timeout = options.timeout ?? DEFAULT_TIMEOUT;
+    this.retries = options.retries ?? MAX_RETRIES;
+  }
+
+  /**
+   * Make a request and return the `data` field of a `{ success, data }` response
+   */
+  async request<T = unknown>(path: string, options: ApiRequestOptions = {}): Promise<T> {
+    const { method = 'GET', body, headers = {} } = options;
+    let lastError: ApiError | null = null;
+
+    for (let attempt = 0; attempt <= this.retries; attempt++) {
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+
+      try {
+        const response = await fetch(`${this.baseUrl}${path}`, {
+          method,
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${this.token}`,
+            ...headers,
+          },
+          body: body ? JSON.stringify(body) : undefined,
+          signal: controller.signal,
+        });
+
+        clearTimeout(timeoutId);
+
+        if (response.status === 429) {
+          const retryAfter = parseInt(response.headers.get('Retry-After') || '60', 10);
+          throw new ApiError(
+            `Rate limit exceeded. Retry after ${retryAfter} seconds.`,
+            429,
+            'RATE_LIMITED',
+            { retryAfter }
+          );
+        }
+
+        const data = await response.json().catch(() => ({}));
+
+        if (!response.ok || data.success === false) {
+          throw new ApiError(
+            data.error || data.message || `Request failed with status ${response.status}`,
+            response.status,
+            data.code,
+            data.details
+          );
+        }
+
+        return data.data as T;
+      } catch (error) {
+        clearTimeout(timeoutId);
+
+        if (error instanceof Error && error.name === 'AbortError') {
+          lastError = new ApiError(`Request timed out after ${this.timeout}ms`, 504, 'TIMEOUT');
+        } else if (error instanceof ApiError) {
+          lastError = error;
+
+          // Don't retry client errors (4xx)
+          if (error.status >= 400 && error.status < 500 && error.status !== 429) {
+            throw error;
+          }
+        } else {
+          lastError = new ApiError(
+            error instanceof Error ? error.message : 'Request failed',
+            500,
+            'FETCH_ERROR'
+          );
+        }
+
+        if (method !== 'GET' && lastError.status !== 429) {
+          throw lastError;
+        }
+
+        if (attempt < this.retries) {
+          await sleep(RETRY_DELAY_BASE * Math.pow(2, attempt));
+        }
+      }
+    }
+
+    throw lastError || new ApiError('Request failed', 500);
+  }
+
+  /**
+   * Open the progress stream for a sync job and yield its events until the
+   * server closes it
+   */
+  async *streamSync(jobId: string): AsyncGenerator<SyncStreamEvent> {
+    const response = await fetch(`${this.baseUrl}/api/sync/${jobId}/stream`, {
+      headers: {
+        'Accept': 'text/event-stream',
+        'Authorization': `Bearer ${this.token}`,
+      },
+    });
+
+    if (!response.ok || !response.body) {
+      const data = await response.json().catch(() => ({}));
+      throw new ApiError(
+        data.error || `Stream request failed with status ${response.status}`,
+        response.status,
+        data.code
+      );
+    }
+
+    yield* parseSSEStream(response.body);
+  }
+}
+
+/**
+ * Parse a `data: {...}` server-sent event stream into JSON events. Comments,
+ * blank keep-alives and malformed payloads are skipped.
+ */
+export async function* parseSSEStream<T = SyncStreamEvent>(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<T> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const event = parseSSEEvent<T>(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        if (event !== null) {
+          yield event;
+        }
+        boundary = buffer.indexOf('\n\n');
+      }
+
+      if (done) {
+        const event = parseSSEEvent<T>(buffer);
+        if (event !== null) {
+          yield event;
+        }
+        return;
+      }
+    }
+  } finally {
+    // Close the connection if the consumer stopped early
+    await reader.cancel().catch(() => {});
+  }
+}
+
+function parseSSEEvent<T>(raw: string): T | null {
+  const data = raw
+    .split('\n')
+    .filter(line => line.startsWith('data:'))
+    .map(line => line.slice(5).trimStart())
+    .join('\n');
+
+  if (!data) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(data) as T;
+  } catch {
+    return null;
+  }
+}
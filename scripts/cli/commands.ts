@@ -0,0 +1,350 @@
+/**
+ * CLI Commands
+ *
+ * Each command resolves to a process exit code (see EXIT_CODES).
+ */
+
+import { readFile, writeFile } from 'fs/promises';
+import { ApiClient, ApiError, SyncProgress, SyncStreamEvent } from './client';
+import { diffSchemas, formatSchemaDiff, hasDifferences, SchemaTable } from './schema-diff';
+
+export const EXIT_CODES = {
+  /** Command succeeded / job completed */
+  SUCCESS: 0,
+  /** Job failed, or schemas differ */
+  FAILURE: 1,
+  /** Bad usage or API error */
+  ERROR: 2,
+  /** Stream ended before the job finished (timeout, paused) */
+  INCOMPLETE: 3,
+} as const;
+
+export interface CommandContext {
+  client: ApiClient;
+  json: boolean;
+}
+
+interface Connection {
+  id: string;
+  name: string;
+  environment: string;
+  schemas: string[] | null;
+  keepAlive: boolean;
+  lastPingedAt: string | null;
+}
+
+interface SyncJob {
+  id: string;
+  status: string;
+  direction: string;
+  created_at?: string;
+  progress?: SyncProgress | null;
+}
+
+interface SyncPreview {
+  tables: Array<{ tableName: string; inserts: number; updates: number; deletes: number }>;
+  schemaIssues: Array<{ tableName: string }>;
+  totalInserts: number;
+  totalUpdates: number;
+  totalDeletes: number;
+  estimatedDuration: number;
+  warnings: string[];
+}
+
+interface MigrationResult {
+  migrationPlan: {
+    scripts: unknown[];
+    combinedSQL: string;
+    rollbackSQL: string;
+    riskLevel: string;
+    estimatedDuration: string;
+    breakingScripts: unknown[];
+    manualReviewRequired: unknown[];
+  };
+  checksum: string;
+}
+
+function print(ctx: CommandContext, data: unknown, text: () => string): void {
+  console.log(ctx.json ? JSON.stringify(data, null, 2) : text());
+}
+
+function formatTable(rows: string[][]): string {
+  const widths = rows[0].map((_, i) => Math.max(...rows.map(row => row[i].length)));
+  return rows
+    .map(row => row.map((cell, i) => cell.padEnd(widths[i])).join('  ').trimEnd())
+    .join('\n');
+}
+
+export function formatProgress(status: string, progress: SyncProgress | null | undefined): string {
+  if (!progress) {
+    return `[${status}]`;
+  }
+
+  const percent = progress.totalRows > 0
+    ? Math.min(100, Math.round((progress.processedRows / progress.totalRows) * 100))
+    : 0;
+  const table = progress.currentTable ? ` ${progress.currentTable}` : '';
+
+  return `[${status}] ${percent}% tables ${progress.completedTables}/${progress.totalTables}${table}` +
+    ` rows ${progress.processedRows}/${progress.totalRows}` +
+    ` (+${progress.insertedRows} ~${progress.updatedRows} -${progress.deletedRows}, ${progress.errors} errors)`;
+}
+
+// ----------------------------------------------------------------------------
+// connections
+// ----------------------------------------------------------------------------
+
+export async function listConnections(ctx: CommandContext): Promise<number> {
+  const connections = await ctx.client.request<Connection[]>('/api/connections');
+
+  print(ctx, connections, () => connections.length === 0
+    ? 'No connections'
+    : formatTable([
+      ['ID', 'NAME', 'ENVIRONMENT', 'SCHEMAS'],
+      ...connections.map(c => [c.id, c.name, c.environment, (c.schemas ?? ['public']).join(',')]),
+    ]));
+
+  return EXIT_CODES.SUCCESS;
+}
+
+// ----------------------------------------------------------------------------
+// schema
+// ----------------------------------------------------------------------------
+
+export async function diffSchema(ctx: CommandContext, sourceId: string, targetId: string): Promise<number> {
+  const [source, target] = await Promise.all([
+    ctx.client.request<{ tables: SchemaTable[] }>(`/api/connections/${encodeURIComponent(sourceId)}/schema`),
+    ctx.client.request<{ tables: SchemaTable[] }>(`/api/connections/${encodeURIComponent(targetId)}/schema`),
+  ]);
+  const diff = diffSchemas(source.tables, target.tables);
+
+  print(ctx, diff, () => formatSchemaDiff(diff));
+
+  return hasDifferences(diff) ? EXIT_CODES.FAILURE : EXIT_CODES.SUCCESS;
+}
+
+// ----------------------------------------------------------------------------
+// sync
+// ----------------------------------------------------------------------------
+
+export interface CreateSyncOptions {
+  tables?: string;
+  config?: string;
+  direction?: string;
+  dryRun?: boolean;
+  confirmProduction?: boolean;
+}
+
+/**
+ * Build the table configs for a new job, from either a JSON config file
+ * (an array of table configs, or an object with a `tables` array) or a
+ * comma-separated table list
+ */
+async function loadTableConfigs(options: CreateSyncOptions): Promise<unknown[]> {
+  if (options.config) {
+    const parsed = JSON.parse(await readFile(options.config, 'utf8'));
+    const tables = Array.isArray(parsed) ? parsed : parsed.tables;
+    if (!Array.isArray(tables)) {
+      throw new ApiError(`${options.config} must contain an array of table configs`, 400, 'INVALID_CONFIG');
+    }
+    return tables;
+  }
+
+  const names = (options.tables ?? '').split(',').map(name => name.trim()).filter(Boolean);
+  if (names.length === 0) {
+    throw new ApiError('Specify tables with --tables a,b or --config file.json', 400, 'INVALID_CONFIG');
+  }
+  return names.map(tableName => ({ tableName, enabled: true }));
+}
+
+export function formatSyncPreview(preview: SyncPreview): string {
+  const lines = preview.tables.length === 0
+    ? ['No tables to sync']
+    : [formatTable([
+      ['TABLE', 'INSERTS', 'UPDATES', 'DELETES'],
+      ...preview.tables.map(t => [t.tableName, String(t.inserts), String(t.updates), String(t.deletes)]),
+    ])];
+
+  lines.push(
+    `Total: +${preview.totalInserts} ~${preview.totalUpdates} -${preview.totalDeletes}` +
+    ` (estimated ${preview.estimatedDuration}s)`,
+    ...preview.warnings.map(warning => `Warning: ${warning}`)
+  );
+  return lines.join('\n');
+}
+
+/**
+ * Create a sync job and print its ID, or with `dryRun` print the rows the
+ * job would insert, update and delete without creating it
+ */
+export async function createSync(
+  ctx: CommandContext,
+  sourceId: string,
+  targetId: string,
+  options: CreateSyncOptions
+): Promise<number> {
+  const result = await ctx.client.request<SyncJob | SyncPreview>('/api/sync', {
+    method: 'POST',
+    body: {
+      sourceConnectionId: sourceId,
+      targetConnectionId: targetId,
+      direction: options.direction ?? 'one_way',
+      tables: await loadTableConfigs(options),
+      dryRun: options.dryRun ?? false,
+    },
+    headers: options.confirmProduction ? { 'X-Confirm-Production': 'true' } : undefined,
+  });
+
+  if (options.dryRun) {
+    if (!('tables' in result) || !Array.isArray(result.tables)) {
+      throw new ApiError('The server did not return a sync preview', 502, 'INVALID_RESPONSE');
+    }
+    print(ctx, result, () => formatSyncPreview(result));
+    return EXIT_CODES.SUCCESS;
+  }
+
+  print(ctx, result, () => (result as SyncJob).id);
+
+  return EXIT_CODES.SUCCESS;
+}
+
+export async function listSyncJobs(ctx: CommandContext): Promise<number> {
+  const jobs = await ctx.client.request<SyncJob[]>('/api/sync');
+
+  print(ctx, jobs, () => jobs.length === 0
+    ? 'No sync jobs'
+    : formatTable([
+      ['ID', 'STATUS', 'DIRECTION', 'CREATED'],
+      ...jobs.map(j => [j.id, j.status, j.direction, j.created_at ?? '']),
+    ]));
+
+  return EXIT_CODES.SUCCESS;
+}
+
+export async function getSyncStatus(ctx: CommandContext, jobId: string): Promise<number> {
+  const job = await ctx.client.request<SyncJob>(`/api/sync/${encodeURIComponent(jobId)}`);
+
+  print(ctx, job, () => formatProgress(job.status, job.progress));
+
+  return job.status === 'failed' ? EXIT_CODES.FAILURE : EXIT_CODES.SUCCESS;
+}
+
+export async function startSync(ctx: CommandContext, jobId: string, watch: boolean): Promise<number> {
+  const result = await ctx.client.request(`/api/sync/${encodeURIComponent(jobId)}/start`, { method: 'POST' });
+
+  if (watch) {
+    return watchSync(ctx, jobId);
+  }
+
+  print(ctx, result, () => `Started ${jobId}`);
+  return EXIT_CODES.SUCCESS;
+}
+
+export async function controlSync(ctx: CommandContext, jobId: string, action: 'pause' | 'stop'): Promise<number> {
+  const result = await ctx.client.request(`/api/sync/${encodeURIComponent(jobId)}/${action}`, { method: 'POST' });
+
+  print(ctx, result, () => `${action === 'pause' ? 'Paused' : 'Stopped'} ${jobId}`);
+  return EXIT_CODES.SUCCESS;
+}
+
+/**
+ * Follow a job's progress stream until it completes, fails or the stream
+ * times out, and map the outcome to an exit code
+ */
+export async function watchSync(ctx: CommandContext, jobId: string): Promise<number> {
+  const interactive = !ctx.json && Boolean(process.stdout.isTTY);
+  let lastLine = '';
+  let outcome: number = EXIT_CODES.INCOMPLETE;
+
+  const render = (event: SyncStreamEvent) => {
+    if (ctx.json) {
+      console.log(JSON.stringify(event));
+      return;
+    }
+    if (event.type !== 'progress' && event.type !== 'complete') {
+      return;
+    }
+    const line = formatProgress(event.status ?? 'unknown', event.progress);
+    if (line === lastLine) {
+      return;
+    }
+    lastLine = line;
+    if (interactive) {
+      process.stdout.write(`\r\x1b[2K${line}`);
+    } else {
+      console.log(line);
+    }
+  };
+
+  for await (const event of ctx.client.streamSync(encodeURIComponent(jobId))) {
+    render(event);
+
+    if (event.type === 'complete') {
+      outcome = event.status === 'completed' ? EXIT_CODES.SUCCESS : EXIT_CODES.FAILURE;
+      break;
+    }
+    if (event.type === 'error') {
+      if (interactive) process.stdout.write('\n');
+      console.error(`Error: ${event.error ?? 'stream error'}`);
+      if (event.error === 'Job not found') {
+        return EXIT_CODES.ERROR;
+      }
+    }
+    if (event.type === 'timeout') {
+      break;
+    }
+  }
+
+  if (interactive) {
+    process.stdout.write('\n');
+  }
+  if (!ctx.json) {
+    const messages: Record<number, string> = {
+      [EXIT_CODES.SUCCESS]: 'Sync completed',
+      [EXIT_CODES.FAILURE]: 'Sync failed',
+      [EXIT_CODES.INCOMPLETE]: 'Stream ended before the sync finished',
+    };
+    console.error(messages[outcome]);
+  }
+
+  return outcome;
+}
+
+// ----------------------------------------------------------------------------
+// migration
+// ----------------------------------------------------------------------------
+
+/**
+ * Print (or write) the SQL migrating the target's schema to the source's.
+ * Like `schema diff`, exits with FAILURE when the schemas differ.
+ */
+export async function generateMigration(
+  ctx: CommandContext,
+  sourceId: string,
+  targetId: string,
+  output?: string
+): Promise<number> {
+  const migration = await ctx.client.request<MigrationResult>('/api/sync/generate-migration', {
+    method: 'POST',
+    body: { sourceConnectionId: sourceId, targetConnectionId: targetId },
+  });
+  const plan = migration.migrationPlan;
+  if (!plan || !Array.isArray(plan.scripts)) {
+    throw new ApiError('The server did not return a migration plan', 502, 'INVALID_RESPONSE');
+  }
+
+  if (plan.scripts.length === 0) {
+    print(ctx, migration, () => 'No migration needed - the schemas already match');
+    return EXIT_CODES.SUCCESS;
+  }
+
+  if (output) {
+    await writeFile(output, `${plan.combinedSQL}\n`, 'utf8');
+  }
+
+  print(ctx, migration, () => output
+    ? `Wrote ${output} (${plan.scripts.length} scripts, risk: ${plan.riskLevel}, estimated ${plan.estimatedDuration})`
+    : plan.combinedSQL);
+
+  return EXIT_CODES.FAILURE;
+}
@@ -0,0 +1,165 @@
+/**
+ * supabase-syncer CLI
+ *
+ * Command-line client for connections and sync jobs, authenticated with a
+ * personal access token (Settings → API Tokens).
+ *
+ * Usage:
+ *   npm run cli -- <command> [options]
+ *   npx tsx scripts/cli/index.ts <command> [options]
+ *
+ * Configuration:
+ *   SYNCER_URL    App URL (default http://localhost:3000), or --url
+ *   SYNCER_TOKEN  Personal access token (sbsync_...), or --token
+ *
+ * Exit codes:
+ *   0  Success / sync completed
+ *   1  Sync failed, or schemas differ (including a non-empty migration)
+ *   2  Usage or API error
+ *   3  Stream ended before the sync finished
+ */
+
+import { parseArgs } from 'util';
+import { ApiClient, ApiError } from './client';
+import {
+  CommandContext,
+  EXIT_CODES,
+  controlSync,
+  createSync,
+  diffSchema,
+  generateMigration,
+  getSyncStatus,
+  listConnections,
+  listSyncJobs,
+  startSync,
+  watchSync,
+} from './commands';
+
+const USAGE = `Usage: supabase-syncer <command> [options]
+
+Commands:
+  connections list                       List connections
+  schema diff <source> <target>          Compare two connections' schemas
+  sync list                              List sync jobs
+  sync create <source> <target>          Create a sync job and print its ID
+      --tables a,b                         Tables to sync
+      --config <file.json>                 Table configs (filters, masking, ...)
+      --direction one_way|two_way          Default one_way
+      --dry-run                            Print the rows it would change instead
+      --confirm-production                 Allow a production target
+  sync status <job>                      Show a job's status and progress
+  sync start <job> [--watch]             Start a job, optionally watching it
+  sync watch <job>                       Follow a job's progress until it ends
+  sync pause <job>                       Pause a running job
+  sync stop <job>                        Stop a running or paused job
+  migration generate <source> <target>   Print the migration SQL (exit 1 if any)
+      --output <file.sql>                  Write the SQL to a file instead
+
+Global options:
+  --url <url>      App URL (env SYNCER_URL, default http://localhost:3000)
+  --token <token>  Personal access token (env SYNCER_TOKEN)
+  --json           Print raw JSON
+  -h, --help       Show this help
+
+Exit codes: 0 success, 1 sync failed or schemas differ, 2 usage/API error,
+3 stream ended before the sync finished`;
+
+function usageError(message: string): number {
+  console.error(`Error: ${message}\n\n${USAGE}`);
+  return EXIT_CODES.ERROR;
+}
+
+async function run(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      url: { type: 'string' },
+      token: { type: 'string' },
+      json: { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+      tables: { type: 'string' },
+      config: { type: 'string' },
+      direction: { type: 'string' },
+      'dry-run': { type: 'boolean', default: false },
+      'confirm-production': { type: 'boolean', default: false },
+      watch: { type: 'boolean', default: false },
+      output: { type: 'string', short: 'o' },
+    },
+  });
+
+  const [group, action, ...args] = positionals;
+
+  if (values.help || !group) {
+    console.log(USAGE);
+    return values.help ? EXIT_CODES.SUCCESS : EXIT_CODES.ERROR;
+  }
+
+  const token = values.token || process.env.SYNCER_TOKEN;
+  if (!token) {
+    return usageError('A personal access token is required (--token or SYNCER_TOKEN)');
+  }
+
+  const ctx: CommandContext = {
+    client: new ApiClient({
+      baseUrl: values.url || process.env.SYNCER_URL || 'http://localhost:3000',
+      token,
+    }),
+    json: values.json ?? false,
+  };
+
+  const requireArgs = (count: number, names: string) =>
+    args.length === count ? null : usageError(`${group} ${action} expects ${names}`);
+
+  switch (`${group} ${action ?? ''}`.trim()) {
+    case 'connections list':
+      return listConnections(ctx);
+
+    case 'schema diff':
+      return requireArgs(2, '<source> <target>') ?? diffSchema(ctx, args[0], args[1]);
+
+    case 'sync list':
+      return listSyncJobs(ctx);
+
+    case 'sync create':
+      return requireArgs(2, '<source> <target>') ?? createSync(ctx, args[0], args[1], {
+        tables: values.tables,
+        config: values.config,
+        direction: values.direction,
+        dryRun: values['dry-run'],
+        confirmProduction: values['confirm-production'],
+      });
+
+    case 'sync status':
+      return requireArgs(1, '<job>') ?? getSyncStatus(ctx, args[0]);
+
+    case 'sync start':
+      return requireArgs(1, '<job>') ?? startSync(ctx, args[0], values.watch ?? false);
+
+    case 'sync watch':
+      return requireArgs(1, '<job>') ?? watchSync(ctx, args[0]);
+
+    case 'sync pause':
+    case 'sync stop':
+      return requireArgs(1, '<job>') ?? controlSync(ctx, args[0], action as 'pause' | 'stop');
+
+    case 'migration generate':
+      return requireArgs(2, '<source> <target>') ?? generateMigration(ctx, args[0], args[1], values.output);
+
+    default:
+      return usageError(`Unknown command "${positionals.join(' ')}"`);
+  }
+}
+
+run(process.argv.slice(2))
+  .then((code) => {
+    process.exitCode = code;
+  })
+  .catch((error) => {
+    if (error instanceof ApiError) {
+      console.error(`Error (${error.status}): ${error.message}`);
+    } else {
+      console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    process.exitCode = EXIT_CODES.ERROR;
+  });
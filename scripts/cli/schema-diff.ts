@@ -0,0 +1,167 @@
+/**
+ * Schema Diff
+ *
+ * Compares the table/column listings returned by
+ * GET /api/connections/:id/schema for two connections.
+ */
+
+export interface SchemaColumn {
+  columnName: string;
+  dataType: string;
+  isNullable: boolean;
+  columnDefault?: string | null;
+}
+
+export interface SchemaTable {
+  tableName: string;
+  columns: SchemaColumn[];
+}
+
+export type ColumnChange =
+  | { kind: 'missing_in_target'; column: string; source: SchemaColumn }
+  | { kind: 'extra_in_target'; column: string; target: SchemaColumn }
+  | { kind: 'type_mismatch'; column: string; source: SchemaColumn; target: SchemaColumn }
+  | { kind: 'nullability_mismatch'; column: string; source: SchemaColumn; target: SchemaColumn };
+
+export interface TableDiff {
+  tableName: string;
+  changes: ColumnChange[];
+}
+
+export interface SchemaDiff {
+  missingInTarget: string[];
+  extraInTarget: string[];
+  changedTables: TableDiff[];
+  identicalTables: string[];
+}
+
+function byName<T>(items: T[], key: (item: T) => string): Map<string, T> {
+  return new Map(items.map(item => [key(item), item]));
+}
+
+/**
+ * Diff the columns of a table that exists on both sides
+ */
+export function diffColumns(source: SchemaColumn[], target: SchemaColumn[]): ColumnChange[] {
+  const targetColumns = byName(target, c => c.columnName);
+  const sourceColumns = byName(source, c => c.columnName);
+  const changes: ColumnChange[] = [];
+
+  for (const column of source) {
+    const other = targetColumns.get(column.columnName);
+
+    if (!other) {
+      changes.push({ kind: 'missing_in_target', column: column.columnName, source: column });
+    } else if (column.dataType !== other.dataType) {
+      changes.push({ kind: 'type_mismatch', column: column.columnName, source: column, target: other });
+    } else if (column.isNullable !== other.isNullable) {
+      changes.push({ kind: 'nullability_mismatch', column: column.columnName, source: column, target: other });
+    }
+  }
+
+  for (const column of target) {
+    if (!sourceColumns.has(column.columnName)) {
+      changes.push({ kind: 'extra_in_target', column: column.columnName, target: column });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Diff two schema listings, treating source as the desired state
+ */
+export function diffSchemas(source: SchemaTable[], target: SchemaTable[]): SchemaDiff {
+  const sourceTables = byName(source, t => t.tableName);
+  const targetTables = byName(target, t => t.tableName);
+  const diff: SchemaDiff = {
+    missingInTarget: [],
+    extraInTarget: [],
+    changedTables: [],
+    identicalTables: [],
+  };
+
+  for (const [tableName, table] of sourceTables) {
+    const other = targetTables.get(tableName);
+
+    if (!other) {
+      diff.missingInTarget.push(tableName);
+      continue;
+    }
+
+    const changes = diffColumns(table.columns, other.columns);
+    if (changes.length > 0) {
+      diff.changedTables.push({ tableName, changes });
+    } else {
+      diff.identicalTables.push(tableName);
+    }
+  }
+
+  for (const tableName of targetTables.keys()) {
+    if (!sourceTables.has(tableName)) {
+      diff.extraInTarget.push(tableName);
+    }
+  }
+
+  diff.missingInTarget.sort();
+  diff.extraInTarget.sort();
+  diff.changedTables.sort((a, b) => a.tableName.localeCompare(b.tableName));
+  diff.identicalTables.sort();
+
+  return diff;
+}
+
+export function hasDifferences(diff: SchemaDiff): boolean {
+  return diff.missingInTarget.length > 0
+    || diff.extraInTarget.length > 0
+    || diff.changedTables.length > 0;
+}
+
+function describeColumn(column: SchemaColumn): string {
+  return `${column.dataType}${column.isNullable ? '' : ' NOT NULL'}`;
+}
+
+function describeChange(change: ColumnChange): string {
+  switch (change.kind) {
+    case 'missing_in_target':
+      return `- ${change.column} (${describeColumn(change.source)}) missing in target`;
+    case 'extra_in_target':
+      return `+ ${change.column} (${describeColumn(change.target)}) only in target`;
+    case 'type_mismatch':
+      return `~ ${change.column}: ${change.source.dataType} -> ${change.target.dataType}`;
+    case 'nullability_mismatch':
+      return `~ ${change.column}: ${change.source.isNullable ? 'nullable' : 'NOT NULL'} -> ${change.target.isNullable ? 'nullable' : 'NOT NULL'}`;
+  }
+}
+
+/**
+ * Render a diff as plain text, one line per difference
+ */
+export function formatSchemaDiff(diff: SchemaDiff): string {
+  if (!hasDifferences(diff)) {
+    return `Schemas match (${diff.identicalTables.length} tables)`;
+  }
+
+  const lines: string[] = [];
+
+  for (const tableName of diff.missingInTarget) {
+    lines.push(`- table ${tableName} missing in target`);
+  }
+  for (const tableName of diff.extraInTarget) {
+    lines.push(`+ table ${tableName} only in target`);
+  }
+  for (const table of diff.changedTables) {
+    lines.push(`~ table ${table.tableName}`);
+    for (const change of table.changes) {
+      lines.push(`    ${describeChange(change)}`);
+    }
+  }
+
+  lines.push('');
+  lines.push(
+    `${diff.missingInTarget.length} missing, ${diff.extraInTarget.length} extra, ` +
+    `${diff.changedTables.length} changed, ${diff.identicalTables.length} identical`
+  );
+
+  return lines.join('\n');
+}
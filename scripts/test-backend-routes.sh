@@ -88,10 +88,6 @@ test_endpoint "POST" "/api/sync/test-job-id/stop" "Stop sync job" \
     "" "$AUTH_HEADER"
 test_endpoint "GET" "/api/sync/test-job-id/stream" "Sync progress stream" \
     "" "$AUTH_HEADER"
-test_endpoint "POST" "/api/sync/validate" "Validate schema (missing required fields)" \
-    '{"sourceConnectionId":"","targetConnectionId":""}' "$AUTH_HEADER"
-test_endpoint "POST" "/api/sync/generate-migration" "Generate migration (missing required fields)" \
-    '{"sourceConnectionId":"","targetConnectionId":""}' "$AUTH_HEADER"
 echo ""
 
 # 4. Admin Routes (require admin auth)
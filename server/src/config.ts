@@ -26,6 +26,8 @@ export interface Config {
   // Database
   databaseUrl: string | null;
   encryptionKey: string;
+  // Keys column masking hashes; falls back to the encryption key
+  maskingSecret: string | null;
 
   // Redis
   redisUrl: string;
@@ -154,6 +156,7 @@ export function loadConfig(): Config {
     // Database
     databaseUrl: getEnvVarOptional('DATABASE_URL'),
     encryptionKey: getEnvVar('ENCRYPTION_KEY', isDev ? 'dev-encryption-key-32chars!' : ''),
+    maskingSecret: getEnvVarOptional('MASKING_SECRET'),
 
     // Redis
     redisUrl: getEnvVar('REDIS_URL', 'redis://localhost:6379'),
@@ -5,28 +5,104 @@
  * 1. Shared secret validation (X-Backend-Secret header)
  * 2. Supabase user token validation (Authorization: Bearer <token>)
  * 
- * Both are required for authenticated routes.
+ * Both are required for authenticated routes. In place of a Supabase token
+ * the bearer credential may be a personal access token (`sbsync_...`), which
+ * is only accepted on routes that declare the scope it needs through
+ * `config: { apiTokenScope }`, and is rate limited per token.
  */
 
 import { FastifyRequest, FastifyReply } from 'fastify';
 import { createClient, User } from '@supabase/supabase-js';
 import { config } from '../config.js';
 import { logger } from '../utils/logger.js';
+import { isApiToken, hashApiToken, hasApiTokenScope, ApiTokenScope } from '../utils/api-token.js';
+import { authenticateApiToken, getAuthUserById, recordSecurityEvent } from '../services/supabase-client.js';
+import { checkApiTokenRateLimit } from './rate-limit.js';
 
 // Extend FastifyRequest to include user
 declare module 'fastify' {
   interface FastifyRequest {
     user?: User;
     userId?: string;
+    apiToken?: AuthenticatedApiToken;
+  }
+
+  interface FastifyContextConfig {
+    // Scope an API token needs for this route; routes without one reject API tokens
+    apiTokenScope?: ApiTokenScope;
   }
 }
 
+interface AuthenticatedApiToken {
+  id: string;
+  name: string;
+  scopes: string[];
+  rateLimitPerMinute: number;
+}
+
 interface AuthResult {
   success: boolean;
   user?: User;
+  apiToken?: AuthenticatedApiToken;
   error?: string;
 }
 
+/**
+ * Audit an API token event in security_events (fire and forget)
+ */
+function auditApiToken(
+  request: FastifyRequest,
+  eventType: 'api_token_used' | 'api_token_rejected' | 'rate_limit_exceeded',
+  details: Record<string, unknown>,
+  userId?: string
+): void {
+  void recordSecurityEvent({
+    eventType,
+    severity: eventType === 'api_token_used' ? 'low' : 'medium',
+    userId,
+    ipAddress: request.ip,
+    userAgent: request.headers['user-agent'],
+    endpoint: request.url.split('?')[0],
+    method: request.method,
+    details,
+    requestId: request.id,
+  });
+}
+
+/**
+ * Validate a personal access token and resolve its owner
+ */
+async function validateApiToken(request: FastifyRequest, token: string): Promise<AuthResult> {
+  try {
+    const apiToken = await authenticateApiToken(hashApiToken(token));
+    
+    if (!apiToken) {
+      auditApiToken(request, 'api_token_rejected', { reason: 'unknown, revoked or expired' });
+      return { success: false, error: 'Invalid, revoked or expired API token' };
+    }
+    
+    const user = await getAuthUserById(apiToken.user_id);
+    
+    if (!user) {
+      return { success: false, error: 'User not found' };
+    }
+    
+    return {
+      success: true,
+      user,
+      apiToken: {
+        id: apiToken.id,
+        name: apiToken.name,
+        scopes: apiToken.scopes,
+        rateLimitPerMinute: apiToken.rate_limit_per_minute,
+      },
+    };
+  } catch (error) {
+    logger.error({ error, requestId: request.id }, 'Error validating API token');
+    return { success: false, error: 'Token validation failed' };
+  }
+}
+
 /**
  * Validate the shared secret from the frontend
  */
@@ -86,6 +162,10 @@ async function validateUserToken(request: FastifyRequest): Promise<AuthResult> {
     return { success: false, error: 'Supabase not configured' };
   }
   
+  if (isApiToken(token)) {
+    return validateApiToken(request, token);
+  }
+  
   try {
     const supabase = createClient(config.supabaseUrl, config.supabaseAnonKey, {
       auth: {
@@ -113,12 +193,54 @@ async function validateUserToken(request: FastifyRequest): Promise<AuthResult> {
 }
 
 /**
- * Full authentication middleware
- * Validates both shared secret and user token
+ * Check an API token against the route's required scope and the token's
+ * rate limit. Sends the error response and returns false when rejected.
  */
-export async function authMiddleware(
+async function authorizeApiToken(
   request: FastifyRequest,
-  reply: FastifyReply
+  reply: FastifyReply,
+  apiToken: AuthenticatedApiToken,
+  defaultScope?: ApiTokenScope
+): Promise<boolean> {
+  const requiredScope = request.routeOptions.config?.apiTokenScope ?? defaultScope;
+  const details = { tokenId: apiToken.id, name: apiToken.name, requiredScope };
+  
+  if (!requiredScope || !hasApiTokenScope(apiToken.scopes, requiredScope)) {
+    auditApiToken(request, 'api_token_rejected', { ...details, reason: 'missing scope' }, request.userId);
+    reply.status(403).send({
+      success: false,
+      error: requiredScope
+        ? `API token is missing the "${requiredScope}" scope`
+        : 'This endpoint does not accept API tokens',
+    });
+    return false;
+  }
+  
+  const rateLimit = await checkApiTokenRateLimit(apiToken.id, apiToken.rateLimitPerMinute);
+  if (!rateLimit.allowed) {
+    auditApiToken(request, 'rate_limit_exceeded', { ...details, limit: rateLimit.limit }, request.userId);
+    reply.header('Retry-After', rateLimit.retryAfter.toString());
+    reply.status(429).send({
+      success: false,
+      error: 'Too many requests',
+      retryAfter: rateLimit.retryAfter,
+      message: `API token rate limit of ${rateLimit.limit} requests per minute exceeded. Please wait ${rateLimit.retryAfter} seconds before trying again.`,
+    });
+    return false;
+  }
+  
+  auditApiToken(request, 'api_token_used', details, request.userId);
+  return true;
+}
+
+/**
+ * Authenticate a request, accepting API tokens with the route's declared
+ * scope (or defaultScope when the route declares none)
+ */
+async function authenticate(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  defaultScope?: ApiTokenScope
 ): Promise<void> {
   // 1. Validate shared secret
   if (!validateSharedSecret(request)) {
@@ -142,12 +264,32 @@ export async function authMiddleware(
   request.user = authResult.user;
   request.userId = authResult.user?.id;
   
+  // 4. Check API token scope and rate limit
+  if (authResult.apiToken) {
+    request.apiToken = authResult.apiToken;
+    if (!(await authorizeApiToken(request, reply, authResult.apiToken, defaultScope))) {
+      return;
+    }
+  }
+  
   logger.debug({
     userId: request.userId,
     requestId: request.id,
+    apiTokenId: request.apiToken?.id,
   }, 'User authenticated');
 }
 
+/**
+ * Full authentication middleware
+ * Validates both shared secret and user token
+ */
+export async function authMiddleware(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> {
+  return authenticate(request, reply);
+}
+
 /**
  * Shared secret only middleware
  * For internal service-to-service calls that don't need user context
@@ -183,6 +325,11 @@ export async function optionalAuthMiddleware(
     return; // No token, no user
   }
   
+  // API tokens are only accepted where a route declares their scope
+  if (isApiToken(authHeader.substring(7))) {
+    return;
+  }
+  
   const authResult = await validateUserToken(request);
   if (authResult.success && authResult.user) {
     request.user = authResult.user;
@@ -198,8 +345,8 @@ export async function adminAuthMiddleware(
   request: FastifyRequest,
   reply: FastifyReply
 ): Promise<void> {
-  // First run normal auth
-  await authMiddleware(request, reply);
+  // First run normal auth (API tokens need the admin scope)
+  await authenticate(request, reply, 'admin');
   
   // Check if already sent response
   if (reply.sent) return;
@@ -107,7 +107,7 @@ async function loadScript(client: Redis): Promise<string> {
   return scriptSha;
 }
 
-interface RateLimitResult {
+export interface RateLimitResult {
   allowed: boolean;
   remaining: number;
   retryAfter: number;
@@ -123,8 +123,25 @@ async function checkRateLimit(
   type: RateLimitType
 ): Promise<RateLimitResult> {
   const limits = RATE_LIMITS[type];
-  const key = `ratelimit:${type}:${userId}`;
+  return checkLimit(`ratelimit:${type}:${userId}`, limits.max, limits.window);
+}
+
+/**
+ * Check the per-token rate limit of an API token. Applies on top of the
+ * owner's per-endpoint limits.
+ */
+async function checkApiTokenRateLimit(
+  tokenId: string,
+  maxPerMinute: number
+): Promise<RateLimitResult> {
+  return checkLimit(`ratelimit:api_token:${tokenId}`, maxPerMinute, 60000);
+}
 
+async function checkLimit(
+  key: string,
+  max: number,
+  window: number
+): Promise<RateLimitResult> {
   // Try Redis first
   if (redisAvailable) {
     const client = getRedisClient();
@@ -139,8 +156,8 @@ async function checkRateLimit(
           1,
           key,
           now.toString(),
-          limits.window.toString(),
-          limits.max.toString(),
+          window.toString(),
+          max.toString(),
           uniqueId
         ) as [number, number, number];
 
@@ -148,7 +165,7 @@ async function checkRateLimit(
           allowed: result[0] === 1,
           remaining: result[1],
           retryAfter: result[2],
-          limit: limits.max,
+          limit: max,
           source: 'redis',
         };
       } catch (error) {
@@ -161,7 +178,7 @@ async function checkRateLimit(
   }
 
   // Fallback to in-memory
-  return checkMemoryRateLimit(key, limits.max, limits.window);
+  return checkMemoryRateLimit(key, max, window);
 }
 
 function checkMemoryRateLimit(
@@ -303,5 +320,5 @@ export async function closeRateLimitConnections(): Promise<void> {
   memoryStore.clear();
 }
 
-export { checkRateLimit, createRateLimitHeaders, RATE_LIMITS };
+export { checkRateLimit, checkApiTokenRateLimit, createRateLimitHeaders, RATE_LIMITS };
 
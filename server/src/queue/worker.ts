@@ -8,8 +8,31 @@ import { Job } from 'bullmq';
 import { createSyncWorker, closeQueues } from './client.js';
 import { createDrizzleClient, type DrizzleConnection } from '../services/drizzle-factory.js';
 import { decrypt } from '../services/encryption.js';
+import { escapeQualifiedName, parseQualifiedTableName } from '../utils/identifiers.js';
+import {
+  buildKeyColumnList,
+  buildKeyEqualsCondition,
+  buildKeyOrderBy,
+  buildKeysetCondition,
+  getRowKey,
+  resolvePrimaryKey,
+} from '../utils/primary-key.js';
+import { compileRowFilters, validateRowFilters } from '../utils/row-filter.js';
+import {
+  applyColumnTransforms,
+  createColumnTransformPlan,
+  hasColumnTransforms,
+  validateColumnTransforms,
+} from '../utils/column-masking.js';
+import { createPreSyncBackup } from '../services/pre-sync-backup.js';
+import { deleteMissingRows, getDeleteOrder, getMirrorDeleteTables } from '../services/mirror-deletes.js';
 import { logger, createJobLogger } from '../utils/logger.js';
-import { updateSyncJob, addSyncLog } from '../services/supabase-client.js';
+import {
+  updateSyncJob,
+  addSyncLog,
+  updateScheduledSyncRunStatus,
+  getSyncBackupForJob,
+} from '../services/supabase-client.js';
 import type { SyncJobData, SyncProgress, SyncCheckpoint } from '../types/index.js';
 
 // Track cancelled jobs
@@ -33,7 +56,7 @@ function isJobCancelled(jobId: string): boolean {
  * Process a sync job
  */
 async function processSyncJob(job: Job<SyncJobData>): Promise<void> {
-  const { jobId, userId, sourceConnectionId, targetConnectionId, direction, tablesConfig, checkpoint } = job.data;
+  const { jobId, userId, sourceConnectionId, targetConnectionId, direction, tablesConfig, checkpoint, scheduledSyncId } = job.data;
   
   const jobLogger = createJobLogger(jobId, userId);
   jobLogger.info({ sourceConnectionId, targetConnectionId, direction }, 'Starting sync job');
@@ -73,6 +96,7 @@ async function processSyncJob(job: Job<SyncJobData>): Promise<void> {
       processedRows: 0,
       insertedRows: 0,
       updatedRows: 0,
+      deletedRows: 0,
       skippedRows: 0,
       errors: 0,
     };
@@ -81,6 +105,35 @@ async function processSyncJob(job: Job<SyncJobData>): Promise<void> {
     // Also persist to database
     await updateSyncJob(jobId, userId, { progress });
     
+    // Deletes are only reversible through a pre-sync backup of every enabled
+    // table, taken before any writes. A resumed job reuses the original one.
+    const mirrorTables = getMirrorDeleteTables(enabledTables, direction);
+    let deleteBackupId: string | null = null;
+    
+    if (mirrorTables.length > 0) {
+      if (checkpoint) {
+        const backup = await getSyncBackupForJob(jobId, userId);
+        deleteBackupId = backup?.status === 'completed' ? backup.id : null;
+      } else {
+        await addSyncLog(jobId, 'info', 'Creating pre-sync backup before mirroring deletes');
+        try {
+          const backup = await createPreSyncBackup({
+            jobId,
+            userId,
+            targetConnectionId,
+            conn: targetConn,
+            tables: enabledTables.map(t => t.tableName),
+            onLog: (message) => addSyncLog(jobId, 'info', `[Backup] ${message}`),
+          });
+          deleteBackupId = backup.id;
+          await addSyncLog(jobId, 'info', `Backup created: ${backup.id} (${backup.rowCount} rows)`);
+        } catch (backupError) {
+          jobLogger.error({ error: backupError }, 'Pre-sync backup failed');
+          await addSyncLog(jobId, 'warn', `Backup creation failed: ${backupError instanceof Error ? backupError.message : 'Unknown error'}`);
+        }
+      }
+    }
+    
     // Process each table
     const processedTables = checkpoint?.processedTables || [];
     
@@ -111,6 +164,9 @@ async function processSyncJob(job: Job<SyncJobData>): Promise<void> {
           progress,
         });
         await addSyncLog(jobId, 'warn', 'Sync job cancelled by user');
+        if (scheduledSyncId) {
+          await updateScheduledSyncRunStatus(scheduledSyncId, jobId, 'failed', 'Cancelled by user');
+        }
         return;
       }
       
@@ -123,17 +179,47 @@ async function processSyncJob(job: Job<SyncJobData>): Promise<void> {
       await addSyncLog(jobId, 'info', `Processing table: ${tableName}`);
       
       try {
+        const safeTableName = escapeQualifiedName(tableName);
+        // Rows are paged through and matched by the target's primary key
+        const primaryKey = await resolvePrimaryKey(targetConn, tableName);
+        
+        // Only source rows matching the table's filters are synced, and
+        // excluded or masked columns never reach the target
+        const filters = tableConfig.filters || [];
+        if (filters.length > 0 || hasColumnTransforms(tableConfig)) {
+          const { schema, table } = parseQualifiedTableName(tableName);
+          const columnRows = await sourceConn.client`
+            SELECT column_name
+            FROM information_schema.columns
+            WHERE table_schema = ${schema}
+              AND table_name = ${table}
+          `;
+          const columnNames = columnRows.map(r => String(r.column_name));
+          const filterErrors = [
+            ...validateRowFilters(filters, columnNames),
+            ...validateColumnTransforms(tableConfig, columnNames, primaryKey),
+          ];
+          if (filterErrors.length > 0) {
+            throw new Error(`Invalid table config: ${filterErrors.join('; ')}`);
+          }
+        }
+        const rowFilter = compileRowFilters(filters);
+        const columnPlan = createColumnTransformPlan(tableConfig);
+        const whereClause = rowFilter.sql ? `WHERE ${rowFilter.sql}` : '';
+        
         // Get row count for progress tracking
         const countResult = await sourceConn.client.unsafe(
-          `SELECT COUNT(*) as count FROM "${tableName}"`
+          `SELECT COUNT(*) as count FROM ${safeTableName} ${whereClause}`,
+          rowFilter.params
         );
         const tableRowCount = parseInt(countResult[0]?.count as string || '0', 10);
         
         jobLogger.info({ tableName, rowCount: tableRowCount }, 'Table row count');
         
-        // Process rows in batches
+        // Process rows in batches, paging by primary key
         const batchSize = 1000;
-        let offset = 0;
+        let processed = 0;
+        let lastKey: unknown[] | null = null;
         let hasMore = true;
         let tableInserted = 0;
         let tableUpdated = 0;
@@ -147,20 +233,35 @@ async function processSyncJob(job: Job<SyncJobData>): Promise<void> {
           }
           
           // Fetch batch from source
-          const rows = await sourceConn.client.unsafe(
-            `SELECT * FROM "${tableName}" ORDER BY id LIMIT ${batchSize} OFFSET ${offset}`
+          const conditions = rowFilter.sql ? [rowFilter.sql] : [];
+          const params: unknown[] = [...rowFilter.params];
+          if (lastKey) {
+            conditions.push(buildKeysetCondition(primaryKey, params.length + 1));
+            params.push(...lastKey);
+          }
+          const sourceRows = await sourceConn.client.unsafe(
+            `SELECT * FROM ${safeTableName} ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''} ` +
+            `ORDER BY ${buildKeyOrderBy(primaryKey)} LIMIT ${batchSize}`,
+            params as (string | number | boolean)[]
           );
           
-          if (rows.length === 0) {
+          if (sourceRows.length === 0) {
             hasMore = false;
             break;
           }
           
+          // NULL keys sort last, so a NULL-keyed last row ends the table
+          lastKey = getRowKey(sourceRows[sourceRows.length - 1], primaryKey);
+          if (!lastKey) {
+            hasMore = false;
+          }
+          const rows = sourceRows.map(row => applyColumnTransforms(row, columnPlan) as typeof row);
+          
           // Process batch
           await targetConn.client.begin(async (tx) => {
             for (const row of rows) {
-              const rowId = row.id as string;
-              if (!rowId) {
+              const rowKey = getRowKey(row, primaryKey);
+              if (!rowKey) {
                 tableSkipped++;
                 continue;
               }
@@ -168,8 +269,8 @@ async function processSyncJob(job: Job<SyncJobData>): Promise<void> {
               try {
                 // Check if row exists in target
                 const existing = await tx.unsafe(
-                  `SELECT id FROM "${tableName}" WHERE id = $1`,
-                  [rowId]
+                  `SELECT ${buildKeyColumnList(primaryKey)} FROM ${safeTableName} WHERE ${buildKeyEqualsCondition(primaryKey)}`,
+                  rowKey as (string | number | boolean)[]
                 );
                 
                 const columns = Object.keys(row);
@@ -181,32 +282,36 @@ async function processSyncJob(job: Job<SyncJobData>): Promise<void> {
                   const columnList = columns.map(c => `"${c}"`).join(', ');
                   
                   await tx.unsafe(
-                    `INSERT INTO "${tableName}" (${columnList}) VALUES (${placeholders})`,
+                    `INSERT INTO ${safeTableName} (${columnList}) VALUES (${placeholders})`,
                     values
                   );
                   tableInserted++;
                 } else {
                   // Update existing row
-                  const updateColumns = columns.filter(c => c !== 'id');
+                  const updateColumns = columns.filter(c => !primaryKey.includes(c));
+                  if (updateColumns.length === 0) {
+                    tableSkipped++;
+                    continue;
+                  }
                   const updateValues = updateColumns.map(c => row[c]);
                   const setClause = updateColumns.map((c, i) => `"${c}" = $${i + 1}`).join(', ');
                   
                   await tx.unsafe(
-                    `UPDATE "${tableName}" SET ${setClause} WHERE id = $${updateColumns.length + 1}`,
-                    [...updateValues, rowId]
+                    `UPDATE ${safeTableName} SET ${setClause} WHERE ${buildKeyEqualsCondition(primaryKey, updateColumns.length + 1)}`,
+                    [...updateValues, ...rowKey] as (string | number | boolean)[]
                   );
                   tableUpdated++;
                 }
               } catch (rowError) {
-                jobLogger.warn({ rowId, error: rowError }, 'Error processing row');
+                jobLogger.warn({ rowKey, error: rowError }, 'Error processing row');
                 tableSkipped++;
               }
             }
           });
           
           // Update progress
-          offset += rows.length;
-          progress.processedRows = offset;
+          processed += rows.length;
+          progress.processedRows = processed;
           progress.insertedRows += tableInserted;
           progress.updatedRows += tableUpdated;
           progress.skippedRows += tableSkipped;
@@ -227,7 +332,7 @@ async function processSyncJob(job: Job<SyncJobData>): Promise<void> {
         
         processedTables.push(tableName);
         progress.completedTables++;
-        
+
         await updateSyncJob(jobId, userId, { progress });
         await addSyncLog(jobId, 'info', `Completed table: ${tableName}`, {
           inserted: progress.insertedRows,
@@ -250,6 +355,48 @@ async function processSyncJob(job: Job<SyncJobData>): Promise<void> {
       }
     }
     
+    // Delete propagation runs after all upserts, children before parents, so
+    // rows referencing removed parent rows are deleted first
+    const deleteTables = mirrorTables.filter(t => processedTables.includes(t));
+    
+    if (deleteTables.length > 0 && !deleteBackupId) {
+      await addSyncLog(jobId, 'warn', `Skipping delete propagation for ${deleteTables.join(', ')}: no completed pre-sync backup`);
+    } else if (deleteTables.length > 0) {
+      await addSyncLog(jobId, 'info', `Propagating deletes for ${deleteTables.length} table(s) (backup ${deleteBackupId})`);
+      
+      for (const tableName of await getDeleteOrder(targetConn, deleteTables)) {
+        progress.currentTable = tableName;
+        await job.updateProgress(progress);
+        
+        try {
+          const { deleted, cancelled } = await deleteMissingRows({
+            sourceConn,
+            targetConn,
+            tableName,
+            primaryKey: await resolvePrimaryKey(targetConn, tableName),
+            isCancelled: () => isJobCancelled(jobId),
+            onDeleted: async (count) => {
+              progress!.deletedRows += count;
+              await job.updateProgress(progress!);
+              await updateSyncJob(jobId, userId, { progress });
+            },
+          });
+          
+          if (cancelled) {
+            jobLogger.warn('Job cancelled during delete propagation');
+            return;
+          }
+          
+          await addSyncLog(jobId, 'info', `Deleted ${deleted} source-missing row(s) from ${tableName}`);
+        } catch (deleteError) {
+          jobLogger.error({ tableName, error: deleteError }, 'Error propagating deletes');
+          progress.errors++;
+          await addSyncLog(jobId, 'error', `Error propagating deletes for ${tableName}: ${deleteError instanceof Error ? deleteError.message : 'Unknown error'}`);
+          await updateSyncJob(jobId, userId, { progress });
+        }
+      }
+    }
+    
     // Job completed
     await updateSyncJob(jobId, userId, {
       status: 'completed',
@@ -260,9 +407,13 @@ async function processSyncJob(job: Job<SyncJobData>): Promise<void> {
       tablesProcessed: progress.completedTables,
       rowsInserted: progress.insertedRows,
       rowsUpdated: progress.updatedRows,
+      rowsDeleted: progress.deletedRows,
       rowsSkipped: progress.skippedRows,
       errors: progress.errors,
     });
+    if (scheduledSyncId) {
+      await updateScheduledSyncRunStatus(scheduledSyncId, jobId, 'success');
+    }
     
     jobLogger.info({
       tablesProcessed: progress.completedTables,
@@ -283,6 +434,14 @@ async function processSyncJob(job: Job<SyncJobData>): Promise<void> {
       progress: progress || null,
     });
     await addSyncLog(jobId, 'error', `Sync job failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    if (scheduledSyncId) {
+      await updateScheduledSyncRunStatus(
+        scheduledSyncId,
+        jobId,
+        'failed',
+        error instanceof Error ? error.message : 'Unknown error'
+      );
+    }
     throw error;
   } finally {
     if (sourceConn) await sourceConn.close();
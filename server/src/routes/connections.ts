@@ -2,8 +2,10 @@
  * Connection Routes
  * 
  * API routes for database connection operations:
+ * - GET /api/connections - List connections
+ * - POST /api/connections/resolve - Resolve an API token's owner and connections
  * - POST /api/connections/:id/test - Test connection
- * - POST /api/connections/:id/execute - Execute SQL
+ * - POST /api/connections/:id/execute - Execute SQL (or dry-run it in a rolled-back transaction)
  * - GET /api/connections/:id/schema - Get schema
  * - POST /api/connections/:id/keep-alive - Keep-alive ping
  */
@@ -18,8 +20,9 @@ import {
   getSyncableTables,
 } from '../services/drizzle-factory.js';
 import { decrypt } from '../services/encryption.js';
+import { parseSchemaList } from '../utils/identifiers.js';
 import { pingDatabase, logPingResult, updateLastPinged } from '../services/keep-alive.js';
-import { getConnectionById } from '../services/supabase-client.js';
+import { getConnectionById, getConnections } from '../services/supabase-client.js';
 
 // Route params
 interface ConnectionParams {
@@ -37,10 +40,107 @@ interface TestConnectionBody {
   encryptedUrl?: string;
 }
 
+interface ResolveConnectionsBody {
+  connectionIds: string[];
+}
+
+const MAX_RESOLVED_CONNECTIONS = 10;
+
 export async function connectionRoutes(fastify: FastifyInstance) {
   // Apply auth middleware to all routes
   fastify.addHook('preHandler', authMiddleware);
   
+  // GET /api/connections - List connections
+  fastify.get(
+    '/',
+    { config: { apiTokenScope: 'read' }, preHandler: createRateLimitMiddleware('read') },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const userId = request.userId!;
+      
+      try {
+        const connections = await getConnections(userId);
+        
+        return reply.send({
+          success: true,
+          data: connections.map((conn) => ({
+            id: conn.id,
+            name: conn.name,
+            environment: conn.environment,
+            schemas: conn.schemas,
+            keepAlive: conn.keep_alive,
+            lastPingedAt: conn.last_pinged_at,
+            createdAt: conn.created_at,
+            updatedAt: conn.updated_at,
+          })),
+        });
+      } catch (error) {
+        logger.error({ error, userId }, 'Failed to list connections');
+        return reply.status(500).send({
+          success: false,
+          error: 'Failed to list connections',
+        });
+      }
+    }
+  );
+  
+  // POST /api/connections/resolve - Resolve an API token's owner and connections.
+  // The frontend authenticates tokens here, then runs schema work on the
+  // connections itself as it does for sessions. Sessions read connections
+  // through Supabase directly, so only token requests are accepted.
+  fastify.post<{ Body: ResolveConnectionsBody }>(
+    '/resolve',
+    { config: { apiTokenScope: 'read' }, preHandler: createRateLimitMiddleware('read') },
+    async (request: FastifyRequest<{ Body: ResolveConnectionsBody }>, reply: FastifyReply) => {
+      const userId = request.userId!;
+      const connectionIds = request.body?.connectionIds;
+      
+      if (!request.apiToken) {
+        return reply.status(403).send({
+          success: false,
+          error: 'Only API token requests can resolve connections',
+        });
+      }
+      
+      if (
+        !Array.isArray(connectionIds) ||
+        connectionIds.length === 0 ||
+        connectionIds.length > MAX_RESOLVED_CONNECTIONS ||
+        !connectionIds.every((id) => typeof id === 'string')
+      ) {
+        return reply.status(400).send({
+          success: false,
+          error: `Between 1 and ${MAX_RESOLVED_CONNECTIONS} connection IDs are required`,
+        });
+      }
+      
+      try {
+        const connections = await Promise.all(connectionIds.map((id) => getConnectionById(id, userId)));
+        
+        return reply.send({
+          success: true,
+          data: {
+            userId,
+            connections: connections
+              .filter((conn) => conn !== null)
+              .map((conn) => ({
+                id: conn.id,
+                name: conn.name,
+                environment: conn.environment,
+                schemas: conn.schemas,
+                encryptedUrl: conn.encrypted_url,
+              })),
+          },
+        });
+      } catch (error) {
+        logger.error({ error, userId }, 'Failed to resolve connections');
+        return reply.status(500).send({
+          success: false,
+          error: 'Failed to resolve connections',
+        });
+      }
+    }
+  );
+  
   // POST /api/connections/:id/test - Test connection
   fastify.post<{ Params: ConnectionParams; Body: TestConnectionBody }>(
     '/:id/test',
@@ -118,12 +218,41 @@ export async function connectionRoutes(fastify: FastifyInstance) {
       }
       
       try {
+        // Dry runs hold locks until they roll back, so production
+        // connections need explicit confirmation
+        if (dryRun && request.headers['x-confirm-production'] !== 'true') {
+          const connection = await getConnectionById(id, userId!);
+          if (!connection) {
+            return reply.status(404).send({
+              success: false,
+              error: 'Connection not found',
+            });
+          }
+          if (connection.environment === 'production') {
+            return reply.status(400).send({
+              success: false,
+              error: 'Dry runs on production require confirmation',
+              requiresConfirmation: true,
+            });
+          }
+        }
+        
         const { decrypt } = await import('../services/encryption.js');
         const { executeSQL } = await import('../services/drizzle-factory.js');
         
         const databaseUrl = decrypt(encryptedUrl);
         const result = await executeSQL(databaseUrl, sql, { dryRun, maxRows: 10000 });
         
+        if (result.dryRun) {
+          return reply.send({
+            success: true,
+            data: {
+              dryRun: true,
+              ...result.dryRun,
+            },
+          });
+        }
+        
         return reply.send({
           success: result.success,
           data: result.success ? {
@@ -145,26 +274,37 @@ export async function connectionRoutes(fastify: FastifyInstance) {
   );
   
   // GET /api/connections/:id/schema - Get schema
-  fastify.get<{ Params: ConnectionParams; Querystring: { encryptedUrl?: string } }>(
+  fastify.get<{ Params: ConnectionParams; Querystring: { encryptedUrl?: string; schemas?: string } }>(
     '/:id/schema',
-    { preHandler: createRateLimitMiddleware('schema') },
-    async (request: FastifyRequest<{ Params: ConnectionParams; Querystring: { encryptedUrl?: string } }>, reply: FastifyReply) => {
+    { config: { apiTokenScope: 'read' }, preHandler: createRateLimitMiddleware('schema') },
+    async (request: FastifyRequest<{ Params: ConnectionParams; Querystring: { encryptedUrl?: string; schemas?: string } }>, reply: FastifyReply) => {
       const { id } = request.params;
-      const { encryptedUrl } = request.query;
+      const { encryptedUrl, schemas } = request.query;
       const userId = request.userId;
       
       logger.info({ userId, connectionId: id }, 'Getting schema');
       
-      if (!encryptedUrl) {
-        return reply.status(400).send({
-          success: false,
-          error: 'Encrypted URL is required',
-        });
-      }
-      
       try {
-        const databaseUrl = decrypt(encryptedUrl);
-        const syncableTables = await getSyncableTables(databaseUrl);
+        // Load the connection if the URL was not provided
+        let encUrl = encryptedUrl;
+        let schemaList = schemas;
+        
+        if (!encUrl) {
+          const connection = await getConnectionById(id, userId!);
+          
+          if (!connection) {
+            return reply.status(404).send({
+              success: false,
+              error: 'Connection not found',
+            });
+          }
+          
+          encUrl = connection.encrypted_url;
+          schemaList = schemaList ?? connection.schemas?.join(',');
+        }
+        
+        const databaseUrl = decrypt(encUrl);
+        const syncableTables = await getSyncableTables(databaseUrl, parseSchemaList(schemaList));
         
         // Get schema for each table
         const tablesWithSchema = await Promise.all(
@@ -3,7 +3,10 @@
  * 
  * API routes for database explorer:
  * - GET /api/explorer/:connectionId/tables - List tables
- * - GET /api/explorer/:connectionId/:table/rows - Get table rows
+ * - GET /api/explorer/:connectionId/:table/rows - Get table rows, optionally
+ *   narrowed by a structured `filter` (JSON) and a quick `search` term.
+ *   Pages are keyset-paginated with an opaque `cursor`; the total is an
+ *   estimate for large tables unless `count=exact` is passed.
  */
 
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
@@ -12,12 +15,36 @@ import { createRateLimitMiddleware } from '../middleware/rate-limit.js';
 import { logger } from '../utils/logger.js';
 import { 
   createDrizzleClient,
+  countRowsWithTimeout,
+  estimateRowCount,
+  getPrimaryKeyColumns,
   getSyncableTables, 
+  getTableColumns,
   getTableSchema,
   getTableRowCount,
   safeInt,
 } from '../services/drizzle-factory.js';
 import { decrypt } from '../services/encryption.js';
+import {
+  escapeQualifiedName,
+  isValidQualifiedTableName,
+  parseSchemaList,
+} from '../utils/identifiers.js';
+import {
+  buildExplorerWhereClause,
+  getSearchableColumns,
+  parseExplorerFilter,
+  validateExplorerFilter,
+} from '../utils/explorer-filter.js';
+import {
+  buildKeysetQuery,
+  decodeCursor,
+  encodeCursor,
+  extractCursor,
+  InvalidCursorError,
+  type KeysetOptions,
+} from '../utils/keyset-pagination.js';
+import type { ExplorerFilterGroup } from '../types/index.js';
 
 // Route params
 interface ConnectionParams {
@@ -29,9 +56,15 @@ interface TableParams extends ConnectionParams {
 }
 
 // Query params
+interface TablesQuery {
+  encryptedUrl?: string;
+  schemas?: string;
+}
+
 interface PaginationQuery {
-  page?: string;
   limit?: string;
+  // Opaque token from the previous page's nextCursor
+  cursor?: string;
   encryptedUrl?: string;
 }
 
@@ -39,17 +72,29 @@ interface RowsQuery extends PaginationQuery {
   orderBy?: string;
   orderDir?: 'asc' | 'desc';
   search?: string;
+  // JSON-encoded ExplorerFilterGroup
+  filter?: string;
+  // 'exact' runs COUNT(*) even on large tables
+  count?: 'exact' | 'estimate';
 }
 
+const MAX_PAGE_SIZE = 200;
+
+// Tables estimated at or below this many matching rows are counted exactly
+const EXACT_COUNT_THRESHOLD = 100000;
+
+// Exact counts give up after this long and fall back to the estimate
+const EXACT_COUNT_TIMEOUT = 30000; // 30 seconds
+
 export async function explorerRoutes(fastify: FastifyInstance) {
   // Apply auth middleware to all routes
   fastify.addHook('preHandler', authMiddleware);
   
   // GET /api/explorer/:connectionId/tables - List tables
-  fastify.get<{ Params: ConnectionParams; Querystring: { encryptedUrl?: string } }>(
+  fastify.get<{ Params: ConnectionParams; Querystring: TablesQuery }>(
     '/:connectionId/tables',
     { preHandler: createRateLimitMiddleware('read') },
-    async (request: FastifyRequest<{ Params: ConnectionParams; Querystring: { encryptedUrl?: string } }>, reply: FastifyReply) => {
+    async (request: FastifyRequest<{ Params: ConnectionParams; Querystring: TablesQuery }>, reply: FastifyReply) => {
       const { connectionId } = request.params;
       const { encryptedUrl } = request.query;
       const userId = request.userId;
@@ -63,9 +108,19 @@ export async function explorerRoutes(fastify: FastifyInstance) {
         });
       }
       
+      let schemas: string[];
+      try {
+        schemas = parseSchemaList(request.query.schemas);
+      } catch (error) {
+        return reply.status(400).send({
+          success: false,
+          error: error instanceof Error ? error.message : 'Invalid schemas',
+        });
+      }
+      
       try {
         const databaseUrl = decrypt(encryptedUrl);
-        const tables = await getSyncableTables(databaseUrl);
+        const tables = await getSyncableTables(databaseUrl, schemas);
         
         // Get row counts for each table
         const tablesWithCounts = await Promise.all(
@@ -104,22 +159,24 @@ export async function explorerRoutes(fastify: FastifyInstance) {
     }
   );
   
-  // GET /api/explorer/:connectionId/:table/rows - Get table rows
+  // GET /api/explorer/:connectionId/:table/rows - Get a page of table rows
   fastify.get<{ Params: TableParams; Querystring: RowsQuery }>(
     '/:connectionId/:table/rows',
     { preHandler: createRateLimitMiddleware('read') },
     async (request: FastifyRequest<{ Params: TableParams; Querystring: RowsQuery }>, reply: FastifyReply) => {
       const { connectionId, table } = request.params;
       const { 
-        page = '1', 
         limit = '50', 
-        orderBy = 'id', 
+        orderBy,
         orderDir = 'desc',
+        search,
+        cursor,
+        count,
         encryptedUrl,
       } = request.query;
       const userId = request.userId;
       
-      logger.info({ userId, connectionId, table, page, limit }, 'Getting table rows');
+      logger.info({ userId, connectionId, table, limit, paged: !!cursor }, 'Getting table rows');
       
       if (!encryptedUrl) {
         return reply.status(400).send({
@@ -129,49 +186,123 @@ export async function explorerRoutes(fastify: FastifyInstance) {
       }
       
       // Validate table name to prevent SQL injection
-      if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(table)) {
+      if (!isValidQualifiedTableName(table)) {
         return reply.status(400).send({
           success: false,
           error: 'Invalid table name',
         });
       }
       
+      let filter: ExplorerFilterGroup | null;
+      try {
+        filter = parseExplorerFilter(request.query.filter);
+      } catch (error) {
+        return reply.status(400).send({
+          success: false,
+          error: error instanceof Error ? error.message : 'Invalid filter',
+        });
+      }
+      
       try {
         const databaseUrl = decrypt(encryptedUrl);
         const connection = createDrizzleClient(databaseUrl);
         
-        const pageNum = Math.max(1, safeInt(page, 1));
-        const limitNum = Math.min(100, Math.max(1, safeInt(limit, 50)));
-        const offset = (pageNum - 1) * limitNum;
-        
-        // Validate orderBy column
-        const safeOrderBy = /^[a-zA-Z_][a-zA-Z0-9_]*$/.test(orderBy) ? orderBy : 'id';
-        const safeOrderDir = orderDir === 'asc' ? 'ASC' : 'DESC';
-        
-        // Get total count
-        const countResult = await connection.client.unsafe(
-          `SELECT COUNT(*) as count FROM "${table}"`
-        );
-        const total = safeInt(countResult[0]?.count, 0);
-        
-        // Get rows
-        const rows = await connection.client.unsafe(
-          `SELECT * FROM "${table}" ORDER BY "${safeOrderBy}" ${safeOrderDir} LIMIT ${limitNum} OFFSET ${offset}`
-        );
-        
-        await connection.close();
-        
-        return reply.send({
-          success: true,
-          data: {
-            rows: rows as Record<string, unknown>[],
-            total,
-            page: pageNum,
-            limit: limitNum,
-            hasMore: offset + rows.length < total,
-          },
-        });
+        try {
+          // Column metadata for filter validation, quick search, sorting and the grid's type-aware editors
+          const schema = await getTableColumns(connection, table);
+          const primaryKey = await getPrimaryKeyColumns(connection, table);
+          const columnNames = schema.map((c) => c.columnName);
+          
+          if (filter) {
+            const filterErrors = validateExplorerFilter(filter, columnNames);
+            if (filterErrors.length > 0) {
+              return reply.status(400).send({
+                success: false,
+                error: filterErrors.join(', '),
+              });
+            }
+          }
+          
+          const where = buildExplorerWhereClause({
+            filter,
+            search,
+            searchColumns: getSearchableColumns(schema.map((c) => ({ name: c.columnName, type: c.dataType }))),
+          });
+          
+          // Unknown sort columns fall back to the primary key order
+          const keysetOptions: KeysetOptions = {
+            orderColumn: orderBy && columnNames.includes(orderBy) ? orderBy : null,
+            direction: orderDir === 'asc' ? 'asc' : 'desc',
+            keyColumns: primaryKey,
+          };
+          const cursorLength = buildKeysetQuery(keysetOptions, null).cursorLength;
+          const page = buildKeysetQuery(
+            keysetOptions,
+            cursor ? decodeCursor(cursor, cursorLength) : null,
+            where.params.length + 1
+          );
+          
+          const limitNum = Math.min(MAX_PAGE_SIZE, Math.max(1, safeInt(limit, 50)));
+          const safeTableName = escapeQualifiedName(table);
+          const conditions = [where.sql, page.condition ? `${where.sql ? 'AND' : 'WHERE'} ${page.condition}` : '']
+            .filter(Boolean)
+            .join(' ');
+          
+          // One extra row tells whether another page follows
+          const fetched = await connection.client.unsafe(
+            `SELECT *, ${page.cursorSelect} FROM ${safeTableName} ${conditions} ORDER BY ${page.orderBy} LIMIT ${limitNum + 1}`,
+            [...where.params, ...page.params]
+          );
+          const hasMore = fetched.length > limitNum;
+          const pageRows = fetched.slice(0, limitNum).map((row) => extractCursor(row, page.cursorLength));
+          const lastCursor = pageRows[pageRows.length - 1]?.cursor;
+          
+          // Counted on the first page only; later pages reuse the client's total
+          let total: number | null = null;
+          let totalIsEstimate = false;
+          if (!cursor) {
+            const estimate = await estimateRowCount(connection, table, where);
+            const exact = count === 'exact' || estimate === null || estimate <= EXACT_COUNT_THRESHOLD
+              ? await countRowsWithTimeout(connection, table, where, EXACT_COUNT_TIMEOUT)
+              : null;
+            if (exact !== null) {
+              total = exact;
+            } else if (estimate !== null) {
+              total = estimate;
+              totalIsEstimate = true;
+            }
+          }
+          
+          return reply.send({
+            success: true,
+            data: {
+              rows: pageRows.map((r) => r.row),
+              columns: schema.map((c) => ({
+                name: c.columnName,
+                type: c.dataType,
+                nullable: c.isNullable,
+                isPrimaryKey: primaryKey.includes(c.columnName),
+                defaultValue: c.columnDefault,
+              })),
+              primaryKey,
+              total,
+              totalIsEstimate,
+              limit: limitNum,
+              nextCursor: hasMore && lastCursor ? encodeCursor(lastCursor) : null,
+              hasMore,
+            },
+          });
+        } finally {
+          await connection.close();
+        }
       } catch (error) {
+        if (error instanceof InvalidCursorError) {
+          return reply.status(400).send({
+            success: false,
+            error: 'Invalid cursor; reload the first page',
+          });
+        }
+        
         const message = error instanceof Error ? error.message : 'Failed to get rows';
         logger.error({ error, userId, connectionId, table }, 'Failed to get table rows');
         
@@ -2,13 +2,14 @@
  * Sync Routes
  * 
  * API routes for sync operations:
- * - POST /api/sync - Create sync job
+ * - GET /api/sync - List sync jobs
+ * - POST /api/sync - Create sync job, or preview it as a dry run
  * - GET /api/sync/:id - Get sync job status
  * - POST /api/sync/:id/start - Start sync job
  * - POST /api/sync/:id/pause - Pause sync job
  * - POST /api/sync/:id/stop - Stop sync job
- * - POST /api/sync/validate - Validate schema compatibility
- * - POST /api/sync/generate-migration - Generate migration script
+ * 
+ * Each route declares the scope an API token needs to call it.
  */
 
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
@@ -20,11 +21,14 @@ import { markJobCancelled } from '../queue/worker.js';
 import {
   getConnectionById,
   getSyncJobById,
+  getSyncJobs,
   createSyncJob as createJobInDb,
   updateSyncJob,
   addSyncLog,
 } from '../services/supabase-client.js';
-// import { decrypt } from '../services/encryption.js'; // For future use
+import { decrypt } from '../services/encryption.js';
+import { createDrizzleClient, type DrizzleConnection } from '../services/drizzle-factory.js';
+import { previewSyncJob } from '../services/sync-preview.js';
 import type { TableConfig, SyncJobData } from '../types/index.js';
 
 // Request body types
@@ -38,35 +42,62 @@ interface CreateSyncJobBody {
   targetEncryptedUrl?: string;
 }
 
-interface ValidateSchemaBody {
-  sourceConnectionId: string;
-  targetConnectionId: string;
-  tables?: string[];
-  direction?: 'one_way' | 'two_way';
-  sourceEncryptedUrl?: string;
-  targetEncryptedUrl?: string;
-}
-
-interface GenerateMigrationBody {
-  sourceConnectionId: string;
-  targetConnectionId: string;
-  sourceEncryptedUrl?: string;
-  targetEncryptedUrl?: string;
-}
-
 // Route params
 interface SyncJobParams {
   id: string;
 }
 
+interface ListSyncJobsQuery {
+  limit?: string;
+  offset?: string;
+}
+
 export async function syncRoutes(fastify: FastifyInstance) {
   // Apply auth middleware to all routes
   fastify.addHook('preHandler', authMiddleware);
   
+  // GET /api/sync - List sync jobs
+  fastify.get<{ Querystring: ListSyncJobsQuery }>(
+    '/',
+    { config: { apiTokenScope: 'read' }, preHandler: createRateLimitMiddleware('read') },
+    async (request: FastifyRequest<{ Querystring: ListSyncJobsQuery }>, reply: FastifyReply) => {
+      const userId = request.userId!;
+      const limit = Math.min(Math.max(parseInt(request.query.limit || '50', 10) || 50, 1), 100);
+      const offset = Math.max(parseInt(request.query.offset || '0', 10) || 0, 0);
+      
+      try {
+        const jobs = await getSyncJobs(userId, limit, offset);
+        
+        return reply.send({
+          success: true,
+          data: jobs.map((job) => ({
+            id: job.id,
+            status: job.status,
+            sourceConnectionId: job.source_connection_id,
+            targetConnectionId: job.target_connection_id,
+            direction: job.direction,
+            tablesConfig: job.tables_config,
+            progress: job.progress,
+            startedAt: job.started_at,
+            completedAt: job.completed_at,
+            createdAt: job.created_at,
+          })),
+          pagination: { limit, offset },
+        });
+      } catch (error) {
+        logger.error({ error, userId }, 'Failed to list sync jobs');
+        return reply.status(500).send({
+          success: false,
+          error: 'Failed to list sync jobs',
+        });
+      }
+    }
+  );
+  
   // POST /api/sync - Create sync job
   fastify.post<{ Body: CreateSyncJobBody }>(
     '/',
-    { preHandler: createRateLimitMiddleware('sync') },
+    { config: { apiTokenScope: 'sync' }, preHandler: createRateLimitMiddleware('sync') },
     async (request: FastifyRequest<{ Body: CreateSyncJobBody }>, reply: FastifyReply) => {
       const { sourceConnectionId, targetConnectionId, direction, tables, dryRun, sourceEncryptedUrl, targetEncryptedUrl } = request.body;
       const userId = request.userId!;
@@ -113,10 +144,39 @@ export async function syncRoutes(fastify: FastifyInstance) {
             });
           }
           
+          // The frontend checks this for session requests, which pass the URLs
+          if (targetConn.environment === 'production' && request.headers['x-confirm-production'] !== 'true') {
+            return reply.status(400).send({
+              success: false,
+              error: 'Syncing to production requires confirmation',
+              requiresConfirmation: true,
+              message: 'You are about to sync data TO a production database. This is a potentially destructive operation. Set X-Confirm-Production header to "true" to proceed.',
+            });
+          }
+          
           sourceEncUrl = sourceConn.encrypted_url;
           targetEncUrl = targetConn.encrypted_url;
         }
         
+        // A dry run previews the changes instead of creating a job
+        if (dryRun) {
+          let sourceDb: DrizzleConnection | null = null;
+          let targetDb: DrizzleConnection | null = null;
+          
+          try {
+            sourceDb = createDrizzleClient(decrypt(sourceEncUrl));
+            targetDb = createDrizzleClient(decrypt(targetEncUrl));
+            
+            return reply.send({
+              success: true,
+              data: await previewSyncJob(sourceDb, targetDb, direction, tables),
+            });
+          } finally {
+            if (sourceDb) await sourceDb.close();
+            if (targetDb) await targetDb.close();
+          }
+        }
+        
         // Create job in database
         const job = await createJobInDb(userId, {
           source_connection_id: sourceConnectionId,
@@ -125,24 +185,19 @@ export async function syncRoutes(fastify: FastifyInstance) {
           tables_config: tables,
         });
         
-        // Add to queue if not dry run
-        if (!dryRun) {
-          const jobData: SyncJobData = {
-            jobId: job.id,
-            userId,
-            sourceConnectionId,
-            targetConnectionId,
-            tablesConfig: tables,
-            direction,
-            sourceUrl: sourceEncUrl,
-            targetUrl: targetEncUrl,
-          };
-          
-          await addSyncJob(jobData);
-          await addSyncLog(job.id, 'info', 'Sync job created and queued');
-        } else {
-          await addSyncLog(job.id, 'info', 'Sync job created (dry run mode)');
-        }
+        const jobData: SyncJobData = {
+          jobId: job.id,
+          userId,
+          sourceConnectionId,
+          targetConnectionId,
+          tablesConfig: tables,
+          direction,
+          sourceUrl: sourceEncUrl,
+          targetUrl: targetEncUrl,
+        };
+        
+        await addSyncJob(jobData);
+        await addSyncLog(job.id, 'info', 'Sync job created and queued');
         
         return reply.status(201).send({
           success: true,
@@ -153,7 +208,6 @@ export async function syncRoutes(fastify: FastifyInstance) {
             targetConnectionId,
             direction,
             tables,
-            dryRun: dryRun || false,
             createdAt: job.created_at,
           },
         });
@@ -170,7 +224,7 @@ export async function syncRoutes(fastify: FastifyInstance) {
   // GET /api/sync/:id - Get sync job status
   fastify.get<{ Params: SyncJobParams }>(
     '/:id',
-    { preHandler: createRateLimitMiddleware('read') },
+    { config: { apiTokenScope: 'read' }, preHandler: createRateLimitMiddleware('read') },
     async (request: FastifyRequest<{ Params: SyncJobParams }>, reply: FastifyReply) => {
       const { id } = request.params;
       const userId = request.userId!;
@@ -224,7 +278,7 @@ export async function syncRoutes(fastify: FastifyInstance) {
   // POST /api/sync/:id/start - Start sync job
   fastify.post<{ Params: SyncJobParams; Body: { sourceEncryptedUrl?: string; targetEncryptedUrl?: string } }>(
     '/:id/start',
-    { preHandler: createRateLimitMiddleware('sync') },
+    { config: { apiTokenScope: 'sync' }, preHandler: createRateLimitMiddleware('sync') },
     async (request: FastifyRequest<{ Params: SyncJobParams; Body: { sourceEncryptedUrl?: string; targetEncryptedUrl?: string } }>, reply: FastifyReply) => {
       const { id } = request.params;
       const { sourceEncryptedUrl, targetEncryptedUrl } = request.body;
@@ -315,7 +369,7 @@ export async function syncRoutes(fastify: FastifyInstance) {
   // GET /api/sync/:id/stream - SSE stream for sync progress
   fastify.get<{ Params: SyncJobParams }>(
     '/:id/stream',
-    { preHandler: createRateLimitMiddleware('sync') },
+    { config: { apiTokenScope: 'read' }, preHandler: createRateLimitMiddleware('sync') },
     async (request: FastifyRequest<{ Params: SyncJobParams }>, reply: FastifyReply) => {
       const { id } = request.params;
       const userId = request.userId!;
@@ -396,7 +450,7 @@ export async function syncRoutes(fastify: FastifyInstance) {
   // POST /api/sync/:id/pause - Pause sync job
   fastify.post<{ Params: SyncJobParams }>(
     '/:id/pause',
-    { preHandler: createRateLimitMiddleware('sync') },
+    { config: { apiTokenScope: 'sync' }, preHandler: createRateLimitMiddleware('sync') },
     async (request: FastifyRequest<{ Params: SyncJobParams }>, reply: FastifyReply) => {
       const { id } = request.params;
       const userId = request.userId!;
@@ -453,7 +507,7 @@ export async function syncRoutes(fastify: FastifyInstance) {
   // POST /api/sync/:id/stop - Stop sync job
   fastify.post<{ Params: SyncJobParams }>(
     '/:id/stop',
-    { preHandler: createRateLimitMiddleware('sync') },
+    { config: { apiTokenScope: 'sync' }, preHandler: createRateLimitMiddleware('sync') },
     async (request: FastifyRequest<{ Params: SyncJobParams }>, reply: FastifyReply) => {
       const { id } = request.params;
       const userId = request.userId!;
@@ -510,160 +564,6 @@ export async function syncRoutes(fastify: FastifyInstance) {
       }
     }
   );
-  
-  // POST /api/sync/validate - Validate schema compatibility
-  fastify.post<{ Body: ValidateSchemaBody }>(
-    '/validate',
-    { preHandler: createRateLimitMiddleware('schema') },
-    async (request: FastifyRequest<{ Body: ValidateSchemaBody }>, reply: FastifyReply) => {
-      const { sourceConnectionId, targetConnectionId, tables, sourceEncryptedUrl, targetEncryptedUrl } = request.body;
-      const userId = request.userId!;
-      
-      logger.info({
-        userId,
-        sourceConnectionId,
-        targetConnectionId,
-        tableCount: tables?.length,
-      }, 'Validating schema compatibility');
-      
-      // Validate required fields
-      if (!sourceConnectionId || !targetConnectionId) {
-        return reply.status(400).send({
-          success: false,
-          error: 'Source and target connection IDs are required',
-        });
-      }
-      
-      try {
-        // Get encrypted URLs if not provided
-        let sourceEncUrl = sourceEncryptedUrl;
-        let targetEncUrl = targetEncryptedUrl;
-        
-        if (!sourceEncUrl || !targetEncUrl) {
-          const [sourceConn, targetConn] = await Promise.all([
-            getConnectionById(sourceConnectionId, userId),
-            getConnectionById(targetConnectionId, userId),
-          ]);
-          
-          if (!sourceConn || !targetConn) {
-            return reply.status(404).send({
-              success: false,
-              error: 'Connection not found',
-            });
-          }
-          
-          sourceEncUrl = sourceConn.encrypted_url;
-          targetEncUrl = targetConn.encrypted_url;
-        }
-        
-        // Decrypt URLs (for future schema validation implementation)
-        // const sourceUrl = decrypt(sourceEncUrl);
-        // const targetUrl = decrypt(targetEncUrl);
-        
-        // TODO: Implement actual schema validation using schema-validator service
-        // For now, return a placeholder response
-        // This should call the schema validation service from lib/services
-        
-        return reply.send({
-          success: true,
-          data: {
-            isValid: true,
-            canProceed: true,
-            requiresConfirmation: false,
-            issues: [],
-            summary: {
-              critical: 0,
-              high: 0,
-              medium: 0,
-              low: 0,
-              info: 0,
-            },
-          },
-        });
-      } catch (error) {
-        logger.error({ error, userId }, 'Failed to validate schema');
-        return reply.status(500).send({
-          success: false,
-          error: error instanceof Error ? error.message : 'Schema validation failed',
-        });
-      }
-    }
-  );
-  
-  // POST /api/sync/generate-migration - Generate migration script
-  fastify.post<{ Body: GenerateMigrationBody }>(
-    '/generate-migration',
-    { preHandler: createRateLimitMiddleware('schema') },
-    async (request: FastifyRequest<{ Body: GenerateMigrationBody }>, reply: FastifyReply) => {
-      const { sourceConnectionId, targetConnectionId, sourceEncryptedUrl, targetEncryptedUrl } = request.body;
-      const userId = request.userId!;
-      
-      logger.info({
-        userId,
-        sourceConnectionId,
-        targetConnectionId,
-      }, 'Generating migration script');
-      
-      // Validate required fields
-      if (!sourceConnectionId || !targetConnectionId) {
-        return reply.status(400).send({
-          success: false,
-          error: 'Source and target connection IDs are required',
-        });
-      }
-      
-      try {
-        // Get encrypted URLs if not provided
-        let sourceEncUrl = sourceEncryptedUrl;
-        let targetEncUrl = targetEncryptedUrl;
-        
-        if (!sourceEncUrl || !targetEncUrl) {
-          const [sourceConn, targetConn] = await Promise.all([
-            getConnectionById(sourceConnectionId, userId),
-            getConnectionById(targetConnectionId, userId),
-          ]);
-          
-          if (!sourceConn || !targetConn) {
-            return reply.status(404).send({
-              success: false,
-              error: 'Connection not found',
-            });
-          }
-          
-          sourceEncUrl = sourceConn.encrypted_url;
-          targetEncUrl = targetConn.encrypted_url;
-        }
-        
-        // Decrypt URLs (for future migration generation implementation)
-        // const sourceUrl = decrypt(sourceEncUrl);
-        // const targetUrl = decrypt(targetEncUrl);
-        
-        // TODO: Implement actual migration generation using schema-migration-generator service
-        // For now, return a placeholder response
-        // This should call the migration generator service from lib/services
-        
-        return reply.send({
-          success: true,
-          data: {
-            scripts: [],
-            safeScripts: [],
-            breakingScripts: [],
-            manualReviewRequired: [],
-            combinedSQL: '-- No changes required',
-            rollbackSQL: '-- No rollback needed',
-            estimatedDuration: '< 1 minute',
-            riskLevel: 'low',
-          },
-        });
-      } catch (error) {
-        logger.error({ error, userId }, 'Failed to generate migration');
-        return reply.status(500).send({
-          success: false,
-          error: error instanceof Error ? error.message : 'Migration generation failed',
-        });
-      }
-    }
-  );
 }
 
 export default syncRoutes;
@@ -7,6 +7,13 @@
 import { drizzle } from 'drizzle-orm/postgres-js';
 import postgres, { Sql } from 'postgres';
 import { logger } from '../utils/logger.js';
+import {
+  DEFAULT_SCHEMA,
+  escapeQualifiedName,
+  parseQualifiedTableName,
+  qualifyTableName,
+} from '../utils/identifiers.js';
+import { getTransactionRestriction, splitSqlStatements } from '../utils/sql-statements.js';
 
 // ============================================================================
 // SAFE TYPE COERCION HELPERS
@@ -62,6 +69,10 @@ const QUERY_TIMEOUT = 60000; // 60 seconds
 // Maximum result size (estimated)
 const MAX_RESULT_ROWS = 10000;
 
+// How long a dry-run statement may wait for a lock before failing, so a dry
+// run doesn't queue behind (and then block) live traffic
+const DRY_RUN_LOCK_TIMEOUT = 5000; // 5 seconds
+
 /**
  * Mask sensitive parts of database URL for logging
  */
@@ -82,15 +93,20 @@ export function maskDatabaseUrlForLogs(url: string): string {
  * This is used for connecting to user's source and target databases
  * 
  * Important: Call close() when done to release the connection
+ * 
+ * @param options.onNotice - Receives NOTICE/WARNING messages (suppressed by default)
  */
-export function createDrizzleClient(databaseUrl: string): DrizzleConnection {
+export function createDrizzleClient(
+  databaseUrl: string,
+  options: { onNotice?: (notice: postgres.Notice) => void } = {}
+): DrizzleConnection {
   // Determine if SSL should be required (skip for localhost)
   const isLocalhost = databaseUrl.includes('localhost') || databaseUrl.includes('127.0.0.1');
   
   const client = postgres(databaseUrl, {
     ...CONNECTION_CONFIG,
     ssl: isLocalhost ? false : CONNECTION_CONFIG.ssl,
-    onnotice: () => {}, // Suppress notice messages
+    onnotice: options.onNotice ?? (() => {}), // Suppress notice messages unless asked for
     debug: false,
   });
   
@@ -125,8 +141,13 @@ export async function executeWithTimeout<T>(
 /**
  * Test database connection by running a simple query
  * Returns true if connection successful, throws error otherwise
+ * 
+ * @param schemas - Schemas whose tables are counted
  */
-export async function testConnection(databaseUrl: string): Promise<{ success: true; version: string; tableCount: number } | { success: false; error: string }> {
+export async function testConnection(
+  databaseUrl: string,
+  schemas: string[] = [DEFAULT_SCHEMA]
+): Promise<{ success: true; version: string; tableCount: number } | { success: false; error: string }> {
   let connection: DrizzleConnection | null = null;
   
   try {
@@ -144,7 +165,7 @@ export async function testConnection(databaseUrl: string): Promise<{ success: tr
     const tableResult = await executeWithTimeout(
       connection,
       async () => connection!.client`
-        SELECT COUNT(*) as count FROM pg_tables WHERE schemaname = 'public'
+        SELECT COUNT(*) as count FROM pg_tables WHERE schemaname = ANY(${connection!.client.array(schemas)})
       `,
       10000
     );
@@ -165,8 +186,13 @@ export async function testConnection(databaseUrl: string): Promise<{ success: tr
 /**
  * Get list of tables from a database that are eligible for syncing
  * Tables must have 'id' (UUID) and 'updated_at' (timestamp) columns
+ * 
+ * Tables outside `public` are returned as `schema.table`
  */
-export async function getSyncableTables(databaseUrl: string): Promise<string[]> {
+export async function getSyncableTables(
+  databaseUrl: string,
+  schemas: string[] = [DEFAULT_SCHEMA]
+): Promise<string[]> {
   let connection: DrizzleConnection | null = null;
   
   try {
@@ -176,7 +202,7 @@ export async function getSyncableTables(databaseUrl: string): Promise<string[]>
     const result = await executeWithTimeout(
       connection,
       async () => connection!.client`
-        SELECT DISTINCT t.table_name
+        SELECT DISTINCT t.table_schema, t.table_name
         FROM information_schema.tables t
         INNER JOIN information_schema.columns c1 
           ON t.table_name = c1.table_name 
@@ -186,16 +212,16 @@ export async function getSyncableTables(databaseUrl: string): Promise<string[]>
           ON t.table_name = c2.table_name 
           AND t.table_schema = c2.table_schema
           AND c2.column_name = 'updated_at'
-        WHERE t.table_schema = 'public'
+        WHERE t.table_schema = ANY(${connection!.client.array(schemas)})
           AND t.table_type = 'BASE TABLE'
           AND t.table_name NOT LIKE 'pg_%'
           AND t.table_name NOT LIKE '_prisma_%'
           AND t.table_name NOT LIKE 'drizzle_%'
-        ORDER BY t.table_name
+        ORDER BY t.table_schema, t.table_name
       `
     );
     
-    return result.map((row) => row.table_name as string);
+    return result.map((row) => qualifyTableName(row.table_schema as string, row.table_name as string));
   } finally {
     if (connection) {
       await connection.close();
@@ -203,41 +229,23 @@ export async function getSyncableTables(databaseUrl: string): Promise<string[]>
   }
 }
 
-/**
- * Get table schema information
- */
-export async function getTableSchema(databaseUrl: string, tableName: string): Promise<{
+/** Column metadata returned by getTableSchema */
+export interface TableColumnInfo {
   columnName: string;
   dataType: string;
   isNullable: boolean;
   columnDefault: string | null;
-}[]> {
+}
+
+/**
+ * Get table schema information
+ */
+export async function getTableSchema(databaseUrl: string, tableName: string): Promise<TableColumnInfo[]> {
   let connection: DrizzleConnection | null = null;
   
   try {
     connection = createDrizzleClient(databaseUrl);
-    
-    const result = await executeWithTimeout(
-      connection,
-      async () => connection!.client`
-        SELECT 
-          column_name,
-          data_type,
-          is_nullable = 'YES' as is_nullable,
-          column_default
-        FROM information_schema.columns
-        WHERE table_schema = 'public'
-          AND table_name = ${tableName}
-        ORDER BY ordinal_position
-      `
-    );
-    
-    return result.map((row) => ({
-      columnName: safeString(row.column_name),
-      dataType: safeString(row.data_type),
-      isNullable: safeBoolean(row.is_nullable),
-      columnDefault: row.column_default != null ? safeString(row.column_default) : null,
-    })).filter(col => col.columnName); // Filter out invalid entries
+    return await getTableColumns(connection, tableName);
   } finally {
     if (connection) {
       await connection.close();
@@ -245,6 +253,60 @@ export async function getTableSchema(databaseUrl: string, tableName: string): Pr
   }
 }
 
+/**
+ * Get table schema information over an open connection
+ */
+export async function getTableColumns(connection: DrizzleConnection, tableName: string): Promise<TableColumnInfo[]> {
+  const { schema, table } = parseQualifiedTableName(tableName);
+  
+  const result = await executeWithTimeout(
+    connection,
+    async () => connection.client`
+      SELECT 
+        column_name,
+        data_type,
+        is_nullable = 'YES' as is_nullable,
+        column_default
+      FROM information_schema.columns
+      WHERE table_schema = ${schema}
+        AND table_name = ${table}
+      ORDER BY ordinal_position
+    `
+  );
+  
+  return result.map((row) => ({
+    columnName: safeString(row.column_name),
+    dataType: safeString(row.data_type),
+    isNullable: safeBoolean(row.is_nullable),
+    columnDefault: row.column_default != null ? safeString(row.column_default) : null,
+  })).filter(col => col.columnName); // Filter out invalid entries
+}
+
+/**
+ * Get a table's declared primary key columns in key order
+ * (empty for tables without a primary key)
+ */
+export async function getPrimaryKeyColumns(connection: DrizzleConnection, tableName: string): Promise<string[]> {
+  const { schema, table } = parseQualifiedTableName(tableName);
+
+  const result = await executeWithTimeout(
+    connection,
+    async () => connection.client`
+      SELECT kcu.column_name
+      FROM information_schema.table_constraints tc
+      JOIN information_schema.key_column_usage kcu
+        ON tc.constraint_name = kcu.constraint_name
+        AND tc.table_schema = kcu.table_schema
+      WHERE tc.constraint_type = 'PRIMARY KEY'
+        AND tc.table_schema = ${schema}
+        AND tc.table_name = ${table}
+      ORDER BY kcu.ordinal_position
+    `
+  );
+
+  return result.map((row) => safeString(row.column_name)).filter(Boolean);
+}
+
 /**
  * Get row count for a table with safety limits
  */
@@ -253,22 +315,25 @@ export async function getTableRowCount(databaseUrl: string, tableName: string):
   
   try {
     connection = createDrizzleClient(databaseUrl);
+    const safeTableName = escapeQualifiedName(tableName);
+    const { schema, table } = parseQualifiedTableName(tableName);
     
     // Use estimated count for large tables (faster)
     const result = await executeWithTimeout(
       connection,
-      async () => connection!.client`
-        SELECT 
+      async () => connection!.client.unsafe(
+        `SELECT 
           CASE 
             WHEN c.reltuples < 0 THEN 0
             WHEN c.reltuples > 1000000 THEN c.reltuples::bigint
-            ELSE (SELECT COUNT(*) FROM "${tableName}")
+            ELSE (SELECT COUNT(*) FROM ${safeTableName})
           END as count
         FROM pg_class c
         JOIN pg_namespace n ON n.oid = c.relnamespace
-        WHERE c.relname = ${tableName}
-          AND n.nspname = 'public'
-      `,
+        WHERE c.relname = $1
+          AND n.nspname = $2`,
+        [table, schema]
+      ),
       30000 // 30 second timeout for count
     );
     
@@ -283,8 +348,201 @@ export async function getTableRowCount(databaseUrl: string, tableName: string):
   }
 }
 
+/**
+ * Cheap row count from planner statistics: pg_class.reltuples for a whole
+ * table, or the EXPLAIN row estimate when a WHERE clause applies (or the
+ * table has never been analyzed). Returns null when no estimate is available.
+ */
+export async function estimateRowCount(
+  connection: DrizzleConnection,
+  tableName: string,
+  where: { sql: string; params: (string | number | boolean)[] } = { sql: '', params: [] }
+): Promise<number | null> {
+  if (!where.sql) {
+    const { schema, table } = parseQualifiedTableName(tableName);
+    const result = await connection.client.unsafe(
+      `SELECT c.reltuples::bigint AS estimate
+      FROM pg_class c
+      JOIN pg_namespace n ON n.oid = c.relnamespace
+      WHERE c.relname = $1
+        AND n.nspname = $2`,
+      [table, schema]
+    );
+    // -1 until the table is first vacuumed or analyzed
+    const estimate = safeInt(result[0]?.estimate, -1);
+    if (estimate >= 0) return estimate;
+  }
+  
+  const result = await connection.client.unsafe(
+    `EXPLAIN (FORMAT JSON) SELECT 1 FROM ${escapeQualifiedName(tableName)} ${where.sql}`,
+    where.params
+  );
+  const output = result[0]?.['QUERY PLAN'];
+  const plan = typeof output === 'string' ? JSON.parse(output) : output;
+  const rows = plan?.[0]?.Plan?.['Plan Rows'];
+  return typeof rows === 'number' ? Math.round(rows) : null;
+}
+
+/**
+ * Exact row count, given up after `timeoutMs` via statement_timeout so the
+ * server stops counting too. Returns null when the count timed out.
+ */
+export async function countRowsWithTimeout(
+  connection: DrizzleConnection,
+  tableName: string,
+  where: { sql: string; params: (string | number | boolean)[] },
+  timeoutMs: number
+): Promise<number | null> {
+  try {
+    return await connection.client.begin(async (tx) => {
+      await tx.unsafe(`SET LOCAL statement_timeout = ${Math.floor(timeoutMs)}`);
+      const result = await tx.unsafe(
+        `SELECT COUNT(*) as count FROM ${escapeQualifiedName(tableName)} ${where.sql}`,
+        where.params
+      );
+      return safeInt(result[0]?.count, 0);
+    });
+  } catch (error) {
+    // query_canceled, raised when statement_timeout expires
+    if ((error as { code?: string }).code === '57014') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+export interface DryRunStatementResult {
+  index: number;
+  sql: string;
+  status: 'success' | 'error' | 'skipped';
+  /** Command tag reported by Postgres, e.g. INSERT or ALTER TABLE */
+  command?: string;
+  /** Rows inserted/updated/deleted, or returned for SELECT */
+  rowCount?: number;
+  durationMs: number;
+  notices: string[];
+  error?: string;
+  /** Why a statement was skipped */
+  reason?: string;
+}
+
+export interface DryRunResult {
+  statements: DryRunStatementResult[];
+  totalStatements: number;
+  successfulStatements: number;
+  failedStatements: number;
+  skippedStatements: number;
+  /** Whether every statement that ran succeeded */
+  wouldSucceed: boolean;
+  durationMs: number;
+}
+
+class DryRunRollback extends Error {
+  constructor() {
+    super('Dry run rollback');
+    this.name = 'DryRunRollback';
+  }
+}
+
+const SKIP_REASONS = {
+  transaction_control: 'Transaction control is handled by the dry run',
+  no_transaction: 'Cannot run inside a transaction, so it was not checked',
+} as const;
+
+/**
+ * Run a script inside a transaction, one statement at a time, recording each
+ * statement's row count, notices, errors and timing - then roll everything
+ * back. Like a real run, the first failing statement stops the script; the
+ * statements after it are reported as skipped.
+ * 
+ * Locks taken by the script are held until the rollback, and sequence values
+ * consumed are not returned.
+ */
+export async function dryRunSQL(databaseUrl: string, sql: string): Promise<DryRunResult> {
+  const startedAt = Date.now();
+  const statements = splitSqlStatements(sql);
+  const results: DryRunStatementResult[] = statements.map((statement, index) => ({
+    index,
+    sql: statement.sql,
+    status: 'skipped',
+    durationMs: 0,
+    notices: [],
+  }));
+  let current: DryRunStatementResult | null = null;
+  
+  const connection = createDrizzleClient(databaseUrl, {
+    onNotice: (notice) => {
+      current?.notices.push(notice.severity ? `${notice.severity}: ${notice.message}` : notice.message);
+    },
+  });
+  
+  try {
+    await connection.client.begin(async (tx) => {
+      await tx.unsafe(`SET LOCAL statement_timeout = ${QUERY_TIMEOUT}`);
+      await tx.unsafe(`SET LOCAL lock_timeout = ${DRY_RUN_LOCK_TIMEOUT}`);
+      
+      for (const [index, statement] of statements.entries()) {
+        const result = results[index];
+        const restriction = getTransactionRestriction(statement);
+        
+        if (restriction) {
+          result.reason = SKIP_REASONS[restriction];
+          continue;
+        }
+        
+        current = result;
+        const statementStart = Date.now();
+        
+        try {
+          const rows = await tx.unsafe(statement.sql);
+          result.status = 'success';
+          result.command = rows.command;
+          result.rowCount = rows.count ?? rows.length;
+        } catch (error) {
+          result.status = 'error';
+          result.error = error instanceof Error ? error.message : 'Statement failed';
+        } finally {
+          result.durationMs = Date.now() - statementStart;
+          current = null;
+        }
+        
+        if (result.status === 'error') {
+          // The transaction is aborted - nothing after this would run
+          results.slice(index + 1).forEach((skipped) => {
+            skipped.reason = 'Not run - an earlier statement failed';
+          });
+          break;
+        }
+      }
+      
+      throw new DryRunRollback();
+    });
+  } catch (error) {
+    if (!(error instanceof DryRunRollback)) {
+      throw error;
+    }
+  } finally {
+    await connection.close();
+  }
+  
+  const count = (status: DryRunStatementResult['status']) =>
+    results.filter((result) => result.status === status).length;
+  
+  return {
+    statements: results,
+    totalStatements: results.length,
+    successfulStatements: count('success'),
+    failedStatements: count('error'),
+    skippedStatements: count('skipped'),
+    wouldSucceed: count('error') === 0,
+    durationMs: Date.now() - startedAt,
+  };
+}
+
 /**
  * Execute raw SQL with safety checks
+ * 
+ * With `dryRun`, the script runs through dryRunSQL() and is rolled back.
  */
 export async function executeSQL(
   databaseUrl: string, 
@@ -297,12 +555,22 @@ export async function executeSQL(
   success: boolean;
   rows?: unknown[];
   rowCount?: number;
+  dryRun?: DryRunResult;
   error?: string;
 }> {
   const { dryRun = false, maxRows = MAX_RESULT_ROWS } = options;
   let connection: DrizzleConnection | null = null;
   
   try {
+    // A dry run is always rolled back, so scripts with comments and several
+    // statements (like generated migrations) are allowed through
+    if (dryRun) {
+      return {
+        success: true,
+        dryRun: await dryRunSQL(databaseUrl, sql),
+      };
+    }
+    
     // Basic SQL injection prevention
     const dangerousPatterns = [
       /;\s*(drop|truncate|delete\s+from)\s+/i,
@@ -319,14 +587,6 @@ export async function executeSQL(
       }
     }
     
-    if (dryRun) {
-      return {
-        success: true,
-        rows: [],
-        rowCount: 0,
-      };
-    }
-    
     connection = createDrizzleClient(databaseUrl);
     
     // Add LIMIT if not present for SELECT queries
@@ -0,0 +1,230 @@
+/**
+ * Mirror Deletes
+ *
+ * Finds target rows whose primary key no longer exists in the source, for
+ * tables configured with `mirrorDeletes`, and deletes them in batches. The
+ * sync worker runs the deletes children before parents, after all upserts;
+ * dry-run previews only count them.
+ */
+
+import type { DrizzleConnection } from './drizzle-factory.js';
+import { escapeIdentifier, escapeQualifiedName, qualifyTableName } from '../utils/identifiers.js';
+import {
+  buildKeyColumnList,
+  buildKeyMatchCondition,
+  buildKeyOrderBy,
+  buildKeysetCondition,
+  getRowKey,
+} from '../utils/primary-key.js';
+import type { ConflictStrategy, TableConfig } from '../types/index.js';
+
+export interface DeletedKeysBatch {
+  // Keys of target rows missing from the source
+  keys: unknown[][];
+  // Last target key scanned, to continue from
+  lastKey: unknown[] | null;
+  hasMore: boolean;
+}
+
+export interface DeleteMissingRowsOptions {
+  sourceConn: DrizzleConnection;
+  targetConn: DrizzleConnection;
+  tableName: string;
+  primaryKey: string[];
+  batchSize?: number;
+  // Checked before each batch; stops the scan when true
+  isCancelled?: () => boolean;
+  onDeleted?: (count: number) => Promise<void> | void;
+}
+
+/**
+ * Whether source-missing rows may be deleted from the target. In two-way
+ * mode a row missing from the source may be a new target row rather than a
+ * source delete, so only delete when the source wins.
+ */
+export function shouldMirrorDeletes(
+  direction: 'one_way' | 'two_way',
+  strategy: ConflictStrategy = 'last_write_wins'
+): boolean {
+  return direction === 'one_way' || strategy === 'source_wins';
+}
+
+/**
+ * Names of the enabled tables whose deletes will be mirrored to the target
+ */
+export function getMirrorDeleteTables(tables: TableConfig[], direction: 'one_way' | 'two_way'): string[] {
+  return tables
+    .filter((t) => t.enabled && t.mirrorDeletes && shouldMirrorDeletes(direction, t.conflictStrategy))
+    .map((t) => t.tableName);
+}
+
+/**
+ * Order tables for deleting: a table referencing another by foreign key
+ * comes before it. Tables in a reference cycle keep their given order, after
+ * the rest.
+ */
+export async function getDeleteOrder(conn: DrizzleConnection, tableNames: string[]): Promise<string[]> {
+  if (tableNames.length < 2) return [...tableNames];
+
+  const fkRows = await conn.client`
+    SELECT DISTINCT
+      child_ns.nspname AS child_schema,
+      child.relname AS child_table,
+      parent_ns.nspname AS parent_schema,
+      parent.relname AS parent_table
+    FROM pg_constraint c
+    JOIN pg_class child ON child.oid = c.conrelid
+    JOIN pg_namespace child_ns ON child_ns.oid = child.relnamespace
+    JOIN pg_class parent ON parent.oid = c.confrelid
+    JOIN pg_namespace parent_ns ON parent_ns.oid = parent.relnamespace
+    WHERE c.contype = 'f'
+  `;
+
+  // Edges from child to parent: a child is deleted from before its parents
+  const parents = new Map<string, Set<string>>(tableNames.map((t) => [t, new Set()]));
+  const remainingChildren = new Map<string, number>(tableNames.map((t) => [t, 0]));
+
+  for (const row of fkRows) {
+    const child = qualifyTableName(String(row.child_schema), String(row.child_table));
+    const parent = qualifyTableName(String(row.parent_schema), String(row.parent_table));
+    if (child === parent || !parents.has(child) || !parents.has(parent)) continue;
+
+    const childParents = parents.get(child)!;
+    if (!childParents.has(parent)) {
+      childParents.add(parent);
+      remainingChildren.set(parent, remainingChildren.get(parent)! + 1);
+    }
+  }
+
+  // Kahn's algorithm, starting from tables nothing references
+  const order: string[] = [];
+  const queue = tableNames.filter((t) => remainingChildren.get(t) === 0);
+
+  while (queue.length > 0) {
+    const table = queue.shift()!;
+    order.push(table);
+
+    for (const parent of parents.get(table)!) {
+      const count = remainingChildren.get(parent)! - 1;
+      remainingChildren.set(parent, count);
+      if (count === 0) {
+        queue.push(parent);
+      }
+    }
+  }
+
+  return [...order, ...tableNames.filter((t) => !order.includes(t))];
+}
+
+/**
+ * Scan one batch of target keys, in key order after `afterKey`, and return
+ * those missing from the source. Rows with a NULL key column are skipped.
+ */
+export async function findDeletedKeys(
+  sourceConn: DrizzleConnection,
+  targetConn: DrizzleConnection,
+  tableName: string,
+  primaryKey: string[],
+  afterKey: unknown[] | null,
+  batchSize: number = 1000
+): Promise<DeletedKeysBatch> {
+  const safeTableName = escapeQualifiedName(tableName);
+  const keyColumnList = buildKeyColumnList(primaryKey);
+
+  const conditions = primaryKey.map((c) => `${escapeIdentifier(c)} IS NOT NULL`);
+  const params: unknown[] = [];
+  if (afterKey) {
+    conditions.push(buildKeysetCondition(primaryKey, 1));
+    params.push(...afterKey);
+  }
+
+  const targetRows = await targetConn.client.unsafe(
+    `SELECT ${keyColumnList} FROM ${safeTableName} WHERE ${conditions.join(' AND ')} ` +
+    `ORDER BY ${buildKeyOrderBy(primaryKey)} LIMIT ${batchSize + 1}`,
+    params as (string | number | boolean)[]
+  );
+
+  const hasMore = targetRows.length > batchSize;
+  const targetKeys = (hasMore ? targetRows.slice(0, batchSize) : targetRows)
+    .map((row) => getRowKey(row, primaryKey)!);
+
+  if (targetKeys.length === 0) {
+    return { keys: [], lastKey: null, hasMore: false };
+  }
+
+  const sourceRows = await sourceConn.client.unsafe(
+    `SELECT ${keyColumnList} FROM ${safeTableName} WHERE ${buildKeyMatchCondition(primaryKey, targetKeys.length)}`,
+    targetKeys.flat() as (string | number | boolean)[]
+  );
+  const serialize = (key: unknown[]) => JSON.stringify(key.map(String));
+  const sourceKeys = new Set(sourceRows.map((row) => serialize(getRowKey(row, primaryKey) ?? [])));
+
+  return {
+    keys: targetKeys.filter((key) => !sourceKeys.has(serialize(key))),
+    lastKey: targetKeys[targetKeys.length - 1],
+    hasMore,
+  };
+}
+
+/**
+ * Count the target rows a mirror-deletes sync would remove
+ */
+export async function countDeletedRows(
+  sourceConn: DrizzleConnection,
+  targetConn: DrizzleConnection,
+  tableName: string,
+  primaryKey: string[]
+): Promise<number> {
+  let count = 0;
+  let lastKey: unknown[] | null = null;
+  let hasMore = true;
+
+  while (hasMore) {
+    const batch = await findDeletedKeys(sourceConn, targetConn, tableName, primaryKey, lastKey);
+    count += batch.keys.length;
+    lastKey = batch.lastKey;
+    hasMore = batch.hasMore;
+  }
+
+  return count;
+}
+
+/**
+ * Delete target rows missing from the source, one transaction per batch
+ */
+export async function deleteMissingRows(
+  options: DeleteMissingRowsOptions
+): Promise<{ deleted: number; cancelled: boolean }> {
+  const { sourceConn, targetConn, tableName, primaryKey, batchSize = 1000, isCancelled, onDeleted } = options;
+  const safeTableName = escapeQualifiedName(tableName);
+  let deleted = 0;
+  let lastKey: unknown[] | null = null;
+  let hasMore = true;
+
+  while (hasMore) {
+    if (isCancelled?.()) {
+      return { deleted, cancelled: true };
+    }
+
+    const batch = await findDeletedKeys(sourceConn, targetConn, tableName, primaryKey, lastKey, batchSize);
+    lastKey = batch.lastKey;
+    hasMore = batch.hasMore;
+
+    if (batch.keys.length === 0) {
+      continue;
+    }
+
+    const count = await targetConn.client.begin(async (tx) => {
+      const result = await tx.unsafe(
+        `DELETE FROM ${safeTableName} WHERE ${buildKeyMatchCondition(primaryKey, batch.keys.length)}`,
+        batch.keys.flat() as (string | number | boolean)[]
+      );
+      return result.count;
+    });
+
+    deleted += count;
+    await onDeleted?.(count);
+  }
+
+  return { deleted, cancelled: false };
+}
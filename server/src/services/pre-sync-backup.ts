@@ -0,0 +1,237 @@
+/**
+ * Pre-sync Backups
+ *
+ * Backs up a sync job's target tables before the worker writes to them, in
+ * the app's chunked backup format (manifest version 2, see
+ * lib/services/backup-service.ts), so the backup can be listed, verified and
+ * restored from the app. Files go to the Supabase Storage bucket the app
+ * reads backups from, since the app does not share the worker's disk.
+ */
+
+import { createHash, randomUUID } from 'crypto';
+import { promisify } from 'util';
+import { gzip } from 'zlib';
+import type { DrizzleConnection } from './drizzle-factory.js';
+import {
+  createSyncBackupRecord,
+  updateSyncBackupRecord,
+  uploadBackupFile,
+} from './supabase-client.js';
+import { escapeIdentifier, escapeQualifiedName, parseQualifiedTableName } from '../utils/identifiers.js';
+
+export interface PreSyncBackupOptions {
+  jobId: string;
+  userId: string;
+  targetConnectionId: string;
+  // Connection to the sync target, whose tables are backed up
+  conn: DrizzleConnection;
+  tables: string[];
+  onLog?: (message: string) => Promise<void> | void;
+  // Where files are written; the backup bucket unless given
+  writeFile?: (filePath: string, content: Buffer | string) => Promise<void>;
+}
+
+export interface PreSyncBackup {
+  id: string;
+  backupPath: string;
+  sizeBytes: number;
+  rowCount: number;
+  tableRowCounts: Record<string, number>;
+}
+
+interface ManifestChunk {
+  file: string;
+  rowCount: number;
+  sizeBytes: number;
+  sha256: string;
+}
+
+interface ManifestTable {
+  tableName: string;
+  columns: string[];
+  rowCount: number;
+  sha256: string;
+  rowsHash: string;
+  chunks: ManifestChunk[];
+}
+
+const BACKUP_MANIFEST_VERSION = 2;
+const BATCH_SIZE = 1000; // Rows per cursor batch and per INSERT statement
+const CHUNK_SIZE_BYTES = 8 * 1024 * 1024; // Uncompressed SQL per chunk file
+
+const gzipAsync = promisify(gzip);
+
+function sha256(content: string | Buffer): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Escape a value as a SQL literal, as the app's backups do
+ */
+function escapeSqlValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return 'NULL';
+  }
+  if (typeof value === 'number') {
+    return String(value);
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'TRUE' : 'FALSE';
+  }
+  if (value instanceof Date) {
+    return `'${value.toISOString()}'`;
+  }
+  if (typeof value === 'object') {
+    return `'${JSON.stringify(value).replace(/'/g, "''")}'::jsonb`;
+  }
+  return `'${String(value).replace(/'/g, "''")}'`;
+}
+
+/**
+ * Add rows to the order-independent hash the app verifies backups with: the
+ * sum, modulo 2^256, of the SHA-256 of each row's values in column order
+ */
+function hashRows(rows: Record<string, unknown>[], columns: string[], into: Buffer): void {
+  for (const row of rows) {
+    const digest = createHash('sha256').update(JSON.stringify(columns.map((col) => row[col] ?? null))).digest();
+    let carry = 0;
+    for (let i = 31; i >= 0; i--) {
+      const byte = into[i] + digest[i] + carry;
+      into[i] = byte & 0xff;
+      carry = byte >> 8;
+    }
+  }
+}
+
+/**
+ * Back up the tables into gzip-compressed chunk files plus a manifest,
+ * recorded in sync_backups. All tables are read in one REPEATABLE READ
+ * transaction, giving a consistent copy. The record is marked failed, and
+ * the error rethrown, if the backup does not complete.
+ */
+export async function createPreSyncBackup(options: PreSyncBackupOptions): Promise<PreSyncBackup> {
+  const { jobId, userId, targetConnectionId, conn, tables, onLog, writeFile = uploadBackupFile } = options;
+
+  const id = randomUUID();
+  const date = new Date().toISOString().split('T')[0];
+  const backupPath = `${userId}/${date}/${jobId}/${id}`;
+
+  await createSyncBackupRecord({
+    id,
+    sync_job_id: jobId,
+    user_id: userId,
+    target_connection_id: targetConnectionId,
+    tables,
+    backup_path: backupPath,
+  });
+
+  try {
+    const manifestTables: ManifestTable[] = [];
+    let bytesWritten = 0;
+
+    await conn.client.begin('ISOLATION LEVEL REPEATABLE READ READ ONLY', async (tx) => {
+      for (const [tableIndex, tableName] of tables.entries()) {
+        const { schema, table } = parseQualifiedTableName(tableName);
+        const columnRows = await tx.unsafe(
+          `SELECT column_name
+          FROM information_schema.columns
+          WHERE table_schema = $1
+            AND table_name = $2
+          ORDER BY ordinal_position`,
+          [schema, table]
+        );
+        const columns = columnRows.map((r) => String(r.column_name));
+        if (columns.length === 0) {
+          throw new Error(`Table not found: ${tableName}`);
+        }
+
+        const entry: ManifestTable = { tableName, columns, rowCount: 0, sha256: '', rowsHash: '', chunks: [] };
+        const tableHash = createHash('sha256');
+        const rowsHash = Buffer.alloc(32);
+        let pending: string[] = [];
+        let pendingBytes = 0;
+        let pendingRows = 0;
+
+        const flush = async () => {
+          if (pending.length === 0) return;
+
+          const content = `${pending.join('\n')}\n`;
+          const compressed = await gzipAsync(content);
+          const file = `${String(tableIndex).padStart(4, '0')}-${String(entry.chunks.length).padStart(6, '0')}.sql.gz`;
+
+          await writeFile(`${backupPath}/${file}`, compressed);
+          tableHash.update(content);
+          entry.chunks.push({ file, rowCount: pendingRows, sizeBytes: compressed.length, sha256: sha256(compressed) });
+          bytesWritten += compressed.length;
+
+          pending = [];
+          pendingBytes = 0;
+          pendingRows = 0;
+        };
+
+        const columnList = columns.map(escapeIdentifier).join(', ');
+        const cursor = tx
+          .unsafe(`SELECT ${columnList} FROM ${escapeQualifiedName(tableName)}`)
+          .cursor(BATCH_SIZE);
+
+        for await (const rows of cursor) {
+          hashRows(rows, columns, rowsHash);
+          const values = rows.map((row) => `(${columns.map((col) => escapeSqlValue(row[col])).join(', ')})`);
+          const statement = `INSERT INTO ${escapeQualifiedName(tableName)} (${columnList}) VALUES\n${values.join(',\n')};`;
+
+          pending.push(statement);
+          pendingBytes += statement.length;
+          pendingRows += rows.length;
+          entry.rowCount += rows.length;
+
+          if (pendingBytes >= CHUNK_SIZE_BYTES) {
+            await flush();
+          }
+        }
+
+        await flush();
+        entry.sha256 = tableHash.digest('hex');
+        entry.rowsHash = rowsHash.toString('hex');
+        manifestTables.push(entry);
+
+        await onLog?.(`Backed up ${entry.rowCount} rows from ${tableName}`);
+      }
+    });
+
+    // Written last: a backup without a manifest is incomplete
+    const manifest = JSON.stringify({
+      version: BACKUP_MANIFEST_VERSION,
+      backupId: id,
+      createdAt: new Date().toISOString(),
+      description: [`Sync Job ID: ${jobId}`],
+      compression: 'gzip',
+      tables: manifestTables,
+    }, null, 2);
+    await writeFile(`${backupPath}/manifest.json`, manifest);
+    bytesWritten += Buffer.byteLength(manifest);
+
+    const backup: PreSyncBackup = {
+      id,
+      backupPath,
+      sizeBytes: bytesWritten,
+      rowCount: manifestTables.reduce((sum, t) => sum + t.rowCount, 0),
+      tableRowCounts: Object.fromEntries(manifestTables.map((t) => [t.tableName, t.rowCount])),
+    };
+
+    await updateSyncBackupRecord(id, {
+      status: 'completed',
+      size_bytes: backup.sizeBytes,
+      row_count: backup.rowCount,
+      table_row_counts: backup.tableRowCounts,
+      completed_at: new Date().toISOString(),
+    });
+
+    return backup;
+  } catch (error) {
+    await updateSyncBackupRecord(id, {
+      status: 'failed',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw error;
+  }
+}
@@ -1,16 +1,35 @@
 /**
  * Scheduled Jobs Service
  * 
- * Handles periodic background tasks like keep-alive pings.
+ * Handles periodic background tasks like keep-alive pings and scheduled syncs.
  * Runs independently of the frontend to ensure reliability.
  */
 
+import { hostname } from 'os';
+import { randomUUID } from 'crypto';
 import { logger } from '../utils/logger.js';
-import { getKeepAliveConnections, updateConnectionLastPinged } from './supabase-client.js';
+import { calculateNextRun } from '../utils/cron.js';
+import { addSyncJob } from '../queue/client.js';
+import {
+  getKeepAliveConnections,
+  updateConnectionLastPinged,
+  claimDueScheduledSyncs,
+  getScheduledSyncConnections,
+  createScheduledSyncJob,
+  recordScheduledSyncRun,
+  addSyncLog,
+  type ScheduledSyncRow,
+} from './supabase-client.js';
 import { pingDatabase, shouldPing, logPingResult, type KeepAliveStats } from './keep-alive.js';
+import type { SyncJobData, TableConfig } from '../types/index.js';
 
 let keepAliveInterval: NodeJS.Timeout | null = null;
+let scheduledSyncInterval: NodeJS.Timeout | null = null;
 let isRunning = false;
+let isPollingSchedules = false;
+
+// Identifies this replica in scheduled_syncs.locked_by
+const WORKER_ID = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
 
 /**
  * Configuration for scheduled jobs
@@ -21,6 +40,12 @@ const SCHEDULED_JOBS_CONFIG = {
   
   // Initial delay before first run (5 minutes after server start)
   keepAliveInitialDelayMs: 5 * 60 * 1000,
+
+  // Poll for due scheduled syncs every minute (cron resolution)
+  scheduledSyncPollIntervalMs: 60 * 1000,
+
+  // Maximum schedules one replica claims per poll
+  scheduledSyncBatchSize: 10,
 };
 
 /**
@@ -133,6 +158,74 @@ async function runKeepAliveCycle(): Promise<void> {
   }
 }
 
+/**
+ * Start one claimed scheduled sync: create its sync job, queue it, and
+ * release the claim with the next run time
+ */
+async function runScheduledSync(schedule: ScheduledSyncRow): Promise<void> {
+  const nextRunAt = calculateNextRun(schedule.cron_expression, new Date(), schedule.timezone)?.toISOString() ?? null;
+
+  try {
+    const connections = await getScheduledSyncConnections(schedule);
+    if (!connections) {
+      throw new Error('Source or target connection not found');
+    }
+
+    const tablesConfig = (schedule.tables_config || []) as TableConfig[];
+    const job = await createScheduledSyncJob(schedule);
+
+    const jobData: SyncJobData = {
+      jobId: job.id,
+      userId: schedule.user_id,
+      sourceConnectionId: schedule.source_connection_id,
+      targetConnectionId: schedule.target_connection_id,
+      tablesConfig,
+      direction: schedule.direction,
+      sourceUrl: connections.sourceEncryptedUrl,
+      targetUrl: connections.targetEncryptedUrl,
+      scheduledSyncId: schedule.id,
+    };
+
+    await addSyncJob(jobData);
+    await addSyncLog(job.id, 'info', `Sync job queued by schedule "${schedule.name}"`);
+    await recordScheduledSyncRun(schedule.id, { status: 'running', jobId: job.id, nextRunAt });
+
+    logger.info({ scheduledSyncId: schedule.id, jobId: job.id, nextRunAt }, 'Scheduled sync started');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    logger.error({ error, scheduledSyncId: schedule.id }, 'Failed to start scheduled sync');
+    await recordScheduledSyncRun(schedule.id, { status: 'failed', error: message, nextRunAt });
+  }
+}
+
+/**
+ * Claim and start every due scheduled sync
+ */
+async function runScheduledSyncCycle(): Promise<void> {
+  if (isPollingSchedules) {
+    logger.debug('Scheduled sync poll already running, skipping');
+    return;
+  }
+
+  isPollingSchedules = true;
+
+  try {
+    const schedules = await claimDueScheduledSyncs(WORKER_ID, SCHEDULED_JOBS_CONFIG.scheduledSyncBatchSize);
+
+    if (schedules.length > 0) {
+      logger.info({ count: schedules.length, workerId: WORKER_ID }, 'Claimed due scheduled syncs');
+    }
+
+    for (const schedule of schedules) {
+      await runScheduledSync(schedule);
+    }
+  } catch (error) {
+    logger.error({ error }, 'Error in scheduled sync cycle');
+  } finally {
+    isPollingSchedules = false;
+  }
+}
+
 /**
  * Start scheduled jobs
  */
@@ -158,8 +251,16 @@ export function startScheduledJobs(): void {
     });
   }, SCHEDULED_JOBS_CONFIG.keepAliveIntervalMs);
   
+  // Poll for due scheduled syncs
+  scheduledSyncInterval = setInterval(() => {
+    runScheduledSyncCycle().catch((error) => {
+      logger.error({ error }, 'Error in scheduled sync poll');
+    });
+  }, SCHEDULED_JOBS_CONFIG.scheduledSyncPollIntervalMs);
+  
   logger.info({
     keepAliveInterval: `${SCHEDULED_JOBS_CONFIG.keepAliveIntervalMs / 1000 / 60} minutes`,
+    scheduledSyncPollInterval: `${SCHEDULED_JOBS_CONFIG.scheduledSyncPollIntervalMs / 1000} seconds`,
     initialDelay: `${SCHEDULED_JOBS_CONFIG.keepAliveInitialDelayMs / 1000 / 60} minutes`,
   }, 'Scheduled jobs started');
 }
@@ -173,6 +274,10 @@ export function stopScheduledJobs(): void {
     keepAliveInterval = null;
     logger.info('Scheduled jobs stopped');
   }
+  if (scheduledSyncInterval) {
+    clearInterval(scheduledSyncInterval);
+    scheduledSyncInterval = null;
+  }
 }
 
 /**
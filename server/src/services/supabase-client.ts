@@ -3,9 +3,11 @@
  * 
  * Provides Supabase client for backend to query sync jobs, connections, etc.
  * Uses service role key for admin operations (if available) or anon key for user-scoped queries.
+ * User-scoped helpers filter on user_id explicitly and use the service client,
+ * since requests authenticated by API token carry no Supabase session.
  */
 
-import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { createClient, SupabaseClient, User } from '@supabase/supabase-js';
 import { config } from '../config.js';
 import { logger } from '../utils/logger.js';
 
@@ -83,9 +85,10 @@ export async function getConnectionById(
   name: string;
   encrypted_url: string;
   environment: string;
+  schemas: string[] | null;
 } | null> {
   try {
-    const supabase = getSupabaseClient();
+    const supabase = getSupabaseServiceClient();
 
     const { data, error } = await supabase
       .from('connections')
@@ -109,6 +112,35 @@ export async function getConnectionById(
   }
 }
 
+/**
+ * List connections (user-scoped), without their encrypted URLs
+ */
+export async function getConnections(userId: string): Promise<{
+  id: string;
+  name: string;
+  environment: string;
+  schemas: string[] | null;
+  keep_alive: boolean;
+  last_pinged_at: string | null;
+  created_at: string;
+  updated_at: string;
+}[]> {
+  const supabase = getSupabaseServiceClient();
+
+  const { data, error } = await supabase
+    .from('connections')
+    .select('id, name, environment, schemas, keep_alive, last_pinged_at, created_at, updated_at')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    logger.error({ error, userId }, 'Error listing connections');
+    throw error;
+  }
+
+  return (data || []) as any;
+}
+
 /**
  * Get sync job by ID (user-scoped)
  */
@@ -130,7 +162,7 @@ export async function getSyncJobById(
   created_at: string;
 } | null> {
   try {
-    const supabase = getSupabaseClient();
+    const supabase = getSupabaseServiceClient();
 
     const { data, error } = await supabase
       .from('sync_jobs')
@@ -154,6 +186,42 @@ export async function getSyncJobById(
   }
 }
 
+/**
+ * List sync jobs (user-scoped), newest first
+ */
+export async function getSyncJobs(
+  userId: string,
+  limit: number = 50,
+  offset: number = 0
+): Promise<{
+  id: string;
+  source_connection_id: string;
+  target_connection_id: string;
+  direction: 'one_way' | 'two_way';
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'paused';
+  tables_config: unknown;
+  progress: unknown;
+  started_at: string | null;
+  completed_at: string | null;
+  created_at: string;
+}[]> {
+  const supabase = getSupabaseServiceClient();
+
+  const { data, error } = await supabase
+    .from('sync_jobs')
+    .select('id, source_connection_id, target_connection_id, direction, status, tables_config, progress, started_at, completed_at, created_at')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .range(offset, offset + limit - 1);
+
+  if (error) {
+    logger.error({ error, userId }, 'Error listing sync jobs');
+    throw error;
+  }
+
+  return (data || []) as any;
+}
+
 /**
  * Create sync job
  */
@@ -180,7 +248,7 @@ export async function createSyncJob(
   created_at: string;
 }> {
   try {
-    const supabase = getSupabaseClient();
+    const supabase = getSupabaseServiceClient();
 
     const { data: job, error } = await supabase
       .from('sync_jobs')
@@ -219,7 +287,7 @@ export async function updateSyncJob(
   }
 ): Promise<boolean> {
   try {
-    const supabase = getSupabaseClient();
+    const supabase = getSupabaseServiceClient();
 
     const { error } = await supabase
       .from('sync_jobs')
@@ -342,3 +410,382 @@ export async function updateConnectionLastPinged(connectionId: string): Promise<
   }
 }
 
+
+/**
+ * Scheduled sync row as returned by claim_due_scheduled_syncs()
+ */
+export interface ScheduledSyncRow {
+  id: string;
+  user_id: string;
+  name: string;
+  source_connection_id: string;
+  target_connection_id: string;
+  direction: 'one_way' | 'two_way';
+  tables_config: unknown;
+  cron_expression: string;
+  timezone: string;
+  enabled: boolean;
+  next_run_at: string | null;
+  last_run_at: string | null;
+  last_run_status: 'success' | 'failed' | 'running' | null;
+  last_run_job_id: string | null;
+}
+
+/**
+ * Claim due scheduled syncs for this backend replica.
+ *
+ * The claim runs in the database with FOR UPDATE SKIP LOCKED, so concurrent
+ * replicas never receive the same schedule. Claimed schedules stay locked
+ * until recordScheduledSyncRun() releases them.
+ */
+export async function claimDueScheduledSyncs(
+  workerId: string,
+  limit: number = 10
+): Promise<ScheduledSyncRow[]> {
+  try {
+    const supabase = getSupabaseServiceClient();
+
+    const { data, error } = await supabase.rpc('claim_due_scheduled_syncs', {
+      p_worker: workerId,
+      p_limit: limit,
+    });
+
+    if (error) {
+      logger.error({ error, workerId }, 'Error claiming scheduled syncs');
+      return [];
+    }
+
+    return (data || []) as ScheduledSyncRow[];
+  } catch (error) {
+    logger.error({ error, workerId }, 'Failed to claim scheduled syncs');
+    return [];
+  }
+}
+
+/**
+ * Get both connections of a scheduled sync (for service/cron use)
+ *
+ * Uses service role client to bypass RLS, but still checks that both
+ * connections belong to the schedule's owner.
+ */
+export async function getScheduledSyncConnections(
+  schedule: Pick<ScheduledSyncRow, 'user_id' | 'source_connection_id' | 'target_connection_id'>
+): Promise<{ sourceEncryptedUrl: string; targetEncryptedUrl: string } | null> {
+  try {
+    const supabase = getSupabaseServiceClient();
+
+    const { data, error } = await supabase
+      .from('connections')
+      .select('id, encrypted_url')
+      .eq('user_id', schedule.user_id)
+      .in('id', [schedule.source_connection_id, schedule.target_connection_id]);
+
+    if (error) {
+      logger.error({ error, userId: schedule.user_id }, 'Error fetching scheduled sync connections');
+      return null;
+    }
+
+    const rows = (data || []) as { id: string; encrypted_url: string }[];
+    const source = rows.find((row) => row.id === schedule.source_connection_id);
+    const target = rows.find((row) => row.id === schedule.target_connection_id);
+
+    if (!source || !target) return null;
+
+    return { sourceEncryptedUrl: source.encrypted_url, targetEncryptedUrl: target.encrypted_url };
+  } catch (error) {
+    logger.error({ error, userId: schedule.user_id }, 'Failed to get scheduled sync connections');
+    return null;
+  }
+}
+
+/**
+ * Create the sync job for a scheduled run (for service/cron use)
+ *
+ * Uses service role client to bypass RLS - scheduled runs have no user session.
+ */
+export async function createScheduledSyncJob(schedule: ScheduledSyncRow): Promise<{ id: string }> {
+  const supabase = getSupabaseServiceClient();
+
+  const { data, error } = await supabase
+    .from('sync_jobs')
+    .insert({
+      user_id: schedule.user_id,
+      source_connection_id: schedule.source_connection_id,
+      target_connection_id: schedule.target_connection_id,
+      direction: schedule.direction,
+      tables_config: schedule.tables_config,
+      status: 'pending',
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    logger.error({ error, scheduledSyncId: schedule.id }, 'Error creating scheduled sync job');
+    throw error;
+  }
+
+  return data as { id: string };
+}
+
+/**
+ * Record the outcome of starting a scheduled run and release its claim
+ */
+export async function recordScheduledSyncRun(
+  scheduledSyncId: string,
+  run: {
+    status: 'success' | 'failed' | 'running';
+    jobId?: string | null;
+    error?: string | null;
+    nextRunAt: string | null;
+  }
+): Promise<boolean> {
+  try {
+    const supabase = getSupabaseServiceClient();
+
+    const { error } = await supabase
+      .from('scheduled_syncs')
+      .update({
+        last_run_at: new Date().toISOString(),
+        last_run_status: run.status,
+        last_run_job_id: run.jobId ?? null,
+        last_error: run.error ?? null,
+        next_run_at: run.nextRunAt,
+        locked_at: null,
+        locked_by: null,
+      })
+      .eq('id', scheduledSyncId);
+
+    if (error) {
+      logger.error({ error, scheduledSyncId }, 'Error recording scheduled sync run');
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    logger.error({ error, scheduledSyncId }, 'Failed to record scheduled sync run');
+    return false;
+  }
+}
+
+/**
+ * Set the final status of a scheduled run once its sync job finishes.
+ * Only applies while the job is still the schedule's latest run.
+ */
+export async function updateScheduledSyncRunStatus(
+  scheduledSyncId: string,
+  jobId: string,
+  status: 'success' | 'failed',
+  errorMessage?: string
+): Promise<void> {
+  try {
+    const supabase = getSupabaseServiceClient();
+
+    const { error } = await supabase
+      .from('scheduled_syncs')
+      .update({ last_run_status: status, last_error: errorMessage ?? null })
+      .eq('id', scheduledSyncId)
+      .eq('last_run_job_id', jobId);
+
+    if (error) {
+      logger.error({ error, scheduledSyncId, jobId }, 'Error updating scheduled sync status');
+    }
+  } catch (error) {
+    logger.error({ error, scheduledSyncId, jobId }, 'Failed to update scheduled sync status');
+  }
+}
+
+/**
+ * Pre-sync backup record, as in sync_backups
+ */
+export interface SyncBackupRow {
+  id: string;
+  sync_job_id: string;
+  user_id: string;
+  target_connection_id: string;
+  tables: string[];
+  backup_path: string;
+  status: 'creating' | 'completed' | 'failed';
+}
+
+/**
+ * Bucket the app reads backups from (see lib/services/backup-storage.ts)
+ */
+const BACKUP_BUCKET = 'sync-backups';
+
+/**
+ * Record a pre-sync backup being created (for service use by the worker)
+ */
+export async function createSyncBackupRecord(backup: Omit<SyncBackupRow, 'status'>): Promise<void> {
+  const supabase = getSupabaseServiceClient();
+
+  const { error } = await supabase
+    .from('sync_backups')
+    .insert({
+      ...backup,
+      kind: 'pre_sync',
+      storage_adapter: 'supabase',
+      status: 'creating',
+    });
+
+  if (error) {
+    logger.error({ error, backupId: backup.id }, 'Error creating sync backup record');
+    throw error;
+  }
+}
+
+/**
+ * Record the outcome of a pre-sync backup
+ */
+export async function updateSyncBackupRecord(
+  backupId: string,
+  updates: {
+    status: 'completed' | 'failed';
+    size_bytes?: number;
+    row_count?: number;
+    table_row_counts?: Record<string, number>;
+    error?: string | null;
+    completed_at?: string;
+  }
+): Promise<boolean> {
+  try {
+    const supabase = getSupabaseServiceClient();
+
+    const { error } = await supabase
+      .from('sync_backups')
+      .update(updates)
+      .eq('id', backupId);
+
+    if (error) {
+      logger.error({ error, backupId }, 'Error updating sync backup record');
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    logger.error({ error, backupId }, 'Failed to update sync backup record');
+    return false;
+  }
+}
+
+/**
+ * Latest pre-sync backup taken for a sync job, e.g. when the job resumes
+ */
+export async function getSyncBackupForJob(jobId: string, userId: string): Promise<SyncBackupRow | null> {
+  const supabase = getSupabaseServiceClient();
+
+  const { data, error } = await supabase
+    .from('sync_backups')
+    .select('id, sync_job_id, user_id, target_connection_id, tables, backup_path, status')
+    .eq('sync_job_id', jobId)
+    .eq('user_id', userId)
+    .eq('kind', 'pre_sync')
+    .order('created_at', { ascending: false })
+    .limit(1);
+
+  if (error) {
+    logger.error({ error, jobId, userId }, 'Error fetching sync backup');
+    throw error;
+  }
+
+  return (data?.[0] ?? null) as SyncBackupRow | null;
+}
+
+/**
+ * Upload one backup file to the backup bucket
+ */
+export async function uploadBackupFile(filePath: string, content: Buffer | string): Promise<void> {
+  const supabase = getSupabaseServiceClient();
+
+  const { error } = await supabase.storage
+    .from(BACKUP_BUCKET)
+    .upload(filePath, content, { contentType: 'application/octet-stream', upsert: true });
+
+  if (error) {
+    throw new Error(`Failed to upload backup: ${error.message}`);
+  }
+}
+
+/**
+ * API token as returned by authenticate_api_token()
+ */
+export interface ApiTokenRow {
+  id: string;
+  user_id: string;
+  name: string;
+  scopes: string[];
+  rate_limit_per_minute: number;
+}
+
+/**
+ * Resolve an API token hash to its active (unrevoked, unexpired) token and
+ * record its use. Returns null for unknown tokens.
+ */
+export async function authenticateApiToken(tokenHash: string): Promise<ApiTokenRow | null> {
+  const supabase = getSupabaseServiceClient();
+
+  const { data, error } = await supabase.rpc('authenticate_api_token', {
+    p_token_hash: tokenHash,
+  });
+
+  if (error) {
+    logger.error({ error }, 'Error authenticating API token');
+    throw error;
+  }
+
+  const rows = (data || []) as ApiTokenRow[];
+  return rows[0] ?? null;
+}
+
+/**
+ * Get a user by ID (for service use, e.g. resolving an API token's owner)
+ */
+export async function getAuthUserById(userId: string): Promise<User | null> {
+  const supabase = getSupabaseServiceClient();
+
+  const { data, error } = await supabase.auth.admin.getUserById(userId);
+
+  if (error) {
+    logger.error({ error, userId }, 'Error fetching user');
+    return null;
+  }
+
+  return data.user;
+}
+
+/**
+ * Write an entry to the security_events audit log. Failures are logged and
+ * swallowed so auditing never fails the request being audited.
+ */
+export async function recordSecurityEvent(event: {
+  eventType: string;
+  severity: 'low' | 'medium' | 'high' | 'critical';
+  userId?: string | null;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+  endpoint?: string | null;
+  method?: string | null;
+  details?: Record<string, unknown> | null;
+  requestId?: string | null;
+}): Promise<void> {
+  try {
+    const supabase = getSupabaseServiceClient();
+
+    const { error } = await supabase.from('security_events').insert({
+      event_type: event.eventType,
+      severity: event.severity,
+      user_id: event.userId ?? null,
+      ip_address: event.ipAddress ?? null,
+      user_agent: event.userAgent ?? null,
+      endpoint: event.endpoint ?? null,
+      method: event.method ?? null,
+      details: event.details ?? null,
+      request_id: event.requestId ?? null,
+    });
+
+    if (error) {
+      logger.error({ error, eventType: event.eventType }, 'Error recording security event');
+    }
+  } catch (error) {
+    logger.error({ error, eventType: event.eventType }, 'Failed to record security event');
+  }
+}
@@ -0,0 +1,242 @@
+/**
+ * Sync Preview
+ *
+ * Dry run of a queued sync job: counts the rows the worker would insert,
+ * update and delete per table, without writing. Rows are compared the way
+ * the worker writes them, after row filters and column transforms; a row
+ * counts as an update only when a written column would change.
+ */
+
+import type { DrizzleConnection } from './drizzle-factory.js';
+import { countDeletedRows, getMirrorDeleteTables } from './mirror-deletes.js';
+import { escapeQualifiedName, parseQualifiedTableName } from '../utils/identifiers.js';
+import {
+  buildKeyMatchCondition,
+  buildKeyOrderBy,
+  buildKeysetCondition,
+  getRowKey,
+  resolvePrimaryKey,
+} from '../utils/primary-key.js';
+import { compileRowFilters, validateRowFilters } from '../utils/row-filter.js';
+import {
+  applyColumnTransforms,
+  createColumnTransformPlan,
+  validateColumnTransforms,
+} from '../utils/column-masking.js';
+import type { SchemaDiff, TableConfig, TableDiff } from '../types/index.js';
+
+export interface SyncPreview {
+  tables: TableDiff[];
+  schemaIssues: SchemaDiff[];
+  totalInserts: number;
+  totalUpdates: number;
+  totalDeletes: number;
+  // Seconds, at a conservative 500 rows/sec
+  estimatedDuration: number;
+  warnings: string[];
+}
+
+const BATCH_SIZE = 1000;
+const SAMPLE_SIZE = 5;
+
+async function getColumnNames(conn: DrizzleConnection, tableName: string): Promise<string[]> {
+  const { schema, table } = parseQualifiedTableName(tableName);
+  const rows = await conn.client`
+    SELECT column_name
+    FROM information_schema.columns
+    WHERE table_schema = ${schema}
+      AND table_name = ${table}
+    ORDER BY ordinal_position
+  `;
+  return rows.map((r) => String(r.column_name));
+}
+
+async function countRows(conn: DrizzleConnection, tableName: string, where = '', params: unknown[] = []): Promise<number> {
+  const result = await conn.client.unsafe(
+    `SELECT COUNT(*) AS count FROM ${escapeQualifiedName(tableName)}${where ? ` WHERE ${where}` : ''}`,
+    params as (string | number | boolean)[]
+  );
+  return parseInt(String(result[0]?.count ?? '0'), 10);
+}
+
+/**
+ * Missing tables or columns between source and target, or null
+ */
+function compareColumns(tableName: string, sourceColumns: string[], targetColumns: string[]): SchemaDiff | null {
+  if (sourceColumns.length === 0 || targetColumns.length === 0) {
+    return {
+      tableName,
+      missingInSource: sourceColumns.length === 0,
+      missingInTarget: targetColumns.length === 0,
+      columnDifferences: [],
+    };
+  }
+
+  const columnDifferences: SchemaDiff['columnDifferences'] = [
+    ...sourceColumns
+      .filter((c) => !targetColumns.includes(c))
+      .map((columnName) => ({ columnName, sourceType: null, targetType: null, issue: 'missing_in_target' as const })),
+    ...targetColumns
+      .filter((c) => !sourceColumns.includes(c))
+      .map((columnName) => ({ columnName, sourceType: null, targetType: null, issue: 'missing_in_source' as const })),
+  ];
+
+  return columnDifferences.length > 0
+    ? { tableName, missingInSource: false, missingInTarget: false, columnDifferences }
+    : null;
+}
+
+/**
+ * Compare one table's filtered, transformed source rows with the target
+ */
+async function previewTable(
+  sourceConn: DrizzleConnection,
+  targetConn: DrizzleConnection,
+  tableConfig: TableConfig,
+  sourceColumns: string[],
+  includeDeletes: boolean
+): Promise<TableDiff> {
+  const { tableName } = tableConfig;
+  const safeTableName = escapeQualifiedName(tableName);
+  const primaryKey = await resolvePrimaryKey(targetConn, tableName);
+  const filters = tableConfig.filters || [];
+
+  const configErrors = [
+    ...validateRowFilters(filters, sourceColumns),
+    ...validateColumnTransforms(tableConfig, sourceColumns, primaryKey),
+  ];
+  if (configErrors.length > 0) {
+    throw new Error(`Invalid table config: ${configErrors.join('; ')}`);
+  }
+
+  const rowFilter = compileRowFilters(filters);
+  const columnPlan = createColumnTransformPlan(tableConfig);
+  const diff: TableDiff = {
+    tableName,
+    sourceRowCount: await countRows(sourceConn, tableName),
+    targetRowCount: await countRows(targetConn, tableName),
+    inserts: 0,
+    updates: 0,
+    deletes: 0,
+    sampleInserts: [],
+    sampleUpdates: [],
+  };
+  if (rowFilter.sql) {
+    diff.filteredSourceRowCount = await countRows(sourceConn, tableName, rowFilter.sql, rowFilter.params);
+  }
+
+  let lastKey: unknown[] | null = null;
+  let hasMore = true;
+
+  while (hasMore) {
+    const conditions = rowFilter.sql ? [rowFilter.sql] : [];
+    const params: unknown[] = [...rowFilter.params];
+    if (lastKey) {
+      conditions.push(buildKeysetCondition(primaryKey, params.length + 1));
+      params.push(...lastKey);
+    }
+    const sourceRows = await sourceConn.client.unsafe(
+      `SELECT * FROM ${safeTableName} ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''} ` +
+      `ORDER BY ${buildKeyOrderBy(primaryKey)} LIMIT ${BATCH_SIZE}`,
+      params as (string | number | boolean)[]
+    );
+
+    // NULL keys sort last and are skipped by the worker, so they end the scan
+    const keyed = sourceRows
+      .map((row) => ({ key: getRowKey(row, primaryKey), row: applyColumnTransforms(row, columnPlan) }))
+      .filter((entry): entry is { key: unknown[]; row: Record<string, unknown> } => entry.key !== null);
+    hasMore = sourceRows.length === BATCH_SIZE && keyed.length === sourceRows.length;
+    if (keyed.length === 0) break;
+    lastKey = keyed[keyed.length - 1].key;
+
+    const targetRows = await targetConn.client.unsafe(
+      `SELECT * FROM ${safeTableName} WHERE ${buildKeyMatchCondition(primaryKey, keyed.length)}`,
+      keyed.flatMap((entry) => entry.key) as (string | number | boolean)[]
+    );
+    const serialize = (key: unknown[]) => JSON.stringify(key.map(String));
+    const targetByKey = new Map(targetRows.map((row) => [serialize(getRowKey(row, primaryKey) ?? []), row]));
+
+    for (const { key, row } of keyed) {
+      const targetRow = targetByKey.get(serialize(key));
+
+      if (!targetRow) {
+        diff.inserts++;
+        if (diff.sampleInserts.length < SAMPLE_SIZE) diff.sampleInserts.push(row);
+      } else if (Object.keys(row).some((c) => JSON.stringify(row[c] ?? null) !== JSON.stringify(targetRow[c] ?? null))) {
+        diff.updates++;
+        if (diff.sampleUpdates.length < SAMPLE_SIZE) diff.sampleUpdates.push(row);
+      }
+    }
+  }
+
+  if (includeDeletes) {
+    diff.deletes = await countDeletedRows(sourceConn, targetConn, tableName, primaryKey);
+  }
+
+  return diff;
+}
+
+/**
+ * Preview a sync of the enabled tables. Tables that cannot be compared are
+ * reported as schema issues or warnings instead of failing the preview.
+ */
+export async function previewSyncJob(
+  sourceConn: DrizzleConnection,
+  targetConn: DrizzleConnection,
+  direction: 'one_way' | 'two_way',
+  tables: TableConfig[]
+): Promise<SyncPreview> {
+  const enabledTables = tables.filter((t) => t.enabled);
+  const mirrorDeleteTables = getMirrorDeleteTables(enabledTables, direction);
+  const preview: SyncPreview = {
+    tables: [],
+    schemaIssues: [],
+    totalInserts: 0,
+    totalUpdates: 0,
+    totalDeletes: 0,
+    estimatedDuration: 0,
+    warnings: [],
+  };
+
+  for (const tableConfig of enabledTables) {
+    const { tableName } = tableConfig;
+
+    if (tableConfig.mirrorDeletes && !mirrorDeleteTables.includes(tableName)) {
+      preview.warnings.push(`Deletes will not be mirrored for "${tableName}": two-way sync only mirrors deletes when the source wins.`);
+    }
+
+    const sourceColumns = await getColumnNames(sourceConn, tableName);
+    const schemaIssue = compareColumns(tableName, sourceColumns, await getColumnNames(targetConn, tableName));
+    if (schemaIssue) {
+      preview.schemaIssues.push(schemaIssue);
+      if (schemaIssue.missingInTarget) {
+        preview.warnings.push(`Table "${tableName}" does not exist in the target database.`);
+        continue;
+      }
+      if (schemaIssue.missingInSource) {
+        preview.warnings.push(`Table "${tableName}" does not exist in the source database.`);
+        continue;
+      }
+    }
+
+    try {
+      const diff = await previewTable(
+        sourceConn,
+        targetConn,
+        tableConfig,
+        sourceColumns,
+        mirrorDeleteTables.includes(tableName)
+      );
+      preview.tables.push(diff);
+      preview.totalInserts += diff.inserts;
+      preview.totalUpdates += diff.updates;
+      preview.totalDeletes += diff.deletes;
+    } catch (error) {
+      preview.warnings.push(`Could not preview "${tableName}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  preview.estimatedDuration = Math.ceil((preview.totalInserts + preview.totalUpdates + preview.totalDeletes) / 500);
+
+  return preview;
+}
@@ -184,21 +184,63 @@ export interface SyncProgress {
   processedRows: number;
   insertedRows: number;
   updatedRows: number;
+  deletedRows: number;
   skippedRows: number;
   errors: number;
 }
 
 export interface SyncCheckpoint {
   lastTable: string;
+  // Serialized primary key of the last synced row (JSON array for composite keys)
   lastRowId: string;
   lastUpdatedAt: string;
   processedTables: string[];
 }
 
+export type RowFilterOperator =
+  | 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte'
+  | 'in' | 'not_in' | 'like'
+  | 'is_null' | 'is_not_null'
+  | 'within_days';
+
+export type RowFilterValue = string | number | boolean | null | (string | number)[];
+
+// A single WHERE predicate restricting which source rows are synced
+export interface RowFilter {
+  column: string;
+  operator: RowFilterOperator;
+  // Omitted for is_null / is_not_null; a list for in / not_in; days for within_days
+  value?: RowFilterValue;
+}
+
+export type ColumnMaskingTransform = 'hash' | 'fake_email' | 'null' | 'fixed' | 'truncate';
+
+// A transform applied to one column of every synced row, e.g. to scrub PII
+export interface ColumnMaskingRule {
+  column: string;
+  transform: ColumnMaskingTransform;
+  // Replacement value for `fixed`
+  value?: string | number | boolean | null;
+  // Maximum length for `truncate`
+  length?: number;
+}
+
 export interface TableConfig {
   tableName: string;
   enabled: boolean;
   conflictStrategy?: ConflictStrategy;
+  // Delete target rows whose primary key no longer exists in the source
+  mirrorDeletes?: boolean;
+  // Timestamp or integer column used to detect changed rows (default: updated_at).
+  // null compares full row hashes instead.
+  changeTrackingColumn?: string | null;
+  // Only source rows matching all filters are synced
+  filters?: RowFilter[];
+  // Column projection: sync only these columns, or all but these
+  includeColumns?: string[];
+  excludeColumns?: string[];
+  // Transforms applied to source rows before they are written to the target
+  masking?: ColumnMaskingRule[];
 }
 
 // ============================================
@@ -215,6 +257,8 @@ export interface SyncJobData {
   checkpoint?: SyncCheckpoint;
   sourceUrl?: string;
   targetUrl?: string;
+  // Set when the job was started by a scheduled sync
+  scheduledSyncId?: string;
 }
 
 // ============================================
@@ -231,6 +275,9 @@ export interface Conflict {
   targetData: Record<string, unknown>;
   sourceUpdatedAt: Date;
   targetUpdatedAt: Date;
+  // Set instead of timestamps when the table is tracked by an integer version
+  sourceVersion?: number;
+  targetVersion?: number;
   resolution: 'pending' | 'source' | 'target' | 'merged';
 }
 
@@ -258,8 +305,39 @@ export interface TableDiff {
   targetRowCount: number;
   inserts: number;
   updates: number;
+  deletes: number;
   sampleInserts: Record<string, unknown>[];
   sampleUpdates: Record<string, unknown>[];
+  filteredSourceRowCount?: number; // Source rows matching the table's row filters
+  filterSummary?: string;
+}
+
+// ============================================
+// Explorer Filter Types
+// ============================================
+
+export type ExplorerFilterOperator =
+  | 'eq' | 'neq'
+  | 'contains' | 'not_contains'
+  | 'gt' | 'gte' | 'lt' | 'lte' | 'between'
+  | 'is_null' | 'is_not_null';
+
+export type ExplorerFilterValue = string | number | boolean;
+
+// A predicate on one column of the table being browsed
+export interface ExplorerFilterCondition {
+  column: string;
+  operator: ExplorerFilterOperator;
+  // Omitted for is_null / is_not_null; the lower bound for between
+  value?: ExplorerFilterValue;
+  // Upper bound for between
+  valueTo?: ExplorerFilterValue;
+}
+
+// Conditions and nested groups combined with AND or OR
+export interface ExplorerFilterGroup {
+  combinator: 'and' | 'or';
+  conditions: (ExplorerFilterCondition | ExplorerFilterGroup)[];
 }
 
 // ============================================
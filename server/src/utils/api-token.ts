@@ -0,0 +1,41 @@
+/**
+ * API Token Utilities
+ *
+ * Recognising, hashing and scope-checking personal access tokens. Mirrors
+ * lib/services/api-tokens.ts in the app, which issues the tokens.
+ */
+
+import { createHash } from 'crypto';
+
+export const API_TOKEN_PREFIX = 'sbsync_';
+
+export type ApiTokenScope = 'read' | 'sync' | 'admin';
+
+/** Scopes implied by each scope: admin > sync > read */
+const SCOPE_GRANTS: Record<ApiTokenScope, ApiTokenScope[]> = {
+  read: ['read'],
+  sync: ['sync', 'read'],
+  admin: ['admin', 'sync', 'read'],
+};
+
+/**
+ * Whether a bearer credential is a personal access token (rather than a
+ * Supabase session JWT)
+ */
+export function isApiToken(token: string): boolean {
+  return token.startsWith(API_TOKEN_PREFIX) && token.length > API_TOKEN_PREFIX.length;
+}
+
+/**
+ * Hash a plain-text token for lookup
+ */
+export function hashApiToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Whether a token's scopes grant the required scope
+ */
+export function hasApiTokenScope(scopes: readonly string[], required: ApiTokenScope): boolean {
+  return scopes.some((scope) => SCOPE_GRANTS[scope as ApiTokenScope]?.includes(required));
+}
@@ -0,0 +1,162 @@
+/**
+ * Column Masking Utilities
+ *
+ * Column include/exclude lists and deterministic masking transforms applied
+ * to source rows before they are written to the target. `hash` and
+ * `fake_email` use an HMAC keyed by a server secret.
+ */
+
+import { createHmac } from 'crypto';
+import { config } from '../config.js';
+import { isValidIdentifier } from './identifiers.js';
+import type { ColumnMaskingRule, TableConfig } from '../types/index.js';
+
+export type ColumnTransformConfig = Pick<TableConfig, 'includeColumns' | 'excludeColumns' | 'masking'>;
+
+export interface ColumnTransformPlan {
+  include: Set<string> | null;
+  exclude: Set<string>;
+  masks: Map<string, ColumnMaskingRule>;
+}
+
+const MASKING_TRANSFORMS = ['hash', 'fake_email', 'null', 'fixed', 'truncate'];
+
+const FAKE_EMAIL_DOMAIN = 'example.com';
+
+/**
+ * Whether a table config projects or masks any columns
+ */
+export function hasColumnTransforms(config: ColumnTransformConfig): boolean {
+  return !!(config.includeColumns?.length || config.excludeColumns?.length || config.masking?.length);
+}
+
+/**
+ * Validate column projection and masking rules against a table's columns.
+ * Protected columns (keys, change tracking) cannot be dropped or masked.
+ */
+export function validateColumnTransforms(
+  config: ColumnTransformConfig,
+  columns: string[],
+  protectedColumns: string[] = []
+): string[] {
+  const errors: string[] = [];
+  const columnSet = new Set(columns);
+  const protectedSet = new Set(protectedColumns);
+  const unknown = (column: string) => !isValidIdentifier(column) || !columnSet.has(column);
+
+  if (config.includeColumns?.length && config.excludeColumns?.length) {
+    errors.push('Use either included or excluded columns, not both');
+  }
+  if (config.includeColumns?.length) {
+    const included = new Set(config.includeColumns);
+    for (const column of config.includeColumns) {
+      if (unknown(column)) errors.push(`Included column "${column}" does not exist`);
+    }
+    for (const column of protectedColumns) {
+      if (!included.has(column)) errors.push(`Included columns must contain "${column}"`);
+    }
+  }
+  for (const column of config.excludeColumns || []) {
+    if (unknown(column)) errors.push(`Excluded column "${column}" does not exist`);
+    else if (protectedSet.has(column)) errors.push(`Column "${column}" is required for sync and cannot be excluded`);
+  }
+
+  const masked = new Set<string>();
+  for (const rule of config.masking || []) {
+    if (unknown(rule.column)) {
+      errors.push(`Masked column "${rule.column}" does not exist`);
+    } else if (protectedSet.has(rule.column)) {
+      errors.push(`Column "${rule.column}" is required for sync and cannot be masked`);
+    } else if (masked.has(rule.column)) {
+      errors.push(`Column "${rule.column}" has more than one masking rule`);
+    } else if (!MASKING_TRANSFORMS.includes(rule.transform)) {
+      errors.push(`Unsupported masking transform "${rule.transform}"`);
+    } else if (rule.transform === 'truncate' && (!Number.isInteger(rule.length) || (rule.length as number) < 0)) {
+      errors.push(`Truncating "${rule.column}" requires a non-negative length`);
+    }
+    masked.add(rule.column);
+  }
+
+  return errors;
+}
+
+function toText(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (value instanceof Date) return value.toISOString();
+  if (Buffer.isBuffer(value)) return value.toString('base64');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+let maskingKey: Buffer | null = null;
+
+/**
+ * Key for masking HMACs, derived the same way as in the frontend so both
+ * mask values identically
+ */
+function getMaskingKey(): Buffer {
+  if (!maskingKey) {
+    const secret = config.maskingSecret || config.encryptionKey;
+    if (!secret) {
+      throw new Error('MASKING_SECRET or ENCRYPTION_KEY environment variable must be set to mask columns');
+    }
+    maskingKey = createHmac('sha256', secret).update('column-masking').digest();
+  }
+  return maskingKey;
+}
+
+function keyedHash(value: unknown): string {
+  return createHmac('sha256', getMaskingKey()).update(toText(value)).digest('hex');
+}
+
+/**
+ * Apply a single masking rule. NULLs stay NULL except for `fixed`.
+ */
+export function maskValue(value: unknown, rule: ColumnMaskingRule): unknown {
+  if (rule.transform === 'null') return null;
+  if (rule.transform === 'fixed') return rule.value ?? null;
+  if (value === null || value === undefined) return value;
+
+  switch (rule.transform) {
+    case 'hash':
+      return keyedHash(value);
+    case 'fake_email':
+      return `user_${keyedHash(value).slice(0, 12)}@${FAKE_EMAIL_DOMAIN}`;
+    case 'truncate':
+      return toText(value).slice(0, rule.length ?? 0);
+    default:
+      return value;
+  }
+}
+
+/**
+ * Build a plan from a table config, or null when no columns are transformed
+ */
+export function createColumnTransformPlan(config: ColumnTransformConfig): ColumnTransformPlan | null {
+  if (!hasColumnTransforms(config)) return null;
+
+  return {
+    include: config.includeColumns?.length ? new Set(config.includeColumns) : null,
+    exclude: new Set(config.excludeColumns || []),
+    masks: new Map((config.masking || []).map((rule) => [rule.column, rule])),
+  };
+}
+
+/**
+ * Project and mask a source row, returning a new row
+ */
+export function applyColumnTransforms(
+  row: Record<string, unknown>,
+  plan: ColumnTransformPlan | null
+): Record<string, unknown> {
+  if (!plan) return row;
+
+  const result: Record<string, unknown> = {};
+  for (const [column, value] of Object.entries(row)) {
+    if (plan.include ? !plan.include.has(column) : plan.exclude.has(column)) continue;
+
+    const rule = plan.masks.get(column);
+    result[column] = rule ? maskValue(value, rule) : value;
+  }
+  return result;
+}
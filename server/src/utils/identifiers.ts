@@ -0,0 +1,106 @@
+/**
+ * SQL Identifier Utilities
+ * 
+ * Validation and escaping for table and column names, including
+ * schema-qualified table names (`schema.table`)
+ */
+
+const VALID_IDENTIFIER_REGEX = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+const MAX_IDENTIFIER_LENGTH = 63;
+
+/**
+ * Schema assumed for table names without a schema prefix
+ */
+export const DEFAULT_SCHEMA = 'public';
+
+/**
+ * Validate a plain PostgreSQL identifier (letters, digits, underscores)
+ */
+export function isValidIdentifier(identifier: string): boolean {
+  if (!identifier || typeof identifier !== 'string') return false;
+  if (identifier.length > MAX_IDENTIFIER_LENGTH) return false;
+  return VALID_IDENTIFIER_REGEX.test(identifier);
+}
+
+/**
+ * Validate a schema name (no system schemas)
+ */
+export function isValidSchemaName(schemaName: string): boolean {
+  if (!isValidIdentifier(schemaName)) return false;
+  if (schemaName.startsWith('pg_')) return false;
+  if (schemaName === 'information_schema') return false;
+  return true;
+}
+
+/**
+ * Split a table name into schema and table parts.
+ * Names without a schema prefix belong to `public`.
+ */
+export function parseQualifiedTableName(name: string): { schema: string; table: string } {
+  const dot = name.indexOf('.');
+  if (dot === -1) {
+    return { schema: DEFAULT_SCHEMA, table: name };
+  }
+  return { schema: name.slice(0, dot), table: name.slice(dot + 1) };
+}
+
+/**
+ * Build the table key: bare name for `public`, `schema.table` otherwise
+ */
+export function qualifyTableName(schema: string, table: string): string {
+  return schema === DEFAULT_SCHEMA ? table : `${schema}.${table}`;
+}
+
+/**
+ * Validate a table name that may be schema-qualified
+ */
+export function isValidQualifiedTableName(name: string): boolean {
+  if (!name || typeof name !== 'string') return false;
+  const { schema, table } = parseQualifiedTableName(name);
+  return isValidSchemaName(schema) && isValidIdentifier(table) && !table.startsWith('pg_');
+}
+
+/**
+ * Escape a PostgreSQL identifier with double quotes
+ */
+export function escapeIdentifier(identifier: string): string {
+  if (!isValidIdentifier(identifier)) {
+    throw new Error(`Invalid identifier: ${identifier}`);
+  }
+  return `"${identifier.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Escape a possibly schema-qualified table name, escaping each part:
+ * `billing.invoices` becomes `"billing"."invoices"`
+ */
+export function escapeQualifiedName(name: string): string {
+  if (!isValidQualifiedTableName(name)) {
+    throw new Error(`Invalid table name: ${name}`);
+  }
+  const { schema, table } = parseQualifiedTableName(name);
+  return `${escapeIdentifier(schema)}.${escapeIdentifier(table)}`;
+}
+
+/**
+ * Parse a comma-separated schema list from a query string.
+ * Falls back to `public` when empty; throws on invalid names.
+ */
+export function parseSchemaList(value: string | undefined): string[] {
+  const schemas = (value || '')
+    .split(',')
+    .map((s) => s.trim())
+    .filter(Boolean);
+
+  if (schemas.length === 0) {
+    return [DEFAULT_SCHEMA];
+  }
+
+  for (const schema of schemas) {
+    if (!isValidSchemaName(schema)) {
+      throw new Error(`Invalid schema name: ${schema}`);
+    }
+  }
+
+  return schemas;
+}
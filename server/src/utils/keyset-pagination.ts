@@ -0,0 +1,177 @@
+/**
+ * Keyset Pagination Utilities
+ *
+ * Cursor-based paging over a sort column plus the primary key (or ctid),
+ * replacing OFFSET scans. Cursor values are read back as text and always
+ * passed as query parameters.
+ */
+
+import { escapeIdentifier } from './identifiers.js';
+
+export type SortDirection = 'asc' | 'desc';
+
+// Text values of the cursor columns of the last row on a page
+export type KeysetCursor = (string | null)[];
+
+export interface KeysetOptions {
+  // Column the user sorted by; omitted to sort by the key alone
+  orderColumn?: string | null;
+  direction: SortDirection;
+  // Primary key columns; empty falls back to the row's ctid
+  keyColumns: string[];
+}
+
+export interface KeysetQuery {
+  // Condition selecting rows after the cursor; empty on the first page
+  condition: string;
+  params: string[];
+  // ORDER BY clause body
+  orderBy: string;
+  // Select-list entries that read the cursor columns back as text
+  cursorSelect: string;
+  // Number of cursor columns
+  cursorLength: number;
+}
+
+/**
+ * Thrown for a cursor that was not produced by encodeCursor for this sort
+ */
+export class InvalidCursorError extends Error {
+  constructor(message: string = 'Invalid cursor') {
+    super(message);
+    this.name = 'InvalidCursorError';
+  }
+}
+
+// Prefix of the extra columns that carry cursor values; stripped from rows
+export const CURSOR_COLUMN_PREFIX = '__keyset_cursor_';
+
+/**
+ * Encode cursor values as an opaque, URL-safe token
+ */
+export function encodeCursor(values: KeysetCursor): string {
+  return Buffer.from(JSON.stringify(values), 'utf8').toString('base64url');
+}
+
+/**
+ * Decode a cursor token, checking it has one value per cursor column
+ */
+export function decodeCursor(token: string, expectedLength: number): KeysetCursor {
+  let values: unknown;
+  try {
+    values = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+  } catch {
+    throw new InvalidCursorError();
+  }
+
+  if (
+    !Array.isArray(values) ||
+    values.length !== expectedLength ||
+    !values.every((v) => v === null || typeof v === 'string')
+  ) {
+    throw new InvalidCursorError();
+  }
+  return values as KeysetCursor;
+}
+
+/**
+ * Split the cursor columns off a row fetched with `cursorSelect`
+ */
+export function extractCursor(
+  row: Record<string, unknown>,
+  cursorLength: number
+): { row: Record<string, unknown>; cursor: KeysetCursor } {
+  const data = { ...row };
+  const cursor: KeysetCursor = [];
+
+  for (let i = 0; i < cursorLength; i++) {
+    const name = `${CURSOR_COLUMN_PREFIX}${i}`;
+    const value = data[name];
+    cursor.push(value === null || value === undefined ? null : String(value));
+    delete data[name];
+  }
+
+  return { row: data, cursor };
+}
+
+function compareTuple(columns: string[], placeholders: string[], operator: '>' | '<'): string {
+  return columns.length === 1
+    ? `${columns[0]} ${operator} ${placeholders[0]}`
+    : `(${columns.join(', ')}) ${operator} (${placeholders.join(', ')})`;
+}
+
+/**
+ * Build the ORDER BY, cursor select list and "after the cursor" condition.
+ * Primary key columns and ctid are never null; a separate sort column may
+ * be, so NULLs sort last ascending and first descending (Postgres' default)
+ * and get their own branch in the condition.
+ *
+ * @param firstParam - 1-based index of the first placeholder to use
+ */
+export function buildKeysetQuery(
+  options: KeysetOptions,
+  cursor: KeysetCursor | null,
+  firstParam: number = 1
+): KeysetQuery {
+  const { direction, keyColumns } = options;
+  const keys = keyColumns.length > 0 ? keyColumns.map(escapeIdentifier) : ['ctid'];
+  const orderColumn = options.orderColumn && !keyColumns.includes(options.orderColumn)
+    ? escapeIdentifier(options.orderColumn)
+    : null;
+
+  // A key column chosen as the sort column simply leads the key
+  const leadingKey = options.orderColumn && keyColumns.includes(options.orderColumn)
+    ? escapeIdentifier(options.orderColumn)
+    : null;
+  const keyOrder = leadingKey ? [leadingKey, ...keys.filter((k) => k !== leadingKey)] : keys;
+
+  const columns = orderColumn ? [orderColumn, ...keyOrder] : keyOrder;
+  const sqlDirection = direction === 'asc' ? 'ASC' : 'DESC';
+  const orderBy = columns
+    .map((column) => (column === orderColumn
+      ? `${column} ${sqlDirection} NULLS ${direction === 'asc' ? 'LAST' : 'FIRST'}`
+      : `${column} ${sqlDirection}`))
+    .join(', ');
+  const cursorSelect = columns
+    .map((column, i) => `${column}::text AS "${CURSOR_COLUMN_PREFIX}${i}"`)
+    .join(', ');
+
+  const query: KeysetQuery = { condition: '', params: [], orderBy, cursorSelect, cursorLength: columns.length };
+  if (!cursor) return query;
+
+  if (cursor.length !== columns.length) {
+    throw new InvalidCursorError();
+  }
+
+  const operator = direction === 'asc' ? '>' : '<';
+  // Key columns are never NULL, so neither are their cursor values
+  const bind = (value: string | null) => {
+    if (value === null) throw new InvalidCursorError();
+    query.params.push(value);
+    return `$${firstParam + query.params.length - 1}`;
+  };
+
+  if (!orderColumn) {
+    query.condition = compareTuple(keyOrder, cursor.map(bind), operator);
+    return query;
+  }
+
+  const [orderValue, ...keyValues] = cursor;
+  const value = orderValue === null ? null : bind(orderValue);
+  const afterKey = compareTuple(keyOrder, keyValues.map(bind), operator);
+
+  if (value === null) {
+    query.condition = direction === 'asc'
+      // NULLs come last: only the rest of the NULL run is left
+      ? `(${orderColumn} IS NULL AND ${afterKey})`
+      // NULLs come first: the rest of the NULL run, then every non-NULL row
+      : `((${orderColumn} IS NULL AND ${afterKey}) OR ${orderColumn} IS NOT NULL)`;
+  } else {
+    const tie = `${orderColumn} = ${value} AND ${afterKey}`;
+    query.condition = direction === 'asc'
+      ? `(${orderColumn} > ${value} OR (${tie}) OR ${orderColumn} IS NULL)`
+      : `(${orderColumn} < ${value} OR (${tie}))`;
+  }
+
+  return query;
+}
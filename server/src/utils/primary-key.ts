@@ -0,0 +1,113 @@
+/**
+ * Primary Key Utilities
+ *
+ * Resolves a table's real primary key and builds the SQL fragments needed to
+ * page through and look up rows by it, including composite keys.
+ */
+
+import type { DrizzleConnection } from '../services/drizzle-factory.js';
+import { escapeIdentifier, parseQualifiedTableName } from './identifiers.js';
+
+/**
+ * Resolve the primary key columns of a table, in key order.
+ * Falls back to an `id` column for tables without a declared primary key.
+ */
+export async function resolvePrimaryKey(conn: DrizzleConnection, tableName: string): Promise<string[]> {
+  const { schema, table } = parseQualifiedTableName(tableName);
+
+  const keyRows = await conn.client`
+    SELECT kcu.column_name
+    FROM information_schema.table_constraints tc
+    JOIN information_schema.key_column_usage kcu
+      ON tc.constraint_name = kcu.constraint_name
+      AND tc.table_schema = kcu.table_schema
+    WHERE tc.constraint_type = 'PRIMARY KEY'
+      AND tc.table_schema = ${schema}
+      AND tc.table_name = ${table}
+    ORDER BY kcu.ordinal_position
+  `;
+  if (keyRows.length > 0) {
+    return keyRows.map((row) => String(row.column_name));
+  }
+
+  const idRows = await conn.client`
+    SELECT 1
+    FROM information_schema.columns
+    WHERE table_schema = ${schema}
+      AND table_name = ${table}
+      AND column_name = 'id'
+  `;
+  if (idRows.length > 0) {
+    return ['id'];
+  }
+
+  throw new Error(`Table "${tableName}" has no primary key and no "id" column to sync by`);
+}
+
+/**
+ * Escaped key column list, e.g. `"id"` or `"org_id", "user_id"`
+ */
+export function buildKeyColumnList(keyColumns: string[]): string {
+  return keyColumns.map(escapeIdentifier).join(', ');
+}
+
+/**
+ * ORDER BY clause body for keyset pagination
+ */
+export function buildKeyOrderBy(keyColumns: string[]): string {
+  return keyColumns.map((c) => `${escapeIdentifier(c)} ASC`).join(', ');
+}
+
+/**
+ * Keyset condition selecting rows after the given key.
+ * Composite keys use a row-value comparison so the PK index can be used.
+ *
+ * @param firstParam - 1-based index of the first placeholder to use
+ */
+export function buildKeysetCondition(keyColumns: string[], firstParam: number): string {
+  if (keyColumns.length === 1) {
+    return `${escapeIdentifier(keyColumns[0])} > $${firstParam}`;
+  }
+
+  const placeholders = keyColumns.map((_, i) => `$${firstParam + i}`).join(', ');
+  return `(${buildKeyColumnList(keyColumns)}) > (${placeholders})`;
+}
+
+/**
+ * Condition matching a single row by its key
+ *
+ * @param firstParam - 1-based index of the first placeholder to use
+ */
+export function buildKeyEqualsCondition(keyColumns: string[], firstParam: number = 1): string {
+  return keyColumns
+    .map((c, i) => `${escapeIdentifier(c)} = $${firstParam + i}`)
+    .join(' AND ');
+}
+
+/**
+ * A row's key values in key column order, or null if any is missing
+ */
+export function getRowKey(row: Record<string, unknown>, keyColumns: string[]): unknown[] | null {
+  const values = keyColumns.map((c) => row[c]);
+  return values.some((v) => v === null || v === undefined) ? null : values;
+}
+
+/**
+ * Condition matching any of `keyCount` keys. Pass the keys' values flattened,
+ * in key order, as the params.
+ *
+ * @param firstParam - 1-based index of the first placeholder to use
+ */
+export function buildKeyMatchCondition(keyColumns: string[], keyCount: number, firstParam: number = 1): string {
+  const width = keyColumns.length;
+
+  if (width === 1) {
+    const placeholders = Array.from({ length: keyCount }, (_, i) => `$${firstParam + i}`).join(', ');
+    return `${escapeIdentifier(keyColumns[0])} IN (${placeholders})`;
+  }
+
+  const tuples = Array.from({ length: keyCount }, (_, k) =>
+    `(${keyColumns.map((_, i) => `$${firstParam + k * width + i}`).join(', ')})`
+  ).join(', ');
+  return `(${buildKeyColumnList(keyColumns)}) IN (${tuples})`;
+}
@@ -0,0 +1,116 @@
+/**
+ * Row Filter Utilities
+ *
+ * Validation and compilation of per-table row filters into parameterized
+ * WHERE conditions. Filter values are always passed as query parameters.
+ */
+
+import { escapeIdentifier, isValidIdentifier } from './identifiers.js';
+import type { RowFilter, RowFilterOperator } from '../types/index.js';
+
+export interface CompiledRowFilter {
+  sql: string;
+  params: (string | number | boolean)[];
+}
+
+const ROW_FILTER_OPERATORS: readonly RowFilterOperator[] = [
+  'eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'in', 'not_in', 'like', 'is_null', 'is_not_null', 'within_days',
+];
+
+const MAX_FILTER_LIST_VALUES = 1000;
+
+const COMPARISON_SQL: Partial<Record<RowFilterOperator, string>> = {
+  eq: '=',
+  neq: '<>',
+  gt: '>',
+  gte: '>=',
+  lt: '<',
+  lte: '<=',
+  like: 'LIKE',
+};
+
+/**
+ * Validate filters against a table's columns.
+ * Returns a list of errors (empty when all filters are valid).
+ */
+export function validateRowFilters(filters: RowFilter[], columns: string[]): string[] {
+  const errors: string[] = [];
+  const columnSet = new Set(columns);
+
+  filters.forEach((filter, index) => {
+    const label = `Filter ${index + 1}`;
+    const { column, operator, value } = filter;
+
+    if (!isValidIdentifier(column)) {
+      errors.push(`${label}: invalid column name "${column}"`);
+    } else if (!columnSet.has(column)) {
+      errors.push(`${label}: column "${column}" does not exist`);
+    } else if (!ROW_FILTER_OPERATORS.includes(operator)) {
+      errors.push(`${label}: unsupported operator "${operator}"`);
+    } else if (operator === 'in' || operator === 'not_in') {
+      if (!Array.isArray(value) || value.length === 0 || value.length > MAX_FILTER_LIST_VALUES) {
+        errors.push(`${label}: "${operator}" requires between 1 and ${MAX_FILTER_LIST_VALUES} values`);
+      }
+    } else if (operator === 'within_days') {
+      if (typeof value !== 'number' || !Number.isInteger(value) || value <= 0) {
+        errors.push(`${label}: "within_days" requires a positive whole number of days`);
+      }
+    } else if (operator === 'like') {
+      if (typeof value !== 'string') {
+        errors.push(`${label}: "like" requires a text pattern`);
+      }
+    } else if (operator !== 'is_null' && operator !== 'is_not_null') {
+      if (value === null || value === undefined || Array.isArray(value)) {
+        errors.push(`${label}: "${operator}" requires a single value`);
+      }
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Compile filters into a parameterized condition joined with AND.
+ * Returns an empty `sql` string when there are no filters.
+ *
+ * @param firstParam - 1-based index of the first placeholder to use
+ */
+export function compileRowFilters(filters: RowFilter[] | undefined, firstParam: number = 1): CompiledRowFilter {
+  const conditions: string[] = [];
+  const params: (string | number | boolean)[] = [];
+  const placeholder = () => `$${firstParam + params.length - 1}`;
+
+  for (const { column, operator, value } of filters || []) {
+    const safeColumn = escapeIdentifier(column);
+
+    if (operator === 'is_null' || operator === 'is_not_null') {
+      conditions.push(`${safeColumn} ${operator === 'is_null' ? 'IS NULL' : 'IS NOT NULL'}`);
+    } else if (operator === 'in' || operator === 'not_in') {
+      const values = Array.isArray(value) ? value : [];
+      if (values.length === 0) {
+        throw new Error(`Filter on "${column}" requires a non-empty list of values`);
+      }
+      const placeholders = values.map((v) => {
+        params.push(v);
+        return placeholder();
+      });
+      conditions.push(`${safeColumn} ${operator === 'in' ? 'IN' : 'NOT IN'} (${placeholders.join(', ')})`);
+    } else if (operator === 'within_days') {
+      params.push(Number(value));
+      conditions.push(`${safeColumn} >= NOW() - (${placeholder()}::int * INTERVAL '1 day')`);
+    } else {
+      const sqlOperator = COMPARISON_SQL[operator];
+      if (!sqlOperator || value === null || value === undefined || Array.isArray(value)) {
+        throw new Error(`Invalid filter on "${column}"`);
+      }
+      params.push(value);
+      conditions.push(
+        operator === 'like'
+          ? `${safeColumn}::text LIKE ${placeholder()}`
+          : `${safeColumn} ${sqlOperator} ${placeholder()}`
+      );
+    }
+  }
+
+  return { sql: conditions.join(' AND '), params };
+}
@@ -0,0 +1,294 @@
+/**
+ * SQL Statement Splitting
+ *
+ * Postgres-aware tokenizer and statement splitter used to run scripts one
+ * statement at a time. Mirrors the tokenizer in lib/services/sql-parser.ts in
+ * the app; see there for what it understands.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type SqlTokenType =
+  | 'word'
+  | 'quoted_identifier'
+  | 'string'
+  | 'dollar_string'
+  | 'number'
+  | 'parameter'
+  | 'operator'
+  | 'punctuation'
+  | 'comment'
+  | 'whitespace';
+
+export interface SqlToken {
+  type: SqlTokenType;
+  /** Lower-cased for words, unescaped for identifiers and strings */
+  value: string;
+  start: number;
+  end: number;
+}
+
+export interface SqlStatement {
+  /** Statement text, without the terminating semicolon or leading comments */
+  sql: string;
+  start: number;
+  end: number;
+  /** Significant tokens (no whitespace or comments) */
+  tokens: SqlToken[];
+}
+
+// ============================================================================
+// TOKENIZER
+// ============================================================================
+
+const WORD_START = /[A-Za-z_\u0080-\uffff]/;
+const WORD_CHAR = /[A-Za-z0-9_$\u0080-\uffff]/;
+const OPERATOR_CHARS = '+-*/<>=~!@#%^&|`?';
+const PUNCTUATION_CHARS = '()[],;.:';
+const DOLLAR_TAG = /\$(?:[A-Za-z_\u0080-\uffff][A-Za-z0-9_\u0080-\uffff]*)?\$/y;
+const NUMBER = /(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/y;
+
+/** Match a sticky regex at `index`, returning the matched text */
+function matchAt(regex: RegExp, text: string, index: number): string | null {
+  regex.lastIndex = index;
+  const match = regex.exec(text);
+  return match ? match[0] : null;
+}
+
+/**
+ * Split SQL into tokens. Never throws: unterminated strings, identifiers and
+ * comments run to the end of the input and are reported in `errors`.
+ */
+export function tokenizeSql(sql: string): { tokens: SqlToken[]; errors: string[] } {
+  const tokens: SqlToken[] = [];
+  const errors: string[] = [];
+  const length = sql.length;
+  let i = 0;
+
+  const push = (type: SqlTokenType, value: string, start: number) => {
+    tokens.push({ type, value, start, end: i });
+  };
+
+  // Read a quoted string or identifier whose opening quote is at `i`
+  const readQuoted = (quote: string, backslashEscapes: boolean): { value: string; closed: boolean } => {
+    let value = '';
+    i++;
+    while (i < length) {
+      const ch = sql[i];
+      if (backslashEscapes && ch === '\\' && i + 1 < length) {
+        value += sql[i + 1];
+        i += 2;
+      } else if (ch === quote) {
+        if (sql[i + 1] === quote) {
+          value += quote;
+          i += 2;
+        } else {
+          i++;
+          return { value, closed: true };
+        }
+      } else {
+        value += ch;
+        i++;
+      }
+    }
+    return { value, closed: false };
+  };
+
+  const readString = (start: number, backslashEscapes: boolean) => {
+    const { value, closed } = readQuoted("'", backslashEscapes);
+    if (!closed) errors.push('Unbalanced single quotes');
+    push('string', value, start);
+  };
+
+  const readIdentifier = (start: number) => {
+    const { value, closed } = readQuoted('"', false);
+    if (!closed) errors.push('Unbalanced double quotes');
+    push('quoted_identifier', value, start);
+  };
+
+  while (i < length) {
+    const start = i;
+    const ch = sql[i];
+    const next = sql[i + 1];
+    const dollarTag = ch === '$' ? matchAt(DOLLAR_TAG, sql, i) : null;
+
+    if (/\s/.test(ch)) {
+      while (i < length && /\s/.test(sql[i])) i++;
+      push('whitespace', sql.slice(start, i), start);
+    } else if (ch === '-' && next === '-') {
+      const newline = sql.indexOf('\n', i);
+      i = newline === -1 ? length : newline;
+      push('comment', sql.slice(start, i), start);
+    } else if (ch === '/' && next === '*') {
+      // Block comments nest in Postgres
+      let depth = 1;
+      i += 2;
+      while (i < length && depth > 0) {
+        if (sql[i] === '/' && sql[i + 1] === '*') {
+          depth++;
+          i += 2;
+        } else if (sql[i] === '*' && sql[i + 1] === '/') {
+          depth--;
+          i += 2;
+        } else {
+          i++;
+        }
+      }
+      if (depth > 0) errors.push('Unterminated block comment');
+      push('comment', sql.slice(start, i), start);
+    } else if ((ch === 'e' || ch === 'E') && next === "'") {
+      i++;
+      readString(start, true);
+    } else if (/[bBxXnN]/.test(ch) && next === "'") {
+      i++;
+      readString(start, false);
+    } else if ((ch === 'u' || ch === 'U') && next === '&' && (sql[i + 2] === "'" || sql[i + 2] === '"')) {
+      i += 2;
+      if (sql[i] === "'") readString(start, false);
+      else readIdentifier(start);
+    } else if (ch === "'") {
+      readString(start, false);
+    } else if (ch === '"') {
+      readIdentifier(start);
+    } else if (ch === '$' && next !== undefined && /\d/.test(next)) {
+      i++;
+      while (i < length && /\d/.test(sql[i])) i++;
+      push('parameter', sql.slice(start, i), start);
+    } else if (dollarTag) {
+      const bodyStart = start + dollarTag.length;
+      const close = sql.indexOf(dollarTag, bodyStart);
+      if (close === -1) {
+        errors.push('Unterminated dollar-quoted string');
+        i = length;
+        push('dollar_string', sql.slice(bodyStart), start);
+      } else {
+        i = close + dollarTag.length;
+        push('dollar_string', sql.slice(bodyStart, close), start);
+      }
+    } else if (/\d/.test(ch) || (ch === '.' && next !== undefined && /\d/.test(next))) {
+      i += (matchAt(NUMBER, sql, i) ?? ch).length;
+      push('number', sql.slice(start, i), start);
+    } else if (WORD_START.test(ch)) {
+      while (i < length && WORD_CHAR.test(sql[i])) i++;
+      push('word', sql.slice(start, i).toLowerCase(), start);
+    } else if (ch === ':' && next === ':') {
+      i += 2;
+      push('punctuation', '::', start);
+    } else if (PUNCTUATION_CHARS.includes(ch)) {
+      i++;
+      push('punctuation', ch, start);
+    } else if (OPERATOR_CHARS.includes(ch)) {
+      // An operator ends where a comment starts
+      while (
+        i < length &&
+        OPERATOR_CHARS.includes(sql[i]) &&
+        !(i > start && ((sql[i] === '-' && sql[i + 1] === '-') || (sql[i] === '/' && sql[i + 1] === '*')))
+      ) {
+        i++;
+      }
+      push('operator', sql.slice(start, i), start);
+    } else {
+      i++;
+      push('operator', ch, start);
+    }
+  }
+
+  return { tokens, errors };
+}
+
+function isSignificant(token: SqlToken): boolean {
+  return token.type !== 'whitespace' && token.type !== 'comment';
+}
+
+// ============================================================================
+// STATEMENT SPLITTING
+// ============================================================================
+
+function splitTokens(sql: string, tokens: SqlToken[]): SqlStatement[] {
+  const statements: SqlStatement[] = [];
+  let current: SqlToken[] = [];
+  let previous: SqlToken | undefined;
+  // Semicolons inside BEGIN ATOMIC ... END bodies don't end the statement
+  let atomicDepth = 0;
+  let caseDepth = 0;
+
+  const flush = () => {
+    if (current.length > 0) {
+      const start = current[0].start;
+      const end = current[current.length - 1].end;
+      statements.push({ sql: sql.slice(start, end), start, end, tokens: current });
+    }
+    current = [];
+  };
+
+  for (const token of tokens) {
+    if (!isSignificant(token)) continue;
+
+    if (token.type === 'word') {
+      if (token.value === 'atomic' && previous?.type === 'word' && previous.value === 'begin') {
+        atomicDepth++;
+      } else if (atomicDepth > 0 && token.value === 'case') {
+        caseDepth++;
+      } else if (atomicDepth > 0 && token.value === 'end') {
+        if (caseDepth > 0) caseDepth--;
+        else atomicDepth--;
+      }
+    }
+
+    if (token.type === 'punctuation' && token.value === ';' && atomicDepth === 0) {
+      flush();
+    } else {
+      current.push(token);
+    }
+    previous = token;
+  }
+  flush();
+
+  return statements;
+}
+
+/**
+ * Split a script into statements on top-level semicolons. Semicolons in
+ * strings, identifiers, comments, dollar-quoted bodies and BEGIN ATOMIC
+ * bodies are ignored; comment-only statements are dropped.
+ */
+export function splitSqlStatements(sql: string): SqlStatement[] {
+  return splitTokens(sql, tokenizeSql(sql).tokens);
+}
+
+// ============================================================================
+// TRANSACTION RESTRICTIONS
+// ============================================================================
+
+/**
+ * Why a statement can't run inside a dry-run transaction, if it can't:
+ * - `transaction_control`: BEGIN, COMMIT, SAVEPOINT, ... would end or nest
+ *   the surrounding transaction
+ * - `no_transaction`: Postgres refuses to run it in a transaction block
+ *   (VACUUM, CREATE INDEX CONCURRENTLY, CREATE DATABASE, ...)
+ */
+export function getTransactionRestriction(
+  statement: SqlStatement
+): 'transaction_control' | 'no_transaction' | null {
+  const words = statement.tokens.slice(0, 4).map((token) => (token.type === 'word' ? token.value : ''));
+  const [first, second] = words;
+
+  if (['begin', 'start', 'commit', 'end', 'rollback', 'abort', 'savepoint', 'release'].includes(first)) {
+    return 'transaction_control';
+  }
+  if (first === 'prepare' && second === 'transaction') {
+    return 'transaction_control';
+  }
+  if (first === 'vacuum' || (first === 'alter' && second === 'system')) {
+    return 'no_transaction';
+  }
+  if ((first === 'create' || first === 'drop') && (second === 'database' || second === 'tablespace')) {
+    return 'no_transaction';
+  }
+  if (['create', 'drop', 'reindex', 'refresh'].includes(first) && words.includes('concurrently')) {
+    return 'no_transaction';
+  }
+  return null;
+}
@@ -0,0 +1,12 @@
+-- ============================================================================
+-- Mirror Deletes
+-- ============================================================================
+-- Allows the idempotency tracker to record rows removed from the target when
+-- a table is synced with "mirror deletes" enabled.
+
+ALTER TABLE sync_idempotency
+  DROP CONSTRAINT IF EXISTS sync_idempotency_operation_check;
+
+ALTER TABLE sync_idempotency
+  ADD CONSTRAINT sync_idempotency_operation_check
+  CHECK (operation IN ('insert', 'update', 'delete', 'skip'));
@@ -0,0 +1,17 @@
+-- ============================================================================
+-- Connection Schemas
+-- ============================================================================
+-- Lets a connection declare which schemas are in scope for listing,
+-- inspection and sync. Existing connections keep working on `public` only.
+
+ALTER TABLE connections
+  ADD COLUMN IF NOT EXISTS schemas TEXT[] NOT NULL DEFAULT '{public}';
+
+ALTER TABLE connections
+  DROP CONSTRAINT IF EXISTS connections_schemas_not_empty;
+
+ALTER TABLE connections
+  ADD CONSTRAINT connections_schemas_not_empty
+  CHECK (cardinality(schemas) > 0);
+
+COMMENT ON COLUMN connections.schemas IS 'Schemas in scope for this connection; tables outside public are addressed as schema.table';
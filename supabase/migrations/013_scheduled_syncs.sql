@@ -0,0 +1,99 @@
+-- ============================================================================
+-- Scheduled Syncs
+-- ============================================================================
+-- Persists recurring sync schedules so they survive deploys and restarts.
+-- The backend polls for due schedules and claims them through
+-- claim_due_scheduled_syncs(), which row-locks each schedule so that only one
+-- backend replica ever starts a given run.
+
+CREATE TABLE IF NOT EXISTS scheduled_syncs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  source_connection_id UUID NOT NULL REFERENCES connections(id) ON DELETE CASCADE,
+  target_connection_id UUID NOT NULL REFERENCES connections(id) ON DELETE CASCADE,
+  direction VARCHAR(20) NOT NULL DEFAULT 'one_way' CHECK (direction IN ('one_way', 'two_way')),
+  tables_config JSONB NOT NULL DEFAULT '[]',
+  cron_expression VARCHAR(100) NOT NULL,
+  timezone VARCHAR(64) NOT NULL DEFAULT 'UTC',
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  next_run_at TIMESTAMPTZ,
+  last_run_at TIMESTAMPTZ,
+  last_run_status VARCHAR(20) CHECK (last_run_status IN ('success', 'failed', 'running')),
+  last_run_job_id UUID REFERENCES sync_jobs(id) ON DELETE SET NULL,
+  last_error TEXT,
+  -- Set while a backend replica is starting a run; cleared when it finishes
+  locked_at TIMESTAMPTZ,
+  locked_by TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  CHECK (source_connection_id <> target_connection_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_syncs_user_id ON scheduled_syncs(user_id);
+CREATE INDEX IF NOT EXISTS idx_scheduled_syncs_due
+  ON scheduled_syncs(next_run_at)
+  WHERE enabled = true;
+
+-- RLS for scheduled_syncs
+ALTER TABLE scheduled_syncs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own scheduled syncs" ON scheduled_syncs
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own scheduled syncs" ON scheduled_syncs
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own scheduled syncs" ON scheduled_syncs
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own scheduled syncs" ON scheduled_syncs
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_scheduled_syncs_updated_at
+  BEFORE UPDATE ON scheduled_syncs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+GRANT ALL ON scheduled_syncs TO authenticated;
+
+-- =========================================
+-- CLAIMING DUE SCHEDULES
+-- =========================================
+-- Locks up to p_limit due schedules for p_worker. FOR UPDATE SKIP LOCKED lets
+-- concurrent replicas claim disjoint sets, and locked_at keeps a claimed
+-- schedule out of later polls until the run is recorded. Claims older than
+-- p_lock_timeout_seconds are considered abandoned (e.g. the replica crashed)
+-- and can be taken over.
+
+CREATE OR REPLACE FUNCTION claim_due_scheduled_syncs(
+  p_worker TEXT,
+  p_limit INTEGER DEFAULT 10,
+  p_lock_timeout_seconds INTEGER DEFAULT 900
+)
+RETURNS SETOF scheduled_syncs AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE scheduled_syncs
+  SET locked_at = NOW(),
+      locked_by = p_worker
+  WHERE id IN (
+    SELECT id FROM scheduled_syncs
+    WHERE enabled = true
+      AND next_run_at IS NOT NULL
+      AND next_run_at <= NOW()
+      AND (locked_at IS NULL OR locked_at < NOW() - make_interval(secs => p_lock_timeout_seconds))
+    ORDER BY next_run_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only the backend (service role) may claim schedules
+REVOKE EXECUTE ON FUNCTION claim_due_scheduled_syncs(TEXT, INTEGER, INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION claim_due_scheduled_syncs(TEXT, INTEGER, INTEGER) TO service_role;
+
+COMMENT ON TABLE scheduled_syncs IS 'Recurring sync schedules, run by the backend scheduler';
+COMMENT ON FUNCTION claim_due_scheduled_syncs(TEXT, INTEGER, INTEGER) IS 'Row-locks due schedules for one backend replica';
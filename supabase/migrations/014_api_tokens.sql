@@ -0,0 +1,78 @@
+-- ============================================================================
+-- API Tokens
+-- ============================================================================
+-- Personal access tokens for calling the sync API without a browser session
+-- (e.g. from CI pipelines). Only a SHA-256 hash of each token is stored; the
+-- plaintext token is shown once, when it is created.
+
+CREATE TABLE IF NOT EXISTS api_tokens (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  -- First characters of the token, shown in the UI to tell tokens apart
+  token_prefix VARCHAR(20) NOT NULL,
+  token_hash CHAR(64) NOT NULL UNIQUE,
+  scopes TEXT[] NOT NULL CHECK (
+    cardinality(scopes) > 0 AND scopes <@ ARRAY['read', 'sync', 'admin']::TEXT[]
+  ),
+  rate_limit_per_minute INTEGER NOT NULL DEFAULT 60 CHECK (rate_limit_per_minute BETWEEN 1 AND 1000),
+  expires_at TIMESTAMPTZ,
+  last_used_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_tokens_user_id ON api_tokens(user_id);
+
+-- RLS for api_tokens
+ALTER TABLE api_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own api tokens" ON api_tokens
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own api tokens" ON api_tokens
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+-- Tokens are revoked (revoked_at), never deleted, so audit entries keep
+-- pointing at a real token. Revoking is the only update users can make:
+-- the column grant below limits updates to revoked_at, and the policy only
+-- allows setting it on active tokens.
+CREATE POLICY "Users can revoke own api tokens" ON api_tokens
+  FOR UPDATE
+  USING (auth.uid() = user_id AND revoked_at IS NULL)
+  WITH CHECK (auth.uid() = user_id AND revoked_at IS NOT NULL);
+
+GRANT SELECT, INSERT ON api_tokens TO authenticated;
+GRANT UPDATE (revoked_at) ON api_tokens TO authenticated;
+
+-- =========================================
+-- TOKEN AUTHENTICATION
+-- =========================================
+-- Resolves a token hash to its active token and records the use. Requests
+-- authenticated by token have no Supabase session, so this runs as
+-- SECURITY DEFINER; knowing the hash requires knowing the token itself.
+
+CREATE OR REPLACE FUNCTION authenticate_api_token(p_token_hash TEXT)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  name VARCHAR(100),
+  scopes TEXT[],
+  rate_limit_per_minute INTEGER
+) AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE api_tokens t
+  SET last_used_at = NOW()
+  WHERE t.token_hash = p_token_hash
+    AND t.revoked_at IS NULL
+    AND (t.expires_at IS NULL OR t.expires_at > NOW())
+  RETURNING t.id, t.user_id, t.name, t.scopes, t.rate_limit_per_minute;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION authenticate_api_token(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION authenticate_api_token(TEXT) TO service_role;
+
+COMMENT ON TABLE api_tokens IS 'Hashed personal access tokens for the sync API';
+COMMENT ON FUNCTION authenticate_api_token(TEXT) IS 'Resolves an API token hash and records its use';
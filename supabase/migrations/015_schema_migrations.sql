@@ -0,0 +1,53 @@
+-- ============================================================================
+-- Schema Migration Ledger
+-- ============================================================================
+-- One row per migration plan applied to a target connection: what ran, who
+-- ran it, how each script went, whether the target matched the source
+-- afterwards, and the rollback script to undo it.
+
+CREATE TABLE IF NOT EXISTS schema_migrations (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Kept when the source connection is removed, so the history stays readable
+  source_connection_id UUID REFERENCES connections(id) ON DELETE SET NULL,
+  target_connection_id UUID NOT NULL REFERENCES connections(id) ON DELETE CASCADE,
+  tables TEXT[] NOT NULL DEFAULT '{}',
+  -- SHA-256 of the plan's statements, to recognise the same plan across targets
+  checksum CHAR(64) NOT NULL,
+  script TEXT NOT NULL,
+  rollback_script TEXT NOT NULL,
+  -- Per-script outcome, in execution order
+  results JSONB NOT NULL DEFAULT '[]',
+  status VARCHAR(20) NOT NULL DEFAULT 'applying' CHECK (
+    status IN ('applying', 'applied', 'failed', 'rolled_back', 'rollback_failed')
+  ),
+  error TEXT,
+  -- Summary of the schema validation re-run after applying
+  verification JSONB,
+  applied_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  finished_at TIMESTAMPTZ,
+  rolled_back_at TIMESTAMPTZ,
+  rollback_error TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_schema_migrations_target
+  ON schema_migrations(target_connection_id, applied_at DESC);
+CREATE INDEX IF NOT EXISTS idx_schema_migrations_user_id ON schema_migrations(user_id);
+
+-- RLS for schema_migrations
+ALTER TABLE schema_migrations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own schema migrations" ON schema_migrations
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own schema migrations" ON schema_migrations
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+-- Entries are updated as a migration finishes or is rolled back, never
+-- deleted while their target connection exists
+CREATE POLICY "Users can update own schema migrations" ON schema_migrations
+  FOR UPDATE USING (auth.uid() = user_id);
+
+GRANT SELECT, INSERT, UPDATE ON schema_migrations TO authenticated;
+
+COMMENT ON TABLE schema_migrations IS 'Ledger of schema migrations applied to each target connection';
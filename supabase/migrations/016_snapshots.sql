@@ -0,0 +1,31 @@
+-- ============================================================================
+-- Point-in-time Snapshots
+-- ============================================================================
+-- sync_backups held only the automatic backup taken before a sync job. It
+-- now also holds user-initiated, named snapshots of any connection, which
+-- can be restored into the same or a different connection.
+--
+-- target_connection_id is the connection the backup was taken from (the
+-- sync target for pre-sync backups).
+
+ALTER TABLE sync_backups
+  ADD COLUMN IF NOT EXISTS kind TEXT NOT NULL DEFAULT 'pre_sync'
+    CHECK (kind IN ('pre_sync', 'snapshot')),
+  ADD COLUMN IF NOT EXISTS name TEXT,
+  ADD COLUMN IF NOT EXISTS description TEXT,
+  -- Storage adapter holding the content at backup_path ('local' or 'supabase')
+  ADD COLUMN IF NOT EXISTS storage_adapter TEXT NOT NULL DEFAULT 'supabase',
+  -- Rows per table, e.g. {"public.users": 120}
+  ADD COLUMN IF NOT EXISTS table_row_counts JSONB NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS completed_at TIMESTAMPTZ,
+  -- Connection the backup was last restored into
+  ADD COLUMN IF NOT EXISTS restored_connection_id UUID REFERENCES connections(id) ON DELETE SET NULL;
+
+ALTER TABLE sync_backups
+  ADD CONSTRAINT sync_backups_snapshot_name CHECK (kind <> 'snapshot' OR name IS NOT NULL);
+
+CREATE INDEX IF NOT EXISTS idx_sync_backups_user_kind
+  ON sync_backups(user_id, kind, created_at DESC)
+  WHERE deleted_at IS NULL;
+
+COMMENT ON TABLE sync_backups IS 'Pre-sync backups and named snapshots; content lives in the storage adapter at backup_path';
@@ -0,0 +1,13 @@
+-- ============================================================================
+-- Backup Verification
+-- ============================================================================
+-- Result of the last integrity check of a backup or snapshot: manifest
+-- checksums, statement parsing and, optionally, a rehearsal restore into a
+-- scratch schema comparing row counts and row hashes. Shape:
+-- { status, rehearsal, verifiedAt, tables: [{ tableName, expectedRows,
+--   parsedRows, chunksVerified, rehearsalRows, rowsHashMatches, errors }],
+--   errors }
+
+ALTER TABLE sync_backups
+  ADD COLUMN IF NOT EXISTS verification JSONB,
+  ADD COLUMN IF NOT EXISTS verified_at TIMESTAMPTZ;
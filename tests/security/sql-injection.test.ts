@@ -13,6 +13,7 @@ import {
   sanitizeTableName,
   sanitizeTableNames,
 } from '@/lib/validations/schemas';
+import { compileRowFilters, validateRowFilters } from '@/lib/services/row-filter';
 
 describe('SQL Injection Prevention', () => {
   describe('escapeIdentifier', () => {
@@ -277,3 +278,32 @@ describe('PostgreSQL Specific Injection Tests', () => {
   });
 });
 
+describe('Row Filter Compilation', () => {
+  it('should pass filter values as parameters', () => {
+    const compiled = compileRowFilters([
+      { column: 'tenant_id', operator: 'eq', value: "1'; DROP TABLE users; --" },
+      { column: 'status', operator: 'in', value: ['active', 'trial'] },
+    ], 3);
+
+    expect(compiled.sql).toBe('"tenant_id" = $3 AND "status" IN ($4, $5)');
+    expect(compiled.params).toEqual(["1'; DROP TABLE users; --", 'active', 'trial']);
+  });
+
+  it('should compile relative date windows with a parameter', () => {
+    const compiled = compileRowFilters([{ column: 'created_at', operator: 'within_days', value: 30 }]);
+
+    expect(compiled.sql).toBe(`"created_at" >= NOW() - ($1::int * INTERVAL '1 day')`);
+    expect(compiled.params).toEqual([30]);
+  });
+
+  it('should reject columns that are not on the table', () => {
+    const errors = validateRowFilters([
+      { column: 'id; DROP TABLE users', operator: 'eq', value: 1 },
+      { column: 'missing', operator: 'is_null' },
+    ], ['id', 'tenant_id']);
+
+    expect(errors).toHaveLength(2);
+    expect(errors[0]).toContain('invalid column name');
+    expect(errors[1]).toContain('does not exist');
+  });
+});
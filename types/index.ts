@@ -13,6 +13,8 @@ export interface DetailedColumn {
   name: string;
   dataType: string;
   udtName: string;
+  /** Schema of the column's type (relevant for ENUMs and other user-defined types) */
+  udtSchema?: string;
   isNullable: boolean;
   defaultValue: string | null;
   maxLength: number | null;
@@ -62,7 +64,9 @@ export interface PrimaryKey {
 }
 
 export interface DetailedTableSchema {
+  /** Table key: bare name for `public`, `schema.table` otherwise */
   tableName: string;
+  schemaName?: string;
   columns: DetailedColumn[];
   primaryKey: PrimaryKey | null;
   foreignKeys: ForeignKey[];
@@ -70,6 +74,9 @@ export interface DetailedTableSchema {
   indexes: TableIndex[];
   rowCount: number;
   estimatedSize?: string;
+  /** Row-level security enabled (and forced for the table owner) */
+  rlsEnabled?: boolean;
+  rlsForced?: boolean;
 }
 
 // ============================================
@@ -82,9 +89,86 @@ export interface EnumType {
   values: string[];
 }
 
+// ============================================
+// Database Object Types
+// ============================================
+
+export interface ViewDefinition {
+  schema: string;
+  name: string;
+  isMaterialized: boolean;
+  /** SELECT body, as returned by pg_get_viewdef */
+  definition: string;
+  /** Tables and views it selects from (table keys) */
+  dependsOn?: string[];
+}
+
+export interface FunctionDefinition {
+  schema: string;
+  name: string;
+  /** Argument list identifying the overload, e.g. `user_id uuid, amount integer` */
+  identityArguments: string;
+  kind: 'function' | 'procedure';
+  language: string;
+  /** Full CREATE OR REPLACE statement, as returned by pg_get_functiondef */
+  definition: string;
+}
+
+export interface TriggerDefinition {
+  /** Table key (see DetailedTableSchema.tableName) */
+  tableName: string;
+  name: string;
+  isEnabled: boolean;
+  /** Full CREATE TRIGGER statement, as returned by pg_get_triggerdef */
+  definition: string;
+  /** Trigger function it executes, as a qualified name */
+  functionName?: string;
+}
+
+export interface SequenceDefinition {
+  schema: string;
+  name: string;
+  dataType: string;
+  // 64-bit values are kept as strings to avoid precision loss
+  startValue: string;
+  increment: string;
+  minValue: string;
+  maxValue: string;
+  cycle: boolean;
+  /** Last value handed out, null if the sequence has never been used */
+  lastValue: string | null;
+  /** Column that owns the sequence (serial/identity), as `table.column` */
+  ownedBy: string | null;
+  /** Identity sequences are created with their column, never on their own */
+  isIdentity: boolean;
+}
+
+export interface ExtensionDefinition {
+  name: string;
+  schema: string;
+  version: string;
+}
+
+export interface RlsPolicy {
+  /** Table key (see DetailedTableSchema.tableName) */
+  tableName: string;
+  name: string;
+  permissive: boolean;
+  command: 'ALL' | 'SELECT' | 'INSERT' | 'UPDATE' | 'DELETE';
+  roles: string[];
+  using: string | null;
+  withCheck: string | null;
+}
+
 export interface DatabaseSchema {
   tables: DetailedTableSchema[];
   enums: EnumType[];
+  views: ViewDefinition[];
+  functions: FunctionDefinition[];
+  triggers: TriggerDefinition[];
+  sequences: SequenceDefinition[];
+  extensions: ExtensionDefinition[];
+  policies: RlsPolicy[];
   syncableTables: string[];
   version: string;
   inspectedAt: Date;
@@ -162,6 +246,8 @@ export interface SchemaValidationResult {
   sourceSchema: DatabaseSchema;
   targetSchema: DatabaseSchema;
   comparisonDetails: TableComparisonResult[];
+  /** Tables and columns that look renamed rather than dropped and re-added */
+  renameCandidates?: RenameCandidate[];
   // Legacy properties for backward compatibility
   isCompatible?: boolean;
   canSync?: boolean;
@@ -173,6 +259,28 @@ export interface SchemaValidationResult {
   schemaMismatch?: number;
 }
 
+// ============================================
+// Rename Detection Types
+// ============================================
+
+export interface RenameCandidate {
+  /** Stable across validations, e.g. `column:orders:name->full_name`; decisions are keyed by it */
+  id: string;
+  kind: 'table' | 'column';
+  /** Table key the rename applies to (the new key, for table renames) */
+  tableName: string;
+  /** Name in the target (table key for table renames) */
+  from: string;
+  /** Name in the source (table key for table renames) */
+  to: string;
+  /** 0-1 */
+  confidence: number;
+  /** What matched, e.g. "same type (text)" */
+  reasons: string[];
+}
+
+export type RenameDecision = 'accepted' | 'rejected';
+
 // ============================================
 // Migration Types
 // ============================================
@@ -198,6 +306,49 @@ export interface MigrationPlan {
   riskLevel: 'low' | 'medium' | 'high';
 }
 
+/** Outcome of one plan script in a schema migration ledger entry */
+export interface MigrationScriptResult {
+  tableName: string;
+  description: string;
+  status: 'success' | 'error' | 'skipped';
+  error?: string;
+  note?: string;
+  durationMs: number;
+}
+
+/** Schema validation re-run against the target after applying a migration */
+export interface MigrationVerification {
+  isValid: boolean;
+  summary: ValidationSummary;
+  /** Issues still reported, capped for storage */
+  remainingIssues: Pick<ValidationIssue, 'severity' | 'tableName' | 'columnName' | 'message'>[];
+  verifiedAt: string;
+}
+
+export interface SqlDryRunStatement {
+  index: number;
+  sql: string;
+  status: 'success' | 'error' | 'skipped';
+  command?: string;
+  rowCount?: number;
+  durationMs: number;
+  notices: string[];
+  error?: string;
+  reason?: string;
+}
+
+/** Result of POST /api/connections/[id]/execute with `dryRun: true` */
+export interface SqlDryRunResult {
+  dryRun: true;
+  statements: SqlDryRunStatement[];
+  totalStatements: number;
+  successfulStatements: number;
+  failedStatements: number;
+  skippedStatements: number;
+  wouldSucceed: boolean;
+  durationMs: number;
+}
+
 // ============================================
 // Sync Types
 // ============================================
@@ -210,21 +361,63 @@ export interface SyncProgress {
   processedRows: number;
   insertedRows: number;
   updatedRows: number;
+  deletedRows: number;
   skippedRows: number;
   errors: number;
 }
 
 export interface SyncCheckpoint {
   lastTable: string;
+  // Serialized primary key of the last synced row (JSON array for composite keys)
   lastRowId: string;
   lastUpdatedAt: string;
   processedTables: string[];
 }
 
+export type RowFilterOperator =
+  | 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte'
+  | 'in' | 'not_in' | 'like'
+  | 'is_null' | 'is_not_null'
+  | 'within_days';
+
+export type RowFilterValue = string | number | boolean | null | (string | number)[];
+
+// A single WHERE predicate restricting which source rows are synced
+export interface RowFilter {
+  column: string;
+  operator: RowFilterOperator;
+  // Omitted for is_null / is_not_null; a list for in / not_in; days for within_days
+  value?: RowFilterValue;
+}
+
+export type ColumnMaskingTransform = 'hash' | 'fake_email' | 'null' | 'fixed' | 'truncate';
+
+// A transform applied to one column of every synced row, e.g. to scrub PII
+export interface ColumnMaskingRule {
+  column: string;
+  transform: ColumnMaskingTransform;
+  // Replacement value for `fixed`
+  value?: string | number | boolean | null;
+  // Maximum length for `truncate`
+  length?: number;
+}
+
 export interface TableConfig {
   tableName: string;
   enabled: boolean;
   conflictStrategy?: 'source_wins' | 'target_wins' | 'last_write_wins' | 'manual';
+  // Delete target rows whose primary key no longer exists in the source
+  mirrorDeletes?: boolean;
+  // Timestamp or integer column used to detect changed rows (default: updated_at).
+  // null compares full row hashes instead.
+  changeTrackingColumn?: string | null;
+  // Only source rows matching all filters are synced
+  filters?: RowFilter[];
+  // Column projection: sync only these columns, or all but these
+  includeColumns?: string[];
+  excludeColumns?: string[];
+  // Transforms applied to source rows before they are written to the target
+  masking?: ColumnMaskingRule[];
 }
 
 // ============================================
@@ -259,6 +452,9 @@ export interface Conflict {
   targetData: Record<string, unknown>;
   sourceUpdatedAt: Date;
   targetUpdatedAt: Date;
+  // Set instead of timestamps when the table is tracked by an integer version
+  sourceVersion?: number;
+  targetVersion?: number;
   resolution: 'pending' | 'source' | 'target' | 'merged';
 }
 
@@ -286,6 +482,94 @@ export interface TableDiff {
   targetRowCount: number;
   inserts: number;
   updates: number;
+  deletes: number;
   sampleInserts: Record<string, unknown>[];
   sampleUpdates: Record<string, unknown>[];
+  filteredSourceRowCount?: number; // Source rows matching the table's row filters
+  filterSummary?: string;
+}
+
+// ============================================
+// Data Diff Report Types
+// ============================================
+
+export type DataDiffRowStatus = 'only_in_source' | 'only_in_target' | 'differing';
+
+export interface DataDiffColumnChange {
+  columnName: string;
+  /** Differing rows in which this column differs */
+  rows: number;
+}
+
+export interface DataDiffRowSample {
+  /** Primary key, serialized like sync checkpoints */
+  key: string;
+  status: DataDiffRowStatus;
+  source: Record<string, unknown> | null;
+  target: Record<string, unknown> | null;
+  /** Columns whose values differ; empty unless status is 'differing' */
+  changedColumns: string[];
+}
+
+export interface DataDiffTable {
+  tableName: string;
+  primaryKey: string[];
+  /** Columns present in both databases; only these are compared */
+  columns: string[];
+  sourceRowCount: number;
+  targetRowCount: number;
+  onlyInSource: number;
+  onlyInTarget: number;
+  identical: number;
+  differing: number;
+  /** Per-column counts for differing rows, most changed first */
+  columnChanges: DataDiffColumnChange[];
+  /** A few rows of each status, for side-by-side review */
+  samples: DataDiffRowSample[];
+  /** Primary key ranges hashed, and how many of them had to be compared row by row */
+  rangesCompared: number;
+  rangesDiffering: number;
+  /** Why the table could not be compared, e.g. missing in one database */
+  error?: string;
+}
+
+export interface DataDiffReport {
+  sourceName: string;
+  targetName: string;
+  generatedAt: string;
+  tables: DataDiffTable[];
+  totals: {
+    onlyInSource: number;
+    onlyInTarget: number;
+    identical: number;
+    differing: number;
+  };
+}
+
+// ============================================
+// Explorer Filter Types
+// ============================================
+
+export type ExplorerFilterOperator =
+  | 'eq' | 'neq'
+  | 'contains' | 'not_contains'
+  | 'gt' | 'gte' | 'lt' | 'lte' | 'between'
+  | 'is_null' | 'is_not_null';
+
+export type ExplorerFilterValue = string | number | boolean;
+
+// A predicate on one column of the table being browsed
+export interface ExplorerFilterCondition {
+  column: string;
+  operator: ExplorerFilterOperator;
+  // Omitted for is_null / is_not_null; the lower bound for between
+  value?: ExplorerFilterValue;
+  // Upper bound for between
+  valueTo?: ExplorerFilterValue;
+}
+
+// Conditions and nested groups combined with AND or OR
+export interface ExplorerFilterGroup {
+  combinator: 'and' | 'or';
+  conditions: (ExplorerFilterCondition | ExplorerFilterGroup)[];
 }
@@ -28,6 +28,7 @@ export interface Database {
           environment: 'production' | 'development';
           keep_alive: boolean;
           last_pinged_at: string | null;
+          schemas: string[];
           created_at: string;
           updated_at: string;
         };
@@ -39,6 +40,7 @@ export interface Database {
           environment: 'production' | 'development';
           keep_alive?: boolean;
           last_pinged_at?: string | null;
+          schemas?: string[];
           created_at?: string;
           updated_at?: string;
         };
@@ -50,6 +52,7 @@ export interface Database {
           environment?: 'production' | 'development';
           keep_alive?: boolean;
           last_pinged_at?: string | null;
+          schemas?: string[];
           created_at?: string;
           updated_at?: string;
         };
@@ -287,6 +290,242 @@ export interface Database {
           ip_address?: string;
         };
       };
+      scheduled_syncs: {
+        Row: {
+          id: string;
+          user_id: string;
+          name: string;
+          source_connection_id: string;
+          target_connection_id: string;
+          direction: 'one_way' | 'two_way';
+          tables_config: Json;
+          cron_expression: string;
+          timezone: string;
+          enabled: boolean;
+          next_run_at: string | null;
+          last_run_at: string | null;
+          last_run_status: 'success' | 'failed' | 'running' | null;
+          last_run_job_id: string | null;
+          last_error: string | null;
+          locked_at: string | null;
+          locked_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          name: string;
+          source_connection_id: string;
+          target_connection_id: string;
+          direction?: 'one_way' | 'two_way';
+          tables_config?: Json;
+          cron_expression: string;
+          timezone?: string;
+          enabled?: boolean;
+          next_run_at?: string | null;
+          last_run_at?: string | null;
+          last_run_status?: 'success' | 'failed' | 'running' | null;
+          last_run_job_id?: string | null;
+          last_error?: string | null;
+          locked_at?: string | null;
+          locked_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          name?: string;
+          source_connection_id?: string;
+          target_connection_id?: string;
+          direction?: 'one_way' | 'two_way';
+          tables_config?: Json;
+          cron_expression?: string;
+          timezone?: string;
+          enabled?: boolean;
+          next_run_at?: string | null;
+          last_run_at?: string | null;
+          last_run_status?: 'success' | 'failed' | 'running' | null;
+          last_run_job_id?: string | null;
+          last_error?: string | null;
+          locked_at?: string | null;
+          locked_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      api_tokens: {
+        Row: {
+          id: string;
+          user_id: string;
+          name: string;
+          token_prefix: string;
+          token_hash: string;
+          scopes: ('read' | 'sync' | 'admin')[];
+          rate_limit_per_minute: number;
+          expires_at: string | null;
+          last_used_at: string | null;
+          revoked_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          name: string;
+          token_prefix: string;
+          token_hash: string;
+          scopes: ('read' | 'sync' | 'admin')[];
+          rate_limit_per_minute?: number;
+          expires_at?: string | null;
+          last_used_at?: string | null;
+          revoked_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          name?: string;
+          token_prefix?: string;
+          token_hash?: string;
+          scopes?: ('read' | 'sync' | 'admin')[];
+          rate_limit_per_minute?: number;
+          expires_at?: string | null;
+          last_used_at?: string | null;
+          revoked_at?: string | null;
+          created_at?: string;
+        };
+      };
+      schema_migrations: {
+        Row: {
+          id: string;
+          user_id: string;
+          source_connection_id: string | null;
+          target_connection_id: string;
+          tables: string[];
+          checksum: string;
+          script: string;
+          rollback_script: string;
+          results: Json;
+          status: 'applying' | 'applied' | 'failed' | 'rolled_back' | 'rollback_failed';
+          error: string | null;
+          verification: Json | null;
+          applied_at: string;
+          finished_at: string | null;
+          rolled_back_at: string | null;
+          rollback_error: string | null;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          source_connection_id?: string | null;
+          target_connection_id: string;
+          tables?: string[];
+          checksum: string;
+          script: string;
+          rollback_script: string;
+          results?: Json;
+          status?: 'applying' | 'applied' | 'failed' | 'rolled_back' | 'rollback_failed';
+          error?: string | null;
+          verification?: Json | null;
+          applied_at?: string;
+          finished_at?: string | null;
+          rolled_back_at?: string | null;
+          rollback_error?: string | null;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          source_connection_id?: string | null;
+          target_connection_id?: string;
+          tables?: string[];
+          checksum?: string;
+          script?: string;
+          rollback_script?: string;
+          results?: Json;
+          status?: 'applying' | 'applied' | 'failed' | 'rolled_back' | 'rollback_failed';
+          error?: string | null;
+          verification?: Json | null;
+          applied_at?: string;
+          finished_at?: string | null;
+          rolled_back_at?: string | null;
+          rollback_error?: string | null;
+        };
+      };
+      sync_backups: {
+        Row: {
+          id: string;
+          sync_job_id: string | null;
+          user_id: string;
+          target_connection_id: string | null;
+          kind: 'pre_sync' | 'snapshot';
+          name: string | null;
+          description: string | null;
+          tables: string[];
+          backup_path: string;
+          storage_adapter: string;
+          size_bytes: number;
+          row_count: number;
+          table_row_counts: Json;
+          status: 'creating' | 'completed' | 'restoring' | 'restored' | 'failed';
+          error: string | null;
+          created_at: string;
+          completed_at: string | null;
+          restored_at: string | null;
+          restored_connection_id: string | null;
+          verification: Json | null;
+          verified_at: string | null;
+          deleted_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          sync_job_id?: string | null;
+          user_id: string;
+          target_connection_id?: string | null;
+          kind?: 'pre_sync' | 'snapshot';
+          name?: string | null;
+          description?: string | null;
+          tables?: string[];
+          backup_path: string;
+          storage_adapter?: string;
+          size_bytes?: number;
+          row_count?: number;
+          table_row_counts?: Json;
+          status?: 'creating' | 'completed' | 'restoring' | 'restored' | 'failed';
+          error?: string | null;
+          created_at?: string;
+          completed_at?: string | null;
+          restored_at?: string | null;
+          restored_connection_id?: string | null;
+          verification?: Json | null;
+          verified_at?: string | null;
+          deleted_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          sync_job_id?: string | null;
+          user_id?: string;
+          target_connection_id?: string | null;
+          kind?: 'pre_sync' | 'snapshot';
+          name?: string | null;
+          description?: string | null;
+          tables?: string[];
+          backup_path?: string;
+          storage_adapter?: string;
+          size_bytes?: number;
+          row_count?: number;
+          table_row_counts?: Json;
+          status?: 'creating' | 'completed' | 'restoring' | 'restored' | 'failed';
+          error?: string | null;
+          created_at?: string;
+          completed_at?: string | null;
+          restored_at?: string | null;
+          restored_connection_id?: string | null;
+          verification?: Json | null;
+          verified_at?: string | null;
+          deleted_at?: string | null;
+        };
+      };
     };
     Views: {
       [_ in never]: never;
@@ -318,4 +557,8 @@ export type Connection = Tables<'connections'>;
 export type SyncJob = Tables<'sync_jobs'>;
 export type SyncLog = Tables<'sync_logs'>;
 export type UserSettings = Tables<'user_settings'>;
+export type ScheduledSync = Tables<'scheduled_syncs'>;
+export type ApiToken = Tables<'api_tokens'>;
+export type SchemaMigration = Tables<'schema_migrations'>;
+export type SyncBackup = Tables<'sync_backups'>;
 